@@ -0,0 +1,48 @@
+// Regenerates the gazetteer rows in the geocoding migration from src/lib/gazetteer.json, the
+// single source of the bundled gazetteer. Every city name and alias becomes one lowercased row
+// between the BEGIN/END GAZETTEER markers. Run with `npm run gazetteer:sql` after editing the
+// JSON; `--check` exits non-zero instead of writing when the migration is out of date.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const sourcePath = `${root}src/lib/gazetteer.json`;
+const migrationPath = `${root}supabase/migrations/20251201000000_geocode_locations.sql`;
+
+const BEGIN = '  -- BEGIN GAZETTEER (generated by scripts/generate-gazetteer-sql.mjs, do not edit)\n';
+const END = '  -- END GAZETTEER\n';
+
+const quote = (value) => `'${value.replace(/'/g, "''")}'`;
+
+const { places } = JSON.parse(readFileSync(sourcePath, 'utf8'));
+const rows = places.flatMap((place) =>
+  [place.name, ...(place.aliases || [])].map((name) =>
+    `  (${[
+      quote(name.toLowerCase()),
+      quote(place.district),
+      quote(place.state),
+      quote(place.pincode),
+      place.latitude.toFixed(4),
+      place.longitude.toFixed(4),
+    ].join(', ')})`
+  )
+);
+
+const migration = readFileSync(migrationPath, 'utf8');
+const start = migration.indexOf(BEGIN);
+const end = migration.indexOf(END, start);
+if (start < 0 || end < 0) {
+  console.error(`Gazetteer markers not found in ${migrationPath}`);
+  process.exit(1);
+}
+
+const updated = migration.slice(0, start + BEGIN.length) + rows.join(',\n') + '\n' + migration.slice(end);
+if (updated === migration) {
+  console.log('Gazetteer rows are up to date');
+} else if (process.argv.includes('--check')) {
+  console.error('Gazetteer rows are out of date; run npm run gazetteer:sql');
+  process.exit(1);
+} else {
+  writeFileSync(migrationPath, updated);
+  console.log(`Wrote ${rows.length} gazetteer rows to ${migrationPath}`);
+}
@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { LanguageProvider } from "@/contexts/LanguageContext";
 import { ThemeProvider } from "@/components/theme-provider";
 import { lazy, Suspense } from "react";
 
@@ -14,8 +15,13 @@ const Dashboard = lazy(() => import("./pages/Dashboard"));
 const LawyerDashboard = lazy(() => import("./pages/LawyerDashboard"));
 const AIChatbot = lazy(() => import("./pages/AIChatbot"));
 const DocumentSummarizer = lazy(() => import("./pages/DocumentSummarizer"));
+const MyDocuments = lazy(() => import("./pages/MyDocuments"));
 const GovernmentSchemes = lazy(() => import("./pages/GovernmentSchemes"));
 const FindLawyers = lazy(() => import("./pages/FindLawyers"));
+const LawyerProfile = lazy(() => import("./pages/LawyerProfile"));
+const DraftStudio = lazy(() => import("./pages/DraftStudio"));
+const AdminSchemes = lazy(() => import("./pages/AdminSchemes"));
+const AdminReviews = lazy(() => import("./pages/AdminReviews"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient();
@@ -60,6 +66,7 @@ const AppRoutes = () => {
         {/* Public Routes */}
         <Route path="/" element={<Index />} />
         <Route path="/auth" element={<Auth />} />
+        <Route path="/lawyers/:id" element={<LawyerProfile />} />
         
         {/* Protected Routes - Require Authentication */}
         <Route 
@@ -94,6 +101,14 @@ const AppRoutes = () => {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/documents" 
+          element={
+            <ProtectedRoute>
+              <MyDocuments />
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/government-schemes" 
           element={
@@ -110,6 +125,30 @@ const AppRoutes = () => {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/draft" 
+          element={
+            <ProtectedRoute>
+              <DraftStudio />
+            </ProtectedRoute>
+          } 
+        />
+        <Route 
+          path="/admin/schemes" 
+          element={
+            <ProtectedRoute>
+              <AdminSchemes />
+            </ProtectedRoute>
+          } 
+        />
+        <Route 
+          path="/admin/reviews" 
+          element={
+            <ProtectedRoute>
+              <AdminReviews />
+            </ProtectedRoute>
+          } 
+        />
         
         {/* 404 Not Found */}
         <Route path="*" element={<NotFound />} />
@@ -122,13 +161,15 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider defaultTheme="dark" storageKey="nyaai-ui-theme">
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <AppRoutes />
-          </BrowserRouter>
-        </TooltipProvider>
+        <LanguageProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <AppRoutes />
+            </BrowserRouter>
+          </TooltipProvider>
+        </LanguageProvider>
       </AuthProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -0,0 +1,412 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarDays, CalendarOff, Plus, Save, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  BlockedDate,
+  BOOKING_WINDOW_DAYS,
+  bookingDate,
+  CHANGE_CUTOFF_HOURS,
+  CONSULTATION_MODE_LABELS,
+  CONSULTATION_MODES,
+  ConsultationMode,
+  DEFAULT_SLOT_MINUTES,
+  SLOT_LENGTHS,
+} from '@/lib/appointments';
+
+// Monday first, as lawyers plan their week; values are extract(dow) numbers
+const WEEKDAYS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 0, label: 'Sunday' },
+];
+
+const DEFAULT_RANGE = { start: '10:00', end: '17:00' };
+
+type TimeRange = { start: string; end: string };
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Problems with one day's ranges, or null when they can be saved
+const checkRanges = (label: string, ranges: TimeRange[], slotMinutes: number) => {
+  const sorted = [...ranges].sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+  for (const [index, range] of sorted.entries()) {
+    if (!range.start || !range.end || toMinutes(range.start) >= toMinutes(range.end)) {
+      return `${label}: each range must end after it starts`;
+    }
+    if (toMinutes(range.end) - toMinutes(range.start) < slotMinutes) {
+      return `${label}: ${range.start}–${range.end} is shorter than one ${slotMinutes}-minute slot`;
+    }
+    if (index > 0 && toMinutes(range.start) < toMinutes(sorted[index - 1].end)) {
+      return `${label}: ranges overlap`;
+    }
+  }
+  return null;
+};
+
+interface AvailabilityEditorProps {
+  // Slots are only offered while the lawyer is accepting new clients
+  acceptingClients: boolean;
+}
+
+/**
+ * Lawyer dashboard card for the consultation calendar: slot length, the consultation types on
+ * offer, weekly working hours and blocked dates. Hours and settings are saved together; blocked
+ * dates are added and removed straight away.
+ */
+const AvailabilityEditor = ({ acceptingClients }: AvailabilityEditorProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [slotMinutes, setSlotMinutes] = useState(DEFAULT_SLOT_MINUTES);
+  const [modes, setModes] = useState<ConsultationMode[]>(CONSULTATION_MODES);
+  const [hours, setHours] = useState<Record<number, TimeRange[]>>({});
+  const [blockedDates, setBlockedDates] = useState<BlockedDate[]>([]);
+  const [newBlockedDate, setNewBlockedDate] = useState('');
+  const [newBlockedReason, setNewBlockedReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const today = bookingDate(new Date());
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadSchedule = async () => {
+      const [
+        { data: lawyerProfile, error: profileError },
+        { data: hourRows, error: hoursError },
+        { data: blockedRows, error: blockedError },
+      ] = await Promise.all([
+        supabase
+          .from('lawyer_profiles')
+          .select('slot_minutes, consultation_modes')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('lawyer_working_hours')
+          .select('weekday, start_time, end_time')
+          .eq('lawyer_id', user.id)
+          .order('start_time', { ascending: true }),
+        supabase
+          .from('lawyer_blocked_dates')
+          .select('id, blocked_on, reason')
+          .eq('lawyer_id', user.id)
+          .gte('blocked_on', bookingDate(new Date()))
+          .order('blocked_on', { ascending: true }),
+      ]);
+
+      if (profileError) console.error('Failed to load consultation settings:', profileError);
+      if (hoursError) console.error('Failed to load working hours:', hoursError);
+      if (blockedError) console.error('Failed to load blocked dates:', blockedError);
+
+      if (lawyerProfile) {
+        setSlotMinutes(lawyerProfile.slot_minutes ?? DEFAULT_SLOT_MINUTES);
+        setModes(CONSULTATION_MODES.filter((mode) => lawyerProfile.consultation_modes?.includes(mode)));
+      }
+      const byDay: Record<number, TimeRange[]> = {};
+      for (const row of hourRows || []) {
+        byDay[row.weekday] = [...(byDay[row.weekday] ?? []), { start: row.start_time.slice(0, 5), end: row.end_time.slice(0, 5) }];
+      }
+      setHours(byDay);
+      setBlockedDates(blockedRows || []);
+      setLoading(false);
+    };
+
+    loadSchedule();
+  }, [user]);
+
+  const setDayRanges = (weekday: number, ranges: TimeRange[]) =>
+    setHours((current) => ({ ...current, [weekday]: ranges }));
+
+  const updateRange = (weekday: number, index: number, changes: Partial<TimeRange>) =>
+    setDayRanges(weekday, (hours[weekday] ?? []).map((range, i) => (i === index ? { ...range, ...changes } : range)));
+
+  const toggleMode = (mode: ConsultationMode, checked: boolean) =>
+    setModes((current) => CONSULTATION_MODES.filter((item) => (item === mode ? checked : current.includes(item))));
+
+  const saveSchedule = async () => {
+    if (!user) return;
+
+    if (modes.length === 0) {
+      toast({ title: 'Check your schedule', description: 'Offer at least one type of consultation.', variant: 'destructive' });
+      return;
+    }
+    for (const { value, label } of WEEKDAYS) {
+      const problem = checkRanges(label, hours[value] ?? [], slotMinutes);
+      if (problem) {
+        toast({ title: 'Check your schedule', description: problem, variant: 'destructive' });
+        return;
+      }
+    }
+
+    setSaving(true);
+    const [{ error: profileError }, { error: hoursError }] = await Promise.all([
+      supabase
+        .from('lawyer_profiles')
+        .update({ slot_minutes: slotMinutes, consultation_modes: modes })
+        .eq('user_id', user.id),
+      supabase.rpc('set_working_hours', {
+        _hours: WEEKDAYS.flatMap(({ value }) =>
+          (hours[value] ?? []).map((range) => ({ weekday: value, start_time: range.start, end_time: range.end }))
+        ),
+      }),
+    ]);
+    setSaving(false);
+
+    if (profileError || hoursError) {
+      console.error('Failed to save schedule:', profileError || hoursError);
+      toast({
+        title: 'Could not save your schedule',
+        description: ((profileError || hoursError) as { message?: string }).message,
+        variant: 'destructive'
+      });
+      return;
+    }
+    toast({ title: 'Schedule saved', description: acceptingClients ? 'Clients can now book your free slots.' : undefined });
+  };
+
+  const addBlockedDate = async () => {
+    if (!user || !newBlockedDate) return;
+
+    const { data, error } = await supabase
+      .from('lawyer_blocked_dates')
+      .insert({ lawyer_id: user.id, blocked_on: newBlockedDate, reason: newBlockedReason.trim() || null })
+      .select('id, blocked_on, reason')
+      .single();
+
+    if (error) {
+      console.error('Failed to block date:', error);
+      toast({
+        title: 'Could not block that date',
+        description: (error as { code?: string }).code === '23505' ? 'That date is already blocked.' : undefined,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setBlockedDates((current) =>
+      [...current, data].sort((a, b) => a.blocked_on.localeCompare(b.blocked_on))
+    );
+    setNewBlockedDate('');
+    setNewBlockedReason('');
+    toast({
+      title: 'Date blocked',
+      description: 'No new bookings on this day. Cancel any consultations already booked on it from your overview.',
+    });
+  };
+
+  const removeBlockedDate = async (blocked: BlockedDate) => {
+    const { error } = await supabase
+      .from('lawyer_blocked_dates')
+      .delete()
+      .eq('id', blocked.id);
+
+    if (error) {
+      console.error('Failed to unblock date:', error);
+      toast({ title: 'Could not unblock that date', variant: 'destructive' });
+      return;
+    }
+    setBlockedDates((current) => current.filter((item) => item.id !== blocked.id));
+  };
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Consultation Calendar
+        </CardTitle>
+        <CardDescription>
+          Publish the hours clients can book you for. Times are India Standard Time; clients can book up to {BOOKING_WINDOW_DAYS} days
+          ahead and change or cancel until {CHANGE_CUTOFF_HOURS} hours before the start.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="h-24 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            {!acceptingClients && (
+              <p className="text-sm rounded-md border border-yellow-500/40 bg-yellow-500/5 p-3">
+                You are not accepting new clients, so no slots are offered. Turn availability back on in your profile to take bookings.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="slot-minutes">Slot Length</Label>
+                <Select value={slotMinutes.toString()} onValueChange={(value) => setSlotMinutes(parseInt(value, 10))}>
+                  <SelectTrigger id="slot-minutes">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SLOT_LENGTHS.map((minutes) => (
+                      <SelectItem key={minutes} value={minutes.toString()}>
+                        {minutes} minutes
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Consultation Types</Label>
+                <div className="flex flex-wrap gap-4 pt-2">
+                  {CONSULTATION_MODES.map((mode) => (
+                    <div key={mode} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`mode-${mode}`}
+                        checked={modes.includes(mode)}
+                        onCheckedChange={(checked) => toggleMode(mode, checked === true)}
+                      />
+                      <Label htmlFor={`mode-${mode}`} className="font-normal">{CONSULTATION_MODE_LABELS[mode]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Weekly Hours</Label>
+              <div className="divide-y rounded-md border">
+                {WEEKDAYS.map(({ value, label }) => {
+                  const ranges = hours[value] ?? [];
+                  return (
+                    <div key={value} className="flex flex-col sm:flex-row sm:items-start gap-3 p-3">
+                      <div className="flex items-center gap-3 w-36 shrink-0 pt-1">
+                        <Switch
+                          id={`day-${value}`}
+                          checked={ranges.length > 0}
+                          onCheckedChange={(checked) => setDayRanges(value, checked ? [DEFAULT_RANGE] : [])}
+                        />
+                        <Label htmlFor={`day-${value}`}>{label}</Label>
+                      </div>
+                      {ranges.length === 0 ? (
+                        <p className="text-sm text-muted-foreground pt-1">Unavailable</p>
+                      ) : (
+                        <div className="flex-1 space-y-2">
+                          {ranges.map((range, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                              <Input
+                                type="time"
+                                value={range.start}
+                                onChange={(e) => updateRange(value, index, { start: e.target.value })}
+                                className="w-32"
+                                aria-label={`${label} start`}
+                              />
+                              <span className="text-muted-foreground">to</span>
+                              <Input
+                                type="time"
+                                value={range.end}
+                                onChange={(e) => updateRange(value, index, { end: e.target.value })}
+                                className="w-32"
+                                aria-label={`${label} end`}
+                              />
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Remove these hours"
+                                onClick={() => setDayRanges(value, ranges.filter((_, i) => i !== index))}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1 h-7 px-2"
+                            onClick={() => setDayRanges(value, [...ranges, { start: ranges[ranges.length - 1].end, end: '' }])}
+                          >
+                            <Plus className="h-3 w-3" />
+                            Add hours
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <Button onClick={saveSchedule} disabled={saving} className="gap-2">
+              <Save className="h-4 w-4" />
+              {saving ? 'Saving...' : 'Save Schedule'}
+            </Button>
+
+            <div className="space-y-3 pt-4 border-t">
+              <div>
+                <Label className="flex items-center gap-2">
+                  <CalendarOff className="h-4 w-4" />
+                  Blocked Dates
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">Holidays, court days and leave. No slots are offered on these days.</p>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="date"
+                  value={newBlockedDate}
+                  min={today}
+                  onChange={(e) => setNewBlockedDate(e.target.value)}
+                  className="sm:w-44"
+                  aria-label="Date to block"
+                />
+                <Input
+                  value={newBlockedReason}
+                  onChange={(e) => setNewBlockedReason(e.target.value)}
+                  placeholder="Reason (optional, only you see it)"
+                  maxLength={200}
+                />
+                <Button variant="outline" onClick={addBlockedDate} disabled={!newBlockedDate} className="shrink-0">
+                  Block Date
+                </Button>
+              </div>
+              {blockedDates.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {blockedDates.map((blocked) => (
+                    <Badge key={blocked.id} variant="secondary" className="gap-1 py-1">
+                      {formatDate(blocked.blocked_on)}
+                      {blocked.reason && <span className="font-normal text-muted-foreground">· {blocked.reason}</span>}
+                      <button
+                        type="button"
+                        onClick={() => removeBlockedDate(blocked)}
+                        className="ml-1 hover:text-destructive"
+                        aria-label={`Unblock ${formatDate(blocked.blocked_on)}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AvailabilityEditor;
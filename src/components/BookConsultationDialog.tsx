@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalendarCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Appointment,
+  BOOKING_WINDOW_DAYS,
+  bookingDate,
+  CHANGE_CUTOFF_HOURS,
+  CONSULTATION_MODE_KEYS,
+  CONSULTATION_MODES,
+  ConsultationMode,
+  formatSlotDay,
+  formatSlotTime,
+  groupSlotsByDay,
+  MAX_RESCHEDULES,
+  Slot,
+} from '@/lib/appointments';
+
+interface BookConsultationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // auth.users id of the lawyer whose slots are offered
+  lawyerId: string;
+  // The lawyer when booking; whoever is on the other side when rescheduling
+  name: string;
+  // Move this appointment to another slot instead of booking a new one
+  appointment?: Appointment | null;
+  onSaved?: (appointment: Appointment) => void;
+}
+
+/**
+ * Dialog to book one of a lawyer's free slots, or to move an existing appointment. Slots for
+ * the whole booking window are loaded up front and grouped by day; the database has the final
+ * say on whether a slot is still free.
+ */
+const BookConsultationDialog = ({ open, onOpenChange, lawyerId, name, appointment, onSaved }: BookConsultationDialogProps) => {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [modes, setModes] = useState<ConsultationMode[]>(CONSULTATION_MODES);
+  const [loading, setLoading] = useState(true);
+  const [day, setDay] = useState<string | null>(null);
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [mode, setMode] = useState<ConsultationMode>('in_person');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadSlots = useCallback(async () => {
+    setLoading(true);
+    const from = new Date();
+    const to = new Date(from.getTime() + BOOKING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const [{ data: slotRows, error: slotsError }, { data: lawyerProfile, error: profileError }] = await Promise.all([
+      supabase.rpc('available_slots', {
+        _lawyer_id: lawyerId,
+        _from: bookingDate(from),
+        _to: bookingDate(to),
+        // When moving, the appointment's own time stays offered
+        _appointment_id: appointment?.id ?? null,
+      }),
+      supabase
+        .from('lawyer_profiles')
+        .select('consultation_modes')
+        .eq('user_id', lawyerId)
+        .maybeSingle(),
+    ]);
+
+    if (slotsError) {
+      console.error('Failed to load slots:', slotsError);
+      toast({ title: t('appointments.slotsFailed'), variant: 'destructive' });
+    }
+    if (profileError) console.error('Failed to load consultation modes:', profileError);
+
+    const loaded = slotRows || [];
+    const offered = CONSULTATION_MODES.filter((item) => lawyerProfile?.consultation_modes?.includes(item));
+    setSlots(loaded);
+    setModes(offered.length > 0 ? offered : CONSULTATION_MODES);
+    setMode((current) => (offered.length === 0 || offered.includes(current) ? current : offered[0]));
+    setDay((current) => (current && loaded.some((item) => bookingDate(item.starts_at) === current)
+      ? current
+      : loaded.length > 0 ? bookingDate(loaded[0].starts_at) : null));
+    setSlot(null);
+    setLoading(false);
+  }, [lawyerId, appointment?.id, t, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setDay(null);
+    setNotes('');
+    loadSlots();
+  }, [open, loadSlots]);
+
+  const byDay = groupSlotsByDay(slots);
+  const daySlots = day ? byDay.get(day) ?? [] : [];
+  const slotMinutes = daySlots.length > 0
+    ? Math.round((new Date(daySlots[0].ends_at).getTime() - new Date(daySlots[0].starts_at).getTime()) / 60000)
+    : 0;
+
+  const save = async () => {
+    if (!slot) return;
+    setSaving(true);
+
+    const { data, error } = appointment
+      ? await supabase.rpc('reschedule_appointment', {
+          _appointment_id: appointment.id,
+          _starts_at: slot.starts_at,
+        })
+      : await supabase.rpc('book_appointment', {
+          _lawyer_id: lawyerId,
+          _starts_at: slot.starts_at,
+          _mode: mode,
+          _notes: notes.trim() || null,
+        });
+
+    setSaving(false);
+    if (error) {
+      console.error('Failed to book slot:', error);
+      toast({
+        title: t('appointments.bookingFailed'),
+        description: (error as { message?: string }).message,
+        variant: 'destructive'
+      });
+      // Someone may have taken it; show what is still free
+      loadSlots();
+      return;
+    }
+
+    const when = { day: formatSlotDay(slot.starts_at, language), time: formatSlotTime(slot.starts_at, language) };
+    toast(appointment
+      ? { title: t('appointments.moved'), description: t('appointments.movedDescription', when) }
+      : { title: t('appointments.booked'), description: t('appointments.bookedDescription', when) });
+    onSaved?.(data);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {appointment ? t('appointments.rescheduleTitle', { name }) : t('appointments.bookTitle', { name })}
+          </DialogTitle>
+          <DialogDescription>{t('appointments.timesInIst')}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="h-32 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : slots.length === 0 ? (
+          <div className="py-6 text-center">
+            <p className="text-sm text-muted-foreground">{t('appointments.noSlots', { days: BOOKING_WINDOW_DAYS })}</p>
+            {!appointment && <p className="text-xs text-muted-foreground mt-1">{t('appointments.noSlotsHint')}</p>}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t('appointments.day')}</Label>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {[...byDay.entries()].map(([date, slotsOnDay]) => (
+                  <Button
+                    key={date}
+                    type="button"
+                    size="sm"
+                    variant={day === date ? 'default' : 'outline'}
+                    className="shrink-0"
+                    onClick={() => {
+                      setDay(date);
+                      setSlot(null);
+                    }}
+                  >
+                    {formatSlotDay(slotsOnDay[0].starts_at, language)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {daySlots.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t('appointments.time')}</Label>
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                  {daySlots.map((item) => (
+                    <Button
+                      key={item.starts_at}
+                      type="button"
+                      size="sm"
+                      variant={slot?.starts_at === item.starts_at ? 'default' : 'outline'}
+                      onClick={() => setSlot(item)}
+                    >
+                      {formatSlotTime(item.starts_at, language)}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{t('appointments.minutes', { count: slotMinutes })}</p>
+              </div>
+            )}
+
+            {!appointment && (
+              <>
+                <div className="space-y-2">
+                  <Label>{t('appointments.consultationType')}</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {modes.map((item) => (
+                      <Button
+                        key={item}
+                        type="button"
+                        size="sm"
+                        variant={mode === item ? 'default' : 'outline'}
+                        onClick={() => setMode(item)}
+                      >
+                        {t(CONSULTATION_MODE_KEYS[item])}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="consultation-notes">{t('appointments.notes')}</Label>
+                  <Textarea
+                    id="consultation-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder={t('appointments.notesPlaceholder')}
+                    maxLength={1000}
+                    rows={3}
+                  />
+                </div>
+              </>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {t('appointments.policy', { hours: CHANGE_CUTOFF_HOURS, count: MAX_RESCHEDULES })}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={save} disabled={!slot || saving} className="gap-2">
+            <CalendarCheck className="h-4 w-4" />
+            {saving
+              ? t('appointments.booking')
+              : slot
+                ? t(appointment ? 'appointments.confirmReschedule' : 'appointments.confirmBooking', {
+                    day: formatSlotDay(slot.starts_at, language),
+                    time: formatSlotTime(slot.starts_at, language),
+                  })
+                : appointment ? t('appointments.reschedule') : t('appointments.bookSlot')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookConsultationDialog;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { AlertTriangle, FileText, MapPin, Scale } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { CaseBrief, URGENCY_STYLES } from '@/lib/caseBrief';
+
+interface CaseBriefCardProps {
+  brief: CaseBrief;
+  className?: string;
+}
+
+const CaseBriefCard: React.FC<CaseBriefCardProps> = ({ brief, className }) => {
+  return (
+    <div className={cn("rounded-md border bg-muted/50 p-3 space-y-2 text-sm", className)}>
+      <div className="flex items-start justify-between gap-2">
+        <p className="font-semibold flex items-center gap-2">
+          <FileText className="h-4 w-4 text-primary" />
+          {brief.title}
+        </p>
+        <Badge variant="outline" className={cn("capitalize shrink-0", URGENCY_STYLES[brief.urgency])}>
+          {brief.urgency === 'urgent' && <AlertTriangle className="h-3 w-3 mr-1" />}
+          {brief.urgency}
+        </Badge>
+      </div>
+      <p>{brief.issue}</p>
+      {brief.facts.length > 0 && (
+        <ul className="list-disc list-inside space-y-0.5 text-muted-foreground">
+          {brief.facts.map((fact, index) => (
+            <li key={index}>{fact}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <MapPin className="h-3 w-3" />
+          {brief.jurisdiction}
+        </span>
+        <span className="flex items-center gap-1">
+          <Scale className="h-3 w-3" />
+          {brief.specialization}
+        </span>
+      </div>
+      {brief.urgency_reason && (
+        <p className="text-xs text-muted-foreground italic">{brief.urgency_reason}</p>
+      )}
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground">AI-generated brief from the client's NyaAI chat</p>
+    </div>
+  );
+};
+
+export default CaseBriefCard;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { BookOpen, ChevronDown, ChevronUp, ExternalLink } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Citation, formatCitationLabel } from '@/lib/citations';
+
+interface CitationFootnotesProps {
+  messageId: string;
+  citations: Citation[];
+  activeNumber?: number | null;
+  onSelect: (number: number | null) => void;
+}
+
+const CitationFootnotes: React.FC<CitationFootnotesProps> = ({
+  messageId,
+  citations,
+  activeNumber,
+  onSelect
+}) => {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border/50">
+      <p className="text-xs font-semibold flex items-center gap-1 mb-2 opacity-80">
+        <BookOpen className="h-3 w-3" />
+        Sources from the bare acts
+      </p>
+      <ol className="space-y-1">
+        {citations.map((citation) => {
+          const isOpen = activeNumber === citation.number;
+          return (
+            <li key={citation.number} id={`cite-${messageId}-${citation.number}`}>
+              <button
+                type="button"
+                onClick={() => onSelect(isOpen ? null : citation.number)}
+                className={cn(
+                  "w-full text-left text-xs rounded px-2 py-1 flex items-start gap-2 transition-colors hover:bg-background/60",
+                  isOpen && "bg-background/60"
+                )}
+              >
+                <span className="font-semibold text-primary">[{citation.number}]</span>
+                <span className="flex-1">
+                  {formatCitationLabel(citation)}
+                  {citation.title && <span className="opacity-70"> — {citation.title}</span>}
+                </span>
+                {isOpen ? <ChevronUp className="h-3 w-3 mt-0.5" /> : <ChevronDown className="h-3 w-3 mt-0.5" />}
+              </button>
+              {isOpen && (
+                <div className="mx-2 mt-1 mb-2 p-2 rounded bg-background/60 text-xs leading-relaxed">
+                  <p className="whitespace-pre-wrap">{citation.excerpt}</p>
+                  {citation.source_url && (
+                    <a
+                      href={citation.source_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 mt-2 text-primary hover:underline"
+                    >
+                      Read the full act on India Code
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default CitationFootnotes;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Scale, Search, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { formatPageRanges } from '@/lib/documents';
+import {
+  CLAUSE_CATEGORY_LABELS,
+  ClauseAnalysis,
+  ClauseCategory,
+  RISK_LEVEL_LABELS,
+  RISK_STYLES,
+  RiskLevel,
+  sortClauses,
+} from '@/lib/clauses';
+
+interface ClauseTableProps {
+  analysis: ClauseAnalysis;
+}
+
+const ClauseTable: React.FC<ClauseTableProps> = ({ analysis }) => {
+  const [category, setCategory] = useState<ClauseCategory | 'all'>('all');
+  const [risk, setRisk] = useState<RiskLevel | 'all'>('all');
+  const [query, setQuery] = useState('');
+
+  const redFlags = analysis.clauses.filter((c) => c.risk === 'high').length;
+  const search = query.trim().toLowerCase();
+  const clauses = sortClauses(analysis.clauses).filter((clause) =>
+    (category === 'all' || clause.category === category) &&
+    (risk === 'all' || clause.risk === risk) &&
+    (!search || [clause.title, clause.summary, clause.quote].some((text) => text.toLowerCase().includes(search)))
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Contract overview */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <div className="rounded-md border bg-muted/50 p-3">
+          <p className="text-xs text-muted-foreground mb-1">Document</p>
+          <p className="font-medium">{analysis.document_type || 'Agreement'}</p>
+        </div>
+        <div className="rounded-md border bg-muted/50 p-3">
+          <p className="text-xs text-muted-foreground mb-1 flex items-center gap-1">
+            <Users className="h-3 w-3" />
+            Parties
+          </p>
+          {analysis.parties.length > 0 ? (
+            analysis.parties.map((party, index) => (
+              <p key={index} className="font-medium">
+                {party.name}
+                {party.role && <span className="text-muted-foreground font-normal"> · {party.role}</span>}
+              </p>
+            ))
+          ) : (
+            <p className="text-muted-foreground">Not identified</p>
+          )}
+        </div>
+        <div className="rounded-md border bg-muted/50 p-3">
+          <p className="text-xs text-muted-foreground mb-1 flex items-center gap-1">
+            <Scale className="h-3 w-3" />
+            Governing law
+          </p>
+          <p className="font-medium">{analysis.governing_law || 'Not specified'}</p>
+        </div>
+      </div>
+
+      {redFlags > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {redFlags} red flag{redFlags !== 1 ? 's' : ''} found. Read these clauses carefully before you sign.
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search clauses..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={category} onValueChange={(value) => setCategory(value as ClauseCategory | 'all')}>
+          <SelectTrigger className="md:w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All clause types</SelectItem>
+            {Object.entries(CLAUSE_CATEGORY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={risk} onValueChange={(value) => setRisk(value as RiskLevel | 'all')}>
+          <SelectTrigger className="md:w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All risk levels</SelectItem>
+            {Object.entries(RISK_LEVEL_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {clauses.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          {analysis.clauses.length === 0 ? 'No clauses of these types were found in this document' : 'No clauses match these filters'}
+        </p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[140px]">Type</TableHead>
+                <TableHead>Clause</TableHead>
+                <TableHead className="w-[120px]">Risk</TableHead>
+                <TableHead className="w-[70px]">Page</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {clauses.map((clause) => (
+                <TableRow key={clause.id} className={cn(clause.risk === 'high' && 'bg-red-500/5 hover:bg-red-500/10')}>
+                  <TableCell className="align-top">
+                    <Badge variant="secondary" className="whitespace-nowrap">
+                      {CLAUSE_CATEGORY_LABELS[clause.category]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="align-top space-y-2">
+                    <p className="font-medium flex items-center gap-1">
+                      {clause.risk === 'high' && <AlertTriangle className="h-4 w-4 text-red-600 shrink-0" />}
+                      {clause.title}
+                    </p>
+                    {clause.summary && <p className="text-sm">{clause.summary}</p>}
+                    <blockquote className="border-l-2 pl-3 text-xs italic text-muted-foreground">
+                      "{clause.quote}"
+                    </blockquote>
+                    {clause.risk_reason && (
+                      <p className="text-xs text-muted-foreground">{clause.risk_reason}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <Badge variant="outline" className={cn("whitespace-nowrap", RISK_STYLES[clause.risk])}>
+                      {RISK_LEVEL_LABELS[clause.risk]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="align-top text-sm">
+                    {clause.page ? `p. ${clause.page}` : '—'}
+                    {!clause.quote_verified && (
+                      <p className="text-[10px] text-muted-foreground" title="The quote could not be matched to the document text">
+                        unverified
+                      </p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {analysis.skipped_pages.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Some pages could not be analyzed: {formatPageRanges(analysis.skipped_pages)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ClauseTable;
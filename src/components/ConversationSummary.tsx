@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2, NotebookPen, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+
+interface ConversationSummaryProps {
+  summary: string | null;
+  updatedAt: string | null;
+  onSave: (summary: string) => Promise<void>;
+}
+
+const ConversationSummary: React.FC<ConversationSummaryProps> = ({
+  summary,
+  updatedAt,
+  onSave
+}) => {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(summary || '');
+  const [saving, setSaving] = useState(false);
+
+  // Reset the editor whenever the stored summary changes (new session or server refresh)
+  useEffect(() => {
+    setDraft(summary || '');
+    setEditing(false);
+  }, [summary]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft.trim());
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border-b bg-background/40">
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="w-full flex items-center justify-between px-4 py-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <span className="flex items-center gap-2">
+            <NotebookPen className="h-3 w-3" />
+            Conversation memory
+            {updatedAt && (
+              <span className="opacity-70">
+                · updated {new Date(updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+              </span>
+            )}
+          </span>
+          {open ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-3">
+        {editing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Key facts, dates and questions the assistant should remember..."
+              className="min-h-[120px] text-sm"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setDraft(summary || '');
+                  setEditing(false);
+                }}
+                disabled={saving}
+              >
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="h-3 w-3 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {summary ? (
+              <p className="text-sm whitespace-pre-wrap">{summary}</p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No summary yet. Once this consultation gets long, older messages are condensed here so the assistant keeps their context.
+              </p>
+            )}
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => setEditing(true)}>
+                <Pencil className="h-3 w-3" />
+                {summary ? 'Edit' : 'Add notes'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ConversationSummary;
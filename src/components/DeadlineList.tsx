@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { BellPlus, CalendarDays, Check, Download, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { formatPageRanges } from '@/lib/documents';
+import { downloadIcs } from '@/lib/calendar';
+import {
+  DEADLINE_KIND_LABELS,
+  DeadlineAnalysis,
+  DeadlineEvent,
+  deadlineTitle,
+  deadlineToCalendarEvent,
+  describeDueDate,
+  daysUntil,
+  DUE_SOON_DAYS,
+  formatDueDate,
+} from '@/lib/deadlines';
+
+interface DeadlineListProps {
+  analysis: DeadlineAnalysis;
+  documentId: string;
+  documentTitle: string;
+}
+
+/**
+ * Dates and obligations found in a document. Dated events can be downloaded as an .ics
+ * calendar or added to the Dashboard reminders; relative deadlines (notice periods) get a
+ * date picker so the user can fix the day once they know it.
+ */
+const DeadlineList: React.FC<DeadlineListProps> = ({ analysis, documentId, documentTitle }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Dates the user picked for relative deadlines, by event id
+  const [chosenDates, setChosenDates] = useState<Record<string, string>>({});
+  // Event keys (date|title) already on the reminders list
+  const [added, setAdded] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const dateFor = (event: DeadlineEvent) => event.date ?? chosenDates[event.id] ?? null;
+  const reminderKey = (date: string, event: DeadlineEvent) => `${date}|${deadlineTitle(event)}`;
+
+  useEffect(() => {
+    const loadReminders = async () => {
+      const { data, error } = await supabase
+        .from('reminders')
+        .select('due_date, title')
+        .eq('document_id', documentId);
+
+      if (error) {
+        console.error('Failed to load reminders:', error);
+        return;
+      }
+      const rows = data || [];
+      setAdded(new Set(rows.map((row) => `${row.due_date}|${row.title}`)));
+    };
+
+    loadReminders();
+  }, [documentId]);
+
+  const datedEvents = analysis.events
+    .map((event) => ({ event, date: dateFor(event) }))
+    .filter((item): item is { event: DeadlineEvent; date: string } => item.date !== null);
+
+  const handleDownload = () => {
+    downloadIcs(
+      datedEvents.map(({ event, date }) => deadlineToCalendarEvent(event, date, { id: documentId, title: documentTitle })),
+      documentTitle,
+      `deadlines-${new Date().toISOString().split('T')[0]}.ics`
+    );
+  };
+
+  const addReminders = async (items: { event: DeadlineEvent; date: string }[], savingKey: string) => {
+    if (!user || items.length === 0) return;
+
+    setSaving(savingKey);
+    try {
+      const rows = items.map(({ event, date }) => ({
+        user_id: user.id,
+        document_id: documentId,
+        title: deadlineTitle(event),
+        description: event.description,
+        party: event.party || null,
+        kind: event.kind,
+        due_date: date,
+        source_clause: event.source_clause,
+        source_page: event.page,
+      }));
+
+      const { error } = await supabase
+        .from('reminders')
+        .upsert(rows, { onConflict: 'user_id,document_id,due_date,title', ignoreDuplicates: true });
+
+      if (error) throw error;
+
+      setAdded((current) => new Set([...current, ...items.map(({ event, date }) => reminderKey(date, event))]));
+      toast({
+        title: 'Added to reminders',
+        description: `${items.length} deadline${items.length !== 1 ? 's' : ''} will show on your Dashboard`,
+      });
+    } catch (error) {
+      console.error('Failed to add reminders:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add reminders',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const pending = datedEvents.filter(({ event, date }) => !added.has(reminderKey(date, event)));
+  const relativeCount = analysis.events.filter((event) => !event.date).length;
+
+  if (analysis.events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        No dates or deadlines were found in this document
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handleDownload} disabled={datedEvents.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Download .ics
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => addReminders(pending, 'all')}
+          disabled={pending.length === 0 || saving !== null}
+        >
+          {saving === 'all' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <BellPlus className="mr-2 h-4 w-4" />}
+          Add all to reminders
+        </Button>
+        {relativeCount > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {relativeCount} deadline{relativeCount !== 1 ? 's depend' : ' depends'} on a date not in the document; pick the day to add {relativeCount !== 1 ? 'them' : 'it'}.
+          </span>
+        )}
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[170px]">Date</TableHead>
+              <TableHead>Obligation</TableHead>
+              <TableHead className="w-[70px]">Page</TableHead>
+              <TableHead className="w-[60px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analysis.events.map((event) => {
+              const date = dateFor(event);
+              const isAdded = date !== null && added.has(reminderKey(date, event));
+              const days = date ? daysUntil(date) : null;
+
+              return (
+                <TableRow key={event.id}>
+                  <TableCell className="align-top space-y-1">
+                    {event.date ? (
+                      <p className="font-medium flex items-center gap-1 whitespace-nowrap">
+                        <CalendarDays className="h-3 w-3 shrink-0" />
+                        {formatDueDate(event.date)}
+                      </p>
+                    ) : (
+                      <Input
+                        type="date"
+                        value={chosenDates[event.id] ?? ''}
+                        onChange={(e) => setChosenDates((current) => ({ ...current, [event.id]: e.target.value }))}
+                        className="h-8 text-xs"
+                        aria-label={`Date for: ${event.description}`}
+                      />
+                    )}
+                    <p className="text-xs text-muted-foreground">{event.date_text}</p>
+                    {days !== null && (
+                      <p className={cn(
+                        'text-xs',
+                        days < 0 ? 'text-muted-foreground' : days <= DUE_SOON_DAYS ? 'text-red-600 font-medium' : 'text-muted-foreground'
+                      )}>
+                        {describeDueDate(date!)}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="align-top space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary" className="whitespace-nowrap">{DEADLINE_KIND_LABELS[event.kind]}</Badge>
+                      {event.party && <span className="text-xs text-muted-foreground">{event.party}</span>}
+                    </div>
+                    <p className="text-sm">{event.description}</p>
+                    <blockquote className="border-l-2 pl-3 text-xs italic text-muted-foreground">
+                      "{event.source_clause}"
+                    </blockquote>
+                  </TableCell>
+                  <TableCell className="align-top text-sm">
+                    {event.page ? `p. ${event.page}` : '—'}
+                    {!event.quote_verified && (
+                      <p className="text-[10px] text-muted-foreground" title="The quote could not be matched to the document text">
+                        unverified
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={isAdded ? 'On your reminders list' : 'Add to reminders'}
+                      disabled={!date || isAdded || saving !== null}
+                      onClick={() => date && addReminders([{ event, date }], event.id)}
+                    >
+                      {saving === event.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : isAdded ? (
+                        <Check className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <BellPlus className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {analysis.skipped_pages.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Some pages could not be checked for dates: {formatPageRanges(analysis.skipped_pages)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DeadlineList;
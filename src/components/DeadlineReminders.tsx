@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, CalendarClock, Check, Download, FileText, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { downloadIcs } from '@/lib/calendar';
+import { DEADLINE_KIND_LABELS, daysUntil, DUE_SOON_DAYS, Reminder, reminderToCalendarEvent } from '@/lib/deadlines';
+
+const VISIBLE_REMINDERS = 8;
+
+/**
+ * Dashboard card listing the open reminders added from documents, soonest first.
+ * Overdue and soon-due reminders are highlighted; done reminders drop off the list.
+ */
+const DeadlineReminders = () => {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadReminders = async () => {
+      const { data, error } = await supabase
+        .from('reminders')
+        .select('id, document_id, title, description, party, kind, due_date, source_clause, source_page, completed_at, created_at')
+        .is('completed_at', null)
+        .order('due_date', { ascending: true });
+
+      if (error) {
+        console.error('Failed to load reminders:', error);
+      } else {
+        setReminders(data || []);
+      }
+      setLoading(false);
+    };
+
+    loadReminders();
+  }, []);
+
+  const describeDue = (date: string) => {
+    const days = daysUntil(date);
+    if (days < -1) return t('dashboard.overdueBy', { count: -days });
+    if (days === -1) return t('dashboard.overdueYesterday');
+    if (days === 0) return t('dashboard.dueToday');
+    if (days === 1) return t('dashboard.dueTomorrow');
+    return t('dashboard.dueInDays', { count: days });
+  };
+
+  const updateReminder = async (reminder: Reminder, action: 'done' | 'remove') => {
+    const query = supabase.from('reminders');
+    const { error } = action === 'done'
+      ? await query.update({ completed_at: new Date().toISOString() }).eq('id', reminder.id)
+      : await query.delete().eq('id', reminder.id);
+
+    if (error) {
+      console.error('Failed to update reminder:', error);
+      toast({
+        title: t('dashboard.updateFailed'),
+        description: t('dashboard.reminderUpdateFailed'),
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setReminders((current) => current.filter((item) => item.id !== reminder.id));
+  };
+
+  const handleDownload = () => {
+    downloadIcs(reminders.map(reminderToCalendarEvent), t('dashboard.upcomingDeadlines'), 'reminders.ics');
+  };
+
+  return (
+    <Card className="glass mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              {t('dashboard.upcomingDeadlines')}
+            </CardTitle>
+            <CardDescription>{t('dashboard.upcomingDeadlinesDescription')}</CardDescription>
+          </div>
+          {reminders.length > 0 && (
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleDownload}>
+              <Download className="h-4 w-4" />
+              {t('dashboard.downloadCalendar')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-24 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : reminders.length === 0 ? (
+          <div className="py-6 text-center">
+            <p className="text-sm text-muted-foreground">{t('dashboard.noReminders')}</p>
+            <p className="text-xs text-muted-foreground mt-1">{t('dashboard.noRemindersHint')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {reminders.slice(0, VISIBLE_REMINDERS).map((reminder) => {
+              const days = daysUntil(reminder.due_date);
+              const overdue = days < 0;
+              const dueSoon = !overdue && days <= DUE_SOON_DAYS;
+
+              return (
+                <div
+                  key={reminder.id}
+                  className={cn(
+                    'flex items-start gap-3 p-3 rounded-lg border bg-muted/50',
+                    overdue && 'border-red-500/40 bg-red-500/5',
+                    dueSoon && 'border-yellow-500/40 bg-yellow-500/5'
+                  )}
+                >
+                  <div className="text-center w-14 shrink-0">
+                    <p className="text-xs uppercase text-muted-foreground">
+                      {new Date(`${reminder.due_date}T00:00:00`).toLocaleDateString(language, { month: 'short' })}
+                    </p>
+                    <p className="text-xl font-bold leading-tight">{Number(reminder.due_date.split('-')[2])}</p>
+                    <p className="text-[10px] text-muted-foreground">{reminder.due_date.split('-')[0]}</p>
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium">{reminder.title}</p>
+                      <Badge variant="secondary" className="text-xs">{DEADLINE_KIND_LABELS[reminder.kind] ?? reminder.kind}</Badge>
+                    </div>
+                    {reminder.description && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">{reminder.description}</p>
+                    )}
+                    <p className={cn(
+                      'text-xs flex items-center gap-1',
+                      overdue ? 'text-red-600 font-medium' : dueSoon ? 'text-yellow-600 font-medium' : 'text-muted-foreground'
+                    )}>
+                      {overdue && <AlertTriangle className="h-3 w-3" />}
+                      {describeDue(reminder.due_date)}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0">
+                    {reminder.document_id && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title={t('dashboard.openDocument')}
+                        onClick={() => navigate(`/document-summarizer?document=${reminder.document_id}`)}
+                      >
+                        <FileText className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={t('dashboard.markDone')}
+                      onClick={() => updateReminder(reminder, 'done')}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={t('dashboard.removeReminder')}
+                      onClick={() => updateReminder(reminder, 'remove')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            {reminders.length > VISIBLE_REMINDERS && (
+              <p className="text-xs text-muted-foreground text-center">
+                {t('dashboard.moreReminders', { count: reminders.length - VISIBLE_REMINDERS })}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeadlineReminders;
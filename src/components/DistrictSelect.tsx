@@ -0,0 +1,40 @@
+import React from 'react';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DISTRICTS_BY_STATE } from '@/lib/gazetteer';
+
+// Select value standing for no district filter; Radix does not allow an empty item value
+const ALL_DISTRICTS = 'all';
+
+interface DistrictSelectProps {
+  id?: string;
+  // Empty string when no district is chosen
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * District picker over the bundled gazetteer, grouped by state
+ */
+const DistrictSelect = ({ id, value, onChange }: DistrictSelectProps) => (
+  <Select
+    value={value || ALL_DISTRICTS}
+    onValueChange={(district) => onChange(district === ALL_DISTRICTS ? '' : district)}
+  >
+    <SelectTrigger id={id}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent className="max-h-72">
+      <SelectItem value={ALL_DISTRICTS}>All districts</SelectItem>
+      {DISTRICTS_BY_STATE.map(({ state, districts }) => (
+        <SelectGroup key={state}>
+          <SelectLabel>{state}</SelectLabel>
+          {districts.map((district) => (
+            <SelectItem key={`${state}-${district}`} value={district}>{district}</SelectItem>
+          ))}
+        </SelectGroup>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default DistrictSelect;
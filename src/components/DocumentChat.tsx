@@ -0,0 +1,455 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { useToast } from '@/hooks/use-toast';
+import { Bot, ChevronDown, ChevronUp, FileSearch, Loader2, Send, Trash2, User } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CITATION_HREF_PREFIX, DocumentCitation, formatPageLabel, linkCitationMarkers } from '@/lib/citations';
+
+interface QAMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: DocumentCitation[];
+  created_at: string;
+}
+
+interface DocumentChatProps {
+  documentId: string;
+  documentTitle?: string;
+}
+
+const SUGGESTED_QUESTIONS = [
+  'What is the notice period?',
+  'What happens if I pay late?',
+  'Who is responsible for repairs?',
+];
+
+/**
+ * Question answering over one saved document. Answers are grounded in retrieved passages
+ * of the document and cite them by page; the history is stored with the document.
+ */
+const DocumentChat: React.FC<DocumentChatProps> = ({ documentId, documentTitle }) => {
+  const { language } = useLanguage();
+  const { toast } = useToast();
+
+  const [messages, setMessages] = useState<QAMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingHistory, setLoadingHistory] = useState(true);
+  const [streamingMessage, setStreamingMessage] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamingCitations, setStreamingCitations] = useState<DocumentCitation[]>([]);
+  const [activeCitation, setActiveCitation] = useState<{ messageId: string; number: number } | null>(null);
+
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, streamingMessage]);
+
+  const loadMessages = useCallback(async () => {
+    setLoadingHistory(true);
+    try {
+      const { data, error } = await supabase
+        .from('document_qa_messages')
+        .select('id, role, content, citations, created_at')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setMessages(data || []);
+    } catch (error) {
+      console.error('Failed to load document questions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load previous questions',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoadingHistory(false);
+    }
+  }, [documentId, toast]);
+
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages]);
+
+  const clearHistory = async () => {
+    const { error } = await supabase
+      .from('document_qa_messages')
+      .delete()
+      .eq('document_id', documentId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to clear questions',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setMessages([]);
+    setActiveCitation(null);
+  };
+
+  const sendMessage = async (question = input) => {
+    const userMessage = question.trim();
+    if (!userMessage || isLoading) return;
+
+    setInput('');
+    setIsLoading(true);
+
+    const tempUserMessage: QAMessage = {
+      id: 'temp-' + Date.now(),
+      role: 'user',
+      content: userMessage,
+      created_at: new Date().toISOString()
+    };
+    setMessages(prev => [...prev, tempUserMessage]);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('No active session');
+      }
+
+      setIsStreaming(true);
+      setStreamingMessage('');
+      setStreamingCitations([]);
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-qa`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            documentId,
+            message: userMessage,
+            stream: true,
+            language
+          })
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Server error: ${response.status}`);
+      }
+
+      // Handle streaming response
+      const reader = response.body?.getReader();
+      const decoder = new TextDecoder();
+      let fullResponse = '';
+
+      if (reader) {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          const chunk = decoder.decode(value, { stream: true });
+          const lines = chunk.split('\n');
+
+          for (const line of lines) {
+            if (line.startsWith('data: ')) {
+              const data = line.slice(6);
+
+              if (data === '[DONE]') {
+                break;
+              }
+
+              try {
+                const parsed = JSON.parse(data);
+
+                // Handle retrieved document passages
+                if (Array.isArray(parsed.citations)) {
+                  setStreamingCitations(parsed.citations);
+                }
+
+                // Handle content chunks
+                if (parsed.content) {
+                  fullResponse += parsed.content;
+                  setStreamingMessage(fullResponse);
+                }
+              } catch (e) {
+                // Ignore JSON parse errors for partial chunks
+              }
+            }
+          }
+        }
+      }
+
+      setIsStreaming(false);
+      setStreamingMessage('');
+      setStreamingCitations([]);
+
+      // Reload messages to get the persisted version
+      await loadMessages();
+    } catch (error) {
+      console.error('Error asking about document:', error);
+
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to send question',
+        variant: 'destructive'
+      });
+
+      setMessages(prev => prev.filter(m => m.id !== tempUserMessage.id));
+      setIsStreaming(false);
+      setStreamingMessage('');
+      setStreamingCitations([]);
+    } finally {
+      setIsLoading(false);
+      textareaRef.current?.focus();
+    }
+  };
+
+  // Open a page reference and bring it into view when an inline [n] marker is clicked
+  const selectCitation = (messageId: string, number: number | null) => {
+    if (number === null) {
+      setActiveCitation(null);
+      return;
+    }
+    setActiveCitation({ messageId, number });
+    requestAnimationFrame(() => {
+      document
+        .getElementById(`doc-cite-${messageId}-${number}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      sendMessage();
+    }
+  };
+
+  const renderAnswer = (messageId: string, content: string, citations: DocumentCitation[] = []) => {
+    const markdownComponents: Components = {
+      // [n] citation markers become page reference buttons
+      a: ({ node, children, href, ...props }) => (
+        href?.startsWith(CITATION_HREF_PREFIX) ? (
+          <button
+            type="button"
+            className="align-super text-[10px] font-semibold text-primary hover:underline px-0.5"
+            onClick={() => selectCitation(messageId, parseInt(href.slice(CITATION_HREF_PREFIX.length), 10))}
+          >
+            {children}
+          </button>
+        ) : (
+          <a className="text-primary hover:underline" href={href} {...props}>
+            {children}
+          </a>
+        )
+      ),
+      ul: ({ node, children, ...props }) => (
+        <ul className="list-disc list-inside space-y-1" {...props}>
+          {children}
+        </ul>
+      ),
+      ol: ({ node, children, ...props }) => (
+        <ol className="list-decimal list-inside space-y-1" {...props}>
+          {children}
+        </ol>
+      ),
+      blockquote: ({ node, children, ...props }) => (
+        <blockquote className="border-l-4 border-primary/50 pl-4 italic my-2" {...props}>
+          {children}
+        </blockquote>
+      ),
+    };
+
+    return (
+      <div className="text-sm prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-1">
+        <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+          {linkCitationMarkers(content, citations)}
+        </ReactMarkdown>
+        {citations.length > 0 && (
+          <div className="mt-3 pt-3 border-t border-border/50 not-prose">
+            <p className="text-xs font-semibold flex items-center gap-1 mb-2 opacity-80">
+              <FileSearch className="h-3 w-3" />
+              From this document
+            </p>
+            <ol className="space-y-1">
+              {citations.map((citation) => {
+                const isOpen = activeCitation?.messageId === messageId && activeCitation.number === citation.number;
+                return (
+                  <li key={citation.number} id={`doc-cite-${messageId}-${citation.number}`}>
+                    <button
+                      type="button"
+                      onClick={() => selectCitation(messageId, isOpen ? null : citation.number)}
+                      className={cn(
+                        "w-full text-left text-xs rounded px-2 py-1 flex items-start gap-2 transition-colors hover:bg-background/60",
+                        isOpen && "bg-background/60"
+                      )}
+                    >
+                      <span className="font-semibold text-primary">[{citation.number}]</span>
+                      <span className="flex-1">{formatPageLabel(citation)}</span>
+                      {isOpen ? <ChevronUp className="h-3 w-3 mt-0.5" /> : <ChevronDown className="h-3 w-3 mt-0.5" />}
+                    </button>
+                    {isOpen && (
+                      <div className="mx-2 mt-1 mb-2 p-2 rounded bg-background/60 text-xs leading-relaxed">
+                        <p className="whitespace-pre-wrap">{citation.excerpt}</p>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col border rounded-lg bg-background/30">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <p className="text-sm text-muted-foreground truncate">
+          Answers come only from {documentTitle ? <span className="font-medium text-foreground">{documentTitle}</span> : 'this document'}, with page references
+        </p>
+        {messages.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={clearHistory} disabled={isLoading} className="gap-1 shrink-0">
+            <Trash2 className="h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="h-[28rem] p-4">
+        {loadingHistory ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : messages.length === 0 && !isStreaming ? (
+          <div className="flex flex-col items-center justify-center text-center h-40 gap-3">
+            <p className="text-sm text-muted-foreground">Ask anything about this document.</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {SUGGESTED_QUESTIONS.map((question) => (
+                <Button key={question} variant="outline" size="sm" onClick={() => sendMessage(question)}>
+                  {question}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className={cn(
+                  "flex gap-3 animate-fade-in",
+                  message.role === 'user' ? 'justify-end' : 'justify-start'
+                )}
+              >
+                {message.role === 'assistant' && (
+                  <Avatar className="h-8 w-8 mt-1">
+                    <AvatarFallback className="bg-primary/10">
+                      <Bot className="h-4 w-4 text-primary" />
+                    </AvatarFallback>
+                  </Avatar>
+                )}
+
+                <div
+                  className={cn(
+                    "rounded-lg px-4 py-3 max-w-[80%]",
+                    message.role === 'user'
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-accent'
+                  )}
+                >
+                  {message.role === 'assistant' ? (
+                    renderAnswer(message.id, message.content, message.citations)
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  )}
+                </div>
+
+                {message.role === 'user' && (
+                  <Avatar className="h-8 w-8 mt-1">
+                    <AvatarFallback className="bg-secondary">
+                      <User className="h-4 w-4" />
+                    </AvatarFallback>
+                  </Avatar>
+                )}
+              </div>
+            ))}
+
+            {/* Streaming answer */}
+            {isStreaming && streamingMessage && (
+              <div className="flex gap-3 animate-fade-in">
+                <Avatar className="h-8 w-8 mt-1">
+                  <AvatarFallback className="bg-primary/10">
+                    <Bot className="h-4 w-4 text-primary" />
+                  </AvatarFallback>
+                </Avatar>
+                <div className="rounded-lg px-4 py-3 bg-accent max-w-[80%]">
+                  {renderAnswer('streaming', streamingMessage, streamingCitations)}
+                  <div className="flex items-center gap-2 mt-2">
+                    <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
+                    <span className="text-xs opacity-70">Typing...</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isLoading && !streamingMessage && (
+              <div className="flex gap-3 animate-fade-in">
+                <Avatar className="h-8 w-8">
+                  <AvatarFallback className="bg-primary/10">
+                    <Bot className="h-4 w-4 text-primary" />
+                  </AvatarFallback>
+                </Avatar>
+                <div className="rounded-lg px-4 py-3 bg-accent">
+                  <div className="flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span className="text-sm">Searching the document...</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div ref={messagesEndRef} />
+          </div>
+        )}
+      </ScrollArea>
+
+      <div className="p-4 border-t">
+        <div className="flex gap-2">
+          <Textarea
+            ref={textareaRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Ask a question about this document..."
+            className="min-h-[60px] resize-none"
+            disabled={isLoading}
+          />
+          <Button
+            onClick={() => sendMessage()}
+            disabled={!input.trim() || isLoading}
+            size="icon"
+            className="h-[60px] w-[60px]"
+          >
+            {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentChat;
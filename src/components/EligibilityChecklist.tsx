@@ -0,0 +1,47 @@
+import React from 'react';
+import { CheckCircle2, HelpCircle, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CRITERION_STATUS_LABELS, CRITERION_STATUS_STYLES, CriterionResult, CriterionStatus } from '@/lib/schemes';
+
+interface EligibilityChecklistProps {
+  criteria: CriterionResult[];
+}
+
+const STATUS_ICONS: Record<CriterionStatus, React.ElementType> = {
+  pass: CheckCircle2,
+  fail: XCircle,
+  unknown: HelpCircle,
+};
+
+/**
+ * Each eligibility rule of a scheme with whether the applicant meets it
+ */
+const EligibilityChecklist: React.FC<EligibilityChecklistProps> = ({ criteria }) => {
+  if (criteria.length === 0) {
+    return <p className="text-sm text-muted-foreground">No age, income or category limits</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {criteria.map((criterion) => {
+        const Icon = STATUS_ICONS[criterion.status];
+        return (
+          <li key={criterion.key} className="flex items-start gap-2 text-sm">
+            <Icon
+              className={cn('h-4 w-4 shrink-0 mt-0.5', CRITERION_STATUS_STYLES[criterion.status])}
+              aria-label={CRITERION_STATUS_LABELS[criterion.status]}
+            />
+            <div>
+              <p>
+                <span className="font-medium">{criterion.label}:</span> {criterion.requirement}
+              </p>
+              <p className="text-xs text-muted-foreground">{criterion.detail}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default EligibilityChecklist;
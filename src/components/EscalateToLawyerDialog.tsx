@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import { Briefcase, CheckCircle2, Loader2, MapPin, Send } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import CaseBriefCard from '@/components/CaseBriefCard';
+import { cn } from '@/lib/utils';
+import { CaseBrief, SuggestedLawyer, formatCaseBriefMessage } from '@/lib/caseBrief';
+
+interface EscalateToLawyerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string | null;
+}
+
+const EscalateToLawyerDialog: React.FC<EscalateToLawyerDialogProps> = ({
+  open,
+  onOpenChange,
+  sessionId
+}) => {
+  const { user } = useAuth();
+  const { language } = useLanguage();
+  const { toast } = useToast();
+
+  const [loadingBrief, setLoadingBrief] = useState(false);
+  const [brief, setBrief] = useState<CaseBrief | null>(null);
+  const [briefId, setBriefId] = useState<string | null>(null);
+  const [lawyers, setLawyers] = useState<SuggestedLawyer[]>([]);
+  const [transcript, setTranscript] = useState('');
+  const [selectedLawyerId, setSelectedLawyerId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Build a fresh brief each time the dialog opens, the chat may have moved on
+  useEffect(() => {
+    if (open && sessionId) {
+      loadBrief(sessionId);
+    }
+    if (!open) {
+      setBrief(null);
+      setBriefId(null);
+      setLawyers([]);
+      setTranscript('');
+      setSelectedLawyerId(null);
+      setNote('');
+      setError(null);
+    }
+  }, [open, sessionId]);
+
+  const loadBrief = async (id: string) => {
+    setLoadingBrief(true);
+    setError(null);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/case-brief`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ sessionId: id, language })
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Server error: ${response.status}`);
+      }
+
+      setBrief(data.brief);
+      setBriefId(data.briefId);
+      setLawyers(data.lawyers || []);
+      setTranscript(data.transcript || '');
+      setSelectedLawyerId(data.lawyers?.[0]?.user_id || null);
+    } catch (err) {
+      console.error('Error building case brief:', err);
+      setError(err instanceof Error ? err.message : 'Failed to prepare the case brief');
+    } finally {
+      setLoadingBrief(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!user || !brief || !briefId || !selectedLawyerId) return;
+
+    setSending(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      // Attach the full transcript so the lawyer can read the whole consultation
+      const fileName = `${user.id}/${selectedLawyerId}/${Date.now()}_nyaai_chat_transcript.txt`;
+      const { error: uploadError } = await supabase.storage
+        .from('lawyer-chat-attachments')
+        .upload(fileName, new Blob([transcript], { type: 'text/plain' }), {
+          cacheControl: '3600',
+          upsert: false
+        });
+
+      if (uploadError) {
+        throw new Error(`Failed to attach transcript: ${uploadError.message}`);
+      }
+
+      const { data: urlData } = supabase.storage
+        .from('lawyer-chat-attachments')
+        .getPublicUrl(fileName);
+
+      const response = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-message`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            lawyer_id: selectedLawyerId,
+            text: formatCaseBriefMessage(brief, note),
+            attachments: [{
+              name: 'NyaAI chat transcript.txt',
+              url: urlData.publicUrl,
+              type: 'text/plain'
+            }],
+            is_case_request: true,
+            case_brief_id: briefId
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Server error: ${response.status}`);
+      }
+
+      const lawyerName = lawyers.find(l => l.user_id === selectedLawyerId)?.name || 'the lawyer';
+      toast({
+        title: 'Case request sent',
+        description: `Your case brief was sent to ${lawyerName}. You can follow up from Find Lawyers.`
+      });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error sending case request:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to send case request',
+        variant: 'destructive'
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5 text-primary" />
+            Send to a lawyer
+          </DialogTitle>
+          <DialogDescription>
+            NyaAI prepares a case brief from this chat. Review it, pick a lawyer and send it as a case request with the transcript attached.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingBrief ? (
+          <div className="flex flex-col items-center justify-center py-12 gap-2 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <p className="text-sm">Preparing your case brief...</p>
+          </div>
+        ) : error ? (
+          <div className="py-8 text-center space-y-3">
+            <p className="text-sm text-destructive">{error}</p>
+            {sessionId && (
+              <Button variant="outline" size="sm" onClick={() => loadBrief(sessionId)}>
+                Try again
+              </Button>
+            )}
+          </div>
+        ) : brief && (
+          <div className="space-y-4">
+            <CaseBriefCard brief={brief} />
+
+            <div>
+              <Label>Suggested lawyers</Label>
+              {lawyers.length === 0 ? (
+                <p className="text-sm text-muted-foreground mt-2">
+                  No lawyers are available right now. Please try again later or browse Find Lawyers.
+                </p>
+              ) : (
+                <div className="mt-2 space-y-2">
+                  {lawyers.map((lawyer) => (
+                    <button
+                      key={lawyer.user_id}
+                      type="button"
+                      onClick={() => setSelectedLawyerId(lawyer.user_id)}
+                      className={cn(
+                        "w-full flex items-center gap-3 rounded-md border p-3 text-left transition-colors hover:bg-accent/50",
+                        selectedLawyerId === lawyer.user_id && "border-primary bg-primary/5"
+                      )}
+                    >
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={lawyer.avatar_url || undefined} />
+                        <AvatarFallback>
+                          {lawyer.name.split(' ').map(n => n[0]).join('')}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-sm">{lawyer.name}</p>
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <Badge variant="secondary">{lawyer.specialization || 'General practice'}</Badge>
+                          <span>{lawyer.experience_years} yrs experience</span>
+                          {lawyer.location && (
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              {lawyer.location}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      {selectedLawyerId === lawyer.user_id && (
+                        <CheckCircle2 className="h-5 w-5 text-primary shrink-0" />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label>Note for the lawyer (optional)</Label>
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Anything the brief missed, or when you are available to talk..."
+                rows={3}
+                className="mt-1"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+                Cancel
+              </Button>
+              <Button onClick={handleSend} disabled={sending || !selectedLawyerId}>
+                {sending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4 mr-2" />
+                )}
+                Send case request
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EscalateToLawyerDialog;
@@ -1,42 +1,52 @@
-import { Brain, FileText, Users, MapPin, Shield, Zap } from "lucide-react";
+import { Brain, FileText, Users, MapPin, Shield, Zap, PenLine } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useNavigate } from "react-router-dom";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 const Features = () => {
   const navigate = useNavigate();
+  const { t } = useLanguage();
   
   const features = [
     {
       icon: Brain,
-      title: "AI Legal Chatbot",
-      description: "Get instant legal advice from our advanced AI assistant trained on comprehensive legal databases.",
-      highlights: ["24/7 Availability", "Multilingual Support", "Case Law References"],
+      title: t('features.chatbotTitle'),
+      description: t('features.chatbotDescription'),
+      highlights: [t('features.chatbotHighlight1'), t('features.chatbotHighlight2'), t('features.chatbotHighlight3')],
       color: "text-primary",
       route: "/ai-chat"
     },
     {
       icon: FileText,
-      title: "Document Summarizer",
-      description: "Upload legal documents and receive AI-powered summaries highlighting key points and potential issues.",
-      highlights: ["PDF & DOCX Support", "Key Points Extraction", "Risk Assessment"],
+      title: t('features.summarizerTitle'),
+      description: t('features.summarizerDescription'),
+      highlights: [t('features.summarizerHighlight1'), t('features.summarizerHighlight2'), t('features.summarizerHighlight3')],
       color: "text-accent",
       route: "/document-summarizer"
     },
     {
       icon: Shield,
-      title: "Government Schemes Advisor",
-      description: "Discover relevant government schemes and benefits based on your personal and financial profile.",
-      highlights: ["Personalized Matching", "Eligibility Checker", "Application Guidance"],
+      title: t('features.schemesTitle'),
+      description: t('features.schemesDescription'),
+      highlights: [t('features.schemesHighlight1'), t('features.schemesHighlight2'), t('features.schemesHighlight3')],
       color: "text-primary-glow",
       route: "/government-schemes"
     },
     {
       icon: MapPin,
-      title: "Nearby Lawyer Finder",
-      description: "Connect with qualified lawyers in your area specializing in your specific legal needs.",
-      highlights: ["Location-Based Search", "Specialization Filters", "Verified Professionals"],
+      title: t('features.lawyersTitle'),
+      description: t('features.lawyersDescription'),
+      highlights: [t('features.lawyersHighlight1'), t('features.lawyersHighlight2'), t('features.lawyersHighlight3')],
       color: "text-success",
       route: "/find-lawyers"
+    },
+    {
+      icon: PenLine,
+      title: t('features.drafterTitle'),
+      description: t('features.drafterDescription'),
+      highlights: [t('features.drafterHighlight1'), t('features.drafterHighlight2'), t('features.drafterHighlight3')],
+      color: "text-accent",
+      route: "/draft"
     }
   ];
 
@@ -50,20 +60,19 @@ const Features = () => {
         <div className="text-center mb-16 animate-fade-in">
           <div className="inline-flex items-center px-4 py-2 rounded-full glass border border-primary/20 mb-6">
             <Zap className="h-4 w-4 text-primary mr-2" />
-            <span className="text-sm text-primary font-medium">Powerful Features</span>
+            <span className="text-sm text-primary font-medium">{t('features.badge')}</span>
           </div>
           
           <h2 className="text-3xl md:text-5xl font-bold mb-6">
-            <span className="text-foreground">Advanced NyaAI Technology</span>
+            <span className="text-foreground">{t('features.titleLine1')}</span>
             <br />
             <span className="bg-gradient-primary bg-clip-text text-transparent">
-              At Your Fingertips
+              {t('features.titleLine2')}
             </span>
           </h2>
           
           <p className="text-xl text-muted-foreground max-w-3xl mx-auto">
-            Harness the power of artificial intelligence to streamline your legal processes 
-            and make informed decisions with confidence.
+            {t('features.subtitle')}
           </p>
         </div>
 
@@ -104,7 +113,7 @@ const Features = () => {
                     className="group"
                     onClick={() => navigate(feature.route)}
                   >
-                    Learn More
+                    {t('features.learnMore')}
                     <Zap className="ml-2 h-4 w-4 group-hover:text-primary transition-smooth" />
                   </Button>
                 </div>
@@ -116,18 +125,17 @@ const Features = () => {
         {/* Call to Action */}
         <div className="text-center glass p-8 rounded-xl">
           <h3 className="text-2xl font-bold text-foreground mb-4">
-            Ready to Transform Your Legal Experience?
+            {t('features.ctaTitle')}
           </h3>
           <p className="text-muted-foreground mb-6 max-w-2xl mx-auto">
-            Join thousands of users who are already benefiting from our AI-powered legal platform. 
-            Start your journey towards smarter legal solutions today.
+            {t('features.ctaSubtitle')}
           </p>
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
             <Button variant="hero" size="lg" onClick={() => navigate('/ai-chat')}>
-              Start Free Trial
+              {t('features.startTrial')}
             </Button>
             <Button variant="outline" size="lg" onClick={() => navigate('/document-summarizer')}>
-              Try Document Analyzer
+              {t('features.tryAnalyzer')}
             </Button>
           </div>
         </div>
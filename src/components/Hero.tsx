@@ -4,11 +4,13 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/components/theme-provider";
 import { useEffect, useState } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 const Hero = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { theme } = useTheme();
+  const { t } = useLanguage();
   const [splineKey, setSplineKey] = useState(0);
 
   // Force iframe reload when theme changes
@@ -64,39 +66,38 @@ const Hero = () => {
           {/* Badge */}
           <div className="inline-flex items-center px-4 py-2 rounded-full glass border border-primary/20 mb-8">
             <Sparkles className="h-4 w-4 text-primary mr-2" />
-            <span className="text-sm text-primary font-medium">Powered by Advanced AI</span>
+            <span className="text-sm text-primary font-medium">{t('hero.badge')}</span>
           </div>
 
           {/* Main Heading */}
           <h1 className="text-5xl md:text-7xl lg:text-8xl font-bold mb-6 leading-tight">
-            <span className="block text-foreground drop-shadow-lg">Empowering</span>
+            <span className="block text-foreground drop-shadow-lg">{t('hero.titleLine1')}</span>
             <span className="block bg-gradient-primary bg-clip-text text-transparent drop-shadow-lg">
-              Justice Through AI
+              {t('hero.titleLine2')}
             </span>
           </h1>
 
           {/* Subtitle */}
           <p className="text-xl md:text-2xl text-foreground/90 max-w-3xl mx-auto mb-8 leading-relaxed px-6 py-3 rounded-xl backdrop-blur-sm bg-background/50">
-            Revolutionary NyaAI platform that combines artificial intelligence 
-            with legal expertise to democratize access to justice.
+            {t('hero.subtitle')}
           </p>
 
           {/* Feature Highlights */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 max-w-4xl mx-auto mb-10">
             <div className="glass p-4 rounded-lg hover-lift">
               <Brain className="h-8 w-8 text-primary mx-auto mb-2" />
-              <h3 className="font-bold text-foreground text-lg">AI Legal Assistant</h3>
-              <p className="text-base text-foreground/80 font-semibold">24/7 intelligent legal guidance</p>
+              <h3 className="font-bold text-foreground text-lg">{t('hero.assistantTitle')}</h3>
+              <p className="text-base text-foreground/80 font-semibold">{t('hero.assistantDescription')}</p>
             </div>
             <div className="glass p-4 rounded-lg hover-lift">
               <Shield className="h-8 w-8 text-accent mx-auto mb-2" />
-              <h3 className="font-bold text-foreground text-lg">Document Analysis</h3>
-              <p className="text-base text-foreground/80 font-semibold">Instant legal document insights</p>
+              <h3 className="font-bold text-foreground text-lg">{t('hero.documentTitle')}</h3>
+              <p className="text-base text-foreground/80 font-semibold">{t('hero.documentDescription')}</p>
             </div>
             <div className="glass p-4 rounded-lg hover-lift">
               <Sparkles className="h-8 w-8 text-primary-glow mx-auto mb-2" />
-              <h3 className="font-bold text-foreground text-lg">Expert Network</h3>
-              <p className="text-base text-foreground/80 font-semibold">Connect with qualified lawyers</p>
+              <h3 className="font-bold text-foreground text-lg">{t('hero.networkTitle')}</h3>
+              <p className="text-base text-foreground/80 font-semibold">{t('hero.networkDescription')}</p>
             </div>
           </div>
 
@@ -106,27 +107,27 @@ const Hero = () => {
               {user ? (
                 <>
                   <LayoutDashboard className="mr-2 h-5 w-5" />
-                  Go to Dashboard
+                  {t('hero.goToDashboard')}
                 </>
               ) : (
                 <>
-                  Get Started Free
+                  {t('hero.getStarted')}
                   <ArrowRight className="ml-2 h-5 w-5 group-hover:translate-x-1 transition-transform" />
                 </>
               )}
             </Button>
             <Button variant="neon" size="xl" onClick={handleWatchDemo}>
-              Explore Features
+              {t('hero.exploreFeatures')}
             </Button>
           </div>
 
           {/* Trust Indicators */}
           <div className="mt-12 flex flex-wrap items-center justify-center gap-8 opacity-60">
-            <div className="text-sm text-muted-foreground">Trusted by 10,000+ users</div>
+            <div className="text-sm text-muted-foreground">{t('hero.trustedBy')}</div>
             <div className="h-4 w-px bg-border" />
-            <div className="text-sm text-muted-foreground">SOC 2 Compliant</div>
+            <div className="text-sm text-muted-foreground">{t('hero.soc2')}</div>
             <div className="h-4 w-px bg-border" />
-            <div className="text-sm text-muted-foreground">Enterprise Grade Security</div>
+            <div className="text-sm text-muted-foreground">{t('hero.security')}</div>
           </div>
         </div>
       </div>
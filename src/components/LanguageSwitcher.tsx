@@ -0,0 +1,29 @@
+import { Globe } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useLanguage } from "@/contexts/LanguageContext"
+import { LANGUAGES, isLanguageCode } from "@/i18n"
+
+export function LanguageSwitcher() {
+  const { language, setLanguage, t } = useLanguage()
+
+  return (
+    <Select
+      value={language}
+      onValueChange={(value) => {
+        if (isLanguageCode(value)) setLanguage(value)
+      }}
+    >
+      <SelectTrigger className="w-auto gap-2 border-none bg-transparent shadow-none" aria-label={t('common.language')}>
+        <Globe className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGES.map((lang) => (
+          <SelectItem key={lang.code} value={lang.code}>
+            {lang.nativeName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
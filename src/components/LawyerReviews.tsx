@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BadgeCheck, EyeOff, MessageSquareReply, Star } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import StarRating from '@/components/StarRating';
+import {
+  LawyerReview,
+  MAX_COMMENT_LENGTH,
+  RatingSummary,
+  REVIEW_FIELDS,
+  REVIEWS_PAGE_SIZE,
+  reviewerName,
+  starShare,
+  STARS,
+} from '@/lib/reviews';
+
+interface LawyerReviewsProps {
+  lawyerId: string;
+  summary: RatingSummary;
+  // The lawyer's own view: includes reviews hidden by moderators and lets them reply
+  manage?: boolean;
+}
+
+type ReviewWithName = LawyerReview & { client_name: string | null };
+
+/**
+ * Rating summary with a star breakdown, followed by the reviews for one lawyer, newest first
+ */
+const LawyerReviews = ({ lawyerId, summary, manage = false }: LawyerReviewsProps) => {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+
+  const [reviews, setReviews] = useState<ReviewWithName[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [savingReply, setSavingReply] = useState(false);
+
+  const loadReviews = useCallback(async (offset: number) => {
+    setLoading(true);
+    let query = supabase
+      .from('lawyer_reviews')
+      .select(REVIEW_FIELDS)
+      .eq('lawyer_id', lawyerId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + REVIEWS_PAGE_SIZE);
+    if (!manage) query = query.eq('status', 'published');
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Failed to load reviews:', error);
+      toast({ title: t('reviews.loadFailed'), variant: 'destructive' });
+      setLoading(false);
+      return;
+    }
+
+    // One extra row tells whether there is another page
+    const rows = data || [];
+    const page = rows.slice(0, REVIEWS_PAGE_SIZE);
+    const clientIds = [...new Set(page.map((review) => review.client_id))];
+    const { data: profiles } = clientIds.length > 0
+      ? await supabase.from('profiles').select('user_id, name').in('user_id', clientIds)
+      : { data: [] };
+    const names = new Map((profiles || []).map((profile) => [profile.user_id, profile.name]));
+
+    const named = page.map((review) => ({ ...review, client_name: reviewerName(names.get(review.client_id)) }));
+    setReviews((current) => (offset === 0 ? named : [...current, ...named]));
+    setHasMore(rows.length > REVIEWS_PAGE_SIZE);
+    setLoading(false);
+  }, [lawyerId, manage, toast, t]);
+
+  useEffect(() => {
+    loadReviews(0);
+  }, [loadReviews]);
+
+  const startReply = (review: ReviewWithName) => {
+    setReplyingTo(review.id);
+    setReplyText(review.lawyer_reply ?? '');
+  };
+
+  const saveReply = async (review: ReviewWithName, reply: string | null) => {
+    setSavingReply(true);
+    const { data, error } = await supabase
+      .from('lawyer_reviews')
+      .update({ lawyer_reply: reply })
+      .eq('id', review.id)
+      .select('lawyer_reply, replied_at')
+      .single();
+    setSavingReply(false);
+
+    if (error) {
+      console.error('Failed to save reply:', error);
+      toast({
+        title: t('reviews.replyFailed'),
+        description: (error as { message?: string }).message,
+        variant: 'destructive'
+      });
+      return;
+    }
+    setReviews((current) => current.map((item) => (item.id === review.id ? { ...item, ...data } : item)));
+    setReplyingTo(null);
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(language, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-6">
+        <div className="flex flex-col items-center justify-center sm:w-36 shrink-0">
+          <p className="text-4xl font-bold">
+            {summary.rating_average !== null ? summary.rating_average.toFixed(1) : '–'}
+          </p>
+          <StarRating
+            value={summary.rating_average ?? 0}
+            label={summary.rating_average !== null ? t('reviews.outOf5', { rating: summary.rating_average.toFixed(1) }) : undefined}
+          />
+          <p className="text-xs text-muted-foreground mt-1">{t('reviews.reviewCount', { count: summary.review_count })}</p>
+        </div>
+        <div className="flex-1 space-y-1.5">
+          {STARS.map((stars) => (
+            <div key={stars} className="flex items-center gap-2 text-xs">
+              <span className="w-3 text-right">{stars}</span>
+              <Star className="h-3 w-3 fill-yellow-500 text-yellow-500" />
+              <Progress value={starShare(summary, stars)} className="h-2 flex-1" />
+              <span className="w-8 text-right text-muted-foreground">
+                {summary.rating_breakdown[String(stars) as keyof RatingSummary['rating_breakdown']]}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {!loading && reviews.length === 0 ? (
+        <div className="text-center py-6">
+          <p className="text-sm text-muted-foreground">{t('reviews.noReviews')}</p>
+          <p className="text-xs text-muted-foreground mt-1">{t('reviews.noReviewsHint')}</p>
+        </div>
+      ) : (
+        <div className="divide-y">
+          {reviews.map((review) => (
+            <div key={review.id} className="py-4 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <StarRating value={review.rating} label={t('reviews.outOf5', { rating: review.rating })} />
+                  <span className="text-sm font-medium">{review.client_name ?? t('reviews.anonymousClient')}</span>
+                  <span className="flex items-center gap-1 text-xs text-green-600">
+                    <BadgeCheck className="h-3 w-3" />
+                    {t('reviews.verifiedClient')}
+                  </span>
+                </div>
+                <span className="text-xs text-muted-foreground">{formatDate(review.created_at)}</span>
+              </div>
+
+              {review.status === 'hidden' && (
+                <p className="flex items-center gap-1 text-xs text-destructive">
+                  <EyeOff className="h-3 w-3" />
+                  {review.moderation_reason
+                    ? t('reviews.hiddenByModerator', { reason: review.moderation_reason })
+                    : t('reviews.hiddenNoReason')}
+                </p>
+              )}
+
+              {review.comment && (
+                <p className="text-sm text-muted-foreground whitespace-pre-line">{review.comment}</p>
+              )}
+
+              {replyingTo === review.id ? (
+                <div className="space-y-2 pl-4 border-l-2">
+                  <Textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    placeholder={t('reviews.replyPlaceholder')}
+                    maxLength={MAX_COMMENT_LENGTH}
+                    rows={3}
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" disabled={savingReply || !replyText.trim()} onClick={() => saveReply(review, replyText)}>
+                      {t('reviews.saveReply')}
+                    </Button>
+                    {review.lawyer_reply && (
+                      <Button size="sm" variant="outline" disabled={savingReply} onClick={() => saveReply(review, null)}>
+                        {t('reviews.removeReply')}
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" disabled={savingReply} onClick={() => setReplyingTo(null)}>
+                      {t('common.cancel')}
+                    </Button>
+                  </div>
+                </div>
+              ) : review.lawyer_reply ? (
+                <div className="pl-4 border-l-2 space-y-1">
+                  <p className="text-xs font-medium flex items-center gap-1">
+                    <MessageSquareReply className="h-3 w-3" />
+                    {t('reviews.lawyerReply')}
+                    {review.replied_at && <span className="font-normal text-muted-foreground">· {formatDate(review.replied_at)}</span>}
+                  </p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{review.lawyer_reply}</p>
+                  {manage && (
+                    <Button size="sm" variant="link" className="h-auto p-0 text-xs" onClick={() => startReply(review)}>
+                      {t('reviews.editReply')}
+                    </Button>
+                  )}
+                </div>
+              ) : manage && (
+                <Button size="sm" variant="outline" className="gap-1" onClick={() => startReply(review)}>
+                  <MessageSquareReply className="h-3 w-3" />
+                  {t('reviews.reply')}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading && (
+        <div className="h-16 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <Button variant="outline" size="sm" className="w-full" onClick={() => loadReviews(reviews.length)}>
+          {t('reviews.showMore')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LawyerReviews;
@@ -1,91 +1,39 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import { GeoPlace, searchPlaces } from '@/lib/gazetteer';
 
 interface LocationAutocompleteProps {
   value: string;
   onChange: (value: string) => void;
   onSelect?: (place: string) => void;
+  // Called with the geocoded place when a suggestion is picked
+  onPlaceSelect?: (place: GeoPlace) => void;
   placeholder?: string;
   className?: string;
   id?: string;
+  disabled?: boolean;
 }
 
-const INDIAN_CITIES = [
-  'Mumbai, Maharashtra',
-  'Delhi',
-  'Bangalore, Karnataka',
-  'Hyderabad, Telangana',
-  'Ahmedabad, Gujarat',
-  'Chennai, Tamil Nadu',
-  'Kolkata, West Bengal',
-  'Pune, Maharashtra',
-  'Jaipur, Rajasthan',
-  'Surat, Gujarat',
-  'Lucknow, Uttar Pradesh',
-  'Kanpur, Uttar Pradesh',
-  'Nagpur, Maharashtra',
-  'Indore, Madhya Pradesh',
-  'Thane, Maharashtra',
-  'Bhopal, Madhya Pradesh',
-  'Visakhapatnam, Andhra Pradesh',
-  'Pimpri-Chinchwad, Maharashtra',
-  'Patna, Bihar',
-  'Vadodara, Gujarat',
-  'Ghaziabad, Uttar Pradesh',
-  'Ludhiana, Punjab',
-  'Agra, Uttar Pradesh',
-  'Nashik, Maharashtra',
-  'Faridabad, Haryana',
-  'Meerut, Uttar Pradesh',
-  'Rajkot, Gujarat',
-  'Kalyan-Dombivali, Maharashtra',
-  'Vasai-Virar, Maharashtra',
-  'Varanasi, Uttar Pradesh',
-  'Srinagar, Jammu and Kashmir',
-  'Aurangabad, Maharashtra',
-  'Dhanbad, Jharkhand',
-  'Amritsar, Punjab',
-  'Navi Mumbai, Maharashtra',
-  'Allahabad, Uttar Pradesh',
-  'Ranchi, Jharkhand',
-  'Howrah, West Bengal',
-  'Coimbatore, Tamil Nadu',
-  'Jabalpur, Madhya Pradesh',
-  'Gwalior, Madhya Pradesh',
-  'Vijayawada, Andhra Pradesh',
-  'Jodhpur, Rajasthan',
-  'Madurai, Tamil Nadu',
-  'Raipur, Chhattisgarh',
-  'Kota, Rajasthan',
-  'Chandigarh',
-  'Guwahati, Assam',
-  'Solapur, Maharashtra',
-  'Tiruchirappalli, Tamil Nadu'
-];
-
 const LocationAutocomplete: React.FC<LocationAutocompleteProps> = ({
   value,
   onChange,
   onSelect,
+  onPlaceSelect,
   placeholder = 'Enter location',
   className,
-  id
+  id,
+  disabled
 }) => {
   const [showSuggestions, setShowSuggestions] = useState(false);
-  const [filteredCities, setFilteredCities] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<GeoPlace[]>([]);
   const wrapperRef = useRef<HTMLDivElement>(null);
 
-  // Filter cities based on input
+  // Match cities, districts and pincodes from the bundled gazetteer
   useEffect(() => {
-    if (value.trim().length > 0) {
-      const filtered = INDIAN_CITIES.filter(city =>
-        city.toLowerCase().includes(value.toLowerCase())
-      );
-      setFilteredCities(filtered);
-      setShowSuggestions(filtered.length > 0);
-    } else {
-      setFilteredCities([]);
+    const matches = searchPlaces(value);
+    setSuggestions(matches);
+    if (matches.length === 0 || matches.some((place) => place.label === value)) {
       setShowSuggestions(false);
     }
   }, [value]);
@@ -102,11 +50,14 @@ const LocationAutocomplete: React.FC<LocationAutocompleteProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleSelect = (city: string) => {
-    onChange(city);
+  const handleSelect = (place: GeoPlace) => {
+    onChange(place.label);
     setShowSuggestions(false);
     if (onSelect) {
-      onSelect(city);
+      onSelect(place.label);
+    }
+    if (onPlaceSelect) {
+      onPlaceSelect(place);
     }
   };
 
@@ -116,20 +67,24 @@ const LocationAutocomplete: React.FC<LocationAutocompleteProps> = ({
         id={id}
         type="text"
         value={value}
-        onChange={(e) => onChange(e.target.value)}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setShowSuggestions(true);
+        }}
         onFocus={() => value.trim().length > 0 && setShowSuggestions(true)}
         placeholder={placeholder}
         className={cn('w-full', className)}
+        disabled={disabled}
         autoComplete="off"
       />
       
-      {showSuggestions && filteredCities.length > 0 && (
+      {showSuggestions && suggestions.length > 0 && (
         <div className="absolute z-50 w-full mt-1 bg-popover border border-border rounded-md shadow-lg max-h-60 overflow-auto">
-          {filteredCities.slice(0, 10).map((city) => (
+          {suggestions.map((place) => (
             <button
-              key={city}
+              key={place.label}
               type="button"
-              onClick={() => handleSelect(city)}
+              onClick={() => handleSelect(place)}
               className="w-full px-4 py-2 text-left text-sm hover:bg-accent hover:text-accent-foreground cursor-pointer transition-colors flex items-center gap-2"
             >
               <svg
@@ -147,7 +102,12 @@ const LocationAutocomplete: React.FC<LocationAutocompleteProps> = ({
                 <path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z" />
                 <circle cx="12" cy="10" r="3" />
               </svg>
-              <span>{city}</span>
+              <span className="min-w-0">
+                <span className="block truncate">{place.label}</span>
+                <span className="block truncate text-xs text-muted-foreground">
+                  {place.district} district · {place.pincode}
+                </span>
+              </span>
             </button>
           ))}
         </div>
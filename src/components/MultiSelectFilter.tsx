@@ -0,0 +1,59 @@
+import React from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface MultiSelectFilterProps {
+  id?: string;
+  options: string[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  // Shown when nothing is selected, meaning no filter
+  placeholder: string;
+}
+
+/**
+ * Select-style dropdown with a checkbox per option, for filters that accept several values
+ */
+const MultiSelectFilter = ({ id, options, value, onChange, placeholder }: MultiSelectFilterProps) => {
+  const toggle = (option: string, checked: boolean) =>
+    onChange(checked ? [...value, option] : value.filter((item) => item !== option));
+
+  const summary = value.length === 0
+    ? placeholder
+    : value.length <= 2
+      ? value.join(', ')
+      : `${value.length} selected`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button id={id} type="button" variant="outline" className="w-full justify-between font-normal">
+          <span className={value.length === 0 ? 'text-muted-foreground truncate' : 'truncate'}>{summary}</span>
+          <ChevronDown className="h-4 w-4 opacity-50 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-2">
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {options.map((option) => (
+            <label key={option} className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer hover:bg-muted">
+              <Checkbox
+                checked={value.includes(option)}
+                onCheckedChange={(checked) => toggle(option, checked === true)}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+        {value.length > 0 && (
+          <Button type="button" variant="ghost" size="sm" className="w-full mt-1" onClick={() => onChange([])}>
+            Clear
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MultiSelectFilter;
@@ -1,45 +1,25 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Menu, X, Scale, Shield, Brain, Users, Mail, Linkedin, Github } from "lucide-react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import NotificationBell from "@/components/NotificationBell";
+import { useLanguage } from "@/contexts/LanguageContext";
 
 const Navigation = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [userRole, setUserRole] = useState<string | null>(null);
   const navigate = useNavigate();
   const location = useLocation();
-  const { user, signOut } = useAuth();
-
-  // Check user role
-  useEffect(() => {
-    const checkRole = async () => {
-      if (!user) {
-        setUserRole(null);
-        return;
-      }
-      
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', user.id)
-        .single();
-      
-      if (!error && data) {
-        setUserRole(data.role);
-      }
-    };
-    
-    checkRole();
-  }, [user]);
+  const { user, userRole, isAdmin, signOut } = useAuth();
+  const { t } = useLanguage();
 
   const navItems = [
-    { name: "Home", href: "#home" },
-    { name: "Features", href: "#features" },
-    { name: "About", href: "#about" },
-    { name: "Contact", href: "#contact" },
+    { name: t('nav.home'), href: "#home" },
+    { name: t('nav.features'), href: "#features" },
+    { name: t('nav.about'), href: "#about" },
+    { name: t('nav.contact'), href: "#contact" },
   ];
 
   const handleNavClick = (href: string) => {
@@ -98,7 +78,9 @@ const Navigation = () => {
 
           {/* Desktop Auth Buttons */}
           <div className="hidden md:flex items-center space-x-4 flex-shrink-0">
+            <LanguageSwitcher />
             <ThemeToggle />
+            <NotificationBell />
             {user ? (
               <>
                 <Button 
@@ -106,19 +88,24 @@ const Navigation = () => {
                   size="sm" 
                   onClick={() => navigate(userRole === 'lawyer' ? '/lawyer-dashboard' : '/dashboard')}
                 >
-                  Dashboard
+                  {t('nav.dashboard')}
                 </Button>
+                {isAdmin && (
+                  <Button variant="ghost" size="sm" onClick={() => navigate('/admin/schemes')}>
+                    {t('nav.admin')}
+                  </Button>
+                )}
                 <Button variant="outline" size="sm" onClick={() => signOut()}>
-                  Sign Out
+                  {t('nav.signOut')}
                 </Button>
               </>
             ) : (
               <>
                 <Button variant="ghost" size="sm" onClick={() => navigate('/auth')}>
-                  Login
+                  {t('nav.login')}
                 </Button>
                 <Button variant="hero" size="sm" onClick={() => navigate('/auth')}>
-                  Sign Up
+                  {t('nav.signUp')}
                 </Button>
               </>
             )}
@@ -126,7 +113,9 @@ const Navigation = () => {
 
           {/* Mobile menu button */}
           <div className="md:hidden flex items-center space-x-2">
+            <LanguageSwitcher />
             <ThemeToggle />
+            <NotificationBell />
             <button
               onClick={() => setIsMenuOpen(!isMenuOpen)}
               className="text-foreground hover:text-primary transition-smooth"
@@ -163,19 +152,32 @@ const Navigation = () => {
                       setIsMenuOpen(false);
                     }}
                   >
-                    Dashboard
+                    {t('nav.dashboard')}
                   </Button>
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => {
+                        navigate('/admin/schemes');
+                        setIsMenuOpen(false);
+                      }}
+                    >
+                      {t('nav.admin')}
+                    </Button>
+                  )}
                   <Button variant="outline" size="sm" className="w-full" onClick={() => signOut()}>
-                    Sign Out
+                    {t('nav.signOut')}
                   </Button>
                 </>
               ) : (
                 <>
                   <Button variant="ghost" size="sm" className="w-full" onClick={() => navigate('/auth')}>
-                    Login
+                    {t('nav.login')}
                   </Button>
                   <Button variant="hero" size="sm" className="w-full" onClick={() => navigate('/auth')}>
-                    Sign Up
+                    {t('nav.signUp')}
                   </Button>
                 </>
               )}
@@ -0,0 +1,193 @@
+import React, { useEffect, useId, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CalendarCheck, CalendarClock, CalendarX, CheckCheck, Sparkles, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { AppNotification, INBOX_SIZE, NOTIFICATION_FIELDS, NOTIFICATION_KIND_KEYS } from '@/lib/notifications';
+
+/**
+ * Navigation bell with the user's notifications inbox. New rows arrive over realtime; opening a
+ * notification marks it read and follows its link.
+ */
+const NotificationBell = () => {
+  const { user } = useAuth();
+  const { t, language } = useLanguage();
+  const navigate = useNavigate();
+  // Navigation renders a bell in both the desktop and mobile bars; each needs its own channel
+  const instanceId = useId();
+
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadNotifications = async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select(NOTIFICATION_FIELDS)
+        .order('created_at', { ascending: false })
+        .limit(INBOX_SIZE);
+
+      if (error) {
+        console.error('Failed to load notifications:', error);
+      } else {
+        setNotifications(data || []);
+      }
+    };
+
+    loadNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${user.id}-${instanceId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const notification = payload.new as AppNotification;
+          setNotifications((current) => [notification, ...current].slice(0, INBOX_SIZE));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, instanceId]);
+
+  const unread = notifications.filter((notification) => !notification.read_at);
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Failed to mark notifications read:', error);
+      return;
+    }
+    setNotifications((current) =>
+      current.map((notification) => (ids.includes(notification.id) ? { ...notification, read_at: readAt } : notification))
+    );
+  };
+
+  const dismiss = async (notification: AppNotification) => {
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .eq('id', notification.id);
+
+    if (error) {
+      console.error('Failed to delete notification:', error);
+      return;
+    }
+    setNotifications((current) => current.filter((item) => item.id !== notification.id));
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.read_at) markRead([notification.id]);
+    setOpen(false);
+    if (notification.link) navigate(notification.link);
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString(language, { day: 'numeric', month: 'short' });
+
+  if (!user) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={t('notifications.title')}>
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-semibold text-sm">{t('notifications.title')}</p>
+          {unread.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={() => markRead(unread.map((notification) => notification.id))}
+            >
+              <CheckCheck className="h-3 w-3" />
+              {t('notifications.markAllRead')}
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <div className="px-4 py-8 text-center">
+            <p className="text-sm text-muted-foreground">{t('notifications.empty')}</p>
+            <p className="text-xs text-muted-foreground mt-1">{t('notifications.emptyHint')}</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => (
+              <div
+                key={notification.id}
+                onClick={() => openNotification(notification)}
+                className={cn(
+                  'group flex gap-3 px-4 py-3 cursor-pointer hover:bg-muted/50 transition-colors',
+                  !notification.read_at && 'bg-primary/5'
+                )}
+              >
+                {notification.kind === 'scheme_deadline' || notification.kind === 'appointment_reminder' ? (
+                  <CalendarClock className="h-4 w-4 mt-0.5 shrink-0 text-orange-500" />
+                ) : notification.kind === 'appointment_cancelled' ? (
+                  <CalendarX className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                ) : notification.kind === 'appointment_booked' || notification.kind === 'appointment_rescheduled' ? (
+                  <CalendarCheck className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                )}
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    {t(NOTIFICATION_KIND_KEYS[notification.kind])}
+                    {notification.due_date && ` · ${t('notifications.applyBy', { date: formatDate(notification.due_date) })}`}
+                  </p>
+                  <p className={cn('text-sm leading-snug', !notification.read_at && 'font-medium')}>{notification.title}</p>
+                  {notification.body && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                  )}
+                  <p className="text-[10px] text-muted-foreground">{formatDate(notification.created_at)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    dismiss(notification);
+                  }}
+                  className="h-5 w-5 shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+                  aria-label={t('notifications.dismiss')}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
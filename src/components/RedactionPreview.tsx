@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { EyeOff, Loader2, ShieldCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { formatPageRanges } from '@/lib/documents';
+import {
+  describeRedactionCounts,
+  PII_TYPE_LABELS,
+  PII_TYPE_STYLES,
+  PiiType,
+  PLACEHOLDER_PATTERN,
+  RedactionAudit,
+  RedactionPreview as RedactionPreviewData,
+} from '@/lib/redaction';
+
+interface RedactionPreviewProps {
+  documentId: string;
+}
+
+const typeForPlaceholder = (placeholder: string, items: RedactionPreviewData['items']): PiiType | undefined =>
+  items.find((item) => item.placeholder === placeholder)?.type;
+
+/**
+ * Shows which personal details in a document are replaced with placeholders before its text
+ * is sent to the AI, and the start of the text exactly as the AI receives it
+ */
+const RedactionPreview: React.FC<RedactionPreviewProps> = ({ documentId }) => {
+  const [preview, setPreview] = useState<RedactionPreviewData | null>(null);
+  const [audit, setAudit] = useState<RedactionAudit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      setPreview(null);
+      setError(null);
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) {
+          throw new Error('Not authenticated');
+        }
+
+        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-summarizer`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ document_id: documentId, mode: 'redact' }),
+        });
+        const data = await response.json();
+
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Could not prepare the preview');
+        }
+        setAudit(data.redaction);
+        setPreview(data.redaction_preview);
+      } catch (previewError) {
+        console.error('Error loading redaction preview:', previewError);
+        setError(previewError instanceof Error ? previewError.message : 'Could not prepare the preview');
+      }
+    };
+
+    loadPreview();
+  }, [documentId]);
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center py-6">{error}</p>;
+  }
+
+  if (!preview || !audit) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Checking the document for personal details
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-2 rounded-md border bg-muted/50 p-3 text-sm">
+        <ShieldCheck className="h-4 w-4 shrink-0 text-green-600 mt-0.5" />
+        <p>
+          {audit.total > 0
+            ? `${describeRedactionCounts(audit.counts)} ${audit.total === 1 ? 'is' : 'are'} replaced with placeholders before the text is sent to the AI. The placeholders are swapped back in the results you see.`
+            : 'No Aadhaar, PAN, phone or bank account numbers or addresses were found in this document.'}
+        </p>
+      </div>
+
+      {preview.items.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[150px]">Type</TableHead>
+                <TableHead>In your document</TableHead>
+                <TableHead className="w-[170px]">Sent to the AI as</TableHead>
+                <TableHead className="w-[90px]">Pages</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.items.map((item) => (
+                <TableRow key={item.placeholder}>
+                  <TableCell className="align-top">
+                    <Badge variant="outline" className={cn('whitespace-nowrap', PII_TYPE_STYLES[item.type])}>
+                      {PII_TYPE_LABELS[item.type].one}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="align-top text-sm break-words">
+                    {item.value}
+                    {item.occurrences > 1 && (
+                      <span className="text-xs text-muted-foreground"> · {item.occurrences} times</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <code className="text-xs">{item.placeholder}</code>
+                  </TableCell>
+                  <TableCell className="align-top text-sm">
+                    {item.pages.length > 0 ? formatPageRanges(item.pages) : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <EyeOff className="h-4 w-4" />
+          What the AI sees
+        </p>
+        <div className="max-h-80 overflow-y-auto rounded-md border bg-muted/30 p-3 text-xs leading-relaxed whitespace-pre-wrap">
+          {preview.text.split(PLACEHOLDER_PATTERN).map((part, index) => {
+            const type = index % 2 === 1 ? typeForPlaceholder(part, preview.items) : undefined;
+            return type ? (
+              <mark key={index} className={cn('rounded px-1 border', PII_TYPE_STYLES[type])}>{part}</mark>
+            ) : (
+              <React.Fragment key={index}>{part}</React.Fragment>
+            );
+          })}
+          {preview.truncated && <span className="text-muted-foreground"> …</span>}
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Detection is automatic and looks for common Indian formats. Names and details written in unusual ways may not be caught, so remove anything else you don't want to share before uploading.
+      </p>
+    </div>
+  );
+};
+
+export default RedactionPreview;
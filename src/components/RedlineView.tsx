@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { ArrowRight, FileText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  CHANGE_IMPACT_LABELS,
+  CHANGE_IMPACT_STYLES,
+  CHANGE_STATUS_LABELS,
+  ClauseChange,
+  DocumentComparison,
+} from '@/lib/redline';
+
+interface RedlineViewProps {
+  comparison: DocumentComparison;
+}
+
+type ChangeFilter = 'material' | 'changes' | 'all';
+
+const DELETED_STYLE = 'bg-red-500/10 text-red-600 line-through decoration-red-500/70';
+const INSERTED_STYLE = 'bg-green-500/10 text-green-700 dark:text-green-400 no-underline';
+
+const RedlineText = ({ change }: { change: ClauseChange }) => {
+  if (change.status === 'added') {
+    return <ins className={INSERTED_STYLE}>{change.revised_text}</ins>;
+  }
+  if (change.status === 'removed') {
+    return <del className={DELETED_STYLE}>{change.base_text}</del>;
+  }
+  if (change.status === 'unchanged') {
+    return <span className="text-muted-foreground">{change.revised_text}</span>;
+  }
+
+  return (
+    <>
+      {change.diff.map((segment, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && ' '}
+          {segment.op === 'delete' ? (
+            <del className={DELETED_STYLE}>{segment.text}</del>
+          ) : segment.op === 'insert' ? (
+            <ins className={INSERTED_STYLE}>{segment.text}</ins>
+          ) : (
+            segment.text
+          )}
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+const RedlineView: React.FC<RedlineViewProps> = ({ comparison }) => {
+  const [filter, setFilter] = useState<ChangeFilter>(comparison.stats.material > 0 ? 'material' : 'changes');
+  const { stats } = comparison;
+
+  const changes = comparison.changes.filter((change) =>
+    filter === 'all' ||
+    (change.status !== 'unchanged' && (filter === 'changes' || change.material !== false))
+  );
+  const hurting = comparison.changes.filter((change) => change.material && change.impact === 'hurts_user').length;
+
+  return (
+    <div className="space-y-4">
+      {/* Versions */}
+      <div className="flex flex-col md:flex-row md:items-center gap-2 text-sm">
+        <div className="flex-1 rounded-md border bg-muted/50 p-3">
+          <p className="text-xs text-muted-foreground mb-1">Original</p>
+          <p className="font-medium flex items-center gap-1 break-all">
+            <FileText className="h-3 w-3 shrink-0" />
+            {comparison.base_title}
+          </p>
+        </div>
+        <ArrowRight className="h-4 w-4 text-muted-foreground hidden md:block" />
+        <div className="flex-1 rounded-md border bg-muted/50 p-3">
+          <p className="text-xs text-muted-foreground mb-1">Revised</p>
+          <p className="font-medium flex items-center gap-1 break-all">
+            <FileText className="h-3 w-3 shrink-0" />
+            {comparison.revised_title}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline">{stats.modified} changed</Badge>
+        <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20">{stats.added} added</Badge>
+        <Badge variant="outline" className="bg-red-500/10 text-red-600 border-red-500/20">{stats.removed} removed</Badge>
+        <Badge variant="outline" className="text-muted-foreground">{stats.unchanged} unchanged</Badge>
+        {comparison.perspective && (
+          <span className="text-xs text-muted-foreground self-center">Reviewed from the side of: {comparison.perspective}</span>
+        )}
+      </div>
+
+      {hurting > 0 && (
+        <div className="rounded-md border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-600">
+          {hurting} change{hurting !== 1 ? 's' : ''} in the revised version work against you. Ask for these to be reverted before you sign.
+        </div>
+      )}
+
+      {comparison.unreviewed > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {comparison.unreviewed} change{comparison.unreviewed !== 1 ? 's are' : ' is'} shown in the redline without an explanation because the documents differ in many places.
+        </p>
+      )}
+
+      <Select value={filter} onValueChange={(value) => setFilter(value as ChangeFilter)}>
+        <SelectTrigger className="md:w-[260px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="material">Material changes</SelectItem>
+          <SelectItem value="changes">All changes</SelectItem>
+          <SelectItem value="all">Full document redline</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          {stats.modified + stats.added + stats.removed === 0
+            ? 'The two versions have the same text'
+            : 'No material changes were found; choose "All changes" to see every edit'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {changes.map((change) => (
+            <div
+              key={change.id}
+              className={cn(
+                'rounded-md border p-3 space-y-2',
+                change.material && change.impact === 'hurts_user' && 'border-red-500/40',
+                change.status === 'unchanged' && 'border-dashed'
+              )}
+            >
+              {change.status !== 'unchanged' && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{CHANGE_STATUS_LABELS[change.status]}</Badge>
+                  {change.impact && (
+                    <Badge variant="outline" className={CHANGE_IMPACT_STYLES[change.impact]}>
+                      {CHANGE_IMPACT_LABELS[change.impact]}
+                    </Badge>
+                  )}
+                  {change.material === false && (
+                    <span className="text-xs text-muted-foreground">Minor edit</span>
+                  )}
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {change.base_page !== null && `Original p. ${change.base_page}`}
+                    {change.base_page !== null && change.revised_page !== null && ' · '}
+                    {change.revised_page !== null && `Revised p. ${change.revised_page}`}
+                  </span>
+                </div>
+              )}
+
+              {change.explanation && (
+                <p className="text-sm font-medium">{change.explanation}</p>
+              )}
+              {change.impact_reason && (
+                <p className="text-xs text-muted-foreground">{change.impact_reason}</p>
+              )}
+
+              <p className="text-sm leading-relaxed">
+                <RedlineText change={change} />
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedlineView;
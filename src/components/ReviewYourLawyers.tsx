@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil, Star, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import StarRating from '@/components/StarRating';
+import { CONCLUDED_CASE_STATUSES, LawyerReview, MAX_COMMENT_LENGTH, REVIEW_FIELDS } from '@/lib/reviews';
+
+interface ReviewableLawyer {
+  lawyer_id: string;
+  name: string;
+  avatar_url: string | null;
+  // Most recently concluded case with this lawyer; a new review is tied to it
+  case_id: string;
+  case_title: string;
+  closed_at: string | null;
+  review: LawyerReview | null;
+}
+
+/**
+ * Dashboard card listing the lawyers a client has concluded cases with, to write, edit or delete
+ * a review for each. Hidden when the client has no concluded cases.
+ */
+const ReviewYourLawyers = () => {
+  const { user } = useAuth();
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+
+  const [lawyers, setLawyers] = useState<ReviewableLawyer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ReviewableLawyer | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadLawyers = async () => {
+      const [{ data: caseRows, error: casesError }, { data: reviewRows, error: reviewsError }] = await Promise.all([
+        supabase
+          .from('cases')
+          .select('id, lawyer_id, title, closed_at, updated_at')
+          .eq('client_id', user.id)
+          .in('status', CONCLUDED_CASE_STATUSES)
+          .order('updated_at', { ascending: false }),
+        supabase
+          .from('lawyer_reviews')
+          .select(REVIEW_FIELDS)
+          .eq('client_id', user.id),
+      ]);
+
+      if (casesError) console.error('Failed to load concluded cases:', casesError);
+      if (reviewsError) console.error('Failed to load your reviews:', reviewsError);
+
+      // Newest case first, so the first case seen for a lawyer is the latest
+      const latestCases = new Map<string, { id: string; title: string; closed_at: string | null }>();
+      for (const row of (caseRows || []) as { id: string; lawyer_id: string; title: string; closed_at: string | null }[]) {
+        if (!latestCases.has(row.lawyer_id)) latestCases.set(row.lawyer_id, row);
+      }
+
+      const lawyerIds = [...latestCases.keys()];
+      const { data: profiles } = lawyerIds.length > 0
+        ? await supabase.from('profiles').select('user_id, name, avatar_url').in('user_id', lawyerIds)
+        : { data: [] };
+      const reviews = reviewRows || [];
+
+      setLawyers(lawyerIds.map((lawyerId) => {
+        const latest = latestCases.get(lawyerId)!;
+        const profile = profiles?.find((item) => item.user_id === lawyerId);
+        return {
+          lawyer_id: lawyerId,
+          name: profile?.name || '',
+          avatar_url: profile?.avatar_url ?? null,
+          case_id: latest.id,
+          case_title: latest.title,
+          closed_at: latest.closed_at,
+          review: reviews.find((review) => review.lawyer_id === lawyerId) ?? null,
+        };
+      }));
+      setLoading(false);
+    };
+
+    loadLawyers();
+  }, [user]);
+
+  const openEditor = (lawyer: ReviewableLawyer) => {
+    setEditing(lawyer);
+    setRating(lawyer.review?.rating ?? 0);
+    setComment(lawyer.review?.comment ?? '');
+  };
+
+  const updateReview = (lawyerId: string, review: LawyerReview | null) =>
+    setLawyers((current) => current.map((lawyer) => (lawyer.lawyer_id === lawyerId ? { ...lawyer, review } : lawyer)));
+
+  const saveReview = async () => {
+    if (!user || !editing) return;
+    if (rating < 1) {
+      toast({ title: t('reviews.chooseRating'), variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const changes = { rating, comment: comment.trim() || null };
+    const { data, error } = editing.review
+      ? await supabase
+          .from('lawyer_reviews')
+          .update(changes)
+          .eq('id', editing.review.id)
+          .select(REVIEW_FIELDS)
+          .single()
+      : await supabase
+          .from('lawyer_reviews')
+          .insert({ ...changes, lawyer_id: editing.lawyer_id, client_id: user.id, case_id: editing.case_id })
+          .select(REVIEW_FIELDS)
+          .single();
+    setSaving(false);
+
+    if (error) {
+      console.error('Failed to save review:', error);
+      toast({
+        title: t('reviews.reviewFailed'),
+        description: (error as { message?: string }).message,
+        variant: 'destructive'
+      });
+      return;
+    }
+    updateReview(editing.lawyer_id, data);
+    setEditing(null);
+    toast({ title: t('reviews.reviewSaved') });
+  };
+
+  const deleteReview = async (lawyer: ReviewableLawyer) => {
+    if (!lawyer.review) return;
+    const { error } = await supabase
+      .from('lawyer_reviews')
+      .delete()
+      .eq('id', lawyer.review.id);
+
+    if (error) {
+      console.error('Failed to delete review:', error);
+      toast({ title: t('reviews.reviewFailed'), variant: 'destructive' });
+      return;
+    }
+    updateReview(lawyer.lawyer_id, null);
+    toast({ title: t('reviews.reviewDeleted') });
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(language, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const displayName = (lawyer: ReviewableLawyer) => lawyer.name || t('reviews.yourLawyer');
+
+  if (loading || lawyers.length === 0) return null;
+
+  return (
+    <Card className="glass mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="h-5 w-5" />
+          {t('reviews.rateYourLawyers')}
+        </CardTitle>
+        <CardDescription>{t('reviews.rateYourLawyersDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {lawyers.map((lawyer) => (
+          <div key={lawyer.lawyer_id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-4">
+            <div className="flex items-center gap-3 min-w-0">
+              <Avatar className="h-10 w-10">
+                <AvatarImage src={lawyer.avatar_url ?? undefined} alt={displayName(lawyer)} />
+                <AvatarFallback>{displayName(lawyer).split(' ').map((n) => n[0]).join('')}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="font-medium truncate">{displayName(lawyer)}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {lawyer.case_title}
+                  {lawyer.closed_at && ` · ${t('reviews.caseConcluded', { date: formatDate(lawyer.closed_at) })}`}
+                </p>
+                {lawyer.review && (
+                  <div className="flex items-center gap-2 mt-1">
+                    <StarRating value={lawyer.review.rating} starClassName="h-3 w-3" />
+                    {lawyer.review.status === 'hidden' && (
+                      <span className="text-xs text-destructive">{t('reviews.hiddenNoReason')}</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {lawyer.review ? (
+                <>
+                  <Button variant="outline" size="sm" className="gap-1" onClick={() => openEditor(lawyer)}>
+                    <Pencil className="h-3 w-3" />
+                    {t('reviews.editReview')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteReview(lawyer)}
+                    aria-label={t('reviews.deleteReview')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" className="gap-1" onClick={() => openEditor(lawyer)}>
+                  <Star className="h-3 w-3" />
+                  {t('reviews.writeReview')}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          {editing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{editing.review ? t('reviews.editReview') : t('reviews.writeReview')}</DialogTitle>
+                <DialogDescription>{displayName(editing)}</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>{t('reviews.yourRating')}</Label>
+                  <StarRating value={rating} onChange={setRating} starClassName="h-7 w-7" label={t('reviews.yourRating')} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="review-comment">{t('reviews.commentLabel')}</Label>
+                  <Textarea
+                    id="review-comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder={t('reviews.commentPlaceholder')}
+                    maxLength={MAX_COMMENT_LENGTH}
+                    rows={5}
+                  />
+                  <p className="text-xs text-muted-foreground text-right">{comment.length}/{MAX_COMMENT_LENGTH}</p>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+                  {t('common.cancel')}
+                </Button>
+                <Button onClick={saveReview} disabled={saving}>
+                  {t('reviews.submitReview')}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ReviewYourLawyers;
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BellRing, Mail, UserCheck, UserX } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  ALERT_FREQUENCIES,
+  ALERT_FREQUENCY_KEYS,
+  AlertFrequency,
+  DEADLINE_DAY_OPTIONS,
+  DEFAULT_PREFERENCES,
+  NotificationPreferences,
+} from '@/lib/notifications';
+
+/**
+ * Dashboard card for scheme alerts: how often to check new and closing schemes against the
+ * household members saved from the schemes page, and whether to also send an email digest.
+ * Changes are saved as soon as they are made.
+ */
+const SchemeAlertSettings = () => {
+  const { user } = useAuth();
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_PREFERENCES);
+  const [memberCount, setMemberCount] = useState(0);
+  const [membersUpdatedAt, setMembersUpdatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadSettings = async () => {
+      const [{ data: prefs, error: prefsError }, { data: members, error: membersError }] = await Promise.all([
+        supabase
+          .from('notification_preferences')
+          .select('scheme_alerts, email_enabled, deadline_days, last_checked_at')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('applicant_profiles')
+          .select('updated_at')
+          .eq('user_id', user.id)
+          .order('updated_at', { ascending: false }),
+      ]);
+
+      if (prefsError) console.error('Failed to load notification preferences:', prefsError);
+      if (membersError) console.error('Failed to load household members:', membersError);
+      if (prefs) setPreferences(prefs);
+      const saved = members || [];
+      setMemberCount(saved.length);
+      setMembersUpdatedAt(saved[0]?.updated_at ?? null);
+      setLoading(false);
+    };
+
+    loadSettings();
+  }, [user]);
+
+  const updatePreferences = async (changes: Partial<NotificationPreferences>) => {
+    if (!user) return;
+    const previous = preferences;
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    setSaving(true);
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: user.id,
+        scheme_alerts: next.scheme_alerts,
+        email_enabled: next.email_enabled,
+        deadline_days: next.deadline_days,
+      }, { onConflict: 'user_id' });
+
+    setSaving(false);
+    if (error) {
+      console.error('Failed to save notification preferences:', error);
+      setPreferences(previous);
+      toast({
+        title: t('dashboard.updateFailed'),
+        description: t('dashboard.alertSettingsFailed'),
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(language, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const alertsOn = preferences.scheme_alerts !== 'off';
+
+  return (
+    <Card className="glass mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          {t('dashboard.schemeAlerts')}
+        </CardTitle>
+        <CardDescription>{t('dashboard.schemeAlertsDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-24 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-4">
+              <div className="flex items-start gap-3">
+                {memberCount > 0 ? (
+                  <UserCheck className="h-5 w-5 mt-0.5 text-green-600" />
+                ) : (
+                  <UserX className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                )}
+                <div>
+                  <p className="text-sm font-medium">
+                    {memberCount > 0
+                      ? t('dashboard.householdMembersSaved', { count: memberCount })
+                      : t('dashboard.householdMembersMissing')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {membersUpdatedAt
+                      ? t('dashboard.householdUpdated', { date: formatDate(membersUpdatedAt) })
+                      : t('dashboard.householdHint')}
+                  </p>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => navigate('/government-schemes')}>
+                {memberCount > 0 ? t('dashboard.manageHousehold') : t('dashboard.findSchemes')}
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="alert-frequency">{t('dashboard.alertFrequency')}</Label>
+                <Select
+                  value={preferences.scheme_alerts}
+                  onValueChange={(value) => updatePreferences({ scheme_alerts: value as AlertFrequency })}
+                  disabled={saving}
+                >
+                  <SelectTrigger id="alert-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>
+                        {t(ALERT_FREQUENCY_KEYS[frequency])}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="alert-deadline-days">{t('dashboard.alertDeadlineDays')}</Label>
+                <Select
+                  value={String(preferences.deadline_days)}
+                  onValueChange={(value) => updatePreferences({ deadline_days: Number(value) })}
+                  disabled={saving || !alertsOn}
+                >
+                  <SelectTrigger id="alert-deadline-days">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEADLINE_DAY_OPTIONS.map((days) => (
+                      <SelectItem key={days} value={String(days)}>
+                        {t('dashboard.withinDays', { count: days })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="alert-email" className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  {t('dashboard.alertEmail')}
+                </Label>
+                <div className="flex items-center gap-3 h-10">
+                  <Switch
+                    id="alert-email"
+                    checked={preferences.email_enabled}
+                    onCheckedChange={(checked) => updatePreferences({ email_enabled: checked })}
+                    disabled={saving || !alertsOn}
+                  />
+                  <span className="text-sm text-muted-foreground">{user?.email}</span>
+                </div>
+              </div>
+            </div>
+
+            {alertsOn && (
+              <p className="text-xs text-muted-foreground">
+                {preferences.last_checked_at
+                  ? t('dashboard.alertsLastChecked', { date: formatDate(preferences.last_checked_at) })
+                  : t('dashboard.alertsNotCheckedYet')}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SchemeAlertSettings;
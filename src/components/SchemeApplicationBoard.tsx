@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Award, CalendarCheck, FileText, Hash, Search } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import SchemeApplicationDetails from '@/components/SchemeApplicationDetails';
+import { cn } from '@/lib/utils';
+import {
+  APPLICATION_FIELDS,
+  APPLICATION_STATUS_KEYS,
+  APPLICATION_STATUS_STYLES,
+  APPLICATION_STATUSES,
+  ApplicationStatus,
+  documentProgress,
+  PROOF_BUCKET,
+  SchemeApplication,
+  statusChange,
+} from '@/lib/schemeApplications';
+
+/**
+ * Dashboard kanban board of saved schemes by application status. Cards can be dragged between
+ * columns or opened to record the reference number, dates, notes and document checklist.
+ */
+const SchemeApplicationBoard = () => {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [applications, setApplications] = useState<SchemeApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [pendingRemove, setPendingRemove] = useState<SchemeApplication | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropStatus, setDropStatus] = useState<ApplicationStatus | null>(null);
+
+  useEffect(() => {
+    const loadApplications = async () => {
+      const { data, error } = await supabase
+        .from('scheme_applications')
+        .select(APPLICATION_FIELDS)
+        .order('status_changed_at', { ascending: false });
+
+      if (error) {
+        console.error('Failed to load scheme applications:', error);
+      } else {
+        setApplications(data || []);
+      }
+      setLoading(false);
+    };
+
+    loadApplications();
+  }, []);
+
+  const replaceApplication = (application: SchemeApplication) =>
+    setApplications((current) => current.map((item) => (item.id === application.id ? application : item)));
+
+  const moveApplication = async (application: SchemeApplication, status: ApplicationStatus) => {
+    if (application.status === status) return;
+    const changes = statusChange(application, status);
+    const { error } = await supabase
+      .from('scheme_applications')
+      .update(changes)
+      .eq('id', application.id);
+
+    if (error) {
+      console.error('Failed to move scheme application:', error);
+      toast({
+        title: t('dashboard.updateFailed'),
+        description: t('dashboard.applicationUpdateFailed'),
+        variant: 'destructive'
+      });
+      return;
+    }
+    replaceApplication({ ...application, ...changes, status_changed_at: new Date().toISOString() });
+  };
+
+  const removeApplication = async () => {
+    const application = pendingRemove;
+    setPendingRemove(null);
+    if (!application) return;
+
+    // Deleting the saved scheme removes its application and checklist
+    const { error } = await supabase
+      .from('saved_schemes')
+      .delete()
+      .eq('id', application.saved_scheme.id);
+
+    if (error) {
+      console.error('Failed to remove saved scheme:', error);
+      toast({
+        title: t('dashboard.updateFailed'),
+        description: t('dashboard.applicationUpdateFailed'),
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const proofs = application.documents.map((document) => document.file_path).filter((path): path is string => !!path);
+    if (proofs.length > 0) {
+      const { error: storageError } = await supabase.storage.from(PROOF_BUCKET).remove(proofs);
+      if (storageError) console.error('Error removing proofs:', storageError);
+    }
+
+    setOpenId(null);
+    setApplications((current) => current.filter((item) => item.id !== application.id));
+  };
+
+  const handleDrop = (status: ApplicationStatus) => {
+    const application = applications.find((item) => item.id === draggingId);
+    setDraggingId(null);
+    setDropStatus(null);
+    if (application) moveApplication(application, status);
+  };
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(language, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const openApplication = applications.find((item) => item.id === openId) ?? null;
+
+  return (
+    <Card className="glass mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Award className="h-5 w-5" />
+              {t('dashboard.schemeTracker')}
+            </CardTitle>
+            <CardDescription>{t('dashboard.schemeTrackerDescription')}</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate('/government-schemes')}>
+            <Search className="h-4 w-4" />
+            {t('dashboard.findSchemes')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-24 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : applications.length === 0 ? (
+          <div className="py-6 text-center">
+            <p className="text-sm text-muted-foreground">{t('dashboard.schemeTrackerEmpty')}</p>
+            <p className="text-xs text-muted-foreground mt-1">{t('dashboard.schemeTrackerEmptyHint')}</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+            {APPLICATION_STATUSES.map((status) => {
+              const column = applications.filter((application) => application.status === status);
+              return (
+                <div
+                  key={status}
+                  className={cn(
+                    'rounded-lg border border-t-4 bg-muted/30 p-3 space-y-3 min-h-[8rem] transition-colors',
+                    APPLICATION_STATUS_STYLES[status],
+                    dropStatus === status && 'bg-primary/10'
+                  )}
+                  onDragOver={(e) => {
+                    if (!draggingId) return;
+                    e.preventDefault();
+                    setDropStatus(status);
+                  }}
+                  onDragLeave={() => setDropStatus((current) => (current === status ? null : current))}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(status);
+                  }}
+                >
+                  <div className="flex items-center justify-between">
+                    <p className="font-semibold text-sm">{t(APPLICATION_STATUS_KEYS[status])}</p>
+                    <Badge variant="secondary">{column.length}</Badge>
+                  </div>
+                  {column.length === 0 && (
+                    <p className="text-xs text-muted-foreground text-center py-4">{t('dashboard.dropHere')}</p>
+                  )}
+                  {column.map((application) => {
+                    const progress = documentProgress(application.documents);
+                    return (
+                      <div
+                        key={application.id}
+                        draggable
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          setDraggingId(application.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggingId(null);
+                          setDropStatus(null);
+                        }}
+                        onClick={() => setOpenId(application.id)}
+                        className={cn(
+                          'rounded-md border bg-background/80 p-3 space-y-2 cursor-pointer hover:border-primary/50 transition-colors',
+                          draggingId === application.id && 'opacity-50'
+                        )}
+                      >
+                        <p className="text-sm font-medium leading-snug">{application.saved_scheme.scheme_name}</p>
+                        <div className="flex flex-wrap gap-1">
+                          {application.saved_scheme.scheme_category && (
+                            <Badge variant="outline" className="text-[10px]">{application.saved_scheme.scheme_category}</Badge>
+                          )}
+                          {application.saved_scheme.scheme_state && (
+                            <Badge variant="outline" className="text-[10px]">{application.saved_scheme.scheme_state}</Badge>
+                          )}
+                        </div>
+                        <div className="space-y-1 text-xs text-muted-foreground">
+                          {progress.total > 0 && (
+                            <p className={cn('flex items-center gap-1', progress.done === progress.total && 'text-green-600')}>
+                              <FileText className="h-3 w-3" />
+                              {t('dashboard.documentsProgress', { done: progress.done, total: progress.total })}
+                            </p>
+                          )}
+                          {application.reference_number && (
+                            <p className="flex items-center gap-1 truncate">
+                              <Hash className="h-3 w-3 shrink-0" />
+                              {application.reference_number}
+                            </p>
+                          )}
+                          {(application.decided_on || application.applied_on) && (
+                            <p className="flex items-center gap-1">
+                              <CalendarCheck className="h-3 w-3" />
+                              {application.decided_on
+                                ? t('dashboard.decidedOnDate', { date: formatDate(application.decided_on) })
+                                : t('dashboard.appliedOnDate', { date: formatDate(application.applied_on!) })}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <SchemeApplicationDetails
+        application={openApplication}
+        onClose={() => setOpenId(null)}
+        onChange={replaceApplication}
+        onRemove={setPendingRemove}
+      />
+
+      <AlertDialog open={!!pendingRemove} onOpenChange={(open) => !open && setPendingRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('dashboard.removeFromTracker')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('dashboard.removeFromTrackerConfirm', { name: pendingRemove?.saved_scheme.scheme_name ?? '' })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={removeApplication} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              {t('dashboard.removeFromTracker')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default SchemeApplicationBoard;
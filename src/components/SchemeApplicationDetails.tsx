@@ -0,0 +1,445 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExternalLink, FileCheck, Loader2, Paperclip, Plus, Trash2, Upload, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  APPLICATION_STATUS_KEYS,
+  APPLICATION_STATUSES,
+  ApplicationDocument,
+  ApplicationStatus,
+  documentProgress,
+  MAX_PROOF_SIZE,
+  PROOF_BUCKET,
+  PROOF_TYPES,
+  proofPath,
+  SchemeApplication,
+  sortDocuments,
+  statusChange,
+} from '@/lib/schemeApplications';
+
+interface SchemeApplicationDetailsProps {
+  application: SchemeApplication | null;
+  onClose: () => void;
+  onChange: (application: SchemeApplication) => void;
+  onRemove: (application: SchemeApplication) => void;
+}
+
+/**
+ * Dialog for one tracked scheme: status, reference number, dates and notes, and the document
+ * checklist with uploaded proofs. Checklist changes are saved as they are made.
+ */
+const SchemeApplicationDetails = ({ application, onClose, onChange, onRemove }: SchemeApplicationDetailsProps) => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [status, setStatus] = useState<ApplicationStatus>('suggested');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [appliedOn, setAppliedOn] = useState('');
+  const [decidedOn, setDecidedOn] = useState('');
+  const [notes, setNotes] = useState('');
+  const [newDocument, setNewDocument] = useState('');
+  const [saving, setSaving] = useState(false);
+  // Document the file picker is uploading a proof for
+  const [uploadingFor, setUploadingFor] = useState<ApplicationDocument | null>(null);
+  const [busyDocumentId, setBusyDocumentId] = useState<string | null>(null);
+
+  // The form is reset only when another application is opened, not when checklist changes
+  // replace the current one, so the effect reads the latest application through a ref
+  const applicationRef = useRef(application);
+  applicationRef.current = application;
+  const applicationId = application?.id;
+
+  useEffect(() => {
+    const current = applicationRef.current;
+    if (!current) return;
+    setStatus(current.status);
+    setReferenceNumber(current.reference_number ?? '');
+    setAppliedOn(current.applied_on ?? '');
+    setDecidedOn(current.decided_on ?? '');
+    setNotes(current.notes ?? '');
+    setNewDocument('');
+  }, [applicationId]);
+
+  if (!application) return null;
+
+  const scheme = application.saved_scheme;
+  const documents = sortDocuments(application.documents);
+  const progress = documentProgress(documents);
+
+  const showError = (error: unknown) => {
+    console.error('Failed to update scheme application:', error);
+    toast({
+      title: t('dashboard.updateFailed'),
+      description: t('dashboard.applicationUpdateFailed'),
+      variant: 'destructive'
+    });
+  };
+
+  const replaceDocument = (document: ApplicationDocument) =>
+    onChange({
+      ...application,
+      documents: application.documents.map((item) => (item.id === document.id ? document : item)),
+    });
+
+  const handleStatusChange = (value: ApplicationStatus) => {
+    setStatus(value);
+    // Fill in today's dates for a new status, without overwriting dates already entered
+    const changes = statusChange({ ...application, applied_on: appliedOn || null, decided_on: decidedOn || null }, value);
+    if (changes.applied_on) setAppliedOn(changes.applied_on);
+    if (changes.decided_on) setDecidedOn(changes.decided_on);
+  };
+
+  const handleSave = async () => {
+    if (appliedOn && decidedOn && decidedOn < appliedOn) {
+      toast({
+        title: t('dashboard.updateFailed'),
+        description: t('dashboard.decidedBeforeApplied'),
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const changes = {
+      status,
+      reference_number: referenceNumber.trim() || null,
+      applied_on: appliedOn || null,
+      decided_on: decidedOn || null,
+      notes: notes.trim() || null,
+    };
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('scheme_applications')
+      .update(changes)
+      .eq('id', application.id);
+    setSaving(false);
+
+    if (error) {
+      showError(error);
+      return;
+    }
+
+    onChange({
+      ...application,
+      ...changes,
+      status_changed_at: status !== application.status ? new Date().toISOString() : application.status_changed_at,
+    });
+    onClose();
+  };
+
+  const toggleDocument = async (document: ApplicationDocument, checked: boolean) => {
+    const checkedAt = checked ? new Date().toISOString() : null;
+    setBusyDocumentId(document.id);
+    const { error } = await supabase
+      .from('scheme_application_documents')
+      .update({ checked_at: checkedAt })
+      .eq('id', document.id);
+    setBusyDocumentId(null);
+
+    if (error) {
+      showError(error);
+      return;
+    }
+    replaceDocument({ ...document, checked_at: checkedAt });
+  };
+
+  const addDocument = async () => {
+    const name = newDocument.trim();
+    if (!name || documents.some((document) => document.name.toLowerCase() === name.toLowerCase())) {
+      setNewDocument('');
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('scheme_application_documents')
+      .insert({
+        application_id: application.id,
+        user_id: user!.id,
+        name,
+        position: documents.length + 1,
+      })
+      .select('id, name, position, checked_at, file_path, file_name, uploaded_at')
+      .single();
+
+    if (error) {
+      showError(error);
+      return;
+    }
+    setNewDocument('');
+    onChange({ ...application, documents: [...application.documents, data] });
+  };
+
+  const removeDocument = async (document: ApplicationDocument) => {
+    setBusyDocumentId(document.id);
+    if (document.file_path) {
+      const { error: storageError } = await supabase.storage.from(PROOF_BUCKET).remove([document.file_path]);
+      if (storageError) console.error('Error removing proof:', storageError);
+    }
+    const { error } = await supabase
+      .from('scheme_application_documents')
+      .delete()
+      .eq('id', document.id);
+    setBusyDocumentId(null);
+
+    if (error) {
+      showError(error);
+      return;
+    }
+    onChange({ ...application, documents: application.documents.filter((item) => item.id !== document.id) });
+  };
+
+  const chooseProof = (document: ApplicationDocument) => {
+    setUploadingFor(document);
+    fileInputRef.current?.click();
+  };
+
+  const handleProofSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    const document = uploadingFor;
+    setUploadingFor(null);
+    if (!file || !document || !user) return;
+
+    if (!PROOF_TYPES.includes(file.type) || file.size > MAX_PROOF_SIZE) {
+      toast({
+        title: t('dashboard.updateFailed'),
+        description: t('dashboard.proofInvalid'),
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setBusyDocumentId(document.id);
+    const path = proofPath(user.id, application.id, file.name);
+    const { error: uploadError } = await supabase.storage
+      .from(PROOF_BUCKET)
+      .upload(path, file, { upsert: false });
+
+    if (uploadError) {
+      setBusyDocumentId(null);
+      showError(uploadError);
+      return;
+    }
+
+    // A proof means the document is ready, so it is ticked off as well
+    const changes = {
+      file_path: path,
+      file_name: file.name,
+      uploaded_at: new Date().toISOString(),
+      checked_at: document.checked_at ?? new Date().toISOString(),
+    };
+    const { error } = await supabase
+      .from('scheme_application_documents')
+      .update(changes)
+      .eq('id', document.id);
+    setBusyDocumentId(null);
+
+    if (error) {
+      await supabase.storage.from(PROOF_BUCKET).remove([path]);
+      showError(error);
+      return;
+    }
+    if (document.file_path) {
+      await supabase.storage.from(PROOF_BUCKET).remove([document.file_path]);
+    }
+    replaceDocument({ ...document, ...changes });
+  };
+
+  const openProof = async (document: ApplicationDocument) => {
+    if (!document.file_path) return;
+    const { data, error } = await supabase.storage.from(PROOF_BUCKET).createSignedUrl(document.file_path, 60);
+    if (error || !data) {
+      showError(error);
+      return;
+    }
+    window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+  };
+
+  const removeProof = async (document: ApplicationDocument) => {
+    if (!document.file_path) return;
+    setBusyDocumentId(document.id);
+    const { error } = await supabase
+      .from('scheme_application_documents')
+      .update({ file_path: null, file_name: null, uploaded_at: null })
+      .eq('id', document.id);
+
+    if (error) {
+      setBusyDocumentId(null);
+      showError(error);
+      return;
+    }
+    const { error: storageError } = await supabase.storage.from(PROOF_BUCKET).remove([document.file_path]);
+    if (storageError) console.error('Error removing proof:', storageError);
+    setBusyDocumentId(null);
+    replaceDocument({ ...document, file_path: null, file_name: null, uploaded_at: null });
+  };
+
+  const website = scheme.scheme_official_website?.startsWith('http') ? scheme.scheme_official_website : null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{scheme.scheme_name}</DialogTitle>
+          <DialogDescription className="flex flex-wrap items-center gap-2">
+            {scheme.scheme_category && <Badge variant="secondary">{scheme.scheme_category}</Badge>}
+            {scheme.scheme_state && <Badge variant="outline">{scheme.scheme_state}</Badge>}
+            {scheme.scheme_deadline && scheme.scheme_deadline !== 'No deadline' && (
+              <span>{t('dashboard.schemeDeadline', { date: scheme.scheme_deadline })}</span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {scheme.scheme_how_to_apply && (
+            <div className="text-sm space-y-1">
+              <p className="font-medium">{t('dashboard.howToApply')}</p>
+              <p className="text-muted-foreground">{scheme.scheme_how_to_apply}</p>
+              {website && (
+                <a href={website} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline">
+                  {t('dashboard.visitWebsite')}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('dashboard.applicationStatus')}</Label>
+              <Select value={status} onValueChange={(value) => handleStatusChange(value as ApplicationStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APPLICATION_STATUSES.map((value) => (
+                    <SelectItem key={value} value={value}>{t(APPLICATION_STATUS_KEYS[value])}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reference-number">{t('dashboard.referenceNumber')}</Label>
+              <Input
+                id="reference-number"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                placeholder={t('dashboard.referenceNumberPlaceholder')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="applied-on">{t('dashboard.appliedOn')}</Label>
+              <Input id="applied-on" type="date" value={appliedOn} onChange={(e) => setAppliedOn(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="decided-on">{t('dashboard.decidedOn')}</Label>
+              <Input id="decided-on" type="date" value={decidedOn} onChange={(e) => setDecidedOn(e.target.value)} />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="application-notes">{t('dashboard.applicationNotes')}</Label>
+              <Textarea id="application-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="font-medium text-sm">{t('dashboard.requiredDocuments')}</p>
+              <span className="text-xs text-muted-foreground">
+                {t('dashboard.documentsProgress', { done: progress.done, total: progress.total })}
+              </span>
+            </div>
+            {documents.length === 0 && (
+              <p className="text-sm text-muted-foreground">{t('dashboard.noDocumentsListed')}</p>
+            )}
+            <div className="space-y-2">
+              {documents.map((document) => (
+                <div key={document.id} className="flex items-center gap-3 rounded-md border border-border/50 p-2">
+                  <Checkbox
+                    checked={!!document.checked_at}
+                    disabled={busyDocumentId === document.id}
+                    onCheckedChange={(checked) => toggleDocument(document, checked === true)}
+                    aria-label={document.name}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={document.checked_at ? 'text-sm line-through text-muted-foreground' : 'text-sm'}>{document.name}</p>
+                    {document.file_name && (
+                      <button
+                        type="button"
+                        className="text-xs text-primary hover:underline inline-flex items-center gap-1 max-w-full"
+                        onClick={() => openProof(document)}
+                        title={t('dashboard.viewProof')}
+                      >
+                        <Paperclip className="h-3 w-3 shrink-0" />
+                        <span className="truncate">{document.file_name}</span>
+                      </button>
+                    )}
+                  </div>
+                  {busyDocumentId === document.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  ) : (
+                    <div className="flex shrink-0">
+                      <Button variant="ghost" size="icon" title={t('dashboard.uploadProof')} onClick={() => chooseProof(document)}>
+                        {document.file_path ? <FileCheck className="h-4 w-4 text-green-600" /> : <Upload className="h-4 w-4" />}
+                      </Button>
+                      {document.file_path && (
+                        <Button variant="ghost" size="icon" title={t('dashboard.removeProof')} onClick={() => removeProof(document)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" title={t('dashboard.removeDocument')} onClick={() => removeDocument(document)}>
+                        <Trash2 className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={newDocument}
+                onChange={(e) => setNewDocument(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addDocument()}
+                placeholder={t('dashboard.addDocument')}
+              />
+              <Button variant="outline" size="icon" onClick={addDocument} disabled={!newDocument.trim()} aria-label={t('dashboard.addDocument')}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={PROOF_TYPES.join(',')}
+              className="hidden"
+              onChange={handleProofSelected}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" className="text-destructive gap-2" onClick={() => onRemove(application)}>
+            <Trash2 className="h-4 w-4" />
+            {t('dashboard.removeFromTracker')}
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="gap-2">
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SchemeApplicationDetails;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  value: number;
+  // Makes the stars clickable
+  onChange?: (value: number) => void;
+  className?: string;
+  starClassName?: string;
+  label?: string;
+}
+
+/**
+ * Five stars, filled up to value (rounded to the nearest half for display). With onChange it
+ * works as an input.
+ */
+const StarRating = ({ value, onChange, className, starClassName = 'h-4 w-4', label }: StarRatingProps) => {
+  const rounded = Math.round(value * 2) / 2;
+
+  return (
+    <div className={cn('flex items-center gap-0.5', className)} role={onChange ? 'radiogroup' : 'img'} aria-label={label}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const fill = rounded >= star ? 'full' : rounded >= star - 0.5 ? 'half' : 'empty';
+        const icon = (
+          <span className="relative inline-flex">
+            <Star className={cn(starClassName, 'text-yellow-500', fill === 'full' && 'fill-yellow-500')} />
+            {fill === 'half' && (
+              <span className="absolute inset-0 w-1/2 overflow-hidden">
+                <Star className={cn(starClassName, 'text-yellow-500 fill-yellow-500')} />
+              </span>
+            )}
+          </span>
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={value === star}
+            aria-label={String(star)}
+            onClick={() => onChange(star)}
+            className="rounded-sm hover:scale-110 transition-transform focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {icon}
+          </button>
+        ) : (
+          <React.Fragment key={star}>{icon}</React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,344 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CalendarClock, CalendarX, Download, MapPin, Phone, Video } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import BookConsultationDialog from '@/components/BookConsultationDialog';
+import { cn } from '@/lib/utils';
+import { downloadIcs } from '@/lib/calendar';
+import {
+  Appointment,
+  APPOINTMENT_FIELDS,
+  appointmentToCalendarEvent,
+  BOOKING_TIME_ZONE,
+  CHANGE_CUTOFF_HOURS,
+  CONSULTATION_MODE_KEYS,
+  ConsultationMode,
+  formatSlotTime,
+  isBeforeCutoff,
+  MAX_RESCHEDULES,
+} from '@/lib/appointments';
+
+const VISIBLE_APPOINTMENTS = 6;
+
+const MODE_ICONS: Record<ConsultationMode, typeof Phone> = {
+  in_person: MapPin,
+  phone: Phone,
+  video: Video,
+};
+
+interface UpcomingAppointment extends Appointment {
+  // The lawyer for a client, the client for a lawyer
+  person: { name: string; avatar_url: string | null };
+}
+
+interface UpcomingAppointmentsProps {
+  role: 'client' | 'lawyer';
+  className?: string;
+}
+
+/**
+ * Dashboard card listing confirmed consultations that have not ended yet, soonest first, with
+ * reschedule and cancel. Clients can only change an appointment up to the cut-off before it
+ * starts; lawyers can until it starts but must give a reason to cancel. The list follows
+ * bookings and changes made elsewhere over realtime.
+ */
+const UpcomingAppointments = ({ role, className }: UpcomingAppointmentsProps) => {
+  const { user } = useAuth();
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [appointments, setAppointments] = useState<UpcomingAppointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  const [rescheduling, setRescheduling] = useState<UpcomingAppointment | null>(null);
+  const [cancelling, setCancelling] = useState<UpcomingAppointment | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const ownColumn = role === 'client' ? 'client_id' : 'lawyer_id';
+
+  const loadAppointments = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select(APPOINTMENT_FIELDS)
+      .eq(ownColumn, user.id)
+      .eq('status', 'confirmed')
+      .gt('ends_at', new Date().toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to load appointments:', error);
+      toast({ title: t('appointments.loadFailed'), variant: 'destructive' });
+      setLoading(false);
+      return;
+    }
+
+    const rows = data || [];
+    const personId = (appointment: Appointment) => (role === 'client' ? appointment.lawyer_id : appointment.client_id);
+    const ids = [...new Set(rows.map(personId))];
+
+    const { data: profileRows, error: profilesError } = ids.length > 0
+      ? await supabase.from('profiles').select('user_id, name, avatar_url').in('user_id', ids)
+      : { data: [], error: null };
+    if (profilesError) console.error('Failed to load appointment profiles:', profilesError);
+
+    const people = new Map((profileRows || []).map((profile) => [profile.user_id, profile]));
+    setAppointments(rows.map((appointment) => {
+      const person = people.get(personId(appointment));
+      return { ...appointment, person: { name: person?.name ?? '', avatar_url: person?.avatar_url ?? null } };
+    }));
+    setLoading(false);
+  }, [user, role, ownColumn, t, toast]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadAppointments();
+
+    const channel = supabase
+      .channel(`appointments-${role}-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'appointments',
+          filter: `${ownColumn}=eq.${user.id}`,
+        },
+        () => loadAppointments()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, role, ownColumn, loadAppointments]);
+
+  const displayName = (appointment: UpcomingAppointment) =>
+    appointment.person.name || (role === 'client' ? t('appointments.yourLawyer') : t('appointments.yourClient'));
+
+  const cancelAppointment = async () => {
+    if (!cancelling) return;
+    if (role === 'lawyer' && !reason.trim()) {
+      toast({ title: t('appointments.reasonRequired'), variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc('cancel_appointment', {
+      _appointment_id: cancelling.id,
+      _reason: reason.trim() || null,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error('Failed to cancel appointment:', error);
+      toast({
+        title: t('appointments.cancelFailed'),
+        description: (error as { message?: string }).message,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setAppointments((current) => current.filter((item) => item.id !== cancelling.id));
+    setCancelling(null);
+    toast({ title: t('appointments.cancelled') });
+  };
+
+  const handleDownload = () => {
+    downloadIcs(
+      appointments.map((appointment) => appointmentToCalendarEvent(appointment, displayName(appointment))),
+      t('appointments.title'),
+      'consultations.ics'
+    );
+  };
+
+  const datePart = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(date).toLocaleDateString(language, { ...options, timeZone: BOOKING_TIME_ZONE });
+
+  const visible = showAll ? appointments : appointments.slice(0, VISIBLE_APPOINTMENTS);
+
+  return (
+    <Card className={cn('glass', className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              {t('appointments.title')}
+            </CardTitle>
+            <CardDescription>
+              {role === 'client' ? t('appointments.clientDescription') : t('appointments.lawyerDescription')}
+            </CardDescription>
+          </div>
+          {appointments.length > 0 && (
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleDownload}>
+              <Download className="h-4 w-4" />
+              {t('appointments.addToCalendar')}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-24 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : appointments.length === 0 ? (
+          <div className="py-6 text-center">
+            <p className="text-sm text-muted-foreground">{t('appointments.empty')}</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {role === 'client' ? t('appointments.clientEmptyHint') : t('appointments.lawyerEmptyHint')}
+            </p>
+            {role === 'client' && (
+              <Button variant="outline" size="sm" className="mt-3" onClick={() => navigate('/find-lawyers')}>
+                {t('appointments.findLawyer')}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map((appointment) => {
+              const ModeIcon = MODE_ICONS[appointment.mode];
+              const canChange = role === 'lawyer' || isBeforeCutoff(appointment);
+              const canReschedule = canChange && (role === 'lawyer' || appointment.reschedule_count < MAX_RESCHEDULES);
+
+              return (
+                <div key={appointment.id} className="flex items-start gap-3 p-3 rounded-lg border bg-muted/50">
+                  <div className="text-center w-14 shrink-0">
+                    <p className="text-xs uppercase text-muted-foreground">{datePart(appointment.starts_at, { month: 'short' })}</p>
+                    <p className="text-xl font-bold leading-tight">{datePart(appointment.starts_at, { day: 'numeric' })}</p>
+                    <p className="text-[10px] text-muted-foreground">{datePart(appointment.starts_at, { weekday: 'short' })}</p>
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="text-sm font-medium">
+                        {formatSlotTime(appointment.starts_at, language)} – {formatSlotTime(appointment.ends_at, language)}
+                      </p>
+                      <Badge variant="secondary" className="text-xs gap-1">
+                        <ModeIcon className="h-3 w-3" />
+                        {t(CONSULTATION_MODE_KEYS[appointment.mode])}
+                      </Badge>
+                      {appointment.reschedule_count > 0 && (
+                        <Badge variant="outline" className="text-xs">{t('appointments.rescheduled')}</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Avatar className="h-5 w-5">
+                        <AvatarImage src={appointment.person.avatar_url ?? undefined} />
+                        <AvatarFallback className="text-[10px]">{displayName(appointment).charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <p className="text-xs text-muted-foreground">{t('appointments.withName', { name: displayName(appointment) })}</p>
+                    </div>
+                    {role === 'lawyer' && appointment.notes && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        <span className="font-medium">{t('appointments.clientNotes')}:</span> {appointment.notes}
+                      </p>
+                    )}
+                    {!canChange ? (
+                      <p className="text-xs text-muted-foreground">{t('appointments.changesClosed', { hours: CHANGE_CUTOFF_HOURS })}</p>
+                    ) : !canReschedule && (
+                      <p className="text-xs text-muted-foreground">{t('appointments.rescheduleLimitReached', { count: MAX_RESCHEDULES })}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8"
+                      disabled={!canReschedule}
+                      onClick={() => setRescheduling(appointment)}
+                    >
+                      {t('appointments.reschedule')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 text-destructive hover:text-destructive"
+                      disabled={!canChange}
+                      onClick={() => {
+                        setReason('');
+                        setCancelling(appointment);
+                      }}
+                    >
+                      {t('appointments.cancel')}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            {appointments.length > VISIBLE_APPOINTMENTS && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll(!showAll)}>
+                {showAll ? t('appointments.showFewer') : t('appointments.showAll', { count: appointments.length })}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      {rescheduling && (
+        <BookConsultationDialog
+          open={!!rescheduling}
+          onOpenChange={(open) => !open && setRescheduling(null)}
+          lawyerId={rescheduling.lawyer_id}
+          name={displayName(rescheduling)}
+          appointment={rescheduling}
+          onSaved={() => loadAppointments()}
+        />
+      )}
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          {cancelling && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <CalendarX className="h-5 w-5" />
+                  {t('appointments.cancelTitle')}
+                </DialogTitle>
+                <DialogDescription>
+                  {t('appointments.cancelDescription', { name: displayName(cancelling) })}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="cancel-reason">{t('appointments.cancelReason')}</Label>
+                <Textarea
+                  id="cancel-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={t('appointments.cancelReasonPlaceholder')}
+                  maxLength={500}
+                  rows={3}
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCancelling(null)} disabled={saving}>
+                  {t('appointments.keepAppointment')}
+                </Button>
+                <Button variant="destructive" onClick={cancelAppointment} disabled={saving}>
+                  {t('appointments.confirmCancel')}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default UpcomingAppointments;
@@ -9,7 +9,14 @@ interface Profile {
   email: string;
   phone?: string;
   location?: string;
+  // Geocoded from location against the bundled gazetteer; null when it is not a known place
+  latitude?: number | null;
+  longitude?: number | null;
+  district?: string | null;
+  state?: string | null;
+  pincode?: string | null;
   avatar_url?: string;
+  preferred_language?: string;
 }
 
 interface AuthContextType {
@@ -17,6 +24,8 @@ interface AuthContextType {
   profile: Profile | null;
   session: Session | null;
   userRole: 'user' | 'lawyer' | null;
+  // Admins curate shared data such as the government schemes catalogue; granted by hand
+  isAdmin: boolean;
   loading: boolean;
   signUp: (email: string, password: string, name: string, role: 'user' | 'lawyer') => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
@@ -39,6 +48,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [profile, setProfile] = useState<Profile | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [userRole, setUserRole] = useState<'user' | 'lawyer' | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
   const [initialized, setInitialized] = useState(false);
   
@@ -49,23 +59,25 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const processingEventRef = React.useRef(false);
   const lastEventRef = React.useRef<{ event: string; timestamp: number } | null>(null);
 
-  const fetchUserRole = async (userId: string) => {
+  const fetchUserRole = async (userId: string): Promise<{ role: 'user' | 'lawyer' | null; isAdmin: boolean }> => {
     try {
+      // An admin also has their user or lawyer role, so a user can have more than one row
       const { data, error } = await supabase
         .from('user_roles')
         .select('role')
-        .eq('user_id', userId)
-        .maybeSingle();
+        .eq('user_id', userId);
 
       if (error) {
         console.error('Error fetching user role:', error);
-        return null;
+        return { role: null, isAdmin: false };
       }
 
-      return data?.role as 'user' | 'lawyer' | null;
+      const roles = (data ?? []).map((row) => row.role);
+      const role = roles.includes('lawyer') ? 'lawyer' : roles.length > 0 ? 'user' : null;
+      return { role, isAdmin: roles.includes('admin') };
     } catch (error) {
       console.error('Exception in fetchUserRole:', error);
-      return null;
+      return { role: null, isAdmin: false };
     }
   };
 
@@ -158,6 +170,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           setSession(null);
           setUser(null);
           setUserRole(null);
+          setIsAdmin(false);
           setProfile(null);
           setLoading(false);
           return;
@@ -184,16 +197,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             return;
           }
           
-          console.log('AuthContext - Loaded - role:', role, 'profile:', profileData?.name);
+          console.log('AuthContext - Loaded - role:', role.role, 'profile:', profileData?.name);
           
           // Only update if values actually changed
-          setUserRole(role);
+          setUserRole(role.role);
+          setIsAdmin(role.isAdmin);
           setProfile(profileData);
         } else {
           console.log('AuthContext - No session found');
           setSession(null);
           setUser(null);
           setUserRole(null);
+          setIsAdmin(false);
           setProfile(null);
         }
       } catch (error) {
@@ -202,6 +217,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setSession(null);
         setUser(null);
         setUserRole(null);
+        setIsAdmin(false);
         setProfile(null);
       } finally {
         if (mounted) {
@@ -273,6 +289,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           setSession(null);
           setUser(null);
           setUserRole(null);
+          setIsAdmin(false);
           setProfile(null);
           processingEventRef.current = false;
           return;
@@ -330,10 +347,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             
             if (!mounted) return;
             
-            setUserRole(role);
+            setUserRole(role.role);
+            setIsAdmin(role.isAdmin);
             setProfile(profileData);
           } else {
             setUserRole(null);
+            setIsAdmin(false);
             setProfile(null);
           }
           processingEventRef.current = false;
@@ -434,6 +453,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setSession(null);
     setProfile(null);
     setUserRole(null);
+    setIsAdmin(false);
   };
 
   const updateProfile = async (updates: Partial<Profile>) => {
@@ -459,6 +479,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         session,
         profile,
         userRole,
+        isAdmin,
         loading,
         signUp,
         signIn,
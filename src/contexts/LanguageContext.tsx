@@ -0,0 +1,72 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_LANGUAGE,
+  LanguageCode,
+  TranslationKey,
+  isLanguageCode,
+  translate,
+} from '@/i18n';
+
+const STORAGE_KEY = 'nyaai-language';
+
+interface LanguageContextType {
+  language: LanguageCode;
+  setLanguage: (language: LanguageCode) => Promise<void>;
+  t: (key: TranslationKey, vars?: Record<string, string | number>) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export const useLanguage = () => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+};
+
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, profile, updateProfile } = useAuth();
+  const [language, setLanguageState] = useState<LanguageCode>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLanguageCode(stored) ? stored : DEFAULT_LANGUAGE;
+  });
+
+  // A signed-in user's saved preference wins over whatever this browser last used
+  useEffect(() => {
+    const preferred = profile?.preferred_language;
+    if (isLanguageCode(preferred)) {
+      localStorage.setItem(STORAGE_KEY, preferred);
+      setLanguageState(preferred);
+    }
+  }, [profile?.preferred_language]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback(async (next: LanguageCode) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setLanguageState(next);
+
+    if (user && profile?.preferred_language !== next) {
+      try {
+        await updateProfile({ preferred_language: next });
+      } catch (error) {
+        console.error('Error saving language preference:', error);
+      }
+    }
+  }, [user, profile?.preferred_language, updateProfile]);
+
+  const t = useCallback(
+    (key: TranslationKey, vars?: Record<string, string | number>) => translate(language, key, vars),
+    [language]
+  );
+
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
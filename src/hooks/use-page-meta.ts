@@ -0,0 +1,89 @@
+import * as React from "react"
+
+interface PageMeta {
+  title: string
+  description: string
+  // Absolute URL search engines should treat as the page's address
+  canonicalUrl?: string
+  image?: string | null
+  // schema.org JSON-LD describing the page
+  structuredData?: Record<string, unknown>
+}
+
+const STRUCTURED_DATA_ID = "page-structured-data"
+
+// Sets a <meta>/<link> tag and returns a function restoring what was there before
+const setTag = (selector: string, create: () => HTMLElement, attribute: string, value: string | undefined) => {
+  let element = document.head.querySelector<HTMLElement>(selector)
+  const created = !element
+  const previous = element?.getAttribute(attribute) ?? null
+
+  if (!value) {
+    return () => {}
+  }
+  if (!element) {
+    element = create()
+    document.head.appendChild(element)
+  }
+  element.setAttribute(attribute, value)
+
+  return () => {
+    if (created) {
+      element?.remove()
+    } else if (previous !== null) {
+      element?.setAttribute(attribute, previous)
+    }
+  }
+}
+
+const metaTag = (key: "name" | "property", name: string, content: string | undefined) =>
+  setTag(`meta[${key}="${name}"]`, () => {
+    const meta = document.createElement("meta")
+    meta.setAttribute(key, name)
+    return meta
+  }, "content", content)
+
+/**
+ * Title, description, Open Graph tags, canonical link and JSON-LD for a public page, restored
+ * to the site defaults from index.html when the page unmounts
+ */
+export function usePageMeta(meta: PageMeta | null) {
+  const serialized = meta ? JSON.stringify(meta) : null
+
+  React.useEffect(() => {
+    if (!serialized) return
+    const { title, description, canonicalUrl, image, structuredData } = JSON.parse(serialized) as PageMeta
+
+    const previousTitle = document.title
+    document.title = title
+
+    const restore = [
+      metaTag("name", "description", description),
+      metaTag("property", "og:title", title),
+      metaTag("property", "og:description", description),
+      metaTag("property", "og:type", "profile"),
+      metaTag("property", "og:url", canonicalUrl),
+      metaTag("property", "og:image", image ?? undefined),
+      setTag('link[rel="canonical"]', () => {
+        const link = document.createElement("link")
+        link.setAttribute("rel", "canonical")
+        return link
+      }, "href", canonicalUrl),
+    ]
+
+    let script: HTMLScriptElement | null = null
+    if (structuredData) {
+      script = document.createElement("script")
+      script.type = "application/ld+json"
+      script.id = STRUCTURED_DATA_ID
+      script.textContent = JSON.stringify(structuredData)
+      document.head.appendChild(script)
+    }
+
+    return () => {
+      document.title = previousTitle
+      restore.forEach((undo) => undo())
+      script?.remove()
+    }
+  }, [serialized])
+}
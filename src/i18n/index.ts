@@ -0,0 +1,55 @@
+/**
+ * Lightweight i18n layer: typed translation keys, per-language dictionaries and {var} interpolation.
+ * Missing keys in a language fall back to English.
+ */
+import en from './locales/en';
+import hi from './locales/hi';
+import mr from './locales/mr';
+import ta from './locales/ta';
+import bn from './locales/bn';
+
+export type LanguageCode = 'en' | 'hi' | 'mr' | 'ta' | 'bn';
+
+export type TranslationDictionary = typeof en;
+
+export type PartialTranslationDictionary = {
+  [Section in keyof TranslationDictionary]?: Partial<TranslationDictionary[Section]>;
+};
+
+export type TranslationKey = {
+  [Section in keyof TranslationDictionary & string]: `${Section}.${keyof TranslationDictionary[Section] & string}`;
+}[keyof TranslationDictionary & string];
+
+export const LANGUAGES: Array<{ code: LanguageCode; name: string; nativeName: string }> = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+const dictionaries: Record<LanguageCode, PartialTranslationDictionary> = { en, hi, mr, ta, bn };
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && value in dictionaries;
+
+/**
+ * Look up a key for a language, falling back to English, and fill {placeholders}
+ */
+export function translate(
+  language: LanguageCode,
+  key: TranslationKey,
+  vars?: Record<string, string | number>
+): string {
+  const [section, name] = key.split('.') as [keyof TranslationDictionary, string];
+  const localized = dictionaries[language]?.[section] as Record<string, string> | undefined;
+  const fallback = en[section] as Record<string, string>;
+  const template = localized?.[name] ?? fallback[name] ?? key;
+
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, varName) =>
+    vars[varName] !== undefined ? String(vars[varName]) : match
+  );
+}
@@ -0,0 +1,405 @@
+import type { PartialTranslationDictionary } from '../index';
+
+/**
+ * Bengali (বাংলা). Legal terms keep their English form in brackets.
+ */
+const bn: PartialTranslationDictionary = {
+  common: {
+    save: 'সংরক্ষণ করুন',
+    cancel: 'বাতিল করুন',
+    language: 'ভাষা',
+  },
+  nav: {
+    home: 'হোম',
+    features: 'বৈশিষ্ট্য',
+    about: 'আমাদের সম্পর্কে',
+    contact: 'যোগাযোগ',
+    dashboard: 'ড্যাশবোর্ড',
+    signOut: 'সাইন আউট',
+    admin: 'অ্যাডমিন',
+    login: 'লগইন',
+    signUp: 'সাইন আপ',
+  },
+  hero: {
+    badge: 'উন্নত AI দ্বারা চালিত',
+    titleLine1: 'AI-এর মাধ্যমে',
+    titleLine2: 'সবার জন্য ন্যায়বিচার',
+    subtitle: 'NyaAI কৃত্রিম বুদ্ধিমত্তা ও আইনি দক্ষতাকে একসাথে এনে সবার জন্য ন্যায়বিচারকে সহজলভ্য করে তোলে।',
+    assistantTitle: 'AI আইনি সহকারী (Legal Assistant)',
+    assistantDescription: '২৪/৭ বুদ্ধিদীপ্ত আইনি নির্দেশনা',
+    documentTitle: 'নথি বিশ্লেষণ',
+    documentDescription: 'আইনি নথির তাৎক্ষণিক ব্যাখ্যা',
+    networkTitle: 'বিশেষজ্ঞ নেটওয়ার্ক',
+    networkDescription: 'যোগ্য আইনজীবীদের (Lawyers) সাথে যুক্ত হন',
+    goToDashboard: 'ড্যাশবোর্ডে যান',
+    getStarted: 'বিনামূল্যে শুরু করুন',
+    exploreFeatures: 'বৈশিষ্ট্যগুলি দেখুন',
+    trustedBy: '১০,০০০+ ব্যবহারকারীর আস্থা',
+    soc2: 'SOC 2 সম্মত',
+    security: 'এন্টারপ্রাইজ মানের নিরাপত্তা',
+  },
+  features: {
+    badge: 'শক্তিশালী বৈশিষ্ট্য',
+    titleLine1: 'উন্নত NyaAI প্রযুক্তি',
+    titleLine2: 'আপনার হাতের মুঠোয়',
+    subtitle: 'কৃত্রিম বুদ্ধিমত্তার সাহায্যে আপনার আইনি প্রক্রিয়া সহজ করুন এবং আত্মবিশ্বাসের সাথে সঠিক সিদ্ধান্ত নিন।',
+    learnMore: 'আরও জানুন',
+    chatbotTitle: 'AI আইনি চ্যাটবট',
+    chatbotDescription: 'বিস্তৃত আইনি ডেটাবেসে প্রশিক্ষিত আমাদের AI সহকারীর কাছ থেকে তাৎক্ষণিক আইনি পরামর্শ নিন।',
+    chatbotHighlight1: '২৪/৭ উপলব্ধ',
+    chatbotHighlight2: 'বহুভাষিক সহায়তা',
+    chatbotHighlight3: 'নজির মামলার (Case Law) উল্লেখ',
+    summarizerTitle: 'নথি সারাংশ',
+    summarizerDescription: 'আইনি নথি আপলোড করুন এবং মূল বিষয় ও সম্ভাব্য সমস্যাগুলি তুলে ধরা AI সারাংশ পান।',
+    summarizerHighlight1: 'PDF ও DOCX সমর্থন',
+    summarizerHighlight2: 'মূল বিষয় নির্যাস',
+    summarizerHighlight3: 'ঝুঁকি মূল্যায়ন',
+    schemesTitle: 'সরকারি প্রকল্প উপদেষ্টা',
+    schemesDescription: 'আপনার ব্যক্তিগত ও আর্থিক তথ্যের ভিত্তিতে উপযুক্ত সরকারি প্রকল্প ও সুবিধা খুঁজুন।',
+    schemesHighlight1: 'ব্যক্তিগত মিল',
+    schemesHighlight2: 'যোগ্যতা (Eligibility) যাচাই',
+    schemesHighlight3: 'আবেদন নির্দেশিকা',
+    lawyersTitle: 'কাছাকাছি আইনজীবী খুঁজুন',
+    lawyersDescription: 'আপনার এলাকায় আপনার আইনি প্রয়োজনে বিশেষজ্ঞ যোগ্য আইনজীবীদের (Lawyers) সাথে যুক্ত হন।',
+    lawyersHighlight1: 'অবস্থান-ভিত্তিক অনুসন্ধান',
+    lawyersHighlight2: 'বিশেষজ্ঞতা (Specialization) ফিল্টার',
+    lawyersHighlight3: 'যাচাইকৃত পেশাদার',
+    drafterTitle: 'আইনি খসড়া স্টুডিও',
+    drafterDescription: 'সহজ ফর্ম পূরণ করে আইনি নোটিশ, তথ্য অধিকার আবেদন, ভোক্তা অভিযোগ, ভাড়া চুক্তি ও হলফনামা তৈরি করুন।',
+    drafterHighlight1: 'নোটিশ, আরটিআই ও অভিযোগ',
+    drafterHighlight2: 'সম্পাদনা ও সংস্করণ',
+    drafterHighlight3: 'ওয়ার্ড ও পিডিএফ রপ্তানি',
+    ctaTitle: 'আপনার আইনি অভিজ্ঞতা বদলাতে প্রস্তুত?',
+    ctaSubtitle: 'হাজার হাজার ব্যবহারকারী ইতিমধ্যে আমাদের AI আইনি প্ল্যাটফর্মের সুবিধা পাচ্ছেন। আজই আরও স্মার্ট আইনি সমাধানের পথে যাত্রা শুরু করুন।',
+    startTrial: 'বিনামূল্যে ট্রায়াল শুরু করুন',
+    tryAnalyzer: 'নথি বিশ্লেষক ব্যবহার করে দেখুন',
+  },
+  auth: {
+    welcome: 'স্বাগতম',
+    tagline: 'AI-এর মাধ্যমে সবার জন্য ন্যায়বিচার',
+    getStarted: 'শুরু করুন',
+    subtitle: 'আপনার অ্যাকাউন্টে সাইন ইন করুন অথবা নতুন অ্যাকাউন্ট তৈরি করুন',
+    signIn: 'সাইন ইন',
+    signingIn: 'সাইন ইন হচ্ছে...',
+    signUp: 'সাইন আপ',
+    email: 'ইমেল',
+    emailPlaceholder: 'আপনার ইমেল লিখুন',
+    password: 'পাসওয়ার্ড',
+    passwordPlaceholder: 'আপনার পাসওয়ার্ড লিখুন',
+    fullName: 'পুরো নাম',
+    fullNamePlaceholder: 'আপনার পুরো নাম লিখুন',
+    accountType: 'অ্যাকাউন্টের ধরন',
+    accountTypePlaceholder: 'অ্যাকাউন্টের ধরন বেছে নিন',
+    roleUser: 'ব্যবহারকারী - আইনি সহায়তা প্রয়োজন',
+    roleLawyer: 'আইনজীবী (Lawyer) - আইনি পেশাদার',
+    createPasswordPlaceholder: 'পাসওয়ার্ড তৈরি করুন',
+    confirmPassword: 'পাসওয়ার্ড নিশ্চিত করুন',
+    confirmPasswordPlaceholder: 'পাসওয়ার্ড আবার লিখুন',
+    professionalDetails: 'পেশাগত বিবরণ',
+    licenseNumber: 'লাইসেন্স নম্বর (License Number) *',
+    licenseNumberPlaceholder: 'বার লাইসেন্স (Bar License) নম্বর',
+    experience: 'অভিজ্ঞতা (বছর)',
+    experiencePlaceholder: 'বছর',
+    specialization: 'প্রধান বিশেষজ্ঞতা (Specialization) *',
+    specializationPlaceholder: 'বিশেষজ্ঞতা বেছে নিন',
+    specCriminal: 'ফৌজদারি আইন (Criminal Law)',
+    specCivil: 'দেওয়ানি আইন (Civil Law)',
+    specCorporate: 'কর্পোরেট আইন (Corporate Law)',
+    specFamily: 'পারিবারিক আইন (Family Law)',
+    specProperty: 'সম্পত্তি আইন (Property Law)',
+    specLabor: 'শ্রম আইন (Labour Law)',
+    specTax: 'কর আইন (Tax Law)',
+    specImmigration: 'অভিবাসন আইন (Immigration Law)',
+    specIntellectual: 'মেধাস্বত্ব (Intellectual Property)',
+    specEnvironmental: 'পরিবেশ আইন (Environmental Law)',
+    courtLevel: 'আদালত স্তরের অভিজ্ঞতা',
+    courtLevelPlaceholder: 'আদালতের স্তর বেছে নিন',
+    courtDistrict: 'জেলা আদালত (District Court)',
+    courtSessions: 'দায়রা আদালত (Sessions Court)',
+    courtHigh: 'হাইকোর্ট (High Court)',
+    courtSupreme: 'সুপ্রিম কোর্ট (Supreme Court)',
+    courtTribunal: 'ট্রাইব্যুনাল (Tribunal)',
+    courtAll: 'সব স্তর',
+    phone: 'ফোন নম্বর',
+    phonePlaceholder: 'আপনার যোগাযোগ নম্বর',
+    location: 'শহর/অবস্থান',
+    locationPlaceholder: 'প্র্যাকটিসের স্থান',
+    barAssociation: 'বার অ্যাসোসিয়েশন (Bar Association)',
+    barAssociationPlaceholder: 'রাজ্য বার কাউন্সিল (State Bar Council)',
+    practiceAreas: 'অতিরিক্ত প্র্যাকটিস ক্ষেত্র',
+    practiceAreasPlaceholder: 'প্র্যাকটিসের অন্যান্য ক্ষেত্র (ঐচ্ছিক)',
+    createAccount: 'অ্যাকাউন্ট তৈরি করুন',
+    creatingAccount: 'অ্যাকাউন্ট তৈরি হচ্ছে...',
+    clearCache: 'সমস্যা হচ্ছে? ক্যাশে মুছে আবার চেষ্টা করুন',
+    clearCacheHint: 'আটকে গেলে বা সাইন ইন করতে না পারলে এটি ব্যবহার করুন',
+    cacheCleared: 'ক্যাশে মুছে ফেলা হয়েছে',
+    cacheClearedDescription: '{count}টি প্রমাণীকরণ আইটেম মুছে ফেলা হয়েছে। অনুগ্রহ করে আবার সাইন ইন করুন।',
+    signInFailed: 'সাইন ইন ব্যর্থ',
+    welcomeBack: 'আবার স্বাগতম!',
+    signedIn: 'সফলভাবে সাইন ইন হয়েছে।',
+    error: 'ত্রুটি',
+    unexpectedError: 'একটি অপ্রত্যাশিত ত্রুটি ঘটেছে।',
+    passwordMismatch: 'পাসওয়ার্ড মেলেনি',
+    passwordMismatchDescription: 'দুটি পাসওয়ার্ড এক নয়।',
+    weakPassword: 'দুর্বল পাসওয়ার্ড',
+    weakPasswordDescription: 'পাসওয়ার্ড কমপক্ষে ৬ অক্ষরের হতে হবে।',
+    signUpFailed: 'সাইন আপ ব্যর্থ',
+    accountCreated: 'অ্যাকাউন্ট তৈরি হয়েছে!',
+    accountCreatedDescription: 'NyaAI-তে স্বাগতম! আপনার অ্যাকাউন্ট তৈরি হয়েছে।',
+  },
+  dashboard: {
+    loading: 'আপনার ড্যাশবোর্ড লোড হচ্ছে...',
+    title: 'ড্যাশবোর্ড',
+    welcome: 'আবার স্বাগতম, {name}! 👋',
+    totalConversations: 'মোট কথোপকথন',
+    aiLegalAdvisor: 'AI আইনি উপদেষ্টা',
+    messagesExchanged: 'আদান-প্রদান করা বার্তা',
+    withAiAssistant: 'AI সহকারীর সাথে',
+    schemesSaved: 'সংরক্ষিত প্রকল্প',
+    governmentPrograms: 'সরকারি কর্মসূচি',
+    accountStatus: 'অ্যাকাউন্টের অবস্থা',
+    active: 'সক্রিয়',
+    memberSince: '{date} থেকে সদস্য',
+    activityThisWeek: 'এই সপ্তাহের কার্যকলাপ',
+    activityDescription: 'আপনার দৈনিক কথোপকথনের কার্যকলাপ',
+    chatCountOne: '{count}টি চ্যাট',
+    chatCountOther: '{count}টি চ্যাট',
+    recentActivity: 'সাম্প্রতিক কার্যকলাপ',
+    recentActivityDescription: 'আপনার সাম্প্রতিক কার্যকলাপ',
+    noActivity: 'কোনো সাম্প্রতিক কার্যকলাপ নেই',
+    noActivityHint: 'কার্যকলাপ দেখতে একটি কথোপকথন শুরু করুন',
+    myDocuments: 'আমার নথি',
+    documentSummarized: 'সারাংশ তৈরি: {title}',
+    documentUploaded: 'আপলোড করা হয়েছে: {title}',
+    justNow: 'এইমাত্র',
+    minutesAgo: '{count} মিনিট আগে',
+    hoursAgo: '{count} ঘণ্টা আগে',
+    daysAgo: '{count} দিন আগে',
+    visitWebsite: 'অফিসিয়াল ওয়েবসাইট দেখুন',
+    profileInformation: 'প্রোফাইল তথ্য',
+    profileDescription: 'আপনার ব্যক্তিগত তথ্য ও পছন্দ পরিচালনা করুন',
+    editProfile: 'প্রোফাইল সম্পাদনা করুন',
+    fullName: 'পুরো নাম',
+    email: 'ইমেল ঠিকানা',
+    phone: 'ফোন নম্বর',
+    phonePlaceholder: 'আপনার ফোন নম্বর লিখুন',
+    location: 'অবস্থান',
+    locationPlaceholder: 'আপনার অবস্থান লিখুন',
+    preferredLanguage: 'পছন্দের ভাষা',
+    preferredLanguageHint: 'NyaAI চ্যাট, নথির সারাংশ ও প্রকল্পের ফলাফল এই ভাষায় দেবে',
+    getStartedAi: 'AI আইনজীবীর সাথে শুরু করুন',
+    profileUpdated: 'প্রোফাইল আপডেট হয়েছে',
+    profileUpdatedDescription: 'আপনার প্রোফাইল সফলভাবে আপডেট হয়েছে',
+    updateFailed: 'আপডেট ব্যর্থ',
+    updateFailedDescription: 'প্রোফাইল আপডেট করা যায়নি',
+    upcomingDeadlines: 'আসন্ন সময়সীমা',
+    upcomingDeadlinesDescription: 'আপনার নথির যে তারিখগুলি আপনি ট্র্যাক করতে বেছে নিয়েছেন',
+    noReminders: 'কোনো আসন্ন সময়সীমা নেই',
+    noRemindersHint: 'একটি নথি খুলুন এবং তার তারিখগুলি রিমাইন্ডারে যোগ করুন',
+    overdueBy: '{count} দিন পেরিয়ে গেছে',
+    overdueYesterday: 'গতকাল শেষ দিন ছিল',
+    dueToday: 'আজ শেষ দিন',
+    dueTomorrow: 'আগামীকাল শেষ দিন',
+    dueInDays: '{count} দিনের মধ্যে',
+    markDone: 'সম্পন্ন হিসেবে চিহ্নিত করুন',
+    removeReminder: 'রিমাইন্ডার সরান',
+    downloadCalendar: '.ics ডাউনলোড করুন',
+    openDocument: 'নথি খুলুন',
+    reminderUpdateFailed: 'রিমাইন্ডার আপডেট করা যায়নি',
+    moreReminders: '+আরও {count}টি',
+    schemeTracker: 'প্রকল্পের আবেদন',
+    schemeTrackerDescription: 'সংরক্ষিত প্রকল্পগুলিকে প্রস্তাব থেকে সিদ্ধান্ত পর্যন্ত এগিয়ে নিন এবং নথিপত্র প্রস্তুত রাখুন',
+    schemeTrackerEmpty: 'এখনও কোনো প্রকল্প সংরক্ষণ করা হয়নি',
+    schemeTrackerEmptyHint: 'আপনি যে প্রকল্পগুলির যোগ্য সেগুলি সংরক্ষণ করুন এবং এখানে আপনার আবেদন ট্র্যাক করুন',
+    findSchemes: 'প্রকল্প খুঁজুন',
+    statusSuggested: 'সংরক্ষিত',
+    statusApplied: 'আবেদন করা হয়েছে',
+    statusApproved: 'অনুমোদিত',
+    statusRejected: 'প্রত্যাখ্যাত',
+    dropHere: 'প্রকল্পগুলি এখানে টেনে আনুন',
+    documentsProgress: '{done}/{total}টি নথি প্রস্তুত',
+    appliedOnDate: 'আবেদন {date}',
+    decidedOnDate: 'সিদ্ধান্ত {date}',
+    schemeDeadline: 'শেষ তারিখ: {date}',
+    howToApply: 'কীভাবে আবেদন করবেন',
+    applicationStatus: 'অবস্থা',
+    referenceNumber: 'আবেদনের রেফারেন্স নম্বর',
+    referenceNumberPlaceholder: 'যেমন প্রাপ্তিস্বীকার বা নিবন্ধন নম্বর',
+    appliedOn: 'আবেদনের তারিখ',
+    decidedOn: 'সিদ্ধান্তের তারিখ',
+    applicationNotes: 'নোট',
+    requiredDocuments: 'নথির তালিকা',
+    noDocumentsListed: 'এই প্রকল্পের জন্য কোনো নথি তালিকাভুক্ত নেই; প্রয়োজনীয়গুলি যোগ করুন',
+    addDocument: 'নথি যোগ করুন',
+    removeDocument: 'তালিকা থেকে সরান',
+    uploadProof: 'প্রমাণ আপলোড করুন',
+    viewProof: 'প্রমাণ দেখুন',
+    removeProof: 'প্রমাণ সরান',
+    proofInvalid: '10MB-এর কম PDF, JPG, PNG বা WebP ফাইল আপলোড করুন',
+    decidedBeforeApplied: 'সিদ্ধান্তের তারিখ আবেদনের তারিখের আগে হতে পারে না',
+    applicationUpdateFailed: 'প্রকল্পের আবেদন আপডেট করা যায়নি',
+    removeFromTracker: 'প্রকল্প সরান',
+    removeFromTrackerConfirm: '"{name}" এর নথির তালিকা ও আপলোড করা প্রমাণসহ আপনার সংরক্ষিত প্রকল্প থেকে সরানো হবে।',
+    schemeAlerts: 'প্রকল্প সতর্কতা',
+    schemeAlertsDescription: 'নতুন প্রকল্প আপনার প্রোফাইলের সাথে মিললে বা কোনো মিলে যাওয়া প্রকল্প বন্ধ হতে চললে জানুন',
+    householdMembersSaved: 'সংরক্ষিত {count} জন পরিবারের সদস্যের সাথে মেলানো হচ্ছে',
+    householdMembersMissing: 'এখনও কোনো পরিবারের সদস্য সংরক্ষিত নেই',
+    householdUpdated: 'সর্বশেষ আপডেট {date}',
+    householdHint: 'মিল খোঁজা চালু করতে প্রকল্পের পাতায় নিজের ও পরিবারের তথ্য সংরক্ষণ করুন',
+    manageHousehold: 'পরিবার পরিচালনা করুন',
+    alertFrequency: 'কত ঘন ঘন যাচাই করবেন',
+    alertsOff: 'বন্ধ',
+    alertsDaily: 'প্রতিদিন',
+    alertsWeekly: 'সাপ্তাহিক',
+    alertDeadlineDays: 'শেষ তারিখের সতর্কতা',
+    withinDays: '{count} দিনের মধ্যে',
+    alertEmail: 'ইমেলেও পাঠান',
+    alertsLastChecked: 'সর্বশেষ যাচাই {date}',
+    alertsNotCheckedYet: 'আপনার প্রথম যাচাই পরবর্তী নির্ধারিত সময়ে হবে',
+    alertSettingsFailed: 'আপনার সতর্কতা সেটিংস সংরক্ষণ করা যায়নি',
+  },
+  notifications: {
+    title: 'বিজ্ঞপ্তি',
+    markAllRead: 'সব পড়া হয়েছে চিহ্নিত করুন',
+    empty: 'এখনও কোনো বিজ্ঞপ্তি নেই',
+    emptyHint: 'নতুন ও বন্ধ হতে চলা প্রকল্পের খবর পেতে ড্যাশবোর্ডে প্রকল্প সতর্কতা চালু করুন',
+    newScheme: 'আপনার জন্য নতুন প্রকল্প',
+    schemeDeadline: 'শীঘ্রই বন্ধ হচ্ছে',
+    applyBy: '{date}-এর মধ্যে আবেদন করুন',
+    dismiss: 'সরান',
+    appointmentBooked: 'নতুন বুকিং',
+    appointmentRescheduled: 'পরামর্শের সময় বদলেছে',
+    appointmentCancelled: 'পরামর্শ বাতিল',
+    appointmentReminder: 'শীঘ্রই',
+  },
+  lawyerDashboard: {
+    loading: 'ড্যাশবোর্ড লোড হচ্ছে...',
+    title: 'আইনজীবী (Lawyer) ড্যাশবোর্ড',
+    welcome: 'আবার স্বাগতম, {name}!',
+    newMessages: 'নতুন বার্তা অপেক্ষায় আছে',
+    tabOverview: 'সংক্ষিপ্ত বিবরণ',
+    tabCases: 'মামলা (Cases)',
+    tabRequests: 'মক্কেলের অনুরোধ ({count})',
+    tabMessages: 'বার্তা ({count})',
+    tabProfile: 'প্রোফাইল',
+    last7Days: 'গত ৭ দিন',
+    last30Days: 'গত ৩০ দিন',
+    allTime: 'সর্বকালের',
+    totalCases: 'মোট মামলা (Cases)',
+    activeCount: '{count}টি সক্রিয়',
+    totalClients: 'মোট মক্কেল (Clients)',
+    uniqueClients: 'আলাদা মক্কেল',
+    casesWon: 'জেতা মামলা (Cases Won)',
+    lostCount: '{count}টি হার',
+    pendingRequests: 'অপেক্ষমাণ অনুরোধ',
+    awaitingResponse: 'উত্তরের অপেক্ষায়',
+    casesByStatus: 'অবস্থা অনুযায়ী মামলা',
+    casesByStatusDescription: 'বিভিন্ন অবস্থায় মামলার বণ্টন',
+    monthlyTrend: 'মাসিক প্রবণতা',
+    monthlyTrendDescription: 'গত ৬ মাসে তৈরি মামলা',
+    noPendingRequests: 'কোনো অপেক্ষমাণ অনুরোধ নেই',
+    requestedAt: 'অনুরোধের সময়: {date}',
+    accept: 'গ্রহণ করুন',
+    reject: 'প্রত্যাখ্যান করুন',
+    activeConversations: 'সক্রিয় কথোপকথন',
+    conversationCount: '{count}টি কথোপকথন',
+    selectConversation: 'একটি কথোপকথন বেছে নিন',
+    profileSettings: 'প্রোফাইল সেটিংস',
+    profileSettingsDescription: 'আপনার প্রোফাইল তথ্য আপডেট করুন',
+    tabReviews: 'পর্যালোচনা ({count})',
+    clientReviews: 'মক্কেলদের পর্যালোচনা',
+    clientReviewsDescription: 'যাদের মামলা নিষ্পত্তি হয়েছে সেই মক্কেলদের যাচাইকৃত পর্যালোচনা। ধন্যবাদ জানাতে বা মতামতের উত্তর দিতে জবাব দিন।',
+  },
+  reviews: {
+    rateYourLawyers: 'আপনার আইনজীবীদের রেটিং দিন',
+    rateYourLawyersDescription: 'আপনার নিষ্পত্তি হওয়া মামলাগুলি কেমন গেছে অন্যদের জানান। শুধুমাত্র নিষ্পত্তি হওয়া মামলার মক্কেলরাই আইনজীবীর পর্যালোচনা করতে পারেন।',
+    yourLawyer: 'আপনার আইনজীবী',
+    caseConcluded: '{date}-এ নিষ্পত্তি',
+    writeReview: 'পর্যালোচনা লিখুন',
+    editReview: 'পর্যালোচনা সম্পাদনা করুন',
+    deleteReview: 'পর্যালোচনা মুছুন',
+    yourRating: 'আপনার রেটিং',
+    chooseRating: 'একটি স্টার রেটিং বেছে নিন',
+    commentLabel: 'আপনার পর্যালোচনা',
+    commentPlaceholder: 'কী ভালো হয়েছে, আর কী আরও ভালো হতে পারত?',
+    submitReview: 'পর্যালোচনা জমা দিন',
+    reviewSaved: 'আপনার পর্যালোচনার জন্য ধন্যবাদ',
+    reviewDeleted: 'পর্যালোচনা মুছে ফেলা হয়েছে',
+    reviewFailed: 'আপনার পর্যালোচনা সংরক্ষণ করা যায়নি',
+    reviewCount: '{count}টি পর্যালোচনা',
+    outOf5: '5-এর মধ্যে {rating}',
+    noReviews: 'এখনও কোনো পর্যালোচনা নেই',
+    noReviewsHint: 'এই আইনজীবীর সঙ্গে যাদের মামলা নিষ্পত্তি হয়েছে সেই মক্কেলদের থেকে পর্যালোচনা আসে',
+    verifiedClient: 'যাচাইকৃত মক্কেল',
+    anonymousClient: 'মক্কেল',
+    lawyerReply: 'আইনজীবীর উত্তর',
+    reply: 'উত্তর দিন',
+    editReply: 'উত্তর সম্পাদনা করুন',
+    replyPlaceholder: 'মক্কেলকে ধন্যবাদ দিন বা তাদের মতামতের উত্তর দিন',
+    saveReply: 'উত্তর পোস্ট করুন',
+    removeReply: 'উত্তর সরান',
+    replyFailed: 'আপনার উত্তর সংরক্ষণ করা যায়নি',
+    hiddenByModerator: 'মডারেটর লুকিয়ে রেখেছেন: {reason}',
+    hiddenNoReason: 'মডারেটর লুকিয়ে রেখেছেন',
+    showMore: 'আরও পর্যালোচনা দেখান',
+    loadFailed: 'পর্যালোচনা লোড করা যায়নি',
+  },
+  appointments: {
+    title: 'আসন্ন পরামর্শ',
+    clientDescription: 'আইনজীবীদের সঙ্গে আপনার বুক করা পরামর্শ। সময় ভারতীয় প্রমাণ সময় অনুযায়ী।',
+    lawyerDescription: 'মক্কেলরা আপনার কাজের সময়ে যে পরামর্শ বুক করেছেন। সময় ভারতীয় প্রমাণ সময় অনুযায়ী।',
+    empty: 'কোনো আসন্ন পরামর্শ নেই',
+    clientEmptyHint: 'আইনজীবী খুঁজুন থেকে কোনো আইনজীবীর সঙ্গে স্লট বুক করুন',
+    lawyerEmptyHint: 'মক্কেলরা যাতে আপনাকে বুক করতে পারেন, প্রোফাইল ট্যাবে আপনার কাজের সময় প্রকাশ করুন',
+    findLawyer: 'আইনজীবী খুঁজুন',
+    modeInPerson: 'সরাসরি সাক্ষাৎ',
+    modePhone: 'ফোন কল',
+    modeVideo: 'ভিডিও কল',
+    withName: '{name}-এর সঙ্গে',
+    yourLawyer: 'আপনার আইনজীবী',
+    yourClient: 'আপনার মক্কেল',
+    showAll: 'সব দেখান ({count})',
+    showFewer: 'কম দেখান',
+    minutes: '{count} মিনিট',
+    rescheduled: 'সময় বদলানো হয়েছে',
+    clientNotes: 'আলোচনার বিষয়',
+    addToCalendar: 'ক্যালেন্ডারে যোগ করুন',
+    reschedule: 'সময় বদলান',
+    cancel: 'বাতিল করুন',
+    changesClosed: 'শুরুর {hours} ঘণ্টা আগে পরিবর্তন বন্ধ হয়ে যায়',
+    rescheduleLimitReached: 'ইতিমধ্যে {count} বার সময় বদলানো হয়েছে',
+    cancelTitle: 'এই পরামর্শ বাতিল করবেন?',
+    cancelDescription: '{name}-কে জানানো হবে এবং স্লটটি খালি হয়ে যাবে।',
+    cancelReason: 'কারণ',
+    cancelReasonPlaceholder: 'তাঁদের কারণ জানান',
+    reasonRequired: 'আপনি কেন বাতিল করছেন তা আপনার মক্কেলকে জানান',
+    keepAppointment: 'থাক',
+    confirmCancel: 'পরামর্শ বাতিল করুন',
+    cancelled: 'পরামর্শ বাতিল হয়েছে',
+    cancelFailed: 'পরামর্শ বাতিল করা যায়নি',
+    loadFailed: 'আপনার পরামর্শগুলি লোড করা যায়নি',
+    bookTitle: '{name}-এর সঙ্গে পরামর্শ বুক করুন',
+    rescheduleTitle: '{name}-এর সঙ্গে আপনার পরামর্শের সময় বদলান',
+    timesInIst: 'সময় ভারতীয় প্রমাণ সময় (IST) অনুযায়ী',
+    day: 'দিন',
+    time: 'সময়',
+    consultationType: 'পরামর্শের ধরন',
+    notes: 'আপনি কী নিয়ে আলোচনা করতে চান? (ঐচ্ছিক)',
+    notesPlaceholder: 'আপনার বিষয়ে দু-এক লাইন আইনজীবীকে প্রস্তুতি নিতে সাহায্য করে',
+    noSlots: 'আগামী {days} দিনে কোনো খালি স্লট নেই',
+    noSlotsHint: 'এই আইনজীবী কাজের সময় প্রকাশ করেননি অথবা সব স্লট বুক হয়ে গেছে। পরিবর্তে তাঁকে একটি অনুরোধ পাঠান।',
+    policy: 'শুরুর {hours} ঘণ্টা আগে পর্যন্ত আপনি সময় বদলাতে বা বাতিল করতে পারেন, এবং প্রতিটি পরামর্শের সময় সর্বোচ্চ {count} বার বদলাতে পারেন।',
+    bookSlot: 'স্লট বুক করুন',
+    confirmBooking: '{day}, {time} বুক করুন',
+    confirmReschedule: '{day}, {time}-এ সরান',
+    booking: 'বুক হচ্ছে...',
+    booked: 'পরামর্শ বুক হয়েছে',
+    bookedDescription: '{day}, {time} IST। এক দিন আগে আপনাকে মনে করিয়ে দেওয়া হবে।',
+    moved: 'পরামর্শের সময় বদলানো হয়েছে',
+    movedDescription: 'এখন {day}, {time} IST।',
+    bookingFailed: 'এই স্লট বুক করা যায়নি',
+    slotsFailed: 'খালি স্লট লোড করা যায়নি',
+  },
+};
+
+export default bn;
@@ -0,0 +1,403 @@
+/**
+ * English strings, the source of truth for every translation key
+ */
+const en = {
+  common: {
+    save: 'Save',
+    cancel: 'Cancel',
+    language: 'Language',
+  },
+  nav: {
+    home: 'Home',
+    features: 'Features',
+    about: 'About',
+    contact: 'Contact',
+    dashboard: 'Dashboard',
+    signOut: 'Sign Out',
+    admin: 'Admin',
+    login: 'Login',
+    signUp: 'Sign Up',
+  },
+  hero: {
+    badge: 'Powered by Advanced AI',
+    titleLine1: 'Empowering',
+    titleLine2: 'Justice Through AI',
+    subtitle: 'Revolutionary NyaAI platform that combines artificial intelligence with legal expertise to democratize access to justice.',
+    assistantTitle: 'AI Legal Assistant',
+    assistantDescription: '24/7 intelligent legal guidance',
+    documentTitle: 'Document Analysis',
+    documentDescription: 'Instant legal document insights',
+    networkTitle: 'Expert Network',
+    networkDescription: 'Connect with qualified lawyers',
+    goToDashboard: 'Go to Dashboard',
+    getStarted: 'Get Started Free',
+    exploreFeatures: 'Explore Features',
+    trustedBy: 'Trusted by 10,000+ users',
+    soc2: 'SOC 2 Compliant',
+    security: 'Enterprise Grade Security',
+  },
+  features: {
+    badge: 'Powerful Features',
+    titleLine1: 'Advanced NyaAI Technology',
+    titleLine2: 'At Your Fingertips',
+    subtitle: 'Harness the power of artificial intelligence to streamline your legal processes and make informed decisions with confidence.',
+    learnMore: 'Learn More',
+    chatbotTitle: 'AI Legal Chatbot',
+    chatbotDescription: 'Get instant legal advice from our advanced AI assistant trained on comprehensive legal databases.',
+    chatbotHighlight1: '24/7 Availability',
+    chatbotHighlight2: 'Multilingual Support',
+    chatbotHighlight3: 'Case Law References',
+    summarizerTitle: 'Document Summarizer',
+    summarizerDescription: 'Upload legal documents and receive AI-powered summaries highlighting key points and potential issues.',
+    summarizerHighlight1: 'PDF & DOCX Support',
+    summarizerHighlight2: 'Key Points Extraction',
+    summarizerHighlight3: 'Risk Assessment',
+    schemesTitle: 'Government Schemes Advisor',
+    schemesDescription: 'Discover relevant government schemes and benefits based on your personal and financial profile.',
+    schemesHighlight1: 'Personalized Matching',
+    schemesHighlight2: 'Eligibility Checker',
+    schemesHighlight3: 'Application Guidance',
+    lawyersTitle: 'Nearby Lawyer Finder',
+    lawyersDescription: 'Connect with qualified lawyers in your area specializing in your specific legal needs.',
+    lawyersHighlight1: 'Location-Based Search',
+    lawyersHighlight2: 'Specialization Filters',
+    lawyersHighlight3: 'Verified Professionals',
+    drafterTitle: 'Legal Drafting Studio',
+    drafterDescription: 'Create legal notices, RTI applications, consumer complaints, rent agreements and affidavits from a simple guided form.',
+    drafterHighlight1: 'Notices, RTI & Complaints',
+    drafterHighlight2: 'Edit & Keep Versions',
+    drafterHighlight3: 'Word & PDF Export',
+    ctaTitle: 'Ready to Transform Your Legal Experience?',
+    ctaSubtitle: 'Join thousands of users who are already benefiting from our AI-powered legal platform. Start your journey towards smarter legal solutions today.',
+    startTrial: 'Start Free Trial',
+    tryAnalyzer: 'Try Document Analyzer',
+  },
+  auth: {
+    welcome: 'Welcome',
+    tagline: 'Empowering Justice Through AI',
+    getStarted: 'Get Started',
+    subtitle: 'Sign in to your account or create a new one',
+    signIn: 'Sign In',
+    signingIn: 'Signing In...',
+    signUp: 'Sign Up',
+    email: 'Email',
+    emailPlaceholder: 'Enter your email',
+    password: 'Password',
+    passwordPlaceholder: 'Enter your password',
+    fullName: 'Full Name',
+    fullNamePlaceholder: 'Enter your full name',
+    accountType: 'Account Type',
+    accountTypePlaceholder: 'Select account type',
+    roleUser: 'User - Seeking Legal Help',
+    roleLawyer: 'Lawyer - Legal Professional',
+    createPasswordPlaceholder: 'Create a password',
+    confirmPassword: 'Confirm Password',
+    confirmPasswordPlaceholder: 'Confirm your password',
+    professionalDetails: 'Professional Details',
+    licenseNumber: 'License Number *',
+    licenseNumberPlaceholder: 'Bar License No.',
+    experience: 'Experience (Years)',
+    experiencePlaceholder: 'Years',
+    specialization: 'Primary Specialization *',
+    specializationPlaceholder: 'Select specialization',
+    specCriminal: 'Criminal Law',
+    specCivil: 'Civil Law',
+    specCorporate: 'Corporate Law',
+    specFamily: 'Family Law',
+    specProperty: 'Property Law',
+    specLabor: 'Labor Law',
+    specTax: 'Tax Law',
+    specImmigration: 'Immigration Law',
+    specIntellectual: 'Intellectual Property',
+    specEnvironmental: 'Environmental Law',
+    courtLevel: 'Court Level Experience',
+    courtLevelPlaceholder: 'Select court level',
+    courtDistrict: 'District Court',
+    courtSessions: 'Sessions Court',
+    courtHigh: 'High Court',
+    courtSupreme: 'Supreme Court',
+    courtTribunal: 'Tribunal',
+    courtAll: 'All Levels',
+    phone: 'Phone Number',
+    phonePlaceholder: 'Your contact number',
+    location: 'City/Location',
+    locationPlaceholder: 'Practice location',
+    barAssociation: 'Bar Association',
+    barAssociationPlaceholder: 'State Bar Council',
+    practiceAreas: 'Additional Practice Areas',
+    practiceAreasPlaceholder: 'Other areas of practice (optional)',
+    createAccount: 'Create Account',
+    creatingAccount: 'Creating Account...',
+    clearCache: 'Having Issues? Clear Cache & Retry',
+    clearCacheHint: "Use this if you're stuck or unable to sign in",
+    cacheCleared: 'Cache Cleared',
+    cacheClearedDescription: 'Cleared {count} authentication items. Please try signing in again.',
+    signInFailed: 'Sign In Failed',
+    welcomeBack: 'Welcome back!',
+    signedIn: 'Successfully signed in.',
+    error: 'Error',
+    unexpectedError: 'An unexpected error occurred.',
+    passwordMismatch: 'Password Mismatch',
+    passwordMismatchDescription: 'Passwords do not match.',
+    weakPassword: 'Weak Password',
+    weakPasswordDescription: 'Password must be at least 6 characters long.',
+    signUpFailed: 'Sign Up Failed',
+    accountCreated: 'Account Created!',
+    accountCreatedDescription: 'Welcome to NyaAI! Your account has been created.',
+  },
+  dashboard: {
+    loading: 'Loading your dashboard...',
+    title: 'Dashboard',
+    welcome: 'Welcome back, {name}! 👋',
+    totalConversations: 'Total Conversations',
+    aiLegalAdvisor: 'AI Legal Advisor',
+    messagesExchanged: 'Messages Exchanged',
+    withAiAssistant: 'With AI Assistant',
+    schemesSaved: 'Schemes Saved',
+    governmentPrograms: 'Government Programs',
+    accountStatus: 'Account Status',
+    active: 'Active',
+    memberSince: 'Member since {date}',
+    activityThisWeek: 'Activity This Week',
+    activityDescription: 'Your daily conversation activity',
+    chatCountOne: '{count} chat',
+    chatCountOther: '{count} chats',
+    recentActivity: 'Recent Activity',
+    recentActivityDescription: 'Your latest interactions',
+    noActivity: 'No recent activity',
+    noActivityHint: 'Start a conversation to see activity here',
+    myDocuments: 'My Documents',
+    documentSummarized: 'Summarized: {title}',
+    documentUploaded: 'Uploaded: {title}',
+    justNow: 'Just now',
+    minutesAgo: '{count}m ago',
+    hoursAgo: '{count}h ago',
+    daysAgo: '{count}d ago',
+    visitWebsite: 'Visit Official Website',
+    profileInformation: 'Profile Information',
+    profileDescription: 'Manage your personal details and preferences',
+    editProfile: 'Edit Profile',
+    fullName: 'Full Name',
+    email: 'Email Address',
+    phone: 'Phone Number',
+    phonePlaceholder: 'Enter your phone number',
+    location: 'Location',
+    locationPlaceholder: 'Enter your location',
+    preferredLanguage: 'Preferred Language',
+    preferredLanguageHint: 'NyaAI answers chats, document summaries and scheme results in this language',
+    getStartedAi: 'Get Started with AI Lawyer',
+    profileUpdated: 'Profile Updated',
+    profileUpdatedDescription: 'Your profile has been successfully updated',
+    updateFailed: 'Update Failed',
+    updateFailedDescription: 'Failed to update profile',
+    upcomingDeadlines: 'Upcoming Deadlines',
+    upcomingDeadlinesDescription: 'Dates from your documents that you chose to track',
+    noReminders: 'No upcoming deadlines',
+    noRemindersHint: 'Open a document and add its dates to your reminders',
+    overdueBy: 'Overdue by {count} days',
+    overdueYesterday: 'Was due yesterday',
+    dueToday: 'Due today',
+    dueTomorrow: 'Due tomorrow',
+    dueInDays: 'In {count} days',
+    markDone: 'Mark as done',
+    removeReminder: 'Remove reminder',
+    downloadCalendar: 'Download .ics',
+    openDocument: 'Open document',
+    reminderUpdateFailed: 'Could not update the reminder',
+    moreReminders: '+{count} more',
+    schemeTracker: 'Scheme Applications',
+    schemeTrackerDescription: 'Move saved schemes from suggestion to decision and keep their documents ready',
+    schemeTrackerEmpty: 'No schemes saved yet',
+    schemeTrackerEmptyHint: 'Save schemes you qualify for to track your applications here',
+    findSchemes: 'Find schemes',
+    statusSuggested: 'Saved',
+    statusApplied: 'Applied',
+    statusApproved: 'Approved',
+    statusRejected: 'Rejected',
+    dropHere: 'Drag schemes here',
+    documentsProgress: '{done}/{total} documents ready',
+    appliedOnDate: 'Applied {date}',
+    decidedOnDate: 'Decided {date}',
+    schemeDeadline: 'Deadline: {date}',
+    howToApply: 'How to apply',
+    applicationStatus: 'Status',
+    referenceNumber: 'Application reference number',
+    referenceNumberPlaceholder: 'e.g. acknowledgement or registration number',
+    appliedOn: 'Applied on',
+    decidedOn: 'Decision date',
+    applicationNotes: 'Notes',
+    requiredDocuments: 'Document checklist',
+    noDocumentsListed: 'No documents listed for this scheme; add the ones you need',
+    addDocument: 'Add a document',
+    removeDocument: 'Remove from checklist',
+    uploadProof: 'Upload proof',
+    viewProof: 'View proof',
+    removeProof: 'Remove proof',
+    proofInvalid: 'Upload a PDF, JPG, PNG or WebP file under 10MB',
+    decidedBeforeApplied: 'The decision date cannot be before the application date',
+    applicationUpdateFailed: 'Could not update the scheme application',
+    removeFromTracker: 'Remove scheme',
+    removeFromTrackerConfirm: '"{name}" will be removed from your saved schemes along with its checklist and uploaded proofs.',
+    schemeAlerts: 'Scheme Alerts',
+    schemeAlertsDescription: 'Get notified when new schemes match your profile or a matching scheme is about to close',
+    householdMembersSaved: 'Household members saved: {count}',
+    householdMembersMissing: 'No household members saved yet',
+    householdUpdated: 'Last updated {date}',
+    householdHint: 'Save yourself and your family on the schemes page to turn on matching',
+    manageHousehold: 'Manage household',
+    alertFrequency: 'How often to check',
+    alertsOff: 'Off',
+    alertsDaily: 'Daily',
+    alertsWeekly: 'Weekly',
+    alertDeadlineDays: 'Warn about deadlines',
+    withinDays: 'Within {count} days',
+    alertEmail: 'Also send by email',
+    alertsLastChecked: 'Last checked {date}',
+    alertsNotCheckedYet: 'Your first check runs with the next scheduled run',
+    alertSettingsFailed: 'Could not save your alert settings',
+  },
+  notifications: {
+    title: 'Notifications',
+    markAllRead: 'Mark all read',
+    empty: 'No notifications yet',
+    emptyHint: 'Turn on scheme alerts on your dashboard to hear about new and closing schemes',
+    newScheme: 'New scheme for you',
+    schemeDeadline: 'Closing soon',
+    applyBy: 'apply by {date}',
+    dismiss: 'Dismiss',
+    appointmentBooked: 'New booking',
+    appointmentRescheduled: 'Consultation moved',
+    appointmentCancelled: 'Consultation cancelled',
+    appointmentReminder: 'Coming up',
+  },
+  lawyerDashboard: {
+    loading: 'Loading dashboard...',
+    title: 'Lawyer Dashboard',
+    welcome: 'Welcome back, {name}!',
+    newMessages: 'New messages waiting',
+    tabOverview: 'Overview',
+    tabCases: 'Cases',
+    tabRequests: 'Client Requests ({count})',
+    tabMessages: 'Messages ({count})',
+    tabProfile: 'Profile',
+    last7Days: 'Last 7 Days',
+    last30Days: 'Last 30 Days',
+    allTime: 'All Time',
+    totalCases: 'Total Cases',
+    activeCount: '{count} active',
+    totalClients: 'Total Clients',
+    uniqueClients: 'Unique clients',
+    casesWon: 'Cases Won',
+    lostCount: '{count} lost',
+    pendingRequests: 'Pending Requests',
+    awaitingResponse: 'Awaiting response',
+    casesByStatus: 'Cases by Status',
+    casesByStatusDescription: 'Distribution of cases across different statuses',
+    monthlyTrend: 'Monthly Trend',
+    monthlyTrendDescription: 'Cases created over the last 6 months',
+    noPendingRequests: 'No pending requests',
+    requestedAt: 'Requested: {date}',
+    accept: 'Accept',
+    reject: 'Reject',
+    activeConversations: 'Active Conversations',
+    conversationCount: '{count} conversations',
+    selectConversation: 'Select a conversation',
+    profileSettings: 'Profile Settings',
+    profileSettingsDescription: 'Update your profile information',
+    tabReviews: 'Reviews ({count})',
+    clientReviews: 'Client Reviews',
+    clientReviewsDescription: 'Verified reviews from clients whose cases have concluded. Reply to thank them or respond to feedback.',
+  },
+  reviews: {
+    rateYourLawyers: 'Rate your lawyers',
+    rateYourLawyersDescription: 'Tell others how your concluded cases went. Only clients with a concluded case can review a lawyer.',
+    yourLawyer: 'Your lawyer',
+    caseConcluded: 'concluded {date}',
+    writeReview: 'Write a review',
+    editReview: 'Edit review',
+    deleteReview: 'Delete review',
+    yourRating: 'Your rating',
+    chooseRating: 'Choose a star rating',
+    commentLabel: 'Your review',
+    commentPlaceholder: 'What went well, and what could have gone better?',
+    submitReview: 'Submit review',
+    reviewSaved: 'Thank you for your review',
+    reviewDeleted: 'Review deleted',
+    reviewFailed: 'Could not save your review',
+    reviewCount: '{count} reviews',
+    outOf5: '{rating} out of 5',
+    noReviews: 'No reviews yet',
+    noReviewsHint: 'Reviews come from clients whose cases with this lawyer have concluded',
+    verifiedClient: 'Verified client',
+    anonymousClient: 'Client',
+    lawyerReply: 'Response from the lawyer',
+    reply: 'Reply',
+    editReply: 'Edit reply',
+    replyPlaceholder: 'Thank the client or respond to their feedback',
+    saveReply: 'Post reply',
+    removeReply: 'Remove reply',
+    replyFailed: 'Could not save your reply',
+    hiddenByModerator: 'Hidden by a moderator: {reason}',
+    hiddenNoReason: 'Hidden by a moderator',
+    showMore: 'Show more reviews',
+    loadFailed: 'Could not load reviews',
+  },
+  appointments: {
+    title: 'Upcoming consultations',
+    clientDescription: 'Consultations you have booked with lawyers. Times are India Standard Time.',
+    lawyerDescription: 'Consultations clients have booked in your working hours. Times are India Standard Time.',
+    empty: 'No upcoming consultations',
+    clientEmptyHint: 'Book a slot with a lawyer from Find Lawyers',
+    lawyerEmptyHint: 'Publish your working hours in the Profile tab so clients can book you',
+    findLawyer: 'Find a lawyer',
+    modeInPerson: 'In person',
+    modePhone: 'Phone call',
+    modeVideo: 'Video call',
+    withName: 'with {name}',
+    yourLawyer: 'Your lawyer',
+    yourClient: 'Your client',
+    showAll: 'Show all ({count})',
+    showFewer: 'Show fewer',
+    minutes: '{count} min',
+    rescheduled: 'Rescheduled',
+    clientNotes: 'To discuss',
+    addToCalendar: 'Add to calendar',
+    reschedule: 'Reschedule',
+    cancel: 'Cancel',
+    changesClosed: 'Changes close {hours} hours before the start',
+    rescheduleLimitReached: 'Already rescheduled {count} times',
+    cancelTitle: 'Cancel this consultation?',
+    cancelDescription: '{name} will be notified and the slot will be freed up.',
+    cancelReason: 'Reason',
+    cancelReasonPlaceholder: 'Let them know why',
+    reasonRequired: 'Tell your client why you are cancelling',
+    keepAppointment: 'Keep it',
+    confirmCancel: 'Cancel consultation',
+    cancelled: 'Consultation cancelled',
+    cancelFailed: 'Could not cancel the consultation',
+    loadFailed: 'Could not load your consultations',
+    bookTitle: 'Book a consultation with {name}',
+    rescheduleTitle: 'Reschedule your consultation with {name}',
+    timesInIst: 'Times are India Standard Time (IST)',
+    day: 'Day',
+    time: 'Time',
+    consultationType: 'Consultation type',
+    notes: 'What would you like to discuss? (optional)',
+    notesPlaceholder: 'A line or two about your matter helps the lawyer prepare',
+    noSlots: 'No free slots in the next {days} days',
+    noSlotsHint: 'This lawyer has not published working hours or is fully booked. Send them a request instead.',
+    policy: 'You can reschedule or cancel up to {hours} hours before the start, and reschedule each consultation up to {count} times.',
+    bookSlot: 'Book slot',
+    confirmBooking: 'Book {day}, {time}',
+    confirmReschedule: 'Move to {day}, {time}',
+    booking: 'Booking...',
+    booked: 'Consultation booked',
+    bookedDescription: '{day} at {time} IST. You will get a reminder the day before.',
+    moved: 'Consultation moved',
+    movedDescription: 'Now on {day} at {time} IST.',
+    bookingFailed: 'Could not book this slot',
+    slotsFailed: 'Could not load free slots',
+  },
+};
+
+export default en;
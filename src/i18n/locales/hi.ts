@@ -0,0 +1,405 @@
+import type { PartialTranslationDictionary } from '../index';
+
+/**
+ * Hindi (हिन्दी). Legal terms keep their English form in brackets.
+ */
+const hi: PartialTranslationDictionary = {
+  common: {
+    save: 'सहेजें',
+    cancel: 'रद्द करें',
+    language: 'भाषा',
+  },
+  nav: {
+    home: 'होम',
+    features: 'सुविधाएँ',
+    about: 'हमारे बारे में',
+    contact: 'संपर्क',
+    dashboard: 'डैशबोर्ड',
+    signOut: 'साइन आउट',
+    admin: 'एडमिन',
+    login: 'लॉगिन',
+    signUp: 'साइन अप',
+  },
+  hero: {
+    badge: 'उन्नत AI द्वारा संचालित',
+    titleLine1: 'AI के माध्यम से',
+    titleLine2: 'न्याय तक पहुँच',
+    subtitle: 'NyaAI एक ऐसा मंच है जो कृत्रिम बुद्धिमत्ता और कानूनी विशेषज्ञता को जोड़कर हर व्यक्ति के लिए न्याय को सुलभ बनाता है।',
+    assistantTitle: 'AI कानूनी सहायक (Legal Assistant)',
+    assistantDescription: '24/7 समझदार कानूनी मार्गदर्शन',
+    documentTitle: 'दस्तावेज़ विश्लेषण',
+    documentDescription: 'कानूनी दस्तावेज़ों की तुरंत समझ',
+    networkTitle: 'विशेषज्ञ नेटवर्क',
+    networkDescription: 'योग्य वकीलों (Lawyers) से जुड़ें',
+    goToDashboard: 'डैशबोर्ड पर जाएँ',
+    getStarted: 'मुफ़्त में शुरू करें',
+    exploreFeatures: 'सुविधाएँ देखें',
+    trustedBy: '10,000+ उपयोगकर्ताओं का भरोसा',
+    soc2: 'SOC 2 अनुपालित',
+    security: 'एंटरप्राइज़ स्तर की सुरक्षा',
+  },
+  features: {
+    badge: 'शक्तिशाली सुविधाएँ',
+    titleLine1: 'उन्नत NyaAI तकनीक',
+    titleLine2: 'आपकी उंगलियों पर',
+    subtitle: 'कृत्रिम बुद्धिमत्ता की मदद से अपनी कानूनी प्रक्रियाएँ आसान बनाएँ और भरोसे के साथ सही निर्णय लें।',
+    learnMore: 'और जानें',
+    chatbotTitle: 'AI कानूनी चैटबॉट',
+    chatbotDescription: 'व्यापक कानूनी डेटाबेस पर प्रशिक्षित हमारे AI सहायक से तुरंत कानूनी सलाह पाएँ।',
+    chatbotHighlight1: '24/7 उपलब्ध',
+    chatbotHighlight2: 'बहुभाषी सहायता',
+    chatbotHighlight3: 'न्यायिक निर्णयों (Case Law) के संदर्भ',
+    summarizerTitle: 'दस्तावेज़ सारांश',
+    summarizerDescription: 'कानूनी दस्तावेज़ अपलोड करें और मुख्य बिंदुओं व संभावित समस्याओं वाला AI सारांश पाएँ।',
+    summarizerHighlight1: 'PDF और DOCX समर्थन',
+    summarizerHighlight2: 'मुख्य बिंदु निकालना',
+    summarizerHighlight3: 'जोखिम आकलन',
+    schemesTitle: 'सरकारी योजना सलाहकार',
+    schemesDescription: 'अपनी व्यक्तिगत और आर्थिक जानकारी के आधार पर उपयुक्त सरकारी योजनाएँ और लाभ खोजें।',
+    schemesHighlight1: 'व्यक्तिगत मिलान',
+    schemesHighlight2: 'पात्रता (Eligibility) जाँच',
+    schemesHighlight3: 'आवेदन मार्गदर्शन',
+    lawyersTitle: 'नज़दीकी वकील खोजें',
+    lawyersDescription: 'अपने क्षेत्र में आपकी कानूनी ज़रूरत के विशेषज्ञ योग्य वकीलों (Lawyers) से जुड़ें।',
+    lawyersHighlight1: 'स्थान के आधार पर खोज',
+    lawyersHighlight2: 'विशेषज्ञता (Specialization) फ़िल्टर',
+    lawyersHighlight3: 'सत्यापित पेशेवर',
+    drafterTitle: 'कानूनी ड्राफ्टिंग स्टूडियो',
+    drafterDescription: 'सरल फॉर्म भरकर कानूनी नोटिस, आरटीआई आवेदन, उपभोक्ता शिकायत, किराया समझौता और शपथ पत्र बनाएं।',
+    drafterHighlight1: 'नोटिस, आरटीआई और शिकायतें',
+    drafterHighlight2: 'संपादन और संस्करण',
+    drafterHighlight3: 'वर्ड और पीडीएफ निर्यात',
+    ctaTitle: 'क्या आप अपना कानूनी अनुभव बदलने के लिए तैयार हैं?',
+    ctaSubtitle: 'हज़ारों उपयोगकर्ता पहले से हमारे AI कानूनी मंच का लाभ उठा रहे हैं। आज ही बेहतर कानूनी समाधान की ओर कदम बढ़ाएँ।',
+    startTrial: 'मुफ़्त ट्रायल शुरू करें',
+    tryAnalyzer: 'दस्तावेज़ विश्लेषक आज़माएँ',
+  },
+  auth: {
+    welcome: 'स्वागत है',
+    tagline: 'AI के माध्यम से न्याय तक पहुँच',
+    getStarted: 'शुरू करें',
+    subtitle: 'अपने खाते में साइन इन करें या नया खाता बनाएँ',
+    signIn: 'साइन इन',
+    signingIn: 'साइन इन हो रहा है...',
+    signUp: 'साइन अप',
+    email: 'ईमेल',
+    emailPlaceholder: 'अपना ईमेल दर्ज करें',
+    password: 'पासवर्ड',
+    passwordPlaceholder: 'अपना पासवर्ड दर्ज करें',
+    fullName: 'पूरा नाम',
+    fullNamePlaceholder: 'अपना पूरा नाम दर्ज करें',
+    accountType: 'खाते का प्रकार',
+    accountTypePlaceholder: 'खाते का प्रकार चुनें',
+    roleUser: 'उपयोगकर्ता - कानूनी सहायता चाहिए',
+    roleLawyer: 'वकील (Lawyer) - कानूनी पेशेवर',
+    createPasswordPlaceholder: 'पासवर्ड बनाएँ',
+    confirmPassword: 'पासवर्ड की पुष्टि करें',
+    confirmPasswordPlaceholder: 'पासवर्ड दोबारा दर्ज करें',
+    professionalDetails: 'पेशेवर विवरण',
+    licenseNumber: 'लाइसेंस संख्या (License Number) *',
+    licenseNumberPlaceholder: 'बार लाइसेंस (Bar License) संख्या',
+    experience: 'अनुभव (वर्ष)',
+    experiencePlaceholder: 'वर्ष',
+    specialization: 'मुख्य विशेषज्ञता (Specialization) *',
+    specializationPlaceholder: 'विशेषज्ञता चुनें',
+    specCriminal: 'आपराधिक कानून (Criminal Law)',
+    specCivil: 'दीवानी कानून (Civil Law)',
+    specCorporate: 'कॉर्पोरेट कानून (Corporate Law)',
+    specFamily: 'पारिवारिक कानून (Family Law)',
+    specProperty: 'संपत्ति कानून (Property Law)',
+    specLabor: 'श्रम कानून (Labour Law)',
+    specTax: 'कर कानून (Tax Law)',
+    specImmigration: 'आप्रवासन कानून (Immigration Law)',
+    specIntellectual: 'बौद्धिक संपदा (Intellectual Property)',
+    specEnvironmental: 'पर्यावरण कानून (Environmental Law)',
+    courtLevel: 'न्यायालय स्तर का अनुभव',
+    courtLevelPlaceholder: 'न्यायालय स्तर चुनें',
+    courtDistrict: 'ज़िला न्यायालय (District Court)',
+    courtSessions: 'सत्र न्यायालय (Sessions Court)',
+    courtHigh: 'उच्च न्यायालय (High Court)',
+    courtSupreme: 'सर्वोच्च न्यायालय (Supreme Court)',
+    courtTribunal: 'न्यायाधिकरण (Tribunal)',
+    courtAll: 'सभी स्तर',
+    phone: 'फ़ोन नंबर',
+    phonePlaceholder: 'आपका संपर्क नंबर',
+    location: 'शहर/स्थान',
+    locationPlaceholder: 'प्रैक्टिस का स्थान',
+    barAssociation: 'बार एसोसिएशन (Bar Association)',
+    barAssociationPlaceholder: 'राज्य बार काउंसिल (State Bar Council)',
+    practiceAreas: 'अन्य प्रैक्टिस क्षेत्र',
+    practiceAreasPlaceholder: 'प्रैक्टिस के अन्य क्षेत्र (वैकल्पिक)',
+    createAccount: 'खाता बनाएँ',
+    creatingAccount: 'खाता बनाया जा रहा है...',
+    clearCache: 'समस्या आ रही है? कैश साफ़ करें और फिर कोशिश करें',
+    clearCacheHint: 'अगर आप अटक गए हैं या साइन इन नहीं कर पा रहे हैं तो इसका उपयोग करें',
+    cacheCleared: 'कैश साफ़ हो गया',
+    cacheClearedDescription: '{count} प्रमाणीकरण आइटम साफ़ किए गए। कृपया फिर से साइन इन करें।',
+    signInFailed: 'साइन इन विफल',
+    welcomeBack: 'फिर से स्वागत है!',
+    signedIn: 'सफलतापूर्वक साइन इन हो गया।',
+    error: 'त्रुटि',
+    unexpectedError: 'एक अनपेक्षित त्रुटि हुई।',
+    passwordMismatch: 'पासवर्ड मेल नहीं खाते',
+    passwordMismatchDescription: 'दोनों पासवर्ड एक जैसे नहीं हैं।',
+    weakPassword: 'कमज़ोर पासवर्ड',
+    weakPasswordDescription: 'पासवर्ड कम से कम 6 अक्षरों का होना चाहिए।',
+    signUpFailed: 'साइन अप विफल',
+    accountCreated: 'खाता बन गया!',
+    accountCreatedDescription: 'NyaAI में आपका स्वागत है! आपका खाता बना दिया गया है।',
+  },
+  dashboard: {
+    loading: 'आपका डैशबोर्ड लोड हो रहा है...',
+    title: 'डैशबोर्ड',
+    welcome: 'फिर से स्वागत है, {name}! 👋',
+    totalConversations: 'कुल बातचीत',
+    aiLegalAdvisor: 'AI कानूनी सलाहकार',
+    messagesExchanged: 'भेजे गए संदेश',
+    withAiAssistant: 'AI सहायक के साथ',
+    schemesSaved: 'सहेजी गई योजनाएँ',
+    governmentPrograms: 'सरकारी कार्यक्रम',
+    accountStatus: 'खाते की स्थिति',
+    active: 'सक्रिय',
+    memberSince: '{date} से सदस्य',
+    activityThisWeek: 'इस सप्ताह की गतिविधि',
+    activityDescription: 'आपकी दैनिक बातचीत गतिविधि',
+    chatCountOne: '{count} चैट',
+    chatCountOther: '{count} चैट',
+    recentActivity: 'हाल की गतिविधि',
+    recentActivityDescription: 'आपकी नवीनतम गतिविधियाँ',
+    noActivity: 'कोई हालिया गतिविधि नहीं',
+    noActivityHint: 'गतिविधि देखने के लिए बातचीत शुरू करें',
+    myDocuments: 'मेरे दस्तावेज़',
+    documentSummarized: 'सारांश तैयार: {title}',
+    documentUploaded: 'अपलोड किया: {title}',
+    justNow: 'अभी',
+    minutesAgo: '{count} मिनट पहले',
+    hoursAgo: '{count} घंटे पहले',
+    daysAgo: '{count} दिन पहले',
+    visitWebsite: 'आधिकारिक वेबसाइट देखें',
+    profileInformation: 'प्रोफ़ाइल जानकारी',
+    profileDescription: 'अपनी व्यक्तिगत जानकारी और प्राथमिकताएँ प्रबंधित करें',
+    editProfile: 'प्रोफ़ाइल संपादित करें',
+    fullName: 'पूरा नाम',
+    email: 'ईमेल पता',
+    phone: 'फ़ोन नंबर',
+    phonePlaceholder: 'अपना फ़ोन नंबर दर्ज करें',
+    location: 'स्थान',
+    locationPlaceholder: 'अपना स्थान दर्ज करें',
+    preferredLanguage: 'पसंदीदा भाषा',
+    preferredLanguageHint: 'NyaAI चैट, दस्तावेज़ सारांश और योजना परिणाम इसी भाषा में देगा',
+    getStartedAi: 'AI वकील के साथ शुरू करें',
+    profileUpdated: 'प्रोफ़ाइल अपडेट हो गई',
+    profileUpdatedDescription: 'आपकी प्रोफ़ाइल सफलतापूर्वक अपडेट हो गई है',
+    updateFailed: 'अपडेट विफल',
+    updateFailedDescription: 'प्रोफ़ाइल अपडेट नहीं हो सकी',
+    upcomingDeadlines: 'आगामी समय-सीमाएँ',
+    upcomingDeadlinesDescription: 'आपके दस्तावेज़ों की तिथियाँ जिन्हें आपने ट्रैक करने के लिए चुना',
+    noReminders: 'कोई आगामी समय-सीमा नहीं',
+    noRemindersHint: 'कोई दस्तावेज़ खोलें और उसकी तिथियाँ रिमाइंडर में जोड़ें',
+    overdueBy: '{count} दिन से अतिदेय',
+    overdueYesterday: 'कल देय था',
+    dueToday: 'आज देय',
+    dueTomorrow: 'कल देय',
+    dueInDays: '{count} दिनों में',
+    markDone: 'पूरा हुआ चिह्नित करें',
+    removeReminder: 'रिमाइंडर हटाएँ',
+    downloadCalendar: '.ics डाउनलोड करें',
+    openDocument: 'दस्तावेज़ खोलें',
+    reminderUpdateFailed: 'रिमाइंडर अपडेट नहीं हो सका',
+    moreReminders: '+{count} और',
+    schemeTracker: 'योजना आवेदन',
+    schemeTrackerDescription: 'सहेजी गई योजनाओं को सुझाव से निर्णय तक ले जाएँ और उनके दस्तावेज़ तैयार रखें',
+    schemeTrackerEmpty: 'अभी तक कोई योजना सहेजी नहीं गई',
+    schemeTrackerEmptyHint: 'जिन योजनाओं के लिए आप पात्र हैं उन्हें सहेजें और यहाँ अपने आवेदन ट्रैक करें',
+    findSchemes: 'योजनाएँ खोजें',
+    statusSuggested: 'सहेजी गई',
+    statusApplied: 'आवेदन किया',
+    statusApproved: 'स्वीकृत',
+    statusRejected: 'अस्वीकृत',
+    dropHere: 'योजनाएँ यहाँ खींचें',
+    documentsProgress: '{done}/{total} दस्तावेज़ तैयार',
+    appliedOnDate: 'आवेदन {date}',
+    decidedOnDate: 'निर्णय {date}',
+    schemeDeadline: 'अंतिम तिथि: {date}',
+    howToApply: 'आवेदन कैसे करें',
+    applicationStatus: 'स्थिति',
+    referenceNumber: 'आवेदन संदर्भ संख्या',
+    referenceNumberPlaceholder: 'जैसे पावती या पंजीकरण संख्या',
+    appliedOn: 'आवेदन की तिथि',
+    decidedOn: 'निर्णय की तिथि',
+    applicationNotes: 'नोट्स',
+    requiredDocuments: 'दस्तावेज़ सूची',
+    noDocumentsListed: 'इस योजना के लिए कोई दस्तावेज़ सूचीबद्ध नहीं है; आवश्यक दस्तावेज़ जोड़ें',
+    addDocument: 'दस्तावेज़ जोड़ें',
+    removeDocument: 'सूची से हटाएँ',
+    uploadProof: 'प्रमाण अपलोड करें',
+    viewProof: 'प्रमाण देखें',
+    removeProof: 'प्रमाण हटाएँ',
+    proofInvalid: '10MB से छोटी PDF, JPG, PNG या WebP फ़ाइल अपलोड करें',
+    decidedBeforeApplied: 'निर्णय की तिथि आवेदन की तिथि से पहले नहीं हो सकती',
+    applicationUpdateFailed: 'योजना आवेदन अपडेट नहीं हो सका',
+    removeFromTracker: 'योजना हटाएँ',
+    removeFromTrackerConfirm: '"{name}" आपकी सहेजी गई योजनाओं से उसकी दस्तावेज़ सूची और अपलोड किए गए प्रमाणों सहित हटा दी जाएगी।',
+    schemeAlerts: 'योजना अलर्ट',
+    schemeAlertsDescription: 'जब नई योजनाएँ आपकी प्रोफ़ाइल से मेल खाएँ या कोई मेल खाती योजना बंद होने वाली हो, तो सूचना पाएँ',
+    householdMembersSaved: '{count} सहेजे गए परिवार सदस्यों का मिलान',
+    householdMembersMissing: 'अभी कोई परिवार सदस्य सहेजा नहीं गया',
+    householdUpdated: 'अंतिम अपडेट {date}',
+    householdHint: 'मिलान चालू करने के लिए योजना पेज पर अपने और अपने परिवार का विवरण सहेजें',
+    manageHousehold: 'परिवार प्रबंधित करें',
+    alertFrequency: 'कितनी बार जाँचें',
+    alertsOff: 'बंद',
+    alertsDaily: 'रोज़',
+    alertsWeekly: 'साप्ताहिक',
+    alertDeadlineDays: 'अंतिम तिथि की चेतावनी',
+    withinDays: '{count} दिनों के भीतर',
+    alertEmail: 'ईमेल से भी भेजें',
+    alertsLastChecked: 'अंतिम जाँच {date}',
+    alertsNotCheckedYet: 'आपकी पहली जाँच अगले निर्धारित समय पर होगी',
+    alertSettingsFailed: 'आपकी अलर्ट सेटिंग्स सहेजी नहीं जा सकीं',
+  },
+  notifications: {
+    title: 'सूचनाएँ',
+    markAllRead: 'सभी को पढ़ा हुआ चिह्नित करें',
+    empty: 'अभी कोई सूचना नहीं',
+    emptyHint: 'नई और बंद होने वाली योजनाओं की जानकारी के लिए डैशबोर्ड पर योजना अलर्ट चालू करें',
+    newScheme: 'आपके लिए नई योजना',
+    schemeDeadline: 'जल्द बंद हो रही है',
+    applyBy: '{date} तक आवेदन करें',
+    dismiss: 'हटाएँ',
+    appointmentBooked: 'नई बुकिंग',
+    appointmentRescheduled: 'परामर्श का समय बदला',
+    appointmentCancelled: 'परामर्श रद्द',
+    appointmentReminder: 'जल्द शुरू',
+  },
+  lawyerDashboard: {
+    loading: 'डैशबोर्ड लोड हो रहा है...',
+    title: 'वकील (Lawyer) डैशबोर्ड',
+    welcome: 'फिर से स्वागत है, {name}!',
+    newMessages: 'नए संदेश प्रतीक्षा में हैं',
+    tabOverview: 'सारांश',
+    tabCases: 'मामले (Cases)',
+    tabRequests: 'क्लाइंट अनुरोध ({count})',
+    tabMessages: 'संदेश ({count})',
+    tabProfile: 'प्रोफ़ाइल',
+    last7Days: 'पिछले 7 दिन',
+    last30Days: 'पिछले 30 दिन',
+    allTime: 'अब तक',
+    totalCases: 'कुल मामले (Cases)',
+    activeCount: '{count} सक्रिय',
+    totalClients: 'कुल क्लाइंट',
+    uniqueClients: 'अलग-अलग क्लाइंट',
+    casesWon: 'जीते गए मामले (Cases Won)',
+    lostCount: '{count} हारे',
+    pendingRequests: 'लंबित अनुरोध',
+    awaitingResponse: 'जवाब की प्रतीक्षा',
+    casesByStatus: 'स्थिति के अनुसार मामले',
+    casesByStatusDescription: 'अलग-अलग स्थितियों में मामलों का वितरण',
+    monthlyTrend: 'मासिक रुझान',
+    monthlyTrendDescription: 'पिछले 6 महीनों में बनाए गए मामले',
+    noPendingRequests: 'कोई लंबित अनुरोध नहीं',
+    requestedAt: 'अनुरोध किया: {date}',
+    accept: 'स्वीकार करें',
+    reject: 'अस्वीकार करें',
+    activeConversations: 'सक्रिय बातचीत',
+    conversationCount: '{count} बातचीत',
+    selectConversation: 'एक बातचीत चुनें',
+    profileSettings: 'प्रोफ़ाइल सेटिंग्स',
+    profileSettingsDescription: 'अपनी प्रोफ़ाइल जानकारी अपडेट करें',
+    tabReviews: 'समीक्षाएँ ({count})',
+    clientReviews: 'मुवक्किलों की समीक्षाएँ',
+    clientReviewsDescription: 'उन मुवक्किलों की सत्यापित समीक्षाएँ जिनके मामले पूरे हो चुके हैं। धन्यवाद देने या प्रतिक्रिया का जवाब देने के लिए उत्तर दें।',
+  },
+  reviews: {
+    rateYourLawyers: 'अपने वकीलों को रेटिंग दें',
+    rateYourLawyersDescription: 'दूसरों को बताएँ कि आपके पूरे हुए मामले कैसे रहे। केवल पूरे हुए मामले वाले मुवक्किल ही वकील की समीक्षा कर सकते हैं।',
+    yourLawyer: 'आपके वकील',
+    caseConcluded: '{date} को पूरा हुआ',
+    writeReview: 'समीक्षा लिखें',
+    editReview: 'समीक्षा संपादित करें',
+    deleteReview: 'समीक्षा हटाएँ',
+    yourRating: 'आपकी रेटिंग',
+    chooseRating: 'स्टार रेटिंग चुनें',
+    commentLabel: 'आपकी समीक्षा',
+    commentPlaceholder: 'क्या अच्छा रहा, और क्या बेहतर हो सकता था?',
+    submitReview: 'समीक्षा जमा करें',
+    reviewSaved: 'आपकी समीक्षा के लिए धन्यवाद',
+    reviewDeleted: 'समीक्षा हटा दी गई',
+    reviewFailed: 'आपकी समीक्षा सहेजी नहीं जा सकी',
+    reviewCount: '{count} समीक्षाएँ',
+    outOf5: '5 में से {rating}',
+    noReviews: 'अभी कोई समीक्षा नहीं',
+    noReviewsHint: 'समीक्षाएँ उन मुवक्किलों से आती हैं जिनके इस वकील के साथ मामले पूरे हो चुके हैं',
+    verifiedClient: 'सत्यापित मुवक्किल',
+    anonymousClient: 'मुवक्किल',
+    lawyerReply: 'वकील का जवाब',
+    reply: 'जवाब दें',
+    editReply: 'जवाब संपादित करें',
+    replyPlaceholder: 'मुवक्किल को धन्यवाद दें या उनकी प्रतिक्रिया का जवाब दें',
+    saveReply: 'जवाब पोस्ट करें',
+    removeReply: 'जवाब हटाएँ',
+    replyFailed: 'आपका जवाब सहेजा नहीं जा सका',
+    hiddenByModerator: 'मॉडरेटर द्वारा छिपाया गया: {reason}',
+    hiddenNoReason: 'मॉडरेटर द्वारा छिपाया गया',
+    showMore: 'और समीक्षाएँ दिखाएँ',
+    loadFailed: 'समीक्षाएँ लोड नहीं हो सकीं',
+  },
+  appointments: {
+    title: 'आगामी परामर्श',
+    clientDescription: 'वकीलों के साथ आपके बुक किए गए परामर्श। समय भारतीय मानक समय में है।',
+    lawyerDescription: 'मुवक्किलों द्वारा आपके कार्य समय में बुक किए गए परामर्श। समय भारतीय मानक समय में है।',
+    empty: 'कोई आगामी परामर्श नहीं',
+    clientEmptyHint: 'वकील खोजें से किसी वकील के साथ स्लॉट बुक करें',
+    lawyerEmptyHint: 'प्रोफ़ाइल टैब में अपना कार्य समय प्रकाशित करें ताकि मुवक्किल आपको बुक कर सकें',
+    findLawyer: 'वकील खोजें',
+    modeInPerson: 'व्यक्तिगत रूप से',
+    modePhone: 'फ़ोन कॉल',
+    modeVideo: 'वीडियो कॉल',
+    withName: '{name} के साथ',
+    yourLawyer: 'आपके वकील',
+    yourClient: 'आपके मुवक्किल',
+    showAll: 'सभी दिखाएँ ({count})',
+    showFewer: 'कम दिखाएँ',
+    minutes: '{count} मिनट',
+    rescheduled: 'समय बदला गया',
+    clientNotes: 'चर्चा का विषय',
+    addToCalendar: 'कैलेंडर में जोड़ें',
+    reschedule: 'समय बदलें',
+    cancel: 'रद्द करें',
+    changesClosed: 'शुरू होने से {hours} घंटे पहले बदलाव बंद हो जाते हैं',
+    rescheduleLimitReached: 'पहले ही {count} बार समय बदला जा चुका है',
+    cancelTitle: 'यह परामर्श रद्द करें?',
+    cancelDescription: '{name} को सूचित किया जाएगा और स्लॉट खाली हो जाएगा।',
+    cancelReason: 'कारण',
+    cancelReasonPlaceholder: 'उन्हें कारण बताएँ',
+    reasonRequired: 'अपने मुवक्किल को बताएँ कि आप क्यों रद्द कर रहे हैं',
+    keepAppointment: 'रहने दें',
+    confirmCancel: 'परामर्श रद्द करें',
+    cancelled: 'परामर्श रद्द किया गया',
+    cancelFailed: 'परामर्श रद्द नहीं किया जा सका',
+    loadFailed: 'आपके परामर्श लोड नहीं हो सके',
+    bookTitle: '{name} के साथ परामर्श बुक करें',
+    rescheduleTitle: '{name} के साथ अपने परामर्श का समय बदलें',
+    timesInIst: 'समय भारतीय मानक समय (IST) में है',
+    day: 'दिन',
+    time: 'समय',
+    consultationType: 'परामर्श का प्रकार',
+    notes: 'आप किस बारे में चर्चा करना चाहेंगे? (वैकल्पिक)',
+    notesPlaceholder: 'अपने मामले के बारे में एक-दो पंक्तियाँ वकील को तैयारी में मदद करती हैं',
+    noSlots: 'अगले {days} दिनों में कोई खाली स्लॉट नहीं',
+    noSlotsHint: 'इस वकील ने कार्य समय प्रकाशित नहीं किया है या सभी स्लॉट बुक हैं। इसके बजाय उन्हें अनुरोध भेजें।',
+    policy: 'आप शुरू होने से {hours} घंटे पहले तक समय बदल या रद्द कर सकते हैं, और हर परामर्श का समय अधिकतम {count} बार बदल सकते हैं।',
+    bookSlot: 'स्लॉट बुक करें',
+    confirmBooking: '{day}, {time} बुक करें',
+    confirmReschedule: '{day}, {time} पर ले जाएँ',
+    booking: 'बुक हो रहा है...',
+    booked: 'परामर्श बुक हो गया',
+    bookedDescription: '{day} को {time} IST। आपको एक दिन पहले रिमाइंडर मिलेगा।',
+    moved: 'परामर्श का समय बदला गया',
+    movedDescription: 'अब {day} को {time} IST पर।',
+    bookingFailed: 'यह स्लॉट बुक नहीं हो सका',
+    slotsFailed: 'खाली स्लॉट लोड नहीं हो सके',
+  },
+};
+
+export default hi;
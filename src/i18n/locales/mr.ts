@@ -0,0 +1,405 @@
+import type { PartialTranslationDictionary } from '../index';
+
+/**
+ * Marathi (मराठी). Legal terms keep their English form in brackets.
+ */
+const mr: PartialTranslationDictionary = {
+  common: {
+    save: 'जतन करा',
+    cancel: 'रद्द करा',
+    language: 'भाषा',
+  },
+  nav: {
+    home: 'मुख्यपृष्ठ',
+    features: 'वैशिष्ट्ये',
+    about: 'आमच्याबद्दल',
+    contact: 'संपर्क',
+    dashboard: 'डॅशबोर्ड',
+    signOut: 'साइन आउट',
+    admin: 'प्रशासक',
+    login: 'लॉगिन',
+    signUp: 'साइन अप',
+  },
+  hero: {
+    badge: 'प्रगत AI द्वारे चालवलेले',
+    titleLine1: 'AI च्या माध्यमातून',
+    titleLine2: 'न्याय सर्वांसाठी',
+    subtitle: 'NyaAI हे कृत्रिम बुद्धिमत्ता आणि कायदेशीर कौशल्य एकत्र आणून प्रत्येकासाठी न्याय सुलभ करणारे व्यासपीठ आहे.',
+    assistantTitle: 'AI कायदेशीर सहाय्यक (Legal Assistant)',
+    assistantDescription: '24/7 हुशार कायदेशीर मार्गदर्शन',
+    documentTitle: 'दस्तऐवज विश्लेषण',
+    documentDescription: 'कायदेशीर दस्तऐवजांची त्वरित माहिती',
+    networkTitle: 'तज्ज्ञ नेटवर्क',
+    networkDescription: 'पात्र वकिलांशी (Lawyers) संपर्क साधा',
+    goToDashboard: 'डॅशबोर्डवर जा',
+    getStarted: 'मोफत सुरू करा',
+    exploreFeatures: 'वैशिष्ट्ये पहा',
+    trustedBy: '10,000+ वापरकर्त्यांचा विश्वास',
+    soc2: 'SOC 2 अनुरूप',
+    security: 'एंटरप्राइज दर्जाची सुरक्षा',
+  },
+  features: {
+    badge: 'प्रभावी वैशिष्ट्ये',
+    titleLine1: 'प्रगत NyaAI तंत्रज्ञान',
+    titleLine2: 'तुमच्या हाताशी',
+    subtitle: 'कृत्रिम बुद्धिमत्तेच्या मदतीने तुमच्या कायदेशीर प्रक्रिया सोप्या करा आणि आत्मविश्वासाने योग्य निर्णय घ्या.',
+    learnMore: 'अधिक जाणून घ्या',
+    chatbotTitle: 'AI कायदेशीर चॅटबॉट',
+    chatbotDescription: 'व्यापक कायदेशीर डेटाबेसवर प्रशिक्षित आमच्या AI सहाय्यकाकडून त्वरित कायदेशीर सल्ला मिळवा.',
+    chatbotHighlight1: '24/7 उपलब्ध',
+    chatbotHighlight2: 'बहुभाषिक मदत',
+    chatbotHighlight3: 'न्यायनिर्णयांचे (Case Law) संदर्भ',
+    summarizerTitle: 'दस्तऐवज सारांश',
+    summarizerDescription: 'कायदेशीर दस्तऐवज अपलोड करा आणि महत्त्वाचे मुद्दे व संभाव्य अडचणी दाखवणारा AI सारांश मिळवा.',
+    summarizerHighlight1: 'PDF आणि DOCX समर्थन',
+    summarizerHighlight2: 'महत्त्वाचे मुद्दे काढणे',
+    summarizerHighlight3: 'जोखीम मूल्यांकन',
+    schemesTitle: 'सरकारी योजना सल्लागार',
+    schemesDescription: 'तुमच्या वैयक्तिक व आर्थिक माहितीवर आधारित योग्य सरकारी योजना आणि लाभ शोधा.',
+    schemesHighlight1: 'वैयक्तिक जुळणी',
+    schemesHighlight2: 'पात्रता (Eligibility) तपासणी',
+    schemesHighlight3: 'अर्ज मार्गदर्शन',
+    lawyersTitle: 'जवळचे वकील शोधा',
+    lawyersDescription: 'तुमच्या भागातील, तुमच्या कायदेशीर गरजेतील तज्ज्ञ पात्र वकिलांशी (Lawyers) संपर्क साधा.',
+    lawyersHighlight1: 'स्थानानुसार शोध',
+    lawyersHighlight2: 'विशेषीकरण (Specialization) फिल्टर',
+    lawyersHighlight3: 'सत्यापित व्यावसायिक',
+    drafterTitle: 'कायदेशीर मसुदा स्टुडिओ',
+    drafterDescription: 'सोप्या फॉर्ममधून कायदेशीर नोटीस, माहिती अधिकार अर्ज, ग्राहक तक्रार, भाडे करार आणि प्रतिज्ञापत्र तयार करा.',
+    drafterHighlight1: 'नोटीस, माहिती अधिकार व तक्रारी',
+    drafterHighlight2: 'संपादन व आवृत्त्या',
+    drafterHighlight3: 'वर्ड व पीडीएफ निर्यात',
+    ctaTitle: 'तुमचा कायदेशीर अनुभव बदलायला तयार आहात?',
+    ctaSubtitle: 'हजारो वापरकर्ते आधीच आमच्या AI कायदेशीर व्यासपीठाचा लाभ घेत आहेत. आजच अधिक हुशार कायदेशीर उपायांकडे वाटचाल सुरू करा.',
+    startTrial: 'मोफत चाचणी सुरू करा',
+    tryAnalyzer: 'दस्तऐवज विश्लेषक वापरून पहा',
+  },
+  auth: {
+    welcome: 'स्वागत आहे',
+    tagline: 'AI च्या माध्यमातून न्याय सर्वांसाठी',
+    getStarted: 'सुरू करा',
+    subtitle: 'तुमच्या खात्यात साइन इन करा किंवा नवीन खाते तयार करा',
+    signIn: 'साइन इन',
+    signingIn: 'साइन इन होत आहे...',
+    signUp: 'साइन अप',
+    email: 'ईमेल',
+    emailPlaceholder: 'तुमचा ईमेल टाका',
+    password: 'पासवर्ड',
+    passwordPlaceholder: 'तुमचा पासवर्ड टाका',
+    fullName: 'पूर्ण नाव',
+    fullNamePlaceholder: 'तुमचे पूर्ण नाव टाका',
+    accountType: 'खात्याचा प्रकार',
+    accountTypePlaceholder: 'खात्याचा प्रकार निवडा',
+    roleUser: 'वापरकर्ता - कायदेशीर मदत हवी आहे',
+    roleLawyer: 'वकील (Lawyer) - कायदेशीर व्यावसायिक',
+    createPasswordPlaceholder: 'पासवर्ड तयार करा',
+    confirmPassword: 'पासवर्डची पुष्टी करा',
+    confirmPasswordPlaceholder: 'पासवर्ड पुन्हा टाका',
+    professionalDetails: 'व्यावसायिक तपशील',
+    licenseNumber: 'परवाना क्रमांक (License Number) *',
+    licenseNumberPlaceholder: 'बार परवाना (Bar License) क्रमांक',
+    experience: 'अनुभव (वर्षे)',
+    experiencePlaceholder: 'वर्षे',
+    specialization: 'मुख्य विशेषीकरण (Specialization) *',
+    specializationPlaceholder: 'विशेषीकरण निवडा',
+    specCriminal: 'फौजदारी कायदा (Criminal Law)',
+    specCivil: 'दिवाणी कायदा (Civil Law)',
+    specCorporate: 'कॉर्पोरेट कायदा (Corporate Law)',
+    specFamily: 'कौटुंबिक कायदा (Family Law)',
+    specProperty: 'मालमत्ता कायदा (Property Law)',
+    specLabor: 'कामगार कायदा (Labour Law)',
+    specTax: 'कर कायदा (Tax Law)',
+    specImmigration: 'स्थलांतर कायदा (Immigration Law)',
+    specIntellectual: 'बौद्धिक संपदा (Intellectual Property)',
+    specEnvironmental: 'पर्यावरण कायदा (Environmental Law)',
+    courtLevel: 'न्यायालय स्तरावरील अनुभव',
+    courtLevelPlaceholder: 'न्यायालय स्तर निवडा',
+    courtDistrict: 'जिल्हा न्यायालय (District Court)',
+    courtSessions: 'सत्र न्यायालय (Sessions Court)',
+    courtHigh: 'उच्च न्यायालय (High Court)',
+    courtSupreme: 'सर्वोच्च न्यायालय (Supreme Court)',
+    courtTribunal: 'न्यायाधिकरण (Tribunal)',
+    courtAll: 'सर्व स्तर',
+    phone: 'फोन नंबर',
+    phonePlaceholder: 'तुमचा संपर्क क्रमांक',
+    location: 'शहर/ठिकाण',
+    locationPlaceholder: 'प्रॅक्टिसचे ठिकाण',
+    barAssociation: 'बार असोसिएशन (Bar Association)',
+    barAssociationPlaceholder: 'राज्य बार कौन्सिल (State Bar Council)',
+    practiceAreas: 'इतर प्रॅक्टिस क्षेत्रे',
+    practiceAreasPlaceholder: 'प्रॅक्टिसची इतर क्षेत्रे (ऐच्छिक)',
+    createAccount: 'खाते तयार करा',
+    creatingAccount: 'खाते तयार होत आहे...',
+    clearCache: 'अडचण येत आहे? कॅशे साफ करा आणि पुन्हा प्रयत्न करा',
+    clearCacheHint: 'तुम्ही अडकला असाल किंवा साइन इन करू शकत नसाल तर हे वापरा',
+    cacheCleared: 'कॅशे साफ झाला',
+    cacheClearedDescription: '{count} प्रमाणीकरण नोंदी साफ केल्या. कृपया पुन्हा साइन इन करा.',
+    signInFailed: 'साइन इन अयशस्वी',
+    welcomeBack: 'पुन्हा स्वागत आहे!',
+    signedIn: 'यशस्वीरित्या साइन इन झाले.',
+    error: 'त्रुटी',
+    unexpectedError: 'अनपेक्षित त्रुटी आली.',
+    passwordMismatch: 'पासवर्ड जुळत नाहीत',
+    passwordMismatchDescription: 'दोन्ही पासवर्ड सारखे नाहीत.',
+    weakPassword: 'कमकुवत पासवर्ड',
+    weakPasswordDescription: 'पासवर्ड किमान 6 अक्षरांचा असावा.',
+    signUpFailed: 'साइन अप अयशस्वी',
+    accountCreated: 'खाते तयार झाले!',
+    accountCreatedDescription: 'NyaAI मध्ये स्वागत आहे! तुमचे खाते तयार झाले आहे.',
+  },
+  dashboard: {
+    loading: 'तुमचा डॅशबोर्ड लोड होत आहे...',
+    title: 'डॅशबोर्ड',
+    welcome: 'पुन्हा स्वागत आहे, {name}! 👋',
+    totalConversations: 'एकूण संभाषणे',
+    aiLegalAdvisor: 'AI कायदेशीर सल्लागार',
+    messagesExchanged: 'देवाणघेवाण झालेले संदेश',
+    withAiAssistant: 'AI सहाय्यकासोबत',
+    schemesSaved: 'जतन केलेल्या योजना',
+    governmentPrograms: 'सरकारी कार्यक्रम',
+    accountStatus: 'खात्याची स्थिती',
+    active: 'सक्रिय',
+    memberSince: '{date} पासून सदस्य',
+    activityThisWeek: 'या आठवड्यातील हालचाल',
+    activityDescription: 'तुमची दैनंदिन संभाषण हालचाल',
+    chatCountOne: '{count} चॅट',
+    chatCountOther: '{count} चॅट',
+    recentActivity: 'अलीकडील हालचाल',
+    recentActivityDescription: 'तुमचे नवीनतम संवाद',
+    noActivity: 'अलीकडील हालचाल नाही',
+    noActivityHint: 'हालचाल पाहण्यासाठी संभाषण सुरू करा',
+    myDocuments: 'माझे दस्तऐवज',
+    documentSummarized: 'सारांश तयार: {title}',
+    documentUploaded: 'अपलोड केले: {title}',
+    justNow: 'आत्ताच',
+    minutesAgo: '{count} मिनिटांपूर्वी',
+    hoursAgo: '{count} तासांपूर्वी',
+    daysAgo: '{count} दिवसांपूर्वी',
+    visitWebsite: 'अधिकृत वेबसाइट पहा',
+    profileInformation: 'प्रोफाइल माहिती',
+    profileDescription: 'तुमची वैयक्तिक माहिती आणि प्राधान्ये व्यवस्थापित करा',
+    editProfile: 'प्रोफाइल संपादित करा',
+    fullName: 'पूर्ण नाव',
+    email: 'ईमेल पत्ता',
+    phone: 'फोन नंबर',
+    phonePlaceholder: 'तुमचा फोन नंबर टाका',
+    location: 'ठिकाण',
+    locationPlaceholder: 'तुमचे ठिकाण टाका',
+    preferredLanguage: 'पसंतीची भाषा',
+    preferredLanguageHint: 'NyaAI चॅट, दस्तऐवज सारांश आणि योजनांचे निकाल याच भाषेत देईल',
+    getStartedAi: 'AI वकिलासोबत सुरू करा',
+    profileUpdated: 'प्रोफाइल अपडेट झाले',
+    profileUpdatedDescription: 'तुमचे प्रोफाइल यशस्वीरित्या अपडेट झाले आहे',
+    updateFailed: 'अपडेट अयशस्वी',
+    updateFailedDescription: 'प्रोफाइल अपडेट करता आले नाही',
+    upcomingDeadlines: 'आगामी मुदती',
+    upcomingDeadlinesDescription: 'तुमच्या दस्तऐवजांतील तारखा ज्या तुम्ही ट्रॅक करण्यासाठी निवडल्या',
+    noReminders: 'कोणतीही आगामी मुदत नाही',
+    noRemindersHint: 'एखादा दस्तऐवज उघडा आणि त्यातील तारखा रिमाइंडरमध्ये जोडा',
+    overdueBy: '{count} दिवसांपासून थकीत',
+    overdueYesterday: 'काल देय होते',
+    dueToday: 'आज देय',
+    dueTomorrow: 'उद्या देय',
+    dueInDays: '{count} दिवसांत',
+    markDone: 'पूर्ण झाले म्हणून चिन्हांकित करा',
+    removeReminder: 'रिमाइंडर काढा',
+    downloadCalendar: '.ics डाउनलोड करा',
+    openDocument: 'दस्तऐवज उघडा',
+    reminderUpdateFailed: 'रिमाइंडर अपडेट करता आले नाही',
+    moreReminders: '+{count} अधिक',
+    schemeTracker: 'योजना अर्ज',
+    schemeTrackerDescription: 'जतन केलेल्या योजना सूचनेपासून निर्णयापर्यंत पुढे न्या आणि त्यांची कागदपत्रे तयार ठेवा',
+    schemeTrackerEmpty: 'अद्याप कोणतीही योजना जतन केलेली नाही',
+    schemeTrackerEmptyHint: 'तुम्ही पात्र असलेल्या योजना जतन करा आणि येथे तुमचे अर्ज ट्रॅक करा',
+    findSchemes: 'योजना शोधा',
+    statusSuggested: 'जतन केलेली',
+    statusApplied: 'अर्ज केला',
+    statusApproved: 'मंजूर',
+    statusRejected: 'नामंजूर',
+    dropHere: 'योजना येथे ओढा',
+    documentsProgress: '{done}/{total} कागदपत्रे तयार',
+    appliedOnDate: 'अर्ज {date}',
+    decidedOnDate: 'निर्णय {date}',
+    schemeDeadline: 'अंतिम तारीख: {date}',
+    howToApply: 'अर्ज कसा करावा',
+    applicationStatus: 'स्थिती',
+    referenceNumber: 'अर्ज संदर्भ क्रमांक',
+    referenceNumberPlaceholder: 'उदा. पोचपावती किंवा नोंदणी क्रमांक',
+    appliedOn: 'अर्जाची तारीख',
+    decidedOn: 'निर्णयाची तारीख',
+    applicationNotes: 'नोंदी',
+    requiredDocuments: 'कागदपत्रांची यादी',
+    noDocumentsListed: 'या योजनेसाठी कोणतीही कागदपत्रे सूचीबद्ध नाहीत; आवश्यक ती जोडा',
+    addDocument: 'कागदपत्र जोडा',
+    removeDocument: 'यादीतून काढा',
+    uploadProof: 'पुरावा अपलोड करा',
+    viewProof: 'पुरावा पहा',
+    removeProof: 'पुरावा काढा',
+    proofInvalid: '10MB पेक्षा लहान PDF, JPG, PNG किंवा WebP फाइल अपलोड करा',
+    decidedBeforeApplied: 'निर्णयाची तारीख अर्जाच्या तारखेपूर्वी असू शकत नाही',
+    applicationUpdateFailed: 'योजना अर्ज अद्ययावत करता आला नाही',
+    removeFromTracker: 'योजना काढा',
+    removeFromTrackerConfirm: '"{name}" तुमच्या जतन केलेल्या योजनांमधून तिची कागदपत्र यादी आणि अपलोड केलेल्या पुराव्यांसह काढली जाईल.',
+    schemeAlerts: 'योजना सूचना',
+    schemeAlertsDescription: 'नवीन योजना तुमच्या प्रोफाइलशी जुळल्यास किंवा जुळणारी योजना बंद होणार असल्यास सूचना मिळवा',
+    householdMembersSaved: '{count} जतन केलेल्या कुटुंब सदस्यांची जुळवणी',
+    householdMembersMissing: 'अद्याप कोणताही कुटुंब सदस्य जतन केलेला नाही',
+    householdUpdated: 'शेवटचे अद्यतन {date}',
+    householdHint: 'जुळवणी सुरू करण्यासाठी योजना पानावर तुमचे आणि कुटुंबाचे तपशील जतन करा',
+    manageHousehold: 'कुटुंब व्यवस्थापित करा',
+    alertFrequency: 'किती वेळा तपासावे',
+    alertsOff: 'बंद',
+    alertsDaily: 'दररोज',
+    alertsWeekly: 'साप्ताहिक',
+    alertDeadlineDays: 'अंतिम मुदतीची सूचना',
+    withinDays: '{count} दिवसांच्या आत',
+    alertEmail: 'ईमेलनेही पाठवा',
+    alertsLastChecked: 'शेवटची तपासणी {date}',
+    alertsNotCheckedYet: 'तुमची पहिली तपासणी पुढील नियोजित वेळी होईल',
+    alertSettingsFailed: 'तुमची सूचना सेटिंग्ज जतन करता आली नाहीत',
+  },
+  notifications: {
+    title: 'सूचना',
+    markAllRead: 'सर्व वाचले म्हणून चिन्हांकित करा',
+    empty: 'अद्याप कोणतीही सूचना नाही',
+    emptyHint: 'नवीन आणि बंद होणाऱ्या योजनांबद्दल कळण्यासाठी डॅशबोर्डवर योजना सूचना सुरू करा',
+    newScheme: 'तुमच्यासाठी नवीन योजना',
+    schemeDeadline: 'लवकरच बंद होत आहे',
+    applyBy: '{date} पर्यंत अर्ज करा',
+    dismiss: 'काढा',
+    appointmentBooked: 'नवीन बुकिंग',
+    appointmentRescheduled: 'सल्लामसलतीची वेळ बदलली',
+    appointmentCancelled: 'सल्लामसलत रद्द',
+    appointmentReminder: 'लवकरच',
+  },
+  lawyerDashboard: {
+    loading: 'डॅशबोर्ड लोड होत आहे...',
+    title: 'वकील (Lawyer) डॅशबोर्ड',
+    welcome: 'पुन्हा स्वागत आहे, {name}!',
+    newMessages: 'नवीन संदेश प्रतीक्षेत आहेत',
+    tabOverview: 'आढावा',
+    tabCases: 'खटले (Cases)',
+    tabRequests: 'पक्षकारांच्या विनंत्या ({count})',
+    tabMessages: 'संदेश ({count})',
+    tabProfile: 'प्रोफाइल',
+    last7Days: 'मागील 7 दिवस',
+    last30Days: 'मागील 30 दिवस',
+    allTime: 'आतापर्यंत',
+    totalCases: 'एकूण खटले (Cases)',
+    activeCount: '{count} सक्रिय',
+    totalClients: 'एकूण पक्षकार (Clients)',
+    uniqueClients: 'वेगवेगळे पक्षकार',
+    casesWon: 'जिंकलेले खटले (Cases Won)',
+    lostCount: '{count} हरले',
+    pendingRequests: 'प्रलंबित विनंत्या',
+    awaitingResponse: 'उत्तराच्या प्रतीक्षेत',
+    casesByStatus: 'स्थितीनुसार खटले',
+    casesByStatusDescription: 'वेगवेगळ्या स्थितींमधील खटल्यांचे वितरण',
+    monthlyTrend: 'मासिक कल',
+    monthlyTrendDescription: 'मागील 6 महिन्यांत तयार झालेले खटले',
+    noPendingRequests: 'कोणतीही प्रलंबित विनंती नाही',
+    requestedAt: 'विनंती केली: {date}',
+    accept: 'स्वीकारा',
+    reject: 'नाकारा',
+    activeConversations: 'सक्रिय संभाषणे',
+    conversationCount: '{count} संभाषणे',
+    selectConversation: 'एक संभाषण निवडा',
+    profileSettings: 'प्रोफाइल सेटिंग्ज',
+    profileSettingsDescription: 'तुमची प्रोफाइल माहिती अपडेट करा',
+    tabReviews: 'पुनरावलोकने ({count})',
+    clientReviews: 'अशिलांची पुनरावलोकने',
+    clientReviewsDescription: 'ज्यांची प्रकरणे पूर्ण झाली आहेत अशा अशिलांची सत्यापित पुनरावलोकने. आभार मानण्यासाठी किंवा अभिप्रायाला उत्तर देण्यासाठी प्रतिसाद द्या.',
+  },
+  reviews: {
+    rateYourLawyers: 'तुमच्या वकिलांना रेटिंग द्या',
+    rateYourLawyersDescription: 'तुमची पूर्ण झालेली प्रकरणे कशी झाली ते इतरांना सांगा. फक्त पूर्ण झालेले प्रकरण असलेले अशील वकिलाचे पुनरावलोकन करू शकतात.',
+    yourLawyer: 'तुमचे वकील',
+    caseConcluded: '{date} रोजी पूर्ण',
+    writeReview: 'पुनरावलोकन लिहा',
+    editReview: 'पुनरावलोकन संपादित करा',
+    deleteReview: 'पुनरावलोकन हटवा',
+    yourRating: 'तुमचे रेटिंग',
+    chooseRating: 'स्टार रेटिंग निवडा',
+    commentLabel: 'तुमचे पुनरावलोकन',
+    commentPlaceholder: 'काय चांगले झाले, आणि काय अधिक चांगले होऊ शकले असते?',
+    submitReview: 'पुनरावलोकन सबमिट करा',
+    reviewSaved: 'तुमच्या पुनरावलोकनाबद्दल धन्यवाद',
+    reviewDeleted: 'पुनरावलोकन हटवले',
+    reviewFailed: 'तुमचे पुनरावलोकन जतन करता आले नाही',
+    reviewCount: '{count} पुनरावलोकने',
+    outOf5: '5 पैकी {rating}',
+    noReviews: 'अद्याप पुनरावलोकने नाहीत',
+    noReviewsHint: 'या वकिलासोबत प्रकरणे पूर्ण झालेल्या अशिलांकडून पुनरावलोकने येतात',
+    verifiedClient: 'सत्यापित अशील',
+    anonymousClient: 'अशील',
+    lawyerReply: 'वकिलांचे उत्तर',
+    reply: 'उत्तर द्या',
+    editReply: 'उत्तर संपादित करा',
+    replyPlaceholder: 'अशिलाचे आभार माना किंवा त्यांच्या अभिप्रायाला उत्तर द्या',
+    saveReply: 'उत्तर पोस्ट करा',
+    removeReply: 'उत्तर काढा',
+    replyFailed: 'तुमचे उत्तर जतन करता आले नाही',
+    hiddenByModerator: 'नियंत्रकाने लपवले: {reason}',
+    hiddenNoReason: 'नियंत्रकाने लपवले',
+    showMore: 'आणखी पुनरावलोकने दाखवा',
+    loadFailed: 'पुनरावलोकने लोड करता आली नाहीत',
+  },
+  appointments: {
+    title: 'आगामी सल्लामसलत',
+    clientDescription: 'वकिलांसोबत तुम्ही बुक केलेल्या सल्लामसलती. वेळा भारतीय प्रमाणवेळेनुसार आहेत.',
+    lawyerDescription: 'अशिलांनी तुमच्या कामाच्या वेळेत बुक केलेल्या सल्लामसलती. वेळा भारतीय प्रमाणवेळेनुसार आहेत.',
+    empty: 'कोणतीही आगामी सल्लामसलत नाही',
+    clientEmptyHint: 'वकील शोधा मधून वकिलासोबत स्लॉट बुक करा',
+    lawyerEmptyHint: 'अशिलांना तुमची वेळ बुक करता यावी म्हणून प्रोफाइल टॅबमध्ये तुमच्या कामाच्या वेळा प्रकाशित करा',
+    findLawyer: 'वकील शोधा',
+    modeInPerson: 'प्रत्यक्ष भेट',
+    modePhone: 'फोन कॉल',
+    modeVideo: 'व्हिडिओ कॉल',
+    withName: '{name} यांच्यासोबत',
+    yourLawyer: 'तुमचे वकील',
+    yourClient: 'तुमचे अशील',
+    showAll: 'सर्व दाखवा ({count})',
+    showFewer: 'कमी दाखवा',
+    minutes: '{count} मिनिटे',
+    rescheduled: 'वेळ बदलली',
+    clientNotes: 'चर्चेचा विषय',
+    addToCalendar: 'कॅलेंडरमध्ये जोडा',
+    reschedule: 'वेळ बदला',
+    cancel: 'रद्द करा',
+    changesClosed: 'सुरू होण्याच्या {hours} तास आधी बदल बंद होतात',
+    rescheduleLimitReached: 'आधीच {count} वेळा वेळ बदलली आहे',
+    cancelTitle: 'ही सल्लामसलत रद्द करायची?',
+    cancelDescription: '{name} यांना कळवले जाईल आणि स्लॉट मोकळा होईल.',
+    cancelReason: 'कारण',
+    cancelReasonPlaceholder: 'त्यांना कारण सांगा',
+    reasonRequired: 'तुम्ही का रद्द करत आहात ते तुमच्या अशिलाला सांगा',
+    keepAppointment: 'राहू द्या',
+    confirmCancel: 'सल्लामसलत रद्द करा',
+    cancelled: 'सल्लामसलत रद्द केली',
+    cancelFailed: 'सल्लामसलत रद्द करता आली नाही',
+    loadFailed: 'तुमच्या सल्लामसलती लोड करता आल्या नाहीत',
+    bookTitle: '{name} यांच्यासोबत सल्लामसलत बुक करा',
+    rescheduleTitle: '{name} यांच्यासोबतच्या सल्लामसलतीची वेळ बदला',
+    timesInIst: 'वेळा भारतीय प्रमाणवेळेनुसार (IST) आहेत',
+    day: 'दिवस',
+    time: 'वेळ',
+    consultationType: 'सल्लामसलतीचा प्रकार',
+    notes: 'तुम्हाला कशाबद्दल चर्चा करायची आहे? (ऐच्छिक)',
+    notesPlaceholder: 'तुमच्या प्रकरणाबद्दल एक-दोन ओळी वकिलाला तयारीसाठी मदत करतात',
+    noSlots: 'पुढील {days} दिवसांत एकही मोकळा स्लॉट नाही',
+    noSlotsHint: 'या वकिलांनी कामाच्या वेळा प्रकाशित केलेल्या नाहीत किंवा सर्व स्लॉट बुक आहेत. त्याऐवजी त्यांना विनंती पाठवा.',
+    policy: 'सुरू होण्याच्या {hours} तास आधीपर्यंत तुम्ही वेळ बदलू किंवा रद्द करू शकता, आणि प्रत्येक सल्लामसलतीची वेळ जास्तीत जास्त {count} वेळा बदलू शकता.',
+    bookSlot: 'स्लॉट बुक करा',
+    confirmBooking: '{day}, {time} बुक करा',
+    confirmReschedule: '{day}, {time} वर हलवा',
+    booking: 'बुक होत आहे...',
+    booked: 'सल्लामसलत बुक झाली',
+    bookedDescription: '{day} रोजी {time} IST. तुम्हाला एक दिवस आधी आठवण करून दिली जाईल.',
+    moved: 'सल्लामसलतीची वेळ बदलली',
+    movedDescription: 'आता {day} रोजी {time} IST.',
+    bookingFailed: 'हा स्लॉट बुक करता आला नाही',
+    slotsFailed: 'मोकळे स्लॉट लोड करता आले नाहीत',
+  },
+};
+
+export default mr;
@@ -0,0 +1,405 @@
+import type { PartialTranslationDictionary } from '../index';
+
+/**
+ * Tamil (தமிழ்). Legal terms keep their English form in brackets.
+ */
+const ta: PartialTranslationDictionary = {
+  common: {
+    save: 'சேமி',
+    cancel: 'ரத்து செய்',
+    language: 'மொழி',
+  },
+  nav: {
+    home: 'முகப்பு',
+    features: 'அம்சங்கள்',
+    about: 'எங்களைப் பற்றி',
+    contact: 'தொடர்பு',
+    dashboard: 'டாஷ்போர்டு',
+    signOut: 'வெளியேறு',
+    admin: 'நிர்வாகம்',
+    login: 'உள்நுழை',
+    signUp: 'பதிவு செய்',
+  },
+  hero: {
+    badge: 'மேம்பட்ட AI மூலம் இயக்கப்படுகிறது',
+    titleLine1: 'AI மூலம்',
+    titleLine2: 'அனைவருக்கும் நீதி',
+    subtitle: 'செயற்கை நுண்ணறிவையும் சட்ட நிபுணத்துவத்தையும் இணைத்து அனைவருக்கும் நீதியை அணுகக்கூடியதாக்கும் தளம் NyaAI.',
+    assistantTitle: 'AI சட்ட உதவியாளர் (Legal Assistant)',
+    assistantDescription: '24/7 அறிவார்ந்த சட்ட வழிகாட்டல்',
+    documentTitle: 'ஆவண பகுப்பாய்வு',
+    documentDescription: 'சட்ட ஆவணங்களின் உடனடி விளக்கம்',
+    networkTitle: 'நிபுணர் வலையமைப்பு',
+    networkDescription: 'தகுதியான வழக்கறிஞர்களுடன் (Lawyers) இணையுங்கள்',
+    goToDashboard: 'டாஷ்போர்டுக்குச் செல்',
+    getStarted: 'இலவசமாகத் தொடங்குங்கள்',
+    exploreFeatures: 'அம்சங்களைப் பாருங்கள்',
+    trustedBy: '10,000+ பயனர்களின் நம்பிக்கை',
+    soc2: 'SOC 2 இணக்கம்',
+    security: 'நிறுவன தர பாதுகாப்பு',
+  },
+  features: {
+    badge: 'சக்திவாய்ந்த அம்சங்கள்',
+    titleLine1: 'மேம்பட்ட NyaAI தொழில்நுட்பம்',
+    titleLine2: 'உங்கள் விரல் நுனியில்',
+    subtitle: 'செயற்கை நுண்ணறிவின் உதவியுடன் உங்கள் சட்ட நடைமுறைகளை எளிதாக்கி, நம்பிக்கையுடன் சரியான முடிவுகளை எடுங்கள்.',
+    learnMore: 'மேலும் அறிக',
+    chatbotTitle: 'AI சட்ட சாட்பாட்',
+    chatbotDescription: 'விரிவான சட்ட தரவுத்தளங்களில் பயிற்சி பெற்ற எங்கள் AI உதவியாளரிடமிருந்து உடனடி சட்ட ஆலோசனை பெறுங்கள்.',
+    chatbotHighlight1: '24/7 கிடைக்கும்',
+    chatbotHighlight2: 'பல மொழி ஆதரவு',
+    chatbotHighlight3: 'தீர்ப்பு முன்னுதாரணங்கள் (Case Law)',
+    summarizerTitle: 'ஆவண சுருக்கம்',
+    summarizerDescription: 'சட்ட ஆவணங்களைப் பதிவேற்றி, முக்கிய அம்சங்களையும் சாத்தியமான சிக்கல்களையும் காட்டும் AI சுருக்கத்தைப் பெறுங்கள்.',
+    summarizerHighlight1: 'PDF & DOCX ஆதரவு',
+    summarizerHighlight2: 'முக்கிய அம்சங்கள் பிரித்தெடுப்பு',
+    summarizerHighlight3: 'இடர் மதிப்பீடு',
+    schemesTitle: 'அரசு திட்ட ஆலோசகர்',
+    schemesDescription: 'உங்கள் தனிப்பட்ட மற்றும் நிதி விவரங்களின் அடிப்படையில் பொருத்தமான அரசு திட்டங்களையும் நலன்களையும் கண்டறியுங்கள்.',
+    schemesHighlight1: 'தனிப்பயன் பொருத்தம்',
+    schemesHighlight2: 'தகுதி (Eligibility) சரிபார்ப்பு',
+    schemesHighlight3: 'விண்ணப்ப வழிகாட்டல்',
+    lawyersTitle: 'அருகிலுள்ள வழக்கறிஞர் தேடல்',
+    lawyersDescription: 'உங்கள் பகுதியில் உங்கள் சட்டத் தேவைக்கேற்ற நிபுணத்துவம் கொண்ட வழக்கறிஞர்களுடன் (Lawyers) இணையுங்கள்.',
+    lawyersHighlight1: 'இருப்பிட அடிப்படையிலான தேடல்',
+    lawyersHighlight2: 'சிறப்புத் துறை (Specialization) வடிகட்டிகள்',
+    lawyersHighlight3: 'சரிபார்க்கப்பட்ட நிபுணர்கள்',
+    drafterTitle: 'சட்ட வரைவு ஸ்டுடியோ',
+    drafterDescription: 'எளிய படிவத்திலிருந்து சட்ட அறிவிப்புகள், தகவல் அறியும் உரிமை மனுக்கள், நுகர்வோர் புகார்கள், வாடகை ஒப்பந்தங்கள் மற்றும் பிரமாணப் பத்திரங்களை உருவாக்குங்கள்.',
+    drafterHighlight1: 'அறிவிப்புகள், RTI & புகார்கள்',
+    drafterHighlight2: 'திருத்தம் & பதிப்புகள்',
+    drafterHighlight3: 'Word & PDF ஏற்றுமதி',
+    ctaTitle: 'உங்கள் சட்ட அனுபவத்தை மாற்றத் தயாரா?',
+    ctaSubtitle: 'ஆயிரக்கணக்கான பயனர்கள் ஏற்கனவே எங்கள் AI சட்ட தளத்தால் பயனடைகிறார்கள். புத்திசாலித்தனமான சட்டத் தீர்வுகளை நோக்கி இன்றே பயணத்தைத் தொடங்குங்கள்.',
+    startTrial: 'இலவச சோதனையைத் தொடங்கு',
+    tryAnalyzer: 'ஆவண பகுப்பாய்வியை முயற்சிக்கவும்',
+  },
+  auth: {
+    welcome: 'வரவேற்கிறோம்',
+    tagline: 'AI மூலம் அனைவருக்கும் நீதி',
+    getStarted: 'தொடங்குங்கள்',
+    subtitle: 'உங்கள் கணக்கில் உள்நுழையுங்கள் அல்லது புதிய கணக்கை உருவாக்குங்கள்',
+    signIn: 'உள்நுழை',
+    signingIn: 'உள்நுழைகிறது...',
+    signUp: 'பதிவு செய்',
+    email: 'மின்னஞ்சல்',
+    emailPlaceholder: 'உங்கள் மின்னஞ்சலை உள்ளிடவும்',
+    password: 'கடவுச்சொல்',
+    passwordPlaceholder: 'உங்கள் கடவுச்சொல்லை உள்ளிடவும்',
+    fullName: 'முழு பெயர்',
+    fullNamePlaceholder: 'உங்கள் முழு பெயரை உள்ளிடவும்',
+    accountType: 'கணக்கு வகை',
+    accountTypePlaceholder: 'கணக்கு வகையைத் தேர்ந்தெடுக்கவும்',
+    roleUser: 'பயனர் - சட்ட உதவி தேவை',
+    roleLawyer: 'வழக்கறிஞர் (Lawyer) - சட்ட நிபுணர்',
+    createPasswordPlaceholder: 'கடவுச்சொல்லை உருவாக்கவும்',
+    confirmPassword: 'கடவுச்சொல்லை உறுதிப்படுத்தவும்',
+    confirmPasswordPlaceholder: 'கடவுச்சொல்லை மீண்டும் உள்ளிடவும்',
+    professionalDetails: 'தொழில்முறை விவரங்கள்',
+    licenseNumber: 'உரிம எண் (License Number) *',
+    licenseNumberPlaceholder: 'பார் உரிம (Bar License) எண்',
+    experience: 'அனுபவம் (ஆண்டுகள்)',
+    experiencePlaceholder: 'ஆண்டுகள்',
+    specialization: 'முதன்மை சிறப்புத் துறை (Specialization) *',
+    specializationPlaceholder: 'சிறப்புத் துறையைத் தேர்ந்தெடுக்கவும்',
+    specCriminal: 'குற்றவியல் சட்டம் (Criminal Law)',
+    specCivil: 'உரிமையியல் சட்டம் (Civil Law)',
+    specCorporate: 'நிறுவனச் சட்டம் (Corporate Law)',
+    specFamily: 'குடும்பச் சட்டம் (Family Law)',
+    specProperty: 'சொத்துச் சட்டம் (Property Law)',
+    specLabor: 'தொழிலாளர் சட்டம் (Labour Law)',
+    specTax: 'வரிச் சட்டம் (Tax Law)',
+    specImmigration: 'குடியேற்றச் சட்டம் (Immigration Law)',
+    specIntellectual: 'அறிவுசார் சொத்து (Intellectual Property)',
+    specEnvironmental: 'சுற்றுச்சூழல் சட்டம் (Environmental Law)',
+    courtLevel: 'நீதிமன்ற நிலை அனுபவம்',
+    courtLevelPlaceholder: 'நீதிமன்ற நிலையைத் தேர்ந்தெடுக்கவும்',
+    courtDistrict: 'மாவட்ட நீதிமன்றம் (District Court)',
+    courtSessions: 'அமர்வு நீதிமன்றம் (Sessions Court)',
+    courtHigh: 'உயர் நீதிமன்றம் (High Court)',
+    courtSupreme: 'உச்ச நீதிமன்றம் (Supreme Court)',
+    courtTribunal: 'தீர்ப்பாயம் (Tribunal)',
+    courtAll: 'அனைத்து நிலைகளும்',
+    phone: 'தொலைபேசி எண்',
+    phonePlaceholder: 'உங்கள் தொடர்பு எண்',
+    location: 'நகரம்/இடம்',
+    locationPlaceholder: 'பணிபுரியும் இடம்',
+    barAssociation: 'வழக்கறிஞர் சங்கம் (Bar Association)',
+    barAssociationPlaceholder: 'மாநில பார் கவுன்சில் (State Bar Council)',
+    practiceAreas: 'கூடுதல் பணித் துறைகள்',
+    practiceAreasPlaceholder: 'பிற பணித் துறைகள் (விருப்பத்தேர்வு)',
+    createAccount: 'கணக்கை உருவாக்கு',
+    creatingAccount: 'கணக்கு உருவாக்கப்படுகிறது...',
+    clearCache: 'சிக்கலா? கேஷை அழித்து மீண்டும் முயற்சிக்கவும்',
+    clearCacheHint: 'உள்நுழைய முடியாவிட்டால் இதைப் பயன்படுத்தவும்',
+    cacheCleared: 'கேஷ் அழிக்கப்பட்டது',
+    cacheClearedDescription: '{count} அங்கீகார உருப்படிகள் அழிக்கப்பட்டன. மீண்டும் உள்நுழைய முயற்சிக்கவும்.',
+    signInFailed: 'உள்நுழைவு தோல்வியடைந்தது',
+    welcomeBack: 'மீண்டும் வரவேற்கிறோம்!',
+    signedIn: 'வெற்றிகரமாக உள்நுழைந்தீர்கள்.',
+    error: 'பிழை',
+    unexpectedError: 'எதிர்பாராத பிழை ஏற்பட்டது.',
+    passwordMismatch: 'கடவுச்சொற்கள் பொருந்தவில்லை',
+    passwordMismatchDescription: 'இரண்டு கடவுச்சொற்களும் ஒன்றாக இல்லை.',
+    weakPassword: 'பலவீனமான கடவுச்சொல்',
+    weakPasswordDescription: 'கடவுச்சொல் குறைந்தது 6 எழுத்துகள் இருக்க வேண்டும்.',
+    signUpFailed: 'பதிவு தோல்வியடைந்தது',
+    accountCreated: 'கணக்கு உருவாக்கப்பட்டது!',
+    accountCreatedDescription: 'NyaAI-க்கு வரவேற்கிறோம்! உங்கள் கணக்கு உருவாக்கப்பட்டது.',
+  },
+  dashboard: {
+    loading: 'உங்கள் டாஷ்போர்டு ஏற்றப்படுகிறது...',
+    title: 'டாஷ்போர்டு',
+    welcome: 'மீண்டும் வரவேற்கிறோம், {name}! 👋',
+    totalConversations: 'மொத்த உரையாடல்கள்',
+    aiLegalAdvisor: 'AI சட்ட ஆலோசகர்',
+    messagesExchanged: 'பரிமாறப்பட்ட செய்திகள்',
+    withAiAssistant: 'AI உதவியாளருடன்',
+    schemesSaved: 'சேமித்த திட்டங்கள்',
+    governmentPrograms: 'அரசு திட்டங்கள்',
+    accountStatus: 'கணக்கு நிலை',
+    active: 'செயலில்',
+    memberSince: '{date} முதல் உறுப்பினர்',
+    activityThisWeek: 'இந்த வாரச் செயல்பாடு',
+    activityDescription: 'உங்கள் தினசரி உரையாடல் செயல்பாடு',
+    chatCountOne: '{count} அரட்டை',
+    chatCountOther: '{count} அரட்டைகள்',
+    recentActivity: 'சமீபத்திய செயல்பாடு',
+    recentActivityDescription: 'உங்கள் சமீபத்திய தொடர்புகள்',
+    noActivity: 'சமீபத்திய செயல்பாடு இல்லை',
+    noActivityHint: 'செயல்பாட்டைக் காண ஒரு உரையாடலைத் தொடங்குங்கள்',
+    myDocuments: 'எனது ஆவணங்கள்',
+    documentSummarized: 'சுருக்கம் தயார்: {title}',
+    documentUploaded: 'பதிவேற்றப்பட்டது: {title}',
+    justNow: 'இப்போது',
+    minutesAgo: '{count} நிமிடங்களுக்கு முன்',
+    hoursAgo: '{count} மணி நேரத்திற்கு முன்',
+    daysAgo: '{count} நாட்களுக்கு முன்',
+    visitWebsite: 'அதிகாரப்பூர்வ இணையதளத்தைப் பார்வையிடவும்',
+    profileInformation: 'சுயவிவரத் தகவல்',
+    profileDescription: 'உங்கள் தனிப்பட்ட விவரங்களையும் விருப்பங்களையும் நிர்வகிக்கவும்',
+    editProfile: 'சுயவிவரத்தைத் திருத்து',
+    fullName: 'முழு பெயர்',
+    email: 'மின்னஞ்சல் முகவரி',
+    phone: 'தொலைபேசி எண்',
+    phonePlaceholder: 'உங்கள் தொலைபேசி எண்ணை உள்ளிடவும்',
+    location: 'இடம்',
+    locationPlaceholder: 'உங்கள் இடத்தை உள்ளிடவும்',
+    preferredLanguage: 'விருப்ப மொழி',
+    preferredLanguageHint: 'அரட்டை, ஆவண சுருக்கம் மற்றும் திட்ட முடிவுகளை NyaAI இந்த மொழியில் வழங்கும்',
+    getStartedAi: 'AI வழக்கறிஞருடன் தொடங்குங்கள்',
+    profileUpdated: 'சுயவிவரம் புதுப்பிக்கப்பட்டது',
+    profileUpdatedDescription: 'உங்கள் சுயவிவரம் வெற்றிகரமாகப் புதுப்பிக்கப்பட்டது',
+    updateFailed: 'புதுப்பிப்பு தோல்வியடைந்தது',
+    updateFailedDescription: 'சுயவிவரத்தைப் புதுப்பிக்க முடியவில்லை',
+    upcomingDeadlines: 'வரவிருக்கும் காலக்கெடுக்கள்',
+    upcomingDeadlinesDescription: 'நீங்கள் கண்காணிக்கத் தேர்ந்தெடுத்த உங்கள் ஆவணங்களின் தேதிகள்',
+    noReminders: 'வரவிருக்கும் காலக்கெடு எதுவும் இல்லை',
+    noRemindersHint: 'ஒரு ஆவணத்தைத் திறந்து அதன் தேதிகளை நினைவூட்டல்களில் சேர்க்கவும்',
+    overdueBy: '{count} நாட்கள் தாமதம்',
+    overdueYesterday: 'நேற்று கடைசி நாள்',
+    dueToday: 'இன்று கடைசி நாள்',
+    dueTomorrow: 'நாளை கடைசி நாள்',
+    dueInDays: '{count} நாட்களில்',
+    markDone: 'முடிந்ததாகக் குறி',
+    removeReminder: 'நினைவூட்டலை நீக்கு',
+    downloadCalendar: '.ics பதிவிறக்கு',
+    openDocument: 'ஆவணத்தைத் திற',
+    reminderUpdateFailed: 'நினைவூட்டலைப் புதுப்பிக்க முடியவில்லை',
+    moreReminders: '+{count} மேலும்',
+    schemeTracker: 'திட்ட விண்ணப்பங்கள்',
+    schemeTrackerDescription: 'சேமித்த திட்டங்களை பரிந்துரையிலிருந்து முடிவு வரை நகர்த்தி, ஆவணங்களைத் தயாராக வைத்திருங்கள்',
+    schemeTrackerEmpty: 'இன்னும் எந்தத் திட்டமும் சேமிக்கப்படவில்லை',
+    schemeTrackerEmptyHint: 'நீங்கள் தகுதியுள்ள திட்டங்களைச் சேமித்து இங்கே உங்கள் விண்ணப்பங்களைக் கண்காணியுங்கள்',
+    findSchemes: 'திட்டங்களைத் தேடு',
+    statusSuggested: 'சேமிக்கப்பட்டது',
+    statusApplied: 'விண்ணப்பிக்கப்பட்டது',
+    statusApproved: 'அங்கீகரிக்கப்பட்டது',
+    statusRejected: 'நிராகரிக்கப்பட்டது',
+    dropHere: 'திட்டங்களை இங்கே இழுக்கவும்',
+    documentsProgress: '{done}/{total} ஆவணங்கள் தயார்',
+    appliedOnDate: 'விண்ணப்பம் {date}',
+    decidedOnDate: 'முடிவு {date}',
+    schemeDeadline: 'கடைசி தேதி: {date}',
+    howToApply: 'விண்ணப்பிக்கும் முறை',
+    applicationStatus: 'நிலை',
+    referenceNumber: 'விண்ணப்பக் குறிப்பு எண்',
+    referenceNumberPlaceholder: 'எ.கா. ஒப்புகை அல்லது பதிவு எண்',
+    appliedOn: 'விண்ணப்பித்த தேதி',
+    decidedOn: 'முடிவு தேதி',
+    applicationNotes: 'குறிப்புகள்',
+    requiredDocuments: 'ஆவணப் பட்டியல்',
+    noDocumentsListed: 'இந்தத் திட்டத்திற்கு ஆவணங்கள் பட்டியலிடப்படவில்லை; தேவையானவற்றைச் சேர்க்கவும்',
+    addDocument: 'ஆவணம் சேர்',
+    removeDocument: 'பட்டியலிலிருந்து நீக்கு',
+    uploadProof: 'சான்றைப் பதிவேற்று',
+    viewProof: 'சான்றைப் பார்',
+    removeProof: 'சான்றை நீக்கு',
+    proofInvalid: '10MB-க்குக் குறைவான PDF, JPG, PNG அல்லது WebP கோப்பைப் பதிவேற்றவும்',
+    decidedBeforeApplied: 'முடிவு தேதி விண்ணப்பத் தேதிக்கு முன் இருக்க முடியாது',
+    applicationUpdateFailed: 'திட்ட விண்ணப்பத்தைப் புதுப்பிக்க முடியவில்லை',
+    removeFromTracker: 'திட்டத்தை நீக்கு',
+    removeFromTrackerConfirm: '"{name}" அதன் ஆவணப் பட்டியல் மற்றும் பதிவேற்றிய சான்றுகளுடன் நீங்கள் சேமித்த திட்டங்களிலிருந்து நீக்கப்படும்.',
+    schemeAlerts: 'திட்ட எச்சரிக்கைகள்',
+    schemeAlertsDescription: 'புதிய திட்டங்கள் உங்கள் சுயவிவரத்துடன் பொருந்தும்போது அல்லது பொருந்தும் திட்டம் விரைவில் முடியும்போது அறிவிப்பைப் பெறுங்கள்',
+    householdMembersSaved: 'சேமித்த {count} குடும்ப உறுப்பினர்களுக்குப் பொருத்துகிறது',
+    householdMembersMissing: 'இன்னும் குடும்ப உறுப்பினர்கள் சேமிக்கப்படவில்லை',
+    householdUpdated: 'கடைசியாகப் புதுப்பித்தது {date}',
+    householdHint: 'பொருத்தத்தைத் தொடங்க திட்டங்கள் பக்கத்தில் உங்களையும் உங்கள் குடும்பத்தையும் சேமியுங்கள்',
+    manageHousehold: 'குடும்பத்தை நிர்வகி',
+    alertFrequency: 'எவ்வளவு அடிக்கடி சரிபார்க்க வேண்டும்',
+    alertsOff: 'முடக்கு',
+    alertsDaily: 'தினமும்',
+    alertsWeekly: 'வாராந்திர',
+    alertDeadlineDays: 'கடைசி தேதி எச்சரிக்கை',
+    withinDays: '{count} நாட்களுக்குள்',
+    alertEmail: 'மின்னஞ்சலிலும் அனுப்பு',
+    alertsLastChecked: 'கடைசியாகச் சரிபார்த்தது {date}',
+    alertsNotCheckedYet: 'உங்கள் முதல் சரிபார்ப்பு அடுத்த திட்டமிட்ட நேரத்தில் நடக்கும்',
+    alertSettingsFailed: 'உங்கள் எச்சரிக்கை அமைப்புகளைச் சேமிக்க முடியவில்லை',
+  },
+  notifications: {
+    title: 'அறிவிப்புகள்',
+    markAllRead: 'அனைத்தையும் படித்ததாகக் குறி',
+    empty: 'இன்னும் அறிவிப்புகள் இல்லை',
+    emptyHint: 'புதிய மற்றும் முடிவடையும் திட்டங்களைப் பற்றி அறிய டாஷ்போர்டில் திட்ட எச்சரிக்கைகளை இயக்குங்கள்',
+    newScheme: 'உங்களுக்கான புதிய திட்டம்',
+    schemeDeadline: 'விரைவில் முடிகிறது',
+    applyBy: '{date}க்குள் விண்ணப்பிக்கவும்',
+    dismiss: 'நீக்கு',
+    appointmentBooked: 'புதிய முன்பதிவு',
+    appointmentRescheduled: 'ஆலோசனை நேரம் மாற்றப்பட்டது',
+    appointmentCancelled: 'ஆலோசனை ரத்து',
+    appointmentReminder: 'விரைவில்',
+  },
+  lawyerDashboard: {
+    loading: 'டாஷ்போர்டு ஏற்றப்படுகிறது...',
+    title: 'வழக்கறிஞர் (Lawyer) டாஷ்போர்டு',
+    welcome: 'மீண்டும் வரவேற்கிறோம், {name}!',
+    newMessages: 'புதிய செய்திகள் காத்திருக்கின்றன',
+    tabOverview: 'கண்ணோட்டம்',
+    tabCases: 'வழக்குகள் (Cases)',
+    tabRequests: 'கட்சிக்காரர் கோரிக்கைகள் ({count})',
+    tabMessages: 'செய்திகள் ({count})',
+    tabProfile: 'சுயவிவரம்',
+    last7Days: 'கடந்த 7 நாட்கள்',
+    last30Days: 'கடந்த 30 நாட்கள்',
+    allTime: 'எல்லா காலமும்',
+    totalCases: 'மொத்த வழக்குகள் (Cases)',
+    activeCount: '{count} செயலில்',
+    totalClients: 'மொத்த கட்சிக்காரர்கள் (Clients)',
+    uniqueClients: 'தனித்த கட்சிக்காரர்கள்',
+    casesWon: 'வென்ற வழக்குகள் (Cases Won)',
+    lostCount: '{count} தோல்வி',
+    pendingRequests: 'நிலுவையில் உள்ள கோரிக்கைகள்',
+    awaitingResponse: 'பதிலுக்காகக் காத்திருக்கிறது',
+    casesByStatus: 'நிலை வாரியாக வழக்குகள்',
+    casesByStatusDescription: 'வெவ்வேறு நிலைகளில் வழக்குகளின் பரவல்',
+    monthlyTrend: 'மாதாந்திரப் போக்கு',
+    monthlyTrendDescription: 'கடந்த 6 மாதங்களில் உருவாக்கப்பட்ட வழக்குகள்',
+    noPendingRequests: 'நிலுவையில் கோரிக்கைகள் இல்லை',
+    requestedAt: 'கோரப்பட்டது: {date}',
+    accept: 'ஏற்றுக்கொள்',
+    reject: 'நிராகரி',
+    activeConversations: 'செயலில் உள்ள உரையாடல்கள்',
+    conversationCount: '{count} உரையாடல்கள்',
+    selectConversation: 'ஒரு உரையாடலைத் தேர்ந்தெடுக்கவும்',
+    profileSettings: 'சுயவிவர அமைப்புகள்',
+    profileSettingsDescription: 'உங்கள் சுயவிவரத் தகவலைப் புதுப்பிக்கவும்',
+    tabReviews: 'மதிப்பாய்வுகள் ({count})',
+    clientReviews: 'வாடிக்கையாளர் மதிப்பாய்வுகள்',
+    clientReviewsDescription: 'வழக்குகள் முடிவடைந்த வாடிக்கையாளர்களின் சரிபார்க்கப்பட்ட மதிப்பாய்வுகள். நன்றி சொல்ல அல்லது கருத்துக்குப் பதிலளிக்கப் பதில் எழுதுங்கள்.',
+  },
+  reviews: {
+    rateYourLawyers: 'உங்கள் வழக்கறிஞர்களை மதிப்பிடுங்கள்',
+    rateYourLawyersDescription: 'முடிவடைந்த உங்கள் வழக்குகள் எப்படி இருந்தன என்று மற்றவர்களுக்குச் சொல்லுங்கள். முடிவடைந்த வழக்கு உள்ள வாடிக்கையாளர்கள் மட்டுமே வழக்கறிஞரை மதிப்பாய்வு செய்ய முடியும்.',
+    yourLawyer: 'உங்கள் வழக்கறிஞர்',
+    caseConcluded: '{date} அன்று முடிந்தது',
+    writeReview: 'மதிப்பாய்வு எழுதுங்கள்',
+    editReview: 'மதிப்பாய்வைத் திருத்து',
+    deleteReview: 'மதிப்பாய்வை நீக்கு',
+    yourRating: 'உங்கள் மதிப்பீடு',
+    chooseRating: 'நட்சத்திர மதிப்பீட்டைத் தேர்ந்தெடுக்கவும்',
+    commentLabel: 'உங்கள் மதிப்பாய்வு',
+    commentPlaceholder: 'எது நன்றாக இருந்தது, எது இன்னும் சிறப்பாக இருந்திருக்கலாம்?',
+    submitReview: 'மதிப்பாய்வைச் சமர்ப்பி',
+    reviewSaved: 'உங்கள் மதிப்பாய்வுக்கு நன்றி',
+    reviewDeleted: 'மதிப்பாய்வு நீக்கப்பட்டது',
+    reviewFailed: 'உங்கள் மதிப்பாய்வைச் சேமிக்க முடியவில்லை',
+    reviewCount: '{count} மதிப்பாய்வுகள்',
+    outOf5: '5க்கு {rating}',
+    noReviews: 'இன்னும் மதிப்பாய்வுகள் இல்லை',
+    noReviewsHint: 'இந்த வழக்கறிஞருடன் வழக்குகள் முடிவடைந்த வாடிக்கையாளர்களிடமிருந்து மதிப்பாய்வுகள் வருகின்றன',
+    verifiedClient: 'சரிபார்க்கப்பட்ட வாடிக்கையாளர்',
+    anonymousClient: 'வாடிக்கையாளர்',
+    lawyerReply: 'வழக்கறிஞரின் பதில்',
+    reply: 'பதிலளி',
+    editReply: 'பதிலைத் திருத்து',
+    replyPlaceholder: 'வாடிக்கையாளருக்கு நன்றி சொல்லுங்கள் அல்லது அவர்களின் கருத்துக்குப் பதிலளியுங்கள்',
+    saveReply: 'பதிலை வெளியிடு',
+    removeReply: 'பதிலை நீக்கு',
+    replyFailed: 'உங்கள் பதிலைச் சேமிக்க முடியவில்லை',
+    hiddenByModerator: 'மதிப்பீட்டாளரால் மறைக்கப்பட்டது: {reason}',
+    hiddenNoReason: 'மதிப்பீட்டாளரால் மறைக்கப்பட்டது',
+    showMore: 'மேலும் மதிப்பாய்வுகளைக் காட்டு',
+    loadFailed: 'மதிப்பாய்வுகளை ஏற்ற முடியவில்லை',
+  },
+  appointments: {
+    title: 'வரவிருக்கும் ஆலோசனைகள்',
+    clientDescription: 'வழக்கறிஞர்களுடன் நீங்கள் முன்பதிவு செய்த ஆலோசனைகள். நேரங்கள் இந்திய நிலையான நேரத்தில் உள்ளன.',
+    lawyerDescription: 'உங்கள் பணி நேரத்தில் வாடிக்கையாளர்கள் முன்பதிவு செய்த ஆலோசனைகள். நேரங்கள் இந்திய நிலையான நேரத்தில் உள்ளன.',
+    empty: 'வரவிருக்கும் ஆலோசனைகள் இல்லை',
+    clientEmptyHint: 'வழக்கறிஞரைக் கண்டறி பக்கத்திலிருந்து ஒரு வழக்கறிஞருடன் நேரத்தை முன்பதிவு செய்யுங்கள்',
+    lawyerEmptyHint: 'வாடிக்கையாளர்கள் உங்களை முன்பதிவு செய்ய, சுயவிவரத் தாவலில் உங்கள் பணி நேரத்தை வெளியிடுங்கள்',
+    findLawyer: 'வழக்கறிஞரைக் கண்டறி',
+    modeInPerson: 'நேரில்',
+    modePhone: 'தொலைபேசி அழைப்பு',
+    modeVideo: 'வீடியோ அழைப்பு',
+    withName: '{name} உடன்',
+    yourLawyer: 'உங்கள் வழக்கறிஞர்',
+    yourClient: 'உங்கள் வாடிக்கையாளர்',
+    showAll: 'அனைத்தையும் காட்டு ({count})',
+    showFewer: 'குறைவாகக் காட்டு',
+    minutes: '{count} நிமிடம்',
+    rescheduled: 'நேரம் மாற்றப்பட்டது',
+    clientNotes: 'விவாதிக்க வேண்டியது',
+    addToCalendar: 'நாட்காட்டியில் சேர்',
+    reschedule: 'நேரத்தை மாற்று',
+    cancel: 'ரத்து செய்',
+    changesClosed: 'தொடங்குவதற்கு {hours} மணிநேரம் முன்பு மாற்றங்கள் மூடப்படும்',
+    rescheduleLimitReached: 'ஏற்கனவே {count} முறை நேரம் மாற்றப்பட்டது',
+    cancelTitle: 'இந்த ஆலோசனையை ரத்து செய்யவா?',
+    cancelDescription: '{name} அவர்களுக்குத் தெரிவிக்கப்படும், நேரம் மற்றவர்களுக்குக் கிடைக்கும்.',
+    cancelReason: 'காரணம்',
+    cancelReasonPlaceholder: 'காரணத்தை அவர்களுக்குத் தெரிவியுங்கள்',
+    reasonRequired: 'ஏன் ரத்து செய்கிறீர்கள் என்பதை உங்கள் வாடிக்கையாளருக்குத் தெரிவியுங்கள்',
+    keepAppointment: 'வைத்திரு',
+    confirmCancel: 'ஆலோசனையை ரத்து செய்',
+    cancelled: 'ஆலோசனை ரத்து செய்யப்பட்டது',
+    cancelFailed: 'ஆலோசனையை ரத்து செய்ய முடியவில்லை',
+    loadFailed: 'உங்கள் ஆலோசனைகளை ஏற்ற முடியவில்லை',
+    bookTitle: '{name} உடன் ஆலோசனையை முன்பதிவு செய்யுங்கள்',
+    rescheduleTitle: '{name} உடனான உங்கள் ஆலோசனையின் நேரத்தை மாற்றுங்கள்',
+    timesInIst: 'நேரங்கள் இந்திய நிலையான நேரத்தில் (IST) உள்ளன',
+    day: 'நாள்',
+    time: 'நேரம்',
+    consultationType: 'ஆலோசனை வகை',
+    notes: 'எதைப் பற்றி விவாதிக்க விரும்புகிறீர்கள்? (விருப்பத்தேர்வு)',
+    notesPlaceholder: 'உங்கள் வழக்கைப் பற்றிய ஓரிரு வரிகள் வழக்கறிஞர் தயாராக உதவும்',
+    noSlots: 'அடுத்த {days} நாட்களில் காலியான நேரம் இல்லை',
+    noSlotsHint: 'இந்த வழக்கறிஞர் பணி நேரத்தை வெளியிடவில்லை அல்லது எல்லா நேரங்களும் முன்பதிவாகிவிட்டன. அதற்குப் பதிலாக அவருக்குக் கோரிக்கை அனுப்புங்கள்.',
+    policy: 'தொடங்குவதற்கு {hours} மணிநேரம் முன்பு வரை நேரத்தை மாற்றலாம் அல்லது ரத்து செய்யலாம்; ஒவ்வொரு ஆலோசனையின் நேரத்தையும் அதிகபட்சம் {count} முறை மாற்றலாம்.',
+    bookSlot: 'நேரத்தை முன்பதிவு செய்',
+    confirmBooking: '{day}, {time} முன்பதிவு செய்',
+    confirmReschedule: '{day}, {time} க்கு மாற்று',
+    booking: 'முன்பதிவு செய்கிறது...',
+    booked: 'ஆலோசனை முன்பதிவு செய்யப்பட்டது',
+    bookedDescription: '{day} அன்று {time} IST. ஒரு நாள் முன்பு நினைவூட்டல் வரும்.',
+    moved: 'ஆலோசனையின் நேரம் மாற்றப்பட்டது',
+    movedDescription: 'இப்போது {day} அன்று {time} IST.',
+    bookingFailed: 'இந்த நேரத்தை முன்பதிவு செய்ய முடியவில்லை',
+    slotsFailed: 'காலியான நேரங்களை ஏற்ற முடியவில்லை',
+  },
+};
+
+export default ta;
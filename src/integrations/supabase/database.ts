@@ -0,0 +1,95 @@
+/**
+ * The generated Database types with the columns the schema cannot describe narrowed to the
+ * app's types: text columns limited by a CHECK constraint become unions, and jsonb columns get
+ * the shape the app and the edge functions write. types.ts stays exactly as generated; when a
+ * new column needs a narrower type, add it to the overrides below instead of casting rows.
+ */
+import type { Database as GeneratedDatabase } from './types';
+import type { Appointment } from '@/lib/appointments';
+import type { Citation, DocumentCitation } from '@/lib/citations';
+import type { ClauseAnalysis } from '@/lib/clauses';
+import type { DeadlineAnalysis, Reminder } from '@/lib/deadlines';
+import type { StoredDocument } from '@/lib/documents';
+import type { Draft, DraftVersion } from '@/lib/drafts';
+import type { AppNotification, NotificationPreferences } from '@/lib/notifications';
+import type { DocumentComparison } from '@/lib/redline';
+import type { LawyerReview } from '@/lib/reviews';
+import type { SchemeApplication } from '@/lib/schemeApplications';
+import type { SchemeChange, SchemeInput } from '@/lib/schemeCatalog';
+import type { ApplicantProfileRow } from '@/lib/schemes';
+
+type ChatRole = { role: 'user' | 'assistant' };
+
+type AppointmentColumns = Pick<Appointment, 'mode' | 'status'>;
+
+interface TableOverrides {
+  appointments: AppointmentColumns;
+  applicant_profiles: Pick<ApplicantProfileRow, 'relationship'>;
+  chat_messages: ChatRole & { citations: Citation[] };
+  document_qa_messages: ChatRole & { citations: DocumentCitation[] };
+  documents: Pick<StoredDocument, 'status' | 'extraction_method' | 'summary_coverage' | 'ocr_pages'> & {
+    clause_analysis: ClauseAnalysis;
+    comparison: DocumentComparison;
+    deadlines: DeadlineAnalysis;
+  };
+  draft_versions: Pick<DraftVersion, 'sections' | 'source'>;
+  drafts: Pick<Draft, 'template' | 'form_data' | 'sections'>;
+  government_scheme_changes: Pick<SchemeChange, 'action' | 'source' | 'changes'>;
+  government_schemes: Pick<SchemeInput, 'gender' | 'eligibility_criteria'>;
+  lawyer_reviews: Pick<LawyerReview, 'status'>;
+  notification_preferences: Pick<NotificationPreferences, 'scheme_alerts'>;
+  notifications: Pick<AppNotification, 'kind'>;
+  reminders: Pick<Reminder, 'kind'>;
+  scheme_applications: Pick<SchemeApplication, 'status'>;
+}
+
+interface FunctionOverrides {
+  book_appointment: { Returns: AppointmentColumns };
+  cancel_appointment: { Returns: AppointmentColumns };
+  import_government_schemes: {
+    Args: { schemes: SchemeInput[] };
+    Returns: { created: number; updated: number };
+  };
+  reschedule_appointment: { Returns: AppointmentColumns };
+}
+
+type GeneratedSchema = GeneratedDatabase['public'];
+type GeneratedTables = GeneratedSchema['Tables'];
+type GeneratedFunctions = GeneratedSchema['Functions'];
+
+// Replaces the types of the given columns, keeping which columns are optional
+type WithColumns<Row, Columns> = {
+  [Key in keyof Row]: Key extends keyof Columns ? Columns[Key] : Row[Key];
+};
+
+// Narrows the columns of a row type, or replaces a scalar type such as Json outright
+type Narrow<Generated, Override> = [Generated] extends [object] ? WithColumns<Generated, Override> : Override;
+
+type Tables = {
+  [Name in keyof GeneratedTables]: Name extends keyof TableOverrides
+    ? {
+        Row: WithColumns<GeneratedTables[Name]['Row'], TableOverrides[Name]>;
+        Insert: WithColumns<GeneratedTables[Name]['Insert'], TableOverrides[Name]>;
+        Update: WithColumns<GeneratedTables[Name]['Update'], TableOverrides[Name]>;
+        Relationships: GeneratedTables[Name]['Relationships'];
+      }
+    : GeneratedTables[Name];
+};
+
+type Functions = {
+  [Name in keyof GeneratedFunctions]: Name extends keyof FunctionOverrides
+    ? {
+        [Part in keyof GeneratedFunctions[Name]]: Part extends keyof FunctionOverrides[Name]
+          ? Narrow<GeneratedFunctions[Name][Part], FunctionOverrides[Name][Part]>
+          : GeneratedFunctions[Name][Part];
+      }
+    : GeneratedFunctions[Name];
+};
+
+export type Database = {
+  [Schema in keyof GeneratedDatabase]: Schema extends 'public'
+    ? {
+        [Key in keyof GeneratedSchema]: Key extends 'Tables' ? Tables : Key extends 'Functions' ? Functions : GeneratedSchema[Key];
+      }
+    : GeneratedDatabase[Schema];
+};
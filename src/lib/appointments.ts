@@ -0,0 +1,111 @@
+/**
+ * Types, booking rules and formatting for consultation appointments. Slots come from the
+ * available_slots database function and are booked, moved and cancelled through the
+ * book_appointment, reschedule_appointment and cancel_appointment functions, which enforce the
+ * same rules as the constants below.
+ */
+import type { TranslationKey } from '@/i18n';
+import { CalendarEvent } from '@/lib/calendar';
+
+export type ConsultationMode = 'in_person' | 'phone' | 'video';
+
+export const CONSULTATION_MODES: ConsultationMode[] = ['in_person', 'phone', 'video'];
+
+export const CONSULTATION_MODE_KEYS: Record<ConsultationMode, TranslationKey> = {
+  in_person: 'appointments.modeInPerson',
+  phone: 'appointments.modePhone',
+  video: 'appointments.modeVideo',
+};
+
+// For the lawyer's schedule settings and calendar exports, which are in English
+export const CONSULTATION_MODE_LABELS: Record<ConsultationMode, string> = {
+  in_person: 'In person',
+  phone: 'Phone call',
+  video: 'Video call',
+};
+
+export type AppointmentStatus = 'confirmed' | 'cancelled';
+
+export interface Appointment {
+  id: string;
+  lawyer_id: string;
+  client_id: string;
+  starts_at: string;
+  ends_at: string;
+  mode: ConsultationMode;
+  status: AppointmentStatus;
+  notes: string | null;
+  reschedule_count: number;
+  cancellation_reason: string | null;
+  created_at: string;
+}
+
+export const APPOINTMENT_FIELDS = 'id, lawyer_id, client_id, starts_at, ends_at, mode, status, notes, reschedule_count, cancellation_reason, created_at';
+
+export interface Slot {
+  starts_at: string;
+  ends_at: string;
+}
+
+// One range of a lawyer's weekly hours; times are HH:MM or HH:MM:SS in India time
+export interface WorkingHours {
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+export interface BlockedDate {
+  id: string;
+  // YYYY-MM-DD
+  blocked_on: string;
+  reason: string | null;
+}
+
+export const SLOT_LENGTHS = [15, 20, 30, 45, 60, 90, 120];
+
+export const DEFAULT_SLOT_MINUTES = 30;
+
+// Working hours and slots are India Standard Time wherever the user is
+export const BOOKING_TIME_ZONE = 'Asia/Kolkata';
+
+// How far ahead slots are offered
+export const BOOKING_WINDOW_DAYS = 30;
+
+// Clients can reschedule or cancel until this many hours before the start
+export const CHANGE_CUTOFF_HOURS = 12;
+
+// Times a client can reschedule one appointment
+export const MAX_RESCHEDULES = 2;
+
+// YYYY-MM-DD of an instant in India time
+export const bookingDate = (date: Date | string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: BOOKING_TIME_ZONE }).format(new Date(date));
+
+export const formatSlotTime = (date: string, language: string) =>
+  new Date(date).toLocaleTimeString(language, { hour: 'numeric', minute: '2-digit', timeZone: BOOKING_TIME_ZONE });
+
+export const formatSlotDay = (date: string, language: string) =>
+  new Date(date).toLocaleDateString(language, { weekday: 'short', day: 'numeric', month: 'short', timeZone: BOOKING_TIME_ZONE });
+
+// Slots grouped by India date, in order
+export const groupSlotsByDay = (slots: Slot[]) => {
+  const days = new Map<string, Slot[]>();
+  for (const slot of slots) {
+    const day = bookingDate(slot.starts_at);
+    days.set(day, [...(days.get(day) ?? []), slot]);
+  }
+  return days;
+};
+
+// Whether the client may still reschedule or cancel; lawyers can until the start
+export const isBeforeCutoff = (appointment: Pick<Appointment, 'starts_at'>, now = Date.now()) =>
+  new Date(appointment.starts_at).getTime() - now >= CHANGE_CUTOFF_HOURS * 60 * 60 * 1000;
+
+export const appointmentToCalendarEvent = (appointment: Appointment, withName: string): CalendarEvent => ({
+  uid: `appointment-${appointment.id}`,
+  date: bookingDate(appointment.starts_at),
+  startsAt: appointment.starts_at,
+  endsAt: appointment.ends_at,
+  title: `Consultation with ${withName} (${CONSULTATION_MODE_LABELS[appointment.mode].toLowerCase()})`,
+  description: appointment.notes ?? undefined,
+});
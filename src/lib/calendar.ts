@@ -0,0 +1,114 @@
+/**
+ * iCalendar (.ics) export for deadlines and consultations, readable by Google Calendar, Outlook
+ * and Apple Calendar
+ */
+
+export interface CalendarEvent {
+  // Stable per event so importing the same file twice updates instead of duplicating
+  uid: string;
+  // YYYY-MM-DD; exported as an all-day event unless startsAt is set
+  date: string;
+  // ISO timestamps for an event at a set time, such as a consultation
+  startsAt?: string;
+  endsAt?: string;
+  title: string;
+  description?: string;
+}
+
+// Alarms before each deadline: a week ahead to act on notice periods, and the day before
+const ALARM_TRIGGERS = ['-P7D', '-P1D'];
+
+// Alarms before a timed event: the day before and an hour before
+const TIMED_ALARM_TRIGGERS = ['-P1D', '-PT1H'];
+
+// RFC 5545 text escaping
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line at 75 octets (not characters, so Devanagari and Tamil text stays valid UTF-8)
+ */
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const compactDate = (date: string) => date.replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().substring(0, 10);
+};
+
+// UTC date-time, e.g. 20251104T050000Z
+const timestamp = (date = new Date()) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const buildIcs = (events: CalendarEvent[], calendarName: string) => {
+  const stamp = timestamp();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NyaAI//Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    const startsAt = event.startsAt ? new Date(event.startsAt) : null;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid.replace(/[^\w.-]/g, '-')}@nyaai`,
+      `DTSTAMP:${stamp}`,
+      ...(startsAt
+        ? [`DTSTART:${timestamp(startsAt)}`, `DTEND:${timestamp(event.endsAt ? new Date(event.endsAt) : startsAt)}`]
+        : [`DTSTART;VALUE=DATE:${compactDate(event.date)}`, `DTEND;VALUE=DATE:${compactDate(nextDay(event.date))}`]),
+      `SUMMARY:${escapeText(event.title)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      // Timed events block out the time in the calendar; deadlines do not
+      startsAt ? 'TRANSP:OPAQUE' : 'TRANSP:TRANSPARENT',
+    );
+    for (const trigger of startsAt ? TIMED_ALARM_TRIGGERS : ALARM_TRIGGERS) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.title)}`,
+        `TRIGGER:${trigger}`,
+        'END:VALARM',
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const downloadIcs = (events: CalendarEvent[], calendarName: string, fileName: string) => {
+  const blob = new Blob([buildIcs(events, calendarName)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,59 @@
+/**
+ * Helpers for AI case briefs sent to lawyers when a chat is escalated
+ */
+
+export type CaseUrgency = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface CaseBrief {
+  title: string;
+  issue: string;
+  facts: string[];
+  jurisdiction: string;
+  urgency: CaseUrgency;
+  urgency_reason?: string;
+  specialization: string;
+  source_session_id?: string;
+  generated_at?: string;
+}
+
+export interface SuggestedLawyer {
+  user_id: string;
+  name: string;
+  avatar_url: string | null;
+  location: string;
+  specialization: string;
+  experience_years: number;
+  bio: string;
+  matches_specialization: boolean;
+}
+
+export const URGENCY_STYLES: Record<CaseUrgency, string> = {
+  low: 'bg-green-500/10 text-green-600 border-green-500/20',
+  medium: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
+  high: 'bg-orange-500/10 text-orange-600 border-orange-500/20',
+  urgent: 'bg-red-500/10 text-red-600 border-red-500/20'
+};
+
+/**
+ * Plain-text message body for a case request, readable in any chat view
+ */
+export function formatCaseBriefMessage(brief: CaseBrief, note?: string): string {
+  const lines = [
+    `📋 Case request: ${brief.title}`,
+    '',
+    `Issue: ${brief.issue}`,
+    `Jurisdiction: ${brief.jurisdiction}`,
+    `Urgency: ${brief.urgency.toUpperCase()}${brief.urgency_reason ? ` (${brief.urgency_reason})` : ''}`
+  ];
+
+  if (brief.facts.length > 0) {
+    lines.push('', 'Key facts:', ...brief.facts.map(fact => `• ${fact}`));
+  }
+
+  if (note?.trim()) {
+    lines.push('', `Note from client: ${note.trim()}`);
+  }
+
+  lines.push('', 'The full AI chat transcript is attached.');
+  return lines.join('\n');
+}
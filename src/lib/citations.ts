@@ -0,0 +1,52 @@
+/**
+ * Helpers for citations attached to AI answers: statute sections in the legal chat and
+ * page passages in document Q&A
+ */
+
+export interface Citation {
+  number: number;
+  act: string;
+  section: string;
+  title?: string | null;
+  excerpt: string;
+  source_url?: string | null;
+}
+
+export interface DocumentCitation {
+  number: number;
+  start_page: number;
+  end_page: number;
+  excerpt: string;
+}
+
+export const CITATION_HREF_PREFIX = '#cite-';
+
+/**
+ * Turn inline [n] markers into markdown links so they can be rendered as footnote buttons.
+ * Only numbers that exist in the citation list are linked, anything else is left as text.
+ */
+export function linkCitationMarkers(content: string, citations: { number: number }[] = []): string {
+  if (!citations.length) return content;
+
+  const known = new Set(citations.map(c => c.number));
+  return content.replace(/\[(\d{1,2})\](?!\()/g, (match, num) => {
+    const n = parseInt(num, 10);
+    return known.has(n) ? `[[${n}]](${CITATION_HREF_PREFIX}${n})` : match;
+  });
+}
+
+/**
+ * Short label for a citation, e.g. "IPC, Section 420"
+ */
+export function formatCitationLabel(citation: Citation): string {
+  return `${citation.act}, Section ${citation.section}`;
+}
+
+/**
+ * Page label for a document passage, e.g. "p. 4" or "pp. 4–5"
+ */
+export function formatPageLabel(citation: DocumentCitation): string {
+  return citation.start_page === citation.end_page
+    ? `p. ${citation.start_page}`
+    : `pp. ${citation.start_page}–${citation.end_page}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * Types and labels for the clause table returned by document-summarizer in "clauses" mode
+ */
+
+export type ClauseCategory = 'effective_date' | 'payment' | 'termination' | 'indemnity' | 'non_compete' | 'governing_law';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface Clause {
+  id: string;
+  category: ClauseCategory;
+  title: string;
+  summary: string;
+  risk: RiskLevel;
+  risk_reason: string;
+  quote: string;
+  page: number | null;
+  quote_verified: boolean;
+}
+
+export interface ClauseAnalysis {
+  document_type: string;
+  parties: { name: string; role: string }[];
+  governing_law: string | null;
+  clauses: Clause[];
+  skipped_pages: number[];
+  generated_at: string;
+}
+
+export const CLAUSE_CATEGORY_LABELS: Record<ClauseCategory, string> = {
+  effective_date: 'Dates & Term',
+  payment: 'Payment',
+  termination: 'Termination',
+  indemnity: 'Indemnity & Liability',
+  non_compete: 'Non-compete',
+  governing_law: 'Governing Law',
+};
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  high: 'High risk',
+  medium: 'Medium risk',
+  low: 'Low risk',
+};
+
+export const RISK_STYLES: Record<RiskLevel, string> = {
+  low: 'bg-green-500/10 text-green-600 border-green-500/20',
+  medium: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
+  high: 'bg-red-500/10 text-red-600 border-red-500/20'
+};
+
+const RISK_ORDER: Record<RiskLevel, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Red flags first, then by page
+ */
+export const sortClauses = (clauses: Clause[]) =>
+  [...clauses].sort((a, b) =>
+    RISK_ORDER[a.risk] - RISK_ORDER[b.risk] || (a.page ?? Infinity) - (b.page ?? Infinity)
+  );
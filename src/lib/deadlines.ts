@@ -0,0 +1,113 @@
+/**
+ * Types, labels and date helpers for deadlines returned by document-summarizer (after a
+ * summary or in "deadlines" mode) and for the reminders the user tracks on the Dashboard
+ */
+import { CalendarEvent } from '@/lib/calendar';
+
+export type DeadlineKind = 'notice' | 'payment' | 'renewal' | 'expiry' | 'hearing' | 'filing' | 'other';
+
+export interface DeadlineEvent {
+  id: string;
+  // YYYY-MM-DD, or null for relative deadlines such as "within 30 days of notice"
+  date: string | null;
+  date_text: string;
+  description: string;
+  party: string;
+  kind: DeadlineKind;
+  source_clause: string;
+  page: number | null;
+  quote_verified: boolean;
+}
+
+export interface DeadlineAnalysis {
+  events: DeadlineEvent[];
+  skipped_pages: number[];
+  generated_at: string;
+}
+
+export interface Reminder {
+  id: string;
+  document_id: string | null;
+  title: string;
+  description: string | null;
+  party: string | null;
+  kind: DeadlineKind;
+  due_date: string;
+  source_clause: string | null;
+  source_page: number | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export const DEADLINE_KIND_LABELS: Record<DeadlineKind, string> = {
+  notice: 'Notice period',
+  payment: 'Payment',
+  renewal: 'Renewal',
+  expiry: 'Expiry',
+  hearing: 'Hearing',
+  filing: 'Filing',
+  other: 'Other',
+};
+
+// Reminders due within this many days are highlighted
+export const DUE_SOON_DAYS = 7;
+
+const todayKey = () => {
+  const now = new Date();
+  return Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+/**
+ * Whole days from today to a YYYY-MM-DD date; negative when the date has passed
+ */
+export const daysUntil = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - todayKey()) / 86400000);
+};
+
+/**
+ * e.g. "Overdue by 3 days", "Due today", "In 12 days"
+ */
+export const describeDueDate = (date: string) => {
+  const days = daysUntil(date);
+  if (days < 0) return `Overdue by ${-days} day${days !== -1 ? 's' : ''}`;
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  return `In ${days} days`;
+};
+
+export const formatDueDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Short reminder title: the kind, and who has to act
+ */
+export const deadlineTitle = (event: Pick<DeadlineEvent, 'kind' | 'party' | 'description'>) =>
+  event.kind === 'other'
+    ? event.description.substring(0, 80)
+    : `${DEADLINE_KIND_LABELS[event.kind]}${event.party ? ` · ${event.party}` : ''}`;
+
+export const deadlineToCalendarEvent = (
+  event: DeadlineEvent,
+  date: string,
+  document: { id: string; title: string }
+): CalendarEvent => ({
+  uid: `${document.id}-${event.id}`,
+  date,
+  title: `${deadlineTitle(event)} (${document.title})`,
+  description: [
+    event.description,
+    `As written: ${event.date_text}`,
+    `Source${event.page ? ` (p. ${event.page})` : ''}: "${event.source_clause}"`,
+  ].join('\n'),
+});
+
+export const reminderToCalendarEvent = (reminder: Reminder): CalendarEvent => ({
+  uid: reminder.id,
+  date: reminder.due_date,
+  title: reminder.title,
+  description: [
+    reminder.description,
+    reminder.source_clause && `Source${reminder.source_page ? ` (p. ${reminder.source_page})` : ''}: "${reminder.source_clause}"`,
+  ].filter(Boolean).join('\n'),
+});
@@ -0,0 +1,132 @@
+/**
+ * Helpers for uploaded documents processed by the document-summarizer function
+ */
+
+export type DocumentKind = 'pdf' | 'docx' | 'txt' | 'rtf' | 'jpg' | 'png';
+
+export type DocumentStatus = 'uploaded' | 'processing' | 'extracted' | 'summarized' | 'failed';
+
+export interface StoredDocument {
+  id: string;
+  title: string;
+  file_name: string | null;
+  status: DocumentStatus;
+  page_count: number | null;
+  extraction_method: 'server' | 'client' | 'ocr' | null;
+  summary_coverage?: SummaryCoverage | null;
+  ocr_pages?: OcrPage[] | null;
+}
+
+/**
+ * OCR confidence for one page that had no text layer (0-100, mean word confidence)
+ */
+export interface OcrPage {
+  page: number;
+  confidence: number;
+}
+
+/**
+ * Which pages a summary was built from, as reported by document-summarizer
+ */
+export interface SummaryCoverage {
+  strategy: 'single-pass' | 'map-reduce';
+  unit: 'page' | 'section';
+  total: number;
+  covered: string;
+  not_covered: string;
+  empty: string;
+  chunks: number;
+}
+
+/**
+ * Progress events streamed by document-summarizer while it works
+ */
+export interface SummaryProgress {
+  stage: 'extract' | 'ocr' | 'map' | 'combine' | 'reduce' | 'compare' | 'deadlines';
+  chunk?: number;
+  total?: number;
+  round?: number;
+  label?: string;
+  message?: string;
+}
+
+export const DOCUMENTS_BUCKET = 'documents';
+
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+// Pages in documents.content are separated by a form feed
+export const PAGE_BREAK = '\f';
+
+// Value for the file input's accept attribute
+export const ACCEPTED_DOCUMENT_TYPES = '.pdf,.docx,.txt,.rtf,.jpg,.jpeg,.png';
+
+// Pages with less text than this have no usable text layer and are read with OCR
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+// OCR pages below this confidence should be checked against the original
+export const LOW_OCR_CONFIDENCE = 70;
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  uploaded: 'Uploaded',
+  processing: 'Extracting text',
+  extracted: 'Text extracted',
+  summarized: 'Summarized',
+  failed: 'Failed',
+};
+
+/**
+ * Document kind from the file extension, or null when the type is not supported
+ */
+export const getDocumentKind = (fileName: string): DocumentKind | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'jpeg') return 'jpg';
+  return extension === 'pdf' || extension === 'docx' || extension === 'txt' || extension === 'rtf' || extension === 'jpg' || extension === 'png'
+    ? extension
+    : null;
+};
+
+export const hasTextLayer = (pageText: string) => pageText.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS;
+
+/**
+ * One line describing a progress event, e.g. "Reading chunk 3 of 9 (Pages 21–30)"
+ */
+export const describeSummaryProgress = (progress: SummaryProgress) => {
+  switch (progress.stage) {
+    case 'extract':
+      return 'Extracting text';
+    case 'ocr':
+      return `Reading scanned page ${progress.chunk} of ${progress.total} with OCR`;
+    case 'map':
+      return `Reading chunk ${progress.chunk} of ${progress.total}${progress.label ? ` (${progress.label})` : ''}`;
+    case 'combine':
+      return `Combining notes, part ${progress.chunk} of ${progress.total}`;
+    case 'compare':
+      return progress.label ? `Explaining ${progress.label}` : progress.message || 'Comparing versions';
+    case 'deadlines':
+      return `Finding dates and deadlines${progress.label ? ` (${progress.label})` : ''}`;
+    default:
+      return progress.message || 'Writing summary';
+  }
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Compact page list, e.g. [1, 2, 3, 5] -> "1–3, 5"
+ */
+export const formatPageRanges = (pageNumbers: number[]) => {
+  const sorted = [...new Set(pageNumbers)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}–${sorted[i]}`);
+  }
+
+  return ranges.join(', ');
+};
@@ -0,0 +1,153 @@
+/**
+ * PDF and Word exports for drafts. Both print the section bodies only; section headings are
+ * editor labels, and a body already carries any heading that belongs in the document.
+ */
+import jsPDF from 'jspdf';
+import { AlignmentType, Document, Footer, Packer, PageNumber, Paragraph, TextRun } from 'docx';
+import { DraftSection } from '@/lib/drafts';
+
+const exportFileName = (title: string, extension: string) => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60) || 'draft';
+  return `${slug}-${new Date().toISOString().split('T')[0]}.${extension}`;
+};
+
+// Each line of a section body is printed as its own paragraph
+const bodyLines = (section: DraftSection) =>
+  section.body.split('\n').map((line) => line.trimEnd());
+
+const isNumberedLine = (line: string) => /^\s*(\d+|[a-z]|[ivx]+)[.)]\s/.test(line);
+
+/**
+ * Export as PDF. jsPDF's built-in fonts only cover Latin script, so drafts in Indian
+ * languages should be exported as Word documents instead.
+ */
+export const exportDraftPdf = (title: string, sections: DraftSection[]): string => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 25;
+  const maxWidth = pageWidth - (margin * 2);
+  const numberIndent = 6;
+  const lineHeight = 6;
+
+  // Title
+  doc.setFont('times', 'bold');
+  doc.setFontSize(14);
+  const titleLines = doc.splitTextToSize(title.toUpperCase(), maxWidth);
+  let currentY = 30;
+  titleLines.forEach((tLine: string) => {
+    doc.text(tLine, pageWidth / 2, currentY, { align: 'center' });
+    currentY += lineHeight + 1;
+  });
+  currentY += 6;
+
+  doc.setFont('times', 'normal');
+  doc.setFontSize(11);
+
+  sections.forEach((section) => {
+    bodyLines(section).forEach((line) => {
+      if (!line.trim()) {
+        currentY += lineHeight / 2;
+        return;
+      }
+
+      // Short all-caps lines are headings inside the body (e.g. "PRAYER")
+      const isHeading = line.length < 80 && line === line.toUpperCase() && /[A-Z]/.test(line);
+      const indent = isNumberedLine(line) ? numberIndent : 0;
+      doc.setFont('times', isHeading ? 'bold' : 'normal');
+
+      const wrapped = doc.splitTextToSize(line.trim(), maxWidth - indent);
+      wrapped.forEach((wLine: string) => {
+        if (currentY + lineHeight > pageHeight - 25) {
+          doc.addPage();
+          currentY = margin;
+        }
+        doc.text(wLine, margin + indent, currentY);
+        currentY += lineHeight;
+      });
+    });
+
+    // Space between sections
+    currentY += lineHeight;
+  });
+
+  // Page numbers on all pages
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFont('times', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(`Page ${i} of ${totalPages}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+  }
+
+  const filename = exportFileName(title, 'pdf');
+  doc.save(filename);
+  return filename;
+};
+
+/**
+ * Export as an editable Word document (.docx) in Times New Roman on A4
+ */
+export const exportDraftDocx = async (title: string, sections: DraftSection[]): Promise<string> => {
+  const paragraphs: Paragraph[] = [
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 360 },
+      children: [new TextRun({ text: title.toUpperCase(), bold: true, size: 28 })],
+    }),
+  ];
+
+  sections.forEach((section) => {
+    const lines = bodyLines(section);
+    lines.forEach((line, index) => {
+      const isHeading = line.length < 80 && line === line.toUpperCase() && /[A-Z]/.test(line);
+      paragraphs.push(new Paragraph({
+        alignment: isHeading ? AlignmentType.CENTER : AlignmentType.JUSTIFIED,
+        indent: isNumberedLine(line) ? { left: 360 } : undefined,
+        // Extra space after the last line of a section
+        spacing: { after: index === lines.length - 1 ? 240 : 80 },
+        children: [new TextRun({ text: line.trim(), bold: isHeading })],
+      }));
+    });
+  });
+
+  const wordDocument = new Document({
+    title,
+    styles: {
+      default: {
+        document: { run: { font: 'Times New Roman', size: 24 } },
+      },
+    },
+    sections: [{
+      properties: {
+        page: {
+          // A4 with 1 inch margins, in twentieths of a point
+          size: { width: 11906, height: 16838 },
+          margin: { top: 1440, right: 1440, bottom: 1440, left: 1440 },
+        },
+      },
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], size: 16 })],
+          })],
+        }),
+      },
+      children: paragraphs,
+    }],
+  });
+
+  const blob = await Packer.toBlob(wordDocument);
+  const filename = exportFileName(title, 'docx');
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+  return filename;
+};
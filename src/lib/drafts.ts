@@ -0,0 +1,161 @@
+/**
+ * Templates, guided form fields and types for the drafting studio. Field keys match the
+ * required fields and section plans of the legal-drafter edge function.
+ */
+
+export type DraftTemplate = 'legal_notice' | 'rti_application' | 'consumer_complaint' | 'rent_agreement' | 'affidavit';
+
+export type DraftVersionSource = 'generated' | 'regenerated' | 'edited' | 'restored';
+
+export interface DraftSection {
+  heading: string;
+  body: string;
+}
+
+export interface Draft {
+  id: string;
+  template: DraftTemplate;
+  title: string;
+  language: string;
+  form_data: Record<string, string>;
+  sections: DraftSection[];
+  current_version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DraftVersion {
+  id: string;
+  version: number;
+  title: string;
+  sections: DraftSection[];
+  source: DraftVersionSource;
+  note: string | null;
+  created_at: string;
+}
+
+export interface DraftField {
+  key: string;
+  label: string;
+  type: 'text' | 'textarea' | 'number' | 'date' | 'select';
+  required?: boolean;
+  placeholder?: string;
+  hint?: string;
+  options?: string[];
+  defaultValue?: string;
+}
+
+export interface DraftTemplateDefinition {
+  key: DraftTemplate;
+  name: string;
+  description: string;
+  fields: DraftField[];
+}
+
+export const DRAFT_TEMPLATES: DraftTemplateDefinition[] = [
+  {
+    key: 'legal_notice',
+    name: 'Legal notice',
+    description: 'Demand payment, refund, vacating or action before going to court',
+    fields: [
+      { key: 'sender_name', label: 'Your name', type: 'text', required: true },
+      { key: 'sender_address', label: 'Your address', type: 'textarea', required: true },
+      { key: 'recipient_name', label: 'Send notice to', type: 'text', required: true, placeholder: 'Person or company name' },
+      { key: 'recipient_address', label: 'Their address', type: 'textarea', required: true },
+      { key: 'subject', label: 'Subject', type: 'text', required: true, placeholder: 'e.g. Refund of security deposit of Rs. 50,000' },
+      { key: 'facts', label: 'What happened', type: 'textarea', required: true, hint: 'Dates, amounts and what was agreed, in the order they happened' },
+      { key: 'demand', label: 'What you want them to do', type: 'textarea', required: true, placeholder: 'e.g. Pay Rs. 50,000 with 12% interest' },
+      { key: 'compliance_days', label: 'Days to comply', type: 'number', defaultValue: '15' },
+      { key: 'advocate_name', label: 'Advocate (if sent through one)', type: 'text' },
+    ],
+  },
+  {
+    key: 'rti_application',
+    name: 'RTI application',
+    description: 'Ask a public authority for information under Section 6 of the RTI Act, 2005',
+    fields: [
+      { key: 'applicant_name', label: 'Your name', type: 'text', required: true },
+      { key: 'applicant_address', label: 'Your address', type: 'textarea', required: true },
+      { key: 'applicant_phone', label: 'Phone', type: 'text' },
+      { key: 'public_authority', label: 'Public authority', type: 'text', required: true, placeholder: 'e.g. Municipal Corporation of Greater Mumbai, Ward K/East' },
+      { key: 'pio_address', label: 'Address of the Public Information Officer', type: 'textarea', required: true },
+      { key: 'information_sought', label: 'Information you want', type: 'textarea', required: true, hint: 'One question per line; be specific about records and dates' },
+      { key: 'period', label: 'Period the information covers', type: 'text', placeholder: 'e.g. 1 April 2023 to 31 March 2024' },
+      { key: 'bpl', label: 'Below Poverty Line card holder', type: 'select', options: ['no', 'yes'], defaultValue: 'no', hint: 'BPL applicants do not pay the fee' },
+      { key: 'fee_mode', label: 'How the Rs. 10 fee is paid', type: 'select', options: ['Indian Postal Order', 'Demand draft', 'Court fee stamp', 'Cash against receipt', 'Online payment'], defaultValue: 'Indian Postal Order' },
+    ],
+  },
+  {
+    key: 'consumer_complaint',
+    name: 'Consumer complaint',
+    description: 'Complaint to the District Consumer Commission for defective goods or deficient service',
+    fields: [
+      { key: 'complainant_name', label: 'Your name', type: 'text', required: true },
+      { key: 'complainant_address', label: 'Your address', type: 'textarea', required: true },
+      { key: 'opposite_party_name', label: 'Seller or service provider', type: 'text', required: true },
+      { key: 'opposite_party_address', label: 'Their address', type: 'textarea', required: true },
+      { key: 'district', label: 'District', type: 'text', required: true, hint: 'Where you live or work, or where the opposite party does business' },
+      { key: 'state', label: 'State', type: 'text', required: true },
+      { key: 'product_or_service', label: 'Product or service', type: 'text', required: true },
+      { key: 'purchase_date', label: 'Date of purchase', type: 'date', required: true },
+      { key: 'amount_paid', label: 'Amount paid (Rs.)', type: 'number', required: true },
+      { key: 'deficiency', label: 'What went wrong', type: 'textarea', required: true, hint: 'Include any complaints you already made to the seller and their replies' },
+      { key: 'compensation_sought', label: 'Compensation you want (Rs.)', type: 'number', required: true },
+    ],
+  },
+  {
+    key: 'rent_agreement',
+    name: 'Rent agreement',
+    description: '11-month residential rent agreement between landlord and tenant',
+    fields: [
+      { key: 'landlord_name', label: 'Landlord name', type: 'text', required: true },
+      { key: 'landlord_address', label: 'Landlord address', type: 'textarea', required: true },
+      { key: 'tenant_name', label: 'Tenant name', type: 'text', required: true },
+      { key: 'tenant_address', label: 'Tenant permanent address', type: 'textarea', required: true },
+      { key: 'property_address', label: 'Rented property', type: 'textarea', required: true, placeholder: 'e.g. 2 BHK flat, Flat No. 304, ...' },
+      { key: 'state', label: 'State', type: 'text', required: true },
+      { key: 'monthly_rent', label: 'Monthly rent (Rs.)', type: 'number', required: true },
+      { key: 'security_deposit', label: 'Security deposit (Rs.)', type: 'number', required: true },
+      { key: 'start_date', label: 'Start date', type: 'date', required: true },
+      { key: 'term_months', label: 'Term (months)', type: 'number', required: true, defaultValue: '11' },
+      { key: 'notice_period_months', label: 'Notice period (months)', type: 'number', defaultValue: '1' },
+      { key: 'lock_in_months', label: 'Lock-in period (months)', type: 'number' },
+      { key: 'maintenance', label: 'Maintenance and utilities', type: 'text', placeholder: 'e.g. Tenant pays electricity; landlord pays society maintenance' },
+    ],
+  },
+  {
+    key: 'affidavit',
+    name: 'Affidavit',
+    description: 'General affidavit for name change, address proof, lost documents and similar',
+    fields: [
+      { key: 'deponent_name', label: 'Your name', type: 'text', required: true },
+      { key: 'relation', label: 'Relation', type: 'select', required: true, options: ['S/o', 'D/o', 'W/o', 'C/o'], defaultValue: 'S/o' },
+      { key: 'relative_name', label: 'Father\'s / husband\'s name', type: 'text', required: true },
+      { key: 'age', label: 'Age', type: 'number', required: true },
+      { key: 'deponent_address', label: 'Your address', type: 'textarea', required: true },
+      { key: 'purpose', label: 'Purpose', type: 'text', required: true, placeholder: 'e.g. To submit to the passport office' },
+      { key: 'statements', label: 'Statements', type: 'textarea', required: true, hint: 'One fact per line, e.g. that your name is spelt differently in two documents' },
+      { key: 'authority', label: 'Submitted to', type: 'text', placeholder: 'e.g. Regional Passport Office, Pune' },
+      { key: 'place', label: 'Place of signing', type: 'text', required: true },
+    ],
+  },
+];
+
+export const DRAFT_TEMPLATE_NAMES = Object.fromEntries(
+  DRAFT_TEMPLATES.map((template) => [template.key, template.name])
+) as Record<DraftTemplate, string>;
+
+export const VERSION_SOURCE_LABELS: Record<DraftVersionSource, string> = {
+  generated: 'Generated',
+  regenerated: 'AI rewrite',
+  edited: 'Your edits',
+  restored: 'Restored',
+};
+
+export const getDraftTemplate = (key: string) => DRAFT_TEMPLATES.find((template) => template.key === key);
+
+export const initialFormValues = (template: DraftTemplateDefinition) =>
+  Object.fromEntries(template.fields.map((field) => [field.key, field.defaultValue ?? ''])) as Record<string, string>;
+
+export const missingRequiredFields = (template: DraftTemplateDefinition, values: Record<string, string>) =>
+  template.fields.filter((field) => field.required && !values[field.key]?.trim());
@@ -0,0 +1,160 @@
+import { COURT_COMPLEXES, GAZETTEER, GazetteerEntry } from './gazetteerData';
+
+export { COURT_COMPLEXES };
+export type { CourtComplex, GazetteerEntry } from './gazetteerData';
+
+/**
+ * A location resolved against the bundled gazetteer. The label is what gets stored as the
+ * free-text location; the rest goes into the geocoded profile columns.
+ */
+export interface GeoPlace {
+  label: string;
+  name: string;
+  district: string;
+  state: string;
+  pincode: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Geocoded columns on profiles, filled from a GeoPlace or cleared when the location is unknown
+export interface LocationColumns {
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  district: string | null;
+  state: string | null;
+  pincode: string | null;
+}
+
+const PINCODE_PATTERN = /\b\d{6}\b/;
+
+const placeLabel = (entry: GazetteerEntry) =>
+  entry.name === entry.state ? entry.name : `${entry.name}, ${entry.state}`;
+
+const toPlace = (entry: GazetteerEntry, pincode = entry.pincode): GeoPlace => ({
+  label: pincode === entry.pincode ? placeLabel(entry) : `${placeLabel(entry)} ${pincode}`,
+  name: entry.name,
+  district: entry.district,
+  state: entry.state,
+  pincode,
+  latitude: entry.latitude,
+  longitude: entry.longitude,
+});
+
+const namesOf = (entry: GazetteerEntry) => [entry.name, ...(entry.aliases || [])].map((name) => name.toLowerCase());
+
+/**
+ * Place for a six-digit pincode: the city whose head post office has it, otherwise the city
+ * with the longest matching pincode prefix.
+ */
+export const findByPincode = (pincode: string): GeoPlace | null => {
+  const exact = GAZETTEER.find((entry) => entry.pincode === pincode);
+  if (exact) return toPlace(exact);
+
+  let best: { entry: GazetteerEntry; length: number } | null = null;
+  for (const entry of GAZETTEER) {
+    for (const prefix of entry.pincodePrefixes || []) {
+      if (pincode.startsWith(prefix) && (!best || prefix.length > best.length)) {
+        best = { entry, length: prefix.length };
+      }
+    }
+  }
+  return best ? toPlace(best.entry, pincode) : null;
+};
+
+/**
+ * Suggestions for a location being typed. A pincode resolves to its city; otherwise cities whose
+ * name or former name starts with the text come first, then district and partial matches.
+ */
+export const searchPlaces = (query: string, limit = 10): GeoPlace[] => {
+  const text = query.trim().toLowerCase();
+  if (!text) return [];
+
+  const pincode = text.match(PINCODE_PATTERN);
+  if (pincode) {
+    const place = findByPincode(pincode[0]);
+    return place ? [place] : [];
+  }
+
+  const ranked = GAZETTEER
+    .map((entry) => {
+      const names = namesOf(entry);
+      const district = entry.district.toLowerCase();
+      const rank = names.some((name) => name.startsWith(text)) ? 0
+        : district.startsWith(text) ? 1
+        : names.some((name) => name.includes(text)) || placeLabel(entry).toLowerCase().includes(text) ? 2
+        : entry.pincode.startsWith(text) ? 3
+        : -1;
+      return { entry, rank };
+    })
+    .filter((item) => item.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name));
+
+  return ranked.slice(0, limit).map((item) => toPlace(item.entry));
+};
+
+/**
+ * Best-effort geocode of a free-text location such as "Bangalore, Karnataka" or
+ * "Andheri West, Mumbai 400053": a pincode wins, then any comma-separated part naming a city.
+ */
+export const geocodeLocation = (text: string): GeoPlace | null => {
+  const pincode = text.match(PINCODE_PATTERN);
+  if (pincode) {
+    const place = findByPincode(pincode[0]);
+    if (place) return place;
+  }
+
+  for (const part of text.split(',')) {
+    const name = part.trim().toLowerCase();
+    const entry = name && GAZETTEER.find((item) => namesOf(item).includes(name));
+    if (entry) return toPlace(entry);
+  }
+  return null;
+};
+
+// Columns to save for a location, from the suggestion the user picked or by geocoding the text
+export const locationColumns = (location: string, place?: GeoPlace | null): LocationColumns => {
+  const trimmed = location.trim();
+  const geo = place && place.label === trimmed ? place : geocodeLocation(trimmed);
+  return {
+    location: trimmed,
+    latitude: geo?.latitude ?? null,
+    longitude: geo?.longitude ?? null,
+    district: geo?.district ?? null,
+    state: geo?.state ?? null,
+    pincode: geo?.pincode ?? null,
+  };
+};
+
+// Place from the geocoded columns of a profiles row, or null when it has no coordinates
+export const placeFromColumns = (
+  row: (Partial<Omit<LocationColumns, 'location'>> & { location?: string | null }) | null | undefined
+): GeoPlace | null => {
+  if (row?.latitude == null || row.longitude == null) return null;
+  const label = row.location?.trim() || row.district || '';
+  return {
+    label,
+    name: label.split(',')[0].trim(),
+    district: row.district ?? '',
+    state: row.state ?? '',
+    pincode: row.pincode ?? '',
+    latitude: row.latitude,
+    longitude: row.longitude,
+  };
+};
+
+// Every district in the gazetteer or with a court complex, grouped by state for the finder filter
+export const DISTRICTS_BY_STATE: { state: string; districts: string[] }[] = (() => {
+  const byState = new Map<string, Set<string>>();
+  for (const item of [...GAZETTEER, ...COURT_COMPLEXES]) {
+    if (!byState.has(item.state)) byState.set(item.state, new Set());
+    byState.get(item.state)!.add(item.district);
+  }
+  return [...byState.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([state, districts]) => ({ state, districts: [...districts].sort((a, b) => a.localeCompare(b)) }));
+})();
+
+export const formatDistance = (km: number) =>
+  km < 1 ? 'Under 1 km' : `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
@@ -0,0 +1,37 @@
+import gazetteer from './gazetteer.json';
+
+/**
+ * Bundled offline gazetteer used to geocode locations without a network lookup: Indian cities
+ * with their district, state, head post office pincode and the pincode prefixes they serve,
+ * and the court complexes lawyers can list as where they practise. Coordinates are approximate
+ * city centres, which is enough for "within N km" search.
+ *
+ * The places live in gazetteer.json. supabase/migrations/20251201000000_geocode_locations.sql
+ * backfills existing profiles from the same list; run `npm run gazetteer:sql` after editing it.
+ */
+
+export interface GazetteerEntry {
+  name: string;
+  district: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  // Head post office pincode
+  pincode: string;
+  // Leading pincode digits delivered from this city; the longest matching prefix wins
+  pincodePrefixes?: string[];
+  // Former or alternative names, e.g. Bombay, Bangalore
+  aliases?: string[];
+}
+
+export interface CourtComplex {
+  name: string;
+  district: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const GAZETTEER: GazetteerEntry[] = gazetteer.places;
+
+export const COURT_COMPLEXES: CourtComplex[] = gazetteer.courtComplexes;
@@ -0,0 +1,64 @@
+/**
+ * Options and types for the lawyer finder. Filtering, sorting and paging happen in the
+ * search_lawyers database function behind the lawyer-finder edge function.
+ */
+
+export const LAWYER_SPECIALIZATIONS = [
+  'Civil Law',
+  'Criminal Law',
+  'Corporate Law',
+  'Family Law',
+  'Property Law',
+  'Labour Law',
+  'Tax Law',
+  'Intellectual Property',
+  'Constitutional Law',
+  'Consumer Law',
+  'Cyber Law',
+];
+
+// Languages a lawyer can list on their profile and clients can filter by
+export const LAWYER_LANGUAGES = [
+  'English',
+  'Hindi',
+  'Marathi',
+  'Tamil',
+  'Bengali',
+  'Telugu',
+  'Kannada',
+  'Malayalam',
+  'Gujarati',
+  'Punjabi',
+  'Urdu',
+  'Odia',
+];
+
+export type LawyerSort = 'relevance' | 'distance' | 'rating' | 'experience' | 'name';
+
+// "Within N km" choices; distances are from the searched place or the user's own location
+export const DISTANCE_OPTIONS_KM = [5, 10, 25, 50, 100];
+
+// Radius applied when a place is picked and no distance was chosen yet
+export const DEFAULT_DISTANCE_KM = 25;
+
+export const LAWYERS_PER_PAGE = 12;
+
+// lawyer_profiles.specialization holds one or more areas separated by commas, which the
+// finder's substring match already handles
+export const parseSpecializations = (value: string | null | undefined) =>
+  (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+
+export const joinSpecializations = (values: string[]) => values.join(', ');
+
+const rupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+// Consultation fee range in rupees, e.g. "₹500 – ₹2,000"; null when the lawyer has not set one
+export const formatFeeRange = (min: number | null | undefined, max: number | null | undefined) => {
+  if (min == null && max == null) return null;
+  if (min == null) return `Up to ${rupees(max!)}`;
+  if (max == null) return `From ${rupees(min)}`;
+  return min === max ? rupees(min) : `${rupees(min)} – ${rupees(max)}`;
+};
+
+// Public, shareable profile page of a lawyer, by lawyer_profiles.id
+export const lawyerProfilePath = (lawyerProfileId: string) => `/lawyers/${lawyerProfileId}`;
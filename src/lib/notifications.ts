@@ -0,0 +1,71 @@
+/**
+ * Types for the in-app notifications inbox and the scheme alert settings. Notifications are
+ * written by the scheme-alerts and consultation-reminders edge functions and the appointment
+ * booking functions; the client only reads, marks read and deletes them.
+ */
+import type { TranslationKey } from '@/i18n';
+
+export type NotificationKind =
+  | 'new_scheme'
+  | 'scheme_deadline'
+  | 'appointment_booked'
+  | 'appointment_rescheduled'
+  | 'appointment_cancelled'
+  | 'appointment_reminder';
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  scheme_id: string | null;
+  appointment_id: string | null;
+  // Scheme name, or what happened to an appointment
+  title: string;
+  body: string | null;
+  link: string | null;
+  // YYYY-MM-DD, for scheme_deadline
+  due_date: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export const NOTIFICATION_FIELDS = 'id, kind, scheme_id, appointment_id, title, body, link, due_date, read_at, created_at';
+
+export const NOTIFICATION_KIND_KEYS: Record<NotificationKind, TranslationKey> = {
+  new_scheme: 'notifications.newScheme',
+  scheme_deadline: 'notifications.schemeDeadline',
+  appointment_booked: 'notifications.appointmentBooked',
+  appointment_rescheduled: 'notifications.appointmentRescheduled',
+  appointment_cancelled: 'notifications.appointmentCancelled',
+  appointment_reminder: 'notifications.appointmentReminder',
+};
+
+// Newest notifications shown in the Navigation inbox
+export const INBOX_SIZE = 20;
+
+export type AlertFrequency = 'off' | 'daily' | 'weekly';
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = ['off', 'daily', 'weekly'];
+
+export const ALERT_FREQUENCY_KEYS: Record<AlertFrequency, TranslationKey> = {
+  off: 'dashboard.alertsOff',
+  daily: 'dashboard.alertsDaily',
+  weekly: 'dashboard.alertsWeekly',
+};
+
+export interface NotificationPreferences {
+  scheme_alerts: AlertFrequency;
+  email_enabled: boolean;
+  // Alert on matching schemes closing within this many days
+  deadline_days: number;
+  last_checked_at: string | null;
+}
+
+// Used until the user saves settings; alerts stay off until they pick a frequency
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  scheme_alerts: 'off',
+  email_enabled: false,
+  deadline_days: 14,
+  last_checked_at: null,
+};
+
+export const DEADLINE_DAY_OPTIONS = [3, 7, 14, 30, 60];
@@ -0,0 +1,37 @@
+/**
+ * In-browser OCR for scanned PDF pages and photos of documents, using the Tesseract WASM engine.
+ *
+ * The worker script and the WASM core are bundled with the app. The English and Hindi
+ * (Devanagari) language models are downloaded on first use and cached by the browser.
+ * Load this module with a dynamic import so the engine is only fetched when a scan is found.
+ */
+import { createWorker, OEM } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+// Single-file build with the WASM binary inlined (needs WebAssembly SIMD, available in all current browsers)
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+
+// Devanagari text (Hindi, Marathi) is read with the Hindi model
+export const OCR_LANGUAGES = ['eng', 'hin'];
+
+export interface OcrEngine {
+  recognize: (image: HTMLCanvasElement | Blob) => Promise<{ text: string; confidence: number }>;
+  terminate: () => Promise<void>;
+}
+
+/**
+ * Start one OCR worker; reuse it for every page of a document and terminate it afterwards
+ */
+export const createOcrEngine = async (): Promise<OcrEngine> => {
+  const worker = await createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, { workerPath, corePath });
+
+  return {
+    recognize: async (image) => {
+      const { data } = await worker.recognize(image);
+      // confidence is the mean word confidence, 0-100
+      return { text: data.text, confidence: Math.round(data.confidence) };
+    },
+    terminate: async () => {
+      await worker.terminate();
+    },
+  };
+};
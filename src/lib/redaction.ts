@@ -0,0 +1,57 @@
+/**
+ * Types and labels for the personal details hidden from the AI provider, as reported by the
+ * edge functions ("redaction" in their responses) and by document-summarizer in "redact" mode
+ */
+
+export type PiiType = 'aadhaar' | 'pan' | 'bank_account' | 'phone' | 'address';
+
+export interface RedactionAudit {
+  total: number;
+  counts: Record<PiiType, number>;
+  items: { placeholder: string; type: PiiType; occurrences: number }[];
+}
+
+export interface RedactionPreviewItem {
+  placeholder: string;
+  type: PiiType;
+  value: string;
+  occurrences: number;
+  pages: number[];
+}
+
+export interface RedactionPreview {
+  items: RedactionPreviewItem[];
+  // Start of the document as the AI receives it
+  text: string;
+  truncated: boolean;
+}
+
+export const PII_TYPE_LABELS: Record<PiiType, { one: string; other: string }> = {
+  aadhaar: { one: 'Aadhaar number', other: 'Aadhaar numbers' },
+  pan: { one: 'PAN', other: 'PANs' },
+  bank_account: { one: 'bank account number', other: 'bank account numbers' },
+  phone: { one: 'phone number', other: 'phone numbers' },
+  address: { one: 'address', other: 'addresses' },
+};
+
+export const PII_TYPE_STYLES: Record<PiiType, string> = {
+  aadhaar: 'bg-orange-500/10 text-orange-600 border-orange-500/20',
+  pan: 'bg-purple-500/10 text-purple-600 border-purple-500/20',
+  bank_account: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
+  phone: 'bg-green-500/10 text-green-600 border-green-500/20',
+  address: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
+};
+
+// Matches the placeholders the server writes, e.g. [PHONE_2]
+export const PLACEHOLDER_PATTERN = /(\[(?:AADHAAR|PAN|PHONE|BANK_ACCOUNT|ADDRESS)_\d+\])/;
+
+/**
+ * e.g. "1 Aadhaar number and 2 phone numbers"
+ */
+export const describeRedactionCounts = (counts: Partial<Record<PiiType, number>>) => {
+  const parts = (Object.keys(PII_TYPE_LABELS) as PiiType[])
+    .filter((type) => (counts[type] ?? 0) > 0)
+    .map((type) => `${counts[type]} ${counts[type] === 1 ? PII_TYPE_LABELS[type].one : PII_TYPE_LABELS[type].other}`);
+
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0] ?? '';
+};
@@ -0,0 +1,109 @@
+/**
+ * Types, labels and the PDF report text for the version comparison returned by
+ * document-summarizer in "compare" mode
+ */
+
+export type ChangeStatus = 'modified' | 'added' | 'removed' | 'unchanged';
+
+export type ChangeImpact = 'favours_user' | 'hurts_user' | 'neutral' | 'unclear';
+
+export interface DiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface ClauseChange {
+  id: string;
+  status: ChangeStatus;
+  heading: string;
+  base_text: string | null;
+  revised_text: string | null;
+  base_page: number | null;
+  revised_page: number | null;
+  diff: DiffSegment[];
+  material: boolean | null;
+  explanation: string;
+  impact: ChangeImpact | null;
+  impact_reason: string;
+}
+
+export interface DocumentComparison {
+  base_document_id: string;
+  base_title: string;
+  revised_title: string;
+  perspective: string | null;
+  changes: ClauseChange[];
+  stats: { modified: number; added: number; removed: number; unchanged: number; material: number };
+  unreviewed: number;
+  generated_at: string;
+}
+
+export const CHANGE_STATUS_LABELS: Record<ChangeStatus, string> = {
+  modified: 'Changed',
+  added: 'Added',
+  removed: 'Removed',
+  unchanged: 'Unchanged',
+};
+
+export const CHANGE_IMPACT_LABELS: Record<ChangeImpact, string> = {
+  favours_user: 'Favours you',
+  hurts_user: 'Hurts you',
+  neutral: 'Neutral',
+  unclear: 'Depends',
+};
+
+export const CHANGE_IMPACT_STYLES: Record<ChangeImpact, string> = {
+  favours_user: 'bg-green-500/10 text-green-600 border-green-500/20',
+  hurts_user: 'bg-red-500/10 text-red-600 border-red-500/20',
+  neutral: 'bg-muted text-muted-foreground border-border',
+  unclear: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
+};
+
+const pageRef = (change: ClauseChange) => {
+  const refs = [
+    change.base_page !== null ? `original p. ${change.base_page}` : null,
+    change.revised_page !== null ? `revised p. ${change.revised_page}` : null,
+  ].filter(Boolean);
+  return refs.length ? ` (${refs.join(', ')})` : '';
+};
+
+/**
+ * Plain-text report in the heading/bullet layout the summary PDF export understands:
+ * upper-case headings, "- " bullets, and "Removed:" / "Added:" lines for the redline.
+ */
+export const formatComparisonReport = (comparison: DocumentComparison) => {
+  const { stats } = comparison;
+  const lines = [
+    'VERSIONS COMPARED:',
+    `- Original: ${comparison.base_title}`,
+    `- Revised: ${comparison.revised_title}`,
+    ...(comparison.perspective ? [`- Reviewed for: ${comparison.perspective}`] : []),
+    `${stats.modified} changed, ${stats.added} added and ${stats.removed} removed clauses; ${stats.material} material change${stats.material !== 1 ? 's' : ''}.`,
+  ];
+
+  comparison.changes
+    .filter((change) => change.status !== 'unchanged')
+    .forEach((change, index) => {
+      lines.push(`CHANGE ${index + 1}: ${CHANGE_STATUS_LABELS[change.status].toUpperCase()}${pageRef(change)}`);
+      if (change.explanation) lines.push(change.explanation);
+      if (change.impact) {
+        lines.push(`Impact: ${CHANGE_IMPACT_LABELS[change.impact]}${change.impact_reason ? ` - ${change.impact_reason}` : ''}`);
+      }
+
+      if (change.status === 'modified') {
+        change.diff
+          .filter((segment) => segment.op !== 'equal')
+          .forEach((segment) => lines.push(`- ${segment.op === 'delete' ? 'Removed' : 'Added'}: "${segment.text}"`));
+      } else if (change.status === 'removed') {
+        lines.push(`- Removed: "${change.base_text}"`);
+      } else {
+        lines.push(`- Added: "${change.revised_text}"`);
+      }
+    });
+
+  if (comparison.unreviewed > 0) {
+    lines.push(`${comparison.unreviewed} further change${comparison.unreviewed !== 1 ? 's were' : ' was'} not explained; see the redline in the app.`);
+  }
+
+  return lines.join('\n');
+};
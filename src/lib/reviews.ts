@@ -0,0 +1,74 @@
+/**
+ * Types and helpers for verified lawyer reviews. A client can review a lawyer once they have a
+ * won, lost or closed case with them; published reviews are rolled up onto lawyer_profiles by a
+ * trigger, so the numbers shown here come from rating_average, review_count and rating_breakdown.
+ */
+
+export type ReviewStatus = 'published' | 'hidden';
+
+export interface LawyerReview {
+  id: string;
+  lawyer_id: string;
+  client_id: string;
+  case_id: string;
+  rating: number;
+  comment: string | null;
+  lawyer_reply: string | null;
+  replied_at: string | null;
+  status: ReviewStatus;
+  moderation_reason: string | null;
+  moderated_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const REVIEW_FIELDS = 'id, lawyer_id, client_id, case_id, rating, comment, lawyer_reply, replied_at, status, moderation_reason, moderated_at, created_at, updated_at';
+
+// Case statuses that let the client review the lawyer
+export const CONCLUDED_CASE_STATUSES = ['won', 'lost', 'closed'];
+
+// Star counts keyed "1" to "5", as stored in lawyer_profiles.rating_breakdown
+export type RatingBreakdown = Record<'1' | '2' | '3' | '4' | '5', number>;
+
+export interface RatingSummary {
+  rating_average: number | null;
+  review_count: number;
+  rating_breakdown: RatingBreakdown;
+}
+
+export const RATING_SUMMARY_FIELDS = 'rating_average, review_count, rating_breakdown';
+
+export const EMPTY_BREAKDOWN: RatingBreakdown = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+
+export const STARS = [5, 4, 3, 2, 1] as const;
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+// Reviews shown at a time in a lawyer's profile
+export const REVIEWS_PAGE_SIZE = 5;
+
+/**
+ * Postgrest returns numeric columns as strings; normalise a lawyer_profiles row
+ */
+export const toRatingSummary = (row: Partial<Record<keyof RatingSummary, unknown>> | null | undefined): RatingSummary => ({
+  rating_average: row?.rating_average === null || row?.rating_average === undefined ? null : Number(row.rating_average),
+  review_count: Number(row?.review_count ?? 0),
+  rating_breakdown: { ...EMPTY_BREAKDOWN, ...((row?.rating_breakdown as RatingBreakdown | null) ?? {}) },
+});
+
+/**
+ * Share of reviews with the given number of stars, 0–100
+ */
+export const starShare = (summary: RatingSummary, stars: number) =>
+  summary.review_count > 0
+    ? Math.round((summary.rating_breakdown[String(stars) as keyof RatingBreakdown] / summary.review_count) * 100)
+    : 0;
+
+/**
+ * How a reviewer is shown publicly: first name and last initial
+ */
+export const reviewerName = (name: string | null | undefined) => {
+  const parts = (name ?? '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  return parts.length === 1 ? parts[0] : `${parts[0]} ${parts[parts.length - 1][0]}.`;
+};
@@ -0,0 +1,100 @@
+/**
+ * Types and helpers for the scheme application tracker on the Dashboard. Every saved scheme has
+ * one scheme_applications row with a document checklist in scheme_application_documents.
+ */
+import type { TranslationKey } from '@/i18n';
+
+export type ApplicationStatus = 'suggested' | 'applied' | 'approved' | 'rejected';
+
+// Board columns, in order
+export const APPLICATION_STATUSES: ApplicationStatus[] = ['suggested', 'applied', 'approved', 'rejected'];
+
+export const APPLICATION_STATUS_KEYS: Record<ApplicationStatus, TranslationKey> = {
+  suggested: 'dashboard.statusSuggested',
+  applied: 'dashboard.statusApplied',
+  approved: 'dashboard.statusApproved',
+  rejected: 'dashboard.statusRejected',
+};
+
+export const APPLICATION_STATUS_STYLES: Record<ApplicationStatus, string> = {
+  suggested: 'border-t-purple-500',
+  applied: 'border-t-blue-500',
+  approved: 'border-t-green-500',
+  rejected: 'border-t-red-500',
+};
+
+export interface ApplicationDocument {
+  id: string;
+  name: string;
+  position: number;
+  checked_at: string | null;
+  file_path: string | null;
+  file_name: string | null;
+  uploaded_at: string | null;
+}
+
+// Copy of the scheme kept in saved_schemes when it was saved
+export interface SavedSchemeDetails {
+  id: string;
+  scheme_name: string;
+  scheme_description: string | null;
+  scheme_benefits: string | null;
+  scheme_category: string | null;
+  scheme_state: string | null;
+  scheme_how_to_apply: string | null;
+  scheme_deadline: string | null;
+  scheme_official_website: string | null;
+}
+
+export interface SchemeApplication {
+  id: string;
+  status: ApplicationStatus;
+  reference_number: string | null;
+  // YYYY-MM-DD
+  applied_on: string | null;
+  decided_on: string | null;
+  notes: string | null;
+  status_changed_at: string;
+  created_at: string;
+  saved_scheme: SavedSchemeDetails;
+  documents: ApplicationDocument[];
+}
+
+export const APPLICATION_FIELDS = `id, status, reference_number, applied_on, decided_on, notes, status_changed_at, created_at,
+  saved_scheme:saved_schemes(id, scheme_name, scheme_description, scheme_benefits, scheme_category, scheme_state, scheme_how_to_apply, scheme_deadline, scheme_official_website),
+  documents:scheme_application_documents(id, name, position, checked_at, file_path, file_name, uploaded_at)`;
+
+export const PROOF_BUCKET = 'scheme-proofs';
+
+export const MAX_PROOF_SIZE = 10 * 1024 * 1024;
+
+export const PROOF_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+export const sortDocuments = (documents: ApplicationDocument[]) =>
+  [...documents].sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+
+export const documentProgress = (documents: ApplicationDocument[]) => ({
+  done: documents.filter((document) => document.checked_at).length,
+  total: documents.length,
+});
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/**
+ * Fields to update when an application moves to a new status; the application and decision
+ * dates default to today when they have not been recorded yet
+ */
+export function statusChange(application: SchemeApplication, status: ApplicationStatus) {
+  const changes: Partial<Pick<SchemeApplication, 'status' | 'applied_on' | 'decided_on'>> = { status };
+  if (status !== 'suggested' && !application.applied_on) {
+    changes.applied_on = application.decided_on && application.decided_on < today() ? application.decided_on : today();
+  }
+  if ((status === 'approved' || status === 'rejected') && !application.decided_on) {
+    changes.decided_on = today();
+  }
+  return changes;
+}
+
+// <user_id>/<application_id>/<timestamp>_<name>, matching the bucket's folder policies
+export const proofPath = (userId: string, applicationId: string, fileName: string) =>
+  `${userId}/${applicationId}/${Date.now()}_${fileName.replace(/[^\w.-]+/g, '_')}`;
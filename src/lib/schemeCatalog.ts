@@ -0,0 +1,464 @@
+/**
+ * Types, validation and CSV / JSON import for the government schemes admin console. Rule values
+ * match the rule engine in supabase/functions/_shared/eligibility.ts, which reads
+ * eligibility_criteria when matching schemes.
+ */
+
+export const CASTE_OPTIONS = [
+  { value: 'general', label: 'General' },
+  { value: 'obc', label: 'OBC' },
+  { value: 'sc', label: 'SC' },
+  { value: 'st', label: 'ST' },
+  { value: 'pvtg', label: 'PVTG' },
+  { value: 'dnt', label: 'DNT' },
+] as const;
+
+export const GENDER_OPTIONS = [
+  { value: 'male', label: 'Men' },
+  { value: 'female', label: 'Women' },
+  { value: 'other', label: 'Transgender / non-binary' },
+] as const;
+
+export const AREA_OPTIONS = [
+  { value: 'urban', label: 'Urban' },
+  { value: 'rural', label: 'Rural' },
+] as const;
+
+export const OCCUPATION_OPTIONS = [
+  { value: 'student', label: 'Student' },
+  { value: 'farmer', label: 'Farmer' },
+  { value: 'self-employed', label: 'Self-employed' },
+  { value: 'salaried', label: 'Salaried' },
+  { value: 'unemployed', label: 'Unemployed' },
+  { value: 'business', label: 'Business owner' },
+  { value: 'retired', label: 'Retired' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export type CasteCategory = typeof CASTE_OPTIONS[number]['value'];
+export type ApplicantGender = typeof GENDER_OPTIONS[number]['value'];
+export type AreaType = typeof AREA_OPTIONS[number]['value'];
+export type Occupation = typeof OCCUPATION_OPTIONS[number]['value'];
+
+export const ALL_INDIA = 'All India';
+
+// States and union territories, spelt as the applicant form shows them
+export const INDIAN_STATES = [
+  'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chhattisgarh', 'Goa', 'Gujarat', 'Haryana',
+  'Himachal Pradesh', 'Jharkhand', 'Karnataka', 'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Manipur',
+  'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu', 'Telangana',
+  'Tripura', 'Uttar Pradesh', 'Uttarakhand', 'West Bengal', 'Andaman and Nicobar Islands', 'Chandigarh',
+  'Dadra and Nagar Haveli and Daman and Diu', 'Delhi', 'Jammu and Kashmir', 'Ladakh', 'Lakshadweep', 'Puducherry',
+];
+
+export const SCHEME_CATEGORIES = [
+  'Agriculture', 'Business', 'Education', 'Employment', 'Financial', 'Health', 'Housing', 'Pension', 'Savings', 'Social Welfare', 'Other',
+];
+
+/**
+ * Shape of government_schemes.eligibility_criteria. Every rule that is present must pass.
+ */
+export interface EligibilityRules {
+  castes?: CasteCategory[];
+  genders?: ApplicantGender[];
+  disability?: boolean;
+  minority?: boolean;
+  student?: boolean;
+  area_types?: AreaType[];
+  occupations?: Occupation[];
+  income_basis?: 'applicant' | 'family';
+  // At least one group must pass
+  any_of?: EligibilityRules[];
+  // Conditions the applicant form cannot check, shown to the user to verify
+  conditions?: string[];
+}
+
+export interface SchemeInput {
+  name: string;
+  description: string | null;
+  benefits: string | null;
+  category: string | null;
+  state: string;
+  min_age: number | null;
+  max_age: number | null;
+  min_income: number | null;
+  max_income: number | null;
+  gender: 'any' | 'male' | 'female';
+  eligibility_criteria: EligibilityRules;
+  application_process: string | null;
+  required_documents: string[];
+  // YYYY-MM-DD
+  deadline: string | null;
+  official_website: string | null;
+  is_active: boolean;
+}
+
+export interface CatalogScheme extends SchemeInput {
+  id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SchemeChangeAction = 'created' | 'updated' | 'retired' | 'restored' | 'deleted';
+
+export interface SchemeChange {
+  id: string;
+  scheme_id: string | null;
+  scheme_name: string;
+  action: SchemeChangeAction;
+  source: 'admin' | 'import';
+  // {field: {old, new}} for updates; the whole row for creates and deletes
+  changes: Record<string, unknown>;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export const CHANGE_ACTION_LABELS: Record<SchemeChangeAction, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  retired: 'Retired',
+  restored: 'Restored',
+  deleted: 'Deleted',
+};
+
+export const SCHEME_FIELDS = 'id, name, description, benefits, category, state, min_age, max_age, min_income, max_income, gender, eligibility_criteria, application_process, required_documents, deadline, official_website, is_active, created_at, updated_at';
+
+// Columns of the CSV import; list columns are separated with |
+export const CSV_COLUMNS = [
+  'name', 'description', 'benefits', 'category', 'state', 'min_age', 'max_age', 'min_income', 'max_income', 'gender',
+  'castes', 'genders', 'area_types', 'occupations', 'disability', 'minority', 'student', 'income_basis', 'conditions',
+  'any_of', 'application_process', 'required_documents', 'deadline', 'official_website', 'is_active',
+];
+
+const LIST_SEPARATOR = '|';
+
+const CASTE_VALUES: readonly string[] = CASTE_OPTIONS.map((option) => option.value);
+const GENDER_VALUES: readonly string[] = GENDER_OPTIONS.map((option) => option.value);
+const AREA_VALUES: readonly string[] = AREA_OPTIONS.map((option) => option.value);
+const OCCUPATION_VALUES: readonly string[] = OCCUPATION_OPTIONS.map((option) => option.value);
+
+const stateKey = (value: string) =>
+  value.toLowerCase().split(/[^a-z]+/).filter((word) => word && word !== 'and').join('-');
+
+const STATE_BY_KEY = new Map(INDIAN_STATES.map((state) => [stateKey(state), state]));
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim());
+
+const optionalText = (value: unknown) => text(value) || null;
+
+const list = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(text).filter(Boolean);
+  return text(value).split(LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean);
+};
+
+const flag = (value: unknown, fallback: boolean, field: string, errors: string[]) => {
+  if (typeof value === 'boolean') return value;
+  const raw = text(value).toLowerCase();
+  if (!raw) return fallback;
+  if (['true', 'yes', 'y', '1'].includes(raw)) return true;
+  if (['false', 'no', 'n', '0'].includes(raw)) return false;
+  errors.push(`${field} must be yes or no`);
+  return fallback;
+};
+
+const whole = (value: unknown, field: string, errors: string[]) => {
+  const raw = text(value).replace(/[,₹\s]/g, '');
+  if (!raw) return null;
+  const parsed = Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    errors.push(`${field} must be a whole number`);
+    return null;
+  }
+  return parsed;
+};
+
+const allowed = (values: string[], accepted: readonly string[], field: string, errors: string[]) => {
+  const unknown = values.filter((value) => !accepted.includes(value.toLowerCase()));
+  if (unknown.length > 0) {
+    errors.push(`${field} has unknown values: ${unknown.join(', ')} (use ${accepted.join(', ')})`);
+  }
+  return values.map((value) => value.toLowerCase()).filter((value) => accepted.includes(value));
+};
+
+/**
+ * Check and clean one set of rules; `path` prefixes error messages for nested any_of groups.
+ */
+function normalizeRules(raw: Record<string, unknown>, errors: string[], path = ''): EligibilityRules {
+  const rules: EligibilityRules = {};
+  const castes = allowed(list(raw.castes), CASTE_VALUES, `${path}castes`, errors);
+  if (castes.length) rules.castes = castes as CasteCategory[];
+  const genders = allowed(list(raw.genders), GENDER_VALUES, `${path}genders`, errors);
+  if (genders.length) rules.genders = genders as ApplicantGender[];
+  const areas = allowed(list(raw.area_types), AREA_VALUES, `${path}area_types`, errors);
+  if (areas.length) rules.area_types = areas as AreaType[];
+  const occupations = allowed(list(raw.occupations), OCCUPATION_VALUES, `${path}occupations`, errors);
+  if (occupations.length) rules.occupations = occupations as Occupation[];
+  if (flag(raw.disability, false, `${path}disability`, errors)) rules.disability = true;
+  if (flag(raw.minority, false, `${path}minority`, errors)) rules.minority = true;
+  if (flag(raw.student, false, `${path}student`, errors)) rules.student = true;
+
+  const basis = text(raw.income_basis).toLowerCase();
+  if (basis === 'family' || basis === 'applicant') {
+    rules.income_basis = basis;
+  } else if (basis) {
+    errors.push(`${path}income_basis must be applicant or family`);
+  }
+
+  const conditions = list(raw.conditions);
+  if (conditions.length) rules.conditions = conditions;
+
+  let groups = raw.any_of;
+  if (typeof groups === 'string' && groups.trim()) {
+    try {
+      groups = JSON.parse(groups);
+    } catch {
+      errors.push(`${path}any_of must be a JSON array of rule groups`);
+      groups = undefined;
+    }
+  }
+  if (groups != null && groups !== '') {
+    if (!Array.isArray(groups) || groups.some((group) => !group || typeof group !== 'object' || Array.isArray(group))) {
+      errors.push(`${path}any_of must be a JSON array of rule groups`);
+    } else if (groups.length > 0) {
+      rules.any_of = groups.map((group, index) => normalizeRules(group as Record<string, unknown>, errors, `${path}any_of[${index + 1}].`));
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Turn a form, CSV row or JSON object into a scheme, collecting every problem with it.
+ * Rules can be given as flat columns, as an eligibility_criteria object, or both.
+ */
+export function normalizeScheme(raw: Record<string, unknown>): { scheme: SchemeInput; errors: string[] } {
+  const errors: string[] = [];
+
+  const name = text(raw.name);
+  if (!name) errors.push('name is required');
+
+  const stateInput = text(raw.state);
+  let state = ALL_INDIA;
+  if (stateInput && stateKey(stateInput) !== stateKey(ALL_INDIA)) {
+    const known = STATE_BY_KEY.get(stateKey(stateInput));
+    if (known) {
+      state = known;
+    } else {
+      errors.push(`state "${stateInput}" is not an Indian state or union territory`);
+    }
+  }
+
+  const min_age = whole(raw.min_age, 'min_age', errors);
+  const max_age = whole(raw.max_age, 'max_age', errors);
+  if (min_age !== null && max_age !== null && min_age > max_age) errors.push('min_age is above max_age');
+  const min_income = whole(raw.min_income, 'min_income', errors);
+  const max_income = whole(raw.max_income, 'max_income', errors);
+  if (min_income !== null && max_income !== null && min_income > max_income) errors.push('min_income is above max_income');
+
+  const gender = (text(raw.gender) || 'any').toLowerCase();
+  if (!['any', 'male', 'female'].includes(gender)) errors.push('gender must be any, male or female');
+
+  let criteria = raw.eligibility_criteria;
+  if (typeof criteria === 'string' && criteria.trim()) {
+    try {
+      criteria = JSON.parse(criteria);
+    } catch {
+      errors.push('eligibility_criteria must be a JSON object');
+      criteria = undefined;
+    }
+  }
+  const nested = criteria && typeof criteria === 'object' && !Array.isArray(criteria) ? criteria as Record<string, unknown> : {};
+  const flat = Object.fromEntries(
+    ['castes', 'genders', 'area_types', 'occupations', 'disability', 'minority', 'student', 'income_basis', 'conditions', 'any_of']
+      .filter((key) => raw[key] != null && raw[key] !== '')
+      .map((key) => [key, raw[key]])
+  );
+  const eligibility_criteria = normalizeRules({ ...nested, ...flat }, errors);
+
+  const deadline = optionalText(raw.deadline);
+  if (deadline && (!/^\d{4}-\d{2}-\d{2}$/.test(deadline) || Number.isNaN(Date.parse(deadline)))) {
+    errors.push('deadline must be a date in YYYY-MM-DD format');
+  }
+
+  const official_website = optionalText(raw.official_website);
+  if (official_website) {
+    try {
+      const url = new URL(official_website);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error('protocol');
+    } catch {
+      errors.push('official_website must be a full http(s) URL');
+    }
+  }
+
+  return {
+    scheme: {
+      name,
+      description: optionalText(raw.description),
+      benefits: optionalText(raw.benefits),
+      category: optionalText(raw.category),
+      state,
+      min_age,
+      max_age,
+      min_income,
+      max_income,
+      gender: gender as SchemeInput['gender'],
+      eligibility_criteria,
+      application_process: optionalText(raw.application_process),
+      required_documents: list(raw.required_documents),
+      deadline,
+      official_website,
+      is_active: flag(raw.is_active, true, 'is_active', errors),
+    },
+    errors,
+  };
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain commas, quotes and newlines)
+ */
+export function parseCsv(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = input.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+export interface ImportRow {
+  // CSV line or JSON array position, for error messages
+  row: number;
+  scheme: SchemeInput;
+  errors: string[];
+}
+
+/**
+ * Parse an import file. JSON may be an array of schemes or { "schemes": [...] }; CSV needs a
+ * header row using CSV_COLUMNS names (eligibility_criteria as a JSON column also works).
+ */
+export function parseSchemeImport(content: string, format: 'csv' | 'json'): { rows: ImportRow[]; error?: string } {
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return { rows: [], error: 'The file is not valid JSON' };
+    }
+    const items = Array.isArray(parsed) ? parsed : (parsed as { schemes?: unknown })?.schemes;
+    if (!Array.isArray(items)) {
+      return { rows: [], error: 'Expected an array of schemes or an object with a "schemes" array' };
+    }
+    return {
+      rows: items.map((item, index) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+          return { row: index + 1, scheme: normalizeScheme({}).scheme, errors: ['Each scheme must be a JSON object'] };
+        }
+        return { row: index + 1, ...normalizeScheme(item as Record<string, unknown>) };
+      }),
+    };
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) {
+    return { rows: [], error: 'The file is empty' };
+  }
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const accepted = [...CSV_COLUMNS, 'eligibility_criteria'];
+  const unknown = columns.filter((column) => column && !accepted.includes(column));
+  if (!columns.includes('name')) {
+    return { rows: [], error: 'The header row must include a name column' };
+  }
+  if (unknown.length > 0) {
+    return { rows: [], error: `Unknown columns: ${unknown.join(', ')}` };
+  }
+
+  return {
+    rows: lines.map((cells, index) => ({
+      // +2: the header is line 1
+      row: index + 2,
+      ...normalizeScheme(Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']))),
+    })),
+  };
+}
+
+const csvCell = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Export schemes in the import CSV format, so the catalogue can be edited in a spreadsheet and re-imported
+ */
+export function schemesToCsv(schemes: SchemeInput[]): string {
+  const lines = schemes.map((scheme) => {
+    const rules = scheme.eligibility_criteria ?? {};
+    const values: Record<string, string> = {
+      name: scheme.name,
+      description: scheme.description ?? '',
+      benefits: scheme.benefits ?? '',
+      category: scheme.category ?? '',
+      state: scheme.state ?? ALL_INDIA,
+      min_age: scheme.min_age?.toString() ?? '',
+      max_age: scheme.max_age?.toString() ?? '',
+      min_income: scheme.min_income?.toString() ?? '',
+      max_income: scheme.max_income?.toString() ?? '',
+      gender: scheme.gender ?? 'any',
+      castes: (rules.castes ?? []).join(LIST_SEPARATOR),
+      genders: (rules.genders ?? []).join(LIST_SEPARATOR),
+      area_types: (rules.area_types ?? []).join(LIST_SEPARATOR),
+      occupations: (rules.occupations ?? []).join(LIST_SEPARATOR),
+      disability: rules.disability ? 'yes' : '',
+      minority: rules.minority ? 'yes' : '',
+      student: rules.student ? 'yes' : '',
+      income_basis: rules.income_basis ?? '',
+      conditions: (rules.conditions ?? []).join(LIST_SEPARATOR),
+      any_of: rules.any_of?.length ? JSON.stringify(rules.any_of) : '',
+      application_process: scheme.application_process ?? '',
+      required_documents: (scheme.required_documents ?? []).join(LIST_SEPARATOR),
+      deadline: scheme.deadline ?? '',
+      official_website: scheme.official_website ?? '',
+      is_active: scheme.is_active ? 'yes' : 'no',
+    };
+    return CSV_COLUMNS.map((column) => csvCell(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...lines].join('\n');
+}
+
+/**
+ * Short text for a value in the change history
+ */
+export const formatChangeValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.map(formatChangeValue).join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
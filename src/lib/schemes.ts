@@ -0,0 +1,137 @@
+/**
+ * Types and display helpers for the per-criterion eligibility results returned by the
+ * government-schemes function
+ */
+
+export type CriterionStatus = 'pass' | 'fail' | 'unknown';
+
+export interface CriterionResult {
+  key: string;
+  label: string;
+  // What the scheme requires
+  requirement: string;
+  status: CriterionStatus;
+  // How the applicant compares
+  detail: string;
+}
+
+export const CRITERION_STATUS_STYLES: Record<CriterionStatus, string> = {
+  pass: 'text-green-600',
+  fail: 'text-red-600',
+  unknown: 'text-yellow-600',
+};
+
+export const CRITERION_STATUS_LABELS: Record<CriterionStatus, string> = {
+  pass: 'Meets',
+  fail: 'Does not meet',
+  unknown: 'To check',
+};
+
+export type Relationship = 'self' | 'spouse' | 'parent' | 'child' | 'sibling' | 'other';
+
+export const RELATIONSHIP_OPTIONS: { value: Relationship; label: string }[] = [
+  { value: 'self', label: 'Myself' },
+  { value: 'spouse', label: 'Spouse' },
+  { value: 'parent', label: 'Parent' },
+  { value: 'child', label: 'Child' },
+  { value: 'sibling', label: 'Sibling' },
+  { value: 'other', label: 'Other family member' },
+];
+
+export const relationshipLabel = (relationship: string) =>
+  RELATIONSHIP_OPTIONS.find((option) => option.value === relationship)?.label ?? relationship;
+
+// Matches the limit_household_size trigger
+export const MAX_HOUSEHOLD_MEMBERS = 10;
+
+// Answers in the schemes form; select values are kept as strings ('yes' / 'no' for the flags)
+export interface ApplicantFormData {
+  applicantName: string;
+  relationship: Relationship;
+  age: string;
+  gender: string;
+  income: string;
+  parentIncome: string;
+  occupation: string;
+  state: string;
+  areaType: string;
+  caste: string;
+  isDisabled: string;
+  isMinority: string;
+  isStudent: string;
+}
+
+// Row of applicant_profiles: one household member, searched on demand and matched by scheme alerts
+export interface ApplicantProfileRow {
+  applicant_name: string;
+  relationship: Relationship;
+  age: number;
+  gender: string;
+  income: number | null;
+  parent_income: number | null;
+  occupation: string;
+  state: string;
+  area_type: string;
+  caste: string;
+  is_disabled: boolean;
+  is_minority: boolean;
+  is_student: boolean;
+}
+
+export interface HouseholdMember extends ApplicantProfileRow {
+  id: string;
+}
+
+export const APPLICANT_PROFILE_FIELDS = 'id, applicant_name, relationship, age, gender, income, parent_income, occupation, state, area_type, caste, is_disabled, is_minority, is_student';
+
+const optionalAmount = (value: string) => (value ? parseFloat(value) : null);
+
+const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+
+export const formToApplicantProfile = (form: ApplicantFormData): ApplicantProfileRow => ({
+  applicant_name: form.applicantName.trim(),
+  relationship: form.relationship,
+  age: parseInt(form.age),
+  gender: form.gender,
+  income: optionalAmount(form.income),
+  parent_income: optionalAmount(form.parentIncome),
+  occupation: form.occupation,
+  state: form.state,
+  area_type: form.areaType,
+  caste: form.caste,
+  is_disabled: form.isDisabled === 'yes',
+  is_minority: form.isMinority === 'yes',
+  is_student: form.isStudent === 'yes',
+});
+
+export const applicantProfileToForm = (row: ApplicantProfileRow): ApplicantFormData => ({
+  applicantName: row.applicant_name,
+  relationship: row.relationship,
+  age: String(row.age),
+  gender: row.gender,
+  income: row.income === null ? '' : String(row.income),
+  parentIncome: row.parent_income === null ? '' : String(row.parent_income),
+  occupation: row.occupation,
+  state: row.state,
+  areaType: row.area_type,
+  caste: row.caste,
+  isDisabled: yesNo(row.is_disabled),
+  isMinority: yesNo(row.is_minority),
+  isStudent: yesNo(row.is_student),
+});
+
+export const emptyApplicantForm = (applicantName = '', relationship: Relationship = 'self'): ApplicantFormData => ({
+  applicantName,
+  relationship,
+  age: '',
+  gender: '',
+  income: '',
+  parentIncome: '',
+  occupation: '',
+  state: '',
+  areaType: '',
+  caste: '',
+  isDisabled: '',
+  isMinority: '',
+  isStudent: '',
+});
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { supabase } from '@/integrations/supabase/client';
 import Navigation from '@/components/Navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,15 +10,20 @@ import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
-import { MessageSquare, Send, Bot, User, Loader2, Plus, Trash2, Shield, Brain, Sparkles } from 'lucide-react';
+import { MessageSquare, Send, Bot, User, Loader2, Plus, Trash2, Shield, Brain, Sparkles, Briefcase } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import CitationFootnotes from '@/components/CitationFootnotes';
+import ConversationSummary from '@/components/ConversationSummary';
+import EscalateToLawyerDialog from '@/components/EscalateToLawyerDialog';
+import { Citation, CITATION_HREF_PREFIX, linkCitationMarkers } from '@/lib/citations';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  citations?: Citation[];
   created_at: string;
 }
 
@@ -27,8 +33,14 @@ interface ChatSession {
   created_at: string;
 }
 
+interface SessionMemory {
+  summary: string | null;
+  summary_updated_at: string | null;
+}
+
 const AIChatbot = () => {
   const { user, loading: authLoading } = useAuth();
+  const { language } = useLanguage();
   const { toast } = useToast();
   
   const [sessions, setSessions] = useState<ChatSession[]>([]);
@@ -39,6 +51,10 @@ const AIChatbot = () => {
   const [loadingSessions, setLoadingSessions] = useState(true);
   const [streamingMessage, setStreamingMessage] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
+  const [streamingCitations, setStreamingCitations] = useState<Citation[]>([]);
+  const [activeCitation, setActiveCitation] = useState<{ messageId: string; number: number } | null>(null);
+  const [sessionMemory, setSessionMemory] = useState<SessionMemory>({ summary: null, summary_updated_at: null });
+  const [escalateOpen, setEscalateOpen] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -63,6 +79,9 @@ const AIChatbot = () => {
   useEffect(() => {
     if (currentSessionId) {
       loadMessages(currentSessionId);
+      loadSessionMemory(currentSessionId);
+    } else {
+      setSessionMemory({ summary: null, summary_updated_at: null });
     }
   }, [currentSessionId]);
 
@@ -101,7 +120,7 @@ const AIChatbot = () => {
     try {
       const { data, error } = await supabase
         .from('chat_messages')
-        .select('id, role, content, created_at')
+        .select('id, role, content, citations, created_at')
         .eq('session_id', sessionId)
         .order('created_at', { ascending: true });
 
@@ -110,7 +129,7 @@ const AIChatbot = () => {
         throw error;
       }
 
-      setMessages((data || []) as Message[]);
+      setMessages(data || []);
     } catch (error: any) {
       console.error('Failed to load messages:', error);
       toast({
@@ -121,6 +140,54 @@ const AIChatbot = () => {
     }
   };
 
+  const loadSessionMemory = async (sessionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('chat_sessions')
+        .select('summary, summary_updated_at')
+        .eq('id', sessionId)
+        .single();
+
+      if (error) throw error;
+
+      setSessionMemory(data);
+    } catch (error) {
+      console.error('Failed to load conversation summary:', error);
+      setSessionMemory({ summary: null, summary_updated_at: null });
+    }
+  };
+
+  const saveSessionSummary = async (summary: string) => {
+    if (!currentSessionId) return;
+
+    const updated: SessionMemory = {
+      summary: summary || null,
+      summary_updated_at: new Date().toISOString()
+    };
+
+    try {
+      const { error } = await supabase
+        .from('chat_sessions')
+        .update(updated)
+        .eq('id', currentSessionId);
+
+      if (error) throw error;
+
+      setSessionMemory(updated);
+      toast({
+        title: 'Saved',
+        description: 'Conversation memory updated'
+      });
+    } catch (error) {
+      console.error('Error saving conversation summary:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save conversation memory',
+        variant: 'destructive'
+      });
+    }
+  };
+
   const createNewSession = async () => {
     try {
       const { data, error } = await supabase
@@ -227,6 +294,7 @@ const AIChatbot = () => {
       setIsLoading(false);
       setIsStreaming(true);
       setStreamingMessage('');
+      setStreamingCitations([]);
       
       const response = await fetch(
         `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-lawyer-chat`,
@@ -239,7 +307,8 @@ const AIChatbot = () => {
           body: JSON.stringify({
             message: userMessage,
             sessionId: currentSessionId,
-            stream: true
+            stream: true,
+            language
           })
         }
       );
@@ -253,6 +322,7 @@ const AIChatbot = () => {
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let fullResponse = '';
+      let responseCitations: Citation[] = [];
       let sessionId = currentSessionId;
 
       if (reader) {
@@ -280,6 +350,17 @@ const AIChatbot = () => {
                   setCurrentSessionId(sessionId);
                 }
                 
+                // Handle retrieved statute citations
+                if (Array.isArray(parsed.citations)) {
+                  responseCitations = parsed.citations;
+                  setStreamingCitations(parsed.citations);
+                }
+                
+                // Handle refreshed conversation summary
+                if (parsed.summaryUpdatedAt) {
+                  setSessionMemory({ summary: parsed.summary, summary_updated_at: parsed.summaryUpdatedAt });
+                }
+                
                 // Handle content chunks
                 if (parsed.content) {
                   fullResponse += parsed.content;
@@ -296,6 +377,7 @@ const AIChatbot = () => {
       // Save the complete message to database and reload
       setIsStreaming(false);
       setStreamingMessage('');
+      setStreamingCitations([]);
       
       if (sessionId) {
         // Reload sessions if new one was created
@@ -310,6 +392,7 @@ const AIChatbot = () => {
           id: 'ai-' + Date.now(),
           role: 'assistant',
           content: fullResponse,
+          citations: responseCitations,
           created_at: new Date().toISOString()
         };
         setMessages(prev => [...prev, aiMessage]);
@@ -328,12 +411,27 @@ const AIChatbot = () => {
       setMessages(prev => prev.filter(m => m.id !== tempUserMessage.id));
       setIsStreaming(false);
       setStreamingMessage('');
+      setStreamingCitations([]);
     } finally {
       setIsLoading(false);
       textareaRef.current?.focus();
     }
   };
 
+  // Open a footnote and bring it into view when an inline [n] marker is clicked
+  const selectCitation = (messageId: string, number: number | null) => {
+    if (number === null) {
+      setActiveCitation(null);
+      return;
+    }
+    setActiveCitation({ messageId, number });
+    requestAnimationFrame(() => {
+      document
+        .getElementById(`cite-${messageId}-${number}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -451,16 +549,36 @@ const AIChatbot = () => {
                 <div className="p-2 rounded-lg bg-primary/10">
                   <Bot className="h-6 w-6 text-primary" />
                 </div>
-                <div>
+                <div className="flex-1">
                   <CardTitle className="text-xl">AI Legal Assistant</CardTitle>
                   <p className="text-sm text-muted-foreground">
                     Ask me anything about Indian law
                   </p>
                 </div>
+                {currentSessionId && messages.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => setEscalateOpen(true)}
+                    disabled={isLoading || isStreaming}
+                  >
+                    <Briefcase className="h-4 w-4" />
+                    Send to a lawyer
+                  </Button>
+                )}
               </div>
             </CardHeader>
             
             <CardContent className="flex-1 overflow-hidden p-0 flex flex-col">
+              {currentSessionId && (
+                <ConversationSummary
+                  summary={sessionMemory.summary}
+                  updatedAt={sessionMemory.summary_updated_at}
+                  onSave={saveSessionSummary}
+                />
+              )}
+
               {/* Messages Area */}
               <ScrollArea className="flex-1 p-4">
                 {messages.length === 0 ? (
@@ -549,11 +667,21 @@ const AIChatbot = () => {
                                       </code>
                                     )
                                   ),
-                                  // Style links
-                                  a: ({ node, children, ...props }: any) => (
-                                    <a className="text-primary hover:underline" {...props}>
-                                      {children}
-                                    </a>
+                                  // Style links, [n] citation markers become footnote buttons
+                                  a: ({ node, children, href, ...props }: any) => (
+                                    href?.startsWith(CITATION_HREF_PREFIX) ? (
+                                      <button
+                                        type="button"
+                                        className="align-super text-[10px] font-semibold text-primary hover:underline px-0.5"
+                                        onClick={() => selectCitation(message.id, parseInt(href.slice(CITATION_HREF_PREFIX.length), 10))}
+                                      >
+                                        {children}
+                                      </button>
+                                    ) : (
+                                      <a className="text-primary hover:underline" href={href} {...props}>
+                                        {children}
+                                      </a>
+                                    )
                                   ),
                                   // Style lists
                                   ul: ({ node, children, ...props }: any) => (
@@ -608,8 +736,14 @@ const AIChatbot = () => {
                                   ),
                                 }}
                               >
-                                {message.content}
+                                {linkCitationMarkers(message.content, message.citations)}
                               </ReactMarkdown>
+                              <CitationFootnotes
+                                messageId={message.id}
+                                citations={message.citations || []}
+                                activeNumber={activeCitation?.messageId === message.id ? activeCitation.number : null}
+                                onSelect={(number) => selectCitation(message.id, number)}
+                              />
                             </div>
                           ) : (
                             <p className="text-sm whitespace-pre-wrap">{message.content}</p>
@@ -656,10 +790,20 @@ const AIChatbot = () => {
                                     </code>
                                   )
                                 ),
-                                a: ({ node, children, ...props }: any) => (
-                                  <a className="text-primary hover:underline" {...props}>
-                                    {children}
-                                  </a>
+                                a: ({ node, children, href, ...props }: any) => (
+                                  href?.startsWith(CITATION_HREF_PREFIX) ? (
+                                    <button
+                                      type="button"
+                                      className="align-super text-[10px] font-semibold text-primary hover:underline px-0.5"
+                                      onClick={() => selectCitation('streaming', parseInt(href.slice(CITATION_HREF_PREFIX.length), 10))}
+                                    >
+                                      {children}
+                                    </button>
+                                  ) : (
+                                    <a className="text-primary hover:underline" href={href} {...props}>
+                                      {children}
+                                    </a>
+                                  )
                                 ),
                                 ul: ({ node, children, ...props }: any) => (
                                   <ul className="list-disc list-inside space-y-1" {...props}>
@@ -710,8 +854,14 @@ const AIChatbot = () => {
                                 ),
                               }}
                             >
-                              {streamingMessage}
+                              {linkCitationMarkers(streamingMessage, streamingCitations)}
                             </ReactMarkdown>
+                            <CitationFootnotes
+                              messageId="streaming"
+                              citations={streamingCitations}
+                              activeNumber={activeCitation?.messageId === 'streaming' ? activeCitation.number : null}
+                              onSelect={(number) => selectCitation('streaming', number)}
+                            />
                           </div>
                           <div className="flex items-center gap-2 mt-2">
                             <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
@@ -775,6 +925,12 @@ const AIChatbot = () => {
           </Card>
         </div>
       </div>
+
+      <EscalateToLawyerDialog
+        open={escalateOpen}
+        onOpenChange={setEscalateOpen}
+        sessionId={currentSessionId}
+      />
     </div>
   );
 };
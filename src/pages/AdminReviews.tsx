@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import Navigation from '@/components/Navigation';
+import StarRating from '@/components/StarRating';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { EyeOff, Eye, Landmark, Loader2, MessageSquareWarning, Search } from 'lucide-react';
+import { LawyerReview, REVIEW_FIELDS, ReviewStatus } from '@/lib/reviews';
+
+type ModeratedReview = LawyerReview & { lawyer_name: string; client_name: string };
+
+// Newest reviews loaded into the console
+const REVIEW_LIMIT = 200;
+
+const formatWhen = (value: string) =>
+  new Date(value).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const AdminReviews = () => {
+  const { user, isAdmin, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [reviews, setReviews] = useState<ModeratedReview[]>([]);
+  const [loadingReviews, setLoadingReviews] = useState(true);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | ReviewStatus>('all');
+
+  // Hide dialog; a reason is required and shown to the reviewer and the lawyer
+  const [hiding, setHiding] = useState<ModeratedReview | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setLoadingReviews(true);
+      const { data, error } = await supabase
+        .from('lawyer_reviews')
+        .select(REVIEW_FIELDS)
+        .order('created_at', { ascending: false })
+        .limit(REVIEW_LIMIT);
+
+      if (error) throw error;
+      const rows = data || [];
+
+      const userIds = [...new Set(rows.flatMap((review) => [review.lawyer_id, review.client_id]))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('user_id, name').in('user_id', userIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map((profile) => [profile.user_id, profile.name]));
+
+      setReviews(rows.map((review) => ({
+        ...review,
+        lawyer_name: names.get(review.lawyer_id) || 'Unknown lawyer',
+        client_name: names.get(review.client_id) || 'Unknown client',
+      })));
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load reviews',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingReviews(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchReviews();
+    }
+  }, [user, isAdmin, fetchReviews]);
+
+  const setStatus = async (review: ModeratedReview, status: ReviewStatus, moderationReason: string | null) => {
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('lawyer_reviews')
+      .update({ status, moderation_reason: moderationReason })
+      .eq('id', review.id)
+      .select('status, moderation_reason, moderated_at')
+      .single();
+    setSaving(false);
+
+    if (error) {
+      console.error('Error moderating review:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string }).message || 'Failed to update review',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    setReviews((current) => current.map((item) => (item.id === review.id ? { ...item, ...data } : item)));
+    toast({
+      title: status === 'hidden' ? 'Review hidden' : 'Review restored',
+      description: `The rating for ${review.lawyer_name} has been recalculated`,
+    });
+    return true;
+  };
+
+  const hideReview = async () => {
+    if (!hiding || !reason.trim()) return;
+    if (await setStatus(hiding, 'hidden', reason.trim())) {
+      setHiding(null);
+      setReason('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen relative overflow-hidden bg-background flex items-center justify-center">
+        <div className="absolute inset-0 z-0"
+          style={{
+            backgroundImage: `
+              radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+              radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+            `
+          }}
+        />
+        <div className="relative z-10">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const query = search.trim().toLowerCase();
+  const visibleReviews = reviews.filter((review) =>
+    (statusFilter === 'all' || review.status === statusFilter) &&
+    (!query || [review.lawyer_name, review.client_name, review.comment, review.lawyer_reply]
+      .some((value) => value?.toLowerCase().includes(query)))
+  );
+  const hiddenCount = reviews.filter((review) => review.status === 'hidden').length;
+
+  return (
+    <div className="min-h-screen relative overflow-hidden bg-background">
+      {/* Purple radial gradients */}
+      <div className="absolute inset-0 z-0"
+        style={{
+          backgroundImage: `
+            radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+            radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+          `
+        }}
+      />
+
+      <Navigation />
+
+      <div className="relative z-10 container mx-auto px-4 pt-24 pb-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-3">
+                <MessageSquareWarning className="h-8 w-8 text-primary" />
+                Lawyer review moderation
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Hidden reviews stop counting towards a lawyer's rating and are only visible to the client and the lawyer
+              </p>
+            </div>
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/schemes')}>
+              <Landmark className="h-4 w-4" />
+              Schemes catalogue
+            </Button>
+          </div>
+
+          <Card className="glass">
+            <CardHeader>
+              <CardTitle>Reviews ({reviews.length})</CardTitle>
+              <CardDescription>
+                {hiddenCount} hidden · newest {REVIEW_LIMIT} shown
+              </CardDescription>
+              <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by lawyer, client or text"
+                    className="pl-9"
+                  />
+                </div>
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | ReviewStatus)}>
+                  <SelectTrigger className="sm:w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All reviews</SelectItem>
+                    <SelectItem value="published">Published</SelectItem>
+                    <SelectItem value="hidden">Hidden</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loadingReviews ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : visibleReviews.length === 0 ? (
+                <p className="text-center text-muted-foreground py-12">No reviews match</p>
+              ) : (
+                <div className="divide-y">
+                  {visibleReviews.map((review) => (
+                    <div key={review.id} className="py-4 flex flex-col md:flex-row md:items-start justify-between gap-4">
+                      <div className="space-y-2 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <StarRating value={review.rating} />
+                          <span className="text-sm font-medium">{review.client_name}</span>
+                          <span className="text-sm text-muted-foreground">on {review.lawyer_name}</span>
+                          <Badge variant={review.status === 'hidden' ? 'destructive' : 'secondary'}>
+                            {review.status === 'hidden' ? 'Hidden' : 'Published'}
+                          </Badge>
+                        </div>
+                        {review.comment ? (
+                          <p className="text-sm whitespace-pre-line">{review.comment}</p>
+                        ) : (
+                          <p className="text-sm text-muted-foreground italic">No written comment</p>
+                        )}
+                        {review.lawyer_reply && (
+                          <p className="text-sm text-muted-foreground pl-3 border-l-2 whitespace-pre-line">
+                            <span className="font-medium">Reply: </span>{review.lawyer_reply}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {formatWhen(review.created_at)}
+                          {review.status === 'hidden' && review.moderated_at &&
+                            ` · hidden ${formatWhen(review.moderated_at)}: ${review.moderation_reason}`}
+                        </p>
+                      </div>
+                      <div className="shrink-0">
+                        {review.status === 'hidden' ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            disabled={saving}
+                            onClick={() => setStatus(review, 'published', null)}
+                          >
+                            <Eye className="h-4 w-4" />
+                            Restore
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => {
+                              setHiding(review);
+                              setReason('');
+                            }}
+                          >
+                            <EyeOff className="h-4 w-4" />
+                            Hide
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={!!hiding} onOpenChange={(open) => !open && setHiding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hide review</DialogTitle>
+            <DialogDescription>
+              {hiding && `${hiding.client_name}'s review of ${hiding.lawyer_name} will no longer be shown publicly or counted in their rating.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="moderation-reason">Reason</Label>
+            <Textarea
+              id="moderation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Contains personal contact details"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">Shown to the client and the lawyer</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHiding(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={hideReview} disabled={saving || !reason.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Hide review
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminReviews;
@@ -0,0 +1,1021 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import Navigation from '@/components/Navigation';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Landmark, Loader2, MessageSquareWarning, Plus, Pencil, Trash2, Upload, Download, History, Archive, ArchiveRestore, Search, AlertTriangle, X,
+} from 'lucide-react';
+import {
+  ALL_INDIA,
+  AREA_OPTIONS,
+  CASTE_OPTIONS,
+  CatalogScheme,
+  CHANGE_ACTION_LABELS,
+  formatChangeValue,
+  GENDER_OPTIONS,
+  ImportRow,
+  INDIAN_STATES,
+  normalizeScheme,
+  OCCUPATION_OPTIONS,
+  parseSchemeImport,
+  SCHEME_CATEGORIES,
+  SCHEME_FIELDS,
+  SchemeChange,
+  schemesToCsv,
+} from '@/lib/schemeCatalog';
+
+// Editable form values; lists are one item per line
+interface SchemeForm {
+  name: string;
+  description: string;
+  benefits: string;
+  category: string;
+  state: string;
+  min_age: string;
+  max_age: string;
+  min_income: string;
+  max_income: string;
+  gender: string;
+  castes: string[];
+  genders: string[];
+  area_types: string[];
+  occupations: string[];
+  disability: boolean;
+  minority: boolean;
+  student: boolean;
+  income_basis: string;
+  conditions: string;
+  any_of: string;
+  application_process: string;
+  required_documents: string;
+  deadline: string;
+  official_website: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: SchemeForm = {
+  name: '',
+  description: '',
+  benefits: '',
+  category: 'Other',
+  state: ALL_INDIA,
+  min_age: '',
+  max_age: '',
+  min_income: '',
+  max_income: '',
+  gender: 'any',
+  castes: [],
+  genders: [],
+  area_types: [],
+  occupations: [],
+  disability: false,
+  minority: false,
+  student: false,
+  income_basis: 'applicant',
+  conditions: '',
+  any_of: '',
+  application_process: '',
+  required_documents: '',
+  deadline: '',
+  official_website: '',
+  is_active: true,
+};
+
+const toForm = (scheme: CatalogScheme): SchemeForm => {
+  const rules = scheme.eligibility_criteria ?? {};
+  return {
+    name: scheme.name,
+    description: scheme.description ?? '',
+    benefits: scheme.benefits ?? '',
+    category: scheme.category ?? 'Other',
+    state: scheme.state ?? ALL_INDIA,
+    min_age: scheme.min_age?.toString() ?? '',
+    max_age: scheme.max_age?.toString() ?? '',
+    min_income: scheme.min_income?.toString() ?? '',
+    max_income: scheme.max_income?.toString() ?? '',
+    gender: scheme.gender ?? 'any',
+    castes: rules.castes ?? [],
+    genders: rules.genders ?? [],
+    area_types: rules.area_types ?? [],
+    occupations: rules.occupations ?? [],
+    disability: !!rules.disability,
+    minority: !!rules.minority,
+    student: !!rules.student,
+    income_basis: rules.income_basis ?? 'applicant',
+    conditions: (rules.conditions ?? []).join('\n'),
+    any_of: rules.any_of?.length ? JSON.stringify(rules.any_of, null, 2) : '',
+    application_process: scheme.application_process ?? '',
+    required_documents: (scheme.required_documents ?? []).join('\n'),
+    deadline: scheme.deadline ?? '',
+    official_website: scheme.official_website ?? '',
+    is_active: scheme.is_active,
+  };
+};
+
+const lines = (value: string) => value.split('\n').map((line) => line.trim()).filter(Boolean);
+
+const fromForm = (form: SchemeForm) =>
+  normalizeScheme({
+    ...form,
+    // Applicant income is the default, so it is not stored
+    income_basis: form.income_basis === 'family' ? 'family' : '',
+    conditions: lines(form.conditions),
+    required_documents: lines(form.required_documents),
+  });
+
+const formatWhen = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AdminSchemes = () => {
+  const { user, isAdmin, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const [schemes, setSchemes] = useState<CatalogScheme[]>([]);
+  const [loadingSchemes, setLoadingSchemes] = useState(true);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'retired'>('all');
+
+  // Create / edit dialog; editingId is null for a new scheme
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SchemeForm>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<CatalogScheme | null>(null);
+
+  // Bulk import
+  const [importOpen, setImportOpen] = useState(false);
+  const [importFormat, setImportFormat] = useState<'csv' | 'json'>('csv');
+  const [importText, setImportText] = useState('');
+  const [importRows, setImportRows] = useState<ImportRow[] | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // Change history, optionally for one scheme
+  const [tab, setTab] = useState('schemes');
+  const [changes, setChanges] = useState<SchemeChange[]>([]);
+  const [loadingChanges, setLoadingChanges] = useState(false);
+  const [historyScheme, setHistoryScheme] = useState<CatalogScheme | null>(null);
+
+  const fetchSchemes = useCallback(async () => {
+    try {
+      setLoadingSchemes(true);
+      const { data, error } = await supabase
+        .from('government_schemes')
+        .select(SCHEME_FIELDS)
+        .order('name');
+
+      if (error) throw error;
+      setSchemes(data || []);
+    } catch (error) {
+      console.error('Error loading schemes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load schemes',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingSchemes(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchSchemes();
+    }
+  }, [user, isAdmin, fetchSchemes]);
+
+  const fetchChanges = useCallback(async () => {
+    try {
+      setLoadingChanges(true);
+      let query = supabase
+        .from('government_scheme_changes')
+        .select('id, scheme_id, scheme_name, action, source, changes, changed_by, created_at')
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (historyScheme) {
+        query = query.eq('scheme_id', historyScheme.id);
+      }
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setChanges(data || []);
+    } catch (error) {
+      console.error('Error loading change history:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load change history',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingChanges(false);
+    }
+  }, [historyScheme, toast]);
+
+  useEffect(() => {
+    if (user && isAdmin && tab === 'history') {
+      fetchChanges();
+    }
+  }, [user, isAdmin, tab, fetchChanges]);
+
+  const openEditor = (scheme?: CatalogScheme) => {
+    setEditingId(scheme?.id ?? null);
+    setForm(scheme ? toForm(scheme) : EMPTY_FORM);
+    setFormErrors([]);
+    setEditorOpen(true);
+  };
+
+  const saveScheme = async () => {
+    const { scheme, errors } = fromForm(form);
+    if (errors.length > 0) {
+      setFormErrors(errors);
+      return;
+    }
+
+    const duplicate = schemes.find((existing) => existing.id !== editingId && existing.name.toLowerCase() === scheme.name.toLowerCase());
+    if (duplicate) {
+      setFormErrors([`A scheme named "${duplicate.name}" already exists`]);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const row = { ...scheme, updated_by: user!.id };
+      const { error } = editingId
+        ? await supabase.from('government_schemes').update(row).eq('id', editingId)
+        : await supabase.from('government_schemes').insert(row);
+
+      if (error) throw error;
+
+      toast({
+        title: editingId ? 'Scheme updated' : 'Scheme created',
+        description: scheme.name,
+      });
+      setEditorOpen(false);
+      fetchSchemes();
+    } catch (error) {
+      console.error('Error saving scheme:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string })?.message || 'Failed to save scheme',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Retired schemes stay in the catalogue but are not matched to applicants
+  const setActive = async (scheme: CatalogScheme, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('government_schemes')
+        .update({ is_active: isActive, updated_by: user!.id })
+        .eq('id', scheme.id);
+
+      if (error) throw error;
+
+      setSchemes((current) => current.map((item) => (item.id === scheme.id ? { ...item, is_active: isActive } : item)));
+      toast({
+        title: isActive ? 'Scheme restored' : 'Scheme retired',
+        description: scheme.name,
+      });
+    } catch (error) {
+      console.error('Error updating scheme:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update scheme',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const deleteScheme = async () => {
+    if (!pendingDelete) return;
+    try {
+      const { error } = await supabase
+        .from('government_schemes')
+        .delete()
+        .eq('id', pendingDelete.id);
+
+      if (error) throw error;
+
+      setSchemes((current) => current.filter((item) => item.id !== pendingDelete.id));
+      toast({
+        title: 'Scheme deleted',
+        description: pendingDelete.name,
+      });
+    } catch (error) {
+      console.error('Error deleting scheme:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete scheme',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setImportFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setImportText(await file.text());
+    setImportRows(null);
+    setImportError(null);
+  };
+
+  const previewImport = () => {
+    const { rows, error } = parseSchemeImport(importText, importFormat);
+    const seen = new Set<string>();
+    for (const row of rows) {
+      const key = row.scheme.name.toLowerCase();
+      if (key && seen.has(key)) row.errors.push('the same name appears earlier in the file');
+      seen.add(key);
+    }
+    setImportRows(rows);
+    setImportError(error ?? (rows.length === 0 ? 'No schemes found in the file' : null));
+  };
+
+  const runImport = async () => {
+    if (!importRows || importRows.some((row) => row.errors.length > 0)) return;
+    try {
+      setImporting(true);
+      const { data, error } = await supabase.rpc('import_government_schemes', {
+        schemes: importRows.map((row) => row.scheme),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Import complete',
+        description: `${data.created} created, ${data.updated} updated`,
+      });
+      setImportOpen(false);
+      setImportText('');
+      setImportRows(null);
+      fetchSchemes();
+    } catch (error) {
+      console.error('Error importing schemes:', error);
+      toast({
+        title: 'Import failed',
+        description: (error as { message?: string })?.message || 'No schemes were changed',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toggleValue = (field: 'castes' | 'genders' | 'area_types' | 'occupations', value: string, checked: boolean) =>
+    setForm((current) => ({
+      ...current,
+      [field]: checked ? [...current[field], value] : current[field].filter((item) => item !== value),
+    }));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen relative overflow-hidden bg-background flex items-center justify-center">
+        <div className="absolute inset-0 z-0"
+          style={{
+            backgroundImage: `
+              radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+              radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+            `
+          }}
+        />
+        <div className="relative z-10">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const query = search.trim().toLowerCase();
+  const visibleSchemes = schemes.filter((scheme) =>
+    (statusFilter === 'all' || (statusFilter === 'active') === scheme.is_active) &&
+    (!query || [scheme.name, scheme.category, scheme.state].some((value) => value?.toLowerCase().includes(query)))
+  );
+  const importErrorCount = importRows?.filter((row) => row.errors.length > 0).length ?? 0;
+
+  const ruleOptions = (
+    field: 'castes' | 'genders' | 'area_types' | 'occupations',
+    label: string,
+    options: readonly { value: string; label: string }[],
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {options.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={form[field].includes(option.value)}
+              onCheckedChange={(checked) => toggleValue(field, option.value, checked === true)}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen relative overflow-hidden bg-background">
+      {/* Purple radial gradients */}
+      <div className="absolute inset-0 z-0"
+        style={{
+          backgroundImage: `
+            radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+            radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+          `
+        }}
+      />
+
+      <Navigation />
+
+      <div className="relative z-10 container mx-auto px-4 pt-24 pb-8">
+        <div className="max-w-6xl mx-auto space-y-6">
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-3">
+                <Landmark className="h-8 w-8 text-primary" />
+                Government schemes catalogue
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Schemes and eligibility rules used to match applicants on the Government Schemes page
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/reviews')}>
+                <MessageSquareWarning className="h-4 w-4" />
+                Reviews
+              </Button>
+              <Button
+                variant="outline"
+                className="gap-2"
+                disabled={schemes.length === 0}
+                onClick={() => download(schemesToCsv(schemes), 'government-schemes.csv', 'text/csv')}
+              >
+                <Download className="h-4 w-4" />
+                Export CSV
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={() => setImportOpen(true)}>
+                <Upload className="h-4 w-4" />
+                Import
+              </Button>
+              <Button className="gap-2" onClick={() => openEditor()}>
+                <Plus className="h-4 w-4" />
+                New scheme
+              </Button>
+            </div>
+          </div>
+
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList>
+              <TabsTrigger value="schemes">Schemes ({schemes.length})</TabsTrigger>
+              <TabsTrigger value="history">Change history</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="schemes">
+              <Card className="glass">
+                <CardHeader>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <div className="relative flex-1">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search by name, category or state"
+                        className="pl-9"
+                      />
+                    </div>
+                    <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+                      <SelectTrigger className="sm:w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All schemes</SelectItem>
+                        <SelectItem value="active">Active</SelectItem>
+                        <SelectItem value="retired">Retired</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {loadingSchemes ? (
+                    <div className="flex justify-center py-12">
+                      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                  ) : visibleSchemes.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-12">No schemes match your filters</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Scheme</TableHead>
+                          <TableHead>State</TableHead>
+                          <TableHead>Deadline</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Updated</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleSchemes.map((scheme) => (
+                          <TableRow key={scheme.id}>
+                            <TableCell>
+                              <p className="font-medium">{scheme.name}</p>
+                              <p className="text-xs text-muted-foreground">{scheme.category ?? 'Uncategorised'}</p>
+                            </TableCell>
+                            <TableCell>{scheme.state ?? ALL_INDIA}</TableCell>
+                            <TableCell>{scheme.deadline ?? '—'}</TableCell>
+                            <TableCell>
+                              <Badge variant={scheme.is_active ? 'default' : 'secondary'}>
+                                {scheme.is_active ? 'Active' : 'Retired'}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{formatWhen(scheme.updated_at)}</TableCell>
+                            <TableCell>
+                              <div className="flex justify-end gap-1">
+                                <Button variant="ghost" size="icon" title="Edit" onClick={() => openEditor(scheme)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="History"
+                                  onClick={() => {
+                                    setHistoryScheme(scheme);
+                                    setTab('history');
+                                  }}
+                                >
+                                  <History className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title={scheme.is_active ? 'Retire' : 'Restore'}
+                                  onClick={() => setActive(scheme, !scheme.is_active)}
+                                >
+                                  {scheme.is_active ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                                </Button>
+                                <Button variant="ghost" size="icon" title="Delete" onClick={() => setPendingDelete(scheme)}>
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="history">
+              <Card className="glass">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5 text-primary" />
+                    {historyScheme ? historyScheme.name : 'All changes'}
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-2">
+                    Latest 100 changes, newest first
+                    {historyScheme && (
+                      <Button variant="ghost" size="sm" className="h-6 gap-1" onClick={() => setHistoryScheme(null)}>
+                        <X className="h-3 w-3" />
+                        Show all schemes
+                      </Button>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {loadingChanges ? (
+                    <div className="flex justify-center py-12">
+                      <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                  ) : changes.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-12">No changes recorded yet</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {changes.map((change) => (
+                        <div key={change.id} className="rounded-md border border-border/50 p-3 space-y-2">
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <Badge variant={change.action === 'deleted' ? 'destructive' : 'secondary'}>
+                              {CHANGE_ACTION_LABELS[change.action]}
+                            </Badge>
+                            <span className="font-medium">{change.scheme_name}</span>
+                            {change.source === 'import' && <Badge variant="outline">Import</Badge>}
+                            <span className="text-xs text-muted-foreground ml-auto">{formatWhen(change.created_at)}</span>
+                          </div>
+                          {(change.action === 'updated' || change.action === 'retired' || change.action === 'restored') && (
+                            <ul className="text-xs space-y-1">
+                              {Object.entries(change.changes as Record<string, { old: unknown; new: unknown }>).map(([field, diff]) => (
+                                <li key={field} className="break-words">
+                                  <span className="font-mono text-muted-foreground">{field}</span>:{' '}
+                                  <span className="line-through text-red-600">{formatChangeValue(diff.old)}</span>
+                                  {' → '}
+                                  <span className="text-green-600">{formatChangeValue(diff.new)}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit scheme' : 'New scheme'}</DialogTitle>
+            <DialogDescription>
+              Limits and rules decide who is matched; leave a rule empty if it does not apply.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="name">Name *</Label>
+                <Input id="name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={(value) => setForm({ ...form, category: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...new Set([...SCHEME_CATEGORIES, form.category])].map((category) => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>State</Label>
+                <Select value={form.state} onValueChange={(value) => setForm({ ...form, state: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_INDIA}>{ALL_INDIA}</SelectItem>
+                    {INDIAN_STATES.map((state) => (
+                      <SelectItem key={state} value={state}>{state}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea id="description" rows={2} value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="benefits">Benefits</Label>
+                <Textarea id="benefits" rows={2} value={form.benefits} onChange={(e) => setForm({ ...form, benefits: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="space-y-4 rounded-md border border-border/50 p-4">
+              <h3 className="font-semibold">Eligibility</h3>
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor="min_age">Minimum age</Label>
+                  <Input id="min_age" type="number" min="0" value={form.min_age} onChange={(e) => setForm({ ...form, min_age: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_age">Maximum age</Label>
+                  <Input id="max_age" type="number" min="0" value={form.max_age} onChange={(e) => setForm({ ...form, max_age: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="min_income">Minimum income (₹/year)</Label>
+                  <Input id="min_income" type="number" min="0" value={form.min_income} onChange={(e) => setForm({ ...form, min_income: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max_income">Maximum income (₹/year)</Label>
+                  <Input id="max_income" type="number" min="0" value={form.max_income} onChange={(e) => setForm({ ...form, max_income: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Income limit applies to</Label>
+                  <Select value={form.income_basis} onValueChange={(value) => setForm({ ...form, income_basis: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="applicant">Applicant's income</SelectItem>
+                      <SelectItem value="family">Family / guardian income</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Gender (legacy column)</Label>
+                  <Select value={form.gender} onValueChange={(value) => setForm({ ...form, gender: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any</SelectItem>
+                      <SelectItem value="female">Women only</SelectItem>
+                      <SelectItem value="male">Men only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {ruleOptions('castes', 'Categories', CASTE_OPTIONS)}
+              {ruleOptions('genders', 'Genders', GENDER_OPTIONS)}
+              {ruleOptions('area_types', 'Area', AREA_OPTIONS)}
+              {ruleOptions('occupations', 'Occupations', OCCUPATION_OPTIONS)}
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                {([
+                  ['disability', 'Persons with disabilities only'],
+                  ['minority', 'Minority communities only'],
+                  ['student', 'Students only'],
+                ] as const).map(([field, label]) => (
+                  <label key={field} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form[field]}
+                      onCheckedChange={(checked) => setForm({ ...form, [field]: checked === true })}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="conditions">Conditions to verify</Label>
+                <Textarea
+                  id="conditions"
+                  rows={3}
+                  value={form.conditions}
+                  onChange={(e) => setForm({ ...form, conditions: e.target.value })}
+                  placeholder="One per line, e.g. You own cultivable land in your name"
+                />
+                <p className="text-xs text-muted-foreground">Shown to applicants as "to check"; the form cannot verify them</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="any_of">Alternative rule groups (JSON)</Label>
+                <Textarea
+                  id="any_of"
+                  rows={3}
+                  className="font-mono text-xs"
+                  value={form.any_of}
+                  onChange={(e) => setForm({ ...form, any_of: e.target.value })}
+                  placeholder='[{"castes": ["sc", "st"]}, {"genders": ["female"]}]'
+                />
+                <p className="text-xs text-muted-foreground">Applicants must meet at least one group, as well as every rule above</p>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="required_documents">Required documents</Label>
+                <Textarea
+                  id="required_documents"
+                  rows={3}
+                  value={form.required_documents}
+                  onChange={(e) => setForm({ ...form, required_documents: e.target.value })}
+                  placeholder="One per line"
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="application_process">How to apply</Label>
+                <Textarea
+                  id="application_process"
+                  rows={3}
+                  value={form.application_process}
+                  onChange={(e) => setForm({ ...form, application_process: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="official_website">Official website</Label>
+                <Input
+                  id="official_website"
+                  type="url"
+                  value={form.official_website}
+                  onChange={(e) => setForm({ ...form, official_website: e.target.value })}
+                  placeholder="https://"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deadline">Application deadline</Label>
+                <Input id="deadline" type="date" value={form.deadline} onChange={(e) => setForm({ ...form, deadline: e.target.value })} />
+              </div>
+              <label className="flex items-center gap-3 text-sm">
+                <Switch checked={form.is_active} onCheckedChange={(checked) => setForm({ ...form, is_active: checked })} />
+                Active (matched to applicants)
+              </label>
+            </div>
+
+            {formErrors.length > 0 && (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm space-y-1">
+                {formErrors.map((error) => (
+                  <p key={error} className="flex items-start gap-2 text-destructive">
+                    <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                    {error}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>Cancel</Button>
+            <Button onClick={saveScheme} disabled={saving} className="gap-2">
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              {editingId ? 'Save changes' : 'Create scheme'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import schemes</DialogTitle>
+            <DialogDescription>
+              Schemes are matched by name: new names are created and existing ones are replaced. Nothing is saved if any row fails.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select
+                  value={importFormat}
+                  onValueChange={(value) => {
+                    setImportFormat(value as 'csv' | 'json');
+                    setImportRows(null);
+                  }}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="json">JSON</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-file">File</Label>
+                <Input id="import-file" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleImportFile} />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-2"
+                onClick={() => download(schemesToCsv([]), 'schemes-template.csv', 'text/csv')}
+              >
+                <Download className="h-4 w-4" />
+                CSV template
+              </Button>
+            </div>
+            <Textarea
+              rows={8}
+              className="font-mono text-xs"
+              value={importText}
+              onChange={(e) => {
+                setImportText(e.target.value);
+                setImportRows(null);
+              }}
+              placeholder={importFormat === 'csv'
+                ? 'name,category,state,max_income,castes,required_documents\nExample scheme,Education,Kerala,250000,sc|st,Aadhaar|Income certificate'
+                : '[{ "name": "Example scheme", "state": "Kerala", "eligibility_criteria": { "castes": ["sc", "st"] } }]'}
+            />
+            <p className="text-xs text-muted-foreground">
+              In CSV, separate list values (castes, genders, area_types, occupations, conditions, required_documents) with |.
+              any_of takes a JSON array of rule groups.
+            </p>
+
+            {importError && (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {importError}
+              </p>
+            )}
+
+            {importRows && importRows.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  {importRows.length} schemes,{' '}
+                  {importRows.filter((row) => schemes.some((scheme) => scheme.name.toLowerCase() === row.scheme.name.toLowerCase())).length} already in the catalogue
+                  {importErrorCount > 0 && <span className="text-destructive">, {importErrorCount} with errors</span>}
+                </p>
+                <div className="max-h-64 overflow-y-auto rounded-md border border-border/50">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        <TableHead>Scheme</TableHead>
+                        <TableHead>State</TableHead>
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {importRows.map((row) => (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell>{row.scheme.name || '—'}</TableCell>
+                          <TableCell>{row.scheme.state}</TableCell>
+                          <TableCell className={row.errors.length ? 'text-destructive text-xs' : 'text-green-600 text-xs'}>
+                            {row.errors.length ? row.errors.join('; ') : 'OK'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={previewImport} disabled={!importText.trim()}>Preview</Button>
+            <Button
+              onClick={runImport}
+              disabled={importing || !importRows || importRows.length === 0 || importErrorCount > 0}
+              className="gap-2"
+            >
+              {importing && <Loader2 className="h-4 w-4 animate-spin" />}
+              Import {importRows?.length ? `${importRows.length} schemes` : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this scheme?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" will be removed from the catalogue; users who saved it keep their copy and application
+              tracker. Retire it instead to stop matching it while keeping it editable. The change history keeps a copy either way.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteScheme} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminSchemes;
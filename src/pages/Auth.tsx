@@ -12,10 +12,18 @@ import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { Scale, UserCheck, Briefcase, Home, RefreshCcw } from 'lucide-react';
 import { clearSupabaseStorage } from '@/lib/auth-utils';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+// In-app path from ?redirect=, ignoring anything that would leave the site or loop back here
+const redirectPath = (search: string) => {
+  const path = new URLSearchParams(search).get('redirect');
+  return path && /^\/(?![/\\])/.test(path) && !path.startsWith('/auth') ? path : null;
+};
 
 const Auth = () => {
   const { signIn, signUp, user, userRole, loading: authLoading } = useAuth();
   const { setTheme } = useTheme();
+  const { t } = useLanguage();
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
@@ -31,8 +39,9 @@ const Auth = () => {
     // Only redirect after auth is fully loaded and we have both user and role
     if (!authLoading && user && userRole !== null) {
       console.log('Auth - User logged in, role:', userRole, 'current path:', location.pathname);
-      // Simple redirect: lawyers go to dashboard, users go to home
-      const destination = userRole === 'lawyer' ? '/lawyer-dashboard' : '/';
+      // Back to the page that sent them here (e.g. a public lawyer profile), otherwise
+      // lawyers go to dashboard, users go to home
+      const destination = redirectPath(location.search) ?? (userRole === 'lawyer' ? '/lawyer-dashboard' : '/');
       
       // Only redirect if not already at the destination
       if (location.pathname !== destination) {
@@ -42,13 +51,13 @@ const Auth = () => {
         console.log('Auth - Already at destination, not redirecting');
       }
     }
-  }, [user, userRole, authLoading, navigate, location.pathname]);
+  }, [user, userRole, authLoading, navigate, location.pathname, location.search]);
 
   const handleClearCache = () => {
     const keysCleared = clearSupabaseStorage();
     toast({
-      title: "Cache Cleared",
-      description: `Cleared ${keysCleared} authentication items. Please try signing in again.`,
+      title: t('auth.cacheCleared'),
+      description: t('auth.cacheClearedDescription', { count: keysCleared }),
     });
     // Reload the page to reset everything
     setTimeout(() => {
@@ -87,23 +96,23 @@ const Auth = () => {
       
       if (error) {
         toast({
-          title: "Sign In Failed",
+          title: t('auth.signInFailed'),
           description: error.message,
           variant: "destructive"
         });
         setLoading(false);
       } else {
         toast({
-          title: "Welcome back!",
-          description: "Successfully signed in.",
+          title: t('auth.welcomeBack'),
+          description: t('auth.signedIn'),
         });
         // Don't navigate here - let the useEffect handle it after userRole is loaded
         // The useEffect above will automatically redirect based on role
       }
     } catch (error) {
       toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
+        title: t('auth.error'),
+        description: t('auth.unexpectedError'),
         variant: "destructive"
       });
       setLoading(false);
@@ -116,8 +125,8 @@ const Auth = () => {
 
     if (signUpData.password !== signUpData.confirmPassword) {
       toast({
-        title: "Password Mismatch",
-        description: "Passwords do not match.",
+        title: t('auth.passwordMismatch'),
+        description: t('auth.passwordMismatchDescription'),
         variant: "destructive"
       });
       setLoading(false);
@@ -126,8 +135,8 @@ const Auth = () => {
 
     if (signUpData.password.length < 6) {
       toast({
-        title: "Weak Password",
-        description: "Password must be at least 6 characters long.",
+        title: t('auth.weakPassword'),
+        description: t('auth.weakPasswordDescription'),
         variant: "destructive"
       });
       setLoading(false);
@@ -156,23 +165,23 @@ const Auth = () => {
       
       if (error) {
         toast({
-          title: "Sign Up Failed",
+          title: t('auth.signUpFailed'),
           description: error.message,
           variant: "destructive"
         });
         setLoading(false);
       } else {
         toast({
-          title: "Account Created!",
-          description: "Welcome to NyaAI! Your account has been created.",
+          title: t('auth.accountCreated'),
+          description: t('auth.accountCreatedDescription'),
         });
         // Don't navigate here - let the useEffect handle it after userRole is loaded
         // The useEffect above will automatically redirect based on role
       }
     } catch (error) {
       toast({
-        title: "Error",
-        description: "An unexpected error occurred.",
+        title: t('auth.error'),
+        description: t('auth.unexpectedError'),
         variant: "destructive"
       });
       setLoading(false);
@@ -201,52 +210,52 @@ const Auth = () => {
               NyaAI
             </span>
           </div>
-          <h1 className="text-5xl font-bold mb-4 text-foreground drop-shadow-lg">Welcome</h1>
+          <h1 className="text-5xl font-bold mb-4 text-foreground drop-shadow-lg">{t('auth.welcome')}</h1>
           <p className="text-xl text-foreground/90 font-medium drop-shadow">
-            Empowering Justice Through AI
+            {t('auth.tagline')}
           </p>
         </div>
 
         <Card className="backdrop-blur-sm bg-card/80 border-border/50">
           <CardHeader className="space-y-1">
-            <CardTitle className="text-2xl text-center">Get Started</CardTitle>
+            <CardTitle className="text-2xl text-center">{t('auth.getStarted')}</CardTitle>
             <CardDescription className="text-center">
-              Sign in to your account or create a new one
+              {t('auth.subtitle')}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="signin" className="w-full">
               <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="signin">Sign In</TabsTrigger>
-                <TabsTrigger value="signup">Sign Up</TabsTrigger>
+                <TabsTrigger value="signin">{t('auth.signIn')}</TabsTrigger>
+                <TabsTrigger value="signup">{t('auth.signUp')}</TabsTrigger>
               </TabsList>
               
               <TabsContent value="signin">
                 <form onSubmit={handleSignIn} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="signin-email">Email</Label>
+                    <Label htmlFor="signin-email">{t('auth.email')}</Label>
                     <Input
                       id="signin-email"
                       type="email"
-                      placeholder="Enter your email"
+                      placeholder={t('auth.emailPlaceholder')}
                       value={signInData.email}
                       onChange={(e) => setSignInData(prev => ({ ...prev, email: e.target.value }))}
                       required
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signin-password">Password</Label>
+                    <Label htmlFor="signin-password">{t('auth.password')}</Label>
                     <Input
                       id="signin-password"
                       type="password"
-                      placeholder="Enter your password"
+                      placeholder={t('auth.passwordPlaceholder')}
                       value={signInData.password}
                       onChange={(e) => setSignInData(prev => ({ ...prev, password: e.target.value }))}
                       required
                     />
                   </div>
                   <Button type="submit" className="w-full" disabled={loading}>
-                    {loading ? 'Signing In...' : 'Sign In'}
+                    {loading ? t('auth.signingIn') : t('auth.signIn')}
                   </Button>
                   
                   {/* Clear Cache Button */}
@@ -258,10 +267,10 @@ const Auth = () => {
                       onClick={handleClearCache}
                     >
                       <RefreshCcw className="h-4 w-4" />
-                      Having Issues? Clear Cache & Retry
+                      {t('auth.clearCache')}
                     </Button>
                     <p className="text-xs text-muted-foreground text-center mt-2">
-                      Use this if you're stuck or unable to sign in
+                      {t('auth.clearCacheHint')}
                     </p>
                   </div>
                 </form>
@@ -270,66 +279,66 @@ const Auth = () => {
               <TabsContent value="signup">
                 <form onSubmit={handleSignUp} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="signup-name">Full Name</Label>
+                    <Label htmlFor="signup-name">{t('auth.fullName')}</Label>
                     <Input
                       id="signup-name"
                       type="text"
-                      placeholder="Enter your full name"
+                      placeholder={t('auth.fullNamePlaceholder')}
                       value={signUpData.name}
                       onChange={(e) => setSignUpData(prev => ({ ...prev, name: e.target.value }))}
                       required
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signup-email">Email</Label>
+                    <Label htmlFor="signup-email">{t('auth.email')}</Label>
                     <Input
                       id="signup-email"
                       type="email"
-                      placeholder="Enter your email"
+                      placeholder={t('auth.emailPlaceholder')}
                       value={signUpData.email}
                       onChange={(e) => setSignUpData(prev => ({ ...prev, email: e.target.value }))}
                       required
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="role">Account Type</Label>
+                    <Label htmlFor="role">{t('auth.accountType')}</Label>
                     <Select value={signUpData.role} onValueChange={(value: 'user' | 'lawyer') => setSignUpData(prev => ({ ...prev, role: value }))}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select account type" />
+                        <SelectValue placeholder={t('auth.accountTypePlaceholder')} />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="user">
                           <div className="flex items-center gap-2">
                             <UserCheck className="h-4 w-4" />
-                            User - Seeking Legal Help
+                            {t('auth.roleUser')}
                           </div>
                         </SelectItem>
                         <SelectItem value="lawyer">
                           <div className="flex items-center gap-2">
                             <Briefcase className="h-4 w-4" />
-                            Lawyer - Legal Professional
+                            {t('auth.roleLawyer')}
                           </div>
                         </SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="signup-password">Password</Label>
+                    <Label htmlFor="signup-password">{t('auth.password')}</Label>
                     <Input
                       id="signup-password"
                       type="password"
-                      placeholder="Create a password"
+                      placeholder={t('auth.createPasswordPlaceholder')}
                       value={signUpData.password}
                       onChange={(e) => setSignUpData(prev => ({ ...prev, password: e.target.value }))}
                       required
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="confirm-password">Confirm Password</Label>
+                    <Label htmlFor="confirm-password">{t('auth.confirmPassword')}</Label>
                     <Input
                       id="confirm-password"
                       type="password"
-                      placeholder="Confirm your password"
+                      placeholder={t('auth.confirmPasswordPlaceholder')}
                       value={signUpData.confirmPassword}
                       onChange={(e) => setSignUpData(prev => ({ ...prev, confirmPassword: e.target.value }))}
                      required
@@ -340,26 +349,26 @@ const Auth = () => {
                    {signUpData.role === 'lawyer' && (
                      <>
                        <div className="space-y-4 border-t border-border/50 pt-4 mt-4">
-                         <h3 className="text-lg font-semibold text-foreground">Professional Details</h3>
+                         <h3 className="text-lg font-semibold text-foreground">{t('auth.professionalDetails')}</h3>
                          
                          <div className="grid grid-cols-2 gap-3">
                            <div className="space-y-2">
-                             <Label htmlFor="license-number">License Number *</Label>
+                             <Label htmlFor="license-number">{t('auth.licenseNumber')}</Label>
                              <Input
                                id="license-number"
                                type="text"
-                               placeholder="Bar License No."
+                               placeholder={t('auth.licenseNumberPlaceholder')}
                                value={signUpData.licenseNumber}
                                onChange={(e) => setSignUpData(prev => ({ ...prev, licenseNumber: e.target.value }))}
                                required
                              />
                            </div>
                            <div className="space-y-2">
-                             <Label htmlFor="experience">Experience (Years)</Label>
+                             <Label htmlFor="experience">{t('auth.experience')}</Label>
                              <Input
                                id="experience"
                                type="number"
-                               placeholder="Years"
+                               placeholder={t('auth.experiencePlaceholder')}
                                value={signUpData.experienceYears}
                                onChange={(e) => setSignUpData(prev => ({ ...prev, experienceYears: e.target.value }))}
                              />
@@ -367,60 +376,60 @@ const Auth = () => {
                          </div>
 
                          <div className="space-y-2">
-                           <Label htmlFor="specialization">Primary Specialization *</Label>
+                           <Label htmlFor="specialization">{t('auth.specialization')}</Label>
                            <Select value={signUpData.specialization} onValueChange={(value) => setSignUpData(prev => ({ ...prev, specialization: value }))}>
                              <SelectTrigger>
-                               <SelectValue placeholder="Select specialization" />
+                               <SelectValue placeholder={t('auth.specializationPlaceholder')} />
                              </SelectTrigger>
                              <SelectContent>
-                               <SelectItem value="criminal">Criminal Law</SelectItem>
-                               <SelectItem value="civil">Civil Law</SelectItem>
-                               <SelectItem value="corporate">Corporate Law</SelectItem>
-                               <SelectItem value="family">Family Law</SelectItem>
-                               <SelectItem value="property">Property Law</SelectItem>
-                               <SelectItem value="labor">Labor Law</SelectItem>
-                               <SelectItem value="tax">Tax Law</SelectItem>
-                               <SelectItem value="immigration">Immigration Law</SelectItem>
-                               <SelectItem value="intellectual">Intellectual Property</SelectItem>
-                               <SelectItem value="environmental">Environmental Law</SelectItem>
+                               <SelectItem value="criminal">{t('auth.specCriminal')}</SelectItem>
+                               <SelectItem value="civil">{t('auth.specCivil')}</SelectItem>
+                               <SelectItem value="corporate">{t('auth.specCorporate')}</SelectItem>
+                               <SelectItem value="family">{t('auth.specFamily')}</SelectItem>
+                               <SelectItem value="property">{t('auth.specProperty')}</SelectItem>
+                               <SelectItem value="labor">{t('auth.specLabor')}</SelectItem>
+                               <SelectItem value="tax">{t('auth.specTax')}</SelectItem>
+                               <SelectItem value="immigration">{t('auth.specImmigration')}</SelectItem>
+                               <SelectItem value="intellectual">{t('auth.specIntellectual')}</SelectItem>
+                               <SelectItem value="environmental">{t('auth.specEnvironmental')}</SelectItem>
                              </SelectContent>
                            </Select>
                          </div>
 
                          <div className="space-y-2">
-                           <Label htmlFor="court-level">Court Level Experience</Label>
+                           <Label htmlFor="court-level">{t('auth.courtLevel')}</Label>
                            <Select value={signUpData.courtLevel} onValueChange={(value) => setSignUpData(prev => ({ ...prev, courtLevel: value }))}>
                              <SelectTrigger>
-                               <SelectValue placeholder="Select court level" />
+                               <SelectValue placeholder={t('auth.courtLevelPlaceholder')} />
                              </SelectTrigger>
                              <SelectContent>
-                               <SelectItem value="district">District Court</SelectItem>
-                               <SelectItem value="sessions">Sessions Court</SelectItem>
-                               <SelectItem value="high">High Court</SelectItem>
-                               <SelectItem value="supreme">Supreme Court</SelectItem>
-                               <SelectItem value="tribunal">Tribunal</SelectItem>
-                               <SelectItem value="all">All Levels</SelectItem>
+                               <SelectItem value="district">{t('auth.courtDistrict')}</SelectItem>
+                               <SelectItem value="sessions">{t('auth.courtSessions')}</SelectItem>
+                               <SelectItem value="high">{t('auth.courtHigh')}</SelectItem>
+                               <SelectItem value="supreme">{t('auth.courtSupreme')}</SelectItem>
+                               <SelectItem value="tribunal">{t('auth.courtTribunal')}</SelectItem>
+                               <SelectItem value="all">{t('auth.courtAll')}</SelectItem>
                              </SelectContent>
                            </Select>
                          </div>
 
                          <div className="grid grid-cols-2 gap-3">
                            <div className="space-y-2">
-                             <Label htmlFor="phone">Phone Number</Label>
+                             <Label htmlFor="phone">{t('auth.phone')}</Label>
                              <Input
                                id="phone"
                                type="tel"
-                               placeholder="Your contact number"
+                               placeholder={t('auth.phonePlaceholder')}
                                value={signUpData.phone}
                                onChange={(e) => setSignUpData(prev => ({ ...prev, phone: e.target.value }))}
                              />
                            </div>
                            <div className="space-y-2">
-                             <Label htmlFor="location">City/Location</Label>
+                             <Label htmlFor="location">{t('auth.location')}</Label>
                              <Input
                                id="location"
                                type="text"
-                               placeholder="Practice location"
+                               placeholder={t('auth.locationPlaceholder')}
                                value={signUpData.location}
                                onChange={(e) => setSignUpData(prev => ({ ...prev, location: e.target.value }))}
                              />
@@ -428,21 +437,21 @@ const Auth = () => {
                          </div>
 
                          <div className="space-y-2">
-                           <Label htmlFor="bar-association">Bar Association</Label>
+                           <Label htmlFor="bar-association">{t('auth.barAssociation')}</Label>
                            <Input
                              id="bar-association"
                              type="text"
-                             placeholder="State Bar Council"
+                             placeholder={t('auth.barAssociationPlaceholder')}
                              value={signUpData.barAssociation}
                              onChange={(e) => setSignUpData(prev => ({ ...prev, barAssociation: e.target.value }))}
                            />
                          </div>
 
                          <div className="space-y-2">
-                           <Label htmlFor="practice-areas">Additional Practice Areas</Label>
+                           <Label htmlFor="practice-areas">{t('auth.practiceAreas')}</Label>
                            <Textarea
                              id="practice-areas"
-                             placeholder="Other areas of practice (optional)"
+                             placeholder={t('auth.practiceAreasPlaceholder')}
                              value={signUpData.practiceAreas}
                              onChange={(e) => setSignUpData(prev => ({ ...prev, practiceAreas: e.target.value }))}
                              rows={2}
@@ -453,7 +462,7 @@ const Auth = () => {
                    )}
 
                    <Button type="submit" className="w-full" disabled={loading}>
-                     {loading ? 'Creating Account...' : 'Create Account'}
+                     {loading ? t('auth.creatingAccount') : t('auth.createAccount')}
                    </Button>
                 </form>
               </TabsContent>
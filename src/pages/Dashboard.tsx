@@ -1,6 +1,13 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import Navigation from '@/components/Navigation';
+import DeadlineReminders from '@/components/DeadlineReminders';
+import SchemeApplicationBoard from '@/components/SchemeApplicationBoard';
+import SchemeAlertSettings from '@/components/SchemeAlertSettings';
+import UpcomingAppointments from '@/components/UpcomingAppointments';
+import ReviewYourLawyers from '@/components/ReviewYourLawyers';
+import LocationAutocomplete from '@/components/LocationAutocomplete';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,12 +17,16 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { LANGUAGES, isLanguageCode } from '@/i18n';
 import { 
   User, Mail, Phone, MapPin, Edit2, Save, X, 
   MessageSquare, Award, FileText, TrendingUp, 
   Clock, Calendar, Activity, BarChart3, Sparkles,
-  Bot, Shield, CheckCircle2, ArrowRight
+  Bot, Shield, CheckCircle2, ArrowRight, Globe, FolderOpen
 } from 'lucide-react';
+import { GeoPlace, locationColumns } from '@/lib/gazetteer';
 
 interface AnalyticsData {
   totalChats: number;
@@ -26,6 +37,7 @@ interface AnalyticsData {
     type: string;
     message: string;
     timestamp: string;
+    link?: string;
   }[];
   chatsByDay: { day: string; count: number }[];
 }
@@ -33,18 +45,17 @@ interface AnalyticsData {
 interface SavedScheme {
   id: string;
   scheme_name: string;
-  scheme_description: string;
-  scheme_category: string;
-  scheme_state: string;
-  scheme_benefits: string;
-  scheme_official_website: string | null;
   created_at: string;
 }
 
 const Dashboard = () => {
   const { user, profile, loading, updateProfile } = useAuth();
   const { toast } = useToast();
+  const { language, setLanguage, t } = useLanguage();
+  const navigate = useNavigate();
   const [isEditing, setIsEditing] = useState(false);
+  // Suggestion picked for the location, saved as its coordinates for nearby lawyer search
+  const [locationPlace, setLocationPlace] = useState<GeoPlace | null>(null);
   const [analytics, setAnalytics] = useState<AnalyticsData>({
     totalChats: 0,
     totalMessages: 0,
@@ -53,7 +64,6 @@ const Dashboard = () => {
     recentActivity: [],
     chatsByDay: []
   });
-  const [savedSchemes, setSavedSchemes] = useState<SavedScheme[]>([]);
   const [loadingAnalytics, setLoadingAnalytics] = useState(true);
   const [loadingTimeout, setLoadingTimeout] = useState(false);
   const [formData, setFormData] = useState({
@@ -116,12 +126,21 @@ const Dashboard = () => {
       // Fetch saved schemes
       const { data: schemes, error: schemesError } = await supabase
         .from('saved_schemes')
-        .select('*')
+        .select('id, scheme_name, created_at')
         .eq('user_id', user?.id)
         .order('created_at', { ascending: false });
 
       if (schemesError) console.error('Saved schemes error:', schemesError);
-      setSavedSchemes(schemes || []);
+
+      // Fetch recent documents
+      const { data: documents, error: documentsError } = await supabase
+        .from('documents')
+        .select('id, title, status, created_at')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+        .limit(3);
+
+      if (documentsError) console.error('Documents error:', documentsError);
 
       // Fetch scheme applications (if table exists)
       let schemesCount = 0;
@@ -163,6 +182,12 @@ const Dashboard = () => {
           type: 'scheme',
           message: `Saved: ${s.scheme_name}`,
           timestamp: s.created_at
+        })) || []),
+        ...(documents?.map((d) => ({
+          type: 'document',
+          message: t(d.status === 'summarized' ? 'dashboard.documentSummarized' : 'dashboard.documentUploaded', { title: d.title }),
+          timestamp: d.created_at,
+          link: d.status === 'summarized' ? `/document-summarizer?document=${d.id}` : '/documents'
         })) || [])
       ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()).slice(0, 5);
 
@@ -195,7 +220,7 @@ const Dashboard = () => {
         />
         <div className="relative z-10 text-center">
           <div className="animate-spin rounded-full h-24 w-24 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading your dashboard...</p>
+          <p className="text-muted-foreground">{t('dashboard.loading')}</p>
         </div>
       </div>
     );
@@ -220,7 +245,7 @@ const Dashboard = () => {
 
   const handleSave = async () => {
     try {
-      await updateProfile(formData);
+      await updateProfile({ ...formData, ...locationColumns(formData.location, locationPlace) });
       
       // Refresh profile data after update
       if (user) {
@@ -244,14 +269,14 @@ const Dashboard = () => {
       setIsEditing(false);
       
       toast({
-        title: "Profile Updated",
-        description: "Your profile has been successfully updated",
+        title: t('dashboard.profileUpdated'),
+        description: t('dashboard.profileUpdatedDescription'),
       });
     } catch (error) {
       console.error('Failed to update profile:', error);
       toast({
-        title: "Update Failed",
-        description: error instanceof Error ? error.message : "Failed to update profile",
+        title: t('dashboard.updateFailed'),
+        description: error instanceof Error ? error.message : t('dashboard.updateFailedDescription'),
         variant: "destructive",
       });
     }
@@ -285,10 +310,10 @@ const Dashboard = () => {
     const then = new Date(timestamp);
     const diffInSeconds = Math.floor((now.getTime() - then.getTime()) / 1000);
     
-    if (diffInSeconds < 60) return 'Just now';
-    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
-    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
-    return `${Math.floor(diffInSeconds / 86400)}d ago`;
+    if (diffInSeconds < 60) return t('dashboard.justNow');
+    if (diffInSeconds < 3600) return t('dashboard.minutesAgo', { count: Math.floor(diffInSeconds / 60) });
+    if (diffInSeconds < 86400) return t('dashboard.hoursAgo', { count: Math.floor(diffInSeconds / 3600) });
+    return t('dashboard.daysAgo', { count: Math.floor(diffInSeconds / 86400) });
   };
 
   return (
@@ -308,8 +333,8 @@ const Dashboard = () => {
       <div className="relative z-10 container mx-auto px-4 pt-24 pb-8">
         <div className="max-w-7xl mx-auto">
           <div className="mb-8">
-            <h1 className="text-4xl font-bold mb-2">Dashboard</h1>
-            <p className="text-muted-foreground text-lg">Welcome back, {displayProfile.name?.split(' ')[0]}! 👋</p>
+            <h1 className="text-4xl font-bold mb-2">{t('dashboard.title')}</h1>
+            <p className="text-muted-foreground text-lg">{t('dashboard.welcome', { name: displayProfile.name?.split(' ')[0] })}</p>
           </div>
 
           {/* Stats Grid */}
@@ -318,11 +343,11 @@ const Dashboard = () => {
               <CardContent className="pt-6">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Total Conversations</p>
+                    <p className="text-sm font-medium text-muted-foreground">{t('dashboard.totalConversations')}</p>
                     <p className="text-3xl font-bold mt-2">{analytics.totalChats}</p>
                     <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
                       <TrendingUp className="h-3 w-3" />
-                      AI Legal Advisor
+                      {t('dashboard.aiLegalAdvisor')}
                     </p>
                   </div>
                   <div className="h-12 w-12 rounded-full bg-blue-500/10 flex items-center justify-center">
@@ -336,11 +361,11 @@ const Dashboard = () => {
               <CardContent className="pt-6">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Messages Exchanged</p>
+                    <p className="text-sm font-medium text-muted-foreground">{t('dashboard.messagesExchanged')}</p>
                     <p className="text-3xl font-bold mt-2">{analytics.totalMessages}</p>
                     <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
                       <Bot className="h-3 w-3" />
-                      With AI Assistant
+                      {t('dashboard.withAiAssistant')}
                     </p>
                   </div>
                   <div className="h-12 w-12 rounded-full bg-green-500/10 flex items-center justify-center">
@@ -354,11 +379,11 @@ const Dashboard = () => {
               <CardContent className="pt-6">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Schemes Saved</p>
+                    <p className="text-sm font-medium text-muted-foreground">{t('dashboard.schemesSaved')}</p>
                     <p className="text-3xl font-bold mt-2">{analytics.schemesSaved}</p>
                     <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
                       <CheckCircle2 className="h-3 w-3" />
-                      Government Programs
+                      {t('dashboard.governmentPrograms')}
                     </p>
                   </div>
                   <div className="h-12 w-12 rounded-full bg-purple-500/10 flex items-center justify-center">
@@ -372,12 +397,12 @@ const Dashboard = () => {
               <CardContent className="pt-6">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm font-medium text-muted-foreground">Account Status</p>
+                    <p className="text-sm font-medium text-muted-foreground">{t('dashboard.accountStatus')}</p>
                     <Badge className="mt-2" variant="default">
                       <Shield className="h-3 w-3 mr-1" />
-                      Active
+                      {t('dashboard.active')}
                     </Badge>
-                    <p className="text-xs text-muted-foreground mt-2">Member since {new Date(user?.created_at || '').toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}</p>
+                    <p className="text-xs text-muted-foreground mt-2">{t('dashboard.memberSince', { date: new Date(user?.created_at || '').toLocaleDateString(language, { month: 'short', year: 'numeric' }) })}</p>
                   </div>
                   <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
                     <User className="h-6 w-6 text-primary" />
@@ -393,9 +418,9 @@ const Dashboard = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <BarChart3 className="h-5 w-5" />
-                  Activity This Week
+                  {t('dashboard.activityThisWeek')}
                 </CardTitle>
-                <CardDescription>Your daily conversation activity</CardDescription>
+                <CardDescription>{t('dashboard.activityDescription')}</CardDescription>
               </CardHeader>
               <CardContent>
                 {loadingAnalytics ? (
@@ -408,7 +433,7 @@ const Dashboard = () => {
                       <div key={index} className="space-y-2">
                         <div className="flex items-center justify-between text-sm">
                           <span className="text-muted-foreground font-medium">{item.day}</span>
-                          <span className="font-bold">{item.count} chat{item.count !== 1 ? 's' : ''}</span>
+                          <span className="font-bold">{t(item.count === 1 ? 'dashboard.chatCountOne' : 'dashboard.chatCountOther', { count: item.count })}</span>
                         </div>
                         <Progress 
                           value={(item.count / Math.max(...analytics.chatsByDay.map(d => d.count), 1)) * 100} 
@@ -424,11 +449,17 @@ const Dashboard = () => {
             {/* Recent Activity */}
             <Card className="glass">
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Clock className="h-5 w-5" />
-                  Recent Activity
-                </CardTitle>
-                <CardDescription>Your latest interactions</CardDescription>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="flex items-center gap-2">
+                    <Clock className="h-5 w-5" />
+                    {t('dashboard.recentActivity')}
+                  </CardTitle>
+                  <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate('/documents')}>
+                    <FolderOpen className="h-4 w-4" />
+                    {t('dashboard.myDocuments')}
+                  </Button>
+                </div>
+                <CardDescription>{t('dashboard.recentActivityDescription')}</CardDescription>
               </CardHeader>
               <CardContent>
                 {loadingAnalytics ? (
@@ -438,7 +469,11 @@ const Dashboard = () => {
                 ) : analytics.recentActivity.length > 0 ? (
                   <div className="space-y-4">
                     {analytics.recentActivity.map((activity, index) => (
-                      <div key={index} className="flex items-start gap-3 p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors">
+                      <div
+                        key={index}
+                        className={`flex items-start gap-3 p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors ${activity.link ? 'cursor-pointer' : ''}`}
+                        onClick={() => activity.link && navigate(activity.link)}
+                      >
                         <div className="mt-1">
                           {getActivityIcon(activity.type)}
                         </div>
@@ -455,115 +490,51 @@ const Dashboard = () => {
                 ) : (
                   <div className="h-48 flex flex-col items-center justify-center text-center">
                     <Activity className="h-12 w-12 text-muted-foreground/50 mb-3" />
-                    <p className="text-sm text-muted-foreground">No recent activity</p>
-                    <p className="text-xs text-muted-foreground mt-1">Start a conversation to see activity here</p>
+                    <p className="text-sm text-muted-foreground">{t('dashboard.noActivity')}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{t('dashboard.noActivityHint')}</p>
                   </div>
                 )}
               </CardContent>
             </Card>
           </div>
 
-          {/* Saved Schemes Section */}
-          {savedSchemes.length > 0 && (
-            <Card className="glass mb-8">
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div>
-                    <CardTitle className="flex items-center gap-2">
-                      <Award className="h-5 w-5" />
-                      Saved Schemes
-                    </CardTitle>
-                    <CardDescription>Government schemes you've saved for later</CardDescription>
-                  </div>
-                  <Badge variant="secondary">{savedSchemes.length} Saved</Badge>
-                </div>
-              </CardHeader>
-              <CardContent>
-                {loadingAnalytics ? (
-                  <div className="h-48 flex items-center justify-center">
-                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-                  </div>
-                ) : (
-                  <div className="space-y-4">
-                    {savedSchemes.map((scheme) => (
-                      <div 
-                        key={scheme.id} 
-                        className="p-4 rounded-lg bg-muted/50 hover:bg-muted transition-colors border border-border"
-                      >
-                        <div className="flex items-start justify-between gap-4 mb-4">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-2">
-                              {scheme.scheme_category && (
-                                <Badge variant="secondary">{scheme.scheme_category}</Badge>
-                              )}
-                              {scheme.scheme_state && (
-                                <Badge variant="outline">{scheme.scheme_state}</Badge>
-                              )}
-                            </div>
-                            <h3 className="font-semibold text-lg mb-2">{scheme.scheme_name}</h3>
-                            <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-                              {scheme.scheme_description}
-                            </p>
-                            {scheme.scheme_benefits && (
-                              <div className="flex items-start gap-2 text-sm">
-                                <CheckCircle2 className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
-                                <p className="text-muted-foreground line-clamp-2">{scheme.scheme_benefits}</p>
-                              </div>
-                            )}
-                          </div>
-                          <div className="text-right flex-shrink-0">
-                            <p className="text-xs text-muted-foreground flex items-center gap-1">
-                              <Calendar className="h-3 w-3" />
-                              {new Date(scheme.created_at).toLocaleDateString('en-US', { 
-                                month: 'short', 
-                                day: 'numeric' 
-                              })}
-                            </p>
-                          </div>
-                        </div>
-                        {scheme.scheme_official_website && scheme.scheme_official_website !== 'Visit nearest government office' && (
-                          <div className="pt-3 border-t">
-                            <Button
-                              size="sm"
-                              variant="outline"
-                              className="w-full"
-                              onClick={() => window.open(scheme.scheme_official_website, '_blank')}
-                            >
-                              <ArrowRight className="mr-2 h-4 w-4" />
-                              Visit Official Website
-                            </Button>
-                          </div>
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          )}
+          {/* Consultations booked with lawyers */}
+          <UpcomingAppointments role="client" className="mb-8" />
+
+          {/* Reminders added from document deadlines */}
+          <DeadlineReminders />
+
+          {/* Saved schemes by application status */}
+          <SchemeApplicationBoard />
+
+          {/* Alerts for new and closing schemes matching the saved applicant profile */}
+          <SchemeAlertSettings />
+
+          {/* Reviews for lawyers the user has concluded cases with */}
+          <ReviewYourLawyers />
 
           {/* Profile Section */}
           <Card className="glass">
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Profile Information</CardTitle>
-                  <CardDescription>Manage your personal details and preferences</CardDescription>
+                  <CardTitle>{t('dashboard.profileInformation')}</CardTitle>
+                  <CardDescription>{t('dashboard.profileDescription')}</CardDescription>
                 </div>
                 {!isEditing ? (
                   <Button onClick={() => setIsEditing(true)} size="sm" className="gap-2">
                     <Edit2 className="h-4 w-4" />
-                    Edit Profile
+                    {t('dashboard.editProfile')}
                   </Button>
                 ) : (
                   <div className="flex gap-2">
                     <Button onClick={handleSave} size="sm" className="gap-2">
                       <Save className="h-4 w-4" />
-                      Save
+                      {t('common.save')}
                     </Button>
                     <Button onClick={handleCancel} size="sm" variant="outline" className="gap-2">
                       <X className="h-4 w-4" />
-                      Cancel
+                      {t('common.cancel')}
                     </Button>
                   </div>
                 )}
@@ -589,7 +560,7 @@ const Dashboard = () => {
                     <div className="space-y-2">
                       <Label htmlFor="name" className="flex items-center gap-2">
                         <User className="h-4 w-4" />
-                        Full Name
+                        {t('dashboard.fullName')}
                       </Label>
                       <Input
                         id="name"
@@ -602,7 +573,7 @@ const Dashboard = () => {
                     <div className="space-y-2">
                       <Label htmlFor="email" className="flex items-center gap-2">
                         <Mail className="h-4 w-4" />
-                        Email Address
+                        {t('dashboard.email')}
                       </Label>
                       <Input
                         id="email"
@@ -616,36 +587,62 @@ const Dashboard = () => {
                     <div className="space-y-2">
                       <Label htmlFor="phone" className="flex items-center gap-2">
                         <Phone className="h-4 w-4" />
-                        Phone Number
+                        {t('dashboard.phone')}
                       </Label>
                       <Input
                         id="phone"
                         value={formData.phone || ''}
                         onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
                         disabled={!isEditing}
-                        placeholder="Enter your phone number"
+                        placeholder={t('dashboard.phonePlaceholder')}
                       />
                     </div>
 
                     <div className="space-y-2">
                       <Label htmlFor="location" className="flex items-center gap-2">
                         <MapPin className="h-4 w-4" />
-                        Location
+                        {t('dashboard.location')}
                       </Label>
-                      <Input
+                      <LocationAutocomplete
                         id="location"
                         value={formData.location || ''}
-                        onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                        onChange={(value) => setFormData({ ...formData, location: value })}
+                        onPlaceSelect={setLocationPlace}
                         disabled={!isEditing}
-                        placeholder="Enter your location"
+                        placeholder={t('dashboard.locationPlaceholder')}
                       />
                     </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="preferred-language" className="flex items-center gap-2">
+                        <Globe className="h-4 w-4" />
+                        {t('dashboard.preferredLanguage')}
+                      </Label>
+                      <Select
+                        value={language}
+                        onValueChange={(value) => {
+                          if (isLanguageCode(value)) setLanguage(value);
+                        }}
+                      >
+                        <SelectTrigger id="preferred-language">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {LANGUAGES.map((lang) => (
+                            <SelectItem key={lang.code} value={lang.code}>
+                              {lang.nativeName} ({lang.name})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">{t('dashboard.preferredLanguageHint')}</p>
+                    </div>
                   </div>
 
                   {!isEditing && (
                     <div className="pt-4 border-t">
                       <Button className="w-full md:w-auto group">
-                        Get Started with AI Lawyer
+                        {t('dashboard.getStartedAi')}
                         <ArrowRight className="ml-2 h-4 w-4 group-hover:translate-x-1 transition-transform" />
                       </Button>
                     </div>
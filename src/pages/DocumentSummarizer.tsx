@@ -1,22 +1,82 @@
 import React, { useState, useEffect } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
 import Navigation from '@/components/Navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileText, Upload, Loader2, Download } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import ClauseTable from '@/components/ClauseTable';
+import DeadlineList from '@/components/DeadlineList';
+import DocumentChat from '@/components/DocumentChat';
+import RedlineView from '@/components/RedlineView';
+import RedactionPreview from '@/components/RedactionPreview';
+import { ClauseAnalysis } from '@/lib/clauses';
+import { DeadlineAnalysis } from '@/lib/deadlines';
+import { DocumentComparison, formatComparisonReport } from '@/lib/redline';
+import { describeRedactionCounts, RedactionAudit } from '@/lib/redaction';
+import { FileText, Upload, Loader2, Download, FolderOpen, ListChecks, MessageSquare, GitCompare, CalendarClock, ShieldCheck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import * as pdfjsLib from 'pdfjs-dist';
 import jsPDF from 'jspdf';
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  DOCUMENT_STATUS_LABELS,
+  LOW_OCR_CONFIDENCE,
+  MAX_DOCUMENT_BYTES,
+  OcrPage,
+  PAGE_BREAK,
+  StoredDocument,
+  SummaryCoverage,
+  SummaryProgress,
+  describeSummaryProgress,
+  formatPageRanges,
+  getDocumentKind,
+  hasTextLayer,
+} from '@/lib/documents';
+import type { OcrEngine } from '@/lib/ocr';
+
+// Body of the document-summarizer response (or its final stream event)
+interface SummarizerResponse {
+  success?: boolean;
+  summary?: string;
+  error?: string;
+  code?: string;
+  status?: number;
+  document_id?: string;
+  document?: StoredDocument;
+  coverage?: SummaryCoverage;
+  clauses?: ClauseAnalysis;
+  comparison?: DocumentComparison;
+  deadlines?: DeadlineAnalysis | null;
+  // Personal details hidden from the AI during this request
+  redaction?: RedactionAudit;
+}
+
+type AnalysisMode = 'summary' | 'clauses' | 'compare';
+
+type ResultTab = AnalysisMode | 'ask' | 'deadlines' | 'privacy';
 
 const DocumentSummarizer = () => {
   const { user, loading } = useAuth();
+  const { language } = useLanguage();
   const { toast } = useToast();
   const [file, setFile] = useState<File | null>(null);
+  // Compare mode: file is the original version, revisedFile the one to review
+  const [revisedFile, setRevisedFile] = useState<File | null>(null);
+  const [perspective, setPerspective] = useState('');
   const [processing, setProcessing] = useState(false);
-  const [result, setResult] = useState<any>(null);
+  const [result, setResult] = useState<SummarizerResponse | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [progress, setProgress] = useState<SummaryProgress | null>(null);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('summary');
+  const [activeTab, setActiveTab] = useState<ResultTab>('summary');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const openDocumentId = searchParams.get('document');
 
   // Set up PDF.js worker on component mount
   useEffect(() => {
@@ -26,6 +86,45 @@ const DocumentSummarizer = () => {
     console.log('PDF.js worker configured:', workerSrc);
   }, []);
 
+  // Re-open a saved document from the library (/document-summarizer?document=<id>)
+  useEffect(() => {
+    if (!user || !openDocumentId) return;
+
+    const loadDocument = async () => {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, title, file_name, status, page_count, extraction_method, ocr_pages, summary, summary_coverage, clause_analysis, comparison, deadlines')
+        .eq('id', openDocumentId)
+        .single();
+
+      if (error || !data) {
+        console.error('Error loading document:', error);
+        toast({
+          title: "Document not found",
+          description: "It may have been deleted",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const { summary, summary_coverage, clause_analysis, comparison, deadlines, ...document } = data;
+      setFile(null);
+      setRevisedFile(null);
+      setResult({
+        success: !!summary || !!clause_analysis || !!comparison,
+        summary: summary ?? undefined,
+        coverage: summary_coverage ?? undefined,
+        clauses: clause_analysis ?? undefined,
+        comparison: comparison ?? undefined,
+        deadlines,
+        document,
+      });
+      setActiveTab(summary || !(clause_analysis || comparison) ? 'summary' : clause_analysis ? 'clauses' : 'compare');
+    };
+
+    loadDocument();
+  }, [user, openDocumentId, toast]);
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -36,43 +135,52 @@ const DocumentSummarizer = () => {
     }
   };
 
+  const selectFile = (candidate: File, version: 'original' | 'revised' = 'original') => {
+    if (!getDocumentKind(candidate.name)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload a PDF, DOCX, TXT, RTF, JPG or PNG file",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (candidate.size > MAX_DOCUMENT_BYTES) {
+      toast({
+        title: "File too large",
+        description: "Documents can be up to 20MB",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (version === 'revised') {
+      setRevisedFile(candidate);
+      return;
+    }
+    setFile(candidate);
+    setResult(null);
+    setSearchParams({});
+  };
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const droppedFile = e.dataTransfer.files[0];
-      if (droppedFile.type === 'application/pdf') {
-        setFile(droppedFile);
-        setResult(null);
-      } else {
-        toast({
-          title: "Invalid file type",
-          description: "Please upload a PDF file",
-          variant: "destructive",
-        });
-      }
+      selectFile(e.dataTransfer.files[0]);
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
-      if (selectedFile.type === 'application/pdf') {
-        setFile(selectedFile);
-        setResult(null);
-      } else {
-        toast({
-          title: "Invalid file type",
-          description: "Please upload a PDF file",
-          variant: "destructive",
-        });
-      }
+      selectFile(e.target.files[0]);
     }
   };
 
-  const extractTextFromPDF = async (file: File): Promise<string> => {
+  // Read a PDF in the browser. Pages without a text layer (scans) are rendered and read with OCR.
+  const extractTextFromPDF = async (file: File): Promise<{ text: string; ocrPages: OcrPage[] }> => {
+    let ocr: OcrEngine | null = null;
+
     try {
       const arrayBuffer = await file.arrayBuffer();
       
@@ -84,7 +192,8 @@ const DocumentSummarizer = () => {
       });
       
       const pdf = await loadingTask.promise;
-      let fullText = '';
+      const pages: string[] = [];
+      const scannedPages: number[] = [];
 
       console.log(`PDF loaded. Total pages: ${pdf.numPages}`);
 
@@ -95,16 +204,58 @@ const DocumentSummarizer = () => {
         const pageText = textContent.items
           .map((item: any) => item.str)
           .join(' ');
-        fullText += pageText + '\n\n';
+        pages.push(pageText);
+        if (!hasTextLayer(pageText)) scannedPages.push(i);
         
         console.log(`Extracted page ${i}/${pdf.numPages}`);
       }
 
+      const ocrPages: OcrPage[] = [];
+      for (const [index, pageNumber] of scannedPages.entries()) {
+        setProgress({ stage: 'ocr', chunk: index + 1, total: scannedPages.length });
+        ocr ??= await (await import('@/lib/ocr')).createOcrEngine();
+
+        // Render at twice the PDF size so small print is legible to the OCR engine
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 2 });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        await page.render({ canvas, viewport }).promise;
+
+        const { text, confidence } = await ocr.recognize(canvas);
+        pages[pageNumber - 1] = text.trim();
+        ocrPages.push({ page: pageNumber, confidence });
+
+        console.log(`OCR page ${pageNumber}: ${text.length} characters, confidence ${confidence}`);
+      }
+
+      // Same page separator the server uses for documents.content
+      const fullText = pages.join(PAGE_BREAK);
       console.log(`Total text extracted: ${fullText.length} characters`);
-      return fullText;
+      return { text: fullText, ocrPages };
     } catch (error) {
       console.error('PDF extraction error:', error);
       throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await ocr?.terminate();
+    }
+  };
+
+  // Read a photo of a document (JPG or PNG) with OCR
+  const extractTextFromImage = async (file: File): Promise<{ text: string; ocrPages: OcrPage[] }> => {
+    setProgress({ stage: 'ocr', chunk: 1, total: 1 });
+    const ocr = await (await import('@/lib/ocr')).createOcrEngine();
+
+    try {
+      const { text, confidence } = await ocr.recognize(file);
+      console.log(`OCR image: ${text.length} characters, confidence ${confidence}`);
+      return { text: text.trim(), ocrPages: [{ page: 1, confidence }] };
+    } catch (error) {
+      console.error('Image OCR error:', error);
+      throw new Error(`Failed to read the photo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await ocr.terminate();
     }
   };
 
@@ -120,11 +271,130 @@ const DocumentSummarizer = () => {
     });
   };
 
-  const handleSubmit = async () => {
+  // Read the summarizer's event stream, reporting progress; resolves with the final result
+  const readSummaryStream = async (response: Response): Promise<SummarizerResponse> => {
+    if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+      return response.json();
+    }
+
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: SummarizerResponse = { error: 'The summarizer stopped before finishing' };
+
+    if (reader) {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Events can be split across network chunks; keep the incomplete tail
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const data = line.slice(6);
+          if (data === '[DONE]') continue;
+
+          try {
+            const event = JSON.parse(data);
+            if (event.type === 'progress') {
+              setProgress(event);
+            } else if (event.type === 'result' || event.type === 'error') {
+              const { type, ...body } = event;
+              result = body;
+            }
+          } catch (e) {
+            console.error('Could not parse summarizer event:', e);
+          }
+        }
+      }
+    }
+
+    return result;
+  };
+
+  // Upload one file to the summarizer; when the server cannot read it, retry with text
+  // extracted in the browser for the same document
+  const uploadDocument = async (upload: File, mode: AnalysisMode | 'extract', accessToken: string): Promise<SummarizerResponse> => {
+    const summarizerUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-summarizer`;
+
+    // Send the original file; the server stores it, extracts the text and analyzes it
+    const formData = new FormData();
+    formData.append('file', upload);
+    formData.append('language', language);
+    formData.append('stream', 'true');
+    formData.append('mode', mode);
+
+    const response = await fetch(summarizerUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: formData,
+    });
+
+    let data = await readSummaryStream(response);
+    console.log('Received response:', data);
+
+    // Fall back to extracting in the browser when the server could not read the file
+    const kind = getDocumentKind(upload.name);
+    const serverExtractionFailed = !response.ok || (data.code && data.code !== 'unsupported_type');
+    if (serverExtractionFailed && (kind === 'pdf' || kind === 'txt' || kind === 'jpg' || kind === 'png')) {
+      toast({
+        title: "Extracting text...",
+        description: kind === 'jpg' || kind === 'png'
+          ? "Reading the photo with OCR in your browser"
+          : "Reading the document in your browser instead",
+      });
+
+      const { text, ocrPages } = kind === 'pdf'
+        ? await extractTextFromPDF(upload)
+        : kind === 'txt'
+          ? { text: await upload.text(), ocrPages: [] }
+          : await extractTextFromImage(upload);
+      console.log('Extracted text length:', text.length, 'chars', 'OCR pages:', ocrPages.length);
+
+      if (text.trim()) {
+        const fallbackResponse = await fetch(summarizerUrl, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            document_id: data.document_id,
+            file_name: upload.name,
+            text,
+            ocr_pages: ocrPages.length > 0 ? ocrPages : undefined,
+            language,
+            mode,
+            stream: true,
+          }),
+        });
+        data = await readSummaryStream(fallbackResponse);
+        console.log('Received fallback response:', data);
+      }
+    }
+
+    return data;
+  };
+
+  // previewOnly stores the document without analysing it and opens the redaction preview
+  const handleSubmit = async (previewOnly = false) => {
     if (!file) {
       toast({
         title: "No file selected",
-        description: "Please select a PDF file first",
+        description: "Please select a document first",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (analysisMode === 'compare' && !revisedFile) {
+      toast({
+        title: "No revised version selected",
+        description: "Choose the revised document to compare against",
         variant: "destructive",
       });
       return;
@@ -132,20 +402,9 @@ const DocumentSummarizer = () => {
 
     setProcessing(true);
     setResult(null);
+    setProgress(null);
 
     try {
-      // Extract text from PDF
-      toast({
-        title: "Extracting text...",
-        description: "Reading PDF content",
-      });
-      
-      const pdfText = await extractTextFromPDF(file);
-      console.log('Extracted text length:', pdfText.length, 'chars');
-
-      // Convert extracted text to base64 for transmission
-      const base64Content = btoa(unescape(encodeURIComponent(pdfText)));
-
       // Get the session token
       const { data: { session } } = await supabase.auth.getSession();
       
@@ -155,33 +414,47 @@ const DocumentSummarizer = () => {
 
       toast({
         title: "Analyzing document...",
-        description: "AI is reviewing your legal document",
+        description: "Uploading your file and reading it on the server",
       });
 
-      console.log('Sending extracted text to Groq, size:', base64Content.length, 'chars');
+      let data: SummarizerResponse;
+      if (analysisMode === 'compare' && revisedFile) {
+        // Store both versions first, then redline the revised one against the original
+        const original = await uploadDocument(file, 'extract', session.access_token);
+        if (!original.success || !original.document) {
+          throw new Error(original.error || `Could not read ${file.name}`);
+        }
+        const revised = await uploadDocument(revisedFile, 'extract', session.access_token);
+        if (!revised.success || !revised.document) {
+          throw new Error(revised.error || `Could not read ${revisedFile.name}`);
+        }
 
-      // Call edge function
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-summarizer`,
-        {
+        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-summarizer`, {
           method: 'POST',
           headers: {
             'Authorization': `Bearer ${session.access_token}`,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            pdf_base64: base64Content,
+            document_id: revised.document.id,
+            base_document_id: original.document.id,
+            perspective,
+            mode: 'compare',
+            language,
+            stream: true,
           }),
-        }
-      );
-
-      const data = await response.json();
-      console.log('Received response:', data);
+        });
+        data = await readSummaryStream(response);
+        data.document ??= revised.document;
+      } else {
+        data = await uploadDocument(file, previewOnly ? 'extract' : analysisMode, session.access_token);
+      }
       
-      // Set the entire response data (includes summary, raw_response, success, error)
+      // Set the entire response data (includes summary, clauses or comparison, usage, success, error)
       setResult(data);
+      setActiveTab(previewOnly ? 'privacy' : analysisMode);
 
-      if (data.success && data.summary) {
+      if (data.success) {
         toast({
           title: "Success!",
           description: "Document processed successfully",
@@ -207,13 +480,70 @@ const DocumentSummarizer = () => {
       });
     } finally {
       setProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  // Run the other analysis mode on the document that is already open
+  const runAnalysis = async (mode: 'summary' | 'clauses' | 'deadlines') => {
+    const documentId = result?.document?.id;
+    if (!documentId) return;
+
+    setProcessing(true);
+    setProgress(null);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-summarizer`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ document_id: documentId, mode, language, stream: true }),
+      });
+      const data = await readSummaryStream(response);
+
+      if (!data.success) {
+        throw new Error(data.error || 'Analysis failed');
+      }
+
+      setResult((prev) => ({
+        ...prev,
+        ...(mode === 'clauses'
+          ? { clauses: data.clauses }
+          : mode === 'deadlines'
+            ? { deadlines: data.deadlines }
+            : { summary: data.summary, coverage: data.coverage, deadlines: data.deadlines ?? prev?.deadlines }),
+        document: data.document ?? prev?.document,
+        redaction: data.redaction,
+      }));
+    } catch (error) {
+      console.error('Error analyzing document:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to analyze document',
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+      setProgress(null);
     }
   };
 
-  const handleDownloadPDF = () => {
-    if (!result || !result.summary) {
+  // Export the summary, or the comparison report in the same layout
+  const handleDownloadPDF = (report: 'summary' | 'comparison' = 'summary') => {
+    const reportText = report === 'comparison'
+      ? result?.comparison && formatComparisonReport(result.comparison)
+      : result?.summary;
+
+    if (!result || !reportText) {
       toast({
-        title: "No summary available",
+        title: report === 'comparison' ? "No comparison available" : "No summary available",
         description: "Please process a document first",
         variant: "destructive",
       });
@@ -234,7 +564,7 @@ const DocumentSummarizer = () => {
       doc.setFontSize(20);
       doc.setFont('helvetica', 'bold');
       doc.setTextColor(255, 255, 255); // White text
-      doc.text('DOCUMENT SUMMARY', pageWidth / 2, 20, { align: 'center' });
+      doc.text(report === 'comparison' ? 'DOCUMENT COMPARISON' : 'DOCUMENT SUMMARY', pageWidth / 2, 20, { align: 'center' });
       
       // Add metadata section
       doc.setTextColor(0, 0, 0); // Black text
@@ -250,8 +580,11 @@ const DocumentSummarizer = () => {
       doc.text(`Generated: ${date}`, margin, 45);
       
       // Add original filename if available
-      if (file) {
-        doc.text(`Source: ${file.name}`, margin, 52);
+      const sourceName = report === 'comparison' && result.comparison
+        ? `${result.comparison.base_title} vs ${result.comparison.revised_title}`
+        : file?.name ?? result.document?.file_name ?? result.document?.title;
+      if (sourceName) {
+        doc.text(`Source: ${sourceName}`, margin, 52);
       }
       
       // Add separator line
@@ -260,7 +593,7 @@ const DocumentSummarizer = () => {
       doc.line(margin, 58, pageWidth - margin, 58);
       
       // Process summary content - remove emojis and clean formatting
-      let summaryText = result.summary;
+      let summaryText = reportText;
       
       // Remove emojis (they don't render well in PDF)
       summaryText = summaryText.replace(/[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu, '');
@@ -340,12 +673,20 @@ const DocumentSummarizer = () => {
           // Draw bullet point
           doc.circle(margin + 2, currentY - 1.5, 0.8, 'F');
           
+          // Redline lines of a comparison report: removed text in red, added text in green
+          if (bulletText.startsWith('Removed:')) {
+            doc.setTextColor(220, 38, 38);
+          } else if (bulletText.startsWith('Added:')) {
+            doc.setTextColor(22, 163, 74);
+          }
+          
           // Add bullet text with proper wrapping
           const bulletLines = doc.splitTextToSize(bulletText, maxWidth - bulletIndent - 3);
           bulletLines.forEach((bLine: string, bIndex: number) => {
             doc.text(bLine, margin + bulletIndent, currentY);
             currentY += normalLineHeight;
           });
+          doc.setTextColor(0, 0, 0);
           
           currentY += bulletSpacing - normalLineHeight;
           
@@ -391,7 +732,7 @@ const DocumentSummarizer = () => {
       
       // Generate filename with timestamp
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-      const filename = `document-summary-${timestamp}.pdf`;
+      const filename = `document-${report}-${timestamp}.pdf`;
       
       // Save the PDF
       doc.save(filename);
@@ -449,9 +790,17 @@ const DocumentSummarizer = () => {
       <div className="relative z-10 container mx-auto px-4 pt-24 pb-8">
         <Card className="max-w-4xl mx-auto glass">
           <CardHeader>
-            <div className="flex items-center gap-3">
-              <FileText className="h-8 w-8 text-primary" />
-              <CardTitle className="text-3xl">Document Summarizer</CardTitle>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <FileText className="h-8 w-8 text-primary" />
+                <CardTitle className="text-3xl">Document Summarizer</CardTitle>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/documents" className="flex items-center gap-2">
+                  <FolderOpen className="h-4 w-4" />
+                  My Documents
+                </Link>
+              </Button>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -469,16 +818,16 @@ const DocumentSummarizer = () => {
             >
               <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
               <p className="text-lg font-medium mb-2">
-                {file ? file.name : 'Drop your PDF here or click to browse'}
+                {file ? file.name : result?.document?.title ?? 'Drop your document here or click to browse'}
               </p>
               <p className="text-sm text-muted-foreground mb-4">
-                Supports PDF files only
+                Supports PDF, DOCX, TXT and RTF files, and JPG or PNG photos of documents, up to 20MB. Scanned pages are read with OCR.
               </p>
               <input
                 type="file"
                 id="file-upload"
                 className="hidden"
-                accept=".pdf"
+                accept={ACCEPTED_DOCUMENT_TYPES}
                 onChange={handleFileChange}
               />
               <Button
@@ -489,26 +838,113 @@ const DocumentSummarizer = () => {
               </Button>
             </div>
 
+            {/* Analysis Mode */}
+            {file && !result && (
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <span className="text-sm font-medium">Analysis</span>
+                <Select value={analysisMode} onValueChange={(value) => setAnalysisMode(value as AnalysisMode)} disabled={processing}>
+                  <SelectTrigger className="sm:w-[320px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="summary">Plain-language summary</SelectItem>
+                    <SelectItem value="clauses">Clause table with risk levels (contracts)</SelectItem>
+                    <SelectItem value="compare">Compare with a revised version (redline)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Revised version for compare mode; the file above is the original */}
+            {file && !result && analysisMode === 'compare' && (
+              <div className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <GitCompare className="h-4 w-4 text-primary shrink-0" />
+                  <p className="text-sm flex-1 break-all">
+                    {revisedFile
+                      ? <><span className="text-muted-foreground">Revised version:</span> {revisedFile.name}</>
+                      : <span className="text-muted-foreground">Choose the revised version to compare with {file.name}</span>}
+                  </p>
+                  <input
+                    type="file"
+                    id="revised-file-upload"
+                    className="hidden"
+                    accept={ACCEPTED_DOCUMENT_TYPES}
+                    onChange={(e) => e.target.files?.[0] && selectFile(e.target.files[0], 'revised')}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => document.getElementById('revised-file-upload')?.click()}
+                    disabled={processing}
+                  >
+                    {revisedFile ? 'Change' : 'Choose Revised File'}
+                  </Button>
+                </div>
+                <Input
+                  placeholder="Your side of the agreement (optional), e.g. Tenant, Employee"
+                  value={perspective}
+                  onChange={(e) => setPerspective(e.target.value)}
+                  maxLength={100}
+                  disabled={processing}
+                />
+              </div>
+            )}
+
             {/* Submit Button */}
             {file && !result && (
-              <Button
-                onClick={handleSubmit}
-                disabled={processing}
-                className="w-full"
-                size="lg"
-              >
-                {processing ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <FileText className="mr-2 h-4 w-4" />
-                    Process Document
-                  </>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button
+                  onClick={() => handleSubmit()}
+                  disabled={processing || (analysisMode === 'compare' && !revisedFile)}
+                  className="w-full"
+                  size="lg"
+                >
+                  {processing ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Processing...
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="mr-2 h-4 w-4" />
+                      Process Document
+                    </>
+                  )}
+                </Button>
+                {analysisMode !== 'compare' && (
+                  <Button
+                    onClick={() => handleSubmit(true)}
+                    disabled={processing}
+                    variant="outline"
+                    size="lg"
+                    className="sm:w-auto"
+                    title="Upload the document and see which personal details are hidden from the AI before analysing it"
+                  >
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                    Preview Redactions
+                  </Button>
                 )}
-              </Button>
+              </div>
+            )}
+
+            {/* Progress */}
+            {processing && progress && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>{describeSummaryProgress(progress)}</span>
+                  {(progress.stage === 'map' || progress.stage === 'compare' || progress.stage === 'ocr') && progress.total && (
+                    <span>{Math.round(((progress.chunk ?? 0) / progress.total) * 100)}%</span>
+                  )}
+                </div>
+                <Progress
+                  value={
+                    (progress.stage === 'map' || progress.stage === 'compare' || progress.stage === 'ocr') && progress.total
+                      ? ((progress.chunk ?? 0) / progress.total) * 90
+                      : progress.stage === 'extract' || progress.stage === 'compare' ? 5 : 95
+                  }
+                />
+              </div>
             )}
 
             {/* Reset Button */}
@@ -516,7 +952,9 @@ const DocumentSummarizer = () => {
               <Button
                 onClick={() => {
                   setFile(null);
+                  setRevisedFile(null);
                   setResult(null);
+                  setSearchParams({});
                 }}
                 variant="outline"
                 className="w-full"
@@ -583,8 +1021,145 @@ const DocumentSummarizer = () => {
                   </Card>
                 )}
 
+                {/* Summary / Clauses / Dates / Ask switch, plus Changes for a compared document */}
+                {result.document?.id && (
+                  <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ResultTab)}>
+                    <TabsList className={`grid w-full ${result.comparison ? 'grid-cols-6' : 'grid-cols-5'}`}>
+                      <TabsTrigger value="summary">Summary</TabsTrigger>
+                      <TabsTrigger value="clauses">Clauses &amp; Risks</TabsTrigger>
+                      <TabsTrigger value="deadlines">Dates</TabsTrigger>
+                      <TabsTrigger value="ask">Ask</TabsTrigger>
+                      {result.comparison && <TabsTrigger value="compare">Changes</TabsTrigger>}
+                      <TabsTrigger value="privacy">Privacy</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                )}
+
+                {result.redaction && result.redaction.total > 0 && activeTab !== 'privacy' && (
+                  <button
+                    type="button"
+                    onClick={() => setActiveTab('privacy')}
+                    className="flex w-full items-center gap-2 rounded-md border bg-muted/50 p-3 text-left text-xs text-muted-foreground hover:bg-muted"
+                  >
+                    <ShieldCheck className="h-4 w-4 shrink-0 text-green-600" />
+                    {describeRedactionCounts(result.redaction.counts)} {result.redaction.total === 1 ? 'was' : 'were'} hidden from the AI and restored in these results.
+                  </button>
+                )}
+
+                {/* Personal details hidden from the AI */}
+                {activeTab === 'privacy' && result.document?.id && (
+                  <Card className="bg-card/50">
+                    <CardHeader>
+                      <CardTitle className="text-xl flex items-center gap-2">
+                        <ShieldCheck className="h-5 w-5 text-primary" />
+                        Privacy Preview
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <RedactionPreview documentId={result.document.id} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Run the analysis that hasn't been done yet */}
+                {result.document?.id && !processing && ((activeTab === 'summary' && !result.summary) || (activeTab === 'clauses' && !result.clauses) || (activeTab === 'deadlines' && !result.deadlines)) && (
+                  <Card className="bg-card/50">
+                    <CardContent className="pt-6 text-center space-y-3">
+                      <p className="text-sm text-muted-foreground">
+                        {activeTab === 'summary'
+                          ? 'This document has not been summarized yet.'
+                          : activeTab === 'deadlines'
+                            ? 'Find due dates, notice periods, renewals and hearings in this document, with the clause each one comes from, to download as a calendar or add to your reminders.'
+                            : 'Extract parties, dates, payment terms, termination, indemnity, non-compete and governing law clauses, each with a risk level and the exact quote.'}
+                      </p>
+                      <Button onClick={() => runAnalysis(activeTab === 'summary' || activeTab === 'deadlines' ? activeTab : 'clauses')} className="gap-2">
+                        {activeTab === 'summary' ? <FileText className="h-4 w-4" /> : activeTab === 'deadlines' ? <CalendarClock className="h-4 w-4" /> : <ListChecks className="h-4 w-4" />}
+                        {activeTab === 'summary' ? 'Summarize Document' : activeTab === 'deadlines' ? 'Find Deadlines' : 'Extract Clauses'}
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Questions about the document */}
+                {activeTab === 'ask' && result.document?.id && (
+                  <Card className="bg-card/50">
+                    <CardHeader>
+                      <CardTitle className="text-xl flex items-center gap-2">
+                        <MessageSquare className="h-5 w-5 text-primary" />
+                        Ask this Document
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <DocumentChat
+                        documentId={result.document.id}
+                        documentTitle={result.document.title || result.document.file_name || undefined}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Redline against the earlier version */}
+                {activeTab === 'compare' && result.comparison && (
+                  <Card className="bg-card/50">
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-xl flex items-center gap-2">
+                          <GitCompare className="h-5 w-5 text-primary" />
+                          What Changed
+                        </CardTitle>
+                        <Button
+                          onClick={() => handleDownloadPDF('comparison')}
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-2"
+                        >
+                          <Download className="h-4 w-4" />
+                          Download PDF
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <RedlineView comparison={result.comparison} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Dates and deadlines */}
+                {activeTab === 'deadlines' && result.deadlines && result.document?.id && (
+                  <Card className="bg-card/50">
+                    <CardHeader>
+                      <CardTitle className="text-xl flex items-center gap-2">
+                        <CalendarClock className="h-5 w-5 text-primary" />
+                        Dates &amp; Deadlines
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <DeadlineList
+                        analysis={result.deadlines}
+                        documentId={result.document.id}
+                        documentTitle={result.document.title || result.document.file_name || 'Document'}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Clause Table */}
+                {activeTab === 'clauses' && result.clauses && (
+                  <Card className="bg-card/50">
+                    <CardHeader>
+                      <CardTitle className="text-xl flex items-center gap-2">
+                        <ListChecks className="h-5 w-5 text-primary" />
+                        Clauses &amp; Risks
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ClauseTable analysis={result.clauses} />
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Summary Display */}
-                {result.summary && (
+                {(activeTab === 'summary' || !result.document?.id) && result.summary && (
                   <Card className="bg-card/50">
                     <CardHeader>
                       <div className="flex items-center justify-between">
@@ -593,7 +1168,7 @@ const DocumentSummarizer = () => {
                           Document Summary
                         </CardTitle>
                         <Button
-                          onClick={handleDownloadPDF}
+                          onClick={() => handleDownloadPDF()}
                           variant="outline"
                           size="sm"
                           className="flex items-center gap-2"
@@ -604,6 +1179,30 @@ const DocumentSummarizer = () => {
                       </div>
                     </CardHeader>
                     <CardContent>
+                      {result.document?.status && (
+                        <p className="text-xs text-muted-foreground mb-4">
+                          {DOCUMENT_STATUS_LABELS[result.document.status as keyof typeof DOCUMENT_STATUS_LABELS]}
+                          {result.document.page_count ? ` · ${result.document.page_count} page${result.document.page_count !== 1 ? 's' : ''}` : ''}
+                          {result.document.extraction_method === 'client' ? ' · text read in your browser' : ''}
+                          {result.document.extraction_method === 'ocr' ? ' · scanned pages read with OCR' : ''}
+                        </p>
+                      )}
+                      {result.document?.ocr_pages && result.document.ocr_pages.length > 0 && (
+                        <OcrNotice pages={result.document.ocr_pages} />
+                      )}
+                      {result.coverage && (
+                        <CoverageNotice coverage={result.coverage} />
+                      )}
+                      {result.document?.id && result.deadlines && result.deadlines.events.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => setActiveTab('deadlines')}
+                          className="mb-4 flex w-full items-center gap-2 rounded-md border bg-muted/50 p-3 text-left text-sm hover:bg-muted"
+                        >
+                          <CalendarClock className="h-4 w-4 shrink-0 text-primary" />
+                          {result.deadlines.events.length} date{result.deadlines.events.length !== 1 ? 's and deadlines' : ' or deadline'} found. Add them to your calendar or reminders.
+                        </button>
+                      )}
                       <div className="whitespace-pre-wrap text-sm leading-relaxed">
                         {result.summary}
                       </div>
@@ -640,4 +1239,68 @@ const DocumentSummarizer = () => {
   );
 };
 
+const OcrNotice = ({ pages }: { pages: OcrPage[] }) => {
+  const lowConfidence = pages.filter((page) => page.confidence < LOW_OCR_CONFIDENCE);
+  const average = Math.round(pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length);
+
+  return (
+    <div className={`text-xs mb-4 p-3 rounded-lg border ${lowConfidence.length ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-card/50 border-border'}`}>
+      <p className="font-medium">
+        {pages.length} scanned page{pages.length !== 1 ? 's' : ''} read with OCR · average confidence {average}%
+      </p>
+      <div className="flex flex-wrap gap-1 mt-2">
+        {pages.map((page) => (
+          <span
+            key={page.page}
+            className={`px-1.5 py-0.5 rounded border ${page.confidence < LOW_OCR_CONFIDENCE ? 'border-yellow-500/40 text-yellow-700 dark:text-yellow-400' : 'border-border text-muted-foreground'}`}
+          >
+            p. {page.page}: {page.confidence}%
+          </span>
+        ))}
+      </div>
+      {lowConfidence.length > 0 && (
+        <p className="text-yellow-700 dark:text-yellow-400 mt-2">
+          Low confidence on page{lowConfidence.length !== 1 ? 's' : ''} {formatPageRanges(lowConfidence.map((page) => page.page))}. Check names, dates and amounts from these pages against the original.
+        </p>
+      )}
+    </div>
+  );
+};
+
+const CoverageNotice = ({ coverage }: { coverage: SummaryCoverage }) => {
+  if (coverage.unit === 'section') {
+    if (coverage.not_covered) {
+      return (
+        <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-4 p-3 rounded-lg border bg-yellow-500/10 border-yellow-500/30">
+          Read {coverage.chunks} of {coverage.total} sections; the rest was not covered (document too long)
+        </p>
+      );
+    }
+    return (
+      <p className="text-xs text-muted-foreground mb-4">
+        Whole document read{coverage.strategy === 'map-reduce' ? ` in ${coverage.chunks} parts` : ''}
+      </p>
+    );
+  }
+
+  return (
+    <div className={`text-xs mb-4 p-3 rounded-lg border ${coverage.not_covered ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-card/50 border-border'}`}>
+      <p className="font-medium">
+        Pages covered: {coverage.covered || 'none'} of {coverage.total}
+        {coverage.strategy === 'map-reduce' ? ` · read in ${coverage.chunks} parts` : ''}
+      </p>
+      {coverage.not_covered && (
+        <p className="text-yellow-700 dark:text-yellow-400 mt-1">
+          Not covered (document too long): pages {coverage.not_covered}
+        </p>
+      )}
+      {coverage.empty && (
+        <p className="text-muted-foreground mt-1">
+          No readable text on pages {coverage.empty}
+        </p>
+      )}
+    </div>
+  );
+};
+
 export default DocumentSummarizer;
@@ -0,0 +1,707 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import Navigation from '@/components/Navigation';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PenLine, Loader2, Sparkles, Save, History, RotateCcw, Trash2, Download, FileDown, Plus, AlertTriangle, ArrowLeft, Calendar,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { LANGUAGES } from '@/i18n';
+import {
+  Draft,
+  DRAFT_TEMPLATE_NAMES,
+  DRAFT_TEMPLATES,
+  DraftSection,
+  DraftTemplate,
+  DraftVersion,
+  getDraftTemplate,
+  initialFormValues,
+  missingRequiredFields,
+  VERSION_SOURCE_LABELS,
+} from '@/lib/drafts';
+import { exportDraftDocx, exportDraftPdf } from '@/lib/draftExport';
+
+const DRAFT_FIELDS = 'id, template, title, language, form_data, sections, current_version, created_at, updated_at';
+const VERSION_FIELDS = 'id, version, title, sections, source, note, created_at';
+
+const sameSections = (a: DraftSection[], b: DraftSection[]) =>
+  a.length === b.length && a.every((section, index) => section.heading === b[index].heading && section.body === b[index].body);
+
+const formatWhen = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const DraftStudio = () => {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Open a saved draft (/draft?draft=<id>)
+  const openDraftId = searchParams.get('draft');
+
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [loadingDrafts, setLoadingDrafts] = useState(true);
+  const [pendingDelete, setPendingDelete] = useState<Draft | null>(null);
+
+  // New draft form
+  const [templateKey, setTemplateKey] = useState<DraftTemplate>('legal_notice');
+  const [formValues, setFormValues] = useState<Record<string, string>>(() => initialFormValues(DRAFT_TEMPLATES[0]));
+  const [draftLanguage, setDraftLanguage] = useState('en');
+  const [generating, setGenerating] = useState(false);
+
+  // Editor for the open draft
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [title, setTitle] = useState('');
+  const [sections, setSections] = useState<DraftSection[]>([]);
+  const [versions, setVersions] = useState<DraftVersion[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [rewritingIndex, setRewritingIndex] = useState<number | null>(null);
+  const [instructions, setInstructions] = useState<Record<number, string>>({});
+  const [exporting, setExporting] = useState(false);
+
+  const template = getDraftTemplate(templateKey)!;
+  const hasChanges = !!draft && (title !== draft.title || !sameSections(sections, draft.sections));
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      setLoadingDrafts(true);
+      const { data, error } = await supabase
+        .from('drafts')
+        .select(DRAFT_FIELDS)
+        .eq('user_id', user?.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setDrafts(data || []);
+    } catch (error) {
+      console.error('Error loading drafts:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your drafts',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingDrafts(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchDrafts();
+    }
+  }, [user, fetchDrafts]);
+
+  const showDraft = useCallback((loaded: Draft) => {
+    setDraft(loaded);
+    setTitle(loaded.title);
+    setSections(loaded.sections);
+    setInstructions({});
+  }, []);
+
+  const fetchVersions = useCallback(async (draftId: string) => {
+    const { data, error } = await supabase
+      .from('draft_versions')
+      .select(VERSION_FIELDS)
+      .eq('draft_id', draftId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error loading versions:', error);
+      return;
+    }
+    setVersions(data || []);
+  }, []);
+
+  const loadDraft = useCallback(async (draftId: string) => {
+    const { data, error } = await supabase
+      .from('drafts')
+      .select(DRAFT_FIELDS)
+      .eq('id', draftId)
+      .single();
+
+    if (error || !data) {
+      console.error('Error loading draft:', error);
+      toast({
+        title: 'Draft not found',
+        description: 'It may have been deleted',
+        variant: 'destructive',
+      });
+      setSearchParams({});
+      return;
+    }
+
+    showDraft(data);
+    fetchVersions(draftId);
+  }, [showDraft, fetchVersions, setSearchParams, toast]);
+
+  useEffect(() => {
+    if (!user) return;
+    if (!openDraftId) {
+      setDraft(null);
+      return;
+    }
+    loadDraft(openDraftId);
+  }, [user, openDraftId, loadDraft]);
+
+  // The versions triggers update the draft row; read it back after every new version
+  const refreshDraft = async (draftId: string) => {
+    await loadDraft(draftId);
+    fetchDrafts();
+  };
+
+  const selectTemplate = (key: DraftTemplate) => {
+    setTemplateKey(key);
+    setFormValues(initialFormValues(getDraftTemplate(key)!));
+  };
+
+  const callDrafter = async (body: Record<string, unknown>) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/legal-drafter`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'The draft could not be prepared');
+    }
+    return data as { draft: Draft };
+  };
+
+  const handleGenerate = async () => {
+    const missing = missingRequiredFields(template, formValues);
+    if (missing.length > 0) {
+      toast({
+        title: 'Some details are missing',
+        description: `Please fill in: ${missing.map((field) => field.label).join(', ')}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const data = await callDrafter({ mode: 'generate', template: templateKey, fields: formValues, language: draftLanguage });
+      toast({
+        title: 'Draft ready',
+        description: 'Review every section and fill in any blanks before using it',
+      });
+      setSearchParams({ draft: data.draft.id });
+      fetchDrafts();
+    } catch (error) {
+      console.error('Error generating draft:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to generate the draft',
+        variant: 'destructive',
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const saveVersion = async (source: 'edited' | 'restored', versionTitle: string, versionSections: DraftSection[], note?: string) => {
+    if (!draft || !user) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('draft_versions')
+        .insert({
+          draft_id: draft.id,
+          user_id: user.id,
+          title: versionTitle.trim() || draft.title,
+          sections: versionSections,
+          source,
+          note: note ?? null,
+        });
+
+      if (error) throw error;
+
+      await refreshDraft(draft.id);
+      toast({
+        title: source === 'restored' ? 'Version restored' : 'Saved',
+        description: source === 'restored' ? 'The earlier text is now the current draft' : 'A new version of the draft was saved',
+      });
+    } catch (error) {
+      console.error('Error saving draft version:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save the draft',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRewrite = async (index: number) => {
+    if (!draft) return;
+    if (hasChanges) {
+      toast({
+        title: 'Save your edits first',
+        description: 'The AI rewrites the saved version of the draft',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRewritingIndex(index);
+    try {
+      const data = await callDrafter({ mode: 'section', draftId: draft.id, sectionIndex: index, instruction: instructions[index] ?? '' });
+      showDraft(data.draft);
+      fetchVersions(draft.id);
+      fetchDrafts();
+    } catch (error) {
+      console.error('Error rewriting section:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to rewrite the section',
+        variant: 'destructive',
+      });
+    } finally {
+      setRewritingIndex(null);
+    }
+  };
+
+  const handleExport = async (format: 'pdf' | 'docx') => {
+    setExporting(true);
+    try {
+      const filename = format === 'pdf' ? exportDraftPdf(title, sections) : await exportDraftDocx(title, sections);
+      toast({
+        title: 'Success!',
+        description: `Draft downloaded as ${filename}`,
+      });
+    } catch (error) {
+      console.error('Error exporting draft:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export the draft',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const deleteDraft = async (target: Draft) => {
+    try {
+      const { error } = await supabase
+        .from('drafts')
+        .delete()
+        .eq('id', target.id);
+
+      if (error) throw error;
+
+      setDrafts((prev) => prev.filter((d) => d.id !== target.id));
+      if (draft?.id === target.id) setSearchParams({});
+      toast({
+        title: 'Deleted',
+        description: `"${target.title}" was deleted`,
+      });
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete draft',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const updateSection = (index: number, changes: Partial<DraftSection>) =>
+    setSections((current) => current.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen relative overflow-hidden bg-background flex items-center justify-center">
+        <div className="absolute inset-0 z-0"
+          style={{
+            backgroundImage: `
+              radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+              radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+            `
+          }}
+        />
+        <div className="relative z-10">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const disclaimer = (
+    <div className="flex items-start gap-2 rounded-md border border-yellow-500/40 bg-yellow-500/10 p-3 text-xs">
+      <AlertTriangle className="h-4 w-4 shrink-0 text-yellow-600 mt-0.5" />
+      <p>
+        Drafts are a starting point, not legal advice. Check every fact, fill in the blanks (__________) and have a lawyer review
+        anything you send or file. Affidavits and rent agreements must be printed on stamp paper of the value your state requires
+        and signed before a notary or witnesses.
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen relative overflow-hidden bg-background">
+      {/* Purple radial gradients */}
+      <div className="absolute inset-0 z-0"
+        style={{
+          backgroundImage: `
+            radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+            radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+          `
+        }}
+      />
+
+      <Navigation />
+
+      <div className="relative z-10 container mx-auto px-4 pt-24 pb-8">
+        <div className="max-w-6xl mx-auto grid gap-6 lg:grid-cols-[1fr_300px]">
+          {draft ? (
+            <Card className="glass">
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div className="space-y-2 flex-1 min-w-0">
+                    <Button variant="ghost" size="sm" className="gap-2 -ml-3" onClick={() => setSearchParams({})}>
+                      <ArrowLeft className="h-4 w-4" />
+                      New draft
+                    </Button>
+                    <Input
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      className="text-xl font-semibold h-11"
+                      aria-label="Draft title"
+                    />
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="secondary">{DRAFT_TEMPLATE_NAMES[draft.template]}</Badge>
+                      <span>Version {draft.current_version}</span>
+                      <span>· Updated {formatWhen(draft.updated_at)}</span>
+                      {hasChanges && <span className="text-yellow-600 font-medium">· Unsaved changes</span>}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                      onClick={() => saveVersion('edited', title, sections)}
+                      disabled={!hasChanges || saving}
+                      className="gap-2"
+                    >
+                      {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                      Save version
+                    </Button>
+                    <Button variant="outline" className="gap-2" disabled={exporting} onClick={() => handleExport('docx')}>
+                      <FileDown className="h-4 w-4" />
+                      Word
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="gap-2"
+                      disabled={exporting}
+                      onClick={() => handleExport('pdf')}
+                      title={draft.language !== 'en' ? 'PDF export only supports English text; use Word for other languages' : undefined}
+                    >
+                      <Download className="h-4 w-4" />
+                      PDF
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {disclaimer}
+                {draft.language !== 'en' && (
+                  <p className="text-xs text-muted-foreground">
+                    This draft is not in English. Export it as a Word document; the PDF export can only print English text.
+                  </p>
+                )}
+
+                {sections.map((section, index) => (
+                  <div key={index} className="space-y-2 rounded-lg border border-border bg-muted/30 p-4">
+                    <Input
+                      value={section.heading}
+                      onChange={(e) => updateSection(index, { heading: e.target.value })}
+                      className="h-8 font-medium"
+                      aria-label={`Heading of section ${index + 1}`}
+                    />
+                    <Textarea
+                      value={section.body}
+                      onChange={(e) => updateSection(index, { body: e.target.value })}
+                      rows={Math.min(18, Math.max(3, section.body.split('\n').length + 1))}
+                      className="font-serif text-sm leading-relaxed"
+                      aria-label={`Text of ${section.heading}`}
+                    />
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Input
+                        value={instructions[index] ?? ''}
+                        onChange={(e) => setInstructions((current) => ({ ...current, [index]: e.target.value }))}
+                        placeholder="Optional: how to change it, e.g. make the demand firmer"
+                        className="h-8 text-xs"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2 whitespace-nowrap"
+                        disabled={rewritingIndex !== null || saving}
+                        onClick={() => handleRewrite(index)}
+                      >
+                        {rewritingIndex === index ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                        Rewrite with AI
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+
+                <div className="space-y-3">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    <History className="h-4 w-4" />
+                    Versions
+                  </p>
+                  {versions.map((version) => (
+                    <div
+                      key={version.id}
+                      className={cn(
+                        'flex items-center justify-between gap-3 rounded-md border p-2 text-sm',
+                        version.version === draft.current_version && 'border-primary/50 bg-primary/5'
+                      )}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium">
+                          Version {version.version}
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">{VERSION_SOURCE_LABELS[version.source]}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {formatWhen(version.created_at)}{version.note ? ` · ${version.note}` : ''}
+                        </p>
+                      </div>
+                      {version.version === draft.current_version ? (
+                        <Badge variant="outline">Current</Badge>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1"
+                          disabled={saving}
+                          onClick={() => saveVersion('restored', version.title, version.sections, `Restored version ${version.version}`)}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card className="glass">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <PenLine className="h-8 w-8 text-primary" />
+                  <div>
+                    <CardTitle className="text-3xl">Drafting Studio</CardTitle>
+                    <CardDescription>Answer a few questions and get a first draft you can edit and download</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                  {DRAFT_TEMPLATES.map((option) => (
+                    <button
+                      key={option.key}
+                      type="button"
+                      onClick={() => selectTemplate(option.key)}
+                      className={cn(
+                        'rounded-lg border p-3 text-left transition-colors hover:bg-muted',
+                        option.key === templateKey ? 'border-primary bg-primary/5' : 'border-border bg-muted/30'
+                      )}
+                    >
+                      <p className="font-medium text-sm">{option.name}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{option.description}</p>
+                    </button>
+                  ))}
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {template.fields.map((field) => (
+                    <div key={field.key} className={cn('space-y-1', field.type === 'textarea' && 'sm:col-span-2')}>
+                      <Label htmlFor={`field-${field.key}`}>
+                        {field.label}
+                        {field.required && <span className="text-destructive"> *</span>}
+                      </Label>
+                      {field.type === 'textarea' ? (
+                        <Textarea
+                          id={`field-${field.key}`}
+                          value={formValues[field.key] ?? ''}
+                          onChange={(e) => setFormValues((current) => ({ ...current, [field.key]: e.target.value }))}
+                          placeholder={field.placeholder}
+                          rows={3}
+                        />
+                      ) : field.type === 'select' ? (
+                        <Select
+                          value={formValues[field.key] ?? ''}
+                          onValueChange={(value) => setFormValues((current) => ({ ...current, [field.key]: value }))}
+                        >
+                          <SelectTrigger id={`field-${field.key}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {field.options?.map((option) => (
+                              <SelectItem key={option} value={option}>{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          id={`field-${field.key}`}
+                          type={field.type}
+                          min={field.type === 'number' ? 0 : undefined}
+                          value={formValues[field.key] ?? ''}
+                          onChange={(e) => setFormValues((current) => ({ ...current, [field.key]: e.target.value }))}
+                          placeholder={field.placeholder}
+                        />
+                      )}
+                      {field.hint && <p className="text-xs text-muted-foreground">{field.hint}</p>}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                  <div className="space-y-1 sm:w-56">
+                    <Label htmlFor="draft-language">Language of the draft</Label>
+                    <Select value={draftLanguage} onValueChange={setDraftLanguage}>
+                      <SelectTrigger id="draft-language">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LANGUAGES.map((option) => (
+                          <SelectItem key={option.code} value={option.code}>{option.nativeName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={handleGenerate} disabled={generating} className="gap-2 sm:ml-auto">
+                    {generating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                    {generating ? 'Drafting...' : `Draft ${template.name.toLowerCase()}`}
+                  </Button>
+                </div>
+                {draftLanguage !== 'en' && (
+                  <p className="text-xs text-muted-foreground">
+                    Courts and most government offices expect English. Drafts in other languages can be exported as Word documents only.
+                  </p>
+                )}
+
+                {disclaimer}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="glass h-fit">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-lg">My drafts</CardTitle>
+                {draft && (
+                  <Button size="icon" variant="ghost" title="New draft" onClick={() => setSearchParams({})}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loadingDrafts ? (
+                <div className="h-24 flex items-center justify-center">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                </div>
+              ) : drafts.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No drafts yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {drafts.map((saved) => (
+                    <div
+                      key={saved.id}
+                      className={cn(
+                        'group flex items-start gap-2 rounded-md border p-2 transition-colors hover:bg-muted',
+                        saved.id === draft?.id ? 'border-primary/50 bg-primary/5' : 'border-border'
+                      )}
+                    >
+                      <button
+                        type="button"
+                        className="flex-1 min-w-0 text-left"
+                        onClick={() => setSearchParams({ draft: saved.id })}
+                      >
+                        <p className="text-sm font-medium truncate">{saved.title}</p>
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {DRAFT_TEMPLATE_NAMES[saved.template]} · v{saved.current_version}
+                        </p>
+                      </button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Delete"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        onClick={() => setPendingDelete(saved)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this draft?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all its versions will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingDelete && deleteDraft(pendingDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default DraftStudio;
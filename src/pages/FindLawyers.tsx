@@ -1,9 +1,14 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Navigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import Navigation from '@/components/Navigation';
 import LocationAutocomplete from '@/components/LocationAutocomplete';
+import DistrictSelect from '@/components/DistrictSelect';
+import MultiSelectFilter from '@/components/MultiSelectFilter';
+import LawyerReviews from '@/components/LawyerReviews';
+import StarRating from '@/components/StarRating';
+import BookConsultationDialog from '@/components/BookConsultationDialog';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -34,9 +39,24 @@ import {
   Minimize2,
   Paperclip,
   FileText,
-  Download
+  Download,
+  Languages,
+  Landmark,
+  LocateFixed,
+  CalendarPlus
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { RatingBreakdown, toRatingSummary } from '@/lib/reviews';
+import {
+  DEFAULT_DISTANCE_KM,
+  DISTANCE_OPTIONS_KM,
+  LAWYER_LANGUAGES,
+  LAWYER_SPECIALIZATIONS,
+  LAWYERS_PER_PAGE,
+  LawyerSort,
+  lawyerProfilePath
+} from '@/lib/lawyers';
+import { COURT_COMPLEXES, GeoPlace, formatDistance, placeFromColumns } from '@/lib/gazetteer';
 
 interface Lawyer {
   id: string;
@@ -45,58 +65,82 @@ interface Lawyer {
   email: string;
   phone?: string;
   location: string;
+  district?: string | null;
   avatar_url?: string;
   specialization: string;
   experience_years: number;
   license_number?: string;
   bio?: string;
-  rating?: number;
+  // Average of published reviews; null until the lawyer has one
+  rating: number | null;
+  review_count: number;
+  rating_breakdown?: RatingBreakdown;
+  languages?: string[];
+  court_complexes?: string[];
   availability: boolean;
+  // Kilometres from the search origin; null when the lawyer's office is not geocoded
+  distance_km?: number | null;
 }
 
 interface Filters {
-  expertise: string;
+  specializations: string[];
+  languages: string[];
   location: string;
+  // Place picked from the location suggestions; distances are measured from it
+  origin: GeoPlace | null;
+  // 0 means any distance
+  radiusKm: number;
+  district: string;
+  courtComplexes: string[];
   minExperience: number;
   rating: number;
-  sort: 'relevance' | 'rating' | 'experience' | 'name';
+  sort: LawyerSort;
   page: number;
 }
 
-const SPECIALIZATIONS = [
-  'All Specializations',
-  'Civil Law',
-  'Criminal Law',
-  'Corporate Law',
-  'Family Law',
-  'Property Law',
-  'Labour Law',
-  'Tax Law',
-  'Intellectual Property',
-  'Constitutional Law',
-  'Consumer Law',
-  'Cyber Law'
-];
+// Rating fields of a lawyer_profiles row, in the shape lawyer-finder returns them
+const lawyerRating = (lawyerProfile: any) => {
+  const summary = toRatingSummary(lawyerProfile);
+  return {
+    rating: summary.rating_average,
+    review_count: summary.review_count,
+    rating_breakdown: summary.rating_breakdown,
+  };
+};
+
+// Where distances are measured from: the picked place, else the user's own location unless
+// they typed a place that matched no suggestion
+const searchOrigin = (filters: Filters, homePlace: GeoPlace | null) =>
+  filters.origin ?? (filters.location.trim() ? null : homePlace);
 
 const FindLawyers = () => {
   const { user, session, loading: authLoading } = useAuth();
   const { toast } = useToast();
   
   const [filters, setFilters] = useState<Filters>({
-    expertise: '',
+    specializations: [],
+    languages: [],
     location: '',
+    origin: null,
+    radiusKm: 0,
+    district: '',
+    courtComplexes: [],
     minExperience: 0,
     rating: 0,
     sort: 'relevance',
     page: 1
   });
   
+  // The user's own geocoded location, used for distances until they pick another place
+  const [homePlace, setHomePlace] = useState<GeoPlace | null>(null);
   const [lawyers, setLawyers] = useState<Lawyer[]>([]);
   const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [selectedLawyer, setSelectedLawyer] = useState<Lawyer | null>(null);
   const [showPhoneNumber, setShowPhoneNumber] = useState(false);
+  // Lawyer whose free slots are open in the booking dialog
+  const [bookingLawyer, setBookingLawyer] = useState<Lawyer | null>(null);
   
   // Messaging system state - now using database
   const [conversations, setConversations] = useState<Array<{
@@ -118,10 +162,14 @@ const FindLawyers = () => {
   const [showMessagingPanel, setShowMessagingPanel] = useState(false);
   const [activeMessages, setActiveMessages] = useState<Map<string, string>>(new Map());
   const [loadingConversations, setLoadingConversations] = useState(false);
+  const [conversationsLoaded, setConversationsLoaded] = useState(false);
+  // ?contact=<lawyer profile id> opens a request to that lawyer, e.g. from their public profile
+  const [searchParams, setSearchParams] = useSearchParams();
+  const contactLawyerId = searchParams.get('contact');
   const [uploadingFiles, setUploadingFiles] = useState<Map<string, boolean>>(new Map());
   const fileInputRefs = useState<Map<string, HTMLInputElement | null>>(new Map())[0];
 
-  const perPage = 12;
+  const perPage = LAWYERS_PER_PAGE;
   const totalPages = Math.ceil(total / perPage);
 
   // Debug: Log component state
@@ -130,6 +178,21 @@ const FindLawyers = () => {
     console.log('Initial state:', { loading, showResults, lawyersCount: lawyers.length, total });
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const loadHomePlace = async () => {
+      const { data } = await supabase
+        .from('profiles')
+        .select('location, latitude, longitude, district, state, pincode')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      setHomePlace(placeFromColumns(data));
+    };
+
+    loadHomePlace();
+  }, [user]);
+
   const searchLawyers = useCallback(async () => {
     console.log('searchLawyers called with filters:', filters);
     setLoading(true);
@@ -144,9 +207,17 @@ const FindLawyers = () => {
       }
 
       const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/lawyer-finder`;
+      // A picked place is searched by distance; typed text that matched no suggestion by name
+      const origin = searchOrigin(filters, homePlace);
       const payload = {
-        specialization: filters.expertise === 'All Specializations' ? '' : filters.expertise,
-        location: filters.location,
+        specializations: filters.specializations,
+        languages: filters.languages,
+        location: filters.origin ? '' : filters.location,
+        district: filters.district,
+        courtComplexes: filters.courtComplexes,
+        originLat: origin?.latitude,
+        originLng: origin?.longitude,
+        radiusKm: origin ? filters.radiusKm : 0,
         minExperience: filters.minExperience,
         rating: filters.rating,
         sort: filters.sort,
@@ -184,7 +255,7 @@ const FindLawyers = () => {
 
       console.log('Received data:', data);
       setLawyers(data.lawyers || []);
-      setTotal(data.lawyers?.length || 0); // Use actual filtered count, not database total
+      setTotal(data.total || 0);
     } catch (error: any) {
       console.error('Search error:', error);
       toast({
@@ -198,7 +269,7 @@ const FindLawyers = () => {
     } finally {
       setLoading(false);
     }
-  }, [filters, toast, session]);
+  }, [filters, homePlace, toast, session]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -208,6 +279,31 @@ const FindLawyers = () => {
     searchLawyers();
   };
 
+  const changeLocation = (value: string) =>
+    setFilters(prev => ({ ...prev, location: value, origin: prev.origin?.label === value ? prev.origin : null }));
+
+  // Picking a suggestion searches around that place, nearest first
+  const selectPlace = (place: GeoPlace) =>
+    setFilters(prev => ({
+      ...prev,
+      location: place.label,
+      origin: place,
+      radiusKm: prev.radiusKm || DEFAULT_DISTANCE_KM,
+      sort: 'distance',
+      page: 1
+    }));
+
+  const changeDistrict = (district: string) =>
+    setFilters(prev => ({
+      ...prev,
+      district,
+      // Court complexes outside the new district would match nobody
+      courtComplexes: district
+        ? prev.courtComplexes.filter(name => COURT_COMPLEXES.some(court => court.name === name && court.district === district))
+        : prev.courtComplexes,
+      page: 1
+    }));
+
   const backToSearch = () => {
     setShowResults(false);
     setLawyers([]);
@@ -265,6 +361,10 @@ const FindLawyers = () => {
     setSelectedLawyer(null); // Close the profile modal
   };
 
+  // Latest handler for the ?contact= effect, which must not re-run when conversations change
+  const handleContactLawyerRef = useRef(handleContactLawyer);
+  handleContactLawyerRef.current = handleContactLawyer;
+
   const handleSendMessage = async (lawyerId: string, attachments: Array<{ name: string; url: string; type: string }> = []) => {
     const messageText = activeMessages.get(lawyerId) || '';
     if (!messageText.trim() && attachments.length === 0) return;
@@ -553,7 +653,9 @@ const FindLawyers = () => {
                 experience_years: lawyerProfile?.experience_years || 0,
                 bio: lawyerProfile?.bio || '',
                 availability: lawyerProfile?.availability || true,
-                rating: 4.5,
+                ...lawyerRating(lawyerProfile),
+                languages: lawyerProfile?.languages || [],
+                court_complexes: lawyerProfile?.court_complexes || [],
                 license_number: lawyerProfile?.license_number || ''
               } as Lawyer,
               messages: convMessages.map((msg: any) => {
@@ -591,12 +693,59 @@ const FindLawyers = () => {
         console.error('Error loading conversations:', error);
       } finally {
         setLoadingConversations(false);
+        setConversationsLoaded(true);
       }
     };
 
     loadConversations();
   }, [user]);
 
+  useEffect(() => {
+    // Wait for existing conversations so a returning client reopens theirs
+    if (!contactLawyerId || !user || !conversationsLoaded) return;
+
+    const openContactRequest = async () => {
+      const { data: lawyerProfile } = await supabase
+        .from('lawyer_profiles')
+        .select('*')
+        .eq('id', contactLawyerId)
+        .maybeSingle();
+      const { data: profile } = lawyerProfile
+        ? await supabase.from('profiles').select('*').eq('user_id', lawyerProfile.user_id).maybeSingle()
+        : { data: null };
+
+      setSearchParams({}, { replace: true });
+      if (!lawyerProfile) {
+        toast({
+          title: 'Lawyer not found',
+          description: 'This lawyer profile is no longer available',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      handleContactLawyerRef.current({
+        id: lawyerProfile.id,
+        user_id: lawyerProfile.user_id,
+        name: profile?.name || 'Unknown',
+        avatar_url: profile?.avatar_url || '',
+        location: profile?.location || '',
+        email: profile?.email || '',
+        phone: profile?.phone || '',
+        specialization: lawyerProfile.specialization || '',
+        experience_years: lawyerProfile.experience_years || 0,
+        bio: lawyerProfile.bio || '',
+        availability: lawyerProfile.availability ?? true,
+        ...lawyerRating(lawyerProfile),
+        languages: lawyerProfile.languages || [],
+        court_complexes: lawyerProfile.court_complexes || [],
+        license_number: lawyerProfile.license_number || ''
+      });
+    };
+
+    openContactRequest();
+  }, [contactLawyerId, user, conversationsLoaded, setSearchParams, toast]);
+
   // Set up realtime subscription for new messages
   useEffect(() => {
     if (!user) return;
@@ -662,7 +811,7 @@ const FindLawyers = () => {
     if (showResults && filters.page > 0) {
       searchLawyers();
     }
-  }, [showResults, filters.page, filters.sort, filters.rating, filters.minExperience, filters.expertise, searchLawyers]);
+  }, [showResults, filters.page, filters.sort, filters.rating, filters.minExperience, filters.specializations, filters.languages, filters.origin, filters.radiusKm, filters.district, filters.courtComplexes, searchLawyers]);
 
   if (authLoading) {
     return (
@@ -686,6 +835,34 @@ const FindLawyers = () => {
     return <Navigate to="/auth" replace />;
   }
 
+  const origin = searchOrigin(filters, homePlace);
+  const courtComplexOptions = COURT_COMPLEXES
+    .filter(court => !filters.district || court.district === filters.district)
+    .map(court => court.name);
+
+  const distanceSelect = (id: string) => (
+    <>
+      <Select
+        value={filters.radiusKm.toString()}
+        onValueChange={(value) => setFilters(prev => ({ ...prev, radiusKm: Number(value), page: 1 }))}
+        disabled={!origin}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="0">Any distance</SelectItem>
+          {DISTANCE_OPTIONS_KM.map(km => (
+            <SelectItem key={km} value={km.toString()}>Within {km} km</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground text-left truncate">
+        {origin ? `From ${origin.label}` : 'Pick a place from the suggestions to search by distance'}
+      </p>
+    </>
+  );
+
   return (
     <div className="min-h-screen relative overflow-hidden bg-background">
       {/* Purple radial gradients */}
@@ -723,43 +900,71 @@ const FindLawyers = () => {
             <Card className="max-w-4xl mx-auto glass">
               <CardContent className="pt-6">
                 <form onSubmit={handleSearch} className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {/* Expertise */}
                     <div className="space-y-2">
                       <Label htmlFor="expertise" className="flex items-center gap-2">
                         <Briefcase className="h-4 w-4" />
                         Field / Expertise
                       </Label>
-                      <Select
-                        value={filters.expertise}
-                        onValueChange={(value) => setFilters(prev => ({ ...prev, expertise: value }))}
-                      >
-                        <SelectTrigger id="expertise">
-                          <SelectValue placeholder="Select specialization" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {SPECIALIZATIONS.map((spec) => (
-                            <SelectItem key={spec} value={spec}>
-                              {spec}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <MultiSelectFilter
+                        id="expertise"
+                        options={LAWYER_SPECIALIZATIONS}
+                        value={filters.specializations}
+                        onChange={(value) => setFilters(prev => ({ ...prev, specializations: value }))}
+                        placeholder="All Specializations"
+                      />
                     </div>
 
-                  {/* Location */}
-                  <div className="space-y-2">
-                    <Label htmlFor="location" className="flex items-center gap-2">
-                      <MapPin className="h-4 w-4" />
-                      Location
-                    </Label>
-                    <LocationAutocomplete
-                      id="location"
-                      value={filters.location}
-                      onChange={(value) => setFilters(prev => ({ ...prev, location: value }))}
-                      placeholder="e.g. Mumbai, Delhi"
-                    />
-                  </div>                    {/* Minimum Experience */}
+                    {/* Languages */}
+                    <div className="space-y-2">
+                      <Label htmlFor="languages" className="flex items-center gap-2">
+                        <Languages className="h-4 w-4" />
+                        Languages
+                      </Label>
+                      <MultiSelectFilter
+                        id="languages"
+                        options={LAWYER_LANGUAGES}
+                        value={filters.languages}
+                        onChange={(value) => setFilters(prev => ({ ...prev, languages: value }))}
+                        placeholder="Any language"
+                      />
+                    </div>
+
+                    {/* Location */}
+                    <div className="space-y-2">
+                      <Label htmlFor="location" className="flex items-center gap-2">
+                        <MapPin className="h-4 w-4" />
+                        Location
+                      </Label>
+                      <LocationAutocomplete
+                        id="location"
+                        value={filters.location}
+                        onChange={changeLocation}
+                        onPlaceSelect={selectPlace}
+                        placeholder="City, district or pincode"
+                      />
+                    </div>
+
+                    {/* Distance */}
+                    <div className="space-y-2">
+                      <Label htmlFor="distance" className="flex items-center gap-2">
+                        <LocateFixed className="h-4 w-4" />
+                        Distance
+                      </Label>
+                      {distanceSelect('distance')}
+                    </div>
+
+                    {/* District */}
+                    <div className="space-y-2">
+                      <Label htmlFor="district" className="flex items-center gap-2">
+                        <MapPin className="h-4 w-4" />
+                        District
+                      </Label>
+                      <DistrictSelect id="district" value={filters.district} onChange={changeDistrict} />
+                    </div>
+
+                    {/* Minimum Experience */}
                     <div className="space-y-2">
                       <Label htmlFor="experience" className="flex items-center gap-2">
                         <Award className="h-4 w-4" />
@@ -814,23 +1019,28 @@ const FindLawyers = () => {
                       <Briefcase className="h-4 w-4" />
                       Expertise
                     </Label>
-                    <Select
-                      value={filters.expertise}
-                      onValueChange={(value) => {
-                        setFilters(prev => ({ ...prev, expertise: value, page: 1 }));
-                      }}
-                    >
-                      <SelectTrigger id="sidebar-expertise">
-                        <SelectValue placeholder="All Specializations" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {SPECIALIZATIONS.map((spec) => (
-                          <SelectItem key={spec} value={spec}>
-                            {spec}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                    <MultiSelectFilter
+                      id="sidebar-expertise"
+                      options={LAWYER_SPECIALIZATIONS}
+                      value={filters.specializations}
+                      onChange={(value) => setFilters(prev => ({ ...prev, specializations: value, page: 1 }))}
+                      placeholder="All Specializations"
+                    />
+                  </div>
+
+                  {/* Languages Filter */}
+                  <div className="space-y-2">
+                    <Label htmlFor="sidebar-languages" className="flex items-center gap-2">
+                      <Languages className="h-4 w-4" />
+                      Languages
+                    </Label>
+                    <MultiSelectFilter
+                      id="sidebar-languages"
+                      options={LAWYER_LANGUAGES}
+                      value={filters.languages}
+                      onChange={(value) => setFilters(prev => ({ ...prev, languages: value, page: 1 }))}
+                      placeholder="Any language"
+                    />
                   </div>
 
                   {/* Location Filter */}
@@ -842,9 +1052,42 @@ const FindLawyers = () => {
                     <LocationAutocomplete
                       id="sidebar-location"
                       value={filters.location}
-                      onChange={(value) => setFilters(prev => ({ ...prev, location: value }))}
-                      onSelect={() => setFilters(prev => ({ ...prev, page: 1 }))}
-                      placeholder="e.g. Mumbai, Delhi"
+                      onChange={changeLocation}
+                      onPlaceSelect={selectPlace}
+                      placeholder="City, district or pincode"
+                    />
+                  </div>
+
+                  {/* Distance Filter */}
+                  <div className="space-y-2">
+                    <Label htmlFor="sidebar-distance" className="flex items-center gap-2">
+                      <LocateFixed className="h-4 w-4" />
+                      Distance
+                    </Label>
+                    {distanceSelect('sidebar-distance')}
+                  </div>
+
+                  {/* District Filter */}
+                  <div className="space-y-2">
+                    <Label htmlFor="sidebar-district" className="flex items-center gap-2">
+                      <MapPin className="h-4 w-4" />
+                      District
+                    </Label>
+                    <DistrictSelect id="sidebar-district" value={filters.district} onChange={changeDistrict} />
+                  </div>
+
+                  {/* Court Complex Filter */}
+                  <div className="space-y-2">
+                    <Label htmlFor="sidebar-courts" className="flex items-center gap-2">
+                      <Landmark className="h-4 w-4" />
+                      Court Complex
+                    </Label>
+                    <MultiSelectFilter
+                      id="sidebar-courts"
+                      options={courtComplexOptions}
+                      value={filters.courtComplexes}
+                      onChange={(value) => setFilters(prev => ({ ...prev, courtComplexes: value, page: 1 }))}
+                      placeholder="Any court"
                     />
                   </div>
 
@@ -853,13 +1096,14 @@ const FindLawyers = () => {
                     <Label>Sort By</Label>
                     <Select
                       value={filters.sort}
-                      onValueChange={(value: any) => setFilters(prev => ({ ...prev, sort: value, page: 1 }))}
+                      onValueChange={(value) => setFilters(prev => ({ ...prev, sort: value as LawyerSort, page: 1 }))}
                     >
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="relevance">Relevance</SelectItem>
+                        <SelectItem value="distance" disabled={!origin}>Nearest First</SelectItem>
                         <SelectItem value="rating">Highest Rating</SelectItem>
                         <SelectItem value="experience">Most Experience</SelectItem>
                         <SelectItem value="name">Name (A-Z)</SelectItem>
@@ -872,7 +1116,7 @@ const FindLawyers = () => {
                     <Label>Minimum Rating</Label>
                     <Select
                       value={filters.rating.toString()}
-                      onValueChange={(value) => setFilters(prev => ({ ...prev, rating: parseInt(value), page: 1 }))}
+                      onValueChange={(value) => setFilters(prev => ({ ...prev, rating: parseFloat(value), page: 1 }))}
                     >
                       <SelectTrigger>
                         <SelectValue />
@@ -908,7 +1152,10 @@ const FindLawyers = () => {
                     {loading ? (
                       'Searching...'
                     ) : (
-                      <>Found <span className="font-semibold text-foreground">{total}</span> lawyer{total !== 1 ? 's' : ''}</>
+                      <>
+                        Found <span className="font-semibold text-foreground">{total}</span> lawyer{total !== 1 ? 's' : ''}
+                        {origin && filters.radiusKm > 0 && <> within {filters.radiusKm} km of {origin.label}</>}
+                      </>
                     )}
                   </p>
                 </div>
@@ -981,6 +1228,9 @@ const FindLawyers = () => {
                               <div className="flex items-center gap-1 text-sm text-muted-foreground">
                                 <MapPin className="h-4 w-4" />
                                 <span>{lawyer.location}</span>
+                                {lawyer.distance_km != null && (
+                                  <span className="font-medium text-primary">· {formatDistance(lawyer.distance_km)} away</span>
+                                )}
                               </div>
 
                               <div className="flex items-center gap-4 text-sm">
@@ -989,11 +1239,14 @@ const FindLawyers = () => {
                                   <span>{lawyer.experience_years} years</span>
                                 </div>
                                 
-                                {lawyer.rating && (
+                                {lawyer.rating !== null ? (
                                   <div className="flex items-center gap-1">
                                     <Star className="h-4 w-4 fill-yellow-500 text-yellow-500" />
                                     <span>{lawyer.rating.toFixed(1)}</span>
+                                    <span className="text-muted-foreground">({lawyer.review_count})</span>
                                   </div>
+                                ) : (
+                                  <span className="text-muted-foreground">No reviews yet</span>
                                 )}
                               </div>
 
@@ -1086,21 +1339,28 @@ const FindLawyers = () => {
                   
                   <div className="flex-1 space-y-2">
                     <h3 className="text-2xl font-bold">{selectedLawyer.name}</h3>
+                    <Link
+                      to={lawyerProfilePath(selectedLawyer.id)}
+                      className="block text-sm text-primary hover:underline"
+                    >
+                      View public profile
+                    </Link>
                     <Badge variant="secondary">{selectedLawyer.specialization}</Badge>
                     
                     <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
                       <div className="flex items-center gap-1">
                         <MapPin className="h-4 w-4" />
                         {selectedLawyer.location}
+                        {selectedLawyer.distance_km != null && ` · ${formatDistance(selectedLawyer.distance_km)} away`}
                       </div>
                       <div className="flex items-center gap-1">
                         <Award className="h-4 w-4" />
                         {selectedLawyer.experience_years} years experience
                       </div>
-                      {selectedLawyer.rating && (
+                      {selectedLawyer.rating !== null && (
                         <div className="flex items-center gap-1">
-                          <Star className="h-4 w-4 fill-yellow-500 text-yellow-500" />
-                          {selectedLawyer.rating.toFixed(1)} rating
+                          <StarRating value={selectedLawyer.rating} />
+                          {selectedLawyer.rating.toFixed(1)} ({selectedLawyer.review_count} review{selectedLawyer.review_count !== 1 ? 's' : ''})
                         </div>
                       )}
                     </div>
@@ -1120,6 +1380,36 @@ const FindLawyers = () => {
                   </div>
                 )}
 
+                {/* Languages */}
+                {selectedLawyer.languages && selectedLawyer.languages.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="font-semibold flex items-center gap-2">
+                      <Languages className="h-4 w-4" />
+                      Languages
+                    </h4>
+                    <div className="flex flex-wrap gap-2">
+                      {selectedLawyer.languages.map((language) => (
+                        <Badge key={language} variant="outline">{language}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Court Complexes */}
+                {selectedLawyer.court_complexes && selectedLawyer.court_complexes.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="font-semibold flex items-center gap-2">
+                      <Landmark className="h-4 w-4" />
+                      Practises At
+                    </h4>
+                    <div className="flex flex-wrap gap-2">
+                      {selectedLawyer.court_complexes.map((court) => (
+                        <Badge key={court} variant="outline">{court}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* License */}
                 {selectedLawyer.license_number && (
                   <div className="space-y-2">
@@ -1150,6 +1440,22 @@ const FindLawyers = () => {
                   </div>
                 </div>
 
+                {/* Reviews */}
+                <div className="space-y-3 pt-4 border-t">
+                  <h4 className="font-semibold flex items-center gap-2">
+                    <Star className="h-4 w-4" />
+                    Client Reviews
+                  </h4>
+                  <LawyerReviews
+                    lawyerId={selectedLawyer.user_id}
+                    summary={toRatingSummary({
+                      rating_average: selectedLawyer.rating,
+                      review_count: selectedLawyer.review_count,
+                      rating_breakdown: selectedLawyer.rating_breakdown,
+                    })}
+                  />
+                </div>
+
                 {/* Actions */}
                 <div className="flex gap-3 pt-4 border-t">
                   <Button 
@@ -1160,6 +1466,15 @@ const FindLawyers = () => {
                     <MessageSquare className="h-5 w-5" />
                     Send a request
                   </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1 gap-2"
+                    size="lg"
+                    onClick={() => setBookingLawyer(selectedLawyer)}
+                  >
+                    <CalendarPlus className="h-5 w-5" />
+                    Book a consultation
+                  </Button>
                   <Button 
                     variant="outline" 
                     size="lg"
@@ -1187,6 +1502,15 @@ const FindLawyers = () => {
         </DialogContent>
       </Dialog>
 
+      {bookingLawyer && (
+        <BookConsultationDialog
+          open={!!bookingLawyer}
+          onOpenChange={(open) => !open && setBookingLawyer(null)}
+          lawyerId={bookingLawyer.user_id}
+          name={bookingLawyer.name}
+        />
+      )}
+
       {/* LinkedIn-Style Messaging System */}
       
       {/* Messaging Button - Always visible at bottom-right */}
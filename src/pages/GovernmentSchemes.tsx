@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { supabase } from '@/integrations/supabase/client';
 import Navigation from '@/components/Navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,9 +10,34 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { Award, Search, CheckCircle2, FileText, Calendar, IndianRupee, User, MapPin, Briefcase, Loader2, Sparkles, Bookmark, BookmarkCheck } from 'lucide-react';
+import { Award, Search, CheckCircle2, FileText, Calendar, IndianRupee, User, MapPin, Briefcase, Loader2, Sparkles, Bell, Bookmark, BookmarkCheck, ChevronDown, ChevronUp, ListChecks, Plus, Trash2, Users } from 'lucide-react';
+import EligibilityChecklist from '@/components/EligibilityChecklist';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  APPLICANT_PROFILE_FIELDS,
+  ApplicantFormData,
+  applicantProfileToForm,
+  CriterionResult,
+  emptyApplicantForm,
+  formToApplicantProfile,
+  HouseholdMember,
+  MAX_HOUSEHOLD_MEMBERS,
+  RELATIONSHIP_OPTIONS,
+  Relationship,
+  relationshipLabel,
+} from '@/lib/schemes';
 
 interface Scheme {
   id: string;
@@ -26,32 +52,177 @@ interface Scheme {
   deadline?: string;
   officialWebsite?: string;
   personalizedReason?: string;
+  // Result of each eligibility rule; for schemes not matched, only the rules that failed
+  criteria?: CriterionResult[];
+  matchScore?: number;
+}
+
+// Results for one applicant; a household search returns one group per member
+interface SearchGroup {
+  // Saved household member, or null for a search that was not saved
+  memberId: string | null;
+  name: string;
+  relationship?: string;
+  error?: string;
+  schemes: Scheme[];
+  totalEligible: number;
+  totalChecked: number;
+  notEligible: Scheme[];
 }
 
 const GovernmentSchemes = () => {
   const { user, loading: authLoading, profile } = useAuth();
+  const { language } = useLanguage();
   const { toast } = useToast();
   const [searching, setSearching] = useState(false);
-  const [schemes, setSchemes] = useState<Scheme[]>([]);
-  const [totalEligible, setTotalEligible] = useState(0);
+  const [results, setResults] = useState<SearchGroup[]>([]);
+  const [householdSearch, setHouseholdSearch] = useState(false);
+  // Groups whose unmatched schemes are expanded, by member id ('' for an unsaved search)
+  const [expandedNotEligible, setExpandedNotEligible] = useState<Set<string>>(new Set());
   const [showResults, setShowResults] = useState(false);
   const [savingScheme, setSavingScheme] = useState<string | null>(null);
   const [savedSchemeIds, setSavedSchemeIds] = useState<Set<string>>(new Set());
+
+  // Household members saved in applicant_profiles; also matched by scheme alerts
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [editingMemberId, setEditingMemberId] = useState<string | null>(null);
+  const [rememberProfile, setRememberProfile] = useState(true);
+  const [pendingRemoveMember, setPendingRemoveMember] = useState<HouseholdMember | null>(null);
   
-  const [formData, setFormData] = useState({
-    applicantName: profile?.name || '',
-    age: '',
-    gender: '',
-    income: '',
-    parentIncome: '',
-    occupation: '',
-    state: '',
-    areaType: '',
-    caste: '',
-    isDisabled: '',
-    isMinority: '',
-    isStudent: ''
-  });
+  const [formData, setFormData] = useState<ApplicantFormData>(emptyApplicantForm(profile?.name || ''));
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadMembers = async () => {
+      const { data, error } = await supabase
+        .from('applicant_profiles')
+        .select(APPLICANT_PROFILE_FIELDS)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Failed to load household members:', error);
+        return;
+      }
+      const saved = data || [];
+      setMembers(saved);
+
+      // Start with the account holder's details when they are saved
+      const initial = saved.find((member) => member.relationship === 'self') ?? saved[0];
+      if (initial) {
+        setFormData(applicantProfileToForm(initial));
+        setEditingMemberId(initial.id);
+      } else {
+        setFormData((current) => current.applicantName ? current : { ...current, applicantName: profile?.name || '' });
+      }
+    };
+
+    loadMembers();
+  }, [user, profile?.name]);
+
+  const editingMember = members.find((member) => member.id === editingMemberId) ?? null;
+  const selfTaken = members.some((member) => member.relationship === 'self' && member.id !== editingMemberId);
+
+  const selectMember = (member: HouseholdMember) => {
+    setEditingMemberId(member.id);
+    setFormData(applicantProfileToForm(member));
+    setRememberProfile(true);
+  };
+
+  const startNewMember = () => {
+    setEditingMemberId(null);
+    setFormData(emptyApplicantForm('', members.some((member) => member.relationship === 'self') ? 'spouse' : 'self'));
+    setRememberProfile(true);
+  };
+
+  /**
+   * Save the form as a new household member or over the member being edited
+   */
+  const saveMember = async () => {
+    if (!user) return;
+
+    const row = formToApplicantProfile(formData);
+    const query = supabase.from('applicant_profiles');
+    const { data, error } = editingMemberId
+      ? await query.update(row).eq('id', editingMemberId).select(APPLICANT_PROFILE_FIELDS).single()
+      : await query.insert({ user_id: user.id, ...row }).select(APPLICANT_PROFILE_FIELDS).single();
+
+    if (error) {
+      // The search itself has worked; the household just keeps its previous details
+      console.error('Failed to save household member:', error);
+      toast({
+        title: "Member Not Saved",
+        description: (error as { message?: string }).message || 'Could not save this household member',
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setMembers((current) => editingMemberId
+      ? current.map((member) => (member.id === data.id ? data : member))
+      : [...current, data]);
+    setEditingMemberId(data.id);
+  };
+
+  const removeMember = async () => {
+    const member = pendingRemoveMember;
+    setPendingRemoveMember(null);
+    if (!member) return;
+
+    const { error } = await supabase
+      .from('applicant_profiles')
+      .delete()
+      .eq('id', member.id);
+
+    if (error) {
+      console.error('Failed to remove household member:', error);
+      toast({
+        title: "Failed to Remove",
+        description: (error as { message?: string }).message || 'Could not remove this household member',
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setMembers((current) => current.filter((item) => item.id !== member.id));
+    if (member.id === editingMemberId) {
+      setEditingMemberId(null);
+      setFormData(emptyApplicantForm());
+    }
+  };
+
+  const callSchemesFunction = async (body: Record<string, unknown>) => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/government-schemes`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session?.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ language, ...body }),
+    });
+
+    console.log('Response status:', response.status, response.statusText);
+    const result = await response.json();
+
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    return result;
+  };
+
+  const showGroups = (groups: SearchGroup[], household: boolean) => {
+    setResults(groups);
+    setHouseholdSearch(household);
+    setExpandedNotEligible(new Set());
+    setShowResults(true);
+  };
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,47 +240,34 @@ const GovernmentSchemes = () => {
     
     try {
       console.log('Searching for schemes with data:', formData);
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session?.access_token) {
-        throw new Error('Not authenticated');
-      }
-      
-      console.log('Making fetch request to government-schemes function...');
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/government-schemes`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session?.access_token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          applicantName: formData.applicantName,
-          age: parseInt(formData.age),
-          gender: formData.gender,
-          income: formData.income ? parseFloat(formData.income) : null,
-          parentIncome: formData.parentIncome ? parseFloat(formData.parentIncome) : null,
-          occupation: formData.occupation,
-          state: formData.state,
-          areaType: formData.areaType,
-          caste: formData.caste,
-          isDisabled: formData.isDisabled === 'yes',
-          isMinority: formData.isMinority === 'yes',
-          isStudent: formData.isStudent === 'yes'
-        }),
+      const result = await callSchemesFunction({
+        applicantName: formData.applicantName,
+        age: parseInt(formData.age),
+        gender: formData.gender,
+        income: formData.income ? parseFloat(formData.income) : null,
+        parentIncome: formData.parentIncome ? parseFloat(formData.parentIncome) : null,
+        occupation: formData.occupation,
+        state: formData.state,
+        areaType: formData.areaType,
+        caste: formData.caste,
+        isDisabled: formData.isDisabled === 'yes',
+        isMinority: formData.isMinority === 'yes',
+        isStudent: formData.isStudent === 'yes'
       });
 
-      console.log('Response status:', response.status, response.statusText);
-      const result = await response.json();
-      
-      console.log('API Response:', result);
-      
-      if (result.error) {
-        throw new Error(result.error);
+      if (rememberProfile) {
+        await saveMember();
       }
 
-      setSchemes(result.schemes || []);
-      setTotalEligible(result.total_eligible || 0);
-      setShowResults(true);
+      showGroups([{
+        memberId: rememberProfile ? editingMemberId : null,
+        name: formData.applicantName,
+        relationship: formData.relationship,
+        schemes: result.schemes || [],
+        totalEligible: result.total_eligible || 0,
+        totalChecked: result.total_checked || 0,
+        notEligible: result.not_eligible || [],
+      }], false);
       
       toast({
         title: "Search Complete!",
@@ -128,6 +286,50 @@ const GovernmentSchemes = () => {
     }
   };
 
+  const handleHouseholdSearch = async () => {
+    setSearching(true);
+
+    try {
+      const result = await callSchemesFunction({ household: true });
+      const groups: SearchGroup[] = (result.members || []).map((member: {
+        id: string;
+        name: string;
+        relationship: string;
+        error?: string;
+        schemes: Scheme[];
+        total_eligible: number;
+        total_checked: number;
+        not_eligible: Scheme[];
+      }) => ({
+        memberId: member.id,
+        name: member.name,
+        relationship: member.relationship,
+        error: member.error,
+        schemes: member.schemes || [],
+        totalEligible: member.total_eligible || 0,
+        totalChecked: member.total_checked || 0,
+        notEligible: member.not_eligible || [],
+      }));
+
+      showGroups(groups, true);
+
+      const matched = groups.reduce((sum, group) => sum + group.totalEligible, 0);
+      toast({
+        title: "Search Complete!",
+        description: `Found ${matched} eligible scheme${matched !== 1 ? 's' : ''} across ${groups.length} household member${groups.length !== 1 ? 's' : ''}.`,
+      });
+    } catch (error) {
+      console.error('Error searching schemes for household:', error);
+      toast({
+        title: "Search Failed",
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: "destructive"
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
   const handleSaveScheme = async (scheme: Scheme) => {
     if (!user) {
       toast({
@@ -163,6 +365,7 @@ const GovernmentSchemes = () => {
         .from('saved_schemes')
         .insert({
           user_id: user.id,
+          scheme_id: scheme.id,
           scheme_name: scheme.name,
           scheme_description: scheme.description,
           scheme_benefits: scheme.benefits,
@@ -182,7 +385,7 @@ const GovernmentSchemes = () => {
       
       toast({
         title: "Scheme Saved!",
-        description: "You can view this scheme in your dashboard",
+        description: "Track your application and documents on your dashboard",
       });
     } catch (error) {
       console.error('Error saving scheme:', error);
@@ -196,6 +399,144 @@ const GovernmentSchemes = () => {
     }
   };
 
+  const toggleNotEligible = (groupKey: string) =>
+    setExpandedNotEligible((current) => {
+      const next = new Set(current);
+      if (next.has(groupKey)) {
+        next.delete(groupKey);
+      } else {
+        next.add(groupKey);
+      }
+      return next;
+    });
+
+  const renderSchemeCard = (scheme: Scheme, index: number, groupKey: string) => (
+    <Card key={`${groupKey}-${scheme.id}`} className="glass hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-2">
+              <Badge variant="secondary">{scheme.category}</Badge>
+              {scheme.state && <Badge variant="outline">{scheme.state}</Badge>}
+            </div>
+            <CardTitle className="text-2xl mb-2">{scheme.name}</CardTitle>
+            <CardDescription className="text-base">{scheme.description}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2 text-primary">
+            <Sparkles className="h-6 w-6" />
+            <span className="text-sm font-medium">#{index + 1}</span>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {scheme.personalizedReason && (
+          <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
+            <h4 className="font-semibold mb-2 flex items-center gap-2 text-primary">
+              <Sparkles className="h-4 w-4" />
+              Why this is perfect for you
+            </h4>
+            <p className="text-sm">{scheme.personalizedReason}</p>
+          </div>
+        )}
+
+        {scheme.benefits && (
+          <div>
+            <h4 className="font-semibold mb-2 flex items-center gap-2">
+              <CheckCircle2 className="h-4 w-4 text-green-500" />
+              Benefits
+            </h4>
+            <p className="text-muted-foreground">{scheme.benefits}</p>
+          </div>
+        )}
+
+        {scheme.criteria ? (
+          <div>
+            <h4 className="font-semibold mb-2 flex items-center gap-2">
+              <ListChecks className="h-4 w-4" />
+              Eligibility check
+            </h4>
+            <EligibilityChecklist criteria={scheme.criteria} />
+          </div>
+        ) : scheme.eligibility && (
+          <div>
+            <h4 className="font-semibold mb-2 flex items-center gap-2">
+              <User className="h-4 w-4" />
+              Eligibility
+            </h4>
+            <p className="text-muted-foreground text-sm">{scheme.eligibility}</p>
+          </div>
+        )}
+
+        {scheme.howToApply && (
+          <div>
+            <h4 className="font-semibold mb-2 flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              How to Apply
+            </h4>
+            <p className="text-muted-foreground text-sm">{scheme.howToApply}</p>
+          </div>
+        )}
+
+        {scheme.documents && scheme.documents.length > 0 && (
+          <div>
+            <h4 className="font-semibold mb-2">Required Documents</h4>
+            <ul className="list-disc list-inside text-muted-foreground text-sm space-y-1">
+              {scheme.documents.map((doc, idx) => (
+                <li key={idx}>{doc}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {scheme.deadline && (
+          <div className="flex items-center gap-2 text-sm">
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+            <span className="text-muted-foreground">
+              <strong>Deadline:</strong> {scheme.deadline}
+            </span>
+          </div>
+        )}
+
+        <Separator />
+
+        <div className="flex flex-wrap gap-4">
+          {scheme.officialWebsite && scheme.officialWebsite !== 'Visit nearest government office' && (
+            <Button 
+              className="flex-1" 
+              onClick={() => window.open(scheme.officialWebsite, '_blank')}
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              Visit Official Website
+            </Button>
+          )}
+          <Button 
+            variant="outline" 
+            className="flex-1"
+            onClick={() => handleSaveScheme(scheme)}
+            disabled={savingScheme === scheme.id || savedSchemeIds.has(scheme.id)}
+          >
+            {savingScheme === scheme.id ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : savedSchemeIds.has(scheme.id) ? (
+              <>
+                <BookmarkCheck className="mr-2 h-4 w-4" />
+                Saved
+              </>
+            ) : (
+              <>
+                <Bookmark className="mr-2 h-4 w-4" />
+                Save Scheme
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   if (authLoading) {
     return (
       <div className="min-h-screen relative overflow-hidden bg-background flex items-center justify-center">
@@ -244,13 +585,89 @@ const GovernmentSchemes = () => {
             </p>
           </div>
 
+          {/* Saved household members */}
+          {!showResults && (
+            <Card className="glass mb-8">
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-2xl flex items-center gap-2">
+                      <Users className="h-6 w-6" />
+                      Your Household
+                    </CardTitle>
+                    <CardDescription>
+                      Pick a family member to search or edit their details, or search for everyone at once
+                    </CardDescription>
+                  </div>
+                  <Button onClick={handleHouseholdSearch} disabled={searching || members.length === 0} className="gap-2">
+                    {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Users className="h-4 w-4" />}
+                    Search Whole Household
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                  {members.map((member) => (
+                    <div
+                      key={member.id}
+                      onClick={() => selectMember(member)}
+                      className={`group flex items-start justify-between gap-2 rounded-lg border p-3 cursor-pointer transition-colors ${
+                        member.id === editingMemberId ? 'border-primary bg-primary/5' : 'hover:border-primary/50'
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{member.applicant_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {relationshipLabel(member.relationship)} · {member.age} yrs
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setPendingRemoveMember(member);
+                        }}
+                        aria-label={`Remove ${member.applicant_name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {members.length < MAX_HOUSEHOLD_MEMBERS && (
+                    <button
+                      type="button"
+                      onClick={startNewMember}
+                      className={`flex items-center justify-center gap-2 rounded-lg border border-dashed p-3 text-sm transition-colors ${
+                        editingMemberId === null ? 'border-primary text-primary' : 'text-muted-foreground hover:border-primary/50 hover:text-foreground'
+                      }`}
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add Family Member
+                    </button>
+                  )}
+                </div>
+                {members.length === 0 && (
+                  <p className="text-sm text-muted-foreground mt-3">
+                    No one saved yet. Fill in the form below with "Save to my household" ticked to add yourself, then add your spouse, parents or children.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Search Form */}
           {!showResults && (
             <Card className="glass mb-8">
               <CardHeader>
-                <CardTitle className="text-2xl">Your Profile</CardTitle>
+                <CardTitle className="text-2xl">
+                  {editingMember ? editingMember.applicant_name : members.length > 0 ? 'New Family Member' : 'Your Profile'}
+                </CardTitle>
                 <CardDescription>
-                  Tell us about yourself to find schemes tailored for you
+                  {editingMember
+                    ? 'Update the details and search, or change them for future household searches'
+                    : 'Tell us about yourself to find schemes tailored for you'}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -270,6 +687,28 @@ const GovernmentSchemes = () => {
                       />
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="relationship" className="flex items-center gap-2">
+                        <Users className="h-4 w-4" />
+                        Relationship *
+                      </Label>
+                      <Select
+                        value={formData.relationship}
+                        onValueChange={(value) => setFormData({ ...formData, relationship: value as Relationship })}
+                      >
+                        <SelectTrigger id="relationship">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RELATIONSHIP_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value} disabled={option.value === 'self' && selfTaken}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <div className="space-y-2">
                       <Label htmlFor="age" className="flex items-center gap-2">
                         <Calendar className="h-4 w-4" />
@@ -473,6 +912,25 @@ const GovernmentSchemes = () => {
                     </div>
                   </div>
 
+                  <div className="flex items-start gap-3 rounded-lg border p-4">
+                    <Checkbox
+                      id="rememberProfile"
+                      checked={rememberProfile}
+                      onCheckedChange={(checked) => setRememberProfile(checked === true)}
+                      className="mt-0.5"
+                    />
+                    <div className="space-y-1">
+                      <Label htmlFor="rememberProfile" className="flex items-center gap-2">
+                        <Bell className="h-4 w-4" />
+                        {editingMember ? `Save changes to ${editingMember.applicant_name}` : 'Save to my household'}
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        Saved members can be searched together, and we check new and closing schemes against them. Choose how often you are alerted on your{' '}
+                        <Link to="/dashboard" className="text-primary underline-offset-4 hover:underline">dashboard</Link>.
+                      </p>
+                    </div>
+                  </div>
+
                   <Button type="submit" size="lg" className="w-full" disabled={searching}>
                     {searching ? (
                       <>
@@ -496,9 +954,11 @@ const GovernmentSchemes = () => {
             <>
               <div className="flex items-center justify-between mb-6">
                 <div>
-                  <h2 className="text-2xl font-bold">Your Eligible Schemes</h2>
+                  <h2 className="text-2xl font-bold">{householdSearch ? 'Schemes for Your Household' : 'Your Eligible Schemes'}</h2>
                   <p className="text-muted-foreground">
-                    Found {totalEligible} scheme{totalEligible !== 1 ? 's' : ''} matching your profile
+                    {householdSearch
+                      ? `Found ${results.reduce((sum, group) => sum + group.totalEligible, 0)} matches across ${results.length} member${results.length !== 1 ? 's' : ''}`
+                      : `Found ${results[0]?.totalEligible ?? 0} scheme${results[0]?.totalEligible !== 1 ? 's' : ''} matching your profile out of ${results[0]?.totalChecked ?? 0} checked`}
                   </p>
                 </div>
                 <Button variant="outline" onClick={() => setShowResults(false)}>
@@ -506,142 +966,102 @@ const GovernmentSchemes = () => {
                 </Button>
               </div>
 
-              {schemes.length === 0 ? (
-                <Card className="glass">
-                  <CardContent className="text-center py-12">
-                    <Award className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-                    <h3 className="text-xl font-semibold mb-2">No Schemes Found</h3>
-                    <p className="text-muted-foreground">
-                      We couldn't find any schemes matching your current profile. Try modifying your search criteria.
-                    </p>
-                  </CardContent>
-                </Card>
-              ) : (
-                <div className="grid gap-6">
-                  {schemes.map((scheme, index) => (
-                    <Card key={scheme.id} className="glass hover:shadow-lg transition-shadow">
-                      <CardHeader>
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-2">
-                              <Badge variant="secondary">{scheme.category}</Badge>
-                              {scheme.state && <Badge variant="outline">{scheme.state}</Badge>}
-                            </div>
-                            <CardTitle className="text-2xl mb-2">{scheme.name}</CardTitle>
-                            <CardDescription className="text-base">{scheme.description}</CardDescription>
-                          </div>
-                          <div className="flex items-center gap-2 text-primary">
-                            <Sparkles className="h-6 w-6" />
-                            <span className="text-sm font-medium">#{index + 1}</span>
-                          </div>
-                        </div>
-                      </CardHeader>
-                      <CardContent className="space-y-4">
-                        {scheme.personalizedReason && (
-                          <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
-                            <h4 className="font-semibold mb-2 flex items-center gap-2 text-primary">
-                              <Sparkles className="h-4 w-4" />
-                              Why this is perfect for you
-                            </h4>
-                            <p className="text-sm">{scheme.personalizedReason}</p>
-                          </div>
-                        )}
-
-                        {scheme.benefits && (
-                          <div>
-                            <h4 className="font-semibold mb-2 flex items-center gap-2">
-                              <CheckCircle2 className="h-4 w-4 text-green-500" />
-                              Benefits
-                            </h4>
-                            <p className="text-muted-foreground">{scheme.benefits}</p>
-                          </div>
-                        )}
-
-                        {scheme.eligibility && (
-                          <div>
-                            <h4 className="font-semibold mb-2 flex items-center gap-2">
-                              <User className="h-4 w-4" />
-                              Eligibility
-                            </h4>
-                            <p className="text-muted-foreground text-sm">{scheme.eligibility}</p>
-                          </div>
-                        )}
-
-                        {scheme.howToApply && (
-                          <div>
-                            <h4 className="font-semibold mb-2 flex items-center gap-2">
-                              <FileText className="h-4 w-4" />
-                              How to Apply
-                            </h4>
-                            <p className="text-muted-foreground text-sm">{scheme.howToApply}</p>
-                          </div>
-                        )}
-
-                        {scheme.documents && scheme.documents.length > 0 && (
-                          <div>
-                            <h4 className="font-semibold mb-2">Required Documents</h4>
-                            <ul className="list-disc list-inside text-muted-foreground text-sm space-y-1">
-                              {scheme.documents.map((doc, idx) => (
-                                <li key={idx}>{doc}</li>
-                              ))}
-                            </ul>
-                          </div>
-                        )}
-
-                        {scheme.deadline && (
-                          <div className="flex items-center gap-2 text-sm">
-                            <Calendar className="h-4 w-4 text-muted-foreground" />
-                            <span className="text-muted-foreground">
-                              <strong>Deadline:</strong> {scheme.deadline}
+              <div className="space-y-12">
+                {results.map((group) => {
+                  const groupKey = group.memberId ?? '';
+                  const showNotEligible = expandedNotEligible.has(groupKey);
+                  return (
+                    <section key={groupKey}>
+                      {householdSearch && (
+                        <div className="flex flex-wrap items-center gap-3 mb-4">
+                          <User className="h-5 w-5 text-primary" />
+                          <h3 className="text-xl font-semibold">{group.name}</h3>
+                          {group.relationship && <Badge variant="outline">{relationshipLabel(group.relationship)}</Badge>}
+                          {!group.error && (
+                            <span className="text-sm text-muted-foreground">
+                              {group.totalEligible} of {group.totalChecked} schemes
                             </span>
-                          </div>
-                        )}
-
-                        <Separator />
-
-                        <div className="flex flex-wrap gap-4">
-                          {scheme.officialWebsite && scheme.officialWebsite !== 'Visit nearest government office' && (
-                            <Button 
-                              className="flex-1" 
-                              onClick={() => window.open(scheme.officialWebsite, '_blank')}
-                            >
-                              <FileText className="mr-2 h-4 w-4" />
-                              Visit Official Website
-                            </Button>
                           )}
-                          <Button 
-                            variant="outline" 
-                            className="flex-1"
-                            onClick={() => handleSaveScheme(scheme)}
-                            disabled={savingScheme === scheme.id || savedSchemeIds.has(scheme.id)}
+                        </div>
+                      )}
+
+                      {group.error ? (
+                        <Card className="glass">
+                          <CardContent className="py-6 text-sm text-muted-foreground">
+                            {group.error}. Select {group.name} in your household to complete their details.
+                          </CardContent>
+                        </Card>
+                      ) : group.schemes.length === 0 ? (
+                        <Card className="glass">
+                          <CardContent className="text-center py-12">
+                            <Award className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                            <h3 className="text-xl font-semibold mb-2">No Schemes Found</h3>
+                            <p className="text-muted-foreground">
+                              We couldn't find any schemes matching {householdSearch ? `${group.name}'s` : 'your current'} profile. Try modifying the search criteria.
+                            </p>
+                          </CardContent>
+                        </Card>
+                      ) : (
+                        <div className="grid gap-6">
+                          {group.schemes.map((scheme, index) => renderSchemeCard(scheme, index, groupKey))}
+                        </div>
+                      )}
+
+                      {group.notEligible.length > 0 && (
+                        <div className="mt-8">
+                          <Button
+                            variant="ghost"
+                            className="gap-2 px-0 hover:bg-transparent"
+                            onClick={() => toggleNotEligible(groupKey)}
                           >
-                            {savingScheme === scheme.id ? (
-                              <>
-                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                Saving...
-                              </>
-                            ) : savedSchemeIds.has(scheme.id) ? (
-                              <>
-                                <BookmarkCheck className="mr-2 h-4 w-4" />
-                                Saved
-                              </>
-                            ) : (
-                              <>
-                                <Bookmark className="mr-2 h-4 w-4" />
-                                Save Scheme
-                              </>
-                            )}
+                            {showNotEligible ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                            Why {group.notEligible.length} other scheme{group.notEligible.length !== 1 ? 's were' : ' was'} not matched
                           </Button>
+                          {showNotEligible && (
+                            <div className="grid gap-4 md:grid-cols-2 mt-4">
+                              {group.notEligible.map((scheme) => (
+                                <Card key={scheme.id} className="glass">
+                                  <CardHeader className="pb-3">
+                                    <div className="flex items-center gap-2 mb-1">
+                                      <Badge variant="secondary">{scheme.category}</Badge>
+                                      {scheme.state && <Badge variant="outline">{scheme.state}</Badge>}
+                                    </div>
+                                    <CardTitle className="text-lg">{scheme.name}</CardTitle>
+                                  </CardHeader>
+                                  <CardContent>
+                                    <EligibilityChecklist criteria={scheme.criteria ?? []} />
+                                  </CardContent>
+                                </Card>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              )}
+                      )}
+                    </section>
+                  );
+                })}
+              </div>
             </>
           )}
         </div>
       </div>
+
+      <AlertDialog open={!!pendingRemoveMember} onOpenChange={(open) => !open && setPendingRemoveMember(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove household member?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRemoveMember?.applicant_name}'s saved details will be deleted and no longer matched for scheme alerts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={removeMember} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
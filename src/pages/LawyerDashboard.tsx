@@ -1,9 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import Navigation from '@/components/Navigation';
 import LocationAutocomplete from '@/components/LocationAutocomplete';
+import MultiSelectFilter from '@/components/MultiSelectFilter';
+import CaseBriefCard from '@/components/CaseBriefCard';
+import LawyerReviews from '@/components/LawyerReviews';
+import UpcomingAppointments from '@/components/UpcomingAppointments';
+import AvailabilityEditor from '@/components/AvailabilityEditor';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -29,8 +34,20 @@ import {
   Eye,
   Paperclip,
   FileText,
-  Download
+  Download,
+  ExternalLink
 } from 'lucide-react';
+import { CaseBrief } from '@/lib/caseBrief';
+import { toRatingSummary } from '@/lib/reviews';
+import {
+  LAWYER_LANGUAGES,
+  LAWYER_SPECIALIZATIONS,
+  joinSpecializations,
+  lawyerProfilePath,
+  parseSpecializations
+} from '@/lib/lawyers';
+import { COURT_COMPLEXES, GeoPlace, locationColumns } from '@/lib/gazetteer';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 
 interface Case {
@@ -60,13 +77,21 @@ interface ClientRequest {
   };
   messages: Array<{
     text: string;
+    is_case_request?: boolean;
+    case_brief?: CaseBrief | null;
+    attachments?: Array<{ name: string; url: string; type: string }>;
   }>;
 }
 
 const COLORS = ['#8b5cf6', '#ec4899', '#f59e0b', '#10b981', '#3b82f6'];
 
+// Most recent case request that carries an AI brief escalated from the client's chat
+const getCaseBriefMessage = (request: ClientRequest) =>
+  [...request.messages].reverse().find(m => m.is_case_request && m.case_brief);
+
 const LawyerDashboard = () => {
   const { user, userRole, loading: authLoading } = useAuth();
+  const { t } = useLanguage();
   const { toast } = useToast();
   
   const [loading, setLoading] = useState(true);
@@ -80,9 +105,17 @@ const LawyerDashboard = () => {
   const [avatarFile, setAvatarFile] = useState<File | null>(null);
   const [profileForm, setProfileForm] = useState({
     location: '',
+    // Suggestion picked for the location, saved as the office coordinates
+    place: null as GeoPlace | null,
+    specializations: [] as string[],
     bio: '',
     experience_years: 0,
-    availability: true
+    availability: true,
+    languages: [] as string[],
+    court_complexes: [] as string[],
+    // Rupees per consultation, as typed; blank means not shown
+    consultation_fee_min: '',
+    consultation_fee_max: ''
   });
   
   // Stats state
@@ -172,9 +205,14 @@ const LawyerDashboard = () => {
           setLawyerProfile(lawyerData);
           setProfileForm(prev => ({
             ...prev,
+            specializations: parseSpecializations(lawyerData.specialization),
             bio: lawyerData.bio || '',
             experience_years: lawyerData.experience_years || 0,
-            availability: lawyerData.availability
+            availability: lawyerData.availability,
+            languages: lawyerData.languages || [],
+            court_complexes: lawyerData.court_complexes || [],
+            consultation_fee_min: lawyerData.consultation_fee_min?.toString() ?? '',
+            consultation_fee_max: lawyerData.consultation_fee_max?.toString() ?? ''
           }));
         }
         
@@ -371,7 +409,10 @@ const LawyerDashboard = () => {
             email: ''
           },
           messages: messages?.filter((m: any) => m.conversation_id === conv.id).map((m: any) => ({
-            text: m.text
+            text: m.text,
+            is_case_request: m.is_case_request,
+            case_brief: m.case_brief,
+            attachments: Array.isArray(m.attachments) ? m.attachments : []
           })) || []
         }));
         
@@ -843,6 +884,18 @@ const LawyerDashboard = () => {
 
   const handleSaveProfile = async () => {
     if (!user) return;
+
+    const feeMin = profileForm.consultation_fee_min.trim() ? parseInt(profileForm.consultation_fee_min, 10) : null;
+    const feeMax = profileForm.consultation_fee_max.trim() ? parseInt(profileForm.consultation_fee_max, 10) : null;
+    if ((feeMin !== null && (isNaN(feeMin) || feeMin < 0))
+      || (feeMax !== null && (isNaN(feeMax) || feeMax < (feeMin ?? 0)))) {
+      toast({
+        title: 'Check your fees',
+        description: 'Fees must be whole rupees, and the maximum cannot be below the minimum',
+        variant: 'destructive',
+      });
+      return;
+    }
     
     try {
       let avatarUrl = profile?.avatar_url;
@@ -876,7 +929,8 @@ const LawyerDashboard = () => {
       const { error: profileError } = await supabase
         .from('profiles')
         .update({ 
-          location: profileForm.location,
+          // Office location, geocoded against the bundled gazetteer for distance search
+          ...locationColumns(profileForm.location, profileForm.place),
           avatar_url: avatarUrl
         })
         .eq('user_id', user.id);
@@ -887,9 +941,14 @@ const LawyerDashboard = () => {
       const { error: lawyerError } = await supabase
         .from('lawyer_profiles')
         .update({
+          specialization: joinSpecializations(profileForm.specializations) || null,
           bio: profileForm.bio,
           experience_years: profileForm.experience_years,
-          availability: profileForm.availability
+          availability: profileForm.availability,
+          languages: profileForm.languages,
+          court_complexes: profileForm.court_complexes,
+          consultation_fee_min: feeMin,
+          consultation_fee_max: feeMax
         })
         .eq('user_id', user.id);
       
@@ -970,7 +1029,7 @@ const LawyerDashboard = () => {
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-3"></div>
-          <p className="text-sm text-muted-foreground">Loading dashboard...</p>
+          <p className="text-sm text-muted-foreground">{t('lawyerDashboard.loading')}</p>
         </div>
       </div>
     );
@@ -983,25 +1042,25 @@ const LawyerDashboard = () => {
       <div className="container mx-auto px-4 py-24">
         <div className="mb-8 flex items-center justify-between">
           <div>
-            <h1 className="text-4xl font-bold mb-2">Lawyer Dashboard</h1>
-            <p className="text-muted-foreground">Welcome back, {profile?.name || 'Lawyer'}!</p>
+            <h1 className="text-4xl font-bold mb-2">{t('lawyerDashboard.title')}</h1>
+            <p className="text-muted-foreground">{t('lawyerDashboard.welcome', { name: profile?.name || 'Lawyer' })}</p>
           </div>
           {hasNewMessages && (
             <div className="flex items-center gap-2 px-4 py-2 bg-primary/10 border border-primary/20 rounded-lg animate-pulse">
               <MessageSquare className="h-5 w-5 text-primary" />
-              <span className="text-sm font-medium text-primary">New messages waiting</span>
+              <span className="text-sm font-medium text-primary">{t('lawyerDashboard.newMessages')}</span>
             </div>
           )}
         </div>
 
         <Tabs defaultValue="overview" className="space-y-6">
           <TabsList>
-            <TabsTrigger value="overview">Overview</TabsTrigger>
-            <TabsTrigger value="cases">Cases</TabsTrigger>
-            <TabsTrigger value="requests">Client Requests ({clientRequests.length})</TabsTrigger>
+            <TabsTrigger value="overview">{t('lawyerDashboard.tabOverview')}</TabsTrigger>
+            <TabsTrigger value="cases">{t('lawyerDashboard.tabCases')}</TabsTrigger>
+            <TabsTrigger value="requests">{t('lawyerDashboard.tabRequests', { count: clientRequests.length })}</TabsTrigger>
             <TabsTrigger value="messages" onClick={() => setHasNewMessages(false)}>
               <span className="flex items-center gap-2">
-                Messages ({activeConversations.length})
+                {t('lawyerDashboard.tabMessages', { count: activeConversations.length })}
                 {hasNewMessages && (
                   <span className="relative flex h-2 w-2">
                     <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
@@ -1010,7 +1069,10 @@ const LawyerDashboard = () => {
                 )}
               </span>
             </TabsTrigger>
-            <TabsTrigger value="profile">Profile</TabsTrigger>
+            <TabsTrigger value="reviews">
+              {t('lawyerDashboard.tabReviews', { count: toRatingSummary(lawyerProfile).review_count })}
+            </TabsTrigger>
+            <TabsTrigger value="profile">{t('lawyerDashboard.tabProfile')}</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -1022,9 +1084,9 @@ const LawyerDashboard = () => {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="7days">Last 7 Days</SelectItem>
-                  <SelectItem value="30days">Last 30 Days</SelectItem>
-                  <SelectItem value="all">All Time</SelectItem>
+                  <SelectItem value="7days">{t('lawyerDashboard.last7Days')}</SelectItem>
+                  <SelectItem value="30days">{t('lawyerDashboard.last30Days')}</SelectItem>
+                  <SelectItem value="all">{t('lawyerDashboard.allTime')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -1033,64 +1095,67 @@ const LawyerDashboard = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium">Total Cases</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('lawyerDashboard.totalCases')}</CardTitle>
                   <Briefcase className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{stats.totalCases}</div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    {stats.activeCases} active
+                    {t('lawyerDashboard.activeCount', { count: stats.activeCases })}
                   </p>
                 </CardContent>
               </Card>
 
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium">Total Clients</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('lawyerDashboard.totalClients')}</CardTitle>
                   <Users className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{stats.totalClients}</div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Unique clients
+                    {t('lawyerDashboard.uniqueClients')}
                   </p>
                 </CardContent>
               </Card>
 
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium">Cases Won</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('lawyerDashboard.casesWon')}</CardTitle>
                   <Trophy className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{stats.wonCases}</div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    {stats.lostCases} lost
+                    {t('lawyerDashboard.lostCount', { count: stats.lostCases })}
                   </p>
                 </CardContent>
               </Card>
 
               <Card>
                 <CardHeader className="flex flex-row items-center justify-between pb-2">
-                  <CardTitle className="text-sm font-medium">Pending Requests</CardTitle>
+                  <CardTitle className="text-sm font-medium">{t('lawyerDashboard.pendingRequests')}</CardTitle>
                   <Clock className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{clientRequests.length}</div>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Awaiting response
+                    {t('lawyerDashboard.awaitingResponse')}
                   </p>
                 </CardContent>
               </Card>
             </div>
 
+            {/* Consultations booked in the lawyer's working hours */}
+            <UpcomingAppointments role="lawyer" />
+
             {/* Charts */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Cases by Status */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Cases by Status</CardTitle>
-                  <CardDescription>Distribution of cases across different statuses</CardDescription>
+                  <CardTitle>{t('lawyerDashboard.casesByStatus')}</CardTitle>
+                  <CardDescription>{t('lawyerDashboard.casesByStatusDescription')}</CardDescription>
                 </CardHeader>
                 <CardContent>
                   {casesByStatus.length > 0 ? (
@@ -1124,8 +1189,8 @@ const LawyerDashboard = () => {
               {/* Monthly Trend */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Monthly Trend</CardTitle>
-                  <CardDescription>Cases created over the last 6 months</CardDescription>
+                  <CardTitle>{t('lawyerDashboard.monthlyTrend')}</CardTitle>
+                  <CardDescription>{t('lawyerDashboard.monthlyTrendDescription')}</CardDescription>
                 </CardHeader>
                 <CardContent>
                   {monthlyTrend.length > 0 ? (
@@ -1279,7 +1344,7 @@ const LawyerDashboard = () => {
                 <Card>
                   <CardContent className="py-12 text-center text-muted-foreground">
                     <Clock className="h-12 w-12 mx-auto mb-4 opacity-30" />
-                    <p>No pending requests</p>
+                    <p>{t('lawyerDashboard.noPendingRequests')}</p>
                   </CardContent>
                 </Card>
               ) : (
@@ -1299,23 +1364,48 @@ const LawyerDashboard = () => {
                             <p className="text-sm text-muted-foreground mb-2">
                               {request.client.email}
                             </p>
-                            {request.messages.length > 0 && (
+                            {getCaseBriefMessage(request) ? (
+                              <div className="mb-2 space-y-2">
+                                <CaseBriefCard brief={getCaseBriefMessage(request)!.case_brief!} />
+                                {getCaseBriefMessage(request)!.attachments?.map((attachment, index) => (
+                                  <a
+                                    key={index}
+                                    href={attachment.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="inline-flex items-center gap-1 text-xs text-primary hover:underline mr-3"
+                                  >
+                                    <Paperclip className="h-3 w-3" />
+                                    {attachment.name}
+                                  </a>
+                                ))}
+                              </div>
+                            ) : request.messages.length > 0 && (
                               <div className="bg-muted p-3 rounded-md mb-2">
                                 <p className="text-sm">{request.messages[0].text}</p>
                               </div>
                             )}
                             <p className="text-xs text-muted-foreground">
-                              Requested: {new Date(request.created_at).toLocaleString()}
+                              {t('lawyerDashboard.requestedAt', { date: new Date(request.created_at).toLocaleString() })}
                             </p>
                           </div>
                         </div>
                         <div className="flex gap-2">
                           <Button
                             size="sm"
-                            onClick={() => setSelectedRequest(request)}
+                            onClick={() => {
+                              const brief = getCaseBriefMessage(request)?.case_brief;
+                              if (brief) {
+                                setAcceptForm({
+                                  title: brief.title,
+                                  description: [brief.issue, ...brief.facts.map(fact => `• ${fact}`), `Jurisdiction: ${brief.jurisdiction}`].join('\n')
+                                });
+                              }
+                              setSelectedRequest(request);
+                            }}
                           >
                             <CheckCircle2 className="h-4 w-4 mr-1" />
-                            Accept
+                            {t('lawyerDashboard.accept')}
                           </Button>
                           <Button
                             size="sm"
@@ -1323,7 +1413,7 @@ const LawyerDashboard = () => {
                             onClick={() => handleRejectRequest(request)}
                           >
                             <XCircle className="h-4 w-4 mr-1" />
-                            Reject
+                            {t('lawyerDashboard.reject')}
                           </Button>
                         </div>
                       </div>
@@ -1340,8 +1430,8 @@ const LawyerDashboard = () => {
               {/* Conversations List */}
               <Card className="lg:col-span-1">
                 <CardHeader>
-                  <CardTitle>Active Conversations</CardTitle>
-                  <CardDescription>{activeConversations.length} conversations</CardDescription>
+                  <CardTitle>{t('lawyerDashboard.activeConversations')}</CardTitle>
+                  <CardDescription>{t('lawyerDashboard.conversationCount', { count: activeConversations.length })}</CardDescription>
                 </CardHeader>
                 <CardContent>
                   {activeConversations.length === 0 ? (
@@ -1408,7 +1498,7 @@ const LawyerDashboard = () => {
                         </div>
                       </>
                     ) : (
-                      <CardTitle>Select a conversation</CardTitle>
+                      <CardTitle>{t('lawyerDashboard.selectConversation')}</CardTitle>
                     )}
                   </div>
                 </CardHeader>
@@ -1526,19 +1616,42 @@ const LawyerDashboard = () => {
             </div>
           </TabsContent>
 
+          {/* Reviews Tab */}
+          <TabsContent value="reviews" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('lawyerDashboard.clientReviews')}</CardTitle>
+                <CardDescription>{t('lawyerDashboard.clientReviewsDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {user && <LawyerReviews lawyerId={user.id} summary={toRatingSummary(lawyerProfile)} manage />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Profile Tab */}
           <TabsContent value="profile" className="space-y-6">
             <Card>
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <div>
-                    <CardTitle>Profile Settings</CardTitle>
-                    <CardDescription>Update your profile information</CardDescription>
+                    <CardTitle>{t('lawyerDashboard.profileSettings')}</CardTitle>
+                    <CardDescription>{t('lawyerDashboard.profileSettingsDescription')}</CardDescription>
                   </div>
                   {!editingProfile && (
-                    <Button onClick={() => setEditingProfile(true)}>
-                      Edit Profile
-                    </Button>
+                    <div className="flex gap-2">
+                      {lawyerProfile && (
+                        <Button variant="outline" className="gap-2" asChild>
+                          <Link to={lawyerProfilePath(lawyerProfile.id)} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-4 w-4" />
+                            Public Profile
+                          </Link>
+                        </Button>
+                      )}
+                      <Button onClick={() => setEditingProfile(true)}>
+                        Edit Profile
+                      </Button>
+                    </div>
                   )}
                 </div>
               </CardHeader>
@@ -1583,8 +1696,18 @@ const LawyerDashboard = () => {
                   </div>
 
                   <div>
-                    <Label>Specialization</Label>
-                    <Input value={lawyerProfile?.specialization || ''} disabled />
+                    <Label htmlFor="specializations">Specializations</Label>
+                    {editingProfile ? (
+                      <MultiSelectFilter
+                        id="specializations"
+                        options={[...new Set([...LAWYER_SPECIALIZATIONS, ...profileForm.specializations])]}
+                        value={profileForm.specializations}
+                        onChange={(value) => setProfileForm(prev => ({ ...prev, specializations: value }))}
+                        placeholder="Select your areas of practice"
+                      />
+                    ) : (
+                      <Input value={lawyerProfile?.specialization || ''} disabled />
+                    )}
                   </div>
 
                   <div className="grid grid-cols-2 gap-4">
@@ -1608,18 +1731,119 @@ const LawyerDashboard = () => {
                   </div>
 
                   <div>
-                    <Label>Location</Label>
+                    <Label>Consultation Fee (₹)</Label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Shown on your public profile; leave blank to show "On request"
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="100"
+                        aria-label="Minimum consultation fee"
+                        placeholder="From"
+                        value={profileForm.consultation_fee_min}
+                        onChange={(e) => setProfileForm(prev => ({ ...prev, consultation_fee_min: e.target.value }))}
+                        disabled={!editingProfile}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="100"
+                        aria-label="Maximum consultation fee"
+                        placeholder="To"
+                        value={profileForm.consultation_fee_max}
+                        onChange={(e) => setProfileForm(prev => ({ ...prev, consultation_fee_max: e.target.value }))}
+                        disabled={!editingProfile}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label>Office Location</Label>
+                    {editingProfile ? (
+                      <>
+                        <LocationAutocomplete
+                          value={profileForm.location}
+                          onChange={(value) => setProfileForm(prev => ({ ...prev, location: value }))}
+                          onPlaceSelect={(place) => setProfileForm(prev => ({ ...prev, place }))}
+                          placeholder="City, district or pincode"
+                        />
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Pick a suggestion so clients searching nearby can find you
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <Input value={profile?.location || ''} disabled />
+                        {profile?.location && (
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {profile.latitude != null
+                              ? `${profile.district} district${profile.pincode ? ` · ${profile.pincode}` : ''}`
+                              : 'Not a recognised place, so you will not appear in distance searches'}
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </div>
+
+                  <div>
+                    <Label htmlFor="court-complexes">Court Complexes</Label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Where you practise; clients can filter lawyers by court
+                    </p>
                     {editingProfile ? (
-                      <LocationAutocomplete
-                        value={profileForm.location}
-                        onChange={(value) => setProfileForm(prev => ({ ...prev, location: value }))}
-                        placeholder="Enter your location"
+                      <MultiSelectFilter
+                        id="court-complexes"
+                        options={COURT_COMPLEXES.map(court => court.name)}
+                        value={profileForm.court_complexes}
+                        onChange={(value) => setProfileForm(prev => ({ ...prev, court_complexes: value }))}
+                        placeholder="Select court complexes"
                       />
                     ) : (
-                      <Input value={profile?.location || ''} disabled />
+                      <div className="flex flex-wrap gap-2">
+                        {profileForm.court_complexes.map((court) => (
+                          <Badge key={court} variant="secondary">{court}</Badge>
+                        ))}
+                        {profileForm.court_complexes.length === 0 && (
+                          <span className="text-sm text-muted-foreground">No court complexes added</span>
+                        )}
+                      </div>
                     )}
                   </div>
 
+                  <div>
+                    <Label>Languages</Label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Clients can filter lawyers by the languages they consult in
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {(editingProfile ? LAWYER_LANGUAGES : profileForm.languages).map((language) => {
+                        const selected = profileForm.languages.includes(language);
+                        return editingProfile ? (
+                          <Badge
+                            key={language}
+                            variant={selected ? 'default' : 'outline'}
+                            className="cursor-pointer"
+                            onClick={() => setProfileForm(prev => ({
+                              ...prev,
+                              languages: selected
+                                ? prev.languages.filter(item => item !== language)
+                                : [...prev.languages, language]
+                            }))}
+                          >
+                            {language}
+                          </Badge>
+                        ) : (
+                          <Badge key={language} variant="secondary">{language}</Badge>
+                        );
+                      })}
+                      {!editingProfile && profileForm.languages.length === 0 && (
+                        <span className="text-sm text-muted-foreground">No languages added</span>
+                      )}
+                    </div>
+                  </div>
+
                   <div>
                     <Label>Bio</Label>
                     {editingProfile ? (
@@ -1662,9 +1886,15 @@ const LawyerDashboard = () => {
                         setAvatarFile(null);
                         setProfileForm({
                           location: profile?.location || '',
+                          place: null,
+                          specializations: parseSpecializations(lawyerProfile?.specialization),
                           bio: lawyerProfile?.bio || '',
                           experience_years: lawyerProfile?.experience_years || 0,
-                          availability: lawyerProfile?.availability || true
+                          availability: lawyerProfile?.availability || true,
+                          languages: lawyerProfile?.languages || [],
+                          court_complexes: lawyerProfile?.court_complexes || [],
+                          consultation_fee_min: lawyerProfile?.consultation_fee_min?.toString() ?? '',
+                          consultation_fee_max: lawyerProfile?.consultation_fee_max?.toString() ?? ''
                         });
                       }}
                     >
@@ -1674,6 +1904,9 @@ const LawyerDashboard = () => {
                 )}
               </CardContent>
             </Card>
+
+            {/* Weekly hours, slot length and blocked dates for consultation booking */}
+            <AvailabilityEditor acceptingClients={lawyerProfile?.availability !== false} />
           </TabsContent>
         </Tabs>
       </div>
@@ -1836,7 +2069,12 @@ const LawyerDashboard = () => {
                 </div>
               </div>
               
-              {selectedRequest.messages.length > 0 && (
+              {getCaseBriefMessage(selectedRequest) ? (
+                <div>
+                  <Label>AI Case Brief</Label>
+                  <CaseBriefCard brief={getCaseBriefMessage(selectedRequest)!.case_brief!} className="mt-1" />
+                </div>
+              ) : selectedRequest.messages.length > 0 && (
                 <div>
                   <Label>Client Message</Label>
                   <div className="mt-1 bg-muted p-3 rounded-md">
@@ -0,0 +1,415 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import Navigation from '@/components/Navigation';
+import LawyerReviews from '@/components/LawyerReviews';
+import StarRating from '@/components/StarRating';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { supabase } from '@/integrations/supabase/client';
+import { usePageMeta } from '@/hooks/use-page-meta';
+import {
+  Award,
+  BadgeCheck,
+  Briefcase,
+  CalendarCheck,
+  ChevronLeft,
+  IndianRupee,
+  Landmark,
+  Languages,
+  Loader2,
+  MapPin,
+  MessageSquare,
+  Scale,
+  Star,
+  User
+} from 'lucide-react';
+import { toRatingSummary } from '@/lib/reviews';
+import { formatFeeRange, lawyerProfilePath, parseSpecializations } from '@/lib/lawyers';
+
+interface PublicLawyer {
+  id: string;
+  user_id: string;
+  name: string;
+  avatar_url: string | null;
+  location: string | null;
+  state: string | null;
+  pincode: string | null;
+  specializations: string[];
+  experience_years: number | null;
+  license_number: string | null;
+  bio: string | null;
+  languages: string[];
+  court_complexes: string[];
+  availability: boolean;
+  consultation_fee_min: number | null;
+  consultation_fee_max: number | null;
+  rating_average: unknown;
+  review_count: unknown;
+  rating_breakdown: unknown;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Search result snippets are cut off around 160 characters
+const META_DESCRIPTION_LENGTH = 160;
+
+const truncate = (text: string, length: number) =>
+  text.length <= length ? text : `${text.slice(0, length - 1).trimEnd()}…`;
+
+/**
+ * Public, shareable profile of a lawyer at /lawyers/:id, readable without signing in. Visitors
+ * who are not signed in go through /auth to request a consultation and come back here.
+ */
+const LawyerProfile = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const { user, userRole } = useAuth();
+  const navigate = useNavigate();
+
+  const [lawyer, setLawyer] = useState<PublicLawyer | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadLawyer = async () => {
+      setLoading(true);
+      setLawyer(null);
+
+      if (!UUID_PATTERN.test(id)) {
+        setLoading(false);
+        return;
+      }
+
+      const { data: lawyerProfile, error } = await supabase
+        .from('lawyer_profiles')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) console.error('Error loading lawyer profile:', error);
+      if (!lawyerProfile) {
+        setLoading(false);
+        return;
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('name, avatar_url, location, state, pincode')
+        .eq('user_id', lawyerProfile.user_id)
+        .maybeSingle();
+
+      setLawyer({
+        id: lawyerProfile.id,
+        user_id: lawyerProfile.user_id,
+        name: profile?.name || 'Lawyer',
+        avatar_url: profile?.avatar_url ?? null,
+        location: profile?.location ?? null,
+        state: profile?.state ?? null,
+        pincode: profile?.pincode ?? null,
+        specializations: parseSpecializations(lawyerProfile.specialization),
+        experience_years: lawyerProfile.experience_years,
+        license_number: lawyerProfile.license_number,
+        bio: lawyerProfile.bio,
+        languages: lawyerProfile.languages || [],
+        court_complexes: lawyerProfile.court_complexes || [],
+        availability: lawyerProfile.availability !== false,
+        consultation_fee_min: lawyerProfile.consultation_fee_min,
+        consultation_fee_max: lawyerProfile.consultation_fee_max,
+        rating_average: lawyerProfile.rating_average,
+        review_count: lawyerProfile.review_count,
+        rating_breakdown: lawyerProfile.rating_breakdown,
+      });
+      setLoading(false);
+    };
+
+    loadLawyer();
+  }, [id]);
+
+  const summary = toRatingSummary(lawyer);
+  const fees = lawyer ? formatFeeRange(lawyer.consultation_fee_min, lawyer.consultation_fee_max) : null;
+  const profileUrl = `${window.location.origin}${lawyerProfilePath(id)}`;
+
+  usePageMeta(lawyer ? {
+    title: `${lawyer.name}${lawyer.specializations.length > 0 ? ` – ${lawyer.specializations.join(', ')}` : ''} Lawyer${lawyer.location ? ` in ${lawyer.location}` : ''} | NyaAI`,
+    description: truncate(
+      [
+        `${lawyer.name} is a ${lawyer.specializations.join(', ') || 'legal'} lawyer${lawyer.location ? ` in ${lawyer.location}` : ''}`
+          + (lawyer.experience_years ? ` with ${lawyer.experience_years} years of experience.` : '.'),
+        summary.rating_average !== null ? `Rated ${summary.rating_average.toFixed(1)}/5 from ${summary.review_count} verified reviews.` : '',
+        lawyer.bio || '',
+      ].filter(Boolean).join(' '),
+      META_DESCRIPTION_LENGTH
+    ),
+    canonicalUrl: profileUrl,
+    image: lawyer.avatar_url,
+    structuredData: {
+      '@context': 'https://schema.org',
+      '@type': 'Attorney',
+      name: lawyer.name,
+      url: profileUrl,
+      ...(lawyer.avatar_url && { image: lawyer.avatar_url }),
+      ...(lawyer.bio && { description: lawyer.bio }),
+      ...(lawyer.specializations.length > 0 && { knowsAbout: lawyer.specializations }),
+      ...(lawyer.languages.length > 0 && { knowsLanguage: lawyer.languages }),
+      ...(fees && { priceRange: fees }),
+      ...(lawyer.location && {
+        address: {
+          '@type': 'PostalAddress',
+          addressLocality: lawyer.location.split(',')[0].trim(),
+          ...(lawyer.state && { addressRegion: lawyer.state }),
+          ...(lawyer.pincode && { postalCode: lawyer.pincode }),
+          addressCountry: 'IN',
+        },
+      }),
+      ...(summary.rating_average !== null && {
+        aggregateRating: {
+          '@type': 'AggregateRating',
+          ratingValue: summary.rating_average,
+          reviewCount: summary.review_count,
+          bestRating: 5,
+          worstRating: 1,
+        },
+      }),
+    },
+  } : null);
+
+  const isOwnProfile = !!user && user.id === lawyer?.user_id;
+
+  const requestConsultation = () => {
+    if (!user) {
+      navigate(`/auth?redirect=${encodeURIComponent(lawyerProfilePath(id))}`);
+      return;
+    }
+    navigate(`/find-lawyers?contact=${id}`);
+  };
+
+  return (
+    <div className="min-h-screen relative overflow-hidden bg-background">
+      {/* Purple radial gradients */}
+      <div className="absolute inset-0 z-0"
+        style={{
+          backgroundImage: `
+            radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+            radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+          `
+        }}
+      />
+
+      <Navigation />
+
+      <div className="relative z-10 container mx-auto px-4 pt-24 pb-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Button variant="ghost" className="gap-2" asChild>
+            <Link to="/find-lawyers">
+              <ChevronLeft className="h-4 w-4" />
+              Find Lawyers
+            </Link>
+          </Button>
+
+          {loading ? (
+            <div className="flex justify-center py-24">
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+            </div>
+          ) : !lawyer ? (
+            <Card className="glass">
+              <CardContent className="py-16 text-center space-y-4">
+                <Scale className="h-16 w-16 mx-auto text-muted-foreground" />
+                <h1 className="text-2xl font-semibold">Lawyer not found</h1>
+                <p className="text-muted-foreground">This profile may have been removed or the link is incorrect.</p>
+                <Button asChild>
+                  <Link to="/find-lawyers">Search lawyers</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Header */}
+              <Card className="glass">
+                <CardContent className="pt-6">
+                  <div className="flex flex-col sm:flex-row items-center sm:items-start gap-6">
+                    <Avatar className="h-28 w-28">
+                      <AvatarImage src={lawyer.avatar_url ?? undefined} alt={lawyer.name} />
+                      <AvatarFallback className="bg-primary/10 text-3xl">
+                        {lawyer.name.split(' ').map(n => n[0]).join('')}
+                      </AvatarFallback>
+                    </Avatar>
+
+                    <div className="flex-1 space-y-3 text-center sm:text-left">
+                      <h1 className="text-3xl font-bold">{lawyer.name}</h1>
+                      {lawyer.specializations.length > 0 && (
+                        <div className="flex flex-wrap gap-2 justify-center sm:justify-start">
+                          {lawyer.specializations.map((specialization) => (
+                            <Badge key={specialization} variant="secondary">{specialization}</Badge>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex flex-wrap gap-4 justify-center sm:justify-start text-sm text-muted-foreground">
+                        {lawyer.location && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="h-4 w-4" />
+                            {lawyer.location}
+                          </span>
+                        )}
+                        {lawyer.experience_years ? (
+                          <span className="flex items-center gap-1">
+                            <Award className="h-4 w-4" />
+                            {lawyer.experience_years} years experience
+                          </span>
+                        ) : null}
+                        {summary.rating_average !== null ? (
+                          <span className="flex items-center gap-1">
+                            <StarRating value={summary.rating_average} />
+                            {summary.rating_average.toFixed(1)} ({summary.review_count} review{summary.review_count !== 1 ? 's' : ''})
+                          </span>
+                        ) : (
+                          <span>No reviews yet</span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Main column */}
+                <div className="lg:col-span-2 space-y-6">
+                  <Card className="glass">
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <User className="h-5 w-5" />
+                        About
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {lawyer.bio ? (
+                        <p className="text-muted-foreground leading-relaxed whitespace-pre-line">{lawyer.bio}</p>
+                      ) : (
+                        <p className="text-muted-foreground italic">This lawyer has not added a bio yet.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card className="glass">
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <Star className="h-5 w-5" />
+                        Verified Client Reviews
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <LawyerReviews lawyerId={lawyer.user_id} summary={summary} />
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {/* Sidebar */}
+                <div className="space-y-6">
+                  <Card className="glass">
+                    <CardContent className="pt-6 space-y-4">
+                      <div className="space-y-1">
+                        <p className="text-sm text-muted-foreground flex items-center gap-2">
+                          <IndianRupee className="h-4 w-4" />
+                          Consultation fee
+                        </p>
+                        <p className="text-xl font-semibold">{fees ?? 'On request'}</p>
+                      </div>
+
+                      <div className="flex items-center gap-2 text-sm">
+                        <CalendarCheck className={lawyer.availability ? 'h-4 w-4 text-green-500' : 'h-4 w-4 text-muted-foreground'} />
+                        {lawyer.availability ? 'Accepting new clients' : 'Not accepting new clients right now'}
+                      </div>
+
+                      {isOwnProfile ? (
+                        <Button className="w-full" variant="outline" asChild>
+                          <Link to="/lawyer-dashboard">Edit your profile</Link>
+                        </Button>
+                      ) : userRole !== 'lawyer' && (
+                        <Button
+                          className="w-full gap-2"
+                          size="lg"
+                          onClick={requestConsultation}
+                          disabled={!lawyer.availability}
+                        >
+                          <MessageSquare className="h-5 w-5" />
+                          Request consultation
+                        </Button>
+                      )}
+                      {!user && lawyer.availability && (
+                        <p className="text-xs text-muted-foreground text-center">
+                          You'll be asked to sign in first, then brought back here
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card className="glass">
+                    <CardContent className="pt-6 space-y-5">
+                      {lawyer.specializations.length > 0 && (
+                        <div className="space-y-2">
+                          <h2 className="font-semibold flex items-center gap-2">
+                            <Briefcase className="h-4 w-4" />
+                            Specializations
+                          </h2>
+                          <div className="flex flex-wrap gap-2">
+                            {lawyer.specializations.map((specialization) => (
+                              <Badge key={specialization} variant="outline">{specialization}</Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <h2 className="font-semibold flex items-center gap-2">
+                          <Landmark className="h-4 w-4" />
+                          Practises At
+                        </h2>
+                        {lawyer.court_complexes.length > 0 ? (
+                          <ul className="text-sm text-muted-foreground space-y-1">
+                            {lawyer.court_complexes.map((court) => (
+                              <li key={court}>{court}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">Not listed</p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <h2 className="font-semibold flex items-center gap-2">
+                          <Languages className="h-4 w-4" />
+                          Languages
+                        </h2>
+                        {lawyer.languages.length > 0 ? (
+                          <div className="flex flex-wrap gap-2">
+                            {lawyer.languages.map((language) => (
+                              <Badge key={language} variant="outline">{language}</Badge>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">Not listed</p>
+                        )}
+                      </div>
+
+                      {lawyer.license_number && (
+                        <div className="space-y-2">
+                          <h2 className="font-semibold flex items-center gap-2">
+                            <BadgeCheck className="h-4 w-4" />
+                            Bar Enrolment
+                          </h2>
+                          <p className="text-sm text-muted-foreground font-mono">{lawyer.license_number}</p>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LawyerProfile;
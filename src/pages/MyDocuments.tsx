@@ -0,0 +1,421 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import Navigation from '@/components/Navigation';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  FileText, Search, Loader2, Eye, RefreshCw, Pencil, Trash2, Check, X, Upload, Calendar,
+} from 'lucide-react';
+import { DOCUMENT_STATUS_LABELS, DOCUMENTS_BUCKET, DocumentStatus, formatFileSize } from '@/lib/documents';
+
+interface LibraryDocument {
+  id: string;
+  title: string;
+  file_name: string | null;
+  file_path: string | null;
+  file_size: number | null;
+  status: DocumentStatus;
+  page_count: number | null;
+  summary: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const LIBRARY_FIELDS = 'id, title, file_name, file_path, file_size, status, page_count, summary, error, created_at, updated_at';
+
+const statusVariant = (status: DocumentStatus) => {
+  if (status === 'summarized') return 'default' as const;
+  if (status === 'failed') return 'destructive' as const;
+  return 'secondary' as const;
+};
+
+// First lines of the summary without emoji headings, for the list preview
+const summaryPreview = (summary: string) =>
+  summary
+    .split('\n')
+    .map((line) => line.replace(/^[^\p{L}\p{N}]+/u, '').trim())
+    .filter(Boolean)
+    .slice(1, 3)
+    .join(' · ');
+
+const MyDocuments = () => {
+  const { user, loading } = useAuth();
+  const { language } = useLanguage();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [loadingDocuments, setLoadingDocuments] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [summarizingId, setSummarizingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<LibraryDocument | null>(null);
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      setLoadingDocuments(true);
+      const { data, error } = await supabase
+        .from('documents')
+        .select(LIBRARY_FIELDS)
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setDocuments(data || []);
+    } catch (error) {
+      console.error('Error loading documents:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your documents',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingDocuments(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchDocuments();
+    }
+  }, [user, fetchDocuments]);
+
+  const startRename = (document: LibraryDocument) => {
+    setRenamingId(document.id);
+    setRenameValue(document.title);
+  };
+
+  const saveRename = async (document: LibraryDocument) => {
+    const title = renameValue.trim();
+    if (!title || title === document.title) {
+      setRenamingId(null);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('documents')
+      .update({ title })
+      .eq('id', document.id);
+
+    if (error) {
+      console.error('Error renaming document:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to rename document',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setDocuments((prev) => prev.map((d) => (d.id === document.id ? { ...d, title } : d)));
+    setRenamingId(null);
+  };
+
+  const resummarize = async (document: LibraryDocument) => {
+    setSummarizingId(document.id);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      // With only a document_id the function summarizes the text it already stored
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/document-summarizer`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ document_id: document.id, language }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to summarize document');
+      }
+
+      toast({
+        title: 'Summary updated',
+        description: `"${document.title}" was summarized again`,
+      });
+    } catch (error) {
+      console.error('Error re-summarizing document:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to summarize document',
+        variant: 'destructive',
+      });
+    } finally {
+      setSummarizingId(null);
+      fetchDocuments();
+    }
+  };
+
+  const deleteDocument = async (document: LibraryDocument) => {
+    try {
+      if (document.file_path) {
+        const { error: storageError } = await supabase.storage
+          .from(DOCUMENTS_BUCKET)
+          .remove([document.file_path]);
+        // The row is still removed; an orphaned file is not visible to anyone else
+        if (storageError) console.error('Error removing stored file:', storageError);
+      }
+
+      const { error } = await supabase
+        .from('documents')
+        .delete()
+        .eq('id', document.id);
+
+      if (error) throw error;
+
+      setDocuments((prev) => prev.filter((d) => d.id !== document.id));
+      toast({
+        title: 'Deleted',
+        description: `"${document.title}" was deleted`,
+      });
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete document',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredDocuments = query
+    ? documents.filter((d) =>
+        [d.title, d.file_name, d.summary].some((field) => field?.toLowerCase().includes(query))
+      )
+    : documents;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen relative overflow-hidden bg-background flex items-center justify-center">
+        <div className="absolute inset-0 z-0"
+          style={{
+            backgroundImage: `
+              radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+              radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+            `
+          }}
+        />
+        <div className="relative z-10">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="min-h-screen relative overflow-hidden bg-background">
+      {/* Purple radial gradients */}
+      <div className="absolute inset-0 z-0"
+        style={{
+          backgroundImage: `
+            radial-gradient(circle at 20% 80%, hsl(280 100% 60% / 0.15) 0%, transparent 50%),
+            radial-gradient(circle at 80% 20%, hsl(290 80% 70% / 0.15) 0%, transparent 50%)
+          `
+        }}
+      />
+
+      <Navigation />
+
+      <div className="relative z-10 container mx-auto px-4 pt-24 pb-8">
+        <Card className="max-w-5xl mx-auto glass">
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <FileText className="h-8 w-8 text-primary" />
+                <div>
+                  <CardTitle className="text-3xl">My Documents</CardTitle>
+                  <CardDescription>Documents you've uploaded and their summaries</CardDescription>
+                </div>
+              </div>
+              <Button onClick={() => navigate('/document-summarizer')} className="gap-2">
+                <Upload className="h-4 w-4" />
+                Upload Document
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by title, file name or summary..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+
+            {loadingDocuments ? (
+              <div className="h-48 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : filteredDocuments.length === 0 ? (
+              <div className="h-48 flex flex-col items-center justify-center text-center">
+                <FileText className="h-12 w-12 text-muted-foreground/50 mb-3" />
+                <p className="text-sm text-muted-foreground">
+                  {documents.length === 0 ? 'No documents yet' : 'No documents match your search'}
+                </p>
+                {documents.length === 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Upload a legal document to get a plain-language summary
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {filteredDocuments.map((document) => (
+                  <div
+                    key={document.id}
+                    className="p-4 rounded-lg bg-muted/50 hover:bg-muted transition-colors border border-border"
+                  >
+                    <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        {renamingId === document.id ? (
+                          <div className="flex items-center gap-2 mb-2">
+                            <Input
+                              value={renameValue}
+                              onChange={(e) => setRenameValue(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') saveRename(document);
+                                if (e.key === 'Escape') setRenamingId(null);
+                              }}
+                              autoFocus
+                              className="h-8"
+                            />
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => saveRename(document)}>
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setRenamingId(null)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <h3 className="font-semibold text-lg mb-1 truncate">{document.title}</h3>
+                        )}
+
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mb-2">
+                          <Badge variant={statusVariant(document.status)}>
+                            {DOCUMENT_STATUS_LABELS[document.status] ?? document.status}
+                          </Badge>
+                          {document.file_name && document.file_name !== document.title && (
+                            <span className="truncate max-w-[200px]">{document.file_name}</span>
+                          )}
+                          {document.page_count ? (
+                            <span>{document.page_count} page{document.page_count !== 1 ? 's' : ''}</span>
+                          ) : null}
+                          {document.file_size ? <span>{formatFileSize(document.file_size)}</span> : null}
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {new Date(document.created_at).toLocaleDateString(language, {
+                              day: 'numeric',
+                              month: 'short',
+                              year: 'numeric',
+                            })}
+                          </span>
+                        </div>
+
+                        {document.summary ? (
+                          <p className="text-sm text-muted-foreground line-clamp-2">{summaryPreview(document.summary)}</p>
+                        ) : document.error ? (
+                          <p className="text-sm text-destructive line-clamp-2">{document.error}</p>
+                        ) : null}
+                      </div>
+
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1"
+                          disabled={document.status !== 'summarized' && document.status !== 'extracted'}
+                          onClick={() => navigate(`/document-summarizer?document=${document.id}`)}
+                        >
+                          <Eye className="h-4 w-4" />
+                          Open
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Summarize again"
+                          disabled={summarizingId !== null}
+                          onClick={() => resummarize(document)}
+                        >
+                          {summarizingId === document.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button size="icon" variant="ghost" title="Rename" onClick={() => startRename(document)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Delete"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => setPendingDelete(document)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this document?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and its summary will be permanently deleted, along with the uploaded file.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingDelete && deleteDocument(pendingDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MyDocuments;
@@ -0,0 +1,262 @@
+// Structured clause extraction for contracts (rental, employment, service agreements).
+//
+// The model reads the document chunk by chunk and returns JSON; everything it returns is
+// validated here before it is stored or sent to the browser. Quotes are checked against the
+// page text they claim to come from, so a wrong page reference is corrected or flagged.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { LLMProvider, recordUsage, TokenUsage } from './llm.ts';
+import { LanguageCode, LANGUAGES } from './language.ts';
+import { chunkPages } from './documents.ts';
+
+export const CLAUSE_CATEGORIES = [
+  'effective_date',
+  'payment',
+  'termination',
+  'indemnity',
+  'non_compete',
+  'governing_law',
+] as const;
+
+export type ClauseCategory = typeof CLAUSE_CATEGORIES[number];
+
+export const RISK_LEVELS = ['low', 'medium', 'high'] as const;
+
+export type RiskLevel = typeof RISK_LEVELS[number];
+
+export interface ContractParty {
+  name: string;
+  role: string;
+}
+
+export interface Clause {
+  id: string;
+  category: ClauseCategory;
+  title: string;
+  // Plain-language explanation, in the user's language
+  summary: string;
+  risk: RiskLevel;
+  risk_reason: string;
+  // Verbatim text from the document
+  quote: string;
+  page: number | null;
+  // False when the quote could not be found in the document text
+  quote_verified: boolean;
+}
+
+export interface ClauseAnalysis {
+  document_type: string;
+  parties: ContractParty[];
+  governing_law: string | null;
+  clauses: Clause[];
+  // Pages of chunks whose response could not be used
+  skipped_pages: number[];
+  generated_at: string;
+}
+
+const CHUNK_CHARS = 12000;
+const MAX_CHUNKS = 40;
+const MAX_CLAUSES_PER_CHUNK = 25;
+const MAX_QUOTE_CHARS = 600;
+
+type Emit = (event: Record<string, unknown>) => void;
+
+const clausePrompt = (language: LanguageCode) => `You are a contract analyst reviewing Indian agreements (rental, employment, service, loan) for an ordinary person who is about to sign or has signed.
+
+Read the document part you are given and return ONLY a valid JSON object with this exact structure:
+{
+  "document_type": "e.g. Residential rental agreement",
+  "parties": [{ "name": "Party name as written", "role": "e.g. Landlord, Tenant, Employer, Employee" }],
+  "governing_law": "Governing law / jurisdiction clause in a few words, or null",
+  "clauses": [
+    {
+      "category": "${CLAUSE_CATEGORIES.join(' | ')}",
+      "title": "Short clause title, e.g. Security deposit",
+      "summary": "What this clause means for the reader, in one or two plain sentences",
+      "risk": "low | medium | high",
+      "risk_reason": "Why this risk level",
+      "quote": "The exact sentence(s) from the document, copied word for word",
+      "page": 3
+    }
+  ]
+}
+
+CATEGORIES:
+- effective_date: start date, term, duration, renewal, lock-in period
+- payment: rent, salary, fees, deposits, increments, late fees, penalties
+- termination: notice periods, grounds for termination, consequences of ending early
+- indemnity: indemnities, liability, damages, who pays for losses
+- non_compete: non-compete, non-solicitation, exclusivity, restrictions after the contract ends
+- governing_law: governing law, jurisdiction, arbitration, dispute resolution
+
+RISK LEVELS:
+- high: one-sided or unusual terms, forfeiture of deposits, unlimited liability, long or India-unenforceable non-competes, very short notice for one side only, penalties far above actual loss
+- medium: terms that need attention or negotiation
+- low: standard, balanced terms
+
+RULES:
+- Only include clauses that are actually in this part of the document; return an empty "clauses" array if there are none
+- The quote MUST be copied exactly from the text, at most 2 sentences; never paraphrase inside "quote"
+- "page" is the number from the nearest [Page N] marker before the quote, or null if there are no markers
+- Never invent parties, dates or amounts
+- No markdown, no explanations outside the JSON${language !== 'en' ? `
+- Write "summary" and "risk_reason" in ${LANGUAGES[language].name} (${LANGUAGES[language].nativeName}); keep every other field, and all quotes, exactly as in the document` : ''}`;
+
+const asText = (value: unknown, maxLength = 300): string =>
+  typeof value === 'string' ? value.trim().substring(0, maxLength) : '';
+
+// Whitespace and quote marks differ between the model's copy and the extracted text
+const normalizeForMatch = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[‘’“”"'`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Find the page a quote appears on, preferring the page the model claimed
+ */
+export function locateQuote(quote: string, pages: string[], claimedPage: number | null, chunkPagesRange: [number, number]): number | null {
+  const needle = normalizeForMatch(quote).substring(0, 200);
+  if (needle.length < 10) return null;
+
+  const candidates = [
+    claimedPage,
+    ...Array.from({ length: chunkPagesRange[1] - chunkPagesRange[0] + 1 }, (_, i) => chunkPagesRange[0] + i),
+  ].filter((page): page is number => page !== null && page >= 1 && page <= pages.length);
+
+  for (const page of candidates) {
+    if (normalizeForMatch(pages[page - 1]).includes(needle)) return page;
+  }
+  return null;
+}
+
+/**
+ * Validate one chunk's model output against the clause schema. Returns null when the
+ * response is not usable JSON at all; individual invalid clauses are dropped.
+ */
+export function validateClauseResponse(
+  content: string,
+  pages: string[],
+  chunk: { startPage: number; endPage: number }
+): Omit<ClauseAnalysis, 'skipped_pages' | 'generated_at'> | null {
+  let parsed: Record<string, unknown>;
+  try {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  const parties = (Array.isArray(parsed.parties) ? parsed.parties : [])
+    .map((party: Record<string, unknown>) => ({ name: asText(party?.name, 150), role: asText(party?.role, 80) }))
+    .filter((party) => party.name);
+
+  const clauses: Clause[] = [];
+  for (const raw of (Array.isArray(parsed.clauses) ? parsed.clauses : []).slice(0, MAX_CLAUSES_PER_CHUNK)) {
+    if (!raw || typeof raw !== 'object') continue;
+
+    const category = CLAUSE_CATEGORIES.find((c) => c === raw.category);
+    const quote = asText(raw.quote, MAX_QUOTE_CHARS);
+    const title = asText(raw.title, 120);
+    if (!category || !quote || !title) continue;
+
+    const claimedPage = Number.isInteger(raw.page) ? raw.page as number : null;
+    const page = locateQuote(quote, pages, claimedPage, [chunk.startPage, chunk.endPage]);
+
+    clauses.push({
+      id: '',
+      category,
+      title,
+      summary: asText(raw.summary, 600),
+      risk: RISK_LEVELS.find((r) => r === raw.risk) ?? 'medium',
+      risk_reason: asText(raw.risk_reason, 400),
+      quote,
+      // Keep the model's page when the quote can't be verified, if it is inside this chunk
+      page: page ?? (claimedPage !== null && claimedPage >= chunk.startPage && claimedPage <= chunk.endPage ? claimedPage : null),
+      quote_verified: page !== null,
+    });
+  }
+
+  return {
+    document_type: asText(parsed.document_type, 120),
+    parties,
+    governing_law: asText(parsed.governing_law, 200) || null,
+    clauses,
+  };
+}
+
+/**
+ * Extract clauses from every chunk of the document and merge them into one analysis
+ */
+export async function analyzeClauses(
+  llm: LLMProvider,
+  supabaseClient: SupabaseClient,
+  userId: string,
+  pages: string[],
+  language: LanguageCode,
+  emit: Emit
+): Promise<{ analysis: ClauseAnalysis; model: string; usage: TokenUsage }> {
+  const chunks = chunkPages(pages, CHUNK_CHARS).slice(0, MAX_CHUNKS);
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+  let model = llm.model;
+
+  const analysis: ClauseAnalysis = {
+    document_type: '',
+    parties: [],
+    governing_law: null,
+    clauses: [],
+    skipped_pages: [],
+    generated_at: new Date().toISOString(),
+  };
+  const seenQuotes = new Set<string>();
+
+  for (const chunk of chunks) {
+    emit({ type: 'progress', stage: 'map', chunk: chunk.index + 1, total: chunks.length, label: chunk.startPage === chunk.endPage ? `Page ${chunk.startPage}` : `Pages ${chunk.startPage}–${chunk.endPage}` });
+
+    const result = await llm.complete({
+      feature: 'document-clauses',
+      messages: [
+        { role: 'system', content: clausePrompt(language) },
+        { role: 'user', content: chunk.text },
+      ],
+      maxTokens: 3000,
+      temperature: 0.1,
+    });
+    await recordUsage(supabaseClient, userId, 'document-clauses', result);
+    model = result.model;
+    usage = {
+      promptTokens: usage.promptTokens + result.usage.promptTokens,
+      completionTokens: usage.completionTokens + result.usage.completionTokens,
+      totalTokens: usage.totalTokens + result.usage.totalTokens,
+      estimated: usage.estimated || result.usage.estimated,
+    };
+
+    const validated = validateClauseResponse(result.content, pages, chunk);
+    if (!validated) {
+      console.warn(`Clause response for pages ${chunk.startPage}-${chunk.endPage} was not valid JSON`);
+      for (let page = chunk.startPage; page <= chunk.endPage; page++) analysis.skipped_pages.push(page);
+      continue;
+    }
+
+    analysis.document_type ||= validated.document_type;
+    analysis.governing_law ||= validated.governing_law;
+
+    for (const party of validated.parties) {
+      if (!analysis.parties.some((p) => p.name.toLowerCase() === party.name.toLowerCase())) {
+        analysis.parties.push(party);
+      }
+    }
+
+    // Chunks can overlap on long pages; drop repeated quotes
+    for (const clause of validated.clauses) {
+      const key = normalizeForMatch(clause.quote).substring(0, 120);
+      if (seenQuotes.has(key)) continue;
+      seenQuotes.add(key);
+      analysis.clauses.push({ ...clause, id: `c${analysis.clauses.length + 1}` });
+    }
+  }
+
+  return { analysis, model, usage };
+}
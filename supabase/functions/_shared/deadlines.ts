@@ -0,0 +1,225 @@
+// Dates and obligations extracted from a document as calendar-ready events.
+//
+// Like clause extraction, the model reads the document chunk by chunk and returns JSON that
+// is validated here. A date is only kept when it is a real calendar date; relative deadlines
+// ("within 30 days of receiving notice") keep their wording and a null date so the user can
+// pick the day themselves.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { LLMProvider, recordUsage, TokenUsage } from './llm.ts';
+import { LanguageCode, LANGUAGES } from './language.ts';
+import { chunkPages } from './documents.ts';
+import { locateQuote } from './clauses.ts';
+
+export const DEADLINE_KINDS = [
+  'notice',
+  'payment',
+  'renewal',
+  'expiry',
+  'hearing',
+  'filing',
+  'other',
+] as const;
+
+export type DeadlineKind = typeof DEADLINE_KINDS[number];
+
+export interface DeadlineEvent {
+  id: string;
+  // YYYY-MM-DD; null when the document only gives a relative deadline
+  date: string | null;
+  // The date or period as written in the document
+  date_text: string;
+  // What has to happen, in the user's language
+  description: string;
+  // Who has to act, as named in the document
+  party: string;
+  kind: DeadlineKind;
+  // Verbatim text from the document
+  source_clause: string;
+  page: number | null;
+  quote_verified: boolean;
+}
+
+export interface DeadlineAnalysis {
+  events: DeadlineEvent[];
+  // Pages of chunks whose response could not be used
+  skipped_pages: number[];
+  generated_at: string;
+}
+
+const CHUNK_CHARS = 12000;
+const MAX_CHUNKS = 40;
+const MAX_EVENTS_PER_CHUNK = 30;
+const MAX_QUOTE_CHARS = 600;
+
+type Emit = (event: Record<string, unknown>) => void;
+
+const deadlinePrompt = (language: LanguageCode) => `You find every date, deadline and time-bound obligation in Indian legal documents (agreements, notices, court orders, government letters) so that an ordinary person does not miss them.
+
+Read the document part you are given and return ONLY a valid JSON object with this exact structure:
+{
+  "events": [
+    {
+      "date": "YYYY-MM-DD, or null",
+      "date_text": "The date or period exactly as written, e.g. 15th March 2025 or within 30 days of notice",
+      "description": "What must happen by then, in one plain sentence",
+      "party": "Who must act, as named in the document, e.g. Tenant",
+      "kind": "${DEADLINE_KINDS.join(' | ')}",
+      "source_clause": "The exact sentence from the document, copied word for word",
+      "page": 3
+    }
+  ]
+}
+
+KINDS:
+- notice: notice periods for termination, vacating, objections or replies
+- payment: rent, fees, instalments, deposits, refunds, penalties due by a date
+- renewal: renewal, extension or rent-revision dates, lock-in periods ending
+- expiry: end of the term, validity or warranty
+- hearing: court or tribunal hearings, appearances
+- filing: last dates to file, apply, appeal or submit documents
+- other: any other dated obligation
+
+RULES:
+- Include notice periods even when no calendar date is given; they are the deadlines people miss most
+- "date" is only filled when the exact calendar date is written in the document or can be computed from dates written in it (e.g. "11 months from 1 April 2025" is 2026-03-01); otherwise null
+- Never guess a year or a day that the document does not give
+- Return an empty "events" array if this part has no dates or deadlines
+- "source_clause" MUST be copied exactly from the text, at most 2 sentences
+- "page" is the number from the nearest [Page N] marker before the quote, or null if there are no markers
+- No markdown, no explanations outside the JSON${language !== 'en' ? `
+- Write "description" in ${LANGUAGES[language].name} (${LANGUAGES[language].nativeName}); keep every other field, and all quotes, exactly as in the document` : ''}`;
+
+const asText = (value: unknown, maxLength = 300): string =>
+  typeof value === 'string' ? value.trim().substring(0, maxLength) : '';
+
+/**
+ * Accept only real calendar dates in YYYY-MM-DD form (no 2025-02-30)
+ */
+export function parseEventDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  if (year < 1950 || year > 2100) return null;
+  return match[0];
+}
+
+/**
+ * Validate one chunk's model output against the event schema. Returns null when the
+ * response is not usable JSON at all; individual invalid events are dropped.
+ */
+export function validateDeadlineResponse(
+  content: string,
+  pages: string[],
+  chunk: { startPage: number; endPage: number }
+): DeadlineEvent[] | null {
+  let parsed: Record<string, unknown>;
+  try {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  const events: DeadlineEvent[] = [];
+  for (const raw of (Array.isArray(parsed.events) ? parsed.events : []).slice(0, MAX_EVENTS_PER_CHUNK)) {
+    if (!raw || typeof raw !== 'object') continue;
+
+    const description = asText(raw.description, 400);
+    const sourceClause = asText(raw.source_clause, MAX_QUOTE_CHARS);
+    const date = parseEventDate(raw.date);
+    const dateText = asText(raw.date_text, 150);
+    // An event needs something to put in a calendar: a date or at least the period as written
+    if (!description || !sourceClause || (!date && !dateText)) continue;
+
+    const claimedPage = Number.isInteger(raw.page) ? raw.page as number : null;
+    const page = locateQuote(sourceClause, pages, claimedPage, [chunk.startPage, chunk.endPage]);
+
+    events.push({
+      id: '',
+      date,
+      date_text: dateText || date || '',
+      description,
+      party: asText(raw.party, 150),
+      kind: DEADLINE_KINDS.find((k) => k === raw.kind) ?? 'other',
+      source_clause: sourceClause,
+      page: page ?? (claimedPage !== null && claimedPage >= chunk.startPage && claimedPage <= chunk.endPage ? claimedPage : null),
+      quote_verified: page !== null,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Extract dated events from every chunk of the document, sorted with dated events first
+ */
+export async function extractDeadlines(
+  llm: LLMProvider,
+  supabaseClient: SupabaseClient,
+  userId: string,
+  pages: string[],
+  language: LanguageCode,
+  emit: Emit
+): Promise<{ analysis: DeadlineAnalysis; model: string; usage: TokenUsage }> {
+  const chunks = chunkPages(pages, CHUNK_CHARS).slice(0, MAX_CHUNKS);
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+  let model = llm.model;
+
+  const analysis: DeadlineAnalysis = {
+    events: [],
+    skipped_pages: [],
+    generated_at: new Date().toISOString(),
+  };
+  const seen = new Set<string>();
+
+  for (const chunk of chunks) {
+    emit({ type: 'progress', stage: 'deadlines', chunk: chunk.index + 1, total: chunks.length, label: chunk.startPage === chunk.endPage ? `Page ${chunk.startPage}` : `Pages ${chunk.startPage}–${chunk.endPage}` });
+
+    const result = await llm.complete({
+      feature: 'document-deadlines',
+      messages: [
+        { role: 'system', content: deadlinePrompt(language) },
+        { role: 'user', content: chunk.text },
+      ],
+      maxTokens: 2500,
+      temperature: 0.1,
+    });
+    await recordUsage(supabaseClient, userId, 'document-deadlines', result);
+    model = result.model;
+    usage = {
+      promptTokens: usage.promptTokens + result.usage.promptTokens,
+      completionTokens: usage.completionTokens + result.usage.completionTokens,
+      totalTokens: usage.totalTokens + result.usage.totalTokens,
+      estimated: usage.estimated || result.usage.estimated,
+    };
+
+    const validated = validateDeadlineResponse(result.content, pages, chunk);
+    if (!validated) {
+      console.warn(`Deadline response for pages ${chunk.startPage}-${chunk.endPage} was not valid JSON`);
+      for (let page = chunk.startPage; page <= chunk.endPage; page++) analysis.skipped_pages.push(page);
+      continue;
+    }
+
+    // Chunks can overlap on long pages; drop events repeated with the same date and wording
+    for (const event of validated) {
+      const key = `${event.date ?? event.date_text.toLowerCase()}|${event.source_clause.toLowerCase().replace(/\s+/g, ' ').substring(0, 120)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      analysis.events.push(event);
+    }
+  }
+
+  // Dated events in calendar order, then relative deadlines in document order
+  analysis.events = [
+    ...analysis.events.filter((event) => event.date).sort((a, b) => a.date!.localeCompare(b.date!)),
+    ...analysis.events.filter((event) => !event.date),
+  ].map((event, index) => ({ ...event, id: `d${index + 1}` }));
+
+  return { analysis, model, usage };
+}
@@ -0,0 +1,384 @@
+// Server-side text extraction for uploaded documents (PDF, DOCX, TXT, RTF).
+//
+// Extracted text keeps its page structure: pages are joined with a form feed (\f), which
+// is what documents.content stores. DOCX pages come from the page breaks Word recorded
+// when the file was last saved, so they are approximate; TXT and RTF pages only exist
+// where the file itself contains explicit page breaks.
+
+import { extractText, getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1';
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+
+export type DocumentKind = 'pdf' | 'docx' | 'txt' | 'rtf' | 'jpg' | 'png';
+
+export type DocumentStatus = 'uploaded' | 'processing' | 'extracted' | 'summarized' | 'failed';
+
+export const DOCUMENTS_BUCKET = 'documents';
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+export const PAGE_BREAK = '\f';
+
+// Less readable text than this is treated as "nothing extracted" (e.g. a scanned PDF)
+const MIN_TEXT_LENGTH = 20;
+
+const MIME_TYPES: Record<DocumentKind, string[]> = {
+  pdf: ['application/pdf'],
+  docx: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  txt: ['text/plain'],
+  rtf: ['application/rtf', 'text/rtf'],
+  jpg: ['image/jpeg'],
+  png: ['image/png'],
+};
+
+// PDFs where at least this share of pages has no text layer are sent back for OCR
+const SCANNED_PAGE_RATIO = 0.2;
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  pages: string[];
+  text: string;
+}
+
+export class DocumentExtractionError extends Error {
+  // needs_ocr: scanned pages or photos, which the browser reads with OCR and sends back as text
+  code: 'unsupported_type' | 'corrupt_file' | 'no_text' | 'needs_ocr';
+
+  constructor(message: string, code: DocumentExtractionError['code']) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Work out the document kind from the file extension, falling back to the MIME type
+ */
+export function detectDocumentKind(fileName: string, mimeType?: string | null): DocumentKind | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'jpeg') return 'jpg';
+  if (extension && extension in MIME_TYPES) return extension as DocumentKind;
+
+  for (const [kind, types] of Object.entries(MIME_TYPES)) {
+    if (mimeType && types.includes(mimeType)) return kind as DocumentKind;
+  }
+  return null;
+}
+
+export function mimeTypeFor(kind: DocumentKind): string {
+  return MIME_TYPES[kind][0];
+}
+
+/**
+ * Split stored documents.content back into pages
+ */
+export function splitPages(content: string): string[] {
+  return content.split(PAGE_BREAK);
+}
+
+export interface DocumentChunk {
+  index: number;
+  startPage: number;
+  endPage: number;
+  text: string;
+}
+
+/**
+ * Group consecutive pages into chunks of at most maxChars, splitting oversized pages at
+ * paragraph boundaries. When the document has real pages each one is prefixed with a
+ * [Page N] marker so the model can cite it. Pages without text are skipped.
+ */
+export function chunkPages(pages: string[], maxChars: number): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const labelPages = pages.length > 1;
+  let current: { startPage: number; endPage: number; parts: string[]; length: number } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    chunks.push({
+      index: chunks.length,
+      startPage: current.startPage,
+      endPage: current.endPage,
+      text: current.parts.join('\n\n'),
+    });
+    current = null;
+  };
+
+  pages.forEach((page, i) => {
+    if (!page.trim()) return;
+    const pageNumber = i + 1;
+
+    splitLongText(page, labelPages ? maxChars - 32 : maxChars).forEach((text, part) => {
+      const piece = labelPages ? `[Page ${pageNumber}${part > 0 ? ', continued' : ''}]\n${text}` : text;
+      if (current && current.length + piece.length > maxChars) flush();
+      current ??= { startPage: pageNumber, endPage: pageNumber, parts: [], length: 0 };
+      current.parts.push(piece);
+      current.length += piece.length + 2;
+      current.endPage = pageNumber;
+    });
+  });
+  flush();
+
+  return chunks;
+}
+
+function splitLongText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    // Prefer a paragraph break, then a line break, then a space, in the second half of the window
+    let cut = rest.lastIndexOf('\n\n', maxChars);
+    if (cut < maxChars / 2) cut = rest.lastIndexOf('\n', maxChars);
+    if (cut < maxChars / 2) cut = rest.lastIndexOf(' ', maxChars);
+    if (cut < maxChars / 2) cut = maxChars;
+
+    pieces.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) pieces.push(rest);
+
+  return pieces;
+}
+
+/**
+ * Compact page list, e.g. [1, 2, 3, 5, 7, 8] -> "1–3, 5, 7–8"
+ */
+export function formatPageRanges(pageNumbers: number[]): string {
+  const sorted = [...new Set(pageNumbers)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}–${sorted[i]}`);
+  }
+
+  return ranges.join(', ');
+}
+
+/**
+ * Extract plain text from a document, page by page
+ */
+export async function extractDocumentText(bytes: Uint8Array, kind: DocumentKind): Promise<ExtractedDocument> {
+  let pages: string[];
+
+  switch (kind) {
+    case 'pdf':
+      pages = await extractPdf(bytes);
+      break;
+    case 'docx':
+      pages = extractDocx(bytes);
+      break;
+    case 'rtf':
+      pages = splitPages(rtfToText(new TextDecoder('latin1').decode(bytes)));
+      break;
+    case 'txt':
+      pages = splitPages(new TextDecoder('utf-8').decode(bytes));
+      break;
+    case 'jpg':
+    case 'png':
+      throw new DocumentExtractionError('This is a photo of a document. Its text is read with OCR in your browser.', 'needs_ocr');
+    default:
+      throw new DocumentExtractionError(`Unsupported document type: ${kind}`, 'unsupported_type');
+  }
+
+  pages = pages.map(normalizeWhitespace);
+  const text = pages.join(PAGE_BREAK);
+
+  const scannedPages = pages.filter((page) => page.replace(/\s/g, '').length < MIN_TEXT_LENGTH).length;
+  if (kind === 'pdf' && scannedPages > 0 && scannedPages >= pages.length * SCANNED_PAGE_RATIO) {
+    throw new DocumentExtractionError(
+      `${scannedPages} of ${pages.length} pages are scanned images without a text layer. They are read with OCR in your browser.`,
+      'needs_ocr'
+    );
+  }
+
+  if (text.replace(/\s/g, '').length < MIN_TEXT_LENGTH) {
+    throw new DocumentExtractionError(
+      'No readable text found in this document. It may be a scanned image.',
+      'no_text'
+    );
+  }
+
+  return { kind, pages, text };
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<string[]> {
+  if (strFromU8(bytes.subarray(0, 5)) !== '%PDF-') {
+    throw new DocumentExtractionError('This file is not a valid PDF', 'corrupt_file');
+  }
+
+  try {
+    const pdf = await getDocumentProxy(bytes);
+    const { text } = await extractText(pdf, { mergePages: false });
+    return text;
+  } catch (error) {
+    console.error('PDF extraction error:', error);
+    throw new DocumentExtractionError('Could not read this PDF. It may be encrypted or damaged.', 'corrupt_file');
+  }
+}
+
+function extractDocx(bytes: Uint8Array): string[] {
+  let xml: string;
+  try {
+    const files = unzipSync(bytes, { filter: (file) => file.name === 'word/document.xml' });
+    const documentXml = files['word/document.xml'];
+    if (!documentXml) throw new Error('word/document.xml missing');
+    xml = strFromU8(documentXml);
+  } catch (error) {
+    console.error('DOCX extraction error:', error);
+    throw new DocumentExtractionError('Could not read this DOCX file. It may be damaged.', 'corrupt_file');
+  }
+
+  const pages: string[] = [];
+  let page = '';
+  let paragraph = '';
+
+  const breakPage = () => {
+    // Word records a rendered break right after an explicit one; don't emit empty pages
+    if ((page + paragraph).trim()) {
+      pages.push(page + paragraph);
+      page = '';
+      paragraph = '';
+    }
+  };
+
+  const tokens = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br([^>]*)\/>|<w:lastRenderedPageBreak\/>|<\/w:p>/g;
+  for (const match of xml.matchAll(tokens)) {
+    const [token, text, breakAttributes] = match;
+    if (text !== undefined) {
+      paragraph += decodeXmlEntities(text);
+    } else if (token === '<w:tab/>') {
+      paragraph += '\t';
+    } else if (token.startsWith('<w:br')) {
+      if (/w:type="page"/.test(breakAttributes ?? '')) breakPage();
+      else paragraph += '\n';
+    } else if (token === '<w:lastRenderedPageBreak/>') {
+      breakPage();
+    } else {
+      page += paragraph + '\n';
+      paragraph = '';
+    }
+  }
+  pages.push(page + paragraph);
+
+  return pages;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// RTF groups whose contents are formatting tables or metadata, not document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata',
+  'colorschememapping', 'latentstyles', 'datastore', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'fldinst',
+]);
+
+/**
+ * Reduce RTF markup to plain text, keeping paragraph, tab and page breaks
+ */
+function rtfToText(rtf: string): string {
+  const ansi = new TextDecoder('windows-1252');
+  const controlWord = /\\([a-zA-Z]+)(-?\d+)? ?/y;
+  const out: string[] = [];
+  const skipStack: boolean[] = [];
+  let skipping = false;
+  let unicodeFallbackLength = 1;
+  let i = 0;
+
+  // After \uN the writer adds N fallback characters for readers without Unicode support
+  const skipFallback = () => {
+    for (let k = 0; k < unicodeFallbackLength && i < rtf.length; k++) {
+      i += rtf[i] === '\\' && rtf[i + 1] === "'" ? 4 : 1;
+    }
+  };
+
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === '{') {
+      skipStack.push(skipping);
+      i++;
+    } else if (ch === '}') {
+      skipping = skipStack.pop() ?? false;
+      i++;
+    } else if (ch === '\\') {
+      const next = rtf[i + 1];
+      if (next === '\\' || next === '{' || next === '}') {
+        if (!skipping) out.push(next);
+        i += 2;
+      } else if (next === '*') {
+        skipping = true;
+        i += 2;
+      } else if (next === "'") {
+        if (!skipping) out.push(ansi.decode(new Uint8Array([parseInt(rtf.substr(i + 2, 2), 16)])));
+        i += 4;
+      } else if (next === '~') {
+        if (!skipping) out.push(' ');
+        i += 2;
+      } else if (next === '\n' || next === '\r') {
+        if (!skipping) out.push('\n');
+        i += 2;
+      } else {
+        controlWord.lastIndex = i;
+        const match = controlWord.exec(rtf);
+        if (!match) {
+          i += 2;
+          continue;
+        }
+        i = controlWord.lastIndex;
+
+        const [, word, param] = match;
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+          skipping = true;
+          continue;
+        }
+        if (word === 'uc') {
+          unicodeFallbackLength = Number(param ?? 1);
+          continue;
+        }
+        if (skipping) continue;
+
+        switch (word) {
+          case 'par':
+          case 'line':
+            out.push('\n');
+            break;
+          case 'tab':
+            out.push('\t');
+            break;
+          case 'page':
+            out.push(PAGE_BREAK);
+            break;
+          case 'u': {
+            const code = Number(param ?? 0);
+            out.push(String.fromCharCode(code < 0 ? code + 65536 : code));
+            skipFallback();
+            break;
+          }
+        }
+      }
+    } else {
+      if (!skipping && ch !== '\n' && ch !== '\r') out.push(ch);
+      i++;
+    }
+  }
+
+  return out.join('');
+}
+
+function normalizeWhitespace(page: string): string {
+  return page
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,438 @@
+// Rule engine for government scheme eligibility.
+//
+// Every scheme in government_schemes is checked against the applicant form on the Government
+// Schemes page using its stored limits (age, income, gender, state) and the extra rules in
+// eligibility_criteria. The result is a pass / fail / unknown verdict per criterion, so the
+// same profile always gets the same schemes and the user can see why each one matched.
+
+export const CASTE_CATEGORIES = ['general', 'obc', 'sc', 'st', 'pvtg', 'dnt'] as const;
+
+export type CasteCategory = typeof CASTE_CATEGORIES[number];
+
+export const AREA_TYPES = ['urban', 'rural'] as const;
+
+export type AreaType = typeof AREA_TYPES[number];
+
+export const GENDERS = ['male', 'female', 'other'] as const;
+
+export type Gender = typeof GENDERS[number];
+
+// Occupation values of the applicant form
+export const OCCUPATIONS = ['student', 'farmer', 'self-employed', 'salaried', 'unemployed', 'business', 'retired', 'other'] as const;
+
+export type Occupation = typeof OCCUPATIONS[number];
+
+export interface ApplicantProfile {
+  age: number;
+  gender: Gender;
+  // Annual incomes in rupees; null when not given
+  income: number | null;
+  parentIncome: number | null;
+  occupation: Occupation;
+  // State slug from the form, e.g. tamil-nadu
+  state: string;
+  areaType: AreaType;
+  caste: CasteCategory;
+  isDisabled: boolean;
+  isMinority: boolean;
+  isStudent: boolean;
+}
+
+/**
+ * Shape of government_schemes.eligibility_criteria. Every rule that is present must pass.
+ */
+export interface EligibilityCriteria {
+  castes?: CasteCategory[];
+  genders?: Gender[];
+  disability?: boolean;
+  minority?: boolean;
+  student?: boolean;
+  area_types?: AreaType[];
+  occupations?: Occupation[];
+  // Which income max_income / min_income apply to; 'family' uses the parent/guardian income
+  // when it is given (scholarships), otherwise the applicant's own
+  income_basis?: 'applicant' | 'family';
+  // At least one group must pass, e.g. "SC/ST or a woman" for Stand-Up India
+  any_of?: EligibilityCriteria[];
+  // Conditions the form cannot check, shown to the user to verify
+  conditions?: string[];
+}
+
+export interface SchemeRow {
+  id: string;
+  name: string;
+  description: string | null;
+  benefits: string | null;
+  category: string | null;
+  state: string | null;
+  application_process: string | null;
+  required_documents: string[] | null;
+  official_website: string | null;
+  deadline: string | null;
+  min_age: number | null;
+  max_age: number | null;
+  min_income: number | null;
+  max_income: number | null;
+  gender: 'male' | 'female' | 'any' | null;
+  eligibility_criteria: EligibilityCriteria | null;
+}
+
+export type CriterionStatus = 'pass' | 'fail' | 'unknown';
+
+export interface CriterionResult {
+  key: string;
+  label: string;
+  // What the scheme requires
+  requirement: string;
+  status: CriterionStatus;
+  // How the applicant compares
+  detail: string;
+}
+
+export interface SchemeEvaluation {
+  scheme: SchemeRow;
+  eligible: boolean;
+  criteria: CriterionResult[];
+  // Targeted criteria the applicant meets; schemes aimed at the applicant rank first
+  score: number;
+}
+
+const CASTE_LABELS: Record<CasteCategory, string> = {
+  general: 'General',
+  obc: 'OBC',
+  sc: 'SC',
+  st: 'ST',
+  pvtg: 'PVTG',
+  dnt: 'DNT',
+};
+
+// PVTGs are Scheduled Tribes, so schemes for ST applicants include them
+const CASTE_INCLUDES: Partial<Record<CasteCategory, CasteCategory[]>> = {
+  pvtg: ['st'],
+};
+
+const OCCUPATION_LABELS: Record<Occupation, string> = {
+  student: 'student',
+  farmer: 'farmer',
+  'self-employed': 'self-employed',
+  salaried: 'salaried',
+  unemployed: 'unemployed',
+  business: 'business owner',
+  retired: 'retired',
+  other: 'other occupation',
+};
+
+const GENDER_LABELS: Record<Gender, string> = {
+  male: 'Men',
+  female: 'Women',
+  other: 'Transgender and non-binary persons',
+};
+
+const formatRupees = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+const joinOr = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`;
+
+/**
+ * Normalise a state name or form slug for comparison ("Jammu and Kashmir" = "jammu-kashmir")
+ */
+export const normalizeState = (value: string) =>
+  value.toLowerCase().split(/[^a-z]+/).filter((word) => word && word !== 'and').join('-');
+
+const isAllIndia = (state: string | null) => !state || normalizeState(state) === 'all-india';
+
+const check = (passed: boolean): CriterionStatus => (passed ? 'pass' : 'fail');
+
+/**
+ * Criteria from eligibility_criteria rules (everything except income, age, gender column and state)
+ */
+function evaluateRules(rules: EligibilityCriteria, profile: ApplicantProfile): CriterionResult[] {
+  const results: CriterionResult[] = [];
+
+  if (rules.castes?.length) {
+    const accepted = new Set([profile.caste, ...(CASTE_INCLUDES[profile.caste] ?? [])]);
+    results.push({
+      key: 'caste',
+      label: 'Category',
+      requirement: `${joinOr(rules.castes.map((caste) => CASTE_LABELS[caste]))} applicants`,
+      status: check(rules.castes.some((caste) => accepted.has(caste))),
+      detail: `You are ${CASTE_LABELS[profile.caste]}`,
+    });
+  }
+
+  if (rules.genders?.length) {
+    results.push({
+      key: 'gender',
+      label: 'Gender',
+      requirement: joinOr(rules.genders.map((gender) => GENDER_LABELS[gender])),
+      status: check(rules.genders.includes(profile.gender)),
+      detail: `You selected ${profile.gender}`,
+    });
+  }
+
+  if (rules.disability) {
+    results.push({
+      key: 'disability',
+      label: 'Disability',
+      requirement: 'Persons with disabilities',
+      status: check(profile.isDisabled),
+      detail: profile.isDisabled ? 'You have a disability' : 'You did not report a disability',
+    });
+  }
+
+  if (rules.minority) {
+    results.push({
+      key: 'minority',
+      label: 'Minority',
+      requirement: 'Notified minority communities (Muslim, Christian, Sikh, Buddhist, Jain, Parsi)',
+      status: check(profile.isMinority),
+      detail: profile.isMinority ? 'You belong to a minority' : 'You did not report belonging to a minority',
+    });
+  }
+
+  if (rules.student) {
+    const isStudent = profile.isStudent || profile.occupation === 'student';
+    results.push({
+      key: 'student',
+      label: 'Student',
+      requirement: 'Currently studying',
+      status: check(isStudent),
+      detail: isStudent ? 'You are a student' : 'You are not a student',
+    });
+  }
+
+  if (rules.area_types?.length) {
+    results.push({
+      key: 'area',
+      label: 'Area',
+      requirement: `Living in a ${joinOr(rules.area_types)} area`,
+      status: check(rules.area_types.includes(profile.areaType)),
+      detail: `You live in a ${profile.areaType} area`,
+    });
+  }
+
+  if (rules.occupations?.length) {
+    results.push({
+      key: 'occupation',
+      label: 'Occupation',
+      requirement: `Occupation: ${joinOr(rules.occupations.map((occupation) => OCCUPATION_LABELS[occupation]))}`,
+      status: check(rules.occupations.includes(profile.occupation)),
+      detail: `Your occupation is ${OCCUPATION_LABELS[profile.occupation]}`,
+    });
+  }
+
+  if (rules.any_of?.length) {
+    const groups = rules.any_of.map((group) => evaluateRules(group, profile));
+    const status: CriterionStatus = groups.some((group) => group.every((c) => c.status === 'pass'))
+      ? 'pass'
+      : groups.some((group) => group.every((c) => c.status !== 'fail')) ? 'unknown' : 'fail';
+    results.push({
+      key: 'any_of',
+      label: 'Who can apply',
+      requirement: groups.map((group) => group.map((c) => c.requirement).join(' and ')).join(', or '),
+      status,
+      detail: status === 'pass' ? 'You meet one of these' : status === 'fail' ? 'You meet none of these' : 'Depends on details you did not give',
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Check one scheme against the applicant. `today` is YYYY-MM-DD so results are reproducible.
+ */
+export function evaluateScheme(scheme: SchemeRow, profile: ApplicantProfile, today: string): SchemeEvaluation {
+  const rules = scheme.eligibility_criteria ?? {};
+  const criteria: CriterionResult[] = [];
+
+  if (scheme.min_age !== null || scheme.max_age !== null) {
+    const requirement = scheme.min_age !== null && scheme.max_age !== null
+      ? `Aged ${scheme.min_age} to ${scheme.max_age}`
+      : scheme.min_age !== null ? `Aged ${scheme.min_age} or above` : `Aged ${scheme.max_age} or below`;
+    criteria.push({
+      key: 'age',
+      label: 'Age',
+      requirement,
+      status: check((scheme.min_age === null || profile.age >= scheme.min_age) && (scheme.max_age === null || profile.age <= scheme.max_age)),
+      detail: `You are ${profile.age}`,
+    });
+  }
+
+  if (scheme.gender === 'male' || scheme.gender === 'female') {
+    criteria.push({
+      key: 'gender',
+      label: 'Gender',
+      requirement: `${GENDER_LABELS[scheme.gender]} only`,
+      status: check(profile.gender === scheme.gender),
+      detail: `You selected ${profile.gender}`,
+    });
+  }
+
+  if (scheme.min_income !== null || scheme.max_income !== null) {
+    const family = rules.income_basis === 'family';
+    const income = family ? profile.parentIncome ?? profile.income : profile.income;
+    const whose = family ? 'family' : 'your';
+    const requirement = scheme.max_income !== null
+      ? `Annual ${family ? 'family ' : ''}income up to ${formatRupees(scheme.max_income)}`
+      : `Annual ${family ? 'family ' : ''}income of at least ${formatRupees(scheme.min_income!)}`;
+    criteria.push({
+      key: 'income',
+      label: 'Income',
+      requirement,
+      status: income === null
+        ? 'unknown'
+        : check((scheme.min_income === null || income >= scheme.min_income) && (scheme.max_income === null || income <= scheme.max_income)),
+      detail: income === null ? `You did not give ${whose} income` : `${family ? 'Family' : 'Your'} income is ${formatRupees(income)}`,
+    });
+  }
+
+  if (!isAllIndia(scheme.state)) {
+    criteria.push({
+      key: 'state',
+      label: 'State',
+      requirement: `Residents of ${scheme.state}`,
+      status: check(normalizeState(scheme.state!) === normalizeState(profile.state)),
+      detail: `You live in ${profile.state.split('-').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')}`,
+    });
+  }
+
+  criteria.push(...evaluateRules(rules, profile));
+
+  if (scheme.deadline) {
+    criteria.push({
+      key: 'deadline',
+      label: 'Deadline',
+      requirement: `Apply by ${scheme.deadline}`,
+      status: check(scheme.deadline >= today),
+      detail: scheme.deadline >= today ? 'Applications are open' : 'Applications have closed',
+    });
+  }
+
+  for (const [index, condition] of (rules.conditions ?? []).entries()) {
+    criteria.push({
+      key: `condition_${index + 1}`,
+      label: 'Also required',
+      requirement: condition,
+      status: 'unknown',
+      detail: 'Check this yourself before applying',
+    });
+  }
+
+  const targeted = ['caste', 'gender', 'disability', 'minority', 'student', 'area', 'occupation', 'any_of', 'state', 'income'];
+  return {
+    scheme,
+    eligible: criteria.every((criterion) => criterion.status !== 'fail'),
+    criteria,
+    score: criteria.filter((criterion) => criterion.status === 'pass' && targeted.includes(criterion.key)).length,
+  };
+}
+
+/**
+ * Evaluate every scheme. Eligible schemes come first, most targeted at the applicant first,
+ * then those with the fewest unchecked conditions; ties are broken by name.
+ */
+export function evaluateSchemes(schemes: SchemeRow[], profile: ApplicantProfile, today: string): SchemeEvaluation[] {
+  const unknowns = (evaluation: SchemeEvaluation) =>
+    evaluation.criteria.filter((criterion) => criterion.status === 'unknown').length;
+
+  return schemes
+    .map((scheme) => evaluateScheme(scheme, profile, today))
+    .sort((a, b) =>
+      Number(b.eligible) - Number(a.eligible)
+      || b.score - a.score
+      || unknowns(a) - unknowns(b)
+      || a.scheme.name.localeCompare(b.scheme.name)
+    );
+}
+
+/**
+ * Validate the applicant form; returns the profile or a list of problems
+ */
+export function parseApplicantProfile(body: Record<string, unknown>): { profile: ApplicantProfile } | { errors: string[] } {
+  const errors: string[] = [];
+  const age = Number(body.age);
+  if (!Number.isInteger(age) || age < 0 || age > 120) errors.push('age');
+
+  const pick = <T extends string>(values: readonly T[], value: unknown, key: string): T => {
+    const found = values.find((v) => v === value);
+    if (!found) errors.push(key);
+    return found ?? values[0];
+  };
+  const amount = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+
+  const profile: ApplicantProfile = {
+    age,
+    gender: pick(GENDERS, body.gender, 'gender'),
+    income: amount(body.income),
+    parentIncome: amount(body.parentIncome),
+    occupation: pick(OCCUPATIONS, body.occupation, 'occupation'),
+    state: typeof body.state === 'string' ? body.state.trim() : '',
+    areaType: pick(AREA_TYPES, body.areaType, 'areaType'),
+    caste: pick(CASTE_CATEGORIES, body.caste, 'caste'),
+    isDisabled: body.isDisabled === true,
+    isMinority: body.isMinority === true,
+    isStudent: body.isStudent === true,
+  };
+  if (!profile.state) errors.push('state');
+
+  return errors.length > 0 ? { errors } : { profile };
+}
+
+/**
+ * Row of public.applicant_profiles, one saved household member
+ */
+export interface ApplicantProfileRow {
+  age: number;
+  gender: string;
+  income: number | null;
+  parent_income: number | null;
+  occupation: string;
+  state: string;
+  area_type: string;
+  caste: string;
+  is_disabled: boolean;
+  is_minority: boolean;
+  is_student: boolean;
+}
+
+export const APPLICANT_PROFILE_FIELDS = 'age, gender, income, parent_income, occupation, state, area_type, caste, is_disabled, is_minority, is_student';
+
+export const profileFromRow = (row: ApplicantProfileRow) =>
+  parseApplicantProfile({
+    age: row.age,
+    gender: row.gender,
+    income: row.income,
+    parentIncome: row.parent_income,
+    occupation: row.occupation,
+    state: row.state,
+    areaType: row.area_type,
+    caste: row.caste,
+    isDisabled: row.is_disabled,
+    isMinority: row.is_minority,
+    isStudent: row.is_student,
+  });
+
+/**
+ * Plain summary of who a scheme is for, built from its requirements
+ */
+export const describeEligibility = (criteria: CriterionResult[]) =>
+  criteria
+    .filter((criterion) => !criterion.key.startsWith('condition_') && criterion.key !== 'deadline')
+    .map((criterion) => criterion.requirement)
+    .join(' · ') || 'Open to all Indian residents';
+
+/**
+ * Reason used when the AI reason is not available: the criteria the applicant meets
+ */
+export const fallbackReason = (evaluation: SchemeEvaluation) => {
+  const met = evaluation.criteria.filter((criterion) => criterion.status === 'pass');
+  const toCheck = evaluation.criteria.filter((criterion) => criterion.status === 'unknown').length;
+  const base = met.length > 0
+    ? `You meet ${met.length === 1 ? 'its requirement' : 'its requirements'}: ${met.map((criterion) => criterion.requirement).join('; ')}.`
+    : 'This scheme has no age, income or category limits that rule you out.';
+  return toCheck > 0 ? `${base} Check the ${toCheck} remaining condition${toCheck !== 1 ? 's' : ''} before applying.` : base;
+};
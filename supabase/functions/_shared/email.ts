@@ -0,0 +1,113 @@
+// Outgoing email over SMTP for the edge functions.
+//
+// Configured with SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM and SMTP_TLS. Locally,
+// point it at the Inbucket server that `supabase start` runs (see README) and read the mail in
+// its web UI instead of sending anything real.
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export class EmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
+
+interface SmtpConfig {
+  hostname: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * SMTP settings from the environment, or null when email is not configured
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) return null;
+
+  const tls = (Deno.env.get('SMTP_TLS') ?? 'true').toLowerCase() !== 'false';
+  const port = Number(Deno.env.get('SMTP_PORT') ?? (tls ? 465 : 25));
+  return {
+    hostname,
+    port,
+    tls,
+    username: Deno.env.get('SMTP_USER') || undefined,
+    password: Deno.env.get('SMTP_PASS') || undefined,
+    from: Deno.env.get('SMTP_FROM') ?? 'NyaAI <alerts@nyaai.local>',
+  };
+}
+
+/**
+ * Send messages over one SMTP connection. Returns the messages that were accepted; a failure
+ * for one message is logged and does not stop the rest.
+ */
+export async function sendEmails(config: SmtpConfig, messages: EmailMessage[]): Promise<EmailMessage[]> {
+  const sent: EmailMessage[] = [];
+  if (messages.length === 0) return sent;
+
+  let client: SMTPClient;
+  try {
+    client = new SMTPClient({
+      connection: {
+        hostname: config.hostname,
+        port: config.port,
+        tls: config.tls,
+        auth: config.username ? { username: config.username, password: config.password ?? '' } : undefined,
+      },
+      // Local stand-ins such as Inbucket speak plain SMTP without STARTTLS
+      debug: config.tls ? undefined : { allowUnsecure: true, noStartTLS: true },
+    });
+  } catch (error) {
+    throw new EmailError(`Could not connect to ${config.hostname}:${config.port}: ${(error as Error).message}`);
+  }
+
+  try {
+    for (const message of messages) {
+      try {
+        await client.send({
+          from: config.from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+        sent.push(message);
+      } catch (error) {
+        console.error('Failed to send email to', message.to, error);
+      }
+    }
+  } finally {
+    await client.close();
+  }
+  return sent;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Minimal HTML version of a plain-text email: paragraphs, with lines starting "- " as a list
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((block) => {
+      const lines = block.split('\n');
+      if (lines.every((line) => line.startsWith('- '))) {
+        return `<ul>${lines.map((line) => `<li>${escapeHtml(line.slice(2))}</li>`).join('')}</ul>`;
+      }
+      return `<p>${lines.map(escapeHtml).join('<br>')}</p>`;
+    })
+    .join('\n');
+}
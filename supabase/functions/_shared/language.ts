@@ -0,0 +1,58 @@
+// Response language for the AI edge functions.
+//
+// The language comes from the request body when the client sends one (so a switch in the
+// UI applies immediately), otherwise from profiles.preferred_language, otherwise English.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type LanguageCode = 'en' | 'hi' | 'mr' | 'ta' | 'bn';
+
+export const LANGUAGES: Record<LanguageCode, { name: string; nativeName: string; script: string }> = {
+  en: { name: 'English', nativeName: 'English', script: 'Latin' },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी', script: 'Devanagari' },
+  mr: { name: 'Marathi', nativeName: 'मराठी', script: 'Devanagari' },
+  ta: { name: 'Tamil', nativeName: 'தமிழ்', script: 'Tamil' },
+  bn: { name: 'Bengali', nativeName: 'বাংলা', script: 'Bengali' },
+};
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && value in LANGUAGES;
+
+/**
+ * Resolve the response language for a request
+ */
+export async function resolveLanguage(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  requested?: unknown
+): Promise<LanguageCode> {
+  if (isLanguageCode(requested)) return requested;
+
+  const { data, error } = await supabaseClient
+    .from('profiles')
+    .select('preferred_language')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Could not read preferred language:', error.message);
+    return 'en';
+  }
+
+  return isLanguageCode(data?.preferred_language) ? data.preferred_language : 'en';
+}
+
+/**
+ * System prompt block telling the model which language to answer in.
+ * Empty for English so existing prompts are unchanged.
+ */
+export function languageInstruction(language: LanguageCode): string {
+  if (language === 'en') return '';
+
+  const { name, nativeName, script } = LANGUAGES[language];
+  return `
+RESPONSE LANGUAGE:
+- Write your entire response in ${name} (${nativeName}) using the ${script} script
+- Keep every legal term, act name, section number and court or authority name in English inside brackets after the ${name} word, e.g. "<${name} word> (Anticipatory Bail, CrPC Section 438)", so the user can recognize it in court papers
+- Keep URLs, amounts, dates and citation markers such as [1] exactly as they are`;
+}
@@ -0,0 +1,586 @@
+// Shared LLM provider layer for all AI edge functions.
+//
+// Provider selection comes from env:
+//   LLM_PROVIDER      groq (default) | openai-compatible | fixture
+//   LLM_MODEL         model name, defaults to llama-3.3-70b-versatile for groq
+//   LLM_BASE_URL      base URL of an OpenAI-compatible API (e.g. http://localhost:11434/v1)
+//   LLM_API_KEY       API key, falls back to GROQ_API_KEY for groq
+//   LLM_TIMEOUT_MS    per-attempt timeout, default 60000
+//   LLM_MAX_RETRIES   retries on network errors, 429 and 5xx, default 2
+//   LLM_FIXTURE_PATH  JSON file of scripted responses for the fixture provider
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  // Name of the calling feature, used for fixtures and usage accounting
+  feature: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // True when the provider did not report usage and it was estimated from text length
+  estimated: boolean;
+}
+
+export interface CompletionResult {
+  content: string;
+  usage: TokenUsage;
+  provider: string;
+  model: string;
+}
+
+export interface CompletionStream {
+  // Yields content deltas as they arrive
+  tokens: AsyncGenerator<string>;
+  // Final result, available once `tokens` has been fully consumed
+  result: () => CompletionResult;
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(options: CompletionOptions): Promise<CompletionResult>;
+  stream(options: CompletionOptions): Promise<CompletionStream>;
+}
+
+export class LLMError extends Error {
+  status?: number;
+  details?: unknown;
+
+  constructor(message: string, status?: number, details?: unknown) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 2;
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+const GROQ_DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+
+// Rough token estimate (~4 characters per token) for providers that report no usage
+export const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+const estimateUsage = (messages: ChatMessage[], completion: string): TokenUsage => {
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  const completionTokens = estimateTokens(completion);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true
+  };
+};
+
+interface RawUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface RawErrorBody {
+  error?: { message?: string };
+  message?: string;
+}
+
+const toUsage = (raw: RawUsage | undefined): TokenUsage | null => {
+  if (!raw || typeof raw.total_tokens !== 'number') return null;
+  return {
+    promptTokens: raw.prompt_tokens ?? 0,
+    completionTokens: raw.completion_tokens ?? 0,
+    totalTokens: raw.total_tokens,
+    estimated: false
+  };
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Provider for any API that speaks the OpenAI chat completions protocol (Groq included)
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  name: string;
+  model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(name: string, baseUrl: string, apiKey: string, model: string) {
+    this.name = name;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  private buildBody(options: CompletionOptions, stream: boolean) {
+    return {
+      model: this.model,
+      messages: options.messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+      frequency_penalty: options.frequencyPenalty,
+      presence_penalty: options.presencePenalty,
+      stream,
+      ...(stream && this.name !== 'groq' ? { stream_options: { include_usage: true } } : {})
+    };
+  }
+
+  // POST with a per-attempt timeout, retrying network errors, timeouts, 429 and 5xx
+  private async request(options: CompletionOptions, stream: boolean): Promise<Response> {
+    const timeoutMs = options.timeoutMs ?? Number(Deno.env.get('LLM_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS);
+    const retries = options.retries ?? Number(Deno.env.get('LLM_MAX_RETRIES') ?? DEFAULT_MAX_RETRIES);
+    let lastError: LLMError | null = null;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        const backoff = 500 * Math.pow(2, attempt - 1);
+        console.warn(`[llm] ${options.feature}: retry ${attempt}/${retries} in ${backoff}ms after: ${lastError?.message}`);
+        await sleep(backoff);
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(this.buildBody(options, stream)),
+          signal: controller.signal,
+        });
+
+        if (response.ok) {
+          // Streams may legitimately outlive the connect timeout
+          clearTimeout(timer);
+          return response;
+        }
+
+        let details: RawErrorBody | null = null;
+        let message = `${this.name} API error: ${response.status}`;
+        try {
+          details = await response.json();
+          message = details?.error?.message || details?.message || message;
+        } catch {
+          // Non-JSON error body
+        }
+
+        lastError = new LLMError(message, response.status, details);
+        if (!isRetryableStatus(response.status)) {
+          throw lastError;
+        }
+      } catch (error) {
+        if (error instanceof LLMError && !isRetryableStatus(error.status ?? 0)) {
+          throw error;
+        }
+        if (!(error instanceof LLMError)) {
+          const aborted = error instanceof DOMException && error.name === 'AbortError';
+          lastError = new LLMError(
+            aborted ? `${this.name} request timed out after ${timeoutMs}ms` : `${this.name} request failed: ${error instanceof Error ? error.message : String(error)}`,
+            aborted ? 504 : 502
+          );
+        }
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    throw lastError ?? new LLMError(`${this.name} request failed`);
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResult> {
+    const response = await this.request(options, false);
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content ?? '';
+
+    return {
+      content,
+      usage: toUsage(data.usage) ?? estimateUsage(options.messages, content),
+      provider: this.name,
+      model: data.model || this.model
+    };
+  }
+
+  async stream(options: CompletionOptions): Promise<CompletionStream> {
+    const response = await this.request(options, true);
+    if (!response.body) {
+      throw new LLMError(`${this.name} returned an empty stream`, 502);
+    }
+
+    const body = response.body;
+    let content = '';
+    let usage: TokenUsage | null = null;
+    let finished = false;
+    const provider = this.name;
+    const model = this.model;
+
+    async function* tokens() {
+      const reader = body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // Keep the trailing partial line for the next read
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const data = line.slice(6).trim();
+          if (data === '[DONE]') continue;
+
+          try {
+            const parsed = JSON.parse(data);
+            // Groq reports usage in x_groq, OpenAI-compatible APIs in the final chunk
+            usage = toUsage(parsed.x_groq?.usage) ?? toUsage(parsed.usage) ?? usage;
+            const delta = parsed.choices?.[0]?.delta?.content;
+            if (delta) {
+              content += delta;
+              yield delta;
+            }
+          } catch {
+            // Ignore malformed chunks
+          }
+        }
+      }
+
+      finished = true;
+    }
+
+    return {
+      tokens: tokens(),
+      result: () => {
+        if (!finished) {
+          throw new LLMError('Stream result requested before the stream finished');
+        }
+        return {
+          content,
+          usage: usage ?? estimateUsage(options.messages, content),
+          provider,
+          model
+        };
+      }
+    };
+  }
+}
+
+interface FixtureRule {
+  feature?: string;
+  // Case-insensitive regex tested against the last user message
+  match?: string;
+  content: string;
+}
+
+// Built-in scripted responses so every AI feature works with no network and no fixture file
+const DEFAULT_FIXTURES: FixtureRule[] = [
+  {
+    feature: 'ai-lawyer-chat',
+    content: `I understand this situation can be stressful. Here is a general overview.
+
+**Legal Foundation**
+- The relevant statutory text is listed in the sources below [1]
+
+**Next Steps**
+1. Write down the key facts and dates
+2. Keep copies of all documents
+3. Consult a qualified lawyer for advice on your specific case
+
+⚖️ Legal Disclaimer: This is general information. For specific legal advice, consult a qualified lawyer.`
+  },
+  {
+    feature: 'document-summarizer',
+    content: `📄 DOCUMENT OVERVIEW
+• Fixture summary of the uploaded document
+
+⚖️ KEY LEGAL POINTS
+• Obligations and rights are described in the document
+
+💰 FINANCIAL TERMS (if applicable)
+• Not specified
+
+📅 IMPORTANT DATES & DEADLINES
+• Not specified
+
+✅ YOUR RIGHTS
+• Not specified
+
+❗ YOUR OBLIGATIONS
+• Not specified
+
+🚨 RISKS & RED FLAGS
+• None detected by the fixture provider
+
+⚠️ TERMINATION & BREACH
+• Not specified
+
+🔍 SPECIAL CLAUSES
+• Not specified
+
+💡 BOTTOM LINE
+• This is a deterministic fixture response used for offline testing.`
+  },
+  {
+    feature: 'document-summarizer-map',
+    content: '- Fixture notes for this part of the document (p. 1)'
+  },
+  {
+    feature: 'document-clauses',
+    content: JSON.stringify({
+      document_type: 'Fixture agreement',
+      parties: [{ name: 'Fixture Party A', role: 'Landlord' }, { name: 'Fixture Party B', role: 'Tenant' }],
+      governing_law: 'Laws of India',
+      clauses: [
+        {
+          category: 'payment',
+          title: 'Fixture payment clause',
+          summary: 'Fixture explanation of the payment terms.',
+          risk: 'medium',
+          risk_reason: 'Fixture response used for offline testing.',
+          quote: 'Fixture quote that is not in the document',
+          page: 1
+        }
+      ]
+    })
+  },
+  {
+    feature: 'document-compare',
+    content: JSON.stringify({
+      changes: [
+        {
+          id: 'x1',
+          material: true,
+          explanation: 'Fixture explanation of the first change.',
+          impact: 'unclear',
+          impact_reason: 'Fixture response used for offline testing.'
+        }
+      ]
+    })
+  },
+  {
+    feature: 'document-deadlines',
+    content: JSON.stringify({
+      events: [
+        {
+          date: '2030-01-31',
+          date_text: '31st January 2030',
+          description: 'Fixture payment due date.',
+          party: 'Fixture Party B',
+          kind: 'payment',
+          source_clause: 'Fixture quote that is not in the document',
+          page: 1
+        },
+        {
+          date: null,
+          date_text: 'one month written notice',
+          description: 'Fixture notice period before ending the agreement.',
+          party: 'Either party',
+          kind: 'notice',
+          source_clause: 'Fixture notice clause that is not in the document',
+          page: 1
+        }
+      ]
+    })
+  },
+  {
+    feature: 'legal-drafter',
+    content: JSON.stringify({
+      title: 'Fixture legal draft',
+      sections: [
+        { heading: 'To', body: 'Fixture recipient\n__________' },
+        { heading: 'Subject', body: 'Subject: Fixture draft subject.' },
+        { heading: 'Facts', body: '1. Fixture first fact.\n2. Fixture second fact.' },
+        { heading: 'Signature', body: 'Fixture signature block' }
+      ]
+    })
+  },
+  {
+    feature: 'document-qa',
+    content: 'This is a fixture answer based on the document passages [1]. It is used for offline testing.'
+  },
+  {
+    feature: 'government-schemes',
+    // Scheme ids come from the database, so offline runs use the reasons built from the criteria
+    content: JSON.stringify({ reasons: [] })
+  },
+  {
+    feature: 'chat-summary',
+    content: '- Fixture summary of the earlier conversation turns'
+  },
+  {
+    feature: 'case-brief',
+    content: JSON.stringify({
+      title: 'Fixture case brief',
+      issue: 'Fixture summary of the legal issue discussed in the chat.',
+      facts: ['Key fact recorded by the fixture provider'],
+      jurisdiction: 'Not specified',
+      urgency: 'medium',
+      urgency_reason: 'Fixture response used for offline testing.',
+      specialization: 'Civil Law'
+    })
+  }
+];
+
+/**
+ * Deterministic provider that replays scripted responses, for offline development and tests
+ */
+class FixtureProvider implements LLMProvider {
+  name = 'fixture';
+  model = 'fixture';
+  private rules: FixtureRule[] | null = null;
+
+  private async loadRules(): Promise<FixtureRule[]> {
+    if (this.rules) return this.rules;
+
+    const path = Deno.env.get('LLM_FIXTURE_PATH');
+    let custom: FixtureRule[] = [];
+    if (path) {
+      try {
+        const parsed = JSON.parse(await Deno.readTextFile(path));
+        custom = Array.isArray(parsed) ? parsed : parsed.responses ?? [];
+      } catch (error) {
+        console.error('[llm] Could not read LLM_FIXTURE_PATH:', error);
+      }
+    }
+
+    // Custom rules take precedence over the built-in defaults
+    this.rules = [...custom, ...DEFAULT_FIXTURES];
+    return this.rules;
+  }
+
+  private async resolve(options: CompletionOptions): Promise<string> {
+    const rules = await this.loadRules();
+    const lastUser = [...options.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+
+    const rule = rules.find((r) =>
+      (!r.feature || r.feature === options.feature) &&
+      (!r.match || new RegExp(r.match, 'i').test(lastUser))
+    );
+
+    return rule?.content ?? `Fixture response for ${options.feature}.`;
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResult> {
+    const content = await this.resolve(options);
+    return {
+      content,
+      usage: estimateUsage(options.messages, content),
+      provider: this.name,
+      model: this.model
+    };
+  }
+
+  async stream(options: CompletionOptions): Promise<CompletionStream> {
+    const content = await this.resolve(options);
+    let finished = false;
+
+    async function* tokens() {
+      // Replay word by word so streaming UIs behave as they do against a real provider
+      for (const piece of content.match(/\S+\s*|\s+/g) ?? []) {
+        yield piece;
+      }
+      finished = true;
+    }
+
+    return {
+      tokens: tokens(),
+      result: () => {
+        if (!finished) {
+          throw new LLMError('Stream result requested before the stream finished');
+        }
+        return {
+          content,
+          usage: estimateUsage(options.messages, content),
+          provider: this.name,
+          model: this.model
+        };
+      }
+    };
+  }
+}
+
+/**
+ * Build the provider configured through env
+ */
+export function getLLMProvider(): LLMProvider {
+  const providerName = (Deno.env.get('LLM_PROVIDER') ?? 'groq').toLowerCase();
+
+  switch (providerName) {
+    case 'fixture':
+      return new FixtureProvider();
+
+    case 'openai':
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get('LLM_BASE_URL');
+      const model = Deno.env.get('LLM_MODEL');
+      if (!baseUrl || !model) {
+        throw new LLMError('LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider', 500);
+      }
+      return new OpenAICompatibleProvider('openai-compatible', baseUrl, Deno.env.get('LLM_API_KEY') ?? '', model);
+    }
+
+    case 'groq':
+      return new OpenAICompatibleProvider(
+        'groq',
+        Deno.env.get('LLM_BASE_URL') ?? GROQ_BASE_URL,
+        Deno.env.get('LLM_API_KEY') ?? Deno.env.get('GROQ_API_KEY') ?? '',
+        Deno.env.get('LLM_MODEL') ?? GROQ_DEFAULT_MODEL
+      );
+
+    default:
+      throw new LLMError(`Unknown LLM_PROVIDER: ${providerName}`, 500);
+  }
+}
+
+/**
+ * Store token usage for a completion. Failures are logged and never break the request.
+ */
+export async function recordUsage(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  feature: string,
+  result: CompletionResult
+): Promise<void> {
+  console.log(`[llm] ${feature} usage (${result.provider}/${result.model}):`, result.usage);
+
+  const { error } = await supabaseClient
+    .from('llm_usage')
+    .insert({
+      user_id: userId,
+      feature,
+      provider: result.provider,
+      model: result.model,
+      prompt_tokens: result.usage.promptTokens,
+      completion_tokens: result.usage.completionTokens,
+      total_tokens: result.usage.totalTokens,
+      estimated: result.usage.estimated
+    });
+
+  if (error) {
+    console.warn('[llm] Could not record usage:', error.message);
+  }
+}
@@ -0,0 +1,321 @@
+// PII redaction for text sent to the LLM provider.
+//
+// Aadhaar, PAN, phone and bank account numbers and postal addresses are replaced with stable
+// placeholders such as [AADHAAR_1] before a request leaves for the provider, and the
+// placeholders in the response are replaced back with the original values. One Redactor is
+// used per request so the same value always gets the same placeholder, across every chunk
+// of a document or every turn of a chat.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CompletionOptions, CompletionResult, CompletionStream, LLMProvider } from './llm.ts';
+
+// In priority order: when two detections cover the same text, the earlier type wins
+export const PII_TYPES = ['aadhaar', 'pan', 'bank_account', 'phone', 'address'] as const;
+
+export type PiiType = typeof PII_TYPES[number];
+
+const PLACEHOLDER_LABELS: Record<PiiType, string> = {
+  aadhaar: 'AADHAAR',
+  pan: 'PAN',
+  phone: 'PHONE',
+  bank_account: 'BANK_ACCOUNT',
+  address: 'ADDRESS',
+};
+
+const PLACEHOLDER_PATTERN = /\[(?:AADHAAR|PAN|PHONE|BANK_ACCOUNT|ADDRESS)_\d+\]/g;
+// Longest possible placeholder, used to hold back a partial one at the end of a stream chunk
+const MAX_PLACEHOLDER_LENGTH = 24;
+
+export interface RedactionMatch {
+  type: PiiType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface RedactionItem {
+  placeholder: string;
+  type: PiiType;
+  value: string;
+  occurrences: number;
+}
+
+// What is stored and returned as the per-request audit; never includes the original values
+export interface RedactionAudit {
+  total: number;
+  counts: Record<PiiType, number>;
+  items: { placeholder: string; type: PiiType; occurrences: number }[];
+}
+
+// ---- Detection ----
+
+// Verhoeff checksum tables; every Aadhaar number passes this check
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+export function isValidAadhaar(digits: string): boolean {
+  if (!/^[2-9]\d{11}$/.test(digits)) return false;
+  let check = 0;
+  [...digits].reverse().forEach((digit, i) => {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(digit)]];
+  });
+  return check === 0;
+}
+
+const AADHAAR_PATTERN = /(?<![\d-])[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}(?![\d-])/g;
+// Fourth letter is the holder type (P person, C company, H HUF, F firm, ...)
+const PAN_PATTERN = /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/g;
+const MOBILE_PATTERN = /(?<![\w+])(?:\+91[ -]?|91[ -]|0)?[6-9]\d{4}[ -]?\d{5}(?!\d)/g;
+const LANDLINE_PATTERN = /(?<![\w+])(?:\+91[ -]?|0)\d{2,4}[ -]\d{6,8}(?!\d)/g;
+// The number after an account label: "A/c No. 1234...", "Account Number: ...", "खाता संख्या ..."
+const BANK_ACCOUNT_PATTERN = /(?:\b(?:a\/c|acct|account)\.?\s*(?:no\.?|number|num\.?|#)?|खाता\s*(?:संख्या|सं\.|नं\.?))\s*[:.\-–]?\s*(\d[\d -]{7,22}\d)/gi;
+// Labels followed by an address; the label itself is kept
+const ADDRESS_LABEL_PATTERN = /(?:\b(?:(?:permanent|residential|correspondence|postal|registered office)\s+)?address(?:\s+for\s+\w+)?|\br\/o|\bresiding\s+at|\bresident\s+of|पता)\s*[:\-–]?\s*/gi;
+// Address lines that start with the unit itself: "Flat No. 12, ...", "H.No. 4-5-6, ..."
+const ADDRESS_START_PATTERN = /\b(?:flat|house|h\.|plot|door|shop|room)\s*no\.?\s*[:-]?\s*[\w/-]+\s*,/gi;
+const PIN_CODE_PATTERN = /\b[1-9]\d{2}\s?\d{3}\b/;
+const MAX_ADDRESS_CHARS = 200;
+
+function findAll(pattern: RegExp, text: string): RegExpExecArray[] {
+  pattern.lastIndex = 0;
+  return [...text.matchAll(pattern)];
+}
+
+// An address runs to its PIN code, or else to the end of the line or sentence
+function addressEnd(text: string, start: number): number {
+  const lineEnd = text.indexOf('\n', start);
+  const limit = Math.min(lineEnd === -1 ? text.length : lineEnd, start + MAX_ADDRESS_CHARS);
+  const window = text.substring(start, limit);
+
+  const pin = window.match(PIN_CODE_PATTERN);
+  if (pin && pin.index !== undefined) return start + pin.index + pin[0].length;
+
+  const sentenceEnd = window.search(/[.;]\s+[A-Z]|;/);
+  return sentenceEnd === -1 ? limit : start + sentenceEnd;
+}
+
+const looksLikeAddress = (value: string) =>
+  value.length >= 10 && /\d/.test(value) && /,/.test(value);
+
+/**
+ * Every PII match in the text, without overlaps (earlier and more specific matches win)
+ */
+export function detectPii(text: string): RedactionMatch[] {
+  const matches: RedactionMatch[] = [];
+  const add = (type: PiiType, start: number, value: string) => {
+    const trimmed = value.replace(/[\s,.;:-]+$/, '');
+    if (trimmed) matches.push({ type, start, end: start + trimmed.length, value: trimmed });
+  };
+
+  for (const match of findAll(AADHAAR_PATTERN, text)) {
+    if (isValidAadhaar(match[0].replace(/\D/g, ''))) add('aadhaar', match.index!, match[0]);
+  }
+  for (const match of findAll(PAN_PATTERN, text)) add('pan', match.index!, match[0]);
+  for (const match of findAll(BANK_ACCOUNT_PATTERN, text)) {
+    const digits = match[1].replace(/\D/g, '');
+    if (digits.length >= 9 && digits.length <= 18) {
+      add('bank_account', match.index! + match[0].lastIndexOf(match[1]), match[1]);
+    }
+  }
+  for (const match of [...findAll(MOBILE_PATTERN, text), ...findAll(LANDLINE_PATTERN, text)]) {
+    const digits = match[0].replace(/\D/g, '');
+    if (digits.length >= 10 && digits.length <= 13) add('phone', match.index!, match[0]);
+  }
+  for (const match of findAll(ADDRESS_LABEL_PATTERN, text)) {
+    const start = match.index! + match[0].length;
+    const value = text.substring(start, addressEnd(text, start));
+    if (looksLikeAddress(value)) add('address', start, value);
+  }
+  for (const match of findAll(ADDRESS_START_PATTERN, text)) {
+    const value = text.substring(match.index!, addressEnd(text, match.index!));
+    if (looksLikeAddress(value)) add('address', match.index!, value);
+  }
+
+  const priority = (type: PiiType) => PII_TYPES.indexOf(type);
+  const sorted = matches.sort((a, b) =>
+    a.start - b.start || (b.end - b.start) - (a.end - a.start) || priority(a.type) - priority(b.type)
+  );
+
+  const result: RedactionMatch[] = [];
+  for (const match of sorted) {
+    const last = result[result.length - 1];
+    if (last && match.start < last.end) {
+      // Prefer the longer span (an address containing a phone number)
+      if (match.end - match.start > last.end - last.start && match.type === 'address') {
+        result[result.length - 1] = match;
+      }
+      continue;
+    }
+    result.push(match);
+  }
+  return result;
+}
+
+// ---- Redactor ----
+
+const normalizeValue = (type: PiiType, value: string) =>
+  type === 'address' ? value.toLowerCase().replace(/[\s,]+/g, ' ').trim()
+    : type === 'pan' ? value.toUpperCase()
+      : value.replace(/\D/g, '').replace(/^(?:91|0)(?=[6-9]\d{9}$)/, '');
+
+export class Redactor {
+  private byKey = new Map<string, RedactionItem>();
+  private byPlaceholder = new Map<string, RedactionItem>();
+  private counters: Record<PiiType, number> = { aadhaar: 0, pan: 0, bank_account: 0, phone: 0, address: 0 };
+
+  /**
+   * Replace every PII value in the text with its placeholder
+   */
+  redact(text: string): string {
+    if (!text) return text;
+
+    let output = '';
+    let position = 0;
+    for (const match of detectPii(text)) {
+      const key = `${match.type}:${normalizeValue(match.type, match.value)}`;
+      let item = this.byKey.get(key);
+      if (!item) {
+        this.counters[match.type] += 1;
+        item = {
+          placeholder: `[${PLACEHOLDER_LABELS[match.type]}_${this.counters[match.type]}]`,
+          type: match.type,
+          value: match.value,
+          occurrences: 0,
+        };
+        this.byKey.set(key, item);
+        this.byPlaceholder.set(item.placeholder, item);
+      }
+      item.occurrences += 1;
+      output += text.substring(position, match.start) + item.placeholder;
+      position = match.end;
+    }
+    return output + text.substring(position);
+  }
+
+  /**
+   * Put the original values back in place of the placeholders
+   */
+  restore(text: string): string {
+    if (!text || this.byPlaceholder.size === 0) return text;
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => this.byPlaceholder.get(placeholder)?.value ?? placeholder);
+  }
+
+  get size(): number {
+    return this.byKey.size;
+  }
+
+  /**
+   * Redacted values with their originals, for the owner's preview only
+   */
+  items(): RedactionItem[] {
+    return [...this.byKey.values()].map((item) => ({ ...item }));
+  }
+
+  audit(): RedactionAudit {
+    const counts = { aadhaar: 0, pan: 0, bank_account: 0, phone: 0, address: 0 };
+    const items = [...this.byKey.values()].map(({ placeholder, type, occurrences }) => {
+      counts[type] += 1;
+      return { placeholder, type, occurrences };
+    });
+    return { total: items.length, counts, items };
+  }
+}
+
+// Tells the model to keep placeholders intact so they can be restored in its answer
+const PLACEHOLDER_INSTRUCTION = `
+
+PRIVACY PLACEHOLDERS:
+Personal details in the text were replaced with placeholders such as [AADHAAR_1], [PAN_1], [PHONE_1], [BANK_ACCOUNT_1] and [ADDRESS_1]. When you refer to one of these details, copy its placeholder exactly, including the square brackets. Never guess the hidden value.`;
+
+/**
+ * Restore placeholders in streamed tokens, holding back a placeholder that is split across tokens
+ */
+async function* restoreTokens(tokens: AsyncGenerator<string>, redactor: Redactor): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const token of tokens) {
+    buffer += token;
+    const open = buffer.lastIndexOf('[');
+    const hold = open !== -1 && buffer.indexOf(']', open) === -1 && buffer.length - open < MAX_PLACEHOLDER_LENGTH
+      ? buffer.substring(open)
+      : '';
+    const ready = buffer.substring(0, buffer.length - hold.length);
+    buffer = hold;
+    if (ready) yield redactor.restore(ready);
+  }
+  if (buffer) yield redactor.restore(buffer);
+}
+
+/**
+ * Wrap a provider so every message is redacted before it is sent and every response is restored.
+ * Callers see the original values; the provider only ever sees placeholders.
+ */
+export function withRedaction(llm: LLMProvider, redactor: Redactor): LLMProvider {
+  const redactOptions = (options: CompletionOptions): CompletionOptions => {
+    const messages = options.messages.map((message) => ({ ...message, content: redactor.redact(message.content) }));
+    if (redactor.size > 0) {
+      const systemIndex = messages.findIndex((message) => message.role === 'system');
+      if (systemIndex !== -1) {
+        messages[systemIndex] = { ...messages[systemIndex], content: messages[systemIndex].content + PLACEHOLDER_INSTRUCTION };
+      }
+    }
+    return { ...options, messages };
+  };
+
+  const restoreResult = (result: CompletionResult): CompletionResult => ({ ...result, content: redactor.restore(result.content) });
+
+  return {
+    name: llm.name,
+    model: llm.model,
+    async complete(options: CompletionOptions): Promise<CompletionResult> {
+      return restoreResult(await llm.complete(redactOptions(options)));
+    },
+    async stream(options: CompletionOptions): Promise<CompletionStream> {
+      const completion = await llm.stream(redactOptions(options));
+      return {
+        tokens: restoreTokens(completion.tokens, redactor),
+        result: () => restoreResult(completion.result()),
+      };
+    },
+  };
+}
+
+/**
+ * Store the per-request audit of what was redacted (placeholders and counts, never the values)
+ */
+export async function recordRedactions(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  feature: string,
+  redactor: Redactor,
+  context: { documentId?: string | null; sessionId?: string | null } = {}
+): Promise<void> {
+  if (redactor.size === 0) return;
+
+  const audit = redactor.audit();
+  console.log(`[redaction] ${feature} redacted ${audit.total} values:`, audit.counts);
+
+  const { error } = await supabaseClient
+    .from('redaction_audits')
+    .insert({
+      user_id: userId,
+      feature,
+      document_id: context.documentId ?? null,
+      session_id: context.sessionId ?? null,
+      total: audit.total,
+      counts: audit.counts,
+      items: audit.items,
+    });
+
+  if (error) {
+    console.warn('[redaction] Could not record redaction audit:', error.message);
+  }
+}
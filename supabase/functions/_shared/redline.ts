@@ -0,0 +1,405 @@
+// Version comparison (redline) between two documents, e.g. a draft agreement and its revision.
+//
+// Both texts are split into clauses and aligned in order; matched clauses get a word-level
+// diff. The alignment and diff are deterministic; the model is only asked to explain the
+// changes it is shown and to say whether each one favours or hurts the user.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { LLMProvider, recordUsage, TokenUsage } from './llm.ts';
+import { LanguageCode, LANGUAGES } from './language.ts';
+
+export type ChangeStatus = 'modified' | 'added' | 'removed' | 'unchanged';
+
+export const CHANGE_IMPACTS = ['favours_user', 'hurts_user', 'neutral', 'unclear'] as const;
+
+export type ChangeImpact = typeof CHANGE_IMPACTS[number];
+
+export interface DiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface ClauseChange {
+  id: string;
+  status: ChangeStatus;
+  heading: string;
+  // Unchanged clauses only keep the revised text
+  base_text: string | null;
+  revised_text: string | null;
+  base_page: number | null;
+  revised_page: number | null;
+  // Word-level redline, only for modified clauses
+  diff: DiffSegment[];
+  // null when the change was not reviewed by the model
+  material: boolean | null;
+  explanation: string;
+  impact: ChangeImpact | null;
+  impact_reason: string;
+}
+
+export interface DocumentComparison {
+  base_document_id: string;
+  base_title: string;
+  revised_title: string;
+  perspective: string | null;
+  changes: ClauseChange[];
+  stats: { modified: number; added: number; removed: number; unchanged: number; material: number };
+  // Changes beyond the review limit, shown in the redline without an explanation
+  unreviewed: number;
+  generated_at: string;
+}
+
+interface DocumentClause {
+  text: string;
+  page: number;
+  words: Set<string>;
+}
+
+const MAX_CLAUSES = 400;
+const MAX_CLAUSE_CHARS = 1200;
+// Clauses less similar than this are treated as one removed and one added clause
+const MATCH_THRESHOLD = 0.35;
+// Word diffs above this many cells fall back to replacing the whole clause
+const MAX_DIFF_CELLS = 250000;
+const MAX_REVIEWED_CHANGES = 40;
+const REVIEW_BATCH_SIZE = 10;
+const REVIEW_TEXT_CHARS = 1500;
+
+type Emit = (event: Record<string, unknown>) => void;
+
+// Numbered clauses and sub-clauses start a new block: "1.", "2.3", "(a)", "(iv)", "Clause 5", "Schedule"
+const CLAUSE_START = /^(?:(?:clause|article|section)\s+\d+|\d+(?:\.\d+)*[.)]?\s|\(?[a-z]\)\s|\(?[ivx]+\)\s|schedule\b|annexure\b)/i;
+// Running page numbers differ between versions and are not part of any clause
+const PAGE_NUMBER_LINE = /^(?:page\s+)?\d+(?:\s*(?:of|\/)\s*\d+)?$/i;
+
+const wordsOf = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+
+/**
+ * Split page texts into clause-sized blocks, keeping the page each block starts on
+ */
+export function splitClauses(pages: string[]): DocumentClause[] {
+  const blocks: { lines: string[]; page: number }[] = [];
+  let current: { lines: string[]; page: number } | null = null;
+
+  const flush = () => {
+    if (current?.lines.length) blocks.push(current);
+    current = null;
+  };
+
+  pages.forEach((pageText, i) => {
+    for (const line of pageText.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        flush();
+        continue;
+      }
+      if (PAGE_NUMBER_LINE.test(trimmed)) continue;
+      if (CLAUSE_START.test(trimmed)) flush();
+      current ??= { lines: [], page: i + 1 };
+      current.lines.push(trimmed);
+    }
+  });
+  flush();
+
+  const clauses: DocumentClause[] = [];
+  let heading = '';
+
+  for (const block of blocks) {
+    const text = block.lines.join(' ').replace(/\s+/g, ' ');
+
+    // A short line on its own ("PAYMENT TERMS") is the heading of the next block
+    if (text.length < 40 && !/[.;:]$/.test(text)) {
+      heading = heading ? `${heading} ${text}` : text;
+      continue;
+    }
+
+    // Text read in the browser has no line breaks; split long blocks at sentence ends
+    const withHeading = heading ? `${heading} ${text}` : text;
+    heading = '';
+    for (const piece of splitSentences(withHeading, MAX_CLAUSE_CHARS)) {
+      clauses.push({ text: piece, page: block.page, words: wordsOf(piece) });
+    }
+  }
+  if (heading) clauses.push({ text: heading, page: pages.length, words: wordsOf(heading) });
+
+  return clauses.slice(0, MAX_CLAUSES);
+}
+
+function splitSentences(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of text.match(/[^.;]+(?:[.;]+|$)\s*/g) ?? [text]) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+
+  return pieces;
+}
+
+// Dice coefficient over the word sets of two clauses
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Order-preserving alignment that maximises the total similarity of matched clauses.
+ * Returns pairs of indexes, with -1 for a clause that has no counterpart.
+ */
+function alignClauses(base: DocumentClause[], revised: DocumentClause[]): [number, number][] {
+  const n = base.length;
+  const m = revised.length;
+  const score: Float64Array[] = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+  const sims: Float64Array[] = Array.from({ length: n }, () => new Float64Array(m));
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const sim = similarity(base[i - 1].words, revised[j - 1].words);
+      sims[i - 1][j - 1] = sim;
+      score[i][j] = Math.max(
+        score[i - 1][j],
+        score[i][j - 1],
+        sim >= MATCH_THRESHOLD ? score[i - 1][j - 1] + sim : -Infinity,
+      );
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && sims[i - 1][j - 1] >= MATCH_THRESHOLD && score[i][j] === score[i - 1][j - 1] + sims[i - 1][j - 1]) {
+      pairs.push([i - 1, j - 1]);
+      i--;
+      j--;
+    } else if (i > 0 && (j === 0 || score[i][j] === score[i - 1][j])) {
+      pairs.push([i - 1, -1]);
+      i--;
+    } else {
+      pairs.push([-1, j - 1]);
+      j--;
+    }
+  }
+
+  return pairs.reverse();
+}
+
+/**
+ * Word-level diff of two clause texts (longest common subsequence)
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ op: 'delete', text: before }, { op: 'insert', text: after }];
+  }
+
+  const lcs: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (op: DiffSegment['op'], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.op === op) last.text += ` ${word}`;
+    else segments.push({ op, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // Deleted words come before the words that replace them, as in a printed redline
+      push('delete', a[i]);
+      i++;
+    } else {
+      push('insert', b[j]);
+      j++;
+    }
+  }
+
+  return segments;
+}
+
+const headingOf = (text: string) =>
+  text.length <= 80 ? text : `${text.substring(0, 77).replace(/\s+\S*$/, '')}...`;
+
+const reviewPrompt = (perspective: string | null, language: LanguageCode) => `You are a contract lawyer in India explaining the changes between two versions of an agreement to an ordinary person.
+
+The user is: ${perspective || 'the person who received the revised version and has to decide whether to accept it'}.
+
+You will be given a list of changes, each with an id, the ORIGINAL text and the REVISED text. Return ONLY a valid JSON object:
+{
+  "changes": [
+    {
+      "id": "the id exactly as given",
+      "material": true,
+      "explanation": "What changed, in one or two plain sentences",
+      "impact": "${CHANGE_IMPACTS.join(' | ')}",
+      "impact_reason": "Why this favours or hurts the user, in one sentence"
+    }
+  ]
+}
+
+RULES:
+- Include every id you were given, once
+- "material" is false for renumbering, formatting, typo fixes and rewording that keeps the same meaning; explain those in a few words and use "neutral"
+- Judge "impact" from the user's side only: money, deadlines, notice periods, liability, rights and obligations
+- Use "unclear" when it depends on facts you do not have
+- Never invent text that is not in the ORIGINAL or REVISED text
+- No markdown, no explanations outside the JSON${language !== 'en' ? `
+- Write "explanation" and "impact_reason" in ${LANGUAGES[language].name} (${LANGUAGES[language].nativeName}); keep legal terms, amounts and dates as in the document` : ''}`;
+
+const asText = (value: unknown, maxLength: number): string =>
+  typeof value === 'string' ? value.trim().substring(0, maxLength) : '';
+
+const truncate = (text: string | null) =>
+  !text ? '(none)' : text.length > REVIEW_TEXT_CHARS ? `${text.substring(0, REVIEW_TEXT_CHARS)}...` : text;
+
+/**
+ * Apply one batch of the model's review to the changes it was shown; unknown ids are ignored
+ */
+export function applyReview(content: string, changes: ClauseChange[]): boolean {
+  let parsed: { changes?: unknown };
+  try {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content);
+  } catch {
+    return false;
+  }
+  if (!parsed || !Array.isArray(parsed.changes)) return false;
+
+  for (const raw of parsed.changes) {
+    if (!raw || typeof raw !== 'object') continue;
+    const change = changes.find((c) => c.id === raw.id);
+    if (!change || change.material !== null) continue;
+
+    change.material = raw.material !== false;
+    change.explanation = asText(raw.explanation, 600);
+    change.impact = CHANGE_IMPACTS.find((impact) => impact === raw.impact) ?? 'unclear';
+    change.impact_reason = asText(raw.impact_reason, 400);
+  }
+  return true;
+}
+
+/**
+ * Align two versions of a document, build the redline and explain each change
+ */
+export async function compareDocuments(
+  llm: LLMProvider,
+  supabaseClient: SupabaseClient,
+  userId: string,
+  base: { id: string; title: string; pages: string[] },
+  revised: { title: string; pages: string[] },
+  perspective: string | null,
+  language: LanguageCode,
+  emit: Emit
+): Promise<{ comparison: DocumentComparison; model: string; usage: TokenUsage }> {
+  emit({ type: 'progress', stage: 'compare', message: 'Lining up the clauses of both versions' });
+
+  const baseClauses = splitClauses(base.pages);
+  const revisedClauses = splitClauses(revised.pages);
+
+  const changes: ClauseChange[] = alignClauses(baseClauses, revisedClauses).map(([i, j], index) => {
+    const before = i >= 0 ? baseClauses[i] : null;
+    const after = j >= 0 ? revisedClauses[j] : null;
+    const status: ChangeStatus = !before ? 'added' : !after ? 'removed' : before.text === after.text ? 'unchanged' : 'modified';
+
+    return {
+      id: `x${index + 1}`,
+      status,
+      heading: headingOf((after ?? before)!.text),
+      base_text: status === 'unchanged' ? null : before?.text ?? null,
+      revised_text: after?.text ?? null,
+      base_page: before?.page ?? null,
+      revised_page: after?.page ?? null,
+      diff: status === 'modified' ? diffWords(before!.text, after!.text) : [],
+      material: null,
+      explanation: '',
+      impact: null,
+      impact_reason: '',
+    };
+  });
+
+  const changed = changes.filter((change) => change.status !== 'unchanged');
+  const toReview = changed.slice(0, MAX_REVIEWED_CHANGES);
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+  let model = llm.model;
+
+  for (let start = 0; start < toReview.length; start += REVIEW_BATCH_SIZE) {
+    const batch = toReview.slice(start, start + REVIEW_BATCH_SIZE);
+    emit({
+      type: 'progress',
+      stage: 'compare',
+      chunk: start / REVIEW_BATCH_SIZE + 1,
+      total: Math.ceil(toReview.length / REVIEW_BATCH_SIZE),
+      label: `changes ${start + 1}–${start + batch.length} of ${changed.length}`,
+    });
+
+    const result = await llm.complete({
+      feature: 'document-compare',
+      messages: [
+        { role: 'system', content: reviewPrompt(perspective, language) },
+        {
+          role: 'user',
+          content: batch
+            .map((change) => `### ${change.id} (${change.status})\nORIGINAL: ${truncate(change.base_text)}\nREVISED: ${truncate(change.revised_text)}`)
+            .join('\n\n'),
+        },
+      ],
+      maxTokens: 2500,
+      temperature: 0.1,
+    });
+    await recordUsage(supabaseClient, userId, 'document-compare', result);
+    model = result.model;
+    usage = {
+      promptTokens: usage.promptTokens + result.usage.promptTokens,
+      completionTokens: usage.completionTokens + result.usage.completionTokens,
+      totalTokens: usage.totalTokens + result.usage.totalTokens,
+      estimated: usage.estimated || result.usage.estimated,
+    };
+
+    if (!applyReview(result.content, batch)) {
+      console.warn(`Review of ${batch.map((c) => c.id).join(', ')} was not valid JSON`);
+    }
+  }
+
+  const count = (status: ChangeStatus) => changes.filter((change) => change.status === status).length;
+
+  return {
+    comparison: {
+      base_document_id: base.id,
+      base_title: base.title,
+      revised_title: revised.title,
+      perspective,
+      changes,
+      stats: {
+        modified: count('modified'),
+        added: count('added'),
+        removed: count('removed'),
+        unchanged: count('unchanged'),
+        material: changes.filter((change) => change.material).length,
+      },
+      unreviewed: changed.length - toReview.length,
+      generated_at: new Date().toISOString(),
+    },
+    model,
+    usage,
+  };
+}
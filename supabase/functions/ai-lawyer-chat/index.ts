@@ -1,12 +1,38 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ChatMessage, CompletionOptions, estimateTokens, getLLMProvider, recordUsage } from '../_shared/llm.ts';
+import { recordRedactions, Redactor, withRedaction } from '../_shared/redaction.ts';
+import { languageInstruction, resolveLanguage } from '../_shared/language.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Conversation memory: recent turns are sent verbatim, older ones are folded into chat_sessions.summary
+const HISTORY_TOKEN_BUDGET = 3000;
+const RECENT_TURNS_TO_KEEP = 6;
+// Unsummarized turns past this count are summarized even when they fit the token budget, and at
+// most this many are folded into the summary at once
+const MAX_HISTORY_MESSAGES = 40;
+const HISTORY_PAGE_SIZE = 200;
+
+interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+interface LegalSection {
+  act_name: string;
+  act_short_name: string;
+  section_number: string;
+  title: string | null;
+  content: string;
+  source_url: string | null;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -39,13 +65,15 @@ serve(async (req) => {
       throw new Error('Invalid authentication');
     }
 
-    const { message, sessionId, stream } = await req.json();
+    const { message, sessionId, stream, language } = await req.json();
     
     if (!message) {
       throw new Error('Message is required');
     }
 
-    console.log('Processing AI lawyer chat for user:', user.id, 'Stream:', stream);
+    const responseLanguage = await resolveLanguage(supabaseClient, user.id, language);
+
+    console.log('Processing AI lawyer chat for user:', user.id, 'Stream:', stream, 'Language:', responseLanguage);
 
     let currentSessionId = sessionId;
 
@@ -65,6 +93,18 @@ serve(async (req) => {
       }
 
       currentSessionId = newSession.id;
+    } else {
+      // Only the owner of the chat session may continue it
+      const { data: existingSession, error: sessionError } = await supabaseClient
+        .from('chat_sessions')
+        .select('id')
+        .eq('id', currentSessionId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (sessionError || !existingSession) {
+        throw new Error('Chat session not found');
+      }
     }
 
     // Save user message
@@ -80,21 +120,149 @@ serve(async (req) => {
       throw new Error(`User message save error: ${userMessageError.message}`);
     }
 
-    // Get chat history for context
-    const { data: messageHistory, error: historyError } = await supabaseClient
-      .from('chat_messages')
-      .select('role, content')
-      .eq('session_id', currentSessionId)
-      .order('created_at', { ascending: true })
-      .limit(10);
+    // Aadhaar, PAN, phone, bank account numbers and addresses in the chat are hidden from the provider;
+    // one redactor for the whole request so the summary and the answer share placeholders
+    const redactor = new Redactor();
+    const llm = withRedaction(getLLMProvider(), redactor);
+
+    // Load the stored conversation memory for this session
+    const { data: sessionMemory, error: memoryError } = await supabaseClient
+      .from('chat_sessions')
+      .select('summary, summarized_until')
+      .eq('id', currentSessionId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (memoryError) {
+      console.warn('Could not fetch session summary:', memoryError.message);
+    }
+
+    let conversationSummary: string | null = sessionMemory?.summary || null;
+    let summaryUpdatedAt: string | null = null;
+
+    // Get every turn that has not been folded into the summary yet, oldest first and page by page,
+    // so summarized_until never moves past a message that was not read
+    let conversationHistory: HistoryMessage[] = [];
+    for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+      let historyQuery = supabaseClient
+        .from('chat_messages')
+        .select('role, content, created_at')
+        .eq('session_id', currentSessionId)
+        .order('created_at', { ascending: true })
+        .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+      if (sessionMemory?.summarized_until) {
+        historyQuery = historyQuery.gt('created_at', sessionMemory.summarized_until);
+      }
 
-    if (historyError) {
-      console.warn('Could not fetch message history:', historyError.message);
+      const { data: historyPage, error: historyError } = await historyQuery;
+
+      if (historyError) {
+        console.warn('Could not fetch message history:', historyError.message);
+        break;
+      }
+
+      conversationHistory.push(...((historyPage || []) as HistoryMessage[]));
+      if (!historyPage || historyPage.length < HISTORY_PAGE_SIZE) break;
+    }
+
+    // Once the unsummarized turns pass the token budget or the message cap, condense the older ones
+    // into the session summary
+    const historyTokens = conversationHistory.reduce((sum, msg) => sum + estimateTokens(msg.content), 0);
+    if (
+      (historyTokens > HISTORY_TOKEN_BUDGET || conversationHistory.length > MAX_HISTORY_MESSAGES) &&
+      conversationHistory.length > RECENT_TURNS_TO_KEEP
+    ) {
+      const olderTurns = conversationHistory
+        .slice(0, conversationHistory.length - RECENT_TURNS_TO_KEEP)
+        .slice(0, MAX_HISTORY_MESSAGES);
+
+      try {
+        const summaryResult = await llm.complete({
+          feature: 'chat-summary',
+          messages: [
+            {
+              role: 'system',
+              content: `You maintain the running memory of a legal consultation between a user and NyaAI, an AI legal assistant for Indian law.
+
+Update the existing summary with the new conversation turns. Keep:
+- The user's legal issue, goals and questions
+- Facts: parties, relationships, dates, amounts, places, documents
+- Jurisdiction (state, court, forum) when mentioned
+- Laws, sections and advice already given, and steps the user has taken
+- Open questions that still need an answer
+
+Write concise bullet points in plain English, at most 250 words. Do not add facts that are not in the conversation. Return only the updated summary.`
+            },
+            {
+              role: 'user',
+              content: `EXISTING SUMMARY:\n${conversationSummary || '(none yet)'}\n\nNEW TURNS:\n${olderTurns.map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`).join('\n\n')}`
+            }
+          ],
+          maxTokens: 600,
+          temperature: 0.2,
+        });
+
+        await recordUsage(supabaseClient, user.id, 'chat-summary', summaryResult);
+
+        const updatedSummary = summaryResult.content.trim();
+        if (updatedSummary) {
+          summaryUpdatedAt = new Date().toISOString();
+          const { error: summarySaveError } = await supabaseClient
+            .from('chat_sessions')
+            .update({
+              summary: updatedSummary,
+              summarized_until: olderTurns[olderTurns.length - 1].created_at,
+              summary_updated_at: summaryUpdatedAt
+            })
+            .eq('id', currentSessionId)
+            .eq('user_id', user.id);
+
+          if (summarySaveError) {
+            console.warn('Could not save session summary:', summarySaveError.message);
+          }
+
+          conversationSummary = updatedSummary;
+          conversationHistory = conversationHistory.slice(olderTurns.length);
+          console.log('Summarized', olderTurns.length, 'older messages for session:', currentSessionId);
+        }
+      } catch (summaryError) {
+        // Fall back to the recent window, the summary will be retried on the next turn
+        console.warn('Could not summarize conversation:', summaryError instanceof Error ? summaryError.message : summaryError);
+        conversationHistory = conversationHistory.slice(olderTurns.length);
+      }
     }
 
+    // A backlog left by failed summaries is caught up on later turns; this turn sends the latest
+    conversationHistory = conversationHistory.slice(-MAX_HISTORY_MESSAGES);
+
+    // Retrieve matching bare act sections to ground the answer
+    const { data: matchedSections, error: retrievalError } = await supabaseClient
+      .rpc('match_legal_sections', { query_text: message, match_count: 5 });
+
+    if (retrievalError) {
+      console.warn('Could not retrieve legal sections:', retrievalError.message);
+    }
+
+    const citations = ((matchedSections || []) as LegalSection[]).map((section, index) => ({
+      number: index + 1,
+      act: section.act_name,
+      section: section.section_number,
+      title: section.title,
+      excerpt: section.content.length > 600 ? section.content.substring(0, 597) + '...' : section.content,
+      source_url: section.source_url
+    }));
+
+    const sourcesBlock = citations.length > 0
+      ? citations.map((citation) =>
+          `[${citation.number}] ${citation.act}, Section ${citation.section}${citation.title ? ` (${citation.title})` : ''}:\n${citation.excerpt}`
+        ).join('\n\n')
+      : 'No matching statutory text was found in the NyaAI legal corpus for this question.';
+
+    console.log('Retrieved', citations.length, 'legal sections for session:', currentSessionId);
+
     // Prepare conversation history for AI
-    const conversationHistory = messageHistory || [];
-    const messages = [
+    const messages: ChatMessage[] = [
       {
         role: 'system',
         content: `You are NyaAI, an expert AI legal assistant specializing in Indian law and jurisprudence. Your mission is to democratize access to legal knowledge while maintaining the highest standards of accuracy and ethics.
@@ -137,6 +305,7 @@ WHEN TO ESCALATE:
 - High-value financial disputes
 - Cases requiring immediate legal action
 - Matters involving minors or vulnerable persons
+- In these situations, tell the user they can use the "Send to a lawyer" button to share a case brief of this chat with a lawyer
 
 PROHIBITED:
 - Never claim to replace a lawyer
@@ -144,42 +313,43 @@ PROHIBITED:
 - Never make definitive predictions about case outcomes
 - Never request personal identification documents
 
-Remember: Your goal is to empower users with legal knowledge while ensuring they understand when professional representation is essential.`
+Remember: Your goal is to empower users with legal knowledge while ensuring they understand when professional representation is essential.
+
+STATUTORY SOURCES:
+The following sections were retrieved from the bare acts for the user's latest question. They are the only statutory text you may quote or cite.
+
+${sourcesBlock}
+
+CITATION RULES:
+- When you rely on a source above, cite it inline with its number in square brackets, e.g. [1] or [2]
+- Only cite numbers that appear in STATUTORY SOURCES; never invent section numbers or citations
+- If the sources do not cover the question, say so plainly and answer from general principles without citing sections
+${languageInstruction(responseLanguage)}`
       },
+      ...(conversationSummary ? [{
+        role: 'system' as const,
+        content: `CONVERSATION SUMMARY (earlier turns of this consultation, condensed):\n${conversationSummary}`
+      }] : []),
       ...conversationHistory.map(msg => ({
         role: msg.role as 'user' | 'assistant',
         content: msg.content
       }))
     ];
 
-    // Call Groq for AI response
-    const groqResponse = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('GROQ_API_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.3-70b-versatile',
-        messages,
-        max_tokens: 2000,
-        temperature: 0.5,
-        top_p: 0.9,
-        frequency_penalty: 0.3,
-        presence_penalty: 0.2,
-        stream: stream || false,
-      }),
-    });
-
-    if (!groqResponse.ok) {
-      const error = await groqResponse.json();
-      throw new Error(`Groq API error: ${error.error?.message || 'Unknown error'}`);
-    }
+    const completionOptions: CompletionOptions = {
+      feature: 'ai-lawyer-chat',
+      messages,
+      maxTokens: 2000,
+      temperature: 0.5,
+      topP: 0.9,
+      frequencyPenalty: 0.3,
+      presencePenalty: 0.2,
+    };
 
     // Handle streaming response
-    if (stream && groqResponse.body) {
+    if (stream) {
+      const completion = await llm.stream(completionOptions);
       const encoder = new TextEncoder();
-      let fullResponse = '';
 
       const streamResponse = new ReadableStream({
         async start(controller) {
@@ -188,50 +358,41 @@ Remember: Your goal is to empower users with legal knowledge while ensuring they
             const sessionData = `data: ${JSON.stringify({ sessionId: currentSessionId })}\n\n`;
             controller.enqueue(encoder.encode(sessionData));
 
-            const reader = groqResponse.body.getReader();
-            const decoder = new TextDecoder();
-
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-
-              const chunk = decoder.decode(value, { stream: true });
-              const lines = chunk.split('\n');
-
-              for (const line of lines) {
-                if (line.startsWith('data: ')) {
-                  const data = line.slice(6);
-                  
-                  if (data === '[DONE]') {
-                    continue;
-                  }
-
-                  try {
-                    const parsed = JSON.parse(data);
-                    const content = parsed.choices?.[0]?.delta?.content;
-                    
-                    if (content) {
-                      fullResponse += content;
-                      // Send content chunk to client
-                      const streamData = `data: ${JSON.stringify({ content })}\n\n`;
-                      controller.enqueue(encoder.encode(streamData));
-                    }
-                  } catch (e) {
-                    // Ignore JSON parse errors for partial chunks
-                  }
-                }
-              }
+            // Send retrieved citations so the client can render footnotes while streaming
+            const citationData = `data: ${JSON.stringify({ citations })}\n\n`;
+            controller.enqueue(encoder.encode(citationData));
+
+            // Let the client refresh its memory panel when older turns were just condensed
+            if (summaryUpdatedAt) {
+              const summaryData = `data: ${JSON.stringify({ summary: conversationSummary, summaryUpdatedAt })}\n\n`;
+              controller.enqueue(encoder.encode(summaryData));
+            }
+
+            for await (const content of completion.tokens) {
+              // Send content chunk to client
+              const streamData = `data: ${JSON.stringify({ content })}\n\n`;
+              controller.enqueue(encoder.encode(streamData));
             }
 
+            const result = completion.result();
+
             // Save complete AI response to database
             await supabaseClient
               .from('chat_messages')
               .insert({
                 session_id: currentSessionId,
                 role: 'assistant',
-                content: fullResponse
+                content: result.content,
+                citations
               });
 
+            await recordUsage(supabaseClient, user.id, 'ai-lawyer-chat', result);
+            await recordRedactions(supabaseClient, user.id, 'ai-lawyer-chat', redactor, { sessionId: currentSessionId });
+
+            if (redactor.size > 0) {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ redaction: redactor.audit() })}\n\n`));
+            }
+
             // Send done signal
             controller.enqueue(encoder.encode('data: [DONE]\n\n'));
             controller.close();
@@ -253,8 +414,8 @@ Remember: Your goal is to empower users with legal knowledge while ensuring they
     }
 
     // Non-streaming response (fallback)
-    const aiResult = await groqResponse.json();
-    const aiResponse = aiResult.choices[0].message.content;
+    const result = await llm.complete(completionOptions);
+    const aiResponse = result.content;
 
     // Save AI response
     const { error: aiMessageError } = await supabaseClient
@@ -262,18 +423,26 @@ Remember: Your goal is to empower users with legal knowledge while ensuring they
       .insert({
         session_id: currentSessionId,
         role: 'assistant',
-        content: aiResponse
+        content: aiResponse,
+        citations
       });
 
     if (aiMessageError) {
       throw new Error(`AI message save error: ${aiMessageError.message}`);
     }
 
+    await recordUsage(supabaseClient, user.id, 'ai-lawyer-chat', result);
+    await recordRedactions(supabaseClient, user.id, 'ai-lawyer-chat', redactor, { sessionId: currentSessionId });
+
     console.log('AI lawyer chat completed for session:', currentSessionId);
 
     return new Response(JSON.stringify({ 
       success: true, 
       response: aiResponse,
+      citations,
+      summary: conversationSummary,
+      usage: result.usage,
+      redaction: redactor.audit(),
       sessionId: currentSessionId
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,284 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getLLMProvider, recordUsage } from '../_shared/llm.ts';
+import { recordRedactions, Redactor, withRedaction } from '../_shared/redaction.ts';
+import { languageInstruction, resolveLanguage } from '../_shared/language.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SPECIALIZATIONS = [
+  'Civil Law',
+  'Criminal Law',
+  'Corporate Law',
+  'Family Law',
+  'Property Law',
+  'Labour Law',
+  'Tax Law',
+  'Intellectual Property',
+  'Constitutional Law',
+  'Consumer Law',
+  'Cyber Law'
+];
+
+const URGENCY_LEVELS = ['low', 'medium', 'high', 'urgent'];
+
+const MAX_TRANSCRIPT_MESSAGES = 200;
+const MAX_SUGGESTED_LAWYERS = 5;
+
+interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+interface LawyerProfileRow {
+  user_id: string;
+  specialization: string | null;
+  experience_years: number | null;
+  bio: string | null;
+}
+
+interface ProfileRow {
+  user_id: string;
+  name: string | null;
+  avatar_url: string | null;
+  location: string | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    // Create client with service role for database operations (bypasses RLS)
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // Create client with anon key for auth verification
+    const supabaseAuth = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { sessionId, language } = await req.json();
+
+    if (!sessionId) {
+      throw new Error('Missing required field: sessionId');
+    }
+
+    const responseLanguage = await resolveLanguage(supabaseClient, user.id, language);
+
+    console.log('Building case brief for session:', sessionId, 'user:', user.id);
+
+    // Only the owner of the chat session may escalate it
+    const { data: session, error: sessionError } = await supabaseClient
+      .from('chat_sessions')
+      .select('id, title, summary, created_at')
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (sessionError || !session) {
+      throw new Error('Chat session not found');
+    }
+
+    const { data: messageRows, error: messagesError } = await supabaseClient
+      .from('chat_messages')
+      .select('role, content, created_at')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true })
+      .limit(MAX_TRANSCRIPT_MESSAGES);
+
+    if (messagesError) {
+      throw new Error(`Transcript error: ${messagesError.message}`);
+    }
+
+    const transcriptMessages = (messageRows || []) as TranscriptMessage[];
+    if (transcriptMessages.length === 0) {
+      throw new Error('This chat has no messages to send to a lawyer');
+    }
+
+    const transcript = [
+      `NyaAI consultation: ${session.title}`,
+      `Started: ${new Date(session.created_at).toLocaleString('en-IN')}`,
+      '',
+      ...transcriptMessages.map(msg =>
+        `[${new Date(msg.created_at).toLocaleString('en-IN')}] ${msg.role === 'user' ? 'Client' : 'NyaAI'}:\n${msg.content}\n`
+      )
+    ].join('\n');
+
+    // Aadhaar, PAN, phone, bank account numbers and addresses in the summary and transcript are
+    // hidden from the provider and put back in the brief
+    const redactor = new Redactor();
+    const llm = withRedaction(getLLMProvider(), redactor);
+
+    // Ask the LLM for a structured brief, only the client's side of the chat carries facts
+    const aiResult = await llm.complete({
+      feature: 'case-brief',
+      messages: [
+        {
+          role: 'system',
+          content: `You prepare case briefs for Indian lawyers from a client's conversation with an AI legal assistant.
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "title": "Short case title, max 80 characters",
+  "issue": "One or two sentences describing the client's legal issue",
+  "facts": ["Material fact stated by the client", "..."],
+  "jurisdiction": "State / city / court or forum mentioned, or 'Not specified'",
+  "urgency": "low | medium | high | urgent",
+  "urgency_reason": "Why this urgency level, e.g. limitation period, arrest risk, minors involved",
+  "specialization": "One of: ${SPECIALIZATIONS.join(', ')}"
+}
+
+RULES:
+- Use only facts the client stated; never invent names, dates or amounts
+- Mark urgency "urgent" for arrests, violence, threats to safety, minors at risk, or deadlines within days
+- Keep facts to at most 8 short bullet-style strings
+- No markdown, no explanations outside the JSON${responseLanguage !== 'en' ? `
+- Keep the JSON keys and the urgency and specialization values in English
+${languageInstruction(responseLanguage)}` : ''}`
+        },
+        {
+          role: 'user',
+          content: `${session.summary ? `EARLIER CONVERSATION SUMMARY:\n${session.summary}\n\n` : ''}TRANSCRIPT:\n${transcript}`
+        }
+      ],
+      maxTokens: 1000,
+      temperature: 0.2,
+    }).catch((llmError) => {
+      console.error('LLM API error:', llmError);
+      throw new Error(`AI service error: ${llmError instanceof Error ? llmError.message : String(llmError)}`);
+    });
+
+    await recordUsage(supabaseClient, user.id, 'case-brief', aiResult);
+    await recordRedactions(supabaseClient, user.id, 'case-brief', redactor, { sessionId });
+
+    let parsedBrief;
+    try {
+      const jsonMatch = aiResult.content.match(/\{[\s\S]*\}/);
+      parsedBrief = JSON.parse(jsonMatch ? jsonMatch[0] : aiResult.content);
+    } catch (parseError) {
+      console.error('Failed to parse case brief:', parseError);
+      throw new Error('Failed to generate case brief. Please try again.');
+    }
+
+    const specialization = SPECIALIZATIONS.find(
+      s => s.toLowerCase() === String(parsedBrief.specialization || '').toLowerCase()
+    ) || 'Civil Law';
+
+    const brief = {
+      title: String(parsedBrief.title || session.title).substring(0, 80),
+      issue: String(parsedBrief.issue || ''),
+      facts: Array.isArray(parsedBrief.facts) ? parsedBrief.facts.map(String).slice(0, 8) : [],
+      jurisdiction: String(parsedBrief.jurisdiction || 'Not specified'),
+      urgency: URGENCY_LEVELS.includes(parsedBrief.urgency) ? parsedBrief.urgency : 'medium',
+      urgency_reason: String(parsedBrief.urgency_reason || ''),
+      specialization,
+      source_session_id: sessionId,
+      generated_at: new Date().toISOString()
+    };
+
+    // Stored so send-message attaches this exact brief to the case request
+    const { data: storedBrief, error: storeError } = await supabaseClient
+      .from('case_briefs')
+      .insert({ user_id: user.id, session_id: sessionId, brief })
+      .select('id')
+      .single();
+
+    if (storeError || !storedBrief) {
+      throw new Error(`Could not save case brief: ${storeError?.message ?? 'unknown error'}`);
+    }
+
+    // Suggest available lawyers for the brief's specialization, most experienced first
+    const { data: matchedLawyers, error: lawyersError } = await supabaseClient
+      .from('lawyer_profiles')
+      .select('user_id, specialization, experience_years, bio')
+      .eq('availability', true)
+      .ilike('specialization', `%${specialization}%`)
+      .order('experience_years', { ascending: false })
+      .limit(MAX_SUGGESTED_LAWYERS);
+
+    if (lawyersError) {
+      console.warn('Could not fetch matching lawyers:', lawyersError.message);
+    }
+
+    let lawyerRows = (matchedLawyers || []) as LawyerProfileRow[];
+
+    // Fall back to any available lawyer so the client can still escalate
+    if (lawyerRows.length === 0) {
+      const { data: anyLawyers } = await supabaseClient
+        .from('lawyer_profiles')
+        .select('user_id, specialization, experience_years, bio')
+        .eq('availability', true)
+        .order('experience_years', { ascending: false })
+        .limit(MAX_SUGGESTED_LAWYERS);
+
+      lawyerRows = (anyLawyers || []) as LawyerProfileRow[];
+    }
+
+    const { data: profileRows } = lawyerRows.length > 0
+      ? await supabaseClient
+          .from('profiles')
+          .select('user_id, name, avatar_url, location')
+          .in('user_id', lawyerRows.map(l => l.user_id))
+      : { data: [] };
+
+    const profilesMap = new Map(((profileRows || []) as ProfileRow[]).map(p => [p.user_id, p]));
+
+    const lawyers = lawyerRows.map(lawyer => {
+      const profile = profilesMap.get(lawyer.user_id);
+      return {
+        user_id: lawyer.user_id,
+        name: profile?.name || 'Unknown',
+        avatar_url: profile?.avatar_url || null,
+        location: profile?.location || '',
+        specialization: lawyer.specialization || '',
+        experience_years: lawyer.experience_years || 0,
+        bio: lawyer.bio || '',
+        matches_specialization: (lawyer.specialization || '').toLowerCase().includes(specialization.toLowerCase())
+      };
+    });
+
+    console.log('Case brief ready for session:', sessionId, 'suggested lawyers:', lawyers.length);
+
+    return new Response(JSON.stringify({
+      success: true,
+      briefId: storedBrief.id,
+      brief,
+      lawyers,
+      transcript
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in case-brief:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,209 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { EmailMessage, getSmtpConfig, sendEmails, textToHtml } from '../_shared/email.ts';
+
+// Called hourly by pg_cron + pg_net (see README) with the x-cron-secret header. Finds confirmed
+// consultations starting within the next day that have not been reminded yet, writes a
+// notification for the client and the lawyer, emails both when SMTP is configured and marks the
+// appointment reminded. Rescheduling clears the mark, so a moved appointment is reminded again.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const MODE_LABELS: Record<string, string> = {
+  in_person: 'In person',
+  phone: 'Phone call',
+  video: 'Video call',
+};
+
+interface AppointmentRow {
+  id: string;
+  lawyer_id: string;
+  client_id: string;
+  starts_at: string;
+  ends_at: string;
+  mode: string;
+  notes: string | null;
+}
+
+interface NewNotification {
+  user_id: string;
+  kind: 'appointment_reminder';
+  appointment_id: string;
+  title: string;
+  body: string;
+  link: string;
+}
+
+// Start time in India, as the notify_appointment notifications show it
+const formatStart = (startsAt: string) =>
+  new Date(startsAt).toLocaleString('en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'Asia/Kolkata',
+  }) + ' IST';
+
+function reminderEmail(to: string, appointment: AppointmentRow, otherName: string, forLawyer: boolean): EmailMessage {
+  const siteUrl = (Deno.env.get('SITE_URL') ?? '').replace(/\/$/, '');
+  const mode = MODE_LABELS[appointment.mode] ?? appointment.mode;
+
+  const sections = [
+    'Hello,',
+    `This is a reminder of your consultation on NyaAI:\n${formatStart(appointment.starts_at)}\n${mode} with ${otherName}`,
+  ];
+  if (forLawyer && appointment.notes) {
+    sections.push(`The client would like to discuss:\n${appointment.notes}`);
+  }
+  sections.push(
+    forLawyer
+      ? `See your appointments: ${siteUrl}/lawyer-dashboard`
+      : `Need to move or cancel it? You can do so from your dashboard up to 12 hours before it starts: ${siteUrl}/dashboard`
+  );
+
+  const text = sections.join('\n\n');
+  return {
+    to,
+    subject: `Reminder: ${mode.toLowerCase()} consultation ${formatStart(appointment.starts_at)}`,
+    text,
+    html: textToHtml(text),
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const now = Date.now();
+    const { data: appointmentRows, error: appointmentsError } = await supabaseAdmin
+      .from('appointments')
+      .select('id, lawyer_id, client_id, starts_at, ends_at, mode, notes')
+      .eq('status', 'confirmed')
+      .is('reminded_at', null)
+      .gt('starts_at', new Date(now).toISOString())
+      .lte('starts_at', new Date(now + REMINDER_WINDOW_MS).toISOString())
+      .order('starts_at', { ascending: true });
+
+    if (appointmentsError) {
+      throw new Error(`Could not load appointments: ${appointmentsError.message}`);
+    }
+
+    const appointments = (appointmentRows ?? []) as AppointmentRow[];
+    if (appointments.length === 0) {
+      return new Response(JSON.stringify({ success: true, reminded: 0, notified: 0, emailed: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const userIds = [...new Set(appointments.flatMap((appointment) => [appointment.lawyer_id, appointment.client_id]))];
+    const { data: profileRows, error: profilesError } = await supabaseAdmin
+      .from('profiles')
+      .select('user_id, name, email')
+      .in('user_id', userIds);
+
+    if (profilesError) {
+      throw new Error(`Could not load profiles: ${profilesError.message}`);
+    }
+
+    const profiles = new Map(
+      ((profileRows ?? []) as { user_id: string; name: string; email: string }[]).map((profile) => [profile.user_id, profile])
+    );
+    const nameOf = (userId: string, fallback: string) => profiles.get(userId)?.name || fallback;
+
+    const notifications: NewNotification[] = appointments.flatMap((appointment) => {
+      const when = formatStart(appointment.starts_at);
+      const mode = MODE_LABELS[appointment.mode] ?? appointment.mode;
+      return [
+        {
+          user_id: appointment.client_id,
+          kind: 'appointment_reminder' as const,
+          appointment_id: appointment.id,
+          title: 'Consultation coming up',
+          body: `${when} · ${mode} with ${nameOf(appointment.lawyer_id, 'your lawyer')}`,
+          link: '/dashboard',
+        },
+        {
+          user_id: appointment.lawyer_id,
+          kind: 'appointment_reminder' as const,
+          appointment_id: appointment.id,
+          title: 'Consultation coming up',
+          body: `${when} · ${mode} with ${nameOf(appointment.client_id, 'your client')}`,
+          link: '/lawyer-dashboard',
+        },
+      ];
+    });
+
+    const { error: insertError } = await supabaseAdmin.from('notifications').insert(notifications);
+    if (insertError) {
+      throw new Error(`Could not save notifications: ${insertError.message}`);
+    }
+
+    // Marked straight after the notifications so a failed email run does not remind twice
+    const { error: remindedError } = await supabaseAdmin
+      .from('appointments')
+      .update({ reminded_at: new Date().toISOString() })
+      .in('id', appointments.map((appointment) => appointment.id));
+    if (remindedError) {
+      throw new Error(`Could not record reminders: ${remindedError.message}`);
+    }
+
+    console.log(`Consultation reminders: ${appointments.length} appointments, ${notifications.length} notifications`);
+
+    let emailed = 0;
+    const smtp = getSmtpConfig();
+    if (!smtp) {
+      console.warn('SMTP is not configured; skipping consultation reminder emails');
+    } else {
+      const messages: EmailMessage[] = [];
+      for (const appointment of appointments) {
+        const client = profiles.get(appointment.client_id);
+        const lawyer = profiles.get(appointment.lawyer_id);
+        if (client?.email) {
+          messages.push(reminderEmail(client.email, appointment, nameOf(appointment.lawyer_id, 'your lawyer'), false));
+        }
+        if (lawyer?.email) {
+          messages.push(reminderEmail(lawyer.email, appointment, nameOf(appointment.client_id, 'your client'), true));
+        }
+      }
+      emailed = (await sendEmails(smtp, messages)).length;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      reminded: appointments.length,
+      notified: notifications.length,
+      emailed,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in consultation-reminders:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,316 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ChatMessage, CompletionOptions, getLLMProvider, recordUsage } from '../_shared/llm.ts';
+import { recordRedactions, Redactor, withRedaction } from '../_shared/redaction.ts';
+import { languageInstruction, resolveLanguage } from '../_shared/language.ts';
+import { chunkPages, splitPages } from '../_shared/documents.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Passages are small so a handful of them fit in one prompt
+const RETRIEVAL_CHUNK_CHARS = 1500;
+const MATCH_COUNT = 5;
+const HISTORY_MESSAGES = 8;
+const EXCERPT_CHARS = 600;
+
+interface DocumentChunkRow {
+  chunk_index: number;
+  start_page: number;
+  end_page: number;
+  content: string;
+}
+
+interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// [Page N] markers are for the model; citations show the page range instead
+const stripPageMarkers = (text: string) => text.replace(/^\[Page \d+(?:, continued)?\]\n?/gm, '').trim();
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    // Create client with service role for database operations (bypasses RLS)
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // Create client with anon key for auth verification
+    const supabaseAuth = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { documentId, message, stream, language } = await req.json();
+
+    if (!documentId || !message) {
+      throw new Error('documentId and message are required');
+    }
+
+    // Only the owner of the document may ask about it
+    const { data: document, error: documentError } = await supabaseClient
+      .from('documents')
+      .select('id, title, content, page_count')
+      .eq('id', documentId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (documentError || !document) {
+      throw new Error('Document not found');
+    }
+    if (!document.content?.trim()) {
+      throw new Error('This document has no extracted text yet');
+    }
+
+    const responseLanguage = await resolveLanguage(supabaseClient, user.id, language);
+
+    console.log('Document Q&A for user:', user.id, 'Document:', documentId, 'Stream:', stream);
+
+    // Build the retrieval index on first use; it is cleared whenever the document text changes
+    const { count: chunkCount } = await supabaseClient
+      .from('document_chunks')
+      .select('id', { count: 'exact', head: true })
+      .eq('document_id', documentId);
+
+    if (!chunkCount) {
+      const chunks = chunkPages(splitPages(document.content), RETRIEVAL_CHUNK_CHARS);
+      const { error: indexError } = await supabaseClient
+        .from('document_chunks')
+        .upsert(
+          chunks.map((chunk) => ({
+            document_id: documentId,
+            user_id: user.id,
+            chunk_index: chunk.index,
+            start_page: chunk.startPage,
+            end_page: chunk.endPage,
+            content: chunk.text,
+          })),
+          { onConflict: 'document_id,chunk_index', ignoreDuplicates: true }
+        );
+
+      if (indexError) {
+        throw new Error(`Could not index document: ${indexError.message}`);
+      }
+      console.log('Indexed', chunks.length, 'chunks for document:', documentId);
+    }
+
+    // Recent Q&A turns give follow-up questions their context
+    const { data: historyRows, error: historyError } = await supabaseClient
+      .from('document_qa_messages')
+      .select('role, content')
+      .eq('document_id', documentId)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_MESSAGES);
+
+    if (historyError) {
+      console.warn('Could not fetch Q&A history:', historyError.message);
+    }
+
+    const history = ((historyRows || []) as HistoryMessage[]).reverse();
+
+    const { error: userMessageError } = await supabaseClient
+      .from('document_qa_messages')
+      .insert({
+        document_id: documentId,
+        user_id: user.id,
+        role: 'user',
+        content: message
+      });
+
+    if (userMessageError) {
+      throw new Error(`User message save error: ${userMessageError.message}`);
+    }
+
+    // Retrieve the passages that best match the question
+    const { data: matchedChunks, error: retrievalError } = await supabaseClient
+      .rpc('match_document_chunks', { target_document_id: documentId, query_text: message, match_count: MATCH_COUNT });
+
+    if (retrievalError) {
+      console.warn('Could not retrieve document chunks:', retrievalError.message);
+    }
+
+    let passages = (matchedChunks || []) as DocumentChunkRow[];
+
+    // General questions ("what is this document about?") match nothing specific; use the opening passages
+    if (passages.length === 0) {
+      const { data: openingChunks } = await supabaseClient
+        .from('document_chunks')
+        .select('chunk_index, start_page, end_page, content')
+        .eq('document_id', documentId)
+        .order('chunk_index', { ascending: true })
+        .limit(3);
+
+      passages = (openingChunks || []) as DocumentChunkRow[];
+    }
+
+    const citations = passages.map((passage, index) => {
+      const excerpt = stripPageMarkers(passage.content);
+      return {
+        number: index + 1,
+        start_page: passage.start_page,
+        end_page: passage.end_page,
+        excerpt: excerpt.length > EXCERPT_CHARS ? excerpt.substring(0, EXCERPT_CHARS - 3) + '...' : excerpt
+      };
+    });
+
+    const pageLabel = (citation: { start_page: number; end_page: number }) =>
+      citation.start_page === citation.end_page ? `Page ${citation.start_page}` : `Pages ${citation.start_page}–${citation.end_page}`;
+
+    const passagesBlock = passages.length > 0
+      ? passages.map((passage, index) => `[${index + 1}] ${pageLabel(passage)}:\n${passage.content}`).join('\n\n')
+      : 'No passages were found in this document.';
+
+    console.log('Retrieved', passages.length, 'passages for document:', documentId);
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are NyaAI, answering questions about one legal document the user uploaded: "${document.title}"${document.page_count ? ` (${document.page_count} pages)` : ''}.
+
+DOCUMENT PASSAGES:
+The following passages were retrieved from the document for the user's latest question. They are the only source you may use.
+
+${passagesBlock}
+
+ANSWER RULES:
+- Answer only from the passages above, in plain language the user can understand
+- Cite the passage you rely on inline with its number in square brackets, e.g. [1] or [2]; only cite numbers listed above
+- Quote the exact words of the document for key terms such as notice periods, amounts and deadlines
+- If the passages do not answer the question, say that you could not find it in this document and suggest what to look for; never guess or use outside knowledge about what the document "usually" says
+- You may briefly explain what a term generally means under Indian law, but say clearly that this is general information, not from the document
+- Keep answers short: a direct answer first, then supporting detail
+${languageInstruction(responseLanguage)}`
+      },
+      ...history.map(msg => ({
+        role: msg.role,
+        content: msg.content
+      })),
+      { role: 'user', content: message }
+    ];
+
+    // Passages and questions go to the provider with personal details replaced by placeholders
+    const redactor = new Redactor();
+    const llm = withRedaction(getLLMProvider(), redactor);
+    const completionOptions: CompletionOptions = {
+      feature: 'document-qa',
+      messages,
+      maxTokens: 1200,
+      temperature: 0.2,
+    };
+
+    if (stream) {
+      const completion = await llm.stream(completionOptions);
+      const encoder = new TextEncoder();
+
+      const streamResponse = new ReadableStream({
+        async start(controller) {
+          try {
+            // Send retrieved passages so the client can render page citations while streaming
+            const citationData = `data: ${JSON.stringify({ citations })}\n\n`;
+            controller.enqueue(encoder.encode(citationData));
+
+            for await (const content of completion.tokens) {
+              const streamData = `data: ${JSON.stringify({ content })}\n\n`;
+              controller.enqueue(encoder.encode(streamData));
+            }
+
+            const result = completion.result();
+
+            await supabaseClient
+              .from('document_qa_messages')
+              .insert({
+                document_id: documentId,
+                user_id: user.id,
+                role: 'assistant',
+                content: result.content,
+                citations
+              });
+
+            await recordUsage(supabaseClient, user.id, 'document-qa', result);
+            await recordRedactions(supabaseClient, user.id, 'document-qa', redactor, { documentId });
+
+            if (redactor.size > 0) {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ redaction: redactor.audit() })}\n\n`));
+            }
+
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+          } catch (error) {
+            console.error('Streaming error:', error);
+            controller.error(error);
+          }
+        }
+      });
+
+      return new Response(streamResponse, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
+      });
+    }
+
+    // Non-streaming response (fallback)
+    const result = await llm.complete(completionOptions);
+
+    const { error: answerError } = await supabaseClient
+      .from('document_qa_messages')
+      .insert({
+        document_id: documentId,
+        user_id: user.id,
+        role: 'assistant',
+        content: result.content,
+        citations
+      });
+
+    if (answerError) {
+      throw new Error(`AI message save error: ${answerError.message}`);
+    }
+
+    await recordUsage(supabaseClient, user.id, 'document-qa', result);
+    await recordRedactions(supabaseClient, user.id, 'document-qa', redactor, { documentId });
+
+    return new Response(JSON.stringify({
+      success: true,
+      response: result.content,
+      redaction: redactor.audit(),
+      citations,
+      usage: result.usage
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in document-qa:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
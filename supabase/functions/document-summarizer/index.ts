@@ -1,76 +1,68 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { CompletionResult, getLLMProvider, LLMError, LLMProvider, recordUsage, TokenUsage } from '../_shared/llm.ts';
+import { LanguageCode, languageInstruction, resolveLanguage } from '../_shared/language.ts';
+import {
+  DOCUMENTS_BUCKET,
+  DocumentChunk,
+  DocumentExtractionError,
+  ExtractedDocument,
+  MAX_DOCUMENT_BYTES,
+  chunkPages,
+  detectDocumentKind,
+  extractDocumentText,
+  formatPageRanges,
+  mimeTypeFor,
+  splitPages,
+} from '../_shared/documents.ts';
+import { analyzeClauses } from '../_shared/clauses.ts';
+import { DeadlineAnalysis, extractDeadlines } from '../_shared/deadlines.ts';
+import { compareDocuments } from '../_shared/redline.ts';
+import { recordRedactions, Redactor, withRedaction } from '../_shared/redaction.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('No authorization header');
-    }
+// Documents up to this many characters are summarized in a single call
+const SINGLE_PASS_CHARS = 30000;
+// Longer documents are split into chunks of this size for the map pass
+const CHUNK_CHARS = 12000;
+// Beyond this many chunks the remaining pages are reported as not covered
+const MAX_CHUNKS = 40;
+const NOTES_MAX_TOKENS = 900;
 
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
+const DOCUMENT_FIELDS = 'id, title, file_name, status, page_count, extraction_method, ocr_pages, summary_coverage';
+// Redacted text returned with a redaction preview
+const REDACTION_PREVIEW_CHARS = 8000;
 
-    // Get user from JWT
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
-    
-    if (authError || !user) {
-      throw new Error('Invalid authentication');
-    }
+// Storage object names: keep letters, digits, dot, dash and underscore
+const safeFileName = (name: string) => name.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-120) || 'document';
 
-    const requestBody = await req.json();
-    console.log('Received request body keys:', Object.keys(requestBody));
-    
-    const { pdf_base64 } = requestBody;
-    
-    if (!pdf_base64) {
-      throw new Error('PDF base64 content is required');
-    }
+type ProgressEvent = Record<string, unknown>;
+type Emit = (event: ProgressEvent) => void;
 
-    console.log('Processing document summarization for user:', user.id);
-    console.log('Base64 length:', pdf_base64.length);
-
-    // Decode base64 to get PDF text (simplified for testing - assumes text extraction done client-side)
-    // In production, you'd use a PDF parsing library here
-    let documentText = '';
-    try {
-      // For now, we'll assume the PDF content is passed as text or use a placeholder
-      // In production, integrate with pdf-parse or similar
-      documentText = atob(pdf_base64).substring(0, 30000); // Limit to ~30K chars for context
-    } catch (e) {
-      console.log('Using base64 directly as text representation');
-      documentText = pdf_base64.substring(0, 30000);
-    }
+interface SummaryCoverage {
+  strategy: 'single-pass' | 'map-reduce';
+  // 'section' when the file has no page structure (e.g. a plain text file)
+  unit: 'page' | 'section';
+  total: number;
+  covered: string;
+  not_covered: string;
+  empty: string;
+  chunks: number;
+}
 
-    console.log('Calling Groq API for legal document summarization...');
+interface SummaryResult {
+  summary: string;
+  coverage: SummaryCoverage;
+  model: string;
+  usage: TokenUsage;
+}
 
-    // Call Groq API with comprehensive legal document prompt
-    const groqResponse = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('GROQ_API_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.3-70b-versatile',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert legal document analyzer with years of experience in breaking down complex legal documents into simple, understandable summaries for everyday people.
+const summaryPrompt = (responseLanguage: LanguageCode) => `You are an expert legal document analyzer with years of experience in breaking down complex legal documents into simple, understandable summaries for everyday people.
 
 Your task is to analyze legal documents and provide comprehensive summaries in plain, layman's language that anyone can understand - no legal jargon or complex terminology.
 
@@ -138,63 +130,776 @@ STRUCTURE YOUR SUMMARY AS FOLLOWS:
 • Should you be concerned about anything?
 • Recommended next steps or actions
 
-Remember: Assume the reader has ZERO legal knowledge. Explain everything clearly!`
-          },
-          {
-            role: 'user',
-            content: `Please analyze this legal document and provide a comprehensive summary following the structure outlined. Make sure to cover ALL important points and explain everything in simple, everyday language:\n\n${documentText}`
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.3,
-      }),
+Remember: Assume the reader has ZERO legal knowledge. Explain everything clearly!
+${languageInstruction(responseLanguage)}${responseLanguage !== 'en' ? '\n- Keep the emoji section markers (📄, ⚖️, 💰 ...) at the start of each heading' : ''}`;
+
+// Map pass: notes are always in English, the final summary is written in the user's language
+const NOTES_PROMPT = `You are reading one part of a longer legal document. Extract notes that will later be merged with notes from the other parts into a full summary.
+
+Record, as short bullet points:
+- Document type, parties and their roles
+- Obligations and rights of each party
+- Amounts, fees, rent, deposits, penalties and payment schedules
+- Dates, deadlines, durations and notice periods
+- Termination, breach and dispute resolution terms
+- For criminal or court documents: the accused, sections charged, allegations, evidence and witnesses
+- Unusual, one-sided or risky clauses
+
+RULES:
+- Write in English, in plain language
+- When the text has [Page N] markers, end each bullet with the page it came from, e.g. (p. 12)
+- Copy names, amounts, dates and section numbers exactly
+- Do not invent anything; if this part has nothing of legal significance, reply "No significant content."`;
+
+const addUsage = (total: TokenUsage, result: CompletionResult): TokenUsage => ({
+  promptTokens: total.promptTokens + result.usage.promptTokens,
+  completionTokens: total.completionTokens + result.usage.completionTokens,
+  totalTokens: total.totalTokens + result.usage.totalTokens,
+  estimated: total.estimated || result.usage.estimated,
+});
+
+const chunkLabel = (chunk: { startPage: number; endPage: number }, unit: SummaryCoverage['unit'], index: number) =>
+  unit === 'section'
+    ? `Section ${index + 1}`
+    : chunk.startPage === chunk.endPage ? `Page ${chunk.startPage}` : `Pages ${chunk.startPage}–${chunk.endPage}`;
+
+/**
+ * Deterministic coverage footer appended to every summary
+ */
+function coverageNote(coverage: SummaryCoverage): string {
+  const lines = ['📑 COVERAGE'];
+
+  if (coverage.unit === 'section') {
+    if (coverage.not_covered) {
+      lines.push(`• Read ${coverage.chunks} of ${coverage.total} sections; the rest was not covered (document too long)`);
+    } else {
+      lines.push(`• Read all ${coverage.total} section${coverage.total !== 1 ? 's' : ''} of the document`);
+    }
+  } else {
+    lines.push(`• Pages covered: ${coverage.covered || 'none'} of ${coverage.total}`);
+    if (coverage.not_covered) {
+      lines.push(`• Not covered (document too long): pages ${coverage.not_covered}`);
+    }
+    if (coverage.empty) {
+      lines.push(`• No readable text on pages ${coverage.empty} (they may be scanned images)`);
+    }
+  }
+  if (coverage.strategy === 'map-reduce') {
+    lines.push(`• Read in ${coverage.chunks} parts and combined into this summary`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Summarize a document: one call for short documents, map-reduce over page chunks for long ones
+ */
+async function summarizeDocument(
+  llm: LLMProvider,
+  supabaseClient: SupabaseClient,
+  userId: string,
+  pages: string[],
+  responseLanguage: LanguageCode,
+  emit: Emit
+): Promise<SummaryResult> {
+  const unit: SummaryCoverage['unit'] = pages.length > 1 ? 'page' : 'section';
+  const nonEmptyPages = pages.flatMap((page, i) => (page.trim() ? [i + 1] : []));
+  const emptyPages = pages.flatMap((page, i) => (page.trim() ? [] : [i + 1]));
+  const totalChars = pages.reduce((sum, page) => sum + page.length, 0);
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false };
+
+  const complete = async (feature: string, system: string, user: string, maxTokens: number) => {
+    const result = await llm.complete({
+      feature,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+      ],
+      maxTokens,
+      temperature: 0.3,
     });
+    await recordUsage(supabaseClient, userId, feature, result);
+    usage = addUsage(usage, result);
+    return result;
+  };
+
+  if (totalChars <= SINGLE_PASS_CHARS) {
+    emit({ type: 'progress', stage: 'reduce', message: 'Writing summary' });
+
+    const text = pages.length > 1
+      ? pages.map((page, i) => (page.trim() ? `[Page ${i + 1}]\n${page}` : '')).filter(Boolean).join('\n\n')
+      : pages[0];
+
+    const result = await complete(
+      'document-summarizer',
+      summaryPrompt(responseLanguage),
+      `Please analyze this legal document and provide a comprehensive summary following the structure outlined. Make sure to cover ALL important points and explain everything in simple, everyday language:\n\n${text}`,
+      4000
+    );
+
+    return {
+      summary: result.content || 'No summary generated',
+      coverage: {
+        strategy: 'single-pass',
+        unit,
+        total: unit === 'page' ? pages.length : 1,
+        covered: formatPageRanges(nonEmptyPages),
+        not_covered: '',
+        empty: formatPageRanges(emptyPages),
+        chunks: 1,
+      },
+      model: result.model,
+      usage,
+    };
+  }
 
-    console.log('Groq Response status:', groqResponse.status);
+  const allChunks = chunkPages(pages, CHUNK_CHARS);
+  const chunks = allChunks.slice(0, MAX_CHUNKS);
+  const skippedChunks = allChunks.slice(MAX_CHUNKS);
+
+  // Map: extract notes from each chunk in order
+  const notes: { label: string; text: string }[] = [];
+  for (const chunk of chunks) {
+    const label = chunkLabel(chunk, unit, chunk.index);
+    emit({ type: 'progress', stage: 'map', chunk: chunk.index + 1, total: chunks.length, label });
+
+    const result = await complete('document-summarizer-map', NOTES_PROMPT, chunk.text, NOTES_MAX_TOKENS);
+    const text = result.content.trim();
+    if (text && !/^no significant content\.?$/i.test(text)) {
+      notes.push({ label, text });
+    }
+  }
+
+  // Combine: condense groups of notes until they fit in a single reduce call
+  let combined = notes;
+  let round = 0;
+  while (combined.reduce((sum, note) => sum + note.text.length, 0) > SINGLE_PASS_CHARS && combined.length > 1) {
+    round++;
+    const groups: { label: string; text: string }[][] = [];
+    let group: { label: string; text: string }[] = [];
+    let groupLength = 0;
+    for (const note of combined) {
+      if (group.length > 0 && groupLength + note.text.length > CHUNK_CHARS) {
+        groups.push(group);
+        group = [];
+        groupLength = 0;
+      }
+      group.push(note);
+      groupLength += note.text.length;
+    }
+    if (group.length > 0) groups.push(group);
+    // A group that can't shrink further would loop forever; stop and let the reduce call truncate
+    if (groups.length === combined.length) break;
+
+    const condensed: { label: string; text: string }[] = [];
+    for (const [i, notesGroup] of groups.entries()) {
+      emit({ type: 'progress', stage: 'combine', round, chunk: i + 1, total: groups.length });
+      const label = notesGroup.length === 1
+        ? notesGroup[0].label
+        : `${notesGroup[0].label} to ${notesGroup[notesGroup.length - 1].label}`;
+      const result = await complete(
+        'document-summarizer-map',
+        NOTES_PROMPT,
+        notesGroup.map((note) => `--- ${note.label} ---\n${note.text}`).join('\n\n'),
+        NOTES_MAX_TOKENS * 2
+      );
+      condensed.push({ label, text: result.content.trim() });
+    }
+    combined = condensed;
+  }
+
+  // Reduce: write the final summary from the notes
+  emit({ type: 'progress', stage: 'reduce', message: 'Writing final summary' });
+
+  const coveredPages = chunks.flatMap((chunk) =>
+    Array.from({ length: chunk.endPage - chunk.startPage + 1 }, (_, i) => chunk.startPage + i)
+  ).filter((page) => nonEmptyPages.includes(page));
+  const notCoveredPages = nonEmptyPages.filter((page) => !coveredPages.includes(page));
+
+  const coverage: SummaryCoverage = {
+    strategy: 'map-reduce',
+    unit,
+    total: unit === 'page' ? pages.length : allChunks.length,
+    covered: formatPageRanges(coveredPages),
+    // Sections have no page numbers, so the skipped ones are listed by section number
+    not_covered: skippedChunks.length === 0
+      ? ''
+      : unit === 'page'
+        ? formatPageRanges(notCoveredPages)
+        : formatPageRanges(skippedChunks.map((chunk) => chunk.index + 1)),
+    empty: formatPageRanges(emptyPages),
+    chunks: chunks.length,
+  };
+
+  const notesText = combined
+    .map((note) => `--- ${note.label} ---\n${note.text}`)
+    .join('\n\n')
+    .substring(0, SINGLE_PASS_CHARS);
+
+  const result = await complete(
+    'document-summarizer',
+    summaryPrompt(responseLanguage),
+    `This is a long legal document${unit === 'page' ? ` of ${pages.length} pages` : ''}. It was read in ${chunks.length} parts and the notes from each part are below, in order. Combine them into one summary following the structure outlined. Make sure to cover ALL important points from every part, keep page references like (p. 12) next to key clauses, and explain everything in simple, everyday language:\n\n${notesText}`,
+    4000
+  );
+
+  return {
+    summary: result.content || 'No summary generated',
+    coverage,
+    model: result.model,
+    usage,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    // Service role client for Storage uploads
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // Get user from JWT
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    // Primary path: the original file is uploaded as multipart form data.
+    // Fallback path: JSON with text extracted in the browser, optionally for an existing upload.
+    // Re-summarize: JSON with only a document_id summarizes the text already stored for it.
+    // Compare: JSON with document_id (revised version) and base_document_id (earlier version).
+    // Redaction preview: JSON with document_id and mode "redact"; nothing is sent to the provider.
+    const isUpload = (req.headers.get('content-type') ?? '').includes('multipart/form-data');
+    let file: File | null = null;
+    let fallback: { document_id?: string; text?: unknown; file_name?: string; ocr_pages?: unknown; base_document_id?: string; perspective?: unknown } = {};
+    let language: unknown;
+    let stream = false;
+    let mode: unknown;
+
+    if (isUpload) {
+      const form = await req.formData();
+      const uploaded = form.get('file');
+      language = form.get('language');
+      stream = form.get('stream') === 'true';
+      mode = form.get('mode');
+
+      if (!(uploaded instanceof File)) {
+        throw new Error('A document file is required');
+      }
+      file = uploaded;
+    } else {
+      const requestBody = await req.json();
+
+      fallback = requestBody;
+      language = requestBody.language;
+      stream = requestBody.stream === true;
+      mode = requestBody.mode;
+
+      const hasText = typeof fallback.text === 'string' && fallback.text.trim() !== '';
+      if (!hasText && !fallback.document_id) {
+        throw new Error('Document text is required');
+      }
+    }
+
+    const responseLanguage = await resolveLanguage(supabaseClient, user.id, language);
+    // summary: plain-language summary (default); clauses: structured clause table with risk levels;
+    // compare: redline against an earlier version; deadlines: dates and obligations as calendar events
+    // (also found after every summary); extract: store the text without analysing it;
+    // redact: preview the personal details that are hidden from the AI, without calling it
+    const analysisMode = mode === 'clauses' || mode === 'compare' || mode === 'deadlines' || mode === 'extract' || mode === 'redact'
+      ? mode
+      : 'summary';
+
+    if (analysisMode === 'compare' && (!fallback.document_id || !fallback.base_document_id)) {
+      throw new Error('Two uploaded documents are required to compare versions');
+    }
+
+    // One redactor per request keeps placeholders stable across chunks and both compared versions
+    const redactor = new Redactor();
+
+    // Runs the whole pipeline, reporting progress through emit; returns the JSON response body
+    const run = async (emit: Emit): Promise<Record<string, unknown>> => {
+      let documentId: string | null = null;
+      let documentTitle = '';
+      // Once a document has usable text, a failed analysis must not mark the document itself failed
+      let keepStatusOnError = false;
+
+      const updateDocument = async (fields: Record<string, unknown>) => {
+        const { error } = await supabaseClient
+          .from('documents')
+          .update(fields)
+          .eq('id', documentId)
+          .eq('user_id', user.id);
+        if (error) console.error('Error updating document:', documentId, error);
+      };
 
-    if (!groqResponse.ok) {
-      let errorMessage = `Groq API error: ${groqResponse.status}`;
-      let errorDetails = null;
       try {
-        const errorData = await groqResponse.json();
-        console.error('Groq error response:', errorData);
-        errorMessage = errorData.error?.message || errorData.message || errorMessage;
-        errorDetails = errorData;
-      } catch {
-        const errorText = await groqResponse.text();
-        console.error('Groq error text:', errorText);
-        errorMessage = errorText || errorMessage;
+        let pages: string[];
+
+        if (file) {
+          const kind = detectDocumentKind(file.name, file.type);
+          if (!kind) {
+            throw new Error('Unsupported file type. Please upload a PDF, DOCX, TXT, RTF, JPG or PNG file.');
+          }
+          if (file.size > MAX_DOCUMENT_BYTES) {
+            throw new Error('File is too large. The limit is 20MB.');
+          }
+
+          console.log('Ingesting document for user:', user.id, 'File:', file.name, 'Type:', kind, 'Size:', file.size);
+
+          const { data: document, error: insertError } = await supabaseClient
+            .from('documents')
+            .insert({
+              user_id: user.id,
+              title: file.name,
+              file_name: file.name,
+              mime_type: mimeTypeFor(kind),
+              file_size: file.size,
+              status: 'uploaded',
+            })
+            .select('id')
+            .single();
+
+          if (insertError || !document) {
+            throw new Error(`Could not create document record: ${insertError?.message}`);
+          }
+          documentId = document.id;
+          documentTitle = file.name;
+          emit({ type: 'document', document_id: documentId });
+
+          const bytes = new Uint8Array(await file.arrayBuffer());
+          const filePath = `${user.id}/${documentId}/${safeFileName(file.name)}`;
+
+          const { error: uploadError } = await supabaseAdmin.storage
+            .from(DOCUMENTS_BUCKET)
+            .upload(filePath, bytes, { contentType: mimeTypeFor(kind), upsert: false });
+
+          if (uploadError) {
+            throw new Error(`Could not store the document: ${uploadError.message}`);
+          }
+
+          await updateDocument({ file_path: filePath, status: 'processing' });
+          emit({ type: 'progress', stage: 'extract', message: 'Extracting text' });
+
+          let extracted: ExtractedDocument;
+          try {
+            extracted = await extractDocumentText(bytes, kind);
+          } catch (extractionError) {
+            if (!(extractionError instanceof DocumentExtractionError)) throw extractionError;
+
+            console.log('Server extraction failed:', extractionError.code, extractionError.message);
+            await updateDocument({ status: 'failed', error: extractionError.message });
+
+            // The client may retry with text it extracted in the browser for this document_id
+            return {
+              success: false,
+              error: extractionError.message,
+              code: extractionError.code,
+              document_id: documentId,
+            };
+          }
+
+          pages = extracted.pages;
+          await updateDocument({
+            content: extracted.text,
+            page_count: extracted.pages.length,
+            extraction_method: 'server',
+            status: 'extracted',
+            error: null,
+          });
+        } else if (typeof fallback.text !== 'string' || !fallback.text.trim()) {
+          const { data: document, error: loadError } = await supabaseClient
+            .from('documents')
+            .select('id, title, content')
+            .eq('id', fallback.document_id)
+            .eq('user_id', user.id)
+            .single();
+
+          if (loadError || !document) {
+            throw new Error('Document not found');
+          }
+          if (!document.content?.trim()) {
+            throw new Error('This document has no extracted text to summarize. Please upload it again.');
+          }
+
+          documentId = document.id;
+          documentTitle = document.title;
+          pages = splitPages(document.content);
+          keepStatusOnError = true;
+          emit({ type: 'document', document_id: documentId });
+        } else {
+          const text = fallback.text;
+          pages = splitPages(text);
+          documentTitle = fallback.file_name || 'Untitled document';
+          // Per-page confidence for pages the browser read with OCR
+          const ocrPages = Array.isArray(fallback.ocr_pages)
+            ? fallback.ocr_pages
+              .filter((page) => Number.isInteger(page?.page) && page.page >= 1 && page.page <= pages.length && typeof page.confidence === 'number')
+              .map((page) => ({ page: page.page, confidence: Math.min(100, Math.max(0, Math.round(page.confidence))) }))
+            : [];
+          const fields = {
+            content: text,
+            page_count: pages.length,
+            extraction_method: ocrPages.length > 0 ? 'ocr' : 'client',
+            ocr_pages: ocrPages.length > 0 ? ocrPages : null,
+            status: 'extracted',
+            error: null,
+          };
+
+          if (fallback.document_id) {
+            const { data: document, error: updateError } = await supabaseClient
+              .from('documents')
+              .update(fields)
+              .eq('id', fallback.document_id)
+              .eq('user_id', user.id)
+              .select('id')
+              .single();
+
+            if (updateError || !document) {
+              throw new Error('Document not found');
+            }
+            documentId = document.id;
+          } else {
+            const { data: document, error: insertError } = await supabaseClient
+              .from('documents')
+              .insert({ user_id: user.id, title: fallback.file_name || 'Untitled document', file_name: fallback.file_name ?? null, ...fields })
+              .select('id')
+              .single();
+
+            if (insertError || !document) {
+              throw new Error(`Could not create document record: ${insertError?.message}`);
+            }
+            documentId = document.id;
+          }
+          emit({ type: 'document', document_id: documentId });
+        }
+
+        if (analysisMode === 'extract') {
+          const { data: document } = await supabaseClient
+            .from('documents')
+            .select(DOCUMENT_FIELDS)
+            .eq('id', documentId)
+            .single();
+
+          return { success: true, document: document ?? { id: documentId } };
+        }
+
+        if (analysisMode === 'redact') {
+          keepStatusOnError = true;
+          const preview = new Redactor();
+          const redactedPages = pages.map((page) => preview.redact(page));
+          const redactedText = redactedPages.join('\n\n');
+
+          const { data: document } = await supabaseClient
+            .from('documents')
+            .select(DOCUMENT_FIELDS)
+            .eq('id', documentId)
+            .single();
+
+          return {
+            success: true,
+            document: document ?? { id: documentId },
+            redaction: preview.audit(),
+            redaction_preview: {
+              // Original values go only to the document's owner, for the preview
+              items: preview.items().map((item) => ({
+                ...item,
+                pages: redactedPages.flatMap((page, index) => (page.includes(item.placeholder) ? [index + 1] : [])),
+              })),
+              text: redactedText.substring(0, REDACTION_PREVIEW_CHARS),
+              truncated: redactedText.length > REDACTION_PREVIEW_CHARS,
+            },
+          };
+        }
+
+        // Personal details are replaced with placeholders before any text reaches the provider
+        const llm = withRedaction(getLLMProvider(), redactor);
+
+        if (analysisMode === 'compare') {
+          keepStatusOnError = true;
+
+          const { data: baseDocument, error: baseError } = await supabaseClient
+            .from('documents')
+            .select('id, title, content')
+            .eq('id', fallback.base_document_id)
+            .eq('user_id', user.id)
+            .single();
+
+          if (baseError || !baseDocument?.content?.trim()) {
+            throw new Error('The earlier version has no extracted text. Please upload it again.');
+          }
+
+          const perspective = typeof fallback.perspective === 'string' && fallback.perspective.trim()
+            ? fallback.perspective.trim().substring(0, 100)
+            : null;
+
+          console.log(`Comparing document ${baseDocument.id} with ${documentId} using ${llm.name} (${llm.model})`);
+
+          let compareResult: Awaited<ReturnType<typeof compareDocuments>>;
+          try {
+            compareResult = await compareDocuments(
+              llm,
+              supabaseClient,
+              user.id,
+              { id: baseDocument.id, title: baseDocument.title, pages: splitPages(baseDocument.content) },
+              { title: documentTitle, pages },
+              perspective,
+              responseLanguage,
+              emit
+            );
+          } catch (llmError) {
+            if (!(llmError instanceof LLMError)) throw llmError;
+
+            console.error(`${llm.name} error response:`, llmError.message, llmError.details);
+            return {
+              success: false,
+              error: llmError.message,
+              error_details: llmError.details ?? null,
+              status: llmError.status,
+              document_id: documentId,
+            };
+          }
+
+          const { data: document, error: saveError } = await supabaseClient
+            .from('documents')
+            .update({ comparison: compareResult.comparison })
+            .eq('id', documentId)
+            .eq('user_id', user.id)
+            .select(DOCUMENT_FIELDS)
+            .single();
+
+          if (saveError) {
+            console.error('Error saving comparison:', saveError);
+          }
+
+          console.log('Document comparison completed for user:', user.id, 'Stats:', compareResult.comparison.stats);
+
+          return {
+            success: true,
+            comparison: compareResult.comparison,
+            document: document ?? { id: documentId },
+            model_used: compareResult.model,
+            usage: compareResult.usage,
+          };
+        }
+
+        if (analysisMode === 'clauses') {
+          keepStatusOnError = true;
+          console.log(`Extracting clauses from document ${documentId} with ${llm.name} (${llm.model}), pages: ${pages.length}`);
+
+          let clauseResult: Awaited<ReturnType<typeof analyzeClauses>>;
+          try {
+            clauseResult = await analyzeClauses(llm, supabaseClient, user.id, pages, responseLanguage, emit);
+          } catch (llmError) {
+            if (!(llmError instanceof LLMError)) throw llmError;
+
+            console.error(`${llm.name} error response:`, llmError.message, llmError.details);
+            return {
+              success: false,
+              error: llmError.message,
+              error_details: llmError.details ?? null,
+              status: llmError.status,
+              document_id: documentId,
+            };
+          }
+
+          const { data: document, error: saveError } = await supabaseClient
+            .from('documents')
+            .update({ clause_analysis: clauseResult.analysis })
+            .eq('id', documentId)
+            .eq('user_id', user.id)
+            .select(DOCUMENT_FIELDS)
+            .single();
+
+          if (saveError) {
+            console.error('Error saving clause analysis:', saveError);
+          }
+
+          console.log('Clause extraction completed for user:', user.id, 'Clauses:', clauseResult.analysis.clauses.length);
+
+          return {
+            success: true,
+            clauses: clauseResult.analysis,
+            document: document ?? { id: documentId },
+            model_used: clauseResult.model,
+            usage: clauseResult.usage,
+          };
+        }
+
+        if (analysisMode === 'deadlines') {
+          keepStatusOnError = true;
+          console.log(`Extracting deadlines from document ${documentId} with ${llm.name} (${llm.model}), pages: ${pages.length}`);
+
+          let deadlineResult: Awaited<ReturnType<typeof extractDeadlines>>;
+          try {
+            deadlineResult = await extractDeadlines(llm, supabaseClient, user.id, pages, responseLanguage, emit);
+          } catch (llmError) {
+            if (!(llmError instanceof LLMError)) throw llmError;
+
+            console.error(`${llm.name} error response:`, llmError.message, llmError.details);
+            return {
+              success: false,
+              error: llmError.message,
+              error_details: llmError.details ?? null,
+              status: llmError.status,
+              document_id: documentId,
+            };
+          }
+
+          const { data: document, error: saveError } = await supabaseClient
+            .from('documents')
+            .update({ deadlines: deadlineResult.analysis })
+            .eq('id', documentId)
+            .eq('user_id', user.id)
+            .select(DOCUMENT_FIELDS)
+            .single();
+
+          if (saveError) {
+            console.error('Error saving deadlines:', saveError);
+          }
+
+          console.log('Deadline extraction completed for user:', user.id, 'Events:', deadlineResult.analysis.events.length);
+
+          return {
+            success: true,
+            deadlines: deadlineResult.analysis,
+            document: document ?? { id: documentId },
+            model_used: deadlineResult.model,
+            usage: deadlineResult.usage,
+          };
+        }
+
+        console.log(`Summarizing document ${documentId} with ${llm.name} (${llm.model}), pages: ${pages.length}, language: ${responseLanguage}`);
+
+        let result: SummaryResult;
+        try {
+          result = await summarizeDocument(llm, supabaseClient, user.id, pages, responseLanguage, emit);
+        } catch (llmError) {
+          if (!(llmError instanceof LLMError)) throw llmError;
+
+          console.error(`${llm.name} error response:`, llmError.message, llmError.details);
+          if (!keepStatusOnError) {
+            await updateDocument({ status: 'failed', error: llmError.message });
+          }
+
+          return {
+            success: false,
+            error: llmError.message,
+            error_details: llmError.details ?? null,
+            status: llmError.status,
+            document_id: documentId,
+          };
+        }
+
+        const summary = `${result.summary.trim()}\n\n${coverageNote(result.coverage)}`;
+
+        // The summary is already written; a failed deadline pass only leaves the calendar empty
+        let deadlines: DeadlineAnalysis | null = null;
+        try {
+          deadlines = (await extractDeadlines(llm, supabaseClient, user.id, pages, responseLanguage, emit)).analysis;
+        } catch (deadlineError) {
+          if (!(deadlineError instanceof LLMError)) throw deadlineError;
+          console.error('Deadline extraction failed after summary:', deadlineError.message);
+        }
+
+        const { data: document, error: saveError } = await supabaseClient
+          .from('documents')
+          .update({ summary, summary_coverage: result.coverage, deadlines, status: 'summarized', error: null })
+          .eq('id', documentId)
+          .eq('user_id', user.id)
+          .select(DOCUMENT_FIELDS)
+          .single();
+
+        if (saveError) {
+          console.error('Error saving summary:', saveError);
+        }
+
+        console.log('Document summarization completed for user:', user.id, 'Strategy:', result.coverage.strategy, 'Chunks:', result.coverage.chunks);
+
+        return {
+          success: true,
+          summary,
+          coverage: result.coverage,
+          deadlines,
+          document: document ?? { id: documentId },
+          model_used: result.model,
+          usage: result.usage,
+        };
+      } catch (error) {
+        if (documentId && !keepStatusOnError) {
+          await updateDocument({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error occurred' });
+        }
+        throw error;
       }
-      
-      return new Response(JSON.stringify({ 
-        success: false,
-        error: errorMessage,
-        error_details: errorDetails,
-        status: groqResponse.status
-      }), {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    };
+
+    // Store and return the audit of what was hidden from the provider during this request
+    const runAudited = async (emit: Emit): Promise<Record<string, unknown>> => {
+      const body = await run(emit);
+      if (analysisMode === 'redact') return body;
+
+      const document = body.document as { id?: string } | undefined;
+      await recordRedactions(supabaseClient, user.id, 'document-summarizer', redactor, {
+        documentId: document?.id ?? (body.document_id as string | undefined) ?? null,
+      });
+      return { ...body, redaction: redactor.audit() };
+    };
+
+    if (stream) {
+      const encoder = new TextEncoder();
+      const send = (controller: ReadableStreamDefaultController, event: ProgressEvent) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      const streamResponse = new ReadableStream({
+        async start(controller) {
+          try {
+            const body = await runAudited((event) => send(controller, event));
+            send(controller, { type: 'result', ...body });
+          } catch (error) {
+            console.error('Error in document-summarizer stream:', error);
+            send(controller, { type: 'error', error: error instanceof Error ? error.message : 'Unknown error occurred' });
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        }
+      });
+
+      return new Response(streamResponse, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+        },
       });
     }
 
-    const groqResult = await groqResponse.json();
-    const summary = groqResult.choices?.[0]?.message?.content || 'No summary generated';
-    
-    console.log('Document summarization completed for user:', user.id);
-    console.log('Summary length:', summary.length);
-
-    return new Response(JSON.stringify({ 
-      success: true, 
-      summary: summary,
-      model_used: 'llama-3.3-70b-versatile',
-      raw_response: groqResult
-    }), {
+    const body = await runAudited(() => {});
+    return new Response(JSON.stringify(body), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
   } catch (error) {
     console.error('Error in document-summarizer:', error);
-    return new Response(JSON.stringify({ 
+    return new Response(JSON.stringify({
       error: error instanceof Error ? error.message : 'Unknown error occurred'
     }), {
       status: 500,
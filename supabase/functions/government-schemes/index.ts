@@ -1,12 +1,151 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getLLMProvider, recordUsage } from '../_shared/llm.ts';
+import { LanguageCode, languageInstruction, resolveLanguage } from '../_shared/language.ts';
+import {
+  APPLICANT_PROFILE_FIELDS,
+  ApplicantProfile,
+  ApplicantProfileRow,
+  describeEligibility,
+  evaluateSchemes,
+  fallbackReason,
+  parseApplicantProfile,
+  profileFromRow,
+  SchemeEvaluation,
+  SchemeRow,
+} from '../_shared/eligibility.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const SCHEME_FIELDS = 'id, name, description, benefits, category, state, application_process, required_documents, official_website, deadline, min_age, max_age, min_income, max_income, gender, eligibility_criteria';
+
+// Personalised reasons are written for the best matches; the rest get one built from their criteria
+const MAX_AI_REASONS = 10;
+
+// A household search explains fewer matches per member to keep one click to a few LLM calls
+const MAX_HOUSEHOLD_AI_REASONS = 4;
+
+type HouseholdMember = ApplicantProfileRow & { id: string; applicant_name: string; relationship: string };
+
+/**
+ * The LLM only explains, in the user's language, why each matched scheme suits the applicant.
+ * Returns reasons by scheme id for the first `limit` matches; missing ones use fallbackReason.
+ */
+async function explainMatches(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  profile: ApplicantProfile,
+  eligible: SchemeEvaluation[],
+  limit: number,
+  responseLanguage: LanguageCode
+): Promise<Map<string, string>> {
+  const reasons = new Map<string, string>();
+  const explained = eligible.slice(0, limit);
+  if (explained.length > 0) {
+    const llm = getLLMProvider();
+    try {
+      const aiResult = await llm.complete({
+        feature: 'government-schemes',
+        messages: [
+          {
+            role: 'system',
+            content: `You explain to an applicant why Indian government schemes they qualify for suit them. Eligibility has already been checked; do not question it and do not suggest other schemes.
+
+Return ONLY a valid JSON object:
+{ "reasons": [{ "id": "scheme id exactly as given", "reason": "50-80 words" }] }
+
+RULES:
+- One reason for each scheme given, addressed to the applicant as "you"
+- Base each reason on the scheme's benefits and the criteria the applicant meets; mention conditions they still need to check
+- Do not invent amounts, dates or benefits that are not in the scheme details
+- No markdown, no explanations outside the JSON${responseLanguage !== 'en' ? `
+${languageInstruction(responseLanguage)}` : ''}`
+          },
+          {
+            role: 'user',
+            content: `APPLICANT:
+Age: ${profile.age}
+Gender: ${profile.gender}
+Occupation: ${profile.occupation}
+State: ${profile.state} (${profile.areaType})
+Category: ${profile.caste.toUpperCase()}${profile.isDisabled ? '\nPerson with disability' : ''}${profile.isMinority ? '\nBelongs to a minority' : ''}${profile.isStudent ? '\nStudent' : ''}
+
+SCHEMES:
+${JSON.stringify(explained.map(({ scheme, criteria }) => ({
+id: scheme.id,
+name: scheme.name,
+benefits: scheme.benefits,
+criteria_met: criteria.filter((c) => c.status === 'pass').map((c) => c.requirement),
+still_to_check: criteria.filter((c) => c.status === 'unknown').map((c) => c.requirement),
+})), null, 2)}`
+          }
+        ],
+        maxTokens: 3000,
+        temperature: 0.3,
+      });
+      await recordUsage(supabaseClient, userId, 'government-schemes', aiResult);
+
+      const jsonMatch = aiResult.content.match(/\{[\s\S]*\}/);
+      const content = JSON.parse(jsonMatch ? jsonMatch[0] : aiResult.content);
+      const ids = new Set(explained.map(({ scheme }) => scheme.id));
+      for (const item of Array.isArray(content?.reasons) ? content.reasons : []) {
+        if (ids.has(item?.id) && typeof item.reason === 'string' && item.reason.trim()) {
+          reasons.set(item.id, item.reason.trim().substring(0, 800));
+        }
+      }
+    } catch (reasonError) {
+      // Matching does not depend on the AI; fall back to reasons built from the criteria
+      console.warn('Could not write personalised reasons:', reasonError instanceof Error ? reasonError.message : reasonError);
+    }
+  }
+  return reasons;
+}
+
+const toScheme = ({ scheme, criteria, score }: SchemeEvaluation) => ({
+  id: scheme.id,
+  name: scheme.name,
+  description: scheme.description ?? '',
+  benefits: scheme.benefits ?? '',
+  category: scheme.category ?? 'Other',
+  state: scheme.state ?? 'All India',
+  eligibility: describeEligibility(criteria),
+  howToApply: scheme.application_process ?? undefined,
+  documents: scheme.required_documents ?? [],
+  deadline: scheme.deadline ?? 'No deadline',
+  officialWebsite: scheme.official_website ?? 'Visit nearest government office',
+  criteria,
+  matchScore: score,
+});
+
+/**
+ * Matched schemes with their reasons, and the rest with only the criteria they failed
+ */
+const buildResult = (evaluations: SchemeEvaluation[], reasons: Map<string, string>) => {
+  const schemes = evaluations
+    .filter((evaluation) => evaluation.eligible)
+    .map((evaluation) => ({
+      ...toScheme(evaluation),
+      personalizedReason: reasons.get(evaluation.scheme.id) ?? fallbackReason(evaluation),
+    }));
+
+  return {
+    schemes,
+    total_eligible: schemes.length,
+    total_checked: evaluations.length,
+    // Schemes the applicant does not qualify for, with the criteria they failed
+    not_eligible: evaluations
+      .filter((evaluation) => !evaluation.eligible)
+      .map((evaluation) => ({
+        ...toScheme(evaluation),
+        criteria: evaluation.criteria.filter((criterion) => criterion.status === 'fail'),
+      })),
+  };
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -32,139 +171,87 @@ serve(async (req) => {
       throw new Error('Invalid authentication');
     }
 
-    const { 
-      applicantName, 
-      age, 
-      gender, 
-      income, 
-      parentIncome,
-      occupation, 
-      state,
-      areaType,
-      caste,
-      isDisabled,
-      isMinority,
-      isStudent
-    } = await req.json();
-    
-    if (!applicantName || !age || !gender || !occupation || !state || !areaType) {
-      throw new Error('All required fields must be provided');
+    const body = await req.json();
+    // { household: true } searches every saved household member instead of the posted profile
+    const household = body.household === true;
+    let profile: ApplicantProfile | null = null;
+    if (!household) {
+      const parsed = parseApplicantProfile(body);
+      if ('errors' in parsed) {
+        throw new Error(`All required fields must be provided (${parsed.errors.join(', ')})`);
+      }
+      profile = parsed.profile;
     }
 
-    console.log('Processing government schemes for user:', user.id);
-    console.log('Input data:', { 
-      applicantName, age, gender, income, parentIncome, occupation, state, areaType,
-      caste, isDisabled, isMinority, isStudent
-    });
+    const responseLanguage = await resolveLanguage(supabaseClient, user.id, body.language);
 
-    // Use Groq AI to generate eligible government schemes based on user profile
-    const groqResponse = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('GROQ_API_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'llama-3.3-70b-versatile',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert on Indian government schemes and welfare programs. Your task is to identify and recommend suitable government schemes based on applicant profiles.
-
-RESPONSE FORMAT:
-Return a valid JSON array with 5-8 most relevant schemes. Each scheme must have this exact structure:
-{
-  "id": "unique-scheme-id",
-  "name": "Official Scheme Name",
-  "description": "Brief description (50-100 words)",
-  "benefits": "Key benefits (50-100 words)",
-  "category": "Category (Education/Health/Financial/Housing/Agriculture/Business/Pension/Social Welfare)",
-  "eligibility": "Who can apply (30-50 words)",
-  "howToApply": "Application process (50-100 words)",
-  "documents": ["Document 1", "Document 2", "Document 3"],
-  "deadline": "Application deadline or 'No deadline'",
-  "officialWebsite": "Official website URL or 'Visit nearest government office'",
-  "state": "Applicable state or 'All India'",
-  "personalizedReason": "Why this scheme suits the applicant (50-80 words)"
-}
+    console.log('Processing government schemes for user:', user.id, 'Language:', responseLanguage);
 
-IMPORTANT RULES:
-1. Return ONLY valid JSON array, no markdown, no explanations
-2. Include real, active Indian government schemes
-3. Prioritize central government schemes, include 1-2 relevant state schemes if applicable
-4. Consider ALL profile factors: age, gender, income, occupation, location
-5. Provide accurate, helpful information
-6. personalizedReason must explain why THIS applicant should apply`
-          },
-          {
-            role: 'user',
-            content: `Find eligible government schemes for this applicant:
-
-Name: ${applicantName}
-Age: ${age} years
-Gender: ${gender}
-Annual Income: ${income ? `₹${income}` : 'Not specified'}
-Parent/Guardian Income: ${parentIncome ? `₹${parentIncome}` : 'Not specified'}
-Occupation: ${occupation}
-State: ${state}
-Area Type: ${areaType} (Urban/Rural)
-Caste Category: ${caste || 'Not specified'}
-Person with Disability: ${isDisabled ? 'Yes' : 'No'}
-Belongs to Minority: ${isMinority ? 'Yes' : 'No'}
-Student Status: ${isStudent ? 'Yes - Currently a student' : 'No - Not a student'}
-
-IMPORTANT: Consider ALL these factors when recommending schemes:
-- Prioritize schemes for SC/ST/OBC/PVTG/DNT if applicable
-- Include disability-specific schemes if person is disabled
-- Include minority welfare schemes if applicable
-- Include student scholarships and education schemes if student
-- Consider parent income for student/dependent schemes
-- Include caste-based reservations and benefits
-- Include state-specific schemes for ${state}
-- Consider ${areaType} area specific schemes (rural development, urban housing, etc.)
-- Prioritize both central and state government schemes
-
-Return JSON array of 6-10 most suitable schemes based on ALL eligibility criteria.`
-          }
-        ],
-        max_tokens: 3000,
-        temperature: 0.3,
-      }),
-    });
+    const { data: rows, error: schemesError } = await supabaseClient
+      .from('government_schemes')
+      .select(SCHEME_FIELDS)
+      .eq('is_active', true);
 
-    if (!groqResponse.ok) {
-      const errorData = await groqResponse.text();
-      console.error('Groq API error:', errorData);
-      throw new Error(`AI service error: ${groqResponse.statusText}`);
+    if (schemesError) {
+      throw new Error(`Could not load schemes: ${schemesError.message}`);
     }
 
-    const aiResult = await groqResponse.json();
-    const aiContent = aiResult.choices[0].message.content;
-    
-    console.log('AI Response:', aiContent);
+    // Eligibility is decided by the rule engine alone; the same profile always gets the same schemes
+    const today = new Date().toISOString().split('T')[0];
 
-    // Parse the AI response as JSON
-    let schemes;
-    try {
-      // Try to extract JSON if wrapped in markdown
-      const jsonMatch = aiContent.match(/\[[\s\S]*\]/);
-      const jsonString = jsonMatch ? jsonMatch[0] : aiContent;
-      schemes = JSON.parse(jsonString);
-      
-      if (!Array.isArray(schemes)) {
-        throw new Error('AI response is not an array');
+    if (household) {
+      const { data: members, error: membersError } = await supabaseClient
+        .from('applicant_profiles')
+        .select(`id, applicant_name, relationship, ${APPLICANT_PROFILE_FIELDS}`)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (membersError) {
+        throw new Error(`Could not load household members: ${membersError.message}`);
+      }
+      if (!members || members.length === 0) {
+        throw new Error('Save at least one household member before searching for the household');
       }
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      throw new Error('Failed to generate schemes. Please try again.');
+
+      const results = await Promise.all((members as HouseholdMember[]).map(async (member) => {
+        const memberProfile = profileFromRow(member);
+        const details = { id: member.id, name: member.applicant_name, relationship: member.relationship };
+        if ('errors' in memberProfile) {
+          return {
+            ...details,
+            error: `Details incomplete (${memberProfile.errors.join(', ')})`,
+            schemes: [],
+            total_eligible: 0,
+            total_checked: 0,
+            not_eligible: [],
+          };
+        }
+
+        const evaluations = evaluateSchemes((rows ?? []) as SchemeRow[], memberProfile.profile, today);
+        const eligible = evaluations.filter((evaluation) => evaluation.eligible);
+        const reasons = await explainMatches(
+          supabaseClient, user.id, memberProfile.profile, eligible, MAX_HOUSEHOLD_AI_REASONS, responseLanguage
+        );
+        return { ...details, ...buildResult(evaluations, reasons) };
+      }));
+
+      console.log(`Household search for ${results.length} members:`, user.id);
+
+      return new Response(JSON.stringify({ success: true, members: results }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    console.log(`Generated ${schemes.length} eligible schemes for user:`, user.id);
+    const evaluations = evaluateSchemes((rows ?? []) as SchemeRow[], profile!, today);
+    const eligible = evaluations.filter((evaluation) => evaluation.eligible);
+
+    console.log(`Eligible for ${eligible.length} of ${evaluations.length} schemes:`, user.id);
+
+    const reasons = await explainMatches(supabaseClient, user.id, profile!, eligible, MAX_AI_REASONS, responseLanguage);
 
     return new Response(JSON.stringify({ 
       success: true, 
-      schemes: schemes,
-      total_eligible: schemes.length
+      ...buildResult(evaluations, reasons),
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -7,6 +7,48 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const SORTS = ['relevance', 'distance', 'rating', 'experience', 'name'];
+
+// One row of public.search_lawyers
+interface LawyerRow {
+  id: string;
+  user_id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  location: string | null;
+  district: string | null;
+  avatar_url: string | null;
+  specialization: string | null;
+  experience_years: number | null;
+  license_number: string | null;
+  bio: string | null;
+  languages: string[] | null;
+  court_complexes: string[] | null;
+  rating_average: number | string | null;
+  review_count: number;
+  rating_breakdown: Record<string, number>;
+  availability: boolean;
+  distance_km: number | null;
+  relevance: number;
+  total_count: number | string;
+}
+
+// Accepts a string or an array of strings; blank values are dropped and null means no filter
+const toList = (value: unknown): string[] | null => {
+  const items = (Array.isArray(value) ? value : [value])
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : null;
+};
+
+// Finite number within the given bounds, otherwise null
+const toCoordinate = (value: unknown, limit: number): number | null => {
+  const number = typeof value === 'number' ? value : Number.NaN;
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -32,129 +74,84 @@ serve(async (req) => {
       throw new Error('Invalid authentication');
     }
 
-    const { location, specialization, minExperience, rating, sort, page } = await req.json();
-    
-    console.log('Finding lawyers with params:', { location, specialization, minExperience, rating, sort, page });
-
-    // Build query for lawyer_profiles
-    let lawyerQuery = supabaseClient
-      .from('lawyer_profiles')
-      .select('*', { count: 'exact' })
-      .eq('availability', true);
-
-    // Filter by specialization if provided
-    if (specialization) {
-      lawyerQuery = lawyerQuery.ilike('specialization', `%${specialization}%`);
-    }
-
-    // Filter by minimum experience
-    if (minExperience && minExperience > 0) {
-      lawyerQuery = lawyerQuery.gte('experience_years', minExperience);
-    }
-
-    // Apply sorting
-    const sortColumn = sort === 'experience' ? 'experience_years' : 'created_at';
-    const sortAscending = false;
-    
-    lawyerQuery = lawyerQuery.order(sortColumn, { ascending: sortAscending });
-
-    // Apply pagination (12 per page)
-    const currentPage = page || 1;
+    const body = await req.json();
+    const { location, minExperience, rating } = body;
+
+    // Older clients send a single specialization string
+    const specializations = toList(body.specializations ?? body.specialization);
+    const languages = toList(body.languages);
+    const courtComplexes = toList(body.courtComplexes);
+    const district = typeof body.district === 'string' && body.district.trim() ? body.district.trim() : null;
+    // Origin for distances, geocoded in the browser from the bundled gazetteer
+    const originLat = toCoordinate(body.originLat, 90);
+    const originLng = toCoordinate(body.originLng, 180);
+    const hasOrigin = originLat !== null && originLng !== null;
+    const radiusKm = hasOrigin && Number(body.radiusKm) > 0 ? Number(body.radiusKm) : null;
+    const sort = SORTS.includes(body.sort) && (body.sort !== 'distance' || hasOrigin) ? body.sort : 'relevance';
+    const currentPage = Math.max(1, Math.floor(Number(body.page) || 1));
     const perPage = 12;
-    const from = (currentPage - 1) * perPage;
-    const to = from + perPage - 1;
 
-    const { data: lawyerData, count, error: lawyersError } = await lawyerQuery.range(from, to);
-
-    if (lawyersError) {
-      throw new Error(`Database error: ${lawyersError.message}`);
-    }
-
-    if (!lawyerData || lawyerData.length === 0) {
-      console.log('No lawyers found');
-      return new Response(JSON.stringify({ 
-        success: true, 
-        lawyers: [],
-        total: 0,
-        page: currentPage,
-        perPage: perPage,
-        totalPages: 0
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
-
-    // Get all user_ids from lawyer profiles
-    const userIds = lawyerData.map((lawyer: any) => lawyer.user_id);
-
-    // Fetch profiles for these users
-    const { data: profilesData, error: profilesError } = await supabaseClient
-      .from('profiles')
-      .select('*')
-      .in('user_id', userIds);
-
-    if (profilesError) {
-      throw new Error(`Profiles error: ${profilesError.message}`);
-    }
-
-    // Create a map of user_id -> profile
-    const profilesMap = new Map();
-    (profilesData || []).forEach((profile: any) => {
-      profilesMap.set(profile.user_id, profile);
+    console.log('Finding lawyers with params:', {
+      location, specializations, languages, district, courtComplexes, radiusKm, minExperience, rating, sort, page: currentPage
     });
 
-    // Format lawyer data for response (join lawyer_profiles with profiles)
-    const formattedLawyers = lawyerData.map((lawyer: any) => {
-      const profile = profilesMap.get(lawyer.user_id);
-      // Generate mock rating (between 4.0 and 5.0) based on experience
-      const mockRating = 4.0 + (Math.min(lawyer.experience_years || 0, 15) / 15) * 1.0;
-      
-      return {
-        id: lawyer.id,
-        user_id: lawyer.user_id,
-        name: profile?.name || 'Unknown',
-        email: profile?.email || '',
-        phone: profile?.phone || '',
-        location: profile?.location || '',
-        avatar_url: profile?.avatar_url || null,
-        specialization: lawyer.specialization || '',
-        experience_years: lawyer.experience_years || 0,
-        license_number: lawyer.license_number || '',
-        bio: lawyer.bio || '',
-        rating: parseFloat(mockRating.toFixed(1)),
-        availability: lawyer.availability
-      };
+    // Filtering, sorting, counting and paging all happen in search_lawyers
+    const { data, error: searchError } = await supabaseClient.rpc('search_lawyers', {
+      filter_specializations: specializations,
+      filter_languages: languages,
+      filter_location: typeof location === 'string' ? location : null,
+      min_experience: Number(minExperience) || 0,
+      min_rating: Number(rating) || 0,
+      sort_by: sort,
+      page_number: currentPage,
+      page_size: perPage,
+      origin_latitude: hasOrigin ? originLat : null,
+      origin_longitude: hasOrigin ? originLng : null,
+      max_distance_km: radiusKm,
+      filter_district: district,
+      filter_court_complexes: courtComplexes,
     });
 
-    // Filter by location if specified
-    let filteredLawyers = formattedLawyers;
-    if (location) {
-      filteredLawyers = filteredLawyers.filter((lawyer: any) => 
-        lawyer.location && lawyer.location.toLowerCase().includes(location.toLowerCase())
-      );
-    }
-
-    // Filter by rating if specified
-    if (rating && rating > 0) {
-      filteredLawyers = filteredLawyers.filter((lawyer: any) => lawyer.rating >= rating);
-    }
-
-    // Sort by name if requested
-    if (sort === 'name') {
-      filteredLawyers.sort((a: any, b: any) => a.name.localeCompare(b.name));
-    } else if (sort === 'rating') {
-      filteredLawyers.sort((a: any, b: any) => b.rating - a.rating);
+    if (searchError) {
+      throw new Error(`Database error: ${searchError.message}`);
     }
 
-    console.log(`Found ${filteredLawyers.length} lawyers (total: ${count}) for page ${currentPage}`);
+    const rows = (data ?? []) as LawyerRow[];
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+    const lawyers = rows.map((lawyer) => ({
+      id: lawyer.id,
+      user_id: lawyer.user_id,
+      name: lawyer.name,
+      email: lawyer.email,
+      phone: lawyer.phone || '',
+      location: lawyer.location || '',
+      district: lawyer.district,
+      avatar_url: lawyer.avatar_url,
+      specialization: lawyer.specialization || '',
+      experience_years: lawyer.experience_years || 0,
+      license_number: lawyer.license_number || '',
+      bio: lawyer.bio || '',
+      languages: lawyer.languages || [],
+      court_complexes: lawyer.court_complexes || [],
+      // Kept up to date from published reviews by the update_lawyer_rating trigger
+      rating: lawyer.rating_average === null ? null : Number(lawyer.rating_average),
+      review_count: lawyer.review_count || 0,
+      rating_breakdown: lawyer.rating_breakdown,
+      availability: lawyer.availability,
+      // Kilometres from the search origin, when one was given and the office is geocoded
+      distance_km: lawyer.distance_km === null ? null : Number(lawyer.distance_km)
+    }));
+
+    console.log(`Found ${lawyers.length} lawyers (total: ${total}) for page ${currentPage}`);
 
     return new Response(JSON.stringify({ 
       success: true, 
-      lawyers: filteredLawyers,
-      total: count || 0,
+      lawyers,
+      total,
       page: currentPage,
       perPage: perPage,
-      totalPages: Math.ceil((count || 0) / perPage)
+      totalPages: Math.ceil(total / perPage)
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
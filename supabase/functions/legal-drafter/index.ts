@@ -0,0 +1,372 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getLLMProvider, LLMError, recordUsage } from '../_shared/llm.ts';
+import { recordRedactions, Redactor, withRedaction } from '../_shared/redaction.ts';
+import { isLanguageCode, LanguageCode, LANGUAGES } from '../_shared/language.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_FIELD_CHARS = 4000;
+const MAX_SECTIONS = 20;
+const MAX_SECTION_CHARS = 8000;
+const MAX_INSTRUCTION_CHARS = 500;
+
+const DRAFT_FIELDS = 'id, template, title, language, form_data, sections, current_version, created_at, updated_at';
+
+interface DraftSection {
+  heading: string;
+  body: string;
+}
+
+interface DraftTemplate {
+  name: string;
+  required: string[];
+  // Section plan and legal requirements the model must follow
+  structure: string;
+}
+
+// Field keys match the guided forms in src/lib/drafts.ts
+const TEMPLATES: Record<string, DraftTemplate> = {
+  legal_notice: {
+    name: 'Legal notice',
+    required: ['sender_name', 'sender_address', 'recipient_name', 'recipient_address', 'subject', 'facts', 'demand'],
+    structure: `A legal notice sent by Registered Post A.D. / Speed Post, in this order:
+1. "Header": "LEGAL NOTICE", the mode of service, the date and, when advocate_name is given, "Through: <advocate>, Advocate"
+2. "To": the recipient's name and full address
+3. "Subject": one line starting "Subject: Legal notice for ..."
+4. "Facts": numbered paragraphs stating the facts in the order they happened, starting "Under instructions from and on behalf of my client/me, <sender> ..."
+5. "Demand": what the recipient must do, with the amount if given, within compliance_days days (15 if not given) of receiving the notice
+6. "Consequences": that failing compliance, civil and/or criminal proceedings will be initiated at the recipient's risk as to costs, without further notice
+7. "Signature": place for signature of the sender (or advocate), name and date, and "Copy retained for record"`,
+  },
+  rti_application: {
+    name: 'RTI application',
+    required: ['applicant_name', 'applicant_address', 'public_authority', 'pio_address', 'information_sought'],
+    structure: `An application under Section 6(1) of the Right to Information Act, 2005, in this order:
+1. "To": "The Public Information Officer", the public authority and its address
+2. "Subject": "Application for information under Section 6(1) of the Right to Information Act, 2005"
+3. "Applicant details": full name, address and phone if given
+4. "Information sought": the information as a numbered list of specific, answerable points, covering the period if given; ask for certified copies where records are involved
+5. "Fee": the application fee of Rs. 10 and how it is paid (fee_mode), or, when bpl is "yes", that the applicant belongs to the Below Poverty Line category and is exempt under the proviso to Section 7(5), with a copy of the BPL card enclosed
+6. "Declaration": "I state that I am a citizen of India" and a request to transfer the application under Section 6(3) if the information is held by another public authority
+7. "Signature": place, date and signature of the applicant
+Do not ask for reasons for seeking the information; Section 6(2) says none are required.`,
+  },
+  consumer_complaint: {
+    name: 'Consumer complaint',
+    required: ['complainant_name', 'complainant_address', 'opposite_party_name', 'opposite_party_address', 'district', 'state', 'product_or_service', 'purchase_date', 'amount_paid', 'deficiency', 'compensation_sought'],
+    structure: `A complaint under Section 35 of the Consumer Protection Act, 2019 in the format of the District Consumer Disputes Redressal Commission, in this order:
+1. "Cause title": "BEFORE THE DISTRICT CONSUMER DISPUTES REDRESSAL COMMISSION, <district>, <state>", "Consumer Complaint No. ____ of 20__", then the complainant's name and address "...Complainant" VERSUS the opposite party's name and address "...Opposite Party"
+2. "Complaint under Section 35 of the Consumer Protection Act, 2019": one line
+3. "Facts of the complaint": numbered paragraphs covering the purchase or service, the date and amount paid, and what went wrong, including earlier complaints to the opposite party if given
+4. "Deficiency in service / defect": why these facts amount to a defect in goods or deficiency in service or an unfair trade practice under Section 2 of the Act
+5. "Jurisdiction": territorial jurisdiction under Section 34(2), and pecuniary jurisdiction because the value of goods or services paid does not exceed Rs. 50 lakh
+6. "Limitation": that the complaint is filed within two years of the cause of action under Section 69
+7. "Cause of action": when and where it arose
+8. "Prayer": numbered reliefs: refund or replacement, compensation of the amount sought, litigation costs, and any other relief the Commission finds fit
+9. "Verification": that the contents are true to the complainant's knowledge and belief and nothing material has been concealed, with place, date and signature
+10. "List of documents": invoice or receipt, correspondence with the opposite party, and other documents the facts mention`,
+  },
+  rent_agreement: {
+    name: 'Rent agreement',
+    required: ['landlord_name', 'landlord_address', 'tenant_name', 'tenant_address', 'property_address', 'monthly_rent', 'security_deposit', 'start_date', 'term_months', 'state'],
+    structure: `A residential leave and licence / rent agreement under the law of the given state, in this order:
+1. "Title": "RENT AGREEMENT", with the place and date of execution
+2. "Parties": the landlord (Lessor) and the tenant (Lessee) with their addresses, "hereinafter referred to as..."
+3. "Property": description and address of the premises
+4. "Term": term_months months from start_date (11 months if not given, so that registration is not compulsory under Section 17 of the Registration Act, 1908), renewable by mutual consent
+5. "Rent": the monthly rent, the day of the month it is due, and the mode of payment
+6. "Security deposit": the amount, that it carries no interest, and that it is refundable at the end of the tenancy after deducting unpaid dues and damage beyond normal wear and tear
+7. "Maintenance and utilities": who pays electricity, water, society maintenance (use maintenance if given) and minor repairs
+8. "Use of premises": permitted use (residential if not given), no subletting, no illegal or nuisance activity
+9. "Termination": notice period of notice_period_months months (one month if not given) for either party, and the lock-in period if given
+10. "Other terms": landlord's right of inspection with prior notice, handing over vacant possession at the end, stamp duty as per the state's stamp act
+11. "Signatures": signature blocks for landlord and tenant, and two witnesses with name and address`,
+  },
+  affidavit: {
+    name: 'Affidavit',
+    required: ['deponent_name', 'relation', 'relative_name', 'age', 'deponent_address', 'purpose', 'statements', 'place'],
+    structure: `A general affidavit to be printed on non-judicial stamp paper and sworn before a Notary or Oath Commissioner, in this order:
+1. "Title": "AFFIDAVIT" and, when authority is given, "Before <authority>"
+2. "Deponent": "I, <deponent_name>, <relation> <relative_name>, aged about <age> years, residing at <address>, do hereby solemnly affirm and declare as under:"
+3. "Statements": the statements as numbered paragraphs, each a single fact in the first person; the last paragraph states the purpose for which the affidavit is made
+4. "Verification": "Verified at <place> on this <date> that the contents of the above affidavit are true and correct to my knowledge and belief, no part of it is false and nothing material has been concealed therefrom."
+5. "Signature": "DEPONENT" with space for signature, and a line for attestation by the Notary / Oath Commissioner`,
+  },
+};
+
+const asText = (value: unknown, maxLength: number): string =>
+  typeof value === 'string' ? value.trim().substring(0, maxLength) : typeof value === 'number' ? String(value) : '';
+
+const draftPrompt = (template: DraftTemplate, language: LanguageCode) => `You are an experienced Indian advocate drafting a ${template.name.toLowerCase()} for a client. Draft it from the details provided, in formal legal language that is still clear to a non-lawyer.
+
+STRUCTURE:
+${template.structure}
+
+Return ONLY a valid JSON object:
+{
+  "title": "Short title of the draft, e.g. Legal notice for recovery of security deposit",
+  "sections": [{ "heading": "Section name from the structure, shown only in the editor", "body": "Complete printed text of the section" }]
+}
+
+RULES:
+- Use only the facts, names, amounts and dates provided; never invent any
+- Where a detail the structure needs was not provided, write a blank line "__________" for the user to fill in
+- Cite only the statutory provisions named in the structure; never cite case law
+- The body is exactly what is printed, so it includes any heading that belongs in the document (e.g. "PRAYER")
+- Numbered paragraphs inside a section go on separate lines ("1. ...", "2. ...")
+- No markdown, no explanations outside the JSON
+- ${language === 'en' ? 'Write in English' : `Write the draft in ${LANGUAGES[language].name} (${LANGUAGES[language].nativeName}); keep names, addresses, amounts and statute names exactly as given`}`;
+
+const formDetails = (formData: Record<string, string>) =>
+  Object.entries(formData)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+
+/**
+ * Parse and validate the model's draft; null when it is not usable
+ */
+function parseDraft(content: string): { title: string; sections: DraftSection[] } | null {
+  let parsed: Record<string, unknown>;
+  try {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.sections)) return null;
+
+  const sections = parsed.sections
+    .slice(0, MAX_SECTIONS)
+    .map((section: Record<string, unknown>) => ({
+      heading: asText(section?.heading, 200),
+      body: asText(section?.body, MAX_SECTION_CHARS),
+    }))
+    .filter((section: DraftSection) => section.body);
+
+  if (sections.length === 0) return null;
+  return { title: asText(parsed.title, 200), sections };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    // Create client with service role for database operations (bypasses RLS)
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // Create client with anon key for auth verification
+    const supabaseAuth = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser(token);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    // generate: a new draft from a template and its form; section: rewrite one section of a saved draft
+    const { mode, template: templateKey, fields, language, draftId, sectionIndex, instruction } = await req.json();
+
+    // Names, addresses and ID numbers in the form go to the provider as placeholders
+    const redactor = new Redactor();
+    const llm = withRedaction(getLLMProvider(), redactor);
+
+    if (mode === 'section') {
+      const { data: draft, error: draftError } = await supabaseClient
+        .from('drafts')
+        .select(DRAFT_FIELDS)
+        .eq('id', draftId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (draftError || !draft) {
+        throw new Error('Draft not found');
+      }
+
+      const template = TEMPLATES[draft.template];
+      const sections = (draft.sections ?? []) as DraftSection[];
+      if (!Number.isInteger(sectionIndex) || sectionIndex < 0 || sectionIndex >= sections.length) {
+        throw new Error('Section not found');
+      }
+
+      const request = asText(instruction, MAX_INSTRUCTION_CHARS) || 'Improve the drafting of this section';
+      console.log(`Rewriting section ${sectionIndex} of draft ${draft.id} with ${llm.name} (${llm.model})`);
+
+      const result = await llm.complete({
+        feature: 'legal-drafter',
+        messages: [
+          { role: 'system', content: draftPrompt(template, draft.language as LanguageCode) },
+          {
+            role: 'user',
+            content: `DETAILS:\n${formDetails(draft.form_data ?? {})}\n\nCURRENT DRAFT:\n${sections.map((section) => `## ${section.heading}\n${section.body}`).join('\n\n')}\n\nRewrite ONLY the section "${sections[sectionIndex].heading}". Change requested: ${request}\nReturn the JSON object with the title unchanged and "sections" containing just the rewritten section.`,
+          },
+        ],
+        maxTokens: 2000,
+        temperature: 0.3,
+      });
+      await recordUsage(supabaseClient, user.id, 'legal-drafter', result);
+      await recordRedactions(supabaseClient, user.id, 'legal-drafter', redactor);
+
+      const rewritten = parseDraft(result.content);
+      if (!rewritten) {
+        throw new Error('The AI response could not be used. Please try again.');
+      }
+
+      const updatedSections = sections.map((section, index) =>
+        index === sectionIndex ? { heading: section.heading, body: rewritten.sections[0].body } : section
+      );
+
+      const { error: versionError } = await supabaseClient
+        .from('draft_versions')
+        .insert({
+          draft_id: draft.id,
+          user_id: user.id,
+          title: draft.title,
+          sections: updatedSections,
+          source: 'regenerated',
+          note: `${sections[sectionIndex].heading}: ${request}`.substring(0, 300),
+        });
+
+      if (versionError) {
+        throw new Error(`Could not save the new version: ${versionError.message}`);
+      }
+
+      const { data: updated } = await supabaseClient
+        .from('drafts')
+        .select(DRAFT_FIELDS)
+        .eq('id', draft.id)
+        .single();
+
+      return new Response(JSON.stringify({ success: true, draft: updated, model_used: result.model, usage: result.usage }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const template = TEMPLATES[templateKey];
+    if (!template) {
+      throw new Error('Unknown draft type');
+    }
+
+    const formData: Record<string, string> = {};
+    if (fields && typeof fields === 'object') {
+      for (const [key, value] of Object.entries(fields as Record<string, unknown>)) {
+        const text = asText(value, MAX_FIELD_CHARS);
+        if (text && /^[a-z_]+$/.test(key)) formData[key] = text;
+      }
+    }
+    const missing = template.required.filter((key) => !formData[key]);
+    if (missing.length > 0) {
+      return new Response(JSON.stringify({ success: false, error: 'Please fill in all required fields', missing }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Drafts default to English, the language of most Indian courts and offices
+    const draftLanguage: LanguageCode = isLanguageCode(language) ? language : 'en';
+    formData.draft_date ||= new Date().toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
+
+    console.log(`Drafting ${templateKey} for user ${user.id} with ${llm.name} (${llm.model}), language: ${draftLanguage}`);
+
+    let result;
+    try {
+      result = await llm.complete({
+        feature: 'legal-drafter',
+        messages: [
+          { role: 'system', content: draftPrompt(template, draftLanguage) },
+          { role: 'user', content: `DETAILS:\n${formDetails(formData)}` },
+        ],
+        maxTokens: 4000,
+        temperature: 0.3,
+      });
+    } catch (llmError) {
+      if (!(llmError instanceof LLMError)) throw llmError;
+
+      console.error(`${llm.name} error response:`, llmError.message, llmError.details);
+      return new Response(JSON.stringify({ success: false, error: llmError.message }), {
+        status: llmError.status ?? 502,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    await recordUsage(supabaseClient, user.id, 'legal-drafter', result);
+
+    const generated = parseDraft(result.content);
+    if (!generated) {
+      throw new Error('The AI response could not be used. Please try again.');
+    }
+
+    const title = generated.title || template.name;
+    const { data: draft, error: insertError } = await supabaseClient
+      .from('drafts')
+      .insert({
+        user_id: user.id,
+        template: templateKey,
+        title,
+        language: draftLanguage,
+        form_data: formData,
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !draft) {
+      throw new Error(`Could not save the draft: ${insertError?.message}`);
+    }
+
+    const { error: versionError } = await supabaseClient
+      .from('draft_versions')
+      .insert({ draft_id: draft.id, user_id: user.id, title, sections: generated.sections, source: 'generated' });
+
+    if (versionError) {
+      throw new Error(`Could not save the draft: ${versionError.message}`);
+    }
+
+    await recordRedactions(supabaseClient, user.id, 'legal-drafter', redactor);
+
+    const { data: saved } = await supabaseClient
+      .from('drafts')
+      .select(DRAFT_FIELDS)
+      .eq('id', draft.id)
+      .single();
+
+    console.log('Draft created for user:', user.id, 'Template:', templateKey, 'Sections:', generated.sections.length);
+
+    return new Response(JSON.stringify({
+      success: true,
+      draft: saved,
+      redaction: redactor.audit(),
+      model_used: result.model,
+      usage: result.usage,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in legal-drafter:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,347 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  APPLICANT_PROFILE_FIELDS,
+  ApplicantProfileRow,
+  evaluateSchemes,
+  fallbackReason,
+  profileFromRow,
+  SchemeEvaluation,
+  SchemeRow,
+} from '../_shared/eligibility.ts';
+import { EmailError, EmailMessage, getSmtpConfig, sendEmails, textToHtml } from '../_shared/email.ts';
+
+// Called on a schedule (pg_cron + pg_net, see README) with the x-cron-secret header. Matches each
+// user's household members against schemes added since their last check and schemes closing
+// within their chosen number of days, writes notifications and emails a digest to those who
+// opted in.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+const SCHEME_FIELDS = 'id, name, description, benefits, category, state, application_process, required_documents, official_website, deadline, min_age, max_age, min_income, max_income, gender, eligibility_criteria, created_at';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCY_MS: Record<string, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+// A schedule that runs every hour should not push a user to the next slot because the last
+// run finished a few minutes late
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+
+// Digests that could not be sent are retried on later runs for this long; older alerts stay in
+// the inbox only
+const EMAIL_RETRY_MS = FREQUENCY_MS.weekly + DAY_MS;
+
+interface Preference {
+  user_id: string;
+  scheme_alerts: 'off' | 'daily' | 'weekly';
+  email_enabled: boolean;
+  deadline_days: number;
+  last_checked_at: string | null;
+  created_at: string;
+}
+
+interface NewNotification {
+  user_id: string;
+  kind: 'new_scheme' | 'scheme_deadline';
+  scheme_id: string;
+  title: string;
+  body: string;
+  link: string;
+  due_date: string | null;
+}
+
+type SchemeWithCreated = SchemeRow & { created_at: string };
+
+type MemberRow = ApplicantProfileRow & { user_id: string; applicant_name: string; relationship: string };
+
+// A matching scheme and the household members it suits
+interface HouseholdMatch {
+  evaluation: SchemeEvaluation;
+  members: string[];
+}
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+const isDue = (preference: Preference, now: number) =>
+  !preference.last_checked_at ||
+  new Date(preference.last_checked_at).getTime() <= now - FREQUENCY_MS[preference.scheme_alerts] + SCHEDULE_SLACK_MS;
+
+/**
+ * Schemes any member of a household qualifies for, each with the members it suits; the first
+ * matching member's evaluation is kept for the reason
+ */
+function matchHousehold(members: MemberRow[], schemes: SchemeWithCreated[], today: string): HouseholdMatch[] {
+  const matches = new Map<string, HouseholdMatch>();
+  for (const member of members) {
+    const parsed = profileFromRow(member);
+    if ('errors' in parsed) {
+      console.warn('Skipping incomplete applicant profile:', member.user_id, parsed.errors.join(', '));
+      continue;
+    }
+    for (const evaluation of evaluateSchemes(schemes, parsed.profile, today)) {
+      if (!evaluation.eligible) continue;
+      const match = matches.get(evaluation.scheme.id);
+      if (match) {
+        match.members.push(member.applicant_name);
+      } else {
+        matches.set(evaluation.scheme.id, { evaluation, members: [member.applicant_name] });
+      }
+    }
+  }
+  return [...matches.values()];
+}
+
+/**
+ * Notifications for one user. A scheme that is both new and closing soon is announced once,
+ * as closing.
+ */
+function matchAlerts(
+  preference: Preference,
+  matches: HouseholdMatch[],
+  householdSize: number,
+  today: string
+): NewNotification[] {
+  const since = preference.last_checked_at ?? preference.created_at;
+  const closesBy = addDays(today, preference.deadline_days);
+  const alerts: NewNotification[] = [];
+
+  for (const { evaluation, members } of matches) {
+    const scheme = evaluation.scheme as SchemeWithCreated;
+    const closing = !!scheme.deadline && scheme.deadline >= today && scheme.deadline <= closesBy;
+    const isNew = new Date(scheme.created_at).getTime() > new Date(since).getTime();
+    if (!closing && !isNew) continue;
+
+    alerts.push({
+      user_id: preference.user_id,
+      kind: closing ? 'scheme_deadline' : 'new_scheme',
+      scheme_id: scheme.id,
+      title: scheme.name,
+      // With several members, say whom it is for; the reason describes the first of them
+      body: householdSize > 1 ? `For ${members.join(', ')}. ${fallbackReason(evaluation)}` : fallbackReason(evaluation),
+      link: '/government-schemes',
+      due_date: closing ? scheme.deadline : null,
+    });
+  }
+  return alerts;
+}
+
+function digestEmail(to: string, alerts: NewNotification[]): EmailMessage {
+  const siteUrl = (Deno.env.get('SITE_URL') ?? '').replace(/\/$/, '');
+  const closing = alerts.filter((alert) => alert.kind === 'scheme_deadline');
+  const added = alerts.filter((alert) => alert.kind === 'new_scheme');
+
+  const sections: string[] = ['Hello,', 'Here are government schemes that match your saved household profiles on NyaAI.'];
+  if (closing.length > 0) {
+    sections.push(
+      'Closing soon:',
+      closing.map((alert) => `- ${alert.title} (apply by ${alert.due_date})`).join('\n')
+    );
+  }
+  if (added.length > 0) {
+    sections.push('Newly added:', added.map((alert) => `- ${alert.title}`).join('\n'));
+  }
+  sections.push(
+    `Check the details and save the schemes you want to track: ${siteUrl}/government-schemes`,
+    `You can change how often you get these alerts on your dashboard: ${siteUrl}/dashboard`
+  );
+
+  const text = sections.join('\n\n');
+  return {
+    to,
+    subject: closing.length > 0
+      ? `${closing.length} matching scheme${closing.length !== 1 ? 's' : ''} closing soon`
+      : `${added.length} new scheme${added.length !== 1 ? 's' : ''} match your profile`,
+    text,
+    html: textToHtml(text),
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // { force: true } checks every user regardless of frequency, for trying it out locally
+    const body = await req.json().catch(() => ({}));
+    const force = body?.force === true;
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const now = Date.now();
+    const today = new Date(now).toISOString().split('T')[0];
+
+    const { data: preferenceRows, error: preferencesError } = await supabaseAdmin
+      .from('notification_preferences')
+      .select('user_id, scheme_alerts, email_enabled, deadline_days, last_checked_at, created_at')
+      .neq('scheme_alerts', 'off');
+
+    if (preferencesError) {
+      throw new Error(`Could not load notification preferences: ${preferencesError.message}`);
+    }
+
+    const due = ((preferenceRows ?? []) as Preference[]).filter((preference) => force || isDue(preference, now));
+    if (due.length === 0) {
+      return new Response(JSON.stringify({ success: true, checked: 0, notified: 0, emailed: 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [{ data: profileRows, error: profilesError }, { data: schemeRows, error: schemesError }] = await Promise.all([
+      supabaseAdmin
+        .from('applicant_profiles')
+        .select(`user_id, applicant_name, relationship, ${APPLICANT_PROFILE_FIELDS}`)
+        .in('user_id', due.map((preference) => preference.user_id)),
+      supabaseAdmin
+        .from('government_schemes')
+        .select(SCHEME_FIELDS)
+        .eq('is_active', true),
+    ]);
+
+    if (profilesError) {
+      throw new Error(`Could not load applicant profiles: ${profilesError.message}`);
+    }
+    if (schemesError) {
+      throw new Error(`Could not load schemes: ${schemesError.message}`);
+    }
+
+    const households = new Map<string, MemberRow[]>();
+    for (const row of (profileRows ?? []) as MemberRow[]) {
+      households.set(row.user_id, [...(households.get(row.user_id) ?? []), row]);
+    }
+    const schemes = (schemeRows ?? []) as SchemeWithCreated[];
+
+    const checkedUsers: string[] = [];
+    const candidates: NewNotification[] = [];
+    for (const preference of due) {
+      // Users who have not saved a household member yet have nothing to match; check them once they do
+      const members = households.get(preference.user_id);
+      if (!members) continue;
+      checkedUsers.push(preference.user_id);
+      candidates.push(...matchAlerts(preference, matchHousehold(members, schemes, today), members.length, today));
+    }
+
+    // Schemes already announced to a user are skipped, so only fresh rows come back
+    let inserted: (NewNotification & { id: string })[] = [];
+    if (candidates.length > 0) {
+      const { data, error: insertError } = await supabaseAdmin
+        .from('notifications')
+        .upsert(candidates, { onConflict: 'user_id,scheme_id,kind', ignoreDuplicates: true })
+        .select('id, user_id, kind, scheme_id, title, body, link, due_date');
+
+      if (insertError) {
+        throw new Error(`Could not save notifications: ${insertError.message}`);
+      }
+      inserted = (data ?? []) as (NewNotification & { id: string })[];
+    }
+
+    console.log(`Scheme alerts: ${inserted.length} notifications for ${checkedUsers.length} users`);
+
+    // Email digests for users who opted in. Everything not emailed yet is sent, not just this
+    // run's rows, so a digest that failed last time goes out now.
+    let emailed = 0;
+    const byUser = new Map<string, (NewNotification & { id: string })[]>();
+    const optedIn = due.filter((preference) => preference.email_enabled).map((preference) => preference.user_id);
+    if (optedIn.length > 0) {
+      const { data: pendingRows, error: pendingError } = await supabaseAdmin
+        .from('notifications')
+        .select('id, user_id, kind, scheme_id, title, body, link, due_date')
+        .in('user_id', optedIn)
+        .in('kind', ['new_scheme', 'scheme_deadline'])
+        .is('emailed_at', null)
+        .gte('created_at', new Date(now - EMAIL_RETRY_MS).toISOString())
+        .order('created_at', { ascending: true });
+
+      if (pendingError) {
+        throw new Error(`Could not load unsent alerts: ${pendingError.message}`);
+      }
+      for (const notification of (pendingRows ?? []) as (NewNotification & { id: string })[]) {
+        // A scheme that has closed since is no longer worth an email
+        if (notification.kind === 'scheme_deadline' && notification.due_date && notification.due_date < today) continue;
+        byUser.set(notification.user_id, [...(byUser.get(notification.user_id) ?? []), notification]);
+      }
+    }
+    const emailUsers = due.filter((preference) => preference.email_enabled && byUser.has(preference.user_id));
+
+    if (emailUsers.length > 0) {
+      const smtp = getSmtpConfig();
+      if (!smtp) {
+        console.warn('SMTP is not configured; skipping scheme alert emails');
+      } else {
+        const recipients = new Map<string, string>();
+        for (const preference of emailUsers) {
+          const { data: { user }, error: userError } = await supabaseAdmin.auth.admin.getUserById(preference.user_id);
+          if (userError || !user?.email) {
+            console.warn('No email address for user:', preference.user_id);
+            continue;
+          }
+          recipients.set(user.email, preference.user_id);
+        }
+
+        const messages = [...recipients].map(([email, userId]) => digestEmail(email, byUser.get(userId)!));
+        // If the server cannot be reached, the alerts stay unsent and are retried next run
+        let sent: EmailMessage[] = [];
+        try {
+          sent = await sendEmails(smtp, messages);
+        } catch (error) {
+          if (!(error instanceof EmailError)) throw error;
+          console.error('Failed to send scheme alert emails:', error.message);
+        }
+        const emailedIds = sent.flatMap((message) => byUser.get(recipients.get(message.to)!)!.map((n) => n.id));
+        emailed = sent.length;
+
+        if (emailedIds.length > 0) {
+          const { error: emailedError } = await supabaseAdmin
+            .from('notifications')
+            .update({ emailed_at: new Date().toISOString() })
+            .in('id', emailedIds);
+          if (emailedError) console.error('Failed to record emailed notifications:', emailedError);
+        }
+      }
+    }
+
+    if (checkedUsers.length > 0) {
+      const { error: checkedError } = await supabaseAdmin
+        .from('notification_preferences')
+        .update({ last_checked_at: new Date(now).toISOString() })
+        .in('user_id', checkedUsers);
+      if (checkedError) console.error('Failed to record alert check:', checkedError);
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      checked: checkedUsers.length,
+      notified: inserted.length,
+      emailed,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Error in scheme-alerts:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -39,7 +39,7 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { lawyer_id, text, attachments = [], is_case_request = false, conversation_id } = await req.json();
+    const { lawyer_id, text, attachments = [], is_case_request = false, conversation_id, case_brief_id = null } = await req.json();
 
     if (!text?.trim()) {
       throw new Error('Missing required field: text');
@@ -47,6 +47,23 @@ serve(async (req) => {
 
     console.log('Sending message from user', user.id);
 
+    // A case request escalated from an AI chat carries the brief case-brief built for this user
+    let caseBrief = null;
+    if (is_case_request && case_brief_id) {
+      const { data: storedBrief, error: briefError } = await supabaseAdmin
+        .from('case_briefs')
+        .select('brief')
+        .eq('id', case_brief_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (briefError || !storedBrief) {
+        throw new Error('Case brief not found');
+      }
+
+      caseBrief = storedBrief.brief;
+    }
+
     let conversation;
 
     // If conversation_id is provided, use existing conversation (for lawyer replies)
@@ -109,6 +126,21 @@ serve(async (req) => {
         }
 
         existingConv = newConv;
+      } else if (is_case_request && existingConv.status === 'archived') {
+        // A new case request reopens a previously declined conversation for review
+        const { data: reopenedConv, error: reopenError } = await supabaseAdmin
+          .from('conversations')
+          .update({ status: 'pending' })
+          .eq('id', existingConv.id)
+          .select()
+          .single();
+
+        if (reopenError) {
+          console.error('Error reopening conversation:', reopenError);
+          throw new Error('Failed to reopen conversation: ' + reopenError.message);
+        }
+
+        existingConv = reopenedConv;
       }
 
       conversation = existingConv;
@@ -129,6 +161,7 @@ serve(async (req) => {
         text: text.trim(),
         attachments: attachments,
         is_case_request: is_case_request,
+        case_brief: caseBrief,
         delivered: true
       })
       .select()
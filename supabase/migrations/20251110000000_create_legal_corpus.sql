@@ -0,0 +1,156 @@
+-- Create legal_sections table holding bare act text for retrieval-grounded chat answers
+CREATE TABLE IF NOT EXISTS public.legal_sections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  act_name text NOT NULL,
+  act_short_name text NOT NULL,
+  section_number text NOT NULL,
+  title text,
+  content text NOT NULL,
+  source_url text,
+  search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(act_name, '') || ' ' || coalesce(act_short_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', content), 'B')
+  ) STORED,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE(act_short_name, section_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_sections_search_vector ON public.legal_sections USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_legal_sections_act ON public.legal_sections(act_short_name);
+
+ALTER TABLE public.legal_sections ENABLE ROW LEVEL SECURITY;
+
+-- Bare acts are public law, anyone can read them
+CREATE POLICY "Anyone can view legal sections" ON public.legal_sections
+  FOR SELECT USING (true);
+
+-- Store the statute citations used for each assistant answer
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS citations jsonb DEFAULT '[]'::jsonb NOT NULL;
+
+-- Full-text search over the corpus. Query words are OR-ed together so a natural
+-- language question still matches, and an explicit section number in the
+-- question ("section 420", "498A") is boosted to the top.
+CREATE OR REPLACE FUNCTION public.match_legal_sections(query_text text, match_count integer DEFAULT 5)
+RETURNS TABLE (
+  id uuid,
+  act_name text,
+  act_short_name text,
+  section_number text,
+  title text,
+  content text,
+  source_url text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery(
+      'english',
+      regexp_replace(trim(regexp_replace(query_text, '[^[:alnum:][:space:]]', ' ', 'g')), '\s+', ' or ', 'g')
+    ) AS tsq
+  )
+  SELECT
+    ls.id,
+    ls.act_name,
+    ls.act_short_name,
+    ls.section_number,
+    ls.title,
+    ls.content,
+    ls.source_url,
+    (
+      ts_rank(ls.search_vector, q.tsq)
+      + CASE WHEN query_text ~* ('\m(section|sec|s|article|art)\.?\s*' || ls.section_number || '\M') THEN 1.0 ELSE 0 END
+      + CASE WHEN query_text ~* ('\m' || ls.act_short_name || '\M') THEN 0.2 ELSE 0 END
+    )::real AS rank
+  FROM public.legal_sections ls, q
+  WHERE ls.search_vector @@ q.tsq
+     OR query_text ~* ('\m(section|sec|s|article|art)\.?\s*' || ls.section_number || '\M')
+  ORDER BY rank DESC, ls.act_short_name, ls.section_number
+  LIMIT greatest(match_count, 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_legal_sections(text, integer) TO anon, authenticated, service_role;
+
+-- Starter corpus of frequently asked sections. Further acts are loaded into the
+-- same table; act_short_name + section_number is the natural key.
+INSERT INTO public.legal_sections (act_name, act_short_name, section_number, title, content, source_url) VALUES
+('Indian Penal Code, 1860', 'IPC', '302', 'Punishment for murder',
+ 'Whoever commits murder shall be punished with death, or imprisonment for life, and shall also be liable to fine.',
+ 'https://www.indiacode.nic.in/handle/123456789/2263'),
+('Indian Penal Code, 1860', 'IPC', '323', 'Punishment for voluntarily causing hurt',
+ 'Whoever, except in the case provided for by section 334, voluntarily causes hurt, shall be punished with imprisonment of either description for a term which may extend to one year, or with fine which may extend to one thousand rupees, or with both.',
+ 'https://www.indiacode.nic.in/handle/123456789/2263'),
+('Indian Penal Code, 1860', 'IPC', '354', 'Assault or criminal force to woman with intent to outrage her modesty',
+ 'Whoever assaults or uses criminal force to any woman, intending to outrage or knowing it to be likely that he will thereby outrage her modesty, shall be punished with imprisonment of either description for a term which shall not be less than one year but which may extend to five years, and shall also be liable to fine.',
+ 'https://www.indiacode.nic.in/handle/123456789/2263'),
+('Indian Penal Code, 1860', 'IPC', '379', 'Punishment for theft',
+ 'Whoever commits theft shall be punished with imprisonment of either description for a term which may extend to three years, or with fine, or with both.',
+ 'https://www.indiacode.nic.in/handle/123456789/2263'),
+('Indian Penal Code, 1860', 'IPC', '406', 'Punishment for criminal breach of trust',
+ 'Whoever commits criminal breach of trust shall be punished with imprisonment of either description for a term which may extend to three years, or with fine, or with both.',
+ 'https://www.indiacode.nic.in/handle/123456789/2263'),
+('Indian Penal Code, 1860', 'IPC', '420', 'Cheating and dishonestly inducing delivery of property',
+ 'Whoever cheats and thereby dishonestly induces the person deceived to deliver any property to any person, or to make, alter or destroy the whole or any part of a valuable security, or anything which is signed or sealed, and which is capable of being converted into a valuable security, shall be punished with imprisonment of either description for a term which may extend to seven years, and shall also be liable to fine.',
+ 'https://www.indiacode.nic.in/handle/123456789/2263'),
+('Indian Penal Code, 1860', 'IPC', '498A', 'Husband or relative of husband of a woman subjecting her to cruelty',
+ 'Whoever, being the husband or the relative of the husband of a woman, subjects such woman to cruelty shall be punished with imprisonment for a term which may extend to three years and shall also be liable to fine. Explanation.—For the purposes of this section, "cruelty" means— (a) any wilful conduct which is of such a nature as is likely to drive the woman to commit suicide or to cause grave injury or danger to life, limb or health (whether mental or physical) of the woman; or (b) harassment of the woman where such harassment is with a view to coercing her or any person related to her to meet any unlawful demand for any property or valuable security or is on account of failure by her or any person related to her to meet such demand.',
+ 'https://www.indiacode.nic.in/handle/123456789/2263'),
+('Indian Penal Code, 1860', 'IPC', '506', 'Punishment for criminal intimidation',
+ 'Whoever commits the offence of criminal intimidation shall be punished with imprisonment of either description for a term which may extend to two years, or with fine, or with both; and if the threat be to cause death or grievous hurt, or to cause the destruction of any property by fire, or to cause an offence punishable with death or imprisonment for life, or with imprisonment for a term which may extend to seven years, or to impute unchastity to a woman, shall be punished with imprisonment of either description for a term which may extend to seven years, or with fine, or with both.',
+ 'https://www.indiacode.nic.in/handle/123456789/2263'),
+('Code of Criminal Procedure, 1973', 'CrPC', '125', 'Order for maintenance of wives, children and parents',
+ '(1) If any person having sufficient means neglects or refuses to maintain— (a) his wife, unable to maintain herself, or (b) his legitimate or illegitimate minor child, whether married or not, unable to maintain itself, or (c) his legitimate or illegitimate child (not being a married daughter) who has attained majority, where such child is, by reason of any physical or mental abnormality or injury unable to maintain itself, or (d) his father or mother, unable to maintain himself or herself, a Magistrate of the first class may, upon proof of such neglect or refusal, order such person to make a monthly allowance for the maintenance of his wife or such child, father or mother, at such monthly rate as such Magistrate thinks fit, and to pay the same to such person as the Magistrate may from time to time direct.',
+ 'https://www.indiacode.nic.in/handle/123456789/1611'),
+('Code of Criminal Procedure, 1973', 'CrPC', '154', 'Information in cognizable cases',
+ '(1) Every information relating to the commission of a cognizable offence, if given orally to an officer in charge of a police station, shall be reduced to writing by him or under his direction, and be read over to the informant; and every such information, whether given in writing or reduced to writing as aforesaid, shall be signed by the person giving it, and the substance thereof shall be entered in a book to be kept by such officer in such form as the State Government may prescribe in this behalf. (2) A copy of the information as recorded under sub-section (1) shall be given forthwith, free of cost, to the informant. (3) Any person aggrieved by a refusal on the part of an officer in charge of a police station to record the information referred to in sub-section (1) may send the substance of such information, in writing and by post, to the Superintendent of Police concerned who, if satisfied that such information discloses the commission of a cognizable offence, shall either investigate the case himself or direct an investigation to be made by any police officer subordinate to him, in the manner provided by this Code, and such officer shall have all the powers of an officer in charge of the police station in relation to that offence.',
+ 'https://www.indiacode.nic.in/handle/123456789/1611'),
+('Constitution of India', 'Constitution', '14', 'Equality before law',
+ 'The State shall not deny to any person equality before the law or the equal protection of the laws within the territory of India.',
+ 'https://www.indiacode.nic.in/handle/123456789/15240'),
+('Constitution of India', 'Constitution', '21', 'Protection of life and personal liberty',
+ 'No person shall be deprived of his life or personal liberty except according to procedure established by law.',
+ 'https://www.indiacode.nic.in/handle/123456789/15240'),
+('Constitution of India', 'Constitution', '22', 'Protection against arrest and detention in certain cases',
+ '(1) No person who is arrested shall be detained in custody without being informed, as soon as may be, of the grounds for such arrest nor shall he be denied the right to consult, and to be defended by, a legal practitioner of his choice. (2) Every person who is arrested and detained in custody shall be produced before the nearest magistrate within a period of twenty-four hours of such arrest excluding the time necessary for the journey from the place of arrest to the court of the magistrate and no such person shall be detained in custody beyond the said period without the authority of a magistrate.',
+ 'https://www.indiacode.nic.in/handle/123456789/15240'),
+('Constitution of India', 'Constitution', '32', 'Remedies for enforcement of rights conferred by this Part',
+ '(1) The right to move the Supreme Court by appropriate proceedings for the enforcement of the rights conferred by this Part is guaranteed.',
+ 'https://www.indiacode.nic.in/handle/123456789/15240'),
+('Constitution of India', 'Constitution', '39A', 'Equal justice and free legal aid',
+ 'The State shall secure that the operation of the legal system promotes justice, on a basis of equal opportunity, and shall, in particular, provide free legal aid, by suitable legislation or schemes or in any other way, to ensure that opportunities for securing justice are not denied to any citizen by reason of economic or other disabilities.',
+ 'https://www.indiacode.nic.in/handle/123456789/15240'),
+('Right to Information Act, 2005', 'RTI Act', '6', 'Request for obtaining information',
+ '(1) A person, who desires to obtain any information under this Act, shall make a request in writing or through electronic means in English or Hindi or in the official language of the area in which the application is being made, accompanying such fee as may be prescribed, to— (a) the Central Public Information Officer or State Public Information Officer, as the case may be, of the concerned public authority; (b) the Central Assistant Public Information Officer or State Assistant Public Information Officer, as the case may be, specifying the particulars of the information sought by him or her. (2) An applicant making request for information shall not be required to give any reason for requesting the information or any other personal details except those that may be necessary for contacting him.',
+ 'https://www.indiacode.nic.in/handle/123456789/2065'),
+('Right to Information Act, 2005', 'RTI Act', '7', 'Disposal of request',
+ '(1) Subject to the proviso to sub-section (2) of section 5 or the proviso to sub-section (3) of section 6, the Central Public Information Officer or State Public Information Officer, as the case may be, on receipt of a request under section 6 shall, as expeditiously as possible, and in any case within thirty days of the receipt of the request, either provide the information on payment of such fee as may be prescribed or reject the request for any of the reasons specified in sections 8 and 9: Provided that where the information sought for concerns the life or liberty of a person, the same shall be provided within forty-eight hours of the receipt of the request.',
+ 'https://www.indiacode.nic.in/handle/123456789/2065'),
+('Indian Contract Act, 1872', 'Contract Act', '10', 'What agreements are contracts',
+ 'All agreements are contracts if they are made by the free consent of parties competent to contract, for a lawful consideration and with a lawful object, and are not hereby expressly declared to be void.',
+ 'https://www.indiacode.nic.in/handle/123456789/2187'),
+('Indian Contract Act, 1872', 'Contract Act', '73', 'Compensation for loss or damage caused by breach of contract',
+ 'When a contract has been broken, the party who suffers by such breach is entitled to receive, from the party who has broken the contract, compensation for any loss or damage caused to him thereby, which naturally arose in the usual course of things from such breach, or which the parties knew, when they made the contract, to be likely to result from the breach of it. Such compensation is not to be given for any remote and indirect loss or damage sustained by reason of the breach.',
+ 'https://www.indiacode.nic.in/handle/123456789/2187'),
+('Hindu Succession Act, 1956', 'HSA', '8', 'General rules of succession in the case of males',
+ 'The property of a male Hindu dying intestate shall devolve according to the provisions of this Chapter— (a) firstly, upon the heirs, being the relatives specified in class I of the Schedule; (b) secondly, if there is no heir of class I, then upon the heirs, being the relatives specified in class II of the Schedule; (c) thirdly, if there is no heir of any of the two classes, then upon the agnates of the deceased; and (d) lastly, if there is no agnate, then upon the cognates of the deceased.',
+ 'https://www.indiacode.nic.in/handle/123456789/1713'),
+('Hindu Marriage Act, 1955', 'HMA', '13B', 'Divorce by mutual consent',
+ '(1) Subject to the provisions of this Act a petition for dissolution of marriage by a decree of divorce may be presented to the district court by both the parties to a marriage together, whether such marriage was solemnised before or after the commencement of the Marriage Laws (Amendment) Act, 1976, on the ground that they have been living separately for a period of one year or more, that they have not been able to live together and that they have mutually agreed that the marriage should be dissolved.',
+ 'https://www.indiacode.nic.in/handle/123456789/1560'),
+('Information Technology Act, 2000', 'IT Act', '66C', 'Punishment for identity theft',
+ 'Whoever, fraudulently or dishonestly make use of the electronic signature, password or any other unique identification feature of any other person, shall be punished with imprisonment of either description for a term which may extend to three years and shall also be liable to fine which may extend to rupees one lakh.',
+ 'https://www.indiacode.nic.in/handle/123456789/1999'),
+('Information Technology Act, 2000', 'IT Act', '66D', 'Punishment for cheating by personation by using computer resource',
+ 'Whoever, by means of any communication device or computer resource cheats by personation, shall be punished with imprisonment of either description for a term which may extend to three years and shall also be liable to fine which may extend to one lakh rupees.',
+ 'https://www.indiacode.nic.in/handle/123456789/1999'),
+('Consumer Protection Act, 2019', 'CPA', '69', 'Limitation period',
+ '(1) The District Commission, the State Commission or the National Commission shall not admit a complaint unless it is filed within two years from the date on which the cause of action has arisen.',
+ 'https://www.indiacode.nic.in/handle/123456789/15256'),
+('Negotiable Instruments Act, 1881', 'NI Act', '138', 'Dishonour of cheque for insufficiency, etc., of funds in the account',
+ 'Where any cheque drawn by a person on an account maintained by him with a banker for payment of any amount of money to another person from out of that account for the discharge, in whole or in part, of any debt or other liability, is returned by the bank unpaid, either because of the amount of money standing to the credit of that account is insufficient to honour the cheque or that it exceeds the amount arranged to be paid from that account by an agreement made with that bank, such person shall be deemed to have committed an offence and shall, without prejudice to any other provision of this Act, be punished with imprisonment for a term which may be extended to two years, or with fine which may extend to twice the amount of the cheque, or with both: Provided that nothing contained in this section shall apply unless— (a) the cheque has been presented to the bank within a period of six months from the date on which it is drawn or within the period of its validity, whichever is earlier; (b) the payee or the holder in due course of the cheque, as the case may be, makes a demand for the payment of the said amount of money by giving a notice in writing, to the drawer of the cheque, within thirty days of the receipt of information by him from the bank regarding the return of the cheque as unpaid; and (c) the drawer of such cheque fails to make the payment of the said amount of money to the payee or, as the case may be, to the holder in due course of the cheque, within fifteen days of the receipt of the said notice.',
+ 'https://www.indiacode.nic.in/handle/123456789/2189')
+ON CONFLICT (act_short_name, section_number) DO NOTHING;
@@ -0,0 +1,24 @@
+-- Create llm_usage table for token accounting across AI edge functions
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  feature text NOT NULL,
+  provider text NOT NULL,
+  model text NOT NULL,
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer NOT NULL DEFAULT 0,
+  estimated boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_id ON public.llm_usage(user_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON public.llm_usage(created_at DESC);
+
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own llm usage" ON public.llm_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own llm usage" ON public.llm_usage
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,9 @@
+-- Rolling conversation memory for AI chat sessions
+-- Older turns are condensed into summary; summarized_until marks the last message folded in
+ALTER TABLE public.chat_sessions
+  ADD COLUMN IF NOT EXISTS summary text,
+  ADD COLUMN IF NOT EXISTS summarized_until timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS summary_updated_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session_created_at
+  ON public.chat_messages(session_id, created_at DESC);
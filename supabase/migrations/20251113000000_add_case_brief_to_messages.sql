@@ -0,0 +1,3 @@
+-- AI-generated case brief attached to case request messages escalated from an AI chat
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS case_brief jsonb;
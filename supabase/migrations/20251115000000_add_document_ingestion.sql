@@ -0,0 +1,86 @@
+-- Server-side document ingestion for document-summarizer
+-- Uploaded files are stored under documents/<user_id>/<document_id>/<file name>
+-- and each upload is tracked as a row in public.documents.
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS file_name text,
+  ADD COLUMN IF NOT EXISTS mime_type text,
+  ADD COLUMN IF NOT EXISTS file_size bigint,
+  ADD COLUMN IF NOT EXISTS page_count integer,
+  ADD COLUMN IF NOT EXISTS extraction_method text,
+  ADD COLUMN IF NOT EXISTS error text;
+
+-- content holds the extracted text with pages separated by a form feed (\f)
+COMMENT ON COLUMN public.documents.content IS 'Extracted text, pages separated by a form feed character';
+
+ALTER TABLE public.documents
+  DROP CONSTRAINT IF EXISTS documents_status_check;
+
+ALTER TABLE public.documents
+  ADD CONSTRAINT documents_status_check
+  CHECK (status IN ('uploaded', 'processing', 'extracted', 'summarized', 'failed'));
+
+ALTER TABLE public.documents
+  DROP CONSTRAINT IF EXISTS documents_extraction_method_check;
+
+-- server: extracted by the edge function; client: browser fallback sent the text
+ALTER TABLE public.documents
+  ADD CONSTRAINT documents_extraction_method_check
+  CHECK (extraction_method IS NULL OR extraction_method IN ('server', 'client'));
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_created_at
+  ON public.documents(user_id, created_at DESC);
+
+-- Private bucket for uploaded documents
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'documents',
+  'documents',
+  false,
+  20971520, -- 20MB limit
+  ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain',
+    'application/rtf',
+    'text/rtf'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Users can only reach files inside their own folder
+DROP POLICY IF EXISTS "Users can upload their own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view their own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own documents" ON storage.objects;
+
+CREATE POLICY "Users can upload their own documents"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can view their own documents"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can update their own documents"
+ON storage.objects FOR UPDATE TO authenticated
+USING (
+  bucket_id = 'documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own documents"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'documents' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,10 @@
+-- Which pages a document summary was built from.
+-- Long documents are summarized in chunks (map-reduce); the coverage records the
+-- strategy used, the pages that were read, pages skipped because the document was
+-- too long, and pages that had no readable text.
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS summary_coverage jsonb;
+
+COMMENT ON COLUMN public.documents.summary_coverage IS
+  'Summary coverage: {strategy, unit, total, covered, not_covered, empty, chunks}';
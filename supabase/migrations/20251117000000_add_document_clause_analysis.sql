@@ -0,0 +1,10 @@
+-- Structured clause extraction for contracts.
+-- clause_analysis holds the server-validated JSON produced by document-summarizer in
+-- "clauses" mode: parties, governing law and a list of clauses, each with a category,
+-- risk level (low/medium/high), a verbatim quote and the page it was found on.
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS clause_analysis jsonb;
+
+COMMENT ON COLUMN public.documents.clause_analysis IS
+  'Clause table: {document_type, parties, governing_law, clauses[{category, title, summary, risk, risk_reason, quote, page, quote_verified}], skipped_pages, generated_at}';
@@ -0,0 +1,106 @@
+-- Question answering over a single uploaded document.
+-- document_chunks holds the document text split into small page-tagged passages for
+-- full-text retrieval; document_qa_messages is the persistent Q&A history per document.
+
+CREATE TABLE IF NOT EXISTS public.document_chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_index integer NOT NULL,
+  start_page integer NOT NULL,
+  end_page integer NOT NULL,
+  content text NOT NULL,
+  search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE(document_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_search_vector ON public.document_chunks USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document ON public.document_chunks(document_id, chunk_index);
+
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document chunks" ON public.document_chunks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS public.document_qa_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('user', 'assistant')),
+  content text NOT NULL,
+  -- Passages the answer was grounded in: [{number, start_page, end_page, excerpt}]
+  citations jsonb DEFAULT '[]'::jsonb NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_qa_messages_document_created_at
+  ON public.document_qa_messages(document_id, created_at);
+
+ALTER TABLE public.document_qa_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document questions" ON public.document_qa_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own document questions" ON public.document_qa_messages
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Chunks are rebuilt from documents.content on the next question after the text changes
+CREATE OR REPLACE FUNCTION public.clear_document_chunks()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    DELETE FROM public.document_chunks WHERE document_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_document_chunks_on_content_change ON public.documents;
+CREATE TRIGGER clear_document_chunks_on_content_change
+  AFTER UPDATE OF content ON public.documents
+  FOR EACH ROW EXECUTE FUNCTION public.clear_document_chunks();
+
+-- Full-text search within one document, same OR-ed query style as match_legal_sections.
+-- An explicit page reference in the question ("page 4", "p. 4") boosts that page.
+CREATE OR REPLACE FUNCTION public.match_document_chunks(target_document_id uuid, query_text text, match_count integer DEFAULT 5)
+RETURNS TABLE (
+  id uuid,
+  chunk_index integer,
+  start_page integer,
+  end_page integer,
+  content text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery(
+      'english',
+      regexp_replace(trim(regexp_replace(query_text, '[^[:alnum:][:space:]]', ' ', 'g')), '\s+', ' or ', 'g')
+    ) AS tsq,
+    substring(query_text from '(?i)\m(?:page|pg|p)\.?\s*(\d+)')::integer AS page
+  )
+  SELECT
+    dc.id,
+    dc.chunk_index,
+    dc.start_page,
+    dc.end_page,
+    dc.content,
+    (
+      ts_rank(dc.search_vector, q.tsq)
+      + CASE WHEN q.page BETWEEN dc.start_page AND dc.end_page THEN 1.0 ELSE 0 END
+    )::real AS rank
+  FROM public.document_chunks dc, q
+  WHERE dc.document_id = target_document_id
+    AND (dc.search_vector @@ q.tsq OR q.page BETWEEN dc.start_page AND dc.end_page)
+  ORDER BY rank DESC, dc.chunk_index
+  LIMIT greatest(match_count, 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_document_chunks(uuid, text, integer) TO authenticated, service_role;
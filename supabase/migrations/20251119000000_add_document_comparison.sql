@@ -0,0 +1,10 @@
+-- Version comparison (redline) for documents.
+-- comparison is stored on the revised version and holds the result of document-summarizer
+-- in "compare" mode: the clauses of both versions aligned in order, a word-level diff for
+-- each modified clause and a plain-language explanation of every material change.
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS comparison jsonb;
+
+COMMENT ON COLUMN public.documents.comparison IS
+  'Redline: {base_document_id, base_title, revised_title, perspective, changes[{status, heading, base_text, revised_text, diff, material, explanation, impact, impact_reason}], stats, unreviewed, generated_at}';
@@ -0,0 +1,30 @@
+-- OCR for scanned documents.
+-- Scanned PDF pages and photos (JPG/PNG) are read with OCR in the browser and the text is
+-- sent back to document-summarizer; ocr_pages records the confidence for each OCR'd page.
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS ocr_pages jsonb;
+
+COMMENT ON COLUMN public.documents.ocr_pages IS
+  'Pages read with OCR: [{page, confidence}], confidence is the mean word confidence (0-100)';
+
+ALTER TABLE public.documents
+  DROP CONSTRAINT IF EXISTS documents_extraction_method_check;
+
+-- ocr: the browser fallback read one or more pages with OCR
+ALTER TABLE public.documents
+  ADD CONSTRAINT documents_extraction_method_check
+  CHECK (extraction_method IS NULL OR extraction_method IN ('server', 'client', 'ocr'));
+
+-- Photos of documents can be uploaded alongside PDFs and Word files
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+  'application/rtf',
+  'text/rtf',
+  'image/jpeg',
+  'image/png'
+]
+WHERE id = 'documents';
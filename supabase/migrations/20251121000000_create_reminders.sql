@@ -0,0 +1,45 @@
+-- Deadlines found in documents and the user's own reminders list.
+-- documents.deadlines holds the events extracted by document-summarizer (after every summary,
+-- or in "deadlines" mode); reminders are the events the user chose to track on the Dashboard.
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS deadlines jsonb;
+
+COMMENT ON COLUMN public.documents.deadlines IS
+  'Deadlines: {events[{id, date, date_text, description, party, kind, source_clause, page, quote_verified}], skipped_pages, generated_at}';
+
+CREATE TABLE IF NOT EXISTS public.reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Kept when the document is deleted so the reminder is not lost with it
+  document_id uuid REFERENCES public.documents(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  description text,
+  party text,
+  kind text DEFAULT 'other' NOT NULL,
+  due_date date NOT NULL,
+  -- The sentence of the document the deadline comes from, and its page
+  source_clause text,
+  source_page integer,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Adding the same event twice from a document is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reminders_unique_event
+  ON public.reminders(user_id, document_id, due_date, title);
+CREATE INDEX IF NOT EXISTS idx_reminders_user_due_date ON public.reminders(user_id, due_date);
+
+ALTER TABLE public.reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reminders" ON public.reminders
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own reminders" ON public.reminders
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own reminders" ON public.reminders
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reminders" ON public.reminders
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- Per-request audit of personal data hidden from the LLM provider.
+-- Edge functions replace Aadhaar, PAN, phone and bank account numbers and addresses with
+-- placeholders such as [PHONE_1] before calling the provider; each row records which
+-- placeholders were used and how often. The original values are never stored here.
+
+CREATE TABLE IF NOT EXISTS public.redaction_audits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  feature text NOT NULL,
+  document_id uuid REFERENCES public.documents(id) ON DELETE SET NULL,
+  session_id uuid REFERENCES public.chat_sessions(id) ON DELETE SET NULL,
+  total integer NOT NULL DEFAULT 0,
+  -- {aadhaar, pan, bank_account, phone, address}: number of distinct values of each type
+  counts jsonb DEFAULT '{}'::jsonb NOT NULL,
+  -- [{placeholder, type, occurrences}]
+  items jsonb DEFAULT '[]'::jsonb NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_redaction_audits_user_created_at ON public.redaction_audits(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_redaction_audits_document ON public.redaction_audits(document_id);
+
+ALTER TABLE public.redaction_audits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redaction audits" ON public.redaction_audits
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own redaction audits" ON public.redaction_audits
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,97 @@
+-- Drafting studio: legal drafts generated from guided forms and edited by the user.
+-- drafts holds the current text of each draft; draft_versions keeps every saved version.
+-- Inserting a version numbers it and makes it the draft's current text.
+
+CREATE TABLE IF NOT EXISTS public.drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  template text NOT NULL CHECK (template IN ('legal_notice', 'rti_application', 'consumer_complaint', 'rent_agreement', 'affidavit')),
+  title text NOT NULL,
+  language text DEFAULT 'en' NOT NULL,
+  -- Answers to the template's guided form
+  form_data jsonb DEFAULT '{}'::jsonb NOT NULL,
+  -- [{heading, body}]
+  sections jsonb DEFAULT '[]'::jsonb NOT NULL,
+  current_version integer DEFAULT 0 NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_drafts_user_updated_at ON public.drafts(user_id, updated_at DESC);
+
+ALTER TABLE public.drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own drafts" ON public.drafts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own drafts" ON public.drafts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own drafts" ON public.drafts
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own drafts" ON public.drafts
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS public.draft_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id uuid REFERENCES public.drafts(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  title text NOT NULL,
+  sections jsonb NOT NULL,
+  -- generated: first AI draft; regenerated: a section rewritten by AI; edited: saved by the user;
+  -- restored: an earlier version made current again
+  source text DEFAULT 'edited' NOT NULL CHECK (source IN ('generated', 'regenerated', 'edited', 'restored')),
+  note text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE(draft_id, version)
+);
+
+ALTER TABLE public.draft_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own draft versions" ON public.draft_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create versions of their own drafts" ON public.draft_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.drafts WHERE drafts.id = draft_id AND drafts.user_id = auth.uid())
+  );
+
+-- Number the version after the latest one, locking the draft so concurrent saves don't collide
+CREATE OR REPLACE FUNCTION public.number_draft_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM public.drafts WHERE id = NEW.draft_id FOR UPDATE;
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.draft_versions
+  WHERE draft_id = NEW.draft_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER number_draft_version
+  BEFORE INSERT ON public.draft_versions
+  FOR EACH ROW EXECUTE FUNCTION public.number_draft_version();
+
+-- The newest version is the draft's current text
+CREATE OR REPLACE FUNCTION public.apply_draft_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.drafts
+  SET title = NEW.title, sections = NEW.sections, current_version = NEW.version, updated_at = now()
+  WHERE id = NEW.draft_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_draft_version
+  AFTER INSERT ON public.draft_versions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_draft_version();
@@ -0,0 +1,262 @@
+-- Structured eligibility rules for government_schemes, evaluated by the rule engine in
+-- supabase/functions/_shared/eligibility.ts instead of asking the AI to list schemes.
+--
+-- eligibility_criteria holds the rules the age / income / gender / state columns cannot express:
+--   castes        ["general" | "obc" | "sc" | "st" | "pvtg" | "dnt"]   (PVTG applicants count as ST)
+--   genders       ["male" | "female" | "other"]
+--   disability, minority, student   true when the scheme is only for them
+--   area_types    ["urban" | "rural"]
+--   occupations   values of the applicant form ("farmer", "self-employed", ...)
+--   income_basis  "applicant" (default) or "family" (parent/guardian income, for scholarships)
+--   any_of        list of rule groups of which at least one must pass
+--   conditions    requirements the form cannot check, shown to the user to verify
+
+ALTER TABLE public.government_schemes
+  ADD COLUMN IF NOT EXISTS official_website text;
+
+-- Seeded schemes: criteria, how to apply and documents
+UPDATE public.government_schemes SET
+  eligibility_criteria = '{"conditions": ["You do not already have a basic savings bank account"]}'::jsonb,
+  application_process = 'Visit any bank branch or Business Correspondent (Bank Mitra) outlet and fill in the account opening form with your KYC documents. No minimum balance is needed.',
+  required_documents = ARRAY['Aadhaar card', 'Passport size photograph', 'Any other officially valid document if Aadhaar is not available'],
+  official_website = 'https://pmjdy.gov.in'
+WHERE name = 'Pradhan Mantri Jan Dhan Yojana';
+
+UPDATE public.government_schemes SET
+  eligibility_criteria = '{"conditions": ["This is an awareness campaign; benefits reach girls through district programmes and Sukanya Samriddhi accounts"]}'::jsonb,
+  application_process = 'Contact the District Women and Child Development office or the anganwadi centre for programmes running in your district.',
+  official_website = 'https://wcd.gov.in'
+WHERE name = 'Beti Bachao Beti Padhao';
+
+UPDATE public.government_schemes SET
+  name = 'Pradhan Mantri Awas Yojana - Urban 2.0',
+  max_income = 900000,
+  eligibility_criteria = '{"area_types": ["urban"], "conditions": ["No member of your family owns a pucca house anywhere in India"]}'::jsonb,
+  application_process = 'Apply online on the PMAY-U portal or at the Urban Local Body office. EWS, LIG and MIG families choose between beneficiary-led construction, affordable housing, rental housing and interest subsidy.',
+  required_documents = ARRAY['Aadhaar card of all family members', 'Income certificate', 'Bank account details', 'Declaration of not owning a pucca house'],
+  official_website = 'https://pmay-urban.gov.in'
+WHERE name = 'Pradhan Mantri Awas Yojana';
+
+UPDATE public.government_schemes SET
+  name = 'Ayushman Bharat - Pradhan Mantri Jan Arogya Yojana',
+  eligibility_criteria = '{"conditions": ["Your family is listed under the SECC 2011 deprivation criteria or your state''s beneficiary list, or you are aged 70 or above"]}'::jsonb,
+  application_process = 'Check your name on the PM-JAY beneficiary portal or at an empanelled hospital''s Ayushman Mitra desk, then get your Ayushman card made with Aadhaar e-KYC.',
+  required_documents = ARRAY['Aadhaar card', 'Ration card', 'Mobile number linked to Aadhaar'],
+  official_website = 'https://beneficiary.nha.gov.in'
+WHERE name = 'Ayushman Bharat';
+
+UPDATE public.government_schemes SET
+  eligibility_criteria = '{"occupations": ["farmer"], "conditions": ["Your family owns cultivable land in its name", "No family member pays income tax, holds a constitutional post or is a government employee or pensioner drawing Rs. 10,000 or more a month"]}'::jsonb,
+  application_process = 'Register on the PM-KISAN portal (New Farmer Registration), through a Common Service Centre or with the state agriculture department, and complete e-KYC.',
+  required_documents = ARRAY['Aadhaar card', 'Land ownership records', 'Bank account linked to Aadhaar'],
+  official_website = 'https://pmkisan.gov.in'
+WHERE name = 'PM Kisan Samman Nidhi';
+
+UPDATE public.government_schemes SET
+  max_age = 70,
+  eligibility_criteria = '{}'::jsonb,
+  application_process = 'Open an NPS account online through eNPS or at a bank or post office that acts as a Point of Presence.',
+  required_documents = ARRAY['PAN card', 'Aadhaar card', 'Bank account details', 'Photograph and signature'],
+  official_website = 'https://enps.nsdl.com'
+WHERE name = 'National Pension Scheme';
+
+UPDATE public.government_schemes SET
+  eligibility_criteria = '{"conditions": ["The account is opened by a parent or guardian", "At most two accounts per family (three for twins or triplets)"]}'::jsonb,
+  application_process = 'Open the account at a post office or authorised bank with a minimum deposit of Rs. 250.',
+  required_documents = ARRAY['Birth certificate of the girl child', 'Aadhaar and PAN of the parent or guardian', 'Address proof'],
+  official_website = 'https://www.indiapost.gov.in'
+WHERE name = 'Sukanya Samriddhi Yojana';
+
+UPDATE public.government_schemes SET
+  eligibility_criteria = '{"occupations": ["self-employed", "business", "unemployed"], "conditions": ["The loan is for a non-farm income-generating micro or small enterprise", "You are not a defaulter to any bank"]}'::jsonb,
+  application_process = 'Apply at any bank, NBFC or microfinance institution, or online on the Udyamimitra portal, with a simple business plan.',
+  required_documents = ARRAY['Aadhaar card', 'PAN card', 'Business plan or quotation of machinery', 'Proof of business address', 'Bank statements'],
+  official_website = 'https://www.mudra.org.in'
+WHERE name = 'PM Mudra Yojana';
+
+UPDATE public.government_schemes SET
+  eligibility_criteria = '{"conditions": ["You are not an income tax payer"]}'::jsonb,
+  application_process = 'Enrol through the bank or post office where you have a savings account; contributions are auto-debited every month.',
+  required_documents = ARRAY['Aadhaar card', 'Savings bank account', 'Mobile number'],
+  official_website = 'https://www.pfrda.org.in'
+WHERE name = 'Atal Pension Yojana';
+
+UPDATE public.government_schemes SET
+  eligibility_criteria = '{"student": true, "conditions": ["You are the dependent ward or widow of an ex-serviceman or ex-Coast Guard personnel", "You are in the first year of a professional degree course with at least 60% in the qualifying examination"]}'::jsonb,
+  application_process = 'Apply on the National Scholarship Portal and get the application verified by the Zila Sainik Board.',
+  required_documents = ARRAY['Ex-serviceman identity card or discharge book', 'Mark sheet of the qualifying examination', 'Admission proof', 'Bank account details'],
+  official_website = 'https://ksb.gov.in'
+WHERE name = 'PM Scholarship Scheme';
+
+-- Schemes for specific categories, occupations, areas and states
+INSERT INTO public.government_schemes
+  (name, description, benefits, category, state, min_age, max_age, min_income, max_income, gender, eligibility_criteria, application_process, required_documents, official_website, is_active)
+SELECT
+  v.name, v.description, v.benefits, v.category, v.state,
+  v.min_age::integer, v.max_age::integer, v.min_income::numeric, v.max_income::numeric, v.gender,
+  v.eligibility_criteria::jsonb, v.application_process, v.required_documents::text[], v.official_website, true
+FROM (VALUES
+  ('Post Matric Scholarship for Scheduled Castes',
+   'Central scholarship for SC students studying in Class 11 and above, including graduation, professional and postgraduate courses.',
+   'Full compulsory fees and a yearly academic allowance paid into the student''s bank account.',
+   'Education', 'All India', NULL, NULL, NULL, '250000', 'any',
+   '{"castes": ["sc"], "student": true, "income_basis": "family", "conditions": ["You are studying in Class 11 or above at a recognised institution"]}',
+   'Apply on the National Scholarship Portal or your state''s scholarship portal before the yearly deadline; the institute verifies the application.',
+   '{"Caste certificate","Family income certificate","Previous year mark sheet","Fee receipt","Aadhaar-seeded bank account"}',
+   'https://scholarships.gov.in'),
+  ('Post Matric Scholarship for Scheduled Tribes',
+   'Central scholarship for ST students studying in Class 11 and above.',
+   'Compulsory fees and a yearly maintenance allowance paid through Direct Benefit Transfer.',
+   'Education', 'All India', NULL, NULL, NULL, '250000', 'any',
+   '{"castes": ["st"], "student": true, "income_basis": "family", "conditions": ["You are studying in Class 11 or above at a recognised institution"]}',
+   'Apply on your state''s tribal welfare scholarship portal or the National Scholarship Portal.',
+   '{"Tribe certificate","Family income certificate","Previous year mark sheet","Fee receipt","Aadhaar-seeded bank account"}',
+   'https://tribal.nic.in'),
+  ('PM YASASVI Scholarship for OBC, EBC and DNT Students',
+   'Pre-matric and post-matric scholarships for OBC, economically backward and de-notified, nomadic and semi-nomadic tribe students.',
+   'Yearly scholarship covering fees and maintenance, depending on the class and course.',
+   'Education', 'All India', NULL, NULL, NULL, '250000', 'any',
+   '{"castes": ["obc", "dnt"], "student": true, "income_basis": "family"}',
+   'Apply on the National Scholarship Portal or your state''s scholarship portal.',
+   '{"Caste certificate","Family income certificate","Previous year mark sheet","Aadhaar-seeded bank account"}',
+   'https://scholarships.gov.in'),
+  ('Post Matric Scholarship for Minorities',
+   'Scholarship for students from the six notified minority communities studying in Class 11 and above.',
+   'Admission and tuition fees and a monthly maintenance allowance.',
+   'Education', 'All India', NULL, NULL, NULL, '200000', 'any',
+   '{"minority": true, "student": true, "income_basis": "family", "conditions": ["At least 50% marks in the previous final examination"]}',
+   'Apply on the National Scholarship Portal before the yearly deadline.',
+   '{"Self-declaration of community","Family income certificate","Previous year mark sheet","Fee receipt","Aadhaar-seeded bank account"}',
+   'https://scholarships.gov.in'),
+  ('Pre Matric Scholarship for Minorities',
+   'Scholarship for minority community students in Class 9 and 10.',
+   'Admission and tuition fees and a maintenance allowance for the academic year.',
+   'Education', 'All India', NULL, NULL, NULL, '100000', 'any',
+   '{"minority": true, "student": true, "income_basis": "family", "conditions": ["You are studying in Class 9 or 10", "At least 50% marks in the previous final examination"]}',
+   'Apply on the National Scholarship Portal through your school.',
+   '{"Self-declaration of community","Family income certificate","Previous year mark sheet","Aadhaar-seeded bank account"}',
+   'https://scholarships.gov.in'),
+  ('Post Matric Scholarship for Students with Disabilities',
+   'Scholarship for students with benchmark disabilities studying in Class 11 and above.',
+   'Maintenance allowance, disability allowance, book grant and reimbursement of fees.',
+   'Education', 'All India', NULL, NULL, NULL, '250000', 'any',
+   '{"disability": true, "student": true, "income_basis": "family", "conditions": ["Disability of 40% or more certified by a competent medical authority"]}',
+   'Apply on the National Scholarship Portal under the Department of Empowerment of Persons with Disabilities.',
+   '{"Disability certificate or UDID card","Family income certificate","Previous year mark sheet","Fee receipt","Aadhaar-seeded bank account"}',
+   'https://scholarships.gov.in'),
+  ('ADIP Scheme (Assistance to Disabled Persons for Aids and Appliances)',
+   'Free or subsidised assistive devices such as wheelchairs, hearing aids, artificial limbs and smart canes.',
+   'Full cost of aids and appliances for monthly income up to Rs. 22,500 and half the cost up to Rs. 30,000.',
+   'Health', 'All India', NULL, NULL, NULL, '360000', 'any',
+   '{"disability": true, "income_basis": "family", "conditions": ["Disability of 40% or more certified by a competent medical authority", "You have not received the same aid from the government in the last 3 years"]}',
+   'Register at an ALIMCO assessment camp or through the District Disability Rehabilitation Centre.',
+   '{"Disability certificate or UDID card","Income certificate","Aadhaar card","Passport size photograph"}',
+   'https://www.alimco.in'),
+  ('Indira Gandhi National Old Age Pension Scheme',
+   'Monthly pension for elderly people from Below Poverty Line households under the National Social Assistance Programme.',
+   'Central pension of Rs. 200 a month (Rs. 500 from age 80), with most states adding their own top-up.',
+   'Pension', 'All India', '60', NULL, NULL, NULL, 'any',
+   '{"conditions": ["Your household is on the Below Poverty Line list"]}',
+   'Apply at the Gram Panchayat, block office or municipal office, or through your state''s social security portal.',
+   '{"Age proof","BPL card","Aadhaar card","Bank or post office account"}',
+   'https://nsap.nic.in'),
+  ('Indira Gandhi National Disability Pension Scheme',
+   'Monthly pension for persons with severe or multiple disabilities from Below Poverty Line households.',
+   'Central pension of Rs. 300 a month (Rs. 500 from age 80), with state top-ups.',
+   'Pension', 'All India', '18', '79', NULL, NULL, 'any',
+   '{"disability": true, "conditions": ["Your household is on the Below Poverty Line list", "Severe or multiple disability of 80% or more"]}',
+   'Apply at the Gram Panchayat, block office or municipal office with your disability certificate.',
+   '{"Disability certificate or UDID card","BPL card","Aadhaar card","Bank or post office account"}',
+   'https://nsap.nic.in'),
+  ('Indira Gandhi National Widow Pension Scheme',
+   'Monthly pension for widows from Below Poverty Line households.',
+   'Central pension of Rs. 300 a month (Rs. 500 from age 80), with state top-ups.',
+   'Pension', 'All India', '40', '79', NULL, NULL, 'female',
+   '{"conditions": ["You are a widow", "Your household is on the Below Poverty Line list"]}',
+   'Apply at the Gram Panchayat, block office or municipal office.',
+   '{"Husband''s death certificate","BPL card","Aadhaar card","Bank or post office account"}',
+   'https://nsap.nic.in'),
+  ('Mahatma Gandhi National Rural Employment Guarantee Scheme',
+   'Legal guarantee of up to 100 days of wage employment a year for every rural household whose adults volunteer for unskilled manual work.',
+   'Work within 5 km of home at the notified state wage rate, or an unemployment allowance if work is not given within 15 days.',
+   'Employment', 'All India', '18', NULL, NULL, NULL, 'any',
+   '{"area_types": ["rural"], "conditions": ["You are willing to do unskilled manual work"]}',
+   'Register your household at the Gram Panchayat to get a job card, then apply for work in writing.',
+   '{"Aadhaar card","Photograph","Bank or post office account"}',
+   'https://nrega.nic.in'),
+  ('Pradhan Mantri Awas Yojana - Gramin',
+   'Assistance to build a pucca house with basic amenities for houseless and kutcha-house households in rural areas.',
+   'Rs. 1.2 lakh in the plains and Rs. 1.3 lakh in hilly areas, plus MGNREGA wages and Swachh Bharat toilet support.',
+   'Housing', 'All India', NULL, NULL, NULL, NULL, 'any',
+   '{"area_types": ["rural"], "conditions": ["You are houseless or live in a kutcha or dilapidated house", "Your household is on the Awaas+ / SECC list verified by the Gram Sabha"]}',
+   'Beneficiaries are selected from the Awaas+ survey; contact the Gram Panchayat or block office to check your status.',
+   '{"Aadhaar card","Job card","Bank account details","Swachh Bharat Mission number"}',
+   'https://pmayg.dord.gov.in'),
+  ('Stand-Up India',
+   'Bank loans for SC, ST and women entrepreneurs setting up a new enterprise in manufacturing, services, trading or agri-allied activities.',
+   'Composite loan between Rs. 10 lakh and Rs. 1 crore covering up to 85% of the project cost.',
+   'Business', 'All India', '18', NULL, NULL, NULL, 'any',
+   '{"any_of": [{"castes": ["sc", "st"]}, {"genders": ["female"]}], "conditions": ["The loan is for a new (greenfield) enterprise", "You are not a defaulter to any bank"]}',
+   'Apply online on the Stand-Up Mitra portal or at any scheduled commercial bank branch.',
+   '{"Aadhaar card","PAN card","Caste certificate for SC/ST applicants","Project report","Proof of business address"}',
+   'https://www.standupmitra.in'),
+  ('PM Vishwakarma',
+   'Support for traditional artisans and craftspeople in 18 trades such as carpentry, pottery, tailoring, blacksmithy and goldsmithy.',
+   'Skill training with a stipend, a toolkit incentive of Rs. 15,000 and collateral-free loans up to Rs. 3 lakh at 5% interest.',
+   'Business', 'All India', '18', NULL, NULL, NULL, 'any',
+   '{"occupations": ["self-employed"], "conditions": ["You work with your hands and tools in one of the 18 listed trades", "Only one member per family can register"]}',
+   'Register at a Common Service Centre; the Gram Panchayat or Urban Local Body verifies your trade.',
+   '{"Aadhaar card","Mobile number linked to Aadhaar","Bank account details","Ration card"}',
+   'https://pmvishwakarma.gov.in'),
+  ('PM SVANidhi',
+   'Working capital loans for street vendors in urban areas.',
+   'Collateral-free loans of Rs. 10,000, then Rs. 20,000 and Rs. 50,000 on repayment, with 7% interest subsidy and digital payment cashback.',
+   'Business', 'All India', NULL, NULL, NULL, NULL, 'any',
+   '{"area_types": ["urban"], "occupations": ["self-employed"], "conditions": ["You are a street vendor with a Certificate of Vending or a letter of recommendation from the Urban Local Body"]}',
+   'Apply on the PM SVANidhi portal, through a Common Service Centre or at a bank branch.',
+   '{"Aadhaar card","Certificate of Vending or letter of recommendation","Bank account details"}',
+   'https://pmsvanidhi.mohua.gov.in'),
+  ('Pradhan Mantri Ujjwala Yojana',
+   'Free LPG connections for women from poor households.',
+   'Deposit-free LPG connection, first refill and stove, with a subsidy on refills.',
+   'Social Welfare', 'All India', '18', NULL, NULL, NULL, 'female',
+   '{"conditions": ["No one in your household has an LPG connection", "Your household is poor (SC/ST, PMAY-G, Antyodaya, forest dwellers or a declared deprived household)"]}',
+   'Apply online on the PMUY portal or at the nearest LPG distributor.',
+   '{"Aadhaar card","Ration card","Bank account details","Poor household declaration"}',
+   'https://pmuy.gov.in'),
+  ('Mukhyamantri Majhi Ladki Bahin Yojana',
+   'Maharashtra government monthly financial assistance for women.',
+   'Rs. 1,500 a month paid into the woman''s Aadhaar-linked bank account.',
+   'Financial', 'Maharashtra', '21', '65', NULL, '250000', 'female',
+   '{"income_basis": "family", "conditions": ["You are married, widowed, divorced, abandoned or destitute, or the one unmarried woman of your family", "No family member pays income tax or is a government employee"]}',
+   'Apply on the Ladki Bahin portal or app, or at the anganwadi centre or ward office.',
+   '{"Aadhaar card","Maharashtra domicile certificate or ration card","Income certificate","Aadhaar-linked bank account"}',
+   'https://ladakibahin.maharashtra.gov.in'),
+  ('Kanyashree Prakalpa',
+   'West Bengal conditional cash transfer to keep girls in education and delay their marriage.',
+   'Yearly scholarship of Rs. 1,000 from age 13 and a one-time grant of Rs. 25,000 at 18.',
+   'Education', 'West Bengal', '13', '19', NULL, NULL, 'female',
+   '{"student": true, "conditions": ["You are unmarried", "You are enrolled in Class 8 or above or in equivalent vocational or sports training"]}',
+   'Apply through your school or institution on the Kanyashree portal.',
+   '{"Birth certificate","Bank account in the girl''s name","Declaration of unmarried status","Institution enrolment proof"}',
+   'https://wbkanyashree.gov.in'),
+  ('Pudhumai Penn Scheme',
+   'Tamil Nadu assistance for girls from government schools who join higher education.',
+   'Rs. 1,000 a month until the undergraduate degree, diploma or ITI course is completed.',
+   'Education', 'Tamil Nadu', NULL, NULL, NULL, NULL, 'female',
+   '{"student": true, "conditions": ["You studied Class 6 to 12 in a Tamil Nadu government school", "You are enrolled in a degree, diploma or ITI course"]}',
+   'Apply through your college on the Pudhumai Penn portal.',
+   '{"School transfer certificate","Aadhaar card","College admission proof","Bank account in your name"}',
+   'https://penkalvi.tn.gov.in'),
+  ('Gruha Lakshmi',
+   'Karnataka monthly assistance for women heads of families.',
+   'Rs. 2,000 a month paid into the woman''s bank account.',
+   'Financial', 'Karnataka', '18', NULL, NULL, NULL, 'female',
+   '{"conditions": ["You are the head of the family on the ration card (APL, BPL or Antyodaya)", "Neither you nor your husband pays income tax or files GST returns"]}',
+   'Apply on the Seva Sindhu portal, at Grama One / Karnataka One centres or Bapuji Seva Kendras.',
+   '{"Ration card","Aadhaar card of the woman and her husband","Aadhaar-linked bank account"}',
+   'https://sevasindhugs.karnataka.gov.in')
+) AS v(name, description, benefits, category, state, min_age, max_age, min_income, max_income, gender, eligibility_criteria, application_process, required_documents, official_website)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.government_schemes existing WHERE existing.name = v.name
+);
@@ -0,0 +1,5 @@
+-- Admin role for staff who curate content such as the government schemes catalogue.
+-- Kept in its own migration: a new enum value cannot be used in the transaction that adds it.
+-- Grant it by hand: INSERT INTO public.user_roles (user_id, role) VALUES ('<user id>', 'admin');
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'admin';
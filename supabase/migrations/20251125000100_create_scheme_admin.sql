@@ -0,0 +1,226 @@
+-- Admin console for the government schemes catalogue: admins can create, edit, retire and
+-- delete schemes, import them in bulk, and every change is recorded in
+-- government_scheme_changes.
+
+-- Sign-up metadata is chosen by the client, so it may only ever ask for 'user' or 'lawyer'
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_role app_role;
+BEGIN
+  -- Get role from metadata, default to 'user'; admin is only granted by hand
+  user_role := CASE WHEN NEW.raw_user_meta_data->>'role' = 'lawyer' THEN 'lawyer' ELSE 'user' END::app_role;
+
+  -- Insert into profiles
+  INSERT INTO public.profiles (user_id, name, email)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'name', split_part(NEW.email, '@', 1)),
+    NEW.email
+  );
+
+  -- Insert role
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, user_role);
+
+  -- If lawyer, create lawyer profile
+  IF user_role = 'lawyer' THEN
+    INSERT INTO public.lawyer_profiles (user_id)
+    VALUES (NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.government_schemes
+  ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Imports match existing schemes by name
+CREATE UNIQUE INDEX IF NOT EXISTS idx_government_schemes_name ON public.government_schemes (lower(name));
+
+CREATE TRIGGER update_government_schemes_updated_at
+  BEFORE UPDATE ON public.government_schemes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Admins can view all government schemes" ON public.government_schemes
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create government schemes" ON public.government_schemes
+  FOR INSERT WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update government schemes" ON public.government_schemes
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete government schemes" ON public.government_schemes
+  FOR DELETE USING (public.has_role(auth.uid(), 'admin'));
+
+-- Change history; rows are written only by the trigger below
+CREATE TABLE IF NOT EXISTS public.government_scheme_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Kept after the scheme is deleted, with its name
+  scheme_id uuid REFERENCES public.government_schemes(id) ON DELETE SET NULL,
+  scheme_name text NOT NULL,
+  action text NOT NULL CHECK (action IN ('created', 'updated', 'retired', 'restored', 'deleted')),
+  -- admin: edited in the console; import: bulk CSV/JSON import
+  source text DEFAULT 'admin' NOT NULL CHECK (source IN ('admin', 'import')),
+  -- {field: {old, new}} for updates; the full row for creates and deletes
+  changes jsonb DEFAULT '{}'::jsonb NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_government_scheme_changes_scheme ON public.government_scheme_changes(scheme_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_government_scheme_changes_created_at ON public.government_scheme_changes(created_at DESC);
+
+ALTER TABLE public.government_scheme_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scheme change history" ON public.government_scheme_changes
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.record_government_scheme_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  change_source text := COALESCE(NULLIF(current_setting('app.scheme_change_source', true), ''), 'admin');
+  old_row jsonb;
+  new_row jsonb;
+  diff jsonb;
+  change_action text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.government_scheme_changes (scheme_id, scheme_name, action, source, changes, changed_by)
+    VALUES (NEW.id, NEW.name, 'created', change_source, to_jsonb(NEW) - 'updated_at' - 'updated_by' - 'created_at', auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- The scheme row is gone by the time this runs, so the history row does not reference it
+    INSERT INTO public.government_scheme_changes (scheme_id, scheme_name, action, source, changes, changed_by)
+    VALUES (NULL, OLD.name, 'deleted', change_source, to_jsonb(OLD) - 'updated_at' - 'updated_by' - 'created_at', auth.uid());
+    RETURN OLD;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+  SELECT jsonb_object_agg(key, jsonb_build_object('old', old_row -> key, 'new', value))
+  INTO diff
+  FROM jsonb_each(new_row)
+  WHERE key NOT IN ('updated_at', 'updated_by', 'created_at')
+    AND old_row -> key IS DISTINCT FROM value;
+
+  -- Saving a form without changes is not a change
+  IF diff IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  change_action := CASE
+    WHEN OLD.is_active AND NOT NEW.is_active THEN 'retired'
+    WHEN NOT OLD.is_active AND NEW.is_active THEN 'restored'
+    ELSE 'updated'
+  END;
+
+  INSERT INTO public.government_scheme_changes (scheme_id, scheme_name, action, source, changes, changed_by)
+  VALUES (NEW.id, NEW.name, change_action, change_source, diff, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_government_scheme_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.government_schemes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_government_scheme_change();
+
+-- Bulk import from the admin console: creates new schemes and replaces existing ones (matched
+-- by name, case-insensitive) in one transaction, so a bad row leaves the catalogue unchanged
+CREATE OR REPLACE FUNCTION public.import_government_schemes(schemes jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  item jsonb;
+  existing_id uuid;
+  created_count integer := 0;
+  updated_count integer := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import schemes' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(schemes) <> 'array' THEN
+    RAISE EXCEPTION 'Expected an array of schemes' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.scheme_change_source', 'import', true);
+
+  FOR item IN SELECT value FROM jsonb_array_elements(schemes) LOOP
+    IF COALESCE(trim(item ->> 'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every scheme needs a name' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT id INTO existing_id
+    FROM public.government_schemes
+    WHERE lower(name) = lower(trim(item ->> 'name'));
+
+    IF existing_id IS NULL THEN
+      INSERT INTO public.government_schemes (
+        name, description, benefits, category, state, min_age, max_age, min_income, max_income, gender,
+        eligibility_criteria, application_process, required_documents, deadline, official_website, is_active, updated_by
+      ) VALUES (
+        trim(item ->> 'name'),
+        item ->> 'description',
+        item ->> 'benefits',
+        item ->> 'category',
+        COALESCE(NULLIF(item ->> 'state', ''), 'All India'),
+        (item ->> 'min_age')::integer,
+        (item ->> 'max_age')::integer,
+        (item ->> 'min_income')::numeric,
+        (item ->> 'max_income')::numeric,
+        COALESCE(NULLIF(item ->> 'gender', ''), 'any'),
+        COALESCE(item -> 'eligibility_criteria', '{}'::jsonb),
+        item ->> 'application_process',
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(item -> 'required_documents', '[]'::jsonb))),
+        NULLIF(item ->> 'deadline', '')::date,
+        item ->> 'official_website',
+        COALESCE((item ->> 'is_active')::boolean, true),
+        auth.uid()
+      );
+      created_count := created_count + 1;
+    ELSE
+      UPDATE public.government_schemes SET
+        name = trim(item ->> 'name'),
+        description = item ->> 'description',
+        benefits = item ->> 'benefits',
+        category = item ->> 'category',
+        state = COALESCE(NULLIF(item ->> 'state', ''), 'All India'),
+        min_age = (item ->> 'min_age')::integer,
+        max_age = (item ->> 'max_age')::integer,
+        min_income = (item ->> 'min_income')::numeric,
+        max_income = (item ->> 'max_income')::numeric,
+        gender = COALESCE(NULLIF(item ->> 'gender', ''), 'any'),
+        eligibility_criteria = COALESCE(item -> 'eligibility_criteria', '{}'::jsonb),
+        application_process = item ->> 'application_process',
+        required_documents = ARRAY(SELECT jsonb_array_elements_text(COALESCE(item -> 'required_documents', '[]'::jsonb))),
+        deadline = NULLIF(item ->> 'deadline', '')::date,
+        official_website = item ->> 'official_website',
+        is_active = COALESCE((item ->> 'is_active')::boolean, true),
+        updated_by = auth.uid()
+      WHERE id = existing_id;
+      updated_count := updated_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', created_count, 'updated', updated_count);
+END;
+$$;
@@ -0,0 +1,226 @@
+-- Scheme application tracker: every saved scheme gets a scheme_applications row that moves
+-- through suggested -> applied -> approved / rejected, with the application reference, dates,
+-- notes and a checklist of required documents with uploaded proofs.
+
+-- Link saved schemes to the catalogue; the saved copy keeps the details if the scheme is deleted
+ALTER TABLE public.saved_schemes
+  ADD COLUMN IF NOT EXISTS scheme_id uuid REFERENCES public.government_schemes(id) ON DELETE SET NULL;
+
+UPDATE public.saved_schemes s
+SET scheme_id = g.id
+FROM public.government_schemes g
+WHERE s.scheme_id IS NULL
+  AND lower(g.name) = lower(s.scheme_name);
+
+CREATE INDEX IF NOT EXISTS idx_saved_schemes_scheme_id ON public.saved_schemes(scheme_id);
+
+-- A tracked application belongs to a saved scheme; deleting the catalogue entry keeps it
+ALTER TABLE public.scheme_applications
+  DROP CONSTRAINT IF EXISTS scheme_applications_scheme_id_fkey,
+  ALTER COLUMN scheme_id DROP NOT NULL,
+  ADD CONSTRAINT scheme_applications_scheme_id_fkey
+    FOREIGN KEY (scheme_id) REFERENCES public.government_schemes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS saved_scheme_id uuid REFERENCES public.saved_schemes(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS reference_number text,
+  ADD COLUMN IF NOT EXISTS applied_on date,
+  ADD COLUMN IF NOT EXISTS decided_on date,
+  ADD COLUMN IF NOT EXISTS notes text,
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamp with time zone DEFAULT now() NOT NULL;
+
+UPDATE public.scheme_applications SET status = 'suggested' WHERE status IS NULL;
+
+ALTER TABLE public.scheme_applications
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT scheme_applications_dates_check CHECK (decided_on IS NULL OR applied_on IS NULL OR decided_on >= applied_on);
+
+-- Checklist of documents for one application, seeded from the scheme's required documents
+CREATE TABLE IF NOT EXISTS public.scheme_application_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid REFERENCES public.scheme_applications(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  position integer DEFAULT 0 NOT NULL,
+  checked_at timestamp with time zone,
+  -- Proof in the scheme-proofs bucket: <user_id>/<application_id>/<file>
+  file_path text,
+  file_name text,
+  uploaded_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE (application_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheme_application_documents_application ON public.scheme_application_documents(application_id, position);
+
+ALTER TABLE public.scheme_application_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own application documents" ON public.scheme_application_documents
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM public.scheme_applications a WHERE a.id = application_id AND a.user_id = auth.uid())
+  );
+
+-- Record when the status last changed, for the board and reminders
+CREATE OR REPLACE FUNCTION public.track_scheme_application_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_scheme_application_status ON public.scheme_applications;
+CREATE TRIGGER track_scheme_application_status
+  BEFORE UPDATE ON public.scheme_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_scheme_application_status();
+
+DROP TRIGGER IF EXISTS update_scheme_applications_updated_at ON public.scheme_applications;
+CREATE TRIGGER update_scheme_applications_updated_at
+  BEFORE UPDATE ON public.scheme_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Saving a scheme starts tracking it with its document checklist
+CREATE OR REPLACE FUNCTION public.create_scheme_application()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_application_id uuid;
+BEGIN
+  IF NEW.scheme_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.scheme_applications
+    WHERE user_id = NEW.user_id AND scheme_id = NEW.scheme_id AND saved_scheme_id IS NOT NULL
+  ) THEN
+    -- Adopt an application started before this scheme was saved
+    INSERT INTO public.scheme_applications (user_id, scheme_id, saved_scheme_id)
+    VALUES (NEW.user_id, NEW.scheme_id, NEW.id)
+    ON CONFLICT (user_id, scheme_id) DO UPDATE SET saved_scheme_id = EXCLUDED.saved_scheme_id
+    RETURNING id INTO new_application_id;
+  ELSE
+    -- Not in the catalogue, or the same scheme saved twice: track it on its own
+    INSERT INTO public.scheme_applications (user_id, saved_scheme_id)
+    VALUES (NEW.user_id, NEW.id)
+    RETURNING id INTO new_application_id;
+  END IF;
+
+  INSERT INTO public.scheme_application_documents (application_id, user_id, name, position)
+  SELECT new_application_id, NEW.user_id, trim(document), ordinality
+  FROM unnest(COALESCE(NEW.scheme_documents, '{}')) WITH ORDINALITY AS d(document, ordinality)
+  WHERE trim(document) <> ''
+  ON CONFLICT (application_id, name) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_scheme_application ON public.saved_schemes;
+CREATE TRIGGER create_scheme_application
+  AFTER INSERT ON public.saved_schemes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_scheme_application();
+
+-- Backfill: applications without a saved scheme get one copied from the catalogue (the trigger
+-- links them), then every saved scheme without an application gets one
+INSERT INTO public.saved_schemes (
+  user_id, scheme_id, scheme_name, scheme_description, scheme_benefits, scheme_category, scheme_state,
+  scheme_how_to_apply, scheme_documents, scheme_deadline, scheme_official_website
+)
+SELECT a.user_id, g.id, g.name, g.description, g.benefits, g.category, g.state,
+  g.application_process, g.required_documents, g.deadline::text, g.official_website
+FROM public.scheme_applications a
+JOIN public.government_schemes g ON g.id = a.scheme_id
+WHERE a.saved_scheme_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM public.saved_schemes s WHERE s.user_id = a.user_id AND s.scheme_id = a.scheme_id);
+
+UPDATE public.scheme_applications a
+SET saved_scheme_id = s.id
+FROM public.saved_schemes s
+WHERE a.saved_scheme_id IS NULL
+  AND s.user_id = a.user_id
+  AND s.scheme_id = a.scheme_id;
+
+DO $$
+DECLARE
+  saved record;
+BEGIN
+  FOR saved IN
+    SELECT s.* FROM public.saved_schemes s
+    WHERE NOT EXISTS (SELECT 1 FROM public.scheme_applications a WHERE a.saved_scheme_id = s.id)
+  LOOP
+    INSERT INTO public.scheme_applications (user_id, scheme_id, saved_scheme_id)
+    VALUES (
+      saved.user_id,
+      CASE WHEN EXISTS (
+        SELECT 1 FROM public.scheme_applications
+        WHERE user_id = saved.user_id AND scheme_id = saved.scheme_id
+      ) THEN NULL ELSE saved.scheme_id END,
+      saved.id
+    );
+  END LOOP;
+END;
+$$;
+
+INSERT INTO public.scheme_application_documents (application_id, user_id, name, position)
+SELECT a.id, a.user_id, trim(d.document), d.ordinality
+FROM public.scheme_applications a
+JOIN public.saved_schemes s ON s.id = a.saved_scheme_id
+CROSS JOIN LATERAL unnest(COALESCE(s.scheme_documents, '{}')) WITH ORDINALITY AS d(document, ordinality)
+WHERE trim(d.document) <> ''
+ON CONFLICT (application_id, name) DO NOTHING;
+
+-- Every application now has a saved scheme; anything left points at no scheme at all
+DELETE FROM public.scheme_applications WHERE saved_scheme_id IS NULL;
+
+ALTER TABLE public.scheme_applications
+  ALTER COLUMN saved_scheme_id SET NOT NULL,
+  ADD CONSTRAINT scheme_applications_saved_scheme_id_key UNIQUE (saved_scheme_id);
+
+-- Proofs uploaded against checklist items
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'scheme-proofs',
+  'scheme-proofs',
+  false,
+  10485760, -- 10MB limit
+  ARRAY[
+    'application/pdf',
+    'image/jpeg',
+    'image/png',
+    'image/webp'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Users can only reach files inside their own folder
+CREATE POLICY "Users can upload their own scheme proofs"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'scheme-proofs' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can view their own scheme proofs"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'scheme-proofs' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own scheme proofs"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'scheme-proofs' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
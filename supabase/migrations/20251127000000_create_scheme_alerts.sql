@@ -0,0 +1,105 @@
+-- Scheme alerts: the applicant details from the schemes form are kept per user, and the
+-- scheme-alerts edge function matches them against newly added and soon-to-close schemes on a
+-- schedule, writing to an in-app notifications inbox and optionally sending an email digest.
+
+-- Answers from the government schemes form, in the shape the eligibility engine reads
+CREATE TABLE IF NOT EXISTS public.applicant_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  applicant_name text,
+  age integer NOT NULL CHECK (age BETWEEN 0 AND 120),
+  gender text NOT NULL CHECK (gender IN ('male', 'female', 'other')),
+  income numeric CHECK (income >= 0),
+  parent_income numeric CHECK (parent_income >= 0),
+  occupation text NOT NULL,
+  -- State slug from the form, e.g. tamil-nadu
+  state text NOT NULL,
+  area_type text NOT NULL CHECK (area_type IN ('urban', 'rural')),
+  caste text NOT NULL CHECK (caste IN ('general', 'obc', 'sc', 'st', 'pvtg', 'dnt')),
+  is_disabled boolean DEFAULT false NOT NULL,
+  is_minority boolean DEFAULT false NOT NULL,
+  is_student boolean DEFAULT false NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.applicant_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own applicant profile" ON public.applicant_profiles
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_applicant_profiles_updated_at ON public.applicant_profiles;
+CREATE TRIGGER update_applicant_profiles_updated_at
+  BEFORE UPDATE ON public.applicant_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- How often a user wants scheme alerts; no row means alerts are off
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  scheme_alerts text DEFAULT 'weekly' NOT NULL CHECK (scheme_alerts IN ('off', 'daily', 'weekly')),
+  email_enabled boolean DEFAULT false NOT NULL,
+  -- Alert on matching schemes that close within this many days
+  deadline_days integer DEFAULT 14 NOT NULL CHECK (deadline_days BETWEEN 1 AND 60),
+  -- Last time scheme-alerts checked this user; schemes added after it count as new
+  last_checked_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification preferences" ON public.notification_preferences
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON public.notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- In-app inbox. Rows are written by the scheme-alerts function with the service role; users can
+-- read, mark read and delete their own.
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('new_scheme', 'scheme_deadline')),
+  scheme_id uuid REFERENCES public.government_schemes(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  body text,
+  -- App route to open, e.g. /government-schemes
+  link text,
+  -- Scheme deadline for scheme_deadline alerts
+  due_date date,
+  read_at timestamp with time zone,
+  emailed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  -- A scheme is announced to a user once as new and once as closing
+  UNIQUE (user_id, scheme_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications" ON public.notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Only read_at is meant to change from the client
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- The Navigation bell listens for new rows
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Schemes added since a user was last checked are found by creation time
+CREATE INDEX IF NOT EXISTS idx_government_schemes_created_at ON public.government_schemes(created_at);
@@ -0,0 +1,50 @@
+-- Household profiles: an account can keep applicant details for several family members (self,
+-- spouse, parents, children) and search schemes for one member or the whole household. Scheme
+-- alerts match every member.
+
+ALTER TABLE public.applicant_profiles
+  DROP CONSTRAINT IF EXISTS applicant_profiles_user_id_key,
+  ADD COLUMN IF NOT EXISTS relationship text DEFAULT 'self' NOT NULL
+    CHECK (relationship IN ('self', 'spouse', 'parent', 'child', 'sibling', 'other'));
+
+-- Existing single profiles belong to the account holder
+UPDATE public.applicant_profiles a
+SET applicant_name = COALESCE(NULLIF(trim(a.applicant_name), ''), p.name, 'Me')
+FROM public.profiles p
+WHERE p.user_id = a.user_id
+  AND (a.applicant_name IS NULL OR trim(a.applicant_name) = '');
+
+UPDATE public.applicant_profiles
+SET applicant_name = 'Me'
+WHERE applicant_name IS NULL OR trim(applicant_name) = '';
+
+ALTER TABLE public.applicant_profiles
+  ALTER COLUMN applicant_name SET NOT NULL,
+  ADD CONSTRAINT applicant_profiles_name_check CHECK (length(trim(applicant_name)) BETWEEN 1 AND 100);
+
+CREATE INDEX IF NOT EXISTS idx_applicant_profiles_user ON public.applicant_profiles(user_id, created_at);
+
+-- Only one member can be the account holder
+CREATE UNIQUE INDEX IF NOT EXISTS applicant_profiles_one_self
+  ON public.applicant_profiles(user_id)
+  WHERE relationship = 'self';
+
+-- Keep households to a sensible size
+CREATE OR REPLACE FUNCTION public.limit_household_size()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT count(*) FROM public.applicant_profiles WHERE user_id = NEW.user_id) >= 10 THEN
+    RAISE EXCEPTION 'A household can have at most 10 members';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS limit_household_size ON public.applicant_profiles;
+CREATE TRIGGER limit_household_size
+  BEFORE INSERT ON public.applicant_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.limit_household_size();
@@ -0,0 +1,269 @@
+-- Verified lawyer reviews. The early ratings table and update_lawyer_rating trigger were dropped
+-- with the schema reset in 20251002063146; this brings them back as reviews that only a client
+-- with a concluded case against the lawyer can write. Lawyers can reply, admins can hide reviews,
+-- and the published ones are rolled up onto lawyer_profiles so the finder can filter and sort on
+-- them in SQL.
+
+-- Aggregates, kept up to date by update_lawyer_rating below
+ALTER TABLE public.lawyer_profiles
+  ADD COLUMN IF NOT EXISTS rating_average numeric(3,2),
+  ADD COLUMN IF NOT EXISTS review_count integer DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS rating_breakdown jsonb DEFAULT '{"1": 0, "2": 0, "3": 0, "4": 0, "5": 0}'::jsonb NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lawyer_profiles_rating
+  ON public.lawyer_profiles(rating_average DESC NULLS LAST, review_count DESC);
+
+CREATE TABLE IF NOT EXISTS public.lawyer_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lawyer_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  client_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- The concluded case that lets the client review this lawyer
+  case_id uuid REFERENCES public.cases(id) ON DELETE CASCADE NOT NULL,
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment text CHECK (length(comment) <= 2000),
+  lawyer_reply text CHECK (length(lawyer_reply) <= 2000),
+  replied_at timestamp with time zone,
+  -- published: counted and shown to everyone; hidden: taken down by an admin
+  status text DEFAULT 'published' NOT NULL CHECK (status IN ('published', 'hidden')),
+  moderation_reason text,
+  moderated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  moderated_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  -- One review per client and lawyer, however many cases they had together
+  UNIQUE(client_id, lawyer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lawyer_reviews_lawyer ON public.lawyer_reviews(lawyer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_lawyer_reviews_status ON public.lawyer_reviews(status, created_at DESC);
+
+ALTER TABLE public.lawyer_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Won, lost and closed cases are all finished as far as the client is concerned
+CREATE OR REPLACE FUNCTION public.is_concluded_case(_case_id uuid, _client_id uuid, _lawyer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.cases
+    WHERE id = _case_id
+      AND client_id = _client_id
+      AND lawyer_id = _lawyer_id
+      AND status IN ('won', 'lost', 'closed')
+  )
+$$;
+
+CREATE POLICY "Anyone can view published reviews"
+  ON public.lawyer_reviews FOR SELECT
+  USING (status = 'published');
+
+CREATE POLICY "Clients and lawyers can view their own reviews"
+  ON public.lawyer_reviews FOR SELECT
+  USING (auth.uid() = client_id OR auth.uid() = lawyer_id);
+
+CREATE POLICY "Admins can view all reviews"
+  ON public.lawyer_reviews FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Clients can review lawyers from concluded cases"
+  ON public.lawyer_reviews FOR INSERT
+  WITH CHECK (
+    auth.uid() = client_id
+    AND public.is_concluded_case(case_id, client_id, lawyer_id)
+  );
+
+-- Which columns each party may change is checked by guard_lawyer_review
+CREATE POLICY "Clients, lawyers and admins can update reviews"
+  ON public.lawyer_reviews FOR UPDATE
+  USING (
+    auth.uid() = client_id
+    OR auth.uid() = lawyer_id
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Clients can delete their own reviews"
+  ON public.lawyer_reviews FOR DELETE
+  USING (auth.uid() = client_id);
+
+CREATE POLICY "Admins can delete reviews"
+  ON public.lawyer_reviews FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Clients edit their rating and comment, lawyers their reply, admins the moderation fields.
+-- New reviews always start published with no reply. Calls without a user (service role) are
+-- left alone.
+CREATE OR REPLACE FUNCTION public.guard_lawyer_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+BEGIN
+  IF actor IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'published';
+    NEW.lawyer_reply := NULL;
+    NEW.replied_at := NULL;
+    NEW.moderation_reason := NULL;
+    NEW.moderated_by := NULL;
+    NEW.moderated_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.lawyer_id IS DISTINCT FROM OLD.lawyer_id
+    OR NEW.client_id IS DISTINCT FROM OLD.client_id
+    OR NEW.case_id IS DISTINCT FROM OLD.case_id THEN
+    RAISE EXCEPTION 'A review cannot be moved to another case' USING ERRCODE = '42501';
+  END IF;
+
+  IF (NEW.rating IS DISTINCT FROM OLD.rating OR NEW.comment IS DISTINCT FROM OLD.comment)
+    AND actor <> OLD.client_id THEN
+    RAISE EXCEPTION 'Only the client can edit a review' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.lawyer_reply IS DISTINCT FROM OLD.lawyer_reply THEN
+    IF actor <> OLD.lawyer_id THEN
+      RAISE EXCEPTION 'Only the lawyer can reply to a review' USING ERRCODE = '42501';
+    END IF;
+    NEW.lawyer_reply := NULLIF(trim(NEW.lawyer_reply), '');
+    NEW.replied_at := CASE WHEN NEW.lawyer_reply IS NULL THEN NULL ELSE now() END;
+  ELSE
+    NEW.replied_at := OLD.replied_at;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status OR NEW.moderation_reason IS DISTINCT FROM OLD.moderation_reason THEN
+    IF NOT public.has_role(actor, 'admin') THEN
+      RAISE EXCEPTION 'Only admins can moderate reviews' USING ERRCODE = '42501';
+    END IF;
+    NEW.moderated_by := actor;
+    NEW.moderated_at := now();
+  ELSE
+    NEW.moderated_by := OLD.moderated_by;
+    NEW.moderated_at := OLD.moderated_at;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_lawyer_review ON public.lawyer_reviews;
+CREATE TRIGGER guard_lawyer_review
+  BEFORE INSERT OR UPDATE ON public.lawyer_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_lawyer_review();
+
+-- Recompute a lawyer's aggregates from their published reviews
+CREATE OR REPLACE FUNCTION public.refresh_lawyer_rating(_lawyer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.refreshing_lawyer_rating', 'on', true);
+
+  UPDATE public.lawyer_profiles lp
+  SET rating_average = stats.average,
+      review_count = stats.total,
+      rating_breakdown = stats.breakdown
+  FROM (
+    SELECT
+      round(avg(rating), 2) AS average,
+      count(*)::integer AS total,
+      jsonb_build_object(
+        '1', count(*) FILTER (WHERE rating = 1),
+        '2', count(*) FILTER (WHERE rating = 2),
+        '3', count(*) FILTER (WHERE rating = 3),
+        '4', count(*) FILTER (WHERE rating = 4),
+        '5', count(*) FILTER (WHERE rating = 5)
+      ) AS breakdown
+    FROM public.lawyer_reviews
+    WHERE lawyer_id = _lawyer_id AND status = 'published'
+  ) stats
+  WHERE lp.user_id = _lawyer_id;
+
+  PERFORM set_config('app.refreshing_lawyer_rating', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_lawyer_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_lawyer_rating(OLD.lawyer_id);
+    RETURN OLD;
+  END IF;
+
+  -- Reply-only edits do not change the numbers
+  IF TG_OP = 'INSERT' OR NEW.rating IS DISTINCT FROM OLD.rating OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.refresh_lawyer_rating(NEW.lawyer_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_lawyer_rating ON public.lawyer_reviews;
+CREATE TRIGGER update_lawyer_rating
+  AFTER INSERT OR UPDATE OR DELETE ON public.lawyer_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_lawyer_rating();
+
+-- Lawyers may update their own profile row, but not their rating
+CREATE OR REPLACE FUNCTION public.protect_lawyer_rating()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.refreshing_lawyer_rating', true), 'off') <> 'on' THEN
+    NEW.rating_average := OLD.rating_average;
+    NEW.review_count := OLD.review_count;
+    NEW.rating_breakdown := OLD.rating_breakdown;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_lawyer_rating ON public.lawyer_profiles;
+CREATE TRIGGER protect_lawyer_rating
+  BEFORE UPDATE ON public.lawyer_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_lawyer_rating();
+
+-- Record when a case was concluded so clients can see when it became reviewable
+CREATE OR REPLACE FUNCTION public.set_case_closed_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IN ('won', 'lost', 'closed') THEN
+    NEW.closed_at := COALESCE(NEW.closed_at, now());
+  ELSE
+    NEW.closed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_case_closed_at ON public.cases;
+CREATE TRIGGER set_case_closed_at
+  BEFORE INSERT OR UPDATE OF status ON public.cases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_case_closed_at();
+
+UPDATE public.cases
+SET closed_at = COALESCE(closed_at, updated_at)
+WHERE status IN ('won', 'lost', 'closed') AND closed_at IS NULL;
@@ -0,0 +1,106 @@
+-- Lawyer search in the database. lawyer-finder used to page through lawyer_profiles first and
+-- filter by location and rating afterwards, so pages came back short while the total counted
+-- everyone. search_lawyers filters, sorts, counts and pages in one query.
+
+-- Languages a lawyer can consult in, as shown in the finder (e.g. 'Hindi', 'Tamil')
+ALTER TABLE public.lawyer_profiles
+  ADD COLUMN IF NOT EXISTS languages text[] DEFAULT '{}'::text[] NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lawyer_profiles_languages ON public.lawyer_profiles USING gin(languages);
+CREATE INDEX IF NOT EXISTS idx_lawyer_profiles_experience ON public.lawyer_profiles(experience_years DESC NULLS LAST);
+
+-- Available lawyers matching any of the given specializations and any of the given languages,
+-- with at least the given experience and average rating. Every row carries the number of
+-- matches before paging in total_count.
+--
+-- sort_by: relevance (most requested languages spoken and an exact city match first, then
+-- rating), rating, experience or name. Every order ends on the profile id so pages never
+-- overlap or skip lawyers that tie.
+CREATE OR REPLACE FUNCTION public.search_lawyers(
+  filter_specializations text[] DEFAULT NULL,
+  filter_languages text[] DEFAULT NULL,
+  filter_location text DEFAULT NULL,
+  min_experience integer DEFAULT 0,
+  min_rating numeric DEFAULT 0,
+  sort_by text DEFAULT 'relevance',
+  page_number integer DEFAULT 1,
+  page_size integer DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  email text,
+  phone text,
+  location text,
+  avatar_url text,
+  specialization text,
+  experience_years integer,
+  license_number text,
+  bio text,
+  languages text[],
+  rating_average numeric,
+  review_count integer,
+  rating_breakdown jsonb,
+  availability boolean,
+  relevance real,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(array_remove(filter_specializations, ''), '{}') AS specializations,
+      NULLIF(array_remove(filter_languages, ''), '{}') AS langs,
+      NULLIF(trim(filter_location), '') AS loc
+  ),
+  matches AS (
+    SELECT
+      lp.id,
+      lp.user_id,
+      COALESCE(p.name, 'Unknown') AS name,
+      COALESCE(p.email, '') AS email,
+      p.phone,
+      p.location,
+      p.avatar_url,
+      lp.specialization,
+      lp.experience_years,
+      lp.license_number,
+      lp.bio,
+      lp.languages,
+      lp.rating_average,
+      lp.review_count,
+      lp.rating_breakdown,
+      lp.availability,
+      (
+        COALESCE(cardinality(ARRAY(SELECT unnest(lp.languages) INTERSECT SELECT unnest(params.langs))), 0)
+        + CASE WHEN params.loc IS NOT NULL AND lower(trim(split_part(p.location, ',', 1))) = lower(params.loc) THEN 1 ELSE 0 END
+      )::real AS relevance
+    FROM public.lawyer_profiles lp
+    CROSS JOIN params
+    LEFT JOIN public.profiles p ON p.user_id = lp.user_id
+    WHERE lp.availability = true
+      AND (params.specializations IS NULL
+        OR EXISTS (SELECT 1 FROM unnest(params.specializations) s WHERE lp.specialization ILIKE '%' || s || '%'))
+      AND (params.langs IS NULL OR lp.languages && params.langs)
+      AND (params.loc IS NULL OR p.location ILIKE '%' || params.loc || '%')
+      AND (COALESCE(min_experience, 0) <= 0 OR lp.experience_years >= min_experience)
+      AND (COALESCE(min_rating, 0) <= 0 OR lp.rating_average >= min_rating)
+  )
+  SELECT m.*, count(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY
+    CASE WHEN sort_by = 'name' THEN lower(m.name) END ASC,
+    CASE WHEN sort_by = 'experience' THEN m.experience_years END DESC NULLS LAST,
+    CASE WHEN sort_by NOT IN ('name', 'experience', 'rating') THEN m.relevance END DESC,
+    m.rating_average DESC NULLS LAST,
+    m.review_count DESC,
+    m.experience_years DESC NULLS LAST,
+    m.id
+  OFFSET (greatest(page_number, 1) - 1) * least(greatest(page_size, 1), 50)
+  LIMIT least(greatest(page_size, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_lawyers(text[], text[], text, integer, numeric, text, integer, integer) TO anon, authenticated, service_role;
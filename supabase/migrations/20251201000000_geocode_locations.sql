@@ -0,0 +1,425 @@
+-- Geocoded locations for lawyer search. profiles.location stays the free-text place the user
+-- picked; the app resolves it against its bundled gazetteer (src/lib/gazetteer.ts) and stores
+-- the coordinates, district, state and pincode next to it. For lawyers this is their office.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS latitude double precision,
+  ADD COLUMN IF NOT EXISTS longitude double precision,
+  ADD COLUMN IF NOT EXISTS district text,
+  ADD COLUMN IF NOT EXISTS state text,
+  ADD COLUMN IF NOT EXISTS pincode text;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_coordinates_check CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  ),
+  ADD CONSTRAINT profiles_pincode_check CHECK (pincode IS NULL OR pincode ~ '^[1-9][0-9]{5}$');
+
+CREATE INDEX IF NOT EXISTS idx_profiles_coordinates ON public.profiles(latitude, longitude);
+CREATE INDEX IF NOT EXISTS idx_profiles_district ON public.profiles(lower(district));
+
+-- Court complexes a lawyer practises at, by name as listed in the gazetteer
+-- (e.g. 'Bombay High Court', 'Saket Courts')
+ALTER TABLE public.lawyer_profiles
+  ADD COLUMN IF NOT EXISTS court_complexes text[] DEFAULT '{}'::text[] NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lawyer_profiles_court_complexes ON public.lawyer_profiles USING gin(court_complexes);
+
+-- Geocode existing profiles whose location starts with a known city, or names one after a
+-- comma, e.g. 'Bangalore, Karnataka' or 'Andheri, Mumbai'. The rows are generated from the
+-- bundled gazetteer (src/lib/gazetteer.json); anything else stays ungeocoded until the user
+-- picks a suggestion.
+WITH gazetteer(place, district, state, pincode, latitude, longitude) AS (
+  VALUES
+  -- BEGIN GAZETTEER (generated by scripts/generate-gazetteer-sql.mjs, do not edit)
+  ('mumbai', 'Mumbai City', 'Maharashtra', '400001', 18.9388, 72.8354),
+  ('bombay', 'Mumbai City', 'Maharashtra', '400001', 18.9388, 72.8354),
+  ('andheri', 'Mumbai Suburban', 'Maharashtra', '400053', 19.1136, 72.8697),
+  ('bandra', 'Mumbai Suburban', 'Maharashtra', '400050', 19.0596, 72.8295),
+  ('borivali', 'Mumbai Suburban', 'Maharashtra', '400066', 19.2307, 72.8567),
+  ('thane', 'Thane', 'Maharashtra', '400601', 19.2183, 72.9781),
+  ('navi mumbai', 'Thane', 'Maharashtra', '400703', 19.0330, 73.0297),
+  ('vashi', 'Thane', 'Maharashtra', '400703', 19.0330, 73.0297),
+  ('kalyan-dombivli', 'Thane', 'Maharashtra', '421301', 19.2403, 73.1305),
+  ('kalyan-dombivali', 'Thane', 'Maharashtra', '421301', 19.2403, 73.1305),
+  ('kalyan', 'Thane', 'Maharashtra', '421301', 19.2403, 73.1305),
+  ('dombivli', 'Thane', 'Maharashtra', '421301', 19.2403, 73.1305),
+  ('vasai-virar', 'Palghar', 'Maharashtra', '401201', 19.3919, 72.8397),
+  ('vasai', 'Palghar', 'Maharashtra', '401201', 19.3919, 72.8397),
+  ('virar', 'Palghar', 'Maharashtra', '401201', 19.3919, 72.8397),
+  ('pune', 'Pune', 'Maharashtra', '411001', 18.5204, 73.8567),
+  ('poona', 'Pune', 'Maharashtra', '411001', 18.5204, 73.8567),
+  ('pimpri-chinchwad', 'Pune', 'Maharashtra', '411018', 18.6298, 73.7997),
+  ('pimpri', 'Pune', 'Maharashtra', '411018', 18.6298, 73.7997),
+  ('chinchwad', 'Pune', 'Maharashtra', '411018', 18.6298, 73.7997),
+  ('nagpur', 'Nagpur', 'Maharashtra', '440001', 21.1458, 79.0882),
+  ('nashik', 'Nashik', 'Maharashtra', '422001', 19.9975, 73.7898),
+  ('nasik', 'Nashik', 'Maharashtra', '422001', 19.9975, 73.7898),
+  ('aurangabad', 'Chhatrapati Sambhajinagar', 'Maharashtra', '431001', 19.8762, 75.3433),
+  ('chhatrapati sambhajinagar', 'Chhatrapati Sambhajinagar', 'Maharashtra', '431001', 19.8762, 75.3433),
+  ('nanded', 'Nanded', 'Maharashtra', '431601', 19.1383, 77.3210),
+  ('solapur', 'Solapur', 'Maharashtra', '413001', 17.6599, 75.9064),
+  ('sholapur', 'Solapur', 'Maharashtra', '413001', 17.6599, 75.9064),
+  ('kolhapur', 'Kolhapur', 'Maharashtra', '416001', 16.7050, 74.2433),
+  ('satara', 'Satara', 'Maharashtra', '415001', 17.6805, 74.0183),
+  ('ahmednagar', 'Ahilyanagar', 'Maharashtra', '414001', 19.0952, 74.7496),
+  ('ahilyanagar', 'Ahilyanagar', 'Maharashtra', '414001', 19.0952, 74.7496),
+  ('jalgaon', 'Jalgaon', 'Maharashtra', '425001', 21.0077, 75.5626),
+  ('amravati', 'Amravati', 'Maharashtra', '444601', 20.9374, 77.7796),
+  ('latur', 'Latur', 'Maharashtra', '413512', 18.4088, 76.5604),
+  ('new delhi', 'New Delhi', 'Delhi', '110001', 28.6139, 77.2090),
+  ('delhi', 'New Delhi', 'Delhi', '110001', 28.6139, 77.2090),
+  ('connaught place', 'New Delhi', 'Delhi', '110001', 28.6139, 77.2090),
+  ('dwarka', 'South West Delhi', 'Delhi', '110075', 28.5921, 77.0460),
+  ('rohini', 'North West Delhi', 'Delhi', '110085', 28.7383, 77.0822),
+  ('saket', 'South Delhi', 'Delhi', '110017', 28.5245, 77.2066),
+  ('shahdara', 'Shahdara', 'Delhi', '110032', 28.6736, 77.2960),
+  ('karkardooma', 'Shahdara', 'Delhi', '110032', 28.6736, 77.2960),
+  ('civil lines', 'Central Delhi', 'Delhi', '110054', 28.6814, 77.2226),
+  ('tis hazari', 'Central Delhi', 'Delhi', '110054', 28.6814, 77.2226),
+  ('gurugram', 'Gurugram', 'Haryana', '122001', 28.4595, 77.0266),
+  ('gurgaon', 'Gurugram', 'Haryana', '122001', 28.4595, 77.0266),
+  ('faridabad', 'Faridabad', 'Haryana', '121001', 28.4089, 77.3178),
+  ('noida', 'Gautam Buddh Nagar', 'Uttar Pradesh', '201301', 28.5355, 77.3910),
+  ('greater noida', 'Gautam Buddh Nagar', 'Uttar Pradesh', '201301', 28.5355, 77.3910),
+  ('ghaziabad', 'Ghaziabad', 'Uttar Pradesh', '201001', 28.6692, 77.4538),
+  ('bengaluru', 'Bengaluru Urban', 'Karnataka', '560001', 12.9716, 77.5946),
+  ('bangalore', 'Bengaluru Urban', 'Karnataka', '560001', 12.9716, 77.5946),
+  ('mysuru', 'Mysuru', 'Karnataka', '570001', 12.2958, 76.6394),
+  ('mysore', 'Mysuru', 'Karnataka', '570001', 12.2958, 76.6394),
+  ('mangaluru', 'Dakshina Kannada', 'Karnataka', '575001', 12.9141, 74.8560),
+  ('mangalore', 'Dakshina Kannada', 'Karnataka', '575001', 12.9141, 74.8560),
+  ('hubballi', 'Dharwad', 'Karnataka', '580020', 15.3647, 75.1240),
+  ('hubli', 'Dharwad', 'Karnataka', '580020', 15.3647, 75.1240),
+  ('dharwad', 'Dharwad', 'Karnataka', '580020', 15.3647, 75.1240),
+  ('belagavi', 'Belagavi', 'Karnataka', '590001', 15.8497, 74.4977),
+  ('belgaum', 'Belagavi', 'Karnataka', '590001', 15.8497, 74.4977),
+  ('kalaburagi', 'Kalaburagi', 'Karnataka', '585101', 17.3297, 76.8343),
+  ('gulbarga', 'Kalaburagi', 'Karnataka', '585101', 17.3297, 76.8343),
+  ('davanagere', 'Davanagere', 'Karnataka', '577001', 14.4644, 75.9218),
+  ('shivamogga', 'Shivamogga', 'Karnataka', '577201', 13.9299, 75.5681),
+  ('shimoga', 'Shivamogga', 'Karnataka', '577201', 13.9299, 75.5681),
+  ('chennai', 'Chennai', 'Tamil Nadu', '600001', 13.0827, 80.2707),
+  ('madras', 'Chennai', 'Tamil Nadu', '600001', 13.0827, 80.2707),
+  ('coimbatore', 'Coimbatore', 'Tamil Nadu', '641001', 11.0168, 76.9558),
+  ('kovai', 'Coimbatore', 'Tamil Nadu', '641001', 11.0168, 76.9558),
+  ('madurai', 'Madurai', 'Tamil Nadu', '625001', 9.9252, 78.1198),
+  ('tiruchirappalli', 'Tiruchirappalli', 'Tamil Nadu', '620001', 10.7905, 78.7047),
+  ('trichy', 'Tiruchirappalli', 'Tamil Nadu', '620001', 10.7905, 78.7047),
+  ('tiruchi', 'Tiruchirappalli', 'Tamil Nadu', '620001', 10.7905, 78.7047),
+  ('salem', 'Salem', 'Tamil Nadu', '636001', 11.6643, 78.1460),
+  ('tirunelveli', 'Tirunelveli', 'Tamil Nadu', '627001', 8.7139, 77.7567),
+  ('vellore', 'Vellore', 'Tamil Nadu', '632001', 12.9165, 79.1325),
+  ('erode', 'Erode', 'Tamil Nadu', '638001', 11.3410, 77.7172),
+  ('thoothukudi', 'Thoothukudi', 'Tamil Nadu', '628001', 8.7642, 78.1348),
+  ('tuticorin', 'Thoothukudi', 'Tamil Nadu', '628001', 8.7642, 78.1348),
+  ('thanjavur', 'Thanjavur', 'Tamil Nadu', '613001', 10.7870, 79.1378),
+  ('tanjore', 'Thanjavur', 'Tamil Nadu', '613001', 10.7870, 79.1378),
+  ('hyderabad', 'Hyderabad', 'Telangana', '500001', 17.3850, 78.4867),
+  ('secunderabad', 'Hyderabad', 'Telangana', '500003', 17.4399, 78.4983),
+  ('warangal', 'Hanumakonda', 'Telangana', '506002', 17.9689, 79.5941),
+  ('hanamkonda', 'Hanumakonda', 'Telangana', '506002', 17.9689, 79.5941),
+  ('karimnagar', 'Karimnagar', 'Telangana', '505001', 18.4386, 79.1288),
+  ('nizamabad', 'Nizamabad', 'Telangana', '503001', 18.6725, 78.0941),
+  ('visakhapatnam', 'Visakhapatnam', 'Andhra Pradesh', '530001', 17.6868, 83.2185),
+  ('vizag', 'Visakhapatnam', 'Andhra Pradesh', '530001', 17.6868, 83.2185),
+  ('vishakhapatnam', 'Visakhapatnam', 'Andhra Pradesh', '530001', 17.6868, 83.2185),
+  ('vijayawada', 'NTR', 'Andhra Pradesh', '520001', 16.5062, 80.6480),
+  ('bezawada', 'NTR', 'Andhra Pradesh', '520001', 16.5062, 80.6480),
+  ('guntur', 'Guntur', 'Andhra Pradesh', '522001', 16.3067, 80.4365),
+  ('amaravati', 'Guntur', 'Andhra Pradesh', '522001', 16.3067, 80.4365),
+  ('tirupati', 'Tirupati', 'Andhra Pradesh', '517501', 13.6288, 79.4192),
+  ('nellore', 'Sri Potti Sriramulu Nellore', 'Andhra Pradesh', '524001', 14.4426, 79.9865),
+  ('kurnool', 'Kurnool', 'Andhra Pradesh', '518001', 15.8281, 78.0373),
+  ('kakinada', 'Kakinada', 'Andhra Pradesh', '533001', 16.9891, 82.2475),
+  ('kolkata', 'Kolkata', 'West Bengal', '700001', 22.5726, 88.3639),
+  ('calcutta', 'Kolkata', 'West Bengal', '700001', 22.5726, 88.3639),
+  ('alipore', 'South 24 Parganas', 'West Bengal', '700027', 22.5354, 88.3318),
+  ('barasat', 'North 24 Parganas', 'West Bengal', '700124', 22.7248, 88.4789),
+  ('howrah', 'Howrah', 'West Bengal', '711101', 22.5958, 88.2636),
+  ('siliguri', 'Darjeeling', 'West Bengal', '734001', 26.7271, 88.3953),
+  ('jalpaiguri', 'Jalpaiguri', 'West Bengal', '735101', 26.5167, 88.7333),
+  ('durgapur', 'Paschim Bardhaman', 'West Bengal', '713201', 23.5204, 87.3119),
+  ('asansol', 'Paschim Bardhaman', 'West Bengal', '713301', 23.6739, 86.9524),
+  ('ahmedabad', 'Ahmedabad', 'Gujarat', '380001', 23.0225, 72.5714),
+  ('amdavad', 'Ahmedabad', 'Gujarat', '380001', 23.0225, 72.5714),
+  ('gandhinagar', 'Gandhinagar', 'Gujarat', '382010', 23.2156, 72.6369),
+  ('surat', 'Surat', 'Gujarat', '395003', 21.1702, 72.8311),
+  ('vadodara', 'Vadodara', 'Gujarat', '390001', 22.3072, 73.1812),
+  ('baroda', 'Vadodara', 'Gujarat', '390001', 22.3072, 73.1812),
+  ('rajkot', 'Rajkot', 'Gujarat', '360001', 22.3039, 70.8022),
+  ('bhavnagar', 'Bhavnagar', 'Gujarat', '364001', 21.7645, 72.1519),
+  ('jamnagar', 'Jamnagar', 'Gujarat', '361001', 22.4707, 70.0577),
+  ('jaipur', 'Jaipur', 'Rajasthan', '302001', 26.9124, 75.7873),
+  ('jodhpur', 'Jodhpur', 'Rajasthan', '342001', 26.2389, 73.0243),
+  ('udaipur', 'Udaipur', 'Rajasthan', '313001', 24.5854, 73.7125),
+  ('kota', 'Kota', 'Rajasthan', '324001', 25.2138, 75.8648),
+  ('ajmer', 'Ajmer', 'Rajasthan', '305001', 26.4499, 74.6399),
+  ('bikaner', 'Bikaner', 'Rajasthan', '334001', 28.0229, 73.3119),
+  ('lucknow', 'Lucknow', 'Uttar Pradesh', '226001', 26.8467, 80.9462),
+  ('kanpur', 'Kanpur Nagar', 'Uttar Pradesh', '208001', 26.4499, 80.3319),
+  ('cawnpore', 'Kanpur Nagar', 'Uttar Pradesh', '208001', 26.4499, 80.3319),
+  ('prayagraj', 'Prayagraj', 'Uttar Pradesh', '211001', 25.4358, 81.8463),
+  ('allahabad', 'Prayagraj', 'Uttar Pradesh', '211001', 25.4358, 81.8463),
+  ('varanasi', 'Varanasi', 'Uttar Pradesh', '221001', 25.3176, 82.9739),
+  ('banaras', 'Varanasi', 'Uttar Pradesh', '221001', 25.3176, 82.9739),
+  ('benares', 'Varanasi', 'Uttar Pradesh', '221001', 25.3176, 82.9739),
+  ('kashi', 'Varanasi', 'Uttar Pradesh', '221001', 25.3176, 82.9739),
+  ('agra', 'Agra', 'Uttar Pradesh', '282001', 27.1767, 78.0081),
+  ('meerut', 'Meerut', 'Uttar Pradesh', '250001', 28.9845, 77.7064),
+  ('bareilly', 'Bareilly', 'Uttar Pradesh', '243001', 28.3670, 79.4304),
+  ('aligarh', 'Aligarh', 'Uttar Pradesh', '202001', 27.8974, 78.0880),
+  ('gorakhpur', 'Gorakhpur', 'Uttar Pradesh', '273001', 26.7606, 83.3732),
+  ('moradabad', 'Moradabad', 'Uttar Pradesh', '244001', 28.8386, 78.7733),
+  ('jhansi', 'Jhansi', 'Uttar Pradesh', '284001', 25.4484, 78.5685),
+  ('bhopal', 'Bhopal', 'Madhya Pradesh', '462001', 23.2599, 77.4126),
+  ('indore', 'Indore', 'Madhya Pradesh', '452001', 22.7196, 75.8577),
+  ('jabalpur', 'Jabalpur', 'Madhya Pradesh', '482001', 23.1815, 79.9864),
+  ('jubbulpore', 'Jabalpur', 'Madhya Pradesh', '482001', 23.1815, 79.9864),
+  ('gwalior', 'Gwalior', 'Madhya Pradesh', '474001', 26.2183, 78.1828),
+  ('ujjain', 'Ujjain', 'Madhya Pradesh', '456001', 23.1765, 75.7885),
+  ('patna', 'Patna', 'Bihar', '800001', 25.5941, 85.1376),
+  ('gaya', 'Gaya', 'Bihar', '823001', 24.7914, 85.0002),
+  ('muzaffarpur', 'Muzaffarpur', 'Bihar', '842001', 26.1209, 85.3647),
+  ('bhagalpur', 'Bhagalpur', 'Bihar', '812001', 25.2425, 86.9842),
+  ('ranchi', 'Ranchi', 'Jharkhand', '834001', 23.3441, 85.3096),
+  ('jamshedpur', 'East Singhbhum', 'Jharkhand', '831001', 22.8046, 86.2029),
+  ('tatanagar', 'East Singhbhum', 'Jharkhand', '831001', 22.8046, 86.2029),
+  ('dhanbad', 'Dhanbad', 'Jharkhand', '826001', 23.7957, 86.4304),
+  ('bhubaneswar', 'Khordha', 'Odisha', '751001', 20.2961, 85.8245),
+  ('bhubaneshwar', 'Khordha', 'Odisha', '751001', 20.2961, 85.8245),
+  ('cuttack', 'Cuttack', 'Odisha', '753001', 20.4625, 85.8830),
+  ('rourkela', 'Sundargarh', 'Odisha', '769001', 22.2604, 84.8536),
+  ('sambalpur', 'Sambalpur', 'Odisha', '768001', 21.4669, 83.9812),
+  ('raipur', 'Raipur', 'Chhattisgarh', '492001', 21.2514, 81.6296),
+  ('bilaspur', 'Bilaspur', 'Chhattisgarh', '495001', 22.0797, 82.1409),
+  ('bhilai', 'Durg', 'Chhattisgarh', '490001', 21.1938, 81.3509),
+  ('durg', 'Durg', 'Chhattisgarh', '490001', 21.1938, 81.3509),
+  ('chandigarh', 'Chandigarh', 'Chandigarh', '160001', 30.7333, 76.7794),
+  ('mohali', 'SAS Nagar', 'Punjab', '160055', 30.7046, 76.7179),
+  ('sahibzada ajit singh nagar', 'SAS Nagar', 'Punjab', '160055', 30.7046, 76.7179),
+  ('ludhiana', 'Ludhiana', 'Punjab', '141001', 30.9010, 75.8573),
+  ('amritsar', 'Amritsar', 'Punjab', '143001', 31.6340, 74.8723),
+  ('jalandhar', 'Jalandhar', 'Punjab', '144001', 31.3260, 75.5762),
+  ('jullundur', 'Jalandhar', 'Punjab', '144001', 31.3260, 75.5762),
+  ('patiala', 'Patiala', 'Punjab', '147001', 30.3398, 76.3869),
+  ('panchkula', 'Panchkula', 'Haryana', '134109', 30.6942, 76.8606),
+  ('ambala', 'Ambala', 'Haryana', '133001', 30.3782, 76.7767),
+  ('karnal', 'Karnal', 'Haryana', '132001', 29.6857, 76.9905),
+  ('hisar', 'Hisar', 'Haryana', '125001', 29.1492, 75.7217),
+  ('hissar', 'Hisar', 'Haryana', '125001', 29.1492, 75.7217),
+  ('rohtak', 'Rohtak', 'Haryana', '124001', 28.8955, 76.6066),
+  ('shimla', 'Shimla', 'Himachal Pradesh', '171001', 31.1048, 77.1734),
+  ('simla', 'Shimla', 'Himachal Pradesh', '171001', 31.1048, 77.1734),
+  ('dharamshala', 'Kangra', 'Himachal Pradesh', '176215', 32.2190, 76.3234),
+  ('dharamsala', 'Kangra', 'Himachal Pradesh', '176215', 32.2190, 76.3234),
+  ('srinagar', 'Srinagar', 'Jammu and Kashmir', '190001', 34.0837, 74.7973),
+  ('jammu', 'Jammu', 'Jammu and Kashmir', '180001', 32.7266, 74.8570),
+  ('leh', 'Leh', 'Ladakh', '194101', 34.1526, 77.5771),
+  ('dehradun', 'Dehradun', 'Uttarakhand', '248001', 30.3165, 78.0322),
+  ('haridwar', 'Haridwar', 'Uttarakhand', '249401', 29.9457, 78.1642),
+  ('hardwar', 'Haridwar', 'Uttarakhand', '249401', 29.9457, 78.1642),
+  ('nainital', 'Nainital', 'Uttarakhand', '263001', 29.3919, 79.4542),
+  ('thiruvananthapuram', 'Thiruvananthapuram', 'Kerala', '695001', 8.5241, 76.9366),
+  ('trivandrum', 'Thiruvananthapuram', 'Kerala', '695001', 8.5241, 76.9366),
+  ('kochi', 'Ernakulam', 'Kerala', '682011', 9.9312, 76.2673),
+  ('cochin', 'Ernakulam', 'Kerala', '682011', 9.9312, 76.2673),
+  ('ernakulam', 'Ernakulam', 'Kerala', '682011', 9.9312, 76.2673),
+  ('kozhikode', 'Kozhikode', 'Kerala', '673001', 11.2588, 75.7804),
+  ('calicut', 'Kozhikode', 'Kerala', '673001', 11.2588, 75.7804),
+  ('thrissur', 'Thrissur', 'Kerala', '680001', 10.5276, 76.2144),
+  ('trichur', 'Thrissur', 'Kerala', '680001', 10.5276, 76.2144),
+  ('kollam', 'Kollam', 'Kerala', '691001', 8.8932, 76.6141),
+  ('quilon', 'Kollam', 'Kerala', '691001', 8.8932, 76.6141),
+  ('kannur', 'Kannur', 'Kerala', '670001', 11.8745, 75.3704),
+  ('cannanore', 'Kannur', 'Kerala', '670001', 11.8745, 75.3704),
+  ('kottayam', 'Kottayam', 'Kerala', '686001', 9.5916, 76.5222),
+  ('guwahati', 'Kamrup Metropolitan', 'Assam', '781001', 26.1445, 91.7362),
+  ('gauhati', 'Kamrup Metropolitan', 'Assam', '781001', 26.1445, 91.7362),
+  ('dibrugarh', 'Dibrugarh', 'Assam', '786001', 27.4728, 94.9120),
+  ('silchar', 'Cachar', 'Assam', '788001', 24.8333, 92.7789),
+  ('shillong', 'East Khasi Hills', 'Meghalaya', '793001', 25.5788, 91.8933),
+  ('imphal', 'Imphal West', 'Manipur', '795001', 24.8170, 93.9368),
+  ('agartala', 'West Tripura', 'Tripura', '799001', 23.8315, 91.2868),
+  ('aizawl', 'Aizawl', 'Mizoram', '796001', 23.7271, 92.7176),
+  ('kohima', 'Kohima', 'Nagaland', '797001', 25.6751, 94.1086),
+  ('itanagar', 'Papum Pare', 'Arunachal Pradesh', '791111', 27.0844, 93.6053),
+  ('gangtok', 'Gangtok', 'Sikkim', '737101', 27.3389, 88.6065),
+  ('panaji', 'North Goa', 'Goa', '403001', 15.4909, 73.8278),
+  ('panjim', 'North Goa', 'Goa', '403001', 15.4909, 73.8278),
+  ('porvorim', 'North Goa', 'Goa', '403001', 15.4909, 73.8278),
+  ('margao', 'South Goa', 'Goa', '403601', 15.2832, 73.9862),
+  ('madgaon', 'South Goa', 'Goa', '403601', 15.2832, 73.9862),
+  ('puducherry', 'Puducherry', 'Puducherry', '605001', 11.9416, 79.8083),
+  ('pondicherry', 'Puducherry', 'Puducherry', '605001', 11.9416, 79.8083),
+  ('port blair', 'South Andaman', 'Andaman and Nicobar Islands', '744101', 11.6234, 92.7265),
+  ('sri vijaya puram', 'South Andaman', 'Andaman and Nicobar Islands', '744101', 11.6234, 92.7265)
+  -- END GAZETTEER
+),
+matched AS (
+  SELECT DISTINCT ON (p.id) p.id, g.*
+  FROM public.profiles p
+  CROSS JOIN LATERAL unnest(string_to_array(p.location, ',')) WITH ORDINALITY AS part(piece, position)
+  JOIN gazetteer g ON g.place = lower(trim(part.piece))
+  WHERE p.latitude IS NULL
+  ORDER BY p.id, part.position
+)
+UPDATE public.profiles p
+SET latitude = m.latitude,
+    longitude = m.longitude,
+    district = m.district,
+    state = m.state,
+    pincode = COALESCE(substring(p.location FROM '\m[1-9][0-9]{5}\M'), m.pincode)
+FROM matched m
+WHERE p.id = m.id;
+
+-- Great-circle distance in kilometres; NULL when either point is unknown
+CREATE OR REPLACE FUNCTION public.distance_km(
+  lat1 double precision,
+  lng1 double precision,
+  lat2 double precision,
+  lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+STRICT
+PARALLEL SAFE
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2)
+    + cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.distance_km(double precision, double precision, double precision, double precision) TO anon, authenticated, service_role;
+
+-- search_lawyers gains distance search, so its signature changes
+DROP FUNCTION IF EXISTS public.search_lawyers(text[], text[], text, integer, numeric, text, integer, integer);
+
+-- Available lawyers matching any of the given specializations, languages and court complexes,
+-- in the given district, with at least the given experience and average rating. Every row
+-- carries the number of matches before paging in total_count.
+--
+-- With an origin, distance_km is how far each lawyer's office is from it, and max_distance_km
+-- keeps only lawyers within that radius (lawyers without a geocoded office drop out).
+--
+-- sort_by: relevance (most requested languages spoken and an exact city match first, then
+-- nearest, then rating), distance, rating, experience or name. Every order ends on the profile
+-- id so pages never overlap or skip lawyers that tie.
+CREATE OR REPLACE FUNCTION public.search_lawyers(
+  filter_specializations text[] DEFAULT NULL,
+  filter_languages text[] DEFAULT NULL,
+  filter_location text DEFAULT NULL,
+  min_experience integer DEFAULT 0,
+  min_rating numeric DEFAULT 0,
+  sort_by text DEFAULT 'relevance',
+  page_number integer DEFAULT 1,
+  page_size integer DEFAULT 12,
+  origin_latitude double precision DEFAULT NULL,
+  origin_longitude double precision DEFAULT NULL,
+  max_distance_km double precision DEFAULT NULL,
+  filter_district text DEFAULT NULL,
+  filter_court_complexes text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  email text,
+  phone text,
+  location text,
+  district text,
+  avatar_url text,
+  specialization text,
+  experience_years integer,
+  license_number text,
+  bio text,
+  languages text[],
+  court_complexes text[],
+  rating_average numeric,
+  review_count integer,
+  rating_breakdown jsonb,
+  availability boolean,
+  distance_km double precision,
+  relevance real,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(array_remove(filter_specializations, ''), '{}') AS specializations,
+      NULLIF(array_remove(filter_languages, ''), '{}') AS langs,
+      NULLIF(array_remove(filter_court_complexes, ''), '{}') AS courts,
+      NULLIF(trim(filter_location), '') AS loc,
+      NULLIF(trim(filter_district), '') AS dist,
+      CASE WHEN origin_latitude IS NOT NULL AND origin_longitude IS NOT NULL AND max_distance_km > 0
+        THEN max_distance_km END AS radius,
+      -- Degrees of latitude and longitude spanned by the radius, to narrow the search to a
+      -- bounding box before computing exact distances
+      max_distance_km / 111.045 AS lat_span,
+      max_distance_km / (111.045 * greatest(cos(radians(origin_latitude)), 0.01)) AS lng_span
+  ),
+  matches AS (
+    SELECT
+      lp.id,
+      lp.user_id,
+      COALESCE(p.name, 'Unknown') AS name,
+      COALESCE(p.email, '') AS email,
+      p.phone,
+      p.location,
+      p.district,
+      p.avatar_url,
+      lp.specialization,
+      lp.experience_years,
+      lp.license_number,
+      lp.bio,
+      lp.languages,
+      lp.court_complexes,
+      lp.rating_average,
+      lp.review_count,
+      lp.rating_breakdown,
+      lp.availability,
+      public.distance_km(origin_latitude, origin_longitude, p.latitude, p.longitude) AS distance_km,
+      (
+        COALESCE(cardinality(ARRAY(SELECT unnest(lp.languages) INTERSECT SELECT unnest(params.langs))), 0)
+        + CASE WHEN params.loc IS NOT NULL AND lower(trim(split_part(p.location, ',', 1))) = lower(params.loc) THEN 1 ELSE 0 END
+      )::real AS relevance
+    FROM public.lawyer_profiles lp
+    CROSS JOIN params
+    LEFT JOIN public.profiles p ON p.user_id = lp.user_id
+    WHERE lp.availability = true
+      AND (params.specializations IS NULL
+        OR EXISTS (SELECT 1 FROM unnest(params.specializations) s WHERE lp.specialization ILIKE '%' || s || '%'))
+      AND (params.langs IS NULL OR lp.languages && params.langs)
+      AND (params.courts IS NULL OR lp.court_complexes && params.courts)
+      AND (params.loc IS NULL OR p.location ILIKE '%' || params.loc || '%')
+      AND (params.dist IS NULL OR lower(p.district) = lower(params.dist))
+      AND (params.radius IS NULL OR (
+        p.latitude BETWEEN origin_latitude - params.lat_span AND origin_latitude + params.lat_span
+        AND p.longitude BETWEEN origin_longitude - params.lng_span AND origin_longitude + params.lng_span
+        AND public.distance_km(origin_latitude, origin_longitude, p.latitude, p.longitude) <= params.radius
+      ))
+      AND (COALESCE(min_experience, 0) <= 0 OR lp.experience_years >= min_experience)
+      AND (COALESCE(min_rating, 0) <= 0 OR lp.rating_average >= min_rating)
+  )
+  SELECT m.*, count(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY
+    CASE WHEN sort_by = 'distance' THEN m.distance_km END ASC NULLS LAST,
+    CASE WHEN sort_by = 'name' THEN lower(m.name) END ASC,
+    CASE WHEN sort_by = 'experience' THEN m.experience_years END DESC NULLS LAST,
+    CASE WHEN sort_by NOT IN ('name', 'experience', 'rating', 'distance') THEN m.relevance END DESC,
+    CASE WHEN sort_by NOT IN ('name', 'experience', 'rating') THEN m.distance_km END ASC NULLS LAST,
+    m.rating_average DESC NULLS LAST,
+    m.review_count DESC,
+    m.experience_years DESC NULLS LAST,
+    m.id
+  OFFSET (greatest(page_number, 1) - 1) * least(greatest(page_size, 1), 50)
+  LIMIT least(greatest(page_size, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_lawyers(text[], text[], text, integer, numeric, text, integer, integer, double precision, double precision, double precision, text, text[]) TO anon, authenticated, service_role;
@@ -0,0 +1,13 @@
+-- Public lawyer profile pages (/lawyers/:id) show a consultation fee range. Profiles, lawyer
+-- profiles and published reviews are already readable by anyone, so visitors who are not
+-- signed in can load the page without further policies.
+ALTER TABLE public.lawyer_profiles
+  ADD COLUMN IF NOT EXISTS consultation_fee_min integer,
+  ADD COLUMN IF NOT EXISTS consultation_fee_max integer;
+
+-- Fees are whole rupees per consultation; a lawyer may give only a starting fee
+ALTER TABLE public.lawyer_profiles
+  ADD CONSTRAINT lawyer_profiles_consultation_fee_check CHECK (
+    (consultation_fee_min IS NULL OR consultation_fee_min >= 0)
+    AND (consultation_fee_max IS NULL OR consultation_fee_max >= COALESCE(consultation_fee_min, 0))
+  );
@@ -0,0 +1,420 @@
+-- Consultation booking. Lawyers publish weekly working hours, blocked dates and a slot length
+-- from their dashboard; clients book a free slot in person, by phone or by video. Appointments
+-- are only written through the functions below, which check the slot against the schedule, and
+-- exclusion constraints keep a lawyer's (and a client's) confirmed appointments from overlapping
+-- even when two people book the same slot at once. The consultation-reminders function notifies
+-- both sides the day before.
+--
+-- Working hours are India Standard Time. The booking rules (notice, window, change cut-off,
+-- reschedule limit) are mirrored in src/lib/appointments.ts for the UI.
+
+-- Lets the exclusion constraints combine uuid equality with range overlap
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE public.lawyer_profiles
+  ADD COLUMN IF NOT EXISTS slot_minutes integer DEFAULT 30 NOT NULL,
+  ADD COLUMN IF NOT EXISTS consultation_modes text[] DEFAULT ARRAY['in_person', 'phone', 'video'] NOT NULL;
+
+ALTER TABLE public.lawyer_profiles
+  DROP CONSTRAINT IF EXISTS lawyer_profiles_slot_minutes_check,
+  ADD CONSTRAINT lawyer_profiles_slot_minutes_check CHECK (slot_minutes IN (15, 20, 30, 45, 60, 90, 120)),
+  DROP CONSTRAINT IF EXISTS lawyer_profiles_consultation_modes_check,
+  ADD CONSTRAINT lawyer_profiles_consultation_modes_check
+    CHECK (consultation_modes <@ ARRAY['in_person', 'phone', 'video']);
+
+-- Weekly hours; a day can have several ranges, e.g. a morning and an evening session
+CREATE TABLE IF NOT EXISTS public.lawyer_working_hours (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lawyer_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- 0 = Sunday, as extract(dow) counts
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CHECK (start_time < end_time),
+  CONSTRAINT lawyer_working_hours_no_overlap EXCLUDE USING gist (
+    lawyer_id WITH =,
+    weekday WITH =,
+    tsrange('2000-01-01'::date + start_time, '2000-01-01'::date + end_time) WITH &&
+  )
+);
+
+ALTER TABLE public.lawyer_working_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Lawyers can manage their own working hours" ON public.lawyer_working_hours
+  FOR ALL USING (auth.uid() = lawyer_id)
+  WITH CHECK (auth.uid() = lawyer_id AND public.has_role(auth.uid(), 'lawyer'));
+
+-- Holidays, court days and leave; no slots are offered on these dates
+CREATE TABLE IF NOT EXISTS public.lawyer_blocked_dates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lawyer_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  blocked_on date NOT NULL,
+  reason text CHECK (length(reason) <= 200),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE (lawyer_id, blocked_on)
+);
+
+ALTER TABLE public.lawyer_blocked_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Lawyers can manage their own blocked dates" ON public.lawyer_blocked_dates
+  FOR ALL USING (auth.uid() = lawyer_id)
+  WITH CHECK (auth.uid() = lawyer_id AND public.has_role(auth.uid(), 'lawyer'));
+
+CREATE TABLE IF NOT EXISTS public.appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lawyer_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  client_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  starts_at timestamp with time zone NOT NULL,
+  ends_at timestamp with time zone NOT NULL,
+  mode text NOT NULL CHECK (mode IN ('in_person', 'phone', 'video')),
+  status text DEFAULT 'confirmed' NOT NULL CHECK (status IN ('confirmed', 'cancelled')),
+  -- What the client wants to discuss
+  notes text CHECK (length(notes) <= 1000),
+  reschedule_count integer DEFAULT 0 NOT NULL,
+  cancelled_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  cancellation_reason text CHECK (length(cancellation_reason) <= 500),
+  cancelled_at timestamp with time zone,
+  -- Set by consultation-reminders; cleared when the appointment moves
+  reminded_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  CHECK (starts_at < ends_at),
+  CONSTRAINT appointments_lawyer_no_overlap EXCLUDE USING gist (
+    lawyer_id WITH =,
+    tstzrange(starts_at, ends_at) WITH &&
+  ) WHERE (status = 'confirmed'),
+  CONSTRAINT appointments_client_no_overlap EXCLUDE USING gist (
+    client_id WITH =,
+    tstzrange(starts_at, ends_at) WITH &&
+  ) WHERE (status = 'confirmed')
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_client ON public.appointments(client_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_reminders ON public.appointments(starts_at)
+  WHERE status = 'confirmed' AND reminded_at IS NULL;
+
+ALTER TABLE public.appointments ENABLE ROW LEVEL SECURITY;
+
+-- No insert, update or delete policies: book_appointment, reschedule_appointment and
+-- cancel_appointment are the only writers
+CREATE POLICY "Clients and lawyers can view their own appointments" ON public.appointments
+  FOR SELECT USING (auth.uid() = client_id OR auth.uid() = lawyer_id);
+
+CREATE POLICY "Admins can view all appointments" ON public.appointments
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+DROP TRIGGER IF EXISTS update_appointments_updated_at ON public.appointments;
+CREATE TRIGGER update_appointments_updated_at
+  BEFORE UPDATE ON public.appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Appointment notifications sit in the same inbox as scheme alerts
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS appointment_id uuid REFERENCES public.appointments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_kind_check,
+  ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+    'new_scheme', 'scheme_deadline',
+    'appointment_booked', 'appointment_rescheduled', 'appointment_cancelled', 'appointment_reminder'
+  ));
+
+-- Free slots for a lawyer between two dates (inclusive, India time). Slots are cut from the
+-- working hours at the lawyer's slot length, skipping blocked dates, slots less than two hours
+-- away, days more than 30 days ahead and anything overlapping a confirmed appointment. Lawyers
+-- not accepting new clients have none. With _appointment_id, the slots the caller's own
+-- appointment can be moved to: it does not block itself, and the lawyer need not be accepting
+-- new clients.
+CREATE OR REPLACE FUNCTION public.available_slots(_lawyer_id uuid, _from date, _to date, _appointment_id uuid DEFAULT NULL)
+RETURNS TABLE (starts_at timestamp with time zone, ends_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH moving AS (
+    SELECT a.id
+    FROM public.appointments a
+    WHERE a.id = _appointment_id
+      AND a.lawyer_id = _lawyer_id
+      AND a.status = 'confirmed'
+      AND auth.uid() IN (a.client_id, a.lawyer_id)
+  ),
+  lawyer AS (
+    SELECT make_interval(mins => lp.slot_minutes) AS slot
+    FROM public.lawyer_profiles lp
+    WHERE lp.user_id = _lawyer_id AND (lp.availability = true OR EXISTS (SELECT 1 FROM moving))
+  ),
+  days AS (
+    SELECT day::date AS day
+    FROM generate_series(
+      greatest(_from, (now() AT TIME ZONE 'Asia/Kolkata')::date)::timestamp,
+      least(_to, (now() AT TIME ZONE 'Asia/Kolkata')::date + 30)::timestamp,
+      interval '1 day'
+    ) AS day
+  ),
+  candidates AS (
+    SELECT ((days.day + h.start_time) AT TIME ZONE 'Asia/Kolkata') + lawyer.slot * n AS slot_start, lawyer.slot
+    FROM days
+    JOIN public.lawyer_working_hours h
+      ON h.lawyer_id = _lawyer_id AND h.weekday = extract(dow FROM days.day)
+    CROSS JOIN lawyer
+    CROSS JOIN LATERAL generate_series(
+      0,
+      floor(extract(epoch FROM h.end_time - h.start_time) / extract(epoch FROM lawyer.slot))::integer - 1
+    ) AS n
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.lawyer_blocked_dates b
+      WHERE b.lawyer_id = _lawyer_id AND b.blocked_on = days.day
+    )
+  )
+  SELECT c.slot_start, c.slot_start + c.slot
+  FROM candidates c
+  WHERE c.slot_start >= now() + interval '2 hours'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.appointments a
+      WHERE a.lawyer_id = _lawyer_id
+        AND a.status = 'confirmed'
+        AND a.id NOT IN (SELECT id FROM moving)
+        AND tstzrange(a.starts_at, a.ends_at) && tstzrange(c.slot_start, c.slot_start + c.slot)
+    )
+  ORDER BY 1
+$$;
+
+-- Inbox entry about an appointment, e.g. "Tue 4 Nov, 10:30 AM IST · Video call with Asha Rao"
+CREATE OR REPLACE FUNCTION public.notify_appointment(_appointment public.appointments, _recipient uuid, _kind text, _title text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.notifications (user_id, kind, appointment_id, title, body, link)
+  SELECT
+    _recipient,
+    _kind,
+    _appointment.id,
+    _title,
+    concat_ws(' · ',
+      to_char(_appointment.starts_at AT TIME ZONE 'Asia/Kolkata', 'Dy FMDD Mon, FMHH12:MI AM') || ' IST',
+      CASE _appointment.mode WHEN 'in_person' THEN 'In person' WHEN 'phone' THEN 'Phone call' ELSE 'Video call' END
+        || ' with ' || coalesce(p.name, 'your ' || CASE WHEN _recipient = _appointment.client_id THEN 'lawyer' ELSE 'client' END),
+      CASE WHEN _kind = 'appointment_cancelled' THEN _appointment.cancellation_reason END
+    ),
+    CASE WHEN _recipient = _appointment.lawyer_id THEN '/lawyer-dashboard' ELSE '/dashboard' END
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p
+    ON p.user_id = CASE WHEN _recipient = _appointment.client_id THEN _appointment.lawyer_id ELSE _appointment.client_id END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_appointment(public.appointments, uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Book a free slot for the signed-in user
+CREATE OR REPLACE FUNCTION public.book_appointment(
+  _lawyer_id uuid,
+  _starts_at timestamp with time zone,
+  _mode text,
+  _notes text DEFAULT NULL
+)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  slot_day date := (_starts_at AT TIME ZONE 'Asia/Kolkata')::date;
+  slot_end timestamp with time zone;
+  booked public.appointments;
+  violated text;
+BEGIN
+  IF actor IS NULL THEN
+    RAISE EXCEPTION 'Sign in to book a consultation' USING ERRCODE = '42501';
+  END IF;
+  IF actor = _lawyer_id THEN
+    RAISE EXCEPTION 'You cannot book a consultation with yourself' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.lawyer_profiles
+    WHERE user_id = _lawyer_id AND _mode = ANY(consultation_modes)
+  ) THEN
+    RAISE EXCEPTION 'This lawyer does not offer that type of consultation';
+  END IF;
+
+  SELECT s.ends_at INTO slot_end
+  FROM public.available_slots(_lawyer_id, slot_day, slot_day) s
+  WHERE s.starts_at = _starts_at;
+  IF slot_end IS NULL THEN
+    RAISE EXCEPTION 'That slot is no longer available';
+  END IF;
+
+  -- Holding every slot a lawyer has would keep other clients out
+  IF (
+    SELECT count(*) FROM public.appointments
+    WHERE client_id = actor AND lawyer_id = _lawyer_id AND status = 'confirmed' AND starts_at > now()
+  ) >= 3 THEN
+    RAISE EXCEPTION 'You already have 3 upcoming consultations with this lawyer';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.appointments (lawyer_id, client_id, starts_at, ends_at, mode, notes)
+    VALUES (_lawyer_id, actor, _starts_at, slot_end, _mode, NULLIF(trim(_notes), ''))
+    RETURNING * INTO booked;
+  EXCEPTION WHEN exclusion_violation THEN
+    GET STACKED DIAGNOSTICS violated = CONSTRAINT_NAME;
+    IF violated = 'appointments_client_no_overlap' THEN
+      RAISE EXCEPTION 'You already have a consultation at that time';
+    END IF;
+    RAISE EXCEPTION 'That slot was just booked by someone else';
+  END;
+
+  PERFORM public.notify_appointment(booked, booked.lawyer_id, 'appointment_booked', 'New consultation booked');
+  RETURN booked;
+END;
+$$;
+
+-- Move an upcoming appointment to another free slot. Clients can do so up to 12 hours before it
+-- starts and at most twice; lawyers at any time before it starts.
+CREATE OR REPLACE FUNCTION public.reschedule_appointment(_appointment_id uuid, _starts_at timestamp with time zone)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  current_appointment public.appointments;
+  slot_day date := (_starts_at AT TIME ZONE 'Asia/Kolkata')::date;
+  slot_end timestamp with time zone;
+  moved public.appointments;
+  violated text;
+BEGIN
+  SELECT * INTO current_appointment FROM public.appointments WHERE id = _appointment_id FOR UPDATE;
+  IF current_appointment.id IS NULL OR actor IS NULL
+    OR actor NOT IN (current_appointment.client_id, current_appointment.lawyer_id) THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = '42501';
+  END IF;
+  IF current_appointment.status <> 'confirmed' OR current_appointment.starts_at <= now() THEN
+    RAISE EXCEPTION 'Only upcoming appointments can be rescheduled';
+  END IF;
+
+  IF actor = current_appointment.client_id THEN
+    IF current_appointment.starts_at < now() + interval '12 hours' THEN
+      RAISE EXCEPTION 'Appointments can only be rescheduled up to 12 hours before they start';
+    END IF;
+    IF current_appointment.reschedule_count >= 2 THEN
+      RAISE EXCEPTION 'This appointment has already been rescheduled twice; cancel it and book a new slot';
+    END IF;
+  END IF;
+
+  SELECT s.ends_at INTO slot_end
+  FROM public.available_slots(current_appointment.lawyer_id, slot_day, slot_day, _appointment_id) s
+  WHERE s.starts_at = _starts_at;
+  IF slot_end IS NULL THEN
+    RAISE EXCEPTION 'That slot is no longer available';
+  END IF;
+
+  BEGIN
+    UPDATE public.appointments
+    SET starts_at = _starts_at,
+        ends_at = slot_end,
+        reschedule_count = reschedule_count + CASE WHEN actor = current_appointment.client_id THEN 1 ELSE 0 END,
+        reminded_at = NULL
+    WHERE id = _appointment_id
+    RETURNING * INTO moved;
+  EXCEPTION WHEN exclusion_violation THEN
+    GET STACKED DIAGNOSTICS violated = CONSTRAINT_NAME;
+    IF violated = 'appointments_client_no_overlap' THEN
+      RAISE EXCEPTION 'The client already has a consultation at that time';
+    END IF;
+    RAISE EXCEPTION 'That slot was just booked by someone else';
+  END;
+
+  PERFORM public.notify_appointment(
+    moved,
+    CASE WHEN actor = moved.client_id THEN moved.lawyer_id ELSE moved.client_id END,
+    'appointment_rescheduled',
+    'Consultation rescheduled'
+  );
+  RETURN moved;
+END;
+$$;
+
+-- Cancel an upcoming appointment. Clients can cancel up to 12 hours before it starts; lawyers
+-- at any time before it starts, but must say why.
+CREATE OR REPLACE FUNCTION public.cancel_appointment(_appointment_id uuid, _reason text DEFAULT NULL)
+RETURNS public.appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  current_appointment public.appointments;
+  cancelled public.appointments;
+BEGIN
+  SELECT * INTO current_appointment FROM public.appointments WHERE id = _appointment_id FOR UPDATE;
+  IF current_appointment.id IS NULL OR actor IS NULL
+    OR actor NOT IN (current_appointment.client_id, current_appointment.lawyer_id) THEN
+    RAISE EXCEPTION 'Appointment not found' USING ERRCODE = '42501';
+  END IF;
+  IF current_appointment.status <> 'confirmed' OR current_appointment.starts_at <= now() THEN
+    RAISE EXCEPTION 'Only upcoming appointments can be cancelled';
+  END IF;
+
+  IF actor = current_appointment.client_id AND current_appointment.starts_at < now() + interval '12 hours' THEN
+    RAISE EXCEPTION 'Appointments can only be cancelled up to 12 hours before they start';
+  END IF;
+  IF actor = current_appointment.lawyer_id AND NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Tell your client why you are cancelling';
+  END IF;
+
+  UPDATE public.appointments
+  SET status = 'cancelled',
+      cancelled_by = actor,
+      cancellation_reason = NULLIF(trim(_reason), ''),
+      cancelled_at = now()
+  WHERE id = _appointment_id
+  RETURNING * INTO cancelled;
+
+  PERFORM public.notify_appointment(
+    cancelled,
+    CASE WHEN actor = cancelled.client_id THEN cancelled.lawyer_id ELSE cancelled.client_id END,
+    'appointment_cancelled',
+    'Consultation cancelled'
+  );
+  RETURN cancelled;
+END;
+$$;
+
+-- Replace the signed-in lawyer's weekly hours in one go; rows are checked by RLS and the
+-- overlap constraint
+CREATE OR REPLACE FUNCTION public.set_working_hours(_hours jsonb)
+RETURNS SETOF public.lawyer_working_hours
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.lawyer_working_hours WHERE lawyer_id = auth.uid();
+
+  INSERT INTO public.lawyer_working_hours (lawyer_id, weekday, start_time, end_time)
+  SELECT auth.uid(), (hours->>'weekday')::smallint, (hours->>'start_time')::time, (hours->>'end_time')::time
+  FROM jsonb_array_elements(_hours) AS hours;
+
+  RETURN QUERY
+  SELECT * FROM public.lawyer_working_hours
+  WHERE lawyer_id = auth.uid()
+  ORDER BY weekday, start_time;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.available_slots(uuid, date, date, uuid) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.book_appointment(uuid, timestamp with time zone, text, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.reschedule_appointment(uuid, timestamp with time zone) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_appointment(uuid, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_working_hours(jsonb) TO authenticated, service_role;
+
+-- Both dashboards refresh their upcoming appointments when one is booked, moved or cancelled
+ALTER PUBLICATION supabase_realtime ADD TABLE public.appointments;
@@ -0,0 +1,20 @@
+-- Case briefs built by the case-brief edge function from a user's AI chat. send-message copies
+-- the brief onto a case request by id, so the brief a lawyer sees is always the one the AI
+-- wrote and never one supplied by the client.
+
+CREATE TABLE IF NOT EXISTS public.case_briefs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  session_id uuid REFERENCES public.chat_sessions(id) ON DELETE CASCADE NOT NULL,
+  -- {title, issue, facts, jurisdiction, urgency, urgency_reason, specialization, source_session_id, generated_at}
+  brief jsonb NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_briefs_session ON public.case_briefs(session_id, created_at DESC);
+
+ALTER TABLE public.case_briefs ENABLE ROW LEVEL SECURITY;
+
+-- No insert, update or delete policies: only the edge functions write briefs
+CREATE POLICY "Users can view their own case briefs" ON public.case_briefs
+  FOR SELECT USING (auth.uid() = user_id);